@@ -15,6 +15,8 @@ const config = {
   adminToken: process.env.ADMIN_API_TOKEN ?? '',
   nextApiBase: (process.env.NEXT_API_BASE ?? 'https://app.dataruapp.com').replace(/\/+$/, ''),
   nextApiToken: process.env.NEXT_API_TOKEN ?? '',
+  linkAccessSecret: process.env.LINK_ACCESS_SECRET ?? '',
+  billingGrantSecret: process.env.BILLING_GRANT_SECRET ?? '',
 };
 
 if (!config.adminToken) {
@@ -23,5 +25,11 @@ if (!config.adminToken) {
 if (!config.nextApiToken) {
   console.warn('[config] NEXT_API_TOKEN is not set - download callbacks will be skipped.');
 }
+if (!config.linkAccessSecret) {
+  console.warn('[config] LINK_ACCESS_SECRET is not set - password-protected links cannot be downloaded.');
+}
+if (!config.billingGrantSecret) {
+  console.warn('[config] BILLING_GRANT_SECRET is not set - download pages carry no billing grants.');
+}
 
 module.exports = config;
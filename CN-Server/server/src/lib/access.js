@@ -0,0 +1,91 @@
+const crypto = require('crypto');
+const config = require('../config');
+
+// Mirrors src/lib/link-access.ts on the main app: passwords are stored as the
+// `salt:hash` PBKDF2 record it produces, grants are `<exp>.<sig>`. Billing grants mirror
+// src/lib/billing-grant.ts and are redeemed by the main app, so only signing lives here.
+const PBKDF2_ITERATIONS = 100000;
+const GRANT_TTL_SECONDS = 15 * 60;
+const BILLING_GRANT_TTL_SECONDS = 30 * 60;
+// Same limit as the main app: 10 wrong passwords per link and visitor IP within 15 minutes.
+// Counted per IP only, so nobody can lock other visitors out of a link.
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_PASSWORD_FAILURES_PER_IP = 10;
+const PASSWORD_FAILURE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// `<linkId> <ip>` -> times of recent failures. Kept in memory; a restart clears it.
+const passwordFailures = new Map();
+
+const safeEqual = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const verifyLinkPassword = (password, record) => {
+  if (!password || typeof record !== 'string') return false;
+  const [saltHex, hashHex] = record.split(':');
+  if (!saltHex || !hashHex) return false;
+  const derived = crypto
+    .pbkdf2Sync(String(password), Buffer.from(saltHex, 'hex'), PBKDF2_ITERATIONS, 32, 'sha256')
+    .toString('hex');
+  return safeEqual(derived, hashHex);
+};
+
+const recentPasswordFailures = (key, now) =>
+  (passwordFailures.get(key) || []).filter((time) => time > now - PASSWORD_ATTEMPT_WINDOW_MS);
+
+const isPasswordAttemptLimited = (linkId, ip, now = Date.now()) =>
+  recentPasswordFailures(`${linkId} ${ip || 'unknown'}`, now).length >= MAX_PASSWORD_FAILURES_PER_IP;
+
+const recordPasswordFailure = (linkId, ip, now = Date.now()) => {
+  const key = `${linkId} ${ip || 'unknown'}`;
+  passwordFailures.set(key, [...recentPasswordFailures(key, now), now]);
+};
+
+setInterval(() => {
+  const now = Date.now();
+  for (const key of passwordFailures.keys()) {
+    const recent = recentPasswordFailures(key, now);
+    if (recent.length) passwordFailures.set(key, recent);
+    else passwordFailures.delete(key);
+  }
+}, PASSWORD_FAILURE_SWEEP_INTERVAL_MS).unref();
+
+const signGrant = (linkId, exp) =>
+  crypto.createHmac('sha256', config.linkAccessSecret).update(`${linkId}.${exp}`).digest('base64url');
+
+const createLinkGrant = (linkId) => {
+  const exp = Math.floor(Date.now() / 1000) + GRANT_TTL_SECONDS;
+  return `${exp}.${signGrant(linkId, exp)}`;
+};
+
+const verifyLinkGrant = (linkId, token) => {
+  if (!config.linkAccessSecret || typeof token !== 'string' || !token) return false;
+  const [expPart, signature, extra] = token.split('.');
+  if (!expPart || !signature || extra !== undefined) return false;
+  const exp = Number(expPart);
+  if (!Number.isInteger(exp) || exp < Math.floor(Date.now() / 1000)) return false;
+  return safeEqual(signGrant(linkId, exp), signature);
+};
+
+// `<exp>.<nonce>.<sig>` for one platform's download; null when no secret is configured.
+const createBillingGrant = (linkId, platform) => {
+  if (!config.billingGrantSecret) return null;
+  const exp = Math.floor(Date.now() / 1000) + BILLING_GRANT_TTL_SECONDS;
+  const nonce = crypto.randomBytes(16).toString('base64url');
+  const signature = crypto
+    .createHmac('sha256', config.billingGrantSecret)
+    .update(`bill.${linkId}.${platform}.${exp}.${nonce}`)
+    .digest('base64url');
+  return `${exp}.${nonce}.${signature}`;
+};
+
+module.exports = {
+  verifyLinkPassword,
+  isPasswordAttemptLimited,
+  recordPasswordFailure,
+  createLinkGrant,
+  verifyLinkGrant,
+  createBillingGrant,
+};
@@ -0,0 +1,98 @@
+// Mirrors src/lib/release-notes.ts on the main app: notes arrive as plain text in the
+// link's language or as a JSON object keyed by language, and are rendered with the same
+// markdown subset.
+
+const escapeHtml = (value) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const parseReleaseNotes = (value, fallbackLang) => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) return {};
+  if (text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        const notes = {};
+        for (const [lang, entry] of Object.entries(parsed)) {
+          if (typeof entry === 'string' && entry.trim()) notes[lang] = entry.trim();
+        }
+        return notes;
+      }
+    } catch {
+      // Plain text that happens to start with a brace.
+    }
+  }
+  return { [fallbackLang]: text };
+};
+
+const pickReleaseNotes = (value, locale, fallbackLang) => {
+  const notes = parseReleaseNotes(value, fallbackLang);
+  return notes[locale] ?? notes[fallbackLang] ?? Object.values(notes)[0] ?? null;
+};
+
+const renderInline = (text) => {
+  const codes = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code) => {
+    codes.push(`<code>${code}</code>`);
+    return `\u0000${codes.length - 1}\u0000`;
+  });
+  html = html
+    .replace(
+      /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g,
+      '<a href="$2" target="_blank" rel="noopener noreferrer nofollow">$1</a>'
+    )
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w*])\*([^*\s][^*]*)\*(?!\w)/g, '$1<em>$2</em>')
+    .replace(/(^|[^\w])_([^_\s][^_]*)_(?!\w)/g, '$1<em>$2</em>');
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index) => codes[Number(index)]);
+};
+
+const renderReleaseNotesHtml = (text) => {
+  const blocks = [];
+  let paragraph = [];
+  let list = null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+    if (list) {
+      blocks.push(`<${list.tag}>${list.items.map((item) => `<li>${item}</li>`).join('')}</${list.tag}>`);
+    }
+    paragraph = [];
+    list = null;
+  };
+
+  for (const rawLine of String(text ?? '').replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    const heading = /^(#{1,3})\s+(.+)$/.exec(line);
+    const bullet = /^[-*]\s+(.+)$/.exec(line);
+    const numbered = /^\d+[.)]\s+(.+)$/.exec(line);
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      const level = heading[1].length + 3;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      const tag = bullet ? 'ul' : 'ol';
+      if (paragraph.length || (list && list.tag !== tag)) flush();
+      list = list ?? { tag, items: [] };
+      list.items.push(renderInline((bullet ?? numbered)[1]));
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks.join('');
+};
+
+module.exports = {
+  parseReleaseNotes,
+  pickReleaseNotes,
+  renderReleaseNotesHtml,
+};
@@ -1,13 +1,39 @@
 const express = require('express');
 const { readLinkMetadata } = require('../lib/storage');
-const { renderDownloadPage } = require('../lib/render');
+const { renderDownloadPage, renderPasswordPage, renderUnavailablePage } = require('../lib/render');
+const {
+  verifyLinkPassword,
+  isPasswordAttemptLimited,
+  recordPasswordFailure,
+  createLinkGrant,
+  verifyLinkGrant,
+  createBillingGrant,
+} = require('../lib/access');
 const { pickLocale } = require('../lib/i18n');
 const config = require('../config');
 
 const router = express.Router();
 
-const notifyDownload = async (meta, platform) => {
-  if (!config.nextApiToken || typeof fetch !== 'function') return;
+// nginx passes the client address in X-Forwarded-For; `cf-ipcountry` is only there when
+// the server sits behind Cloudflare.
+const visitorIp = (req) => (req.get('x-forwarded-for') || '').split(',')[0].trim() || req.ip || null;
+
+const describeVisitor = (req) => ({
+  country: req.get('cf-ipcountry') || null,
+  userAgent: req.get('user-agent') || null,
+  referrer: req.get('referer') || null,
+  ip: visitorIp(req),
+  // Lets the main app leave HEAD requests and browser prefetches out of the counts.
+  method: req.method,
+  purpose: req.get('sec-purpose') || req.get('purpose') || req.get('x-purpose') || req.get('x-moz') || null,
+});
+
+// Resolves to null when the download may go ahead, 'limit' when the main app refuses it (link
+// expired or download cap reached), 'missing' when it no longer serves the link (turned off or
+// past its unpublish time), 'grant' when the billing grant is missing or invalid and 'points'
+// when the owner cannot pay for the download. Any other failure lets the download through.
+const notifyDownload = async (meta, platform, file, visitor, grant) => {
+  if (!config.nextApiToken || typeof fetch !== 'function') return null;
   try {
     const response = await fetch(`${config.nextApiBase}/api/cn/download`, {
       method: 'POST',
@@ -20,8 +46,24 @@ const notifyDownload = async (meta, platform) => {
         linkCode: meta.link.code,
         ownerId: meta.link.ownerId,
         platform,
+        fileId: file.id ?? null,
+        version: file.version ?? null,
+        grant: typeof grant === 'string' ? grant : null,
+        ...visitor,
       }),
     });
+    if (response.status === 410) {
+      return 'limit';
+    }
+    if (response.status === 403) {
+      return 'grant';
+    }
+    if (response.status === 404) {
+      return 'missing';
+    }
+    if (response.status === 402) {
+      return 'points';
+    }
     if (!response.ok) {
       const body = await response.text().catch(() => '');
       console.warn('[notify] upstream rejected download', response.status, body);
@@ -29,9 +71,61 @@ const notifyDownload = async (meta, platform) => {
   } catch (error) {
     console.warn('[notify] failed to notify upstream download', error);
   }
+  return null;
 };
 
-const ensureActiveLink = (meta) => meta && meta.link && meta.link.isActive;
+// Single-use grants the main app redeems when it bills the owner for a /dl hit.
+const billingGrantsFor = (meta) =>
+  meta.link.ownerId
+    ? { apk: createBillingGrant(meta.link.id, 'apk'), ipa: createBillingGrant(meta.link.id, 'ipa') }
+    : {};
+
+// The main app turns a link off at its unpublish time only on the next cron run, so the
+// synced time is checked here as well.
+const isUnpublished = (meta) =>
+  typeof meta.link.unpublishAt === 'number' && meta.link.unpublishAt * 1000 <= Date.now();
+
+const ensureActiveLink = (meta) => meta && meta.link && meta.link.isActive && !isUnpublished(meta);
+
+// Inactive, but waiting for the go-live time the main app will publish it at.
+const isComingSoon = (meta) =>
+  Boolean(meta && meta.link && !meta.link.isActive && typeof meta.link.publishAt === 'number');
+
+// Vanity codes are stored lower-cased, so a mixed-case code without metadata of its own is
+// redirected to its lower-cased form the same way a renamed code is.
+const findLinkMetadata = async (code) => {
+  const meta = await readLinkMetadata(code);
+  if (meta) return meta;
+  const lowered = code.toLowerCase();
+  if (lowered === code || !(await readLinkMetadata(lowered))) return null;
+  return { redirect: lowered };
+};
+
+// Renamed links leave `{ redirect: <new code> }` stubs under their old codes. POSTs use 307
+// so the password form is resubmitted to the new address.
+const redirectRenamedLink = (req, res, code, meta) => {
+  if (!meta || typeof meta.redirect !== 'string' || !meta.redirect) return false;
+  const target = req.originalUrl.replace(`/${encodeURIComponent(code)}`, `/${encodeURIComponent(meta.redirect)}`);
+  res.set('cache-control', 'no-store');
+  res.redirect(req.method === 'POST' ? 307 : 302, target);
+  return true;
+};
+
+const isProtected = (meta) => Boolean(meta.link.accessPassword);
+
+const isExpired = (meta) =>
+  typeof meta.link.expiresAt === 'number' && meta.link.expiresAt * 1000 <= Date.now();
+
+const sendUnavailable = (req, res, meta, reason) => {
+  const locale = pickLocale(meta.link.language, req.headers['accept-language']);
+  res.set('content-type', 'text/html; charset=utf-8');
+  res.set('cache-control', 'no-store');
+  return res.status(410).send(renderUnavailablePage({ meta, locale, reason }));
+};
+
+// Protected links require the `g` grant issued by POST /d/:code on every /dl and /m hit.
+const hasAccess = (meta, grant) =>
+  !isProtected(meta) || verifyLinkGrant(meta.link.id, typeof grant === 'string' ? grant : '');
 
 router.get('/healthz', (req, res) => {
   res.json({ ok: true, uptime: process.uptime() });
@@ -40,23 +134,79 @@ router.get('/healthz', (req, res) => {
 router.get('/d/:code', async (req, res) => {
   const code = String(req.params.code ?? '').trim();
   if (!code) return res.status(404).send('Not Found');
-  const meta = await readLinkMetadata(code);
+  const meta = await findLinkMetadata(code);
+  if (redirectRenamedLink(req, res, code, meta)) return undefined;
+  if (isComingSoon(meta)) {
+    const locale = pickLocale(req.query.lang ?? meta.link.language, req.headers['accept-language']);
+    res.set('content-type', 'text/html; charset=utf-8');
+    res.set('cache-control', 'no-store');
+    return res.send(renderUnavailablePage({ meta, locale, reason: 'scheduled' }));
+  }
   if (!ensureActiveLink(meta)) {
     return res.status(404).send('Not Found');
   }
   const locale = pickLocale(req.query.lang ?? meta.link.language, req.headers['accept-language']);
-  const html = renderDownloadPage({ meta, locale, publicBaseUrl: config.publicBaseUrl });
   res.set('content-type', 'text/html; charset=utf-8');
+  res.set('cache-control', 'no-store');
+  if (isExpired(meta)) {
+    return res.status(410).send(renderUnavailablePage({ meta, locale, reason: 'expired' }));
+  }
+  const grant = isProtected(meta) ? req.query.g : null;
+  if (!hasAccess(meta, grant)) {
+    return res.send(renderPasswordPage({ meta, locale }));
+  }
+  const html = renderDownloadPage({
+    meta,
+    locale,
+    publicBaseUrl: config.publicBaseUrl,
+    grant,
+    billingGrants: billingGrantsFor(meta),
+  });
   res.send(html);
 });
 
+router.post('/d/:code', express.urlencoded({ extended: false, limit: '4kb' }), async (req, res) => {
+  const code = String(req.params.code ?? '').trim();
+  if (!code) return res.status(404).send('Not Found');
+  const meta = await findLinkMetadata(code);
+  if (redirectRenamedLink(req, res, code, meta)) return undefined;
+  if (!ensureActiveLink(meta)) {
+    return res.status(404).send('Not Found');
+  }
+  const locale = pickLocale(req.query.lang ?? meta.link.language, req.headers['accept-language']);
+  const pagePath = `/d/${encodeURIComponent(meta.link.code)}?lang=${encodeURIComponent(locale)}`;
+  if (!isProtected(meta)) {
+    return res.redirect(303, pagePath);
+  }
+  const ip = visitorIp(req);
+  if (isPasswordAttemptLimited(meta.link.id, ip)) {
+    res.set('content-type', 'text/html; charset=utf-8');
+    res.set('cache-control', 'no-store');
+    return res.status(429).send(renderPasswordPage({ meta, locale, throttled: true }));
+  }
+  if (!verifyLinkPassword(req.body?.password, meta.link.accessPassword)) {
+    recordPasswordFailure(meta.link.id, ip);
+    res.set('content-type', 'text/html; charset=utf-8');
+    res.set('cache-control', 'no-store');
+    return res.status(401).send(renderPasswordPage({ meta, locale, invalid: true }));
+  }
+  return res.redirect(303, `${pagePath}&g=${encodeURIComponent(createLinkGrant(meta.link.id))}`);
+});
+
 router.get('/m/:code', async (req, res) => {
   const code = String(req.params.code ?? '').trim();
   if (!code) return res.status(404).send('Not Found');
-  const meta = await readLinkMetadata(code);
+  const meta = await findLinkMetadata(code);
+  if (redirectRenamedLink(req, res, code, meta)) return undefined;
   if (!ensureActiveLink(meta)) {
     return res.status(404).send('Not Found');
   }
+  if (!hasAccess(meta, req.query.g)) {
+    return res.status(403).send('Forbidden');
+  }
+  if (isExpired(meta)) {
+    return res.status(410).send('Link Expired');
+  }
   const ipa =
     (meta.files || []).find((file) => (file.platform ?? '').toLowerCase() === 'ipa' && file.key) ?? null;
   if (!ipa) {
@@ -64,6 +214,18 @@ router.get('/m/:code', async (req, res) => {
   }
   const bundleId = ipa.bundleId || meta.link.bundleId || `com.unknown.${meta.link.code}`;
   const version = ipa.version || meta.link.ipaVersion || meta.link.apkVersion || '1.0';
+  const iconUrl = ipa.iconKey ? `${config.publicBaseUrl}/files/${encodeURIComponent(ipa.iconKey)}` : '';
+  const iconAssets = iconUrl
+    ? ['display-image', 'full-size-image']
+        .map(
+          (kind) => `
+          <dict>
+            <key>kind</key><string>${kind}</string>
+            <key>url</key><string>${escapeXml(iconUrl)}</string>
+          </dict>`
+        )
+        .join('')
+    : '';
   const manifest = `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
 <plist version="1.0">
@@ -76,7 +238,7 @@ router.get('/m/:code', async (req, res) => {
           <dict>
             <key>kind</key><string>software-package</string>
             <key>url</key><string>${escapeXml(`${config.publicBaseUrl}/files/${encodeURIComponent(ipa.key)}`)}</string>
-          </dict>
+          </dict>${iconAssets}
         </array>
         <key>metadata</key>
         <dict>
@@ -96,10 +258,17 @@ router.get('/m/:code', async (req, res) => {
 router.get('/dl/:code', async (req, res) => {
   const code = String(req.params.code ?? '').trim();
   if (!code) return res.status(404).send('Not Found');
-  const meta = await readLinkMetadata(code);
+  const meta = await findLinkMetadata(code);
+  if (redirectRenamedLink(req, res, code, meta)) return undefined;
   if (!ensureActiveLink(meta)) {
     return res.status(404).send('Not Found');
   }
+  if (!hasAccess(meta, req.query.g)) {
+    return res.status(403).send('Forbidden');
+  }
+  if (isExpired(meta)) {
+    return sendUnavailable(req, res, meta, 'expired');
+  }
   const files = (meta.files || []).filter((file) => file.key);
   if (!files.length) {
     return res.status(404).send('Not Found');
@@ -120,12 +289,33 @@ router.get('/dl/:code', async (req, res) => {
     return res.status(404).send('Not Found');
   }
 
-  await notifyDownload(meta, platform).catch(() => null);
+  const refusal = await notifyDownload(meta, platform, selected, describeVisitor(req), req.query.b).catch(
+    () => null
+  );
+  if (refusal === 'limit') {
+    return sendUnavailable(req, res, meta, 'limit');
+  }
+  if (refusal === 'missing') {
+    return res.status(404).send('Not Found');
+  }
+  if (refusal === 'grant' || refusal === 'points') {
+    // Used or missing billing grant, or an owner out of points: back to the page, which hands
+    // out fresh grants.
+    const page = new URLSearchParams();
+    ['lang', 'g'].forEach((key) => {
+      if (typeof req.query[key] === 'string' && req.query[key]) page.set(key, req.query[key]);
+    });
+    const search = page.toString();
+    res.set('cache-control', 'no-store');
+    return res.redirect(302, `/d/${encodeURIComponent(meta.link.code)}${search ? `?${search}` : ''}`);
+  }
 
   if (platform === 'apk') {
     return res.redirect(`${config.publicBaseUrl}/files/${encodeURIComponent(selected.key)}`);
   }
-  const manifestUrl = `${config.publicBaseUrl}/m/${encodeURIComponent(meta.link.code)}`;
+  const manifestUrl = `${config.publicBaseUrl}/m/${encodeURIComponent(meta.link.code)}${
+    isProtected(meta) ? `?g=${encodeURIComponent(String(req.query.g))}` : ''
+  }`;
   const destination = `itms-services://?action=download-manifest&url=${encodeURIComponent(manifestUrl)}`;
   return res.redirect(destination);
 });
@@ -1,4 +1,5 @@
 const { translate, supportedLocales } = require('./i18n');
+const { pickReleaseNotes, renderReleaseNotesHtml } = require('./release-notes');
 
 const escapeHtml = (input) =>
   String(input ?? '').replace(/[&<>"']/g, (match) => {
@@ -64,7 +65,7 @@ const renderLanguageSwitcher = (code, currentLocale) => {
   </script>`;
 };
 
-const renderDownloadPage = ({ meta, locale, publicBaseUrl }) => {
+const renderDownloadPage = ({ meta, locale, publicBaseUrl, grant = null, billingGrants = {} }) => {
   const link = meta.link;
   const files = meta.files ?? [];
   const translator = (key) => translate(locale, key);
@@ -74,11 +75,27 @@ const renderDownloadPage = ({ meta, locale, publicBaseUrl }) => {
   const ipaFile = findFile('ipa');
   const hasApk = Boolean(apkFile);
   const hasIpa = Boolean(ipaFile);
-  const downloadHrefApk = hasApk ? `/dl/${encodeURIComponent(link.code)}?p=apk` : '';
-  const downloadHrefIpa = hasIpa ? `/dl/${encodeURIComponent(link.code)}?p=ipa` : '';
+  const grantQuery = grant ? `&g=${encodeURIComponent(grant)}` : '';
+  const billingQuery = (platform) =>
+    billingGrants[platform] ? `&b=${encodeURIComponent(billingGrants[platform])}` : '';
+  const downloadHrefApk = hasApk
+    ? `/dl/${encodeURIComponent(link.code)}?p=apk${grantQuery}${billingQuery('apk')}`
+    : '';
+  const downloadHrefIpa = hasIpa
+    ? `/dl/${encodeURIComponent(link.code)}?p=ipa${grantQuery}${billingQuery('ipa')}`
+    : '';
   const developerName =
-    ipaFile?.bundleId || link.bundleId || apkFile?.bundleId || link.title || translator('downloadPage.enterpriseDev');
+    ipaFile?.teamName || ipaFile?.bundleId || link.bundleId || apkFile?.bundleId || link.title || translator('downloadPage.enterpriseDev');
   const currentYear = new Date().getFullYear();
+  const iconKey = ipaFile?.iconKey || apkFile?.iconKey || null;
+  const iconUrl = iconKey ? `${publicBaseUrl}/files/${encodeURIComponent(iconKey)}` : '';
+  const notesLanguage = link.language || 'en';
+  const linkNotes = pickReleaseNotes(link.releaseNotes, locale, notesLanguage);
+
+  const renderFileNotes = (file) => {
+    const notes = pickReleaseNotes(file.releaseNotes, locale, notesLanguage);
+    return notes ? `<div class="notes">${renderReleaseNotesHtml(notes)}</div>` : '';
+  };
 
   const renderFileRow = (title, file) => {
     if (!file) {
@@ -96,6 +113,7 @@ const renderDownloadPage = ({ meta, locale, publicBaseUrl }) => {
       formatFileSize(Number(file.size ?? 0))
     )}
         </div>
+        ${renderFileNotes(file)}
       </div>
     </div>`;
   };
@@ -115,7 +133,14 @@ const renderDownloadPage = ({ meta, locale, publicBaseUrl }) => {
     .container { max-width: 640px; margin: 0 auto; padding: 2.5rem 1.5rem 3rem; }
     .card { background: #0f172a; border-radius: 18px; padding: 2rem; box-shadow: 0 30px 60px rgba(15,23,42,.55); }
     h1 { margin: 0 0 1rem; font-size: 2rem; }
+    .app-icon { display:block; width:72px; height:72px; border-radius:16px; margin-bottom:1rem; }
     .meta { display:flex; flex-wrap:wrap; gap:1rem; color:#cbd5f5; }
+    .notes { margin-top:0.75rem; color:#cbd5f5; font-size:0.95rem; }
+    .notes h2 { margin:1.5rem 0 0.5rem; font-size:1.2rem; color:#f1f5f9; }
+    .notes h4, .notes h5, .notes h6 { margin:0.75rem 0 0.25rem; font-size:1rem; color:#f1f5f9; }
+    .notes p, .notes ul, .notes ol { margin:0.4rem 0; }
+    .notes ul, .notes ol { padding-left:1.4rem; }
+    .notes a { color:#38bdf8; }
     .file-group { margin-top: 2rem; }
     .file-row { padding: 1rem; background:#111b2f; border-radius:12px; margin-bottom:0.75rem; }
     .file-row--empty { color:#94a3b8; font-style:italic; text-align:center; }
@@ -143,6 +168,7 @@ const renderDownloadPage = ({ meta, locale, publicBaseUrl }) => {
 <body>
   <div class="container">
     <div class="card">
+      ${iconUrl ? `<img class="app-icon" src="${attr(iconUrl)}" alt="" width="72" height="72" />` : ''}
       <h1>${escapeHtml(link.title ?? ipaFile?.title ?? apkFile?.title ?? 'App')}</h1>
       <div class="meta">
         <div>${escapeHtml(translator('downloadPage.versionLabel'))}: ${escapeHtml(
@@ -158,6 +184,13 @@ const renderDownloadPage = ({ meta, locale, publicBaseUrl }) => {
             : '—'
         }</div>
       </div>
+      ${
+        linkNotes
+          ? `<div class="notes"><h2>${escapeHtml(
+              translator('downloadPage.releaseNotes')
+            )}</h2>${renderReleaseNotesHtml(linkNotes)}</div>`
+          : ''
+      }
 
       <div class="file-group">
         <h2>${escapeHtml(translator('downloadPage.androidApk'))}</h2>
@@ -281,6 +314,116 @@ const renderDownloadPage = ({ meta, locale, publicBaseUrl }) => {
 </html>`;
 };
 
+const renderPasswordPage = ({ meta, locale, invalid = false, throttled = false }) => {
+  const link = meta.link;
+  const translator = (key) => translate(locale, key);
+  const title = link.title ?? 'App';
+  const action = `/d/${encodeURIComponent(link.code)}?lang=${encodeURIComponent(locale)}`;
+
+  return `<!DOCTYPE html>
+<html lang="${attr(locale)}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)} · ${escapeHtml(translator('downloadPage.passwordTitle'))}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 0; background:#0b1222; color:#f1f5f9; }
+    .container { max-width: 480px; margin: 0 auto; padding: 2.5rem 1.5rem 3rem; }
+    .card { background: #0f172a; border-radius: 18px; padding: 2rem; box-shadow: 0 30px 60px rgba(15,23,42,.55); }
+    h1 { margin: 0 0 0.5rem; font-size: 1.6rem; }
+    label { display:block; margin-top:1.25rem; font-size:0.9rem; color:#cbd5f5; }
+    input { box-sizing:border-box; width:100%; margin-top:0.5rem; padding:0.75rem 1rem; border-radius:12px; background:#0b1222; border:1px solid #334155; color:#f8fafc; font-size:1rem; }
+    .btn { width:100%; margin-top:1.25rem; padding:0.9rem 1rem; border:none; border-radius:999px; font-weight:600; font-size:1rem; background:#38bdf8; color:#0f172a; cursor:pointer; }
+    .error { margin-top:1rem; color:#f87171; font-size:0.9rem; }
+    .lang-switch { display:flex; align-items:center; gap:0.75rem; margin-top:1.5rem; font-size:0.9rem; color:#cbd5f5; }
+    .lang-switch select { background:#0b1222; border:1px solid #334155; color:#f8fafc; border-radius:10px; padding:0.4rem 0.8rem; }
+    .muted { color:#94a3b8; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <form class="card" method="post" action="${attr(action)}">
+      <h1>${escapeHtml(title)}</h1>
+      <div class="muted">${escapeHtml(translator('downloadPage.passwordPrompt'))}</div>
+      <label for="password">${escapeHtml(translator('downloadPage.passwordLabel'))}</label>
+      <input id="password" name="password" type="password" autocomplete="off" required autofocus />
+      ${invalid ? `<div class="error" role="alert">${escapeHtml(translator('downloadPage.passwordInvalid'))}</div>` : ''}
+      ${throttled ? `<div class="error" role="alert">${escapeHtml(translator('downloadPage.passwordThrottled'))}</div>` : ''}
+      <button class="btn" type="submit">${escapeHtml(translator('downloadPage.passwordSubmit'))}</button>
+      ${renderLanguageSwitcher(link.code, locale)}
+    </form>
+  </div>
+</body>
+</html>`;
+};
+
+const UNAVAILABLE_KEYS = {
+  expired: ['downloadPage.expiredTitle', 'downloadPage.expiredMessage'],
+  limit: ['downloadPage.limitTitle', 'downloadPage.limitMessage'],
+  scheduled: ['downloadPage.comingSoonTitle', 'downloadPage.comingSoonMessage'],
+};
+
+// Go-live time in the zone the owner scheduled it in, labelled so visitors elsewhere can convert.
+const formatScheduleTime = (epochSeconds, locale, timeZone) => {
+  const options = {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  };
+  const date = new Date(epochSeconds * 1000);
+  try {
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone: timeZone || 'UTC' }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).format(date);
+  }
+};
+
+const renderUnavailablePage = ({ meta, locale, reason }) => {
+  const link = meta.link;
+  const translator = (key) => translate(locale, key);
+  const title = link.title ?? 'App';
+  const [headingKey, messageKey] = UNAVAILABLE_KEYS[reason] ?? UNAVAILABLE_KEYS.limit;
+  const heading = translator(headingKey);
+  const message =
+    reason === 'scheduled'
+      ? translator(messageKey).replace('{time}', formatScheduleTime(link.publishAt, locale, link.scheduleTimezone))
+      : translator(messageKey);
+
+  return `<!DOCTYPE html>
+<html lang="${attr(locale)}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)} · ${escapeHtml(heading)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 0; background:#0b1222; color:#f1f5f9; }
+    .container { max-width: 480px; margin: 0 auto; padding: 2.5rem 1.5rem 3rem; }
+    .card { background: #0f172a; border-radius: 18px; padding: 2rem; box-shadow: 0 30px 60px rgba(15,23,42,.55); }
+    h1 { margin: 0 0 0.5rem; font-size: 1.6rem; }
+    .error { margin-top:1rem; color:#f87171; font-weight:600; }
+    .muted { color:#94a3b8; }
+    .lang-switch { display:flex; align-items:center; gap:0.75rem; margin-top:1.5rem; font-size:0.9rem; color:#cbd5f5; }
+    .lang-switch select { background:#0b1222; border:1px solid #334155; color:#f8fafc; border-radius:10px; padding:0.4rem 0.8rem; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="card">
+      <h1>${escapeHtml(title)}</h1>
+      <div class="error">${escapeHtml(heading)}</div>
+      <div class="muted">${escapeHtml(message)}</div>
+      ${renderLanguageSwitcher(link.code, locale)}
+    </div>
+  </div>
+</body>
+</html>`;
+};
+
 module.exports = {
   renderDownloadPage,
+  renderPasswordPage,
+  renderUnavailablePage,
 };
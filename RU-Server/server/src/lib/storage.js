@@ -5,6 +5,9 @@ const config = require('../config');
 
 const FILES_DIR = path.join(config.storageRoot, 'files');
 const LINKS_DIR = path.join(config.storageRoot, 'links');
+// Upload tickets carry their upload token, so they live outside the public `files/` tree.
+const TICKETS_DIR = path.join(config.storageRoot, 'upload-tickets');
+const TICKET_ID_PATTERN = /^[0-9a-f-]{36}$/i;
 
 const sanitizeKey = (value) => {
   if (!value) return '';
@@ -90,9 +93,37 @@ const deleteLinkDirectory = async (ownerId, linkId) => {
   }
 };
 
+const getTicketPath = (ticketId) =>
+  TICKET_ID_PATTERN.test(String(ticketId)) ? path.join(TICKETS_DIR, `${ticketId}.json`) : null;
+
+const readUploadTicket = async (ticketId) => {
+  const filePath = getTicketPath(ticketId);
+  return filePath ? readJson(filePath) : null;
+};
+
+const writeUploadTicket = async (ticketId, ticket) => {
+  const filePath = getTicketPath(ticketId);
+  if (!filePath) throw new Error('INVALID_TICKET_ID');
+  await writeJson(filePath, ticket);
+};
+
+const deleteUploadTicket = async (ticketId) => {
+  const filePath = getTicketPath(ticketId);
+  if (filePath) await deleteFileByPath(filePath);
+};
+
+const listUploadTicketIds = async () => {
+  const entries = await fsp.readdir(TICKETS_DIR).catch(() => []);
+  return entries
+    .filter((entry) => entry.endsWith('.json'))
+    .map((entry) => entry.slice(0, -'.json'.length))
+    .filter((ticketId) => TICKET_ID_PATTERN.test(ticketId));
+};
+
 const initStorage = async () => {
   await ensureDir(FILES_DIR);
   await ensureDir(LINKS_DIR);
+  await ensureDir(TICKETS_DIR);
 };
 
 module.exports = {
@@ -105,4 +136,8 @@ module.exports = {
   writeLinkMetadata,
   deleteLinkMetadata,
   deleteLinkDirectory,
+  readUploadTicket,
+  writeUploadTicket,
+  deleteUploadTicket,
+  listUploadTicketIds,
 };
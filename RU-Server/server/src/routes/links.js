@@ -20,8 +20,14 @@ const requireAdmin = (req, res, next) => {
   return next();
 };
 
+// Old codes of a renamed link; only plain code characters so they stay file names.
+const normalizeAliases = (aliases, code) =>
+  (Array.isArray(aliases) ? aliases : [])
+    .map((alias) => String(alias ?? '').trim())
+    .filter((alias) => /^[A-Za-z0-9_-]{1,64}$/.test(alias) && alias !== code);
+
 router.post('/api/links/publish', requireAdmin, async (req, res) => {
-  const { link, files } = req.body ?? {};
+  const { link, files, aliases } = req.body ?? {};
   if (!link || !link.code || !link.id || !link.ownerId) {
     return res.status(400).json({ ok: false, error: 'INVALID_LINK' });
   }
@@ -43,6 +49,9 @@ router.post('/api/links/publish', requireAdmin, async (req, res) => {
         bundleId: file.bundleId ?? null,
         version: file.version ?? null,
         contentType: file.contentType ?? 'application/octet-stream',
+        teamName: file.teamName ?? null,
+        iconKey: sanitizeKey(file.iconKey) || null,
+        releaseNotes: typeof file.releaseNotes === 'string' ? file.releaseNotes : null,
       };
     })
     .filter(Boolean);
@@ -63,20 +72,34 @@ router.post('/api/links/publish', requireAdmin, async (req, res) => {
       language: link.language ?? 'en',
       isActive: Boolean(link.isActive),
       createdAt: Number(link.createdAt ?? Date.now()),
+      accessPassword: typeof link.accessPassword === 'string' && link.accessPassword ? link.accessPassword : null,
+      expiresAt: Number(link.expiresAt) > 0 ? Number(link.expiresAt) : null,
+      publishAt: Number(link.publishAt) > 0 ? Number(link.publishAt) : null,
+      scheduleTimezone: typeof link.scheduleTimezone === 'string' ? link.scheduleTimezone : null,
+      releaseNotes: typeof link.releaseNotes === 'string' ? link.releaseNotes : null,
     },
     files: normalizedFiles,
   });
 
+  await Promise.all(
+    normalizeAliases(aliases, link.code).map((alias) =>
+      writeLinkMetadata(alias, { redirect: link.code })
+    )
+  );
+
   return res.json({ ok: true });
 });
 
 router.post('/api/links/delete', requireAdmin, async (req, res) => {
-  const { code, keys } = req.body ?? {};
+  const { code, aliases, keys } = req.body ?? {};
   if (!code) {
     return res.status(400).json({ ok: false, error: 'INVALID_CODE' });
   }
   const meta = await readLinkMetadata(code).catch(() => null);
   await deleteLinkMetadata(code).catch(() => null);
+  await Promise.all(
+    normalizeAliases(aliases, code).map((alias) => deleteLinkMetadata(alias).catch(() => null))
+  );
   if (Array.isArray(keys) && keys.length) {
     await Promise.all(keys.map((key) => deleteFileByKey(key).catch(() => null)));
   }
@@ -8,10 +8,21 @@ const {
   getFilePathForKey,
   sanitizeKey,
   deleteFileByKey,
+  readUploadTicket,
+  writeUploadTicket,
+  deleteUploadTicket,
+  listUploadTicketIds,
 } = require('../lib/storage');
 
 const router = express.Router();
+// Tickets are cached here but persisted under STORAGE_ROOT/upload-tickets, so chunked uploads
+// can be resumed after a restart or deploy. Unfinished tickets expire after TICKET_TTL_MS.
 const uploadTickets = new Map();
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PART_COUNT = 10000;
+const MAX_OBJECT_SIZE = 4 * 1024 * 1024;
+const TICKET_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const TICKET_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
 
 const requireAdmin = (req, res, next) => {
   const header = req.headers.authorization ?? '';
@@ -26,8 +37,92 @@ const ensureParentDir = async (filePath) => {
   await fsp.mkdir(require('path').dirname(filePath), { recursive: true });
 };
 
+const getPartsDir = (filePath) => `${filePath}.parts`;
+
+const getPartPath = (ticket, partNumber) =>
+  require('path').join(getPartsDir(ticket.filePath), String(partNumber));
+
+const expectedPartSize = (ticket, partNumber) =>
+  partNumber < ticket.partCount
+    ? ticket.partSize
+    : ticket.size - ticket.partSize * (ticket.partCount - 1);
+
+const listReceivedParts = async (ticket) => {
+  const received = [];
+  for (let partNumber = 1; partNumber <= ticket.partCount; partNumber += 1) {
+    const stats = await fsp.stat(getPartPath(ticket, partNumber)).catch(() => null);
+    if (stats && stats.size === expectedPartSize(ticket, partNumber)) {
+      received.push(partNumber);
+    }
+  }
+  return received;
+};
+
+const removePartsDir = async (ticket) => {
+  await fsp.rm(getPartsDir(ticket.filePath), { recursive: true, force: true }).catch(() => null);
+};
+
+const saveTicket = async (ticketId, ticket) => {
+  const { filePath, ...stored } = ticket;
+  await writeUploadTicket(ticketId, stored);
+  uploadTickets.set(ticketId, ticket);
+};
+
+const forgetTicket = async (ticketId) => {
+  uploadTickets.delete(ticketId);
+  await deleteUploadTicket(ticketId).catch(() => null);
+};
+
+const isTicketExpired = (ticket) => Date.now() - Number(ticket.createdAt ?? 0) > TICKET_TTL_MS;
+
+// Drops an unfinished ticket and its parts. The target file is left alone; finished uploads
+// have no ticket left to expire.
+const expireTicket = async (ticketId, ticket) => {
+  if (ticket.partCount) await removePartsDir(ticket);
+  await forgetTicket(ticketId);
+};
+
+const findTicket = async (ticketId) => {
+  let ticket = uploadTickets.get(ticketId) ?? null;
+  if (!ticket) {
+    const stored = await readUploadTicket(ticketId).catch(() => null);
+    if (!stored || !stored.key) return null;
+    ticket = { ...stored, filePath: getFilePathForKey(stored.key) };
+    uploadTickets.set(ticketId, ticket);
+  }
+  if (isTicketExpired(ticket)) {
+    await expireTicket(ticketId, ticket);
+    return null;
+  }
+  return ticket;
+};
+
+const sweepExpiredTickets = async () => {
+  for (const ticketId of await listUploadTicketIds()) {
+    await findTicket(ticketId);
+  }
+};
+
+setInterval(() => {
+  sweepExpiredTickets().catch((error) => console.warn('[uploads] ticket sweep failed', error));
+}, TICKET_SWEEP_INTERVAL_MS).unref();
+
+const readTicket = async (req, res) => {
+  const ticket = await findTicket(req.params.ticketId);
+  if (!ticket) {
+    res.status(404).json({ ok: false, error: 'TICKET_NOT_FOUND' });
+    return null;
+  }
+  const headerToken = req.headers['x-upload-token'];
+  if (!headerToken || headerToken !== ticket.token) {
+    res.status(401).json({ ok: false, error: 'INVALID_UPLOAD_TOKEN' });
+    return null;
+  }
+  return ticket;
+};
+
 router.post('/api/uploads/presign', requireAdmin, async (req, res) => {
-  const { key, contentType, size, platform, linkId, ownerId } = req.body ?? {};
+  const { key, contentType, size, platform, linkId, ownerId, partSize } = req.body ?? {};
   if (!key || typeof key !== 'string') {
     return res.status(400).json({ ok: false, error: 'INVALID_KEY' });
   }
@@ -41,6 +136,19 @@ router.post('/api/uploads/presign', requireAdmin, async (req, res) => {
   if (!Number.isFinite(numericSize) || numericSize <= 0) {
     return res.status(400).json({ ok: false, error: 'INVALID_SIZE' });
   }
+  // Chunked tickets receive the file as numbered parts that can be retried or resumed.
+  let numericPartSize = null;
+  let partCount = null;
+  if (partSize !== undefined && partSize !== null) {
+    numericPartSize = Number(partSize);
+    if (!Number.isInteger(numericPartSize) || numericPartSize < MIN_PART_SIZE) {
+      return res.status(400).json({ ok: false, error: 'INVALID_PART_SIZE' });
+    }
+    partCount = Math.max(1, Math.ceil(numericSize / numericPartSize));
+    if (partCount > MAX_PART_COUNT) {
+      return res.status(400).json({ ok: false, error: 'TOO_MANY_PARTS' });
+    }
+  }
   const safeKey = sanitizeKey(key);
   const filePath = getFilePathForKey(safeKey);
   await ensureParentDir(filePath);
@@ -48,39 +156,73 @@ router.post('/api/uploads/presign', requireAdmin, async (req, res) => {
 
   const ticketId = crypto.randomUUID();
   const ticketToken = crypto.randomUUID();
-  uploadTickets.set(ticketId, {
+  const ticket = {
     key: safeKey,
     filePath,
     contentType: contentType || 'application/octet-stream',
     size: numericSize,
     token: ticketToken,
+    partSize: numericPartSize,
+    partCount,
     createdAt: Date.now(),
-  });
+  };
+  if (partCount) {
+    await removePartsDir(ticket);
+    await fsp.mkdir(getPartsDir(filePath), { recursive: true });
+  }
+  await saveTicket(ticketId, ticket);
 
   return res.json({
     ok: true,
+    ticketId,
     uploadUrl: `${config.publicBaseUrl}/api/uploads/${ticketId}`,
     uploadHeaders: {
       'x-upload-token': ticketToken,
     },
+    partSize: numericPartSize,
+    partCount,
   });
 });
 
 const corsHeaders = (res) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'PUT,OPTIONS');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,PUT,OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type,X-Upload-Token');
 };
 
-router.options('/api/uploads/:ticketId', (req, res) => {
-  corsHeaders(res);
-  res.status(204).end();
-});
+// Small files derived from a package (e.g. its extracted app icon), written next to the
+// uploads. Registered before the ticket routes so "object" is not taken for a ticket id.
+router.put(
+  '/api/uploads/object',
+  requireAdmin,
+  express.raw({ type: () => true, limit: MAX_OBJECT_SIZE }),
+  async (req, res) => {
+    const safeKey = sanitizeKey(typeof req.query.key === 'string' ? req.query.key : '');
+    if (!safeKey) {
+      return res.status(400).json({ ok: false, error: 'INVALID_KEY' });
+    }
+    if (!Buffer.isBuffer(req.body) || !req.body.length) {
+      return res.status(400).json({ ok: false, error: 'EMPTY_BODY' });
+    }
+    const filePath = getFilePathForKey(safeKey);
+    await ensureParentDir(filePath);
+    await fsp.writeFile(filePath, req.body);
+    return res.json({ ok: true, key: safeKey, size: req.body.length });
+  }
+);
+
+router.options(
+  ['/api/uploads/:ticketId', '/api/uploads/:ticketId/parts', '/api/uploads/:ticketId/parts/:partNumber'],
+  (req, res) => {
+    corsHeaders(res);
+    res.status(204).end();
+  }
+);
 
 router.put('/api/uploads/:ticketId', async (req, res) => {
   corsHeaders(res);
   const ticketId = req.params.ticketId;
-  const ticket = uploadTickets.get(ticketId);
+  const ticket = await findTicket(ticketId);
   if (!ticket) {
     return res.status(404).json({ ok: false, error: 'TICKET_NOT_FOUND' });
   }
@@ -95,18 +237,166 @@ router.put('/api/uploads/:ticketId', async (req, res) => {
     const stats = await fsp.stat(ticket.filePath).catch(() => null);
     if (!stats || stats.size <= 0) {
       await deleteFileByKey(ticket.key).catch(() => null);
-      uploadTickets.delete(ticketId);
+      await forgetTicket(ticketId);
       return res.status(400).json({ ok: false, error: 'EMPTY_UPLOAD' });
     }
-    uploadTickets.delete(ticketId);
+    await forgetTicket(ticketId);
     return res.json({ ok: true });
   } catch (error) {
     await deleteFileByKey(ticket.key).catch(() => null);
-    uploadTickets.delete(ticketId);
+    await forgetTicket(ticketId);
     return res.status(500).json({ ok: false, error: error.message });
   }
 });
 
+router.get('/api/uploads/:ticketId/parts', async (req, res) => {
+  corsHeaders(res);
+  const ticket = await readTicket(req, res);
+  if (!ticket) return undefined;
+  if (!ticket.partCount) {
+    return res.status(400).json({ ok: false, error: 'TICKET_NOT_CHUNKED' });
+  }
+  return res.json({
+    ok: true,
+    partSize: ticket.partSize,
+    partCount: ticket.partCount,
+    parts: await listReceivedParts(ticket),
+  });
+});
+
+router.put('/api/uploads/:ticketId/parts/:partNumber', async (req, res) => {
+  corsHeaders(res);
+  const ticket = await readTicket(req, res);
+  if (!ticket) return undefined;
+  if (!ticket.partCount) {
+    return res.status(400).json({ ok: false, error: 'TICKET_NOT_CHUNKED' });
+  }
+  const partNumber = Number(req.params.partNumber);
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > ticket.partCount) {
+    return res.status(400).json({ ok: false, error: 'INVALID_PART_NUMBER' });
+  }
+
+  // Write to a temporary name so an interrupted part never looks complete.
+  const partPath = getPartPath(ticket, partNumber);
+  const tempPath = `${partPath}.${crypto.randomUUID()}.tmp`;
+  try {
+    await pipeline(req, fs.createWriteStream(tempPath, { flags: 'w' }));
+    const stats = await fsp.stat(tempPath);
+    if (stats.size !== expectedPartSize(ticket, partNumber)) {
+      await fsp.rm(tempPath, { force: true });
+      return res.status(400).json({ ok: false, error: 'PART_SIZE_MISMATCH' });
+    }
+    await fsp.rename(tempPath, partPath);
+    return res.json({ ok: true, partNumber, etag: String(partNumber) });
+  } catch (error) {
+    await fsp.rm(tempPath, { force: true }).catch(() => null);
+    return res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+router.post('/api/uploads/:ticketId/complete', requireAdmin, async (req, res) => {
+  const ticketId = req.params.ticketId;
+  const ticket = await findTicket(ticketId);
+  if (!ticket) {
+    return res.status(404).json({ ok: false, error: 'TICKET_NOT_FOUND' });
+  }
+  if (!ticket.partCount) {
+    return res.status(400).json({ ok: false, error: 'TICKET_NOT_CHUNKED' });
+  }
+  const received = await listReceivedParts(ticket);
+  if (received.length !== ticket.partCount) {
+    const missing = [];
+    for (let partNumber = 1; partNumber <= ticket.partCount; partNumber += 1) {
+      if (!received.includes(partNumber)) missing.push(partNumber);
+    }
+    return res.status(409).json({ ok: false, error: 'PARTS_MISSING', missing });
+  }
+
+  try {
+    const writeStream = fs.createWriteStream(ticket.filePath, { flags: 'w' });
+    for (let partNumber = 1; partNumber <= ticket.partCount; partNumber += 1) {
+      await pipeline(fs.createReadStream(getPartPath(ticket, partNumber)), writeStream, {
+        end: false,
+      });
+    }
+    await new Promise((resolve, reject) => {
+      writeStream.on('error', reject);
+      writeStream.end(resolve);
+    });
+    await removePartsDir(ticket);
+    await forgetTicket(ticketId);
+    return res.json({ ok: true, size: ticket.size });
+  } catch (error) {
+    await deleteFileByKey(ticket.key).catch(() => null);
+    return res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+router.post('/api/uploads/:ticketId/abort', requireAdmin, async (req, res) => {
+  const ticketId = req.params.ticketId;
+  const ticket = await findTicket(ticketId);
+  if (ticket) {
+    await removePartsDir(ticket);
+    await deleteFileByKey(ticket.key).catch(() => null);
+    await forgetTicket(ticketId);
+  }
+  return res.json({ ok: true });
+});
+
+const MAX_RANGE_LENGTH = 32 * 1024 * 1024;
+
+router.post('/api/uploads/inspect', requireAdmin, async (req, res) => {
+  const safeKey = sanitizeKey(req.body?.key);
+  if (!safeKey) {
+    return res.status(400).json({ ok: false, error: 'INVALID_KEY' });
+  }
+  const filePath = getFilePathForKey(safeKey);
+  const stats = await fsp.stat(filePath).catch(() => null);
+  if (!stats || !stats.isFile()) {
+    return res.status(404).json({ ok: false, error: 'FILE_NOT_FOUND' });
+  }
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return res.json({ ok: true, size: stats.size, sha256: hash.digest('hex') });
+});
+
+router.get('/api/uploads/range', requireAdmin, async (req, res) => {
+  const safeKey = sanitizeKey(typeof req.query.key === 'string' ? req.query.key : '');
+  const offset = Number(req.query.offset);
+  const length = Number(req.query.length);
+  if (!safeKey) {
+    return res.status(400).json({ ok: false, error: 'INVALID_KEY' });
+  }
+  if (
+    !Number.isInteger(offset) ||
+    !Number.isInteger(length) ||
+    offset < 0 ||
+    length <= 0 ||
+    length > MAX_RANGE_LENGTH
+  ) {
+    return res.status(400).json({ ok: false, error: 'INVALID_RANGE' });
+  }
+  const filePath = getFilePathForKey(safeKey);
+  const stats = await fsp.stat(filePath).catch(() => null);
+  if (!stats || !stats.isFile()) {
+    return res.status(404).json({ ok: false, error: 'FILE_NOT_FOUND' });
+  }
+  if (offset + length > stats.size) {
+    return res.status(416).json({ ok: false, error: 'RANGE_NOT_SATISFIABLE' });
+  }
+  res.setHeader('Content-Type', 'application/octet-stream');
+  res.setHeader('Content-Length', String(length));
+  try {
+    await pipeline(fs.createReadStream(filePath, { start: offset, end: offset + length - 1 }), res);
+  } catch (error) {
+    if (!res.headersSent) {
+      return res.status(500).json({ ok: false, error: error.message });
+    }
+    res.destroy(error);
+  }
+  return undefined;
+});
+
 router.post('/api/uploads/cleanup', requireAdmin, async (req, res) => {
   const keys = Array.isArray(req.body?.keys) ? req.body.keys : [];
   await Promise.all(
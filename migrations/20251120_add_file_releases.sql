@@ -0,0 +1,11 @@
+ALTER TABLE files ADD COLUMN release_no INTEGER;
+ALTER TABLE files ADD COLUMN build TEXT;
+ALTER TABLE files ADD COLUMN release_notes TEXT;
+ALTER TABLE files ADD COLUMN uploaded_by TEXT;
+ALTER TABLE files ADD COLUMN is_current INTEGER NOT NULL DEFAULT 1;
+
+UPDATE files SET release_no = 1 WHERE release_no IS NULL;
+UPDATE files SET uploaded_by = owner_id WHERE uploaded_by IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_files_link_platform_release
+  ON files (link_id, platform, release_no);
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS udid_devices (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  link_id TEXT,
+  udid TEXT NOT NULL,
+  product TEXT,
+  os_version TEXT,
+  serial TEXT,
+  imei TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  UNIQUE (owner_id, udid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_udid_devices_owner_updated
+  ON udid_devices (owner_id, updated_at);
+
+ALTER TABLE files ADD COLUMN provisioned_devices TEXT;
@@ -0,0 +1,6 @@
+ALTER TABLE files ADD COLUMN team_name TEXT;
+ALTER TABLE files ADD COLUMN team_id TEXT;
+ALTER TABLE files ADD COLUMN profile_type TEXT;
+ALTER TABLE files ADD COLUMN profile_name TEXT;
+ALTER TABLE files ADD COLUMN profile_expires_at INTEGER;
+ALTER TABLE files ADD COLUMN entitlements TEXT;
@@ -0,0 +1 @@
+ALTER TABLE links ADD COLUMN access_password TEXT;
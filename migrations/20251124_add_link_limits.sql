@@ -0,0 +1,4 @@
+ALTER TABLE links ADD COLUMN expires_at INTEGER;
+ALTER TABLE links ADD COLUMN max_downloads INTEGER;
+ALTER TABLE links ADD COLUMN max_apk_downloads INTEGER;
+ALTER TABLE links ADD COLUMN max_ipa_downloads INTEGER;
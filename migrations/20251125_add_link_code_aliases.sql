@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS link_code_aliases (
+  code TEXT PRIMARY KEY,
+  link_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_code_aliases_link_id ON link_code_aliases (link_id);
+
+-- Links created before the unique index may share a code. The oldest link keeps it; every
+-- other one is renamed to `<code>-<first 8 hex digits of its id>` and the shared code is
+-- recorded as its alias (one alias per code, so only the first renamed link gets it).
+INSERT OR IGNORE INTO link_code_aliases (code, link_id, created_at)
+SELECT code, id, CAST(strftime('%s', 'now') AS INTEGER)
+FROM links
+WHERE id != (
+  SELECT keeper.id FROM links AS keeper
+  WHERE keeper.code = links.code
+  ORDER BY keeper.created_at ASC, keeper.id ASC
+  LIMIT 1
+);
+
+UPDATE links
+SET code = code || '-' || lower(substr(replace(id, '-', ''), 1, 8))
+WHERE id != (
+  SELECT keeper.id FROM links AS keeper
+  WHERE keeper.code = links.code
+  ORDER BY keeper.created_at ASC, keeper.id ASC
+  LIMIT 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_links_code ON links (code);
@@ -0,0 +1,5 @@
+ALTER TABLE links ADD COLUMN publish_at INTEGER;
+ALTER TABLE links ADD COLUMN unpublish_at INTEGER;
+ALTER TABLE links ADD COLUMN schedule_timezone TEXT;
+CREATE INDEX IF NOT EXISTS idx_links_publish_at ON links (publish_at);
+CREATE INDEX IF NOT EXISTS idx_links_unpublish_at ON links (unpublish_at);
@@ -0,0 +1,20 @@
+-- Downloads are now counted only in link_download_stats (one row per link and UTC day).
+-- The per-link stats_<id> tables are copied over and dropped by
+-- scripts/migrate-download-stats.ts, which has to run once after this migration.
+CREATE TABLE IF NOT EXISTS link_download_stats (
+  link_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  apk_dl INTEGER NOT NULL DEFAULT 0,
+  ipa_dl INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (link_id, date),
+  FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_download_stats_link_date
+  ON link_download_stats (link_id, date);
+
+-- recordDownload updates the links counters in the same batch as the increment, and
+-- the triggers assume the today_*/total_*_dl column names, which not every database has.
+DROP TRIGGER IF EXISTS trg_link_download_stats_after_insert;
+DROP TRIGGER IF EXISTS trg_link_download_stats_after_update;
+DROP TRIGGER IF EXISTS trg_link_download_stats_after_delete;
@@ -0,0 +1,13 @@
+-- Downloads per link and UTC hour (`hour` is YYYY-MM-DDTHH), written next to the daily row.
+-- Only the last HOURLY_STATS_RETENTION_DAYS days are kept; workers/monitor deletes older hours.
+CREATE TABLE IF NOT EXISTS link_download_stats_hourly (
+  link_id TEXT NOT NULL,
+  hour TEXT NOT NULL,
+  apk_dl INTEGER NOT NULL DEFAULT 0,
+  ipa_dl INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (link_id, hour),
+  FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_download_stats_hourly_hour
+  ON link_download_stats_hourly (hour);
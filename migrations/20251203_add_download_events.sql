@@ -0,0 +1,23 @@
+-- One row per counted download for the stats modal's event table. `ip_hash` is an HMAC of
+-- the visitor IP keyed with DOWNLOAD_IP_HASH_SECRET; workers/monitor deletes rows older than
+-- DOWNLOAD_EVENT_RETENTION_DAYS.
+CREATE TABLE IF NOT EXISTS link_download_events (
+  id TEXT PRIMARY KEY,
+  link_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  platform TEXT NOT NULL,
+  file_id TEXT,
+  version TEXT,
+  country TEXT,
+  os TEXT,
+  device TEXT NOT NULL DEFAULT 'other',
+  referrer TEXT,
+  ip_hash TEXT,
+  FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_download_events_link_created
+  ON link_download_events (link_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_link_download_events_created
+  ON link_download_events (created_at);
@@ -0,0 +1,13 @@
+-- Download page funnel per link, UTC day and platform (`apk`, `ipa` or `other` for desktops
+-- and unknown devices). `/d/<code>` counts views; the page reports button clicks and the iOS
+-- trust guide to `/d/<code>/track`. Completed downloads come from link_download_stats.
+CREATE TABLE IF NOT EXISTS link_funnel_stats (
+  link_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  platform TEXT NOT NULL,
+  views INTEGER NOT NULL DEFAULT 0,
+  clicks INTEGER NOT NULL DEFAULT 0,
+  guides INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (link_id, date, platform),
+  FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+);
@@ -0,0 +1,16 @@
+-- Download hits served but not counted or billed, per link, UTC day and reason: `bot`
+-- (crawler or link preview User-Agent), `prefetch` (HEAD or browser prefetch), `duplicate`
+-- (same hashed IP and device within DOWNLOAD_DEDUPE_WINDOW_SECONDS) and `rate_limited`
+-- (more than DOWNLOAD_RATE_LIMIT downloads per hashed IP within DOWNLOAD_RATE_WINDOW_SECONDS).
+CREATE TABLE IF NOT EXISTS link_filtered_downloads (
+  link_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (link_id, date, reason),
+  FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+);
+
+-- The duplicate and rate checks look up a link's recent events from one hashed IP.
+CREATE INDEX IF NOT EXISTS idx_link_download_events_link_ip
+  ON link_download_events (link_id, ip_hash, created_at);
@@ -0,0 +1,32 @@
+-- Download prices in points, managed from /admin/pricing (see src/lib/pricing.ts). Base rules
+-- (no user_id) set the price of one platform and network area from effective_from on; member
+-- rules replace it (price) or discount it (discount_percent) for one account, and may leave
+-- platform or network_area NULL for all of them. Deleted rules keep their row for the ledger.
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id TEXT PRIMARY KEY,
+  platform TEXT,
+  network_area TEXT,
+  user_id TEXT,
+  price INTEGER,
+  discount_percent INTEGER,
+  effective_from INTEGER NOT NULL,
+  note TEXT,
+  created_at INTEGER NOT NULL,
+  created_by TEXT,
+  deleted_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_user_effective
+  ON pricing_rules (user_id, effective_from);
+
+-- The prices that were hard-coded in /api/dl/bill until now.
+INSERT OR IGNORE INTO pricing_rules (id, platform, network_area, user_id, price, effective_from, note, created_at) VALUES
+  ('default-apk-global', 'apk', 'global', NULL, 3, 0, 'Initial price', 0),
+  ('default-apk-CN', 'apk', 'CN', NULL, 10, 0, 'Initial price', 0),
+  ('default-apk-RU', 'apk', 'RU', NULL, 10, 0, 'Initial price', 0),
+  ('default-ipa-global', 'ipa', 'global', NULL, 5, 0, 'Initial price', 0),
+  ('default-ipa-CN', 'ipa', 'CN', NULL, 30, 0, 'Initial price', 0),
+  ('default-ipa-RU', 'ipa', 'RU', NULL, 30, 0, 'Initial price', 0);
+
+-- The rule each download bill was priced with.
+ALTER TABLE point_ledger ADD COLUMN pricing_rule_id TEXT;
@@ -0,0 +1,10 @@
+-- Nonces of download billing grants that were already redeemed by /dl or the CN/RU download
+-- reports. A grant pays for one download; rows are removed once the grant has expired.
+CREATE TABLE IF NOT EXISTS billing_grant_redemptions (
+  nonce TEXT PRIMARY KEY,
+  link_id TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_grant_redemptions_expires
+  ON billing_grant_redemptions (expires_at);
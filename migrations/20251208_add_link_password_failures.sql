@@ -0,0 +1,10 @@
+-- Wrong download page passwords, per link and hashed visitor IP. /d/<code> stops checking
+-- passwords for an IP after 10 failures within 15 minutes.
+CREATE TABLE IF NOT EXISTS link_password_failures (
+  link_id TEXT NOT NULL,
+  ip_hash TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_password_failures_link
+  ON link_password_failures (link_id, created_at);
@@ -0,0 +1,22 @@
+-- Counted downloads per link, UTC day and country, for the stats breakdown. Unlike
+-- link_download_events these rows are not trimmed by the workers/monitor cron, so long
+-- ranges add up to the same totals as link_download_stats. `country` is '' when unknown.
+CREATE TABLE IF NOT EXISTS link_country_downloads (
+  link_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  country TEXT NOT NULL DEFAULT '',
+  apk_dl INTEGER NOT NULL DEFAULT 0,
+  ipa_dl INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (link_id, date, country),
+  FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+);
+
+-- Seeds the table from the events still in the log.
+INSERT OR IGNORE INTO link_country_downloads (link_id, date, country, apk_dl, ipa_dl)
+SELECT link_id,
+  date(created_at, 'unixepoch'),
+  COALESCE(country, ''),
+  SUM(CASE WHEN platform='apk' THEN 1 ELSE 0 END),
+  SUM(CASE WHEN platform='ipa' THEN 1 ELSE 0 END)
+FROM link_download_events
+GROUP BY link_id, date(created_at, 'unixepoch'), COALESCE(country, '');
@@ -0,0 +1,132 @@
+// scripts/migrate-download-stats.ts
+//
+// 用法：
+//   tsx scripts/migrate-download-stats.ts [--db rudl_app] [--remote] [--dry-run]
+//
+// 一次性搬移：把舊的每連結統計表 stats_<linkId> 併入 link_download_stats 後刪除舊表。
+// 先套用 migrations/20251201_consolidate_download_stats.sql，部署新版後立即執行。
+// 併入是累加的（ON CONFLICT 相加），所以部署後已記到新表的下載不會被覆蓋；
+// 已搬完的表會被刪除，重跑不會重複計算。找不到對應連結的表只列出、不動。
+// 透過 npx wrangler d1 execute 操作資料庫；不加 --remote 時作用於本機 D1。
+
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { getLegacyStatsTableName } from '../src/lib/downloads';
+
+type Options = {
+  db: string;
+  remote: boolean;
+  dryRun: boolean;
+};
+
+type D1Result<T> = { results?: T[] };
+
+const parseArgs = (argv: string[]): Options => {
+  const options: Options = { db: 'rudl_app', remote: false, dryRun: false };
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === '--remote') options.remote = true;
+    else if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--db' && argv[index + 1]) options.db = argv[++index];
+    else {
+      console.error(`Unknown argument: ${arg}`);
+      console.error('Usage: tsx scripts/migrate-download-stats.ts [--db rudl_app] [--remote] [--dry-run]');
+      process.exit(2);
+    }
+  }
+  return options;
+};
+
+const wrangler = (options: Options, args: string[]) =>
+  execFileSync(
+    'npx',
+    ['wrangler', 'd1', 'execute', options.db, options.remote ? '--remote' : '--local', ...args],
+    { encoding: 'utf8', stdio: ['ignore', 'pipe', 'inherit'], maxBuffer: 64 * 1024 * 1024 }
+  );
+
+const query = <T>(options: Options, sql: string): T[] => {
+  const output = wrangler(options, ['--json', '--command', sql]);
+  const parsed = JSON.parse(output) as D1Result<T>[] | D1Result<T>;
+  const first = Array.isArray(parsed) ? parsed[0] : parsed;
+  return first?.results ?? [];
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const quoteText = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const buildTableSql = (table: string, linkId: string) => [
+  `INSERT INTO link_download_stats (link_id, date, apk_dl, ipa_dl)
+  SELECT ${quoteText(linkId)}, date, COALESCE(apk_dl, 0), COALESCE(ipa_dl, 0) FROM ${quoteIdentifier(table)} WHERE 1
+  ON CONFLICT(link_id, date) DO UPDATE SET apk_dl = apk_dl + excluded.apk_dl, ipa_dl = ipa_dl + excluded.ipa_dl;`,
+  `DROP TABLE ${quoteIdentifier(table)};`,
+];
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const target = `${options.db} (${options.remote ? 'remote' : 'local'})`;
+
+  const tables = query<{ name: string }>(
+    options,
+    "SELECT name FROM sqlite_master WHERE type='table' AND name LIKE 'stats\\_%' ESCAPE '\\' ORDER BY name"
+  ).map((row) => row.name);
+  if (!tables.length) {
+    console.log(`No stats_* tables in ${target}; nothing to migrate.`);
+    return;
+  }
+
+  // Table names were derived from link ids with non-alphanumerics replaced, so map them back.
+  const linkIdsByTable = new Map<string, string[]>();
+  for (const { id } of query<{ id: string }>(options, 'SELECT id FROM links')) {
+    const table = getLegacyStatsTableName(id);
+    linkIdsByTable.set(table, [...(linkIdsByTable.get(table) ?? []), id]);
+  }
+
+  const statements: string[] = [];
+  const skipped: string[] = [];
+  for (const table of tables) {
+    const linkIds = linkIdsByTable.get(table) ?? [];
+    if (linkIds.length !== 1) {
+      skipped.push(
+        linkIds.length
+          ? `${table} (matches several links: ${linkIds.join(', ')})`
+          : `${table} (no matching link)`
+      );
+      continue;
+    }
+    statements.push(...buildTableSql(table, linkIds[0]));
+  }
+
+  const migrated = tables.length - skipped.length;
+  if (skipped.length) {
+    console.warn(`Left in place:\n  ${skipped.join('\n  ')}`);
+  }
+  if (!statements.length) {
+    console.log(`No stats_* tables in ${target} could be matched to a link.`);
+    return;
+  }
+
+  const sql = statements.join('\n');
+  if (options.dryRun) {
+    console.log(sql);
+    console.log(`\n-- Dry run: ${migrated} table(s) would be merged into link_download_stats in ${target}.`);
+    return;
+  }
+
+  const file = path.join(os.tmpdir(), `rudl-migrate-download-stats-${Date.now()}.sql`);
+  fs.writeFileSync(file, `${sql}\n`, 'utf8');
+  try {
+    wrangler(options, ['--file', file]);
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+  console.log(`✅ Merged ${migrated} stats_* table(s) into link_download_stats in ${target}.`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,502 @@
+// scripts/rudl.ts
+//
+// 用法：
+//   tsx scripts/rudl.ts upload <file.apk|file.ipa> [--link CODE] [--area CN|RU|global] [--notes TEXT|@file] [--title TEXT] [--lang xx]
+//   tsx scripts/rudl.ts links list [--page N] [--page-size N]
+//   tsx scripts/rudl.ts links disable CODE
+//   tsx scripts/rudl.ts stats CODE [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--frequency hour|day|month|year] [--csv]
+//
+// 環境變數（或同名旗標）：
+//   RUDL_API_URL / --url     站台網址，例如 https://app.example.com
+//   RUDL_TOKEN   / --token   會員中心建立的 API 權杖（rudl_pat_…）
+//
+// 上傳前先在本機用與後台相同的 jszip / plist / binary-xml 邏輯讀出套件資訊；
+// 任何錯誤都會印出原因並以非 0 結束，讓 CI 任務直接失敗。
+
+import fs from 'node:fs';
+import http from 'node:http';
+import https from 'node:https';
+import path from 'node:path';
+import {
+  MULTIPART_PRESIGN_BATCH,
+  MULTIPART_THRESHOLD,
+  type MultipartUploadSession,
+  type UploadedPart,
+} from '../src/lib/multipart-upload';
+import { normalizeNetworkArea } from '../src/lib/network-area';
+import {
+  parseApkMetadata,
+  parseIpaMetadata,
+  type PackageFileMetadata,
+} from '../src/lib/package-file-metadata';
+
+type Platform = 'apk' | 'ipa';
+
+type Options = {
+  positionals: string[];
+  flags: Map<string, string | true>;
+};
+
+type UploadTicket = {
+  ok: true;
+  linkId: string;
+  uploadUrl: string | null;
+  uploadHeaders: Record<string, string>;
+  multipart: MultipartUploadSession | null;
+  upload: Record<string, unknown> & { key: string };
+};
+
+type ApiLink = {
+  code: string;
+  url: string;
+};
+
+type DashboardLinkRow = {
+  code: string;
+  title: string | null;
+  platform: string;
+  isActive: boolean;
+  networkArea: string;
+  apkVersion: string | null;
+  ipaVersion: string | null;
+  totalTotalDl: number;
+  createdAt: number;
+};
+
+type StatsResponse = {
+  points: Array<{ bucket: string; apk: number; ipa: number; total: number }>;
+  summary: { totalApk: number; totalIpa: number; total: number; from: string; to: string };
+};
+
+const USAGE = `Usage:
+  rudl upload <file.apk|file.ipa> [--link CODE] [--area CN|RU|global] [--notes TEXT|@file] [--title TEXT] [--lang xx]
+  rudl links list [--page N] [--page-size N]
+  rudl links disable CODE
+  rudl stats CODE [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--frequency hour|day|month|year] [--csv]
+
+Set RUDL_API_URL and RUDL_TOKEN (or pass --url / --token).`;
+
+const PART_ATTEMPTS = 3;
+const WRITE_CHUNK_SIZE = 256 * 1024;
+
+class CliError extends Error {
+  constructor(message: string, readonly exitCode = 1) {
+    super(message);
+  }
+}
+
+// ---- 參數解析 ----
+
+function parseArgs(argv: string[]): Options {
+  const positionals: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    if (eq !== -1) {
+      flags.set(arg.slice(2, eq), arg.slice(eq + 1));
+    } else if (index + 1 < argv.length && !argv[index + 1].startsWith('--')) {
+      flags.set(arg.slice(2), argv[index + 1]);
+      index += 1;
+    } else {
+      flags.set(arg.slice(2), true);
+    }
+  }
+  return { positionals, flags };
+}
+
+const flagValue = (options: Options, name: string): string | null => {
+  const value = options.flags.get(name);
+  if (value === true) throw new CliError(`--${name} needs a value`, 2);
+  return value ?? null;
+};
+
+// ---- API ----
+
+function apiConfig(options: Options) {
+  const base = (flagValue(options, 'url') ?? process.env.RUDL_API_URL ?? '').trim().replace(/\/+$/, '');
+  const token = (flagValue(options, 'token') ?? process.env.RUDL_TOKEN ?? '').trim();
+  if (!base) throw new CliError('RUDL_API_URL (or --url) is not set', 2);
+  if (!token) throw new CliError('RUDL_TOKEN (or --token) is not set', 2);
+  return { base, token };
+}
+
+type ApiConfig = ReturnType<typeof apiConfig>;
+
+async function api<T>(config: ApiConfig, method: string, pathname: string, body?: unknown): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(`${config.base}${pathname}`, {
+      method,
+      headers: {
+        authorization: `Bearer ${config.token}`,
+        ...(body === undefined ? {} : { 'content-type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new CliError(`${method} ${pathname} failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const json = (await res.json().catch(() => null)) as
+    | (Record<string, unknown> & { ok?: boolean; error?: string; mismatches?: Array<{ field: string }> })
+    | null;
+  if (!res.ok || !json?.ok) {
+    const fields = json?.mismatches?.map((item) => item.field) ?? [];
+    const reason = json?.error ?? `HTTP ${res.status}`;
+    throw new CliError(
+      `${method} ${pathname} failed: ${reason}${fields.length ? ` (${fields.join(', ')})` : ''}`
+    );
+  }
+  return json as T;
+}
+
+// ---- 上傳（含進度） ----
+
+function progressBar(label: string, total: number) {
+  const interactive = Boolean(process.stderr.isTTY);
+  let lastPercent = -1;
+  return (loaded: number) => {
+    const percent = total ? Math.min(100, Math.floor((loaded / total) * 100)) : 100;
+    if (percent === lastPercent) return;
+    // CI logs are not terminals: print every 10% instead of redrawing one line.
+    if (!interactive && percent !== 100 && percent % 10 !== 0) return;
+    lastPercent = percent;
+    const line = `${label} ${String(percent).padStart(3)}% (${formatBytes(loaded)} / ${formatBytes(total)})`;
+    process.stderr.write(interactive ? `\r${line}${percent === 100 ? '\n' : ''}` : `${line}\n`);
+  };
+}
+
+function formatBytes(value: number) {
+  if (value < 1024) return `${value} B`;
+  if (value < 1024 * 1024) return `${(value / 1024).toFixed(1)} KB`;
+  return `${(value / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// fetch() cannot report upload progress, so PUTs go through node:http(s) with manual writes.
+function putBytes(
+  url: string,
+  headers: Record<string, string>,
+  body: Buffer,
+  onProgress: (loaded: number) => void
+): Promise<{ etag: string | null }> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const transport = target.protocol === 'http:' ? http : https;
+    const req = transport.request(
+      target,
+      { method: 'PUT', headers: { ...headers, 'content-length': String(body.length) } },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            const etag = res.headers.etag;
+            resolve({ etag: typeof etag === 'string' ? etag : null });
+          } else {
+            const text = Buffer.concat(chunks).toString('utf8').trim();
+            reject(new Error(`upload rejected with HTTP ${status}${text ? `: ${text.slice(0, 200)}` : ''}`));
+          }
+        });
+      }
+    );
+    req.on('error', reject);
+
+    let offset = 0;
+    const writeNext = () => {
+      while (offset < body.length) {
+        const chunk = body.subarray(offset, offset + WRITE_CHUNK_SIZE);
+        offset += chunk.length;
+        onProgress(offset);
+        if (!req.write(chunk)) {
+          req.once('drain', writeNext);
+          return;
+        }
+      }
+      req.end();
+    };
+    writeNext();
+  });
+}
+
+async function uploadParts(config: ApiConfig, ticket: UploadTicket, data: Buffer, networkArea: string) {
+  const session = ticket.multipart as MultipartUploadSession;
+  const report = progressBar('Uploading', data.length);
+  const parts: UploadedPart[] = [];
+  let presigned = new Map<number, string>();
+
+  for (let partNumber = 1; partNumber <= session.partCount; partNumber += 1) {
+    const start = (partNumber - 1) * session.partSize;
+    const body = data.subarray(start, Math.min(data.length, start + session.partSize));
+    let lastError: unknown = null;
+    for (let attempt = 0; attempt < PART_ATTEMPTS; attempt += 1) {
+      try {
+        let url: string;
+        if (session.mode === 'ticket') {
+          url = `${ticket.uploadUrl}/parts/${partNumber}`;
+        } else {
+          if (!presigned.has(partNumber)) {
+            const partNumbers: number[] = [];
+            for (let next = partNumber; next <= session.partCount && partNumbers.length < MULTIPART_PRESIGN_BATCH; next += 1) {
+              partNumbers.push(next);
+            }
+            const result = await api<{ parts: Array<{ partNumber: number; url: string }> }>(
+              config,
+              'POST',
+              '/api/v1/uploads/parts',
+              { key: ticket.upload.key, uploadId: session.uploadId, partNumbers }
+            );
+            presigned = new Map(result.parts.map((part) => [part.partNumber, part.url]));
+          }
+          url = presigned.get(partNumber) as string;
+        }
+        // R2 part URLs only sign the host; regional tickets need their auth headers.
+        const headers = session.mode === 'ticket' ? ticket.uploadHeaders : {};
+        const { etag } = await putBytes(url, headers, body, (loaded) => report(start + loaded));
+        const partEtag = session.mode === 'ticket' ? String(partNumber) : etag;
+        if (!partEtag) throw new Error('upload response had no ETag');
+        parts.push({ partNumber, etag: partEtag });
+        lastError = null;
+        break;
+      } catch (error) {
+        lastError = error;
+        presigned.delete(partNumber);
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+      }
+    }
+    if (lastError) {
+      await api(config, 'POST', '/api/v1/uploads/abort', {
+        key: ticket.upload.key,
+        uploadId: session.uploadId,
+        networkArea,
+      }).catch(() => null);
+      throw new CliError(
+        `part ${partNumber}/${session.partCount} failed: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+      );
+    }
+  }
+
+  await api(config, 'POST', '/api/v1/uploads/complete', {
+    key: ticket.upload.key,
+    uploadId: session.uploadId,
+    networkArea,
+    parts,
+  });
+}
+
+async function readMetadata(platform: Platform, data: Buffer): Promise<PackageFileMetadata> {
+  const metadata = platform === 'apk' ? await parseApkMetadata(data) : await parseIpaMetadata(data);
+  if (!metadata) {
+    throw new CliError(`could not read the ${platform.toUpperCase()} metadata; is this a valid package?`);
+  }
+  return metadata;
+}
+
+function readNotes(value: string | null) {
+  if (!value) return null;
+  if (!value.startsWith('@')) return value;
+  const file = value.slice(1);
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch {
+    throw new CliError(`cannot read notes file ${file}`);
+  }
+}
+
+async function commandUpload(options: Options) {
+  const filePath = options.positionals[1];
+  if (!filePath) throw new CliError(USAGE, 2);
+  const config = apiConfig(options);
+
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (extension !== 'apk' && extension !== 'ipa') {
+    throw new CliError(`${filePath}: only .apk and .ipa files can be uploaded`, 2);
+  }
+  const platform: Platform = extension;
+
+  let data: Buffer;
+  try {
+    data = fs.readFileSync(filePath);
+  } catch {
+    throw new CliError(`cannot read ${filePath}`);
+  }
+  if (!data.length) throw new CliError(`${filePath} is empty`);
+
+  const code = flagValue(options, 'link');
+  const areaFlag = flagValue(options, 'area');
+  if (areaFlag && !['CN', 'RU', 'global'].includes(areaFlag)) {
+    throw new CliError('--area must be CN, RU or global', 2);
+  }
+  const networkArea = normalizeNetworkArea(areaFlag);
+  const releaseNotes = readNotes(flagValue(options, 'notes'));
+
+  const metadata = await readMetadata(platform, data);
+  process.stderr.write(
+    `${path.basename(filePath)}: ${metadata.bundleId ?? '?'} ${metadata.version ?? '?'}` +
+      `${metadata.build ? ` (${metadata.build})` : ''}, ${formatBytes(data.length)}\n`
+  );
+
+  const ticket = await api<UploadTicket>(config, 'POST', '/api/v1/uploads', {
+    platform,
+    fileName: path.basename(filePath),
+    size: data.length,
+    contentType: platform === 'apk' ? 'application/vnd.android.package-archive' : 'application/octet-stream',
+    title: metadata.title ?? null,
+    bundleId: metadata.bundleId ?? null,
+    version: metadata.version ?? null,
+    networkArea,
+    multipart: data.length >= MULTIPART_THRESHOLD,
+    ...(code ? { code } : {}),
+  });
+
+  if (ticket.multipart) {
+    await uploadParts(config, ticket, data, networkArea);
+  } else if (ticket.uploadUrl) {
+    try {
+      await putBytes(ticket.uploadUrl, ticket.uploadHeaders, data, progressBar('Uploading', data.length));
+    } catch (error) {
+      throw new CliError(`upload failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    throw new CliError('the server did not return an upload URL');
+  }
+
+  const upload = {
+    ...ticket.upload,
+    build: metadata.build ?? null,
+    provisioning: metadata.provisioning ?? null,
+    ...(releaseNotes ? { releaseNotes } : {}),
+  };
+  const title = flagValue(options, 'title');
+  const lang = flagValue(options, 'lang');
+
+  if (code) {
+    const updated = await api<{ link: ApiLink | null }>(
+      config,
+      'PATCH',
+      `/api/v1/links/${encodeURIComponent(code)}`,
+      { uploads: [upload], ...(title ? { title } : {}), ...(lang ? { lang } : {}) }
+    );
+    console.log(`Updated ${code}: ${updated.link?.url ?? `${config.base}/d/${code}`}`);
+    return;
+  }
+
+  const created = await api<{ linkId: string; code: string }>(config, 'POST', '/api/v1/links', {
+    linkId: ticket.linkId,
+    title: title ?? '',
+    bundleId: '',
+    apkVersion: '',
+    ipaVersion: '',
+    lang: lang ?? 'en',
+    autofill: true,
+    networkArea,
+    uploads: [upload],
+  });
+  console.log(`Published ${created.code}: ${config.base}/d/${encodeURIComponent(created.code)}`);
+}
+
+// ---- 連結與統計 ----
+
+async function commandLinks(options: Options) {
+  const action = options.positionals[1];
+  const config = apiConfig(options);
+
+  if (action === 'list') {
+    const page = Number(flagValue(options, 'page') ?? '1');
+    const pageSize = Number(flagValue(options, 'page-size') ?? '50');
+    const data = await api<{ links: DashboardLinkRow[]; total: number }>(
+      config,
+      'GET',
+      `/api/v1/links?page=${page}&pageSize=${pageSize}`
+    );
+    const rows = data.links.map((link) => [
+      link.code,
+      link.isActive ? 'active' : 'disabled',
+      link.networkArea,
+      [link.apkVersion && `apk ${link.apkVersion}`, link.ipaVersion && `ipa ${link.ipaVersion}`]
+        .filter(Boolean)
+        .join(', ') || '-',
+      String(link.totalTotalDl),
+      link.title ?? '',
+    ]);
+    printTable(['CODE', 'STATUS', 'AREA', 'VERSIONS', 'DOWNLOADS', 'TITLE'], rows);
+    console.log(`\n${data.links.length} of ${data.total} links`);
+    return;
+  }
+
+  if (action === 'disable') {
+    const code = options.positionals[2];
+    if (!code) throw new CliError(USAGE, 2);
+    await api(config, 'PATCH', `/api/v1/links/${encodeURIComponent(code)}`, { isActive: false });
+    console.log(`Disabled ${code}`);
+    return;
+  }
+
+  throw new CliError(USAGE, 2);
+}
+
+async function commandStats(options: Options) {
+  const code = options.positionals[1];
+  if (!code) throw new CliError(USAGE, 2);
+  const config = apiConfig(options);
+
+  const query = new URLSearchParams();
+  for (const name of ['from', 'to', 'frequency']) {
+    const value = flagValue(options, name);
+    if (value) query.set(name, value);
+  }
+  const data = await api<StatsResponse>(
+    config,
+    'GET',
+    `/api/v1/links/${encodeURIComponent(code)}/stats${query.toString() ? `?${query}` : ''}`
+  );
+
+  const rows = data.points.map((point) => [
+    point.bucket.slice(0, 10),
+    String(point.apk),
+    String(point.ipa),
+    String(point.total),
+  ]);
+  if (options.flags.has('csv')) {
+    console.log(['bucket,apk,ipa,total', ...rows.map((row) => row.join(','))].join('\n'));
+    return;
+  }
+  printTable(['DATE', 'APK', 'IPA', 'TOTAL'], rows);
+  console.log(`\nTotal ${data.summary.total} (apk ${data.summary.totalApk}, ipa ${data.summary.totalIpa})`);
+}
+
+function printTable(header: string[], rows: string[][]) {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  console.log([format(header), ...rows.map(format)].join('\n'));
+}
+
+// ---- 進入點 ----
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const command = options.positionals[0];
+  if (!command || options.flags.has('help')) {
+    console.log(USAGE);
+    return;
+  }
+  if (command === 'upload') return commandUpload(options);
+  if (command === 'links') return commandLinks(options);
+  if (command === 'stats') return commandStats(options);
+  throw new CliError(`unknown command "${command}"\n\n${USAGE}`, 2);
+}
+
+main().catch((error: unknown) => {
+  if (error instanceof CliError) {
+    console.error(`rudl: ${error.message}`);
+    process.exit(error.exitCode);
+  }
+  console.error(`rudl: ${error instanceof Error ? error.stack ?? error.message : String(error)}`);
+  process.exit(1);
+});
@@ -89,6 +89,9 @@ export default async function AdminProtectedLayout({ children, params }: LayoutP
           <Link className="underline" href={`${basePath}/links`}>
             {dict['admin.nav.links'] ?? 'Distributions'}
           </Link>
+          <Link className="underline" href={`${basePath}/pricing`}>
+            {dict['admin.nav.pricing'] ?? 'Pricing'}
+          </Link>
         </nav>
       </div>
       <div>{children}</div>
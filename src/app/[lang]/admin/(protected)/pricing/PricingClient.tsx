@@ -0,0 +1,360 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useI18n } from '@/i18n/provider';
+import type { NetworkArea } from '@/lib/network-area';
+import {
+  PRICING_NETWORK_AREAS,
+  PRICING_PLATFORMS,
+  type DownloadPrice,
+  type PricingPlatform,
+  type PricingRule,
+} from '@/lib/pricing';
+
+type Props = {
+  rules: PricingRule[];
+  prices: DownloadPrice[];
+  /** Server time in epoch seconds, so rule states match the server render. */
+  now: number;
+};
+
+type RuleStatus = 'active' | 'scheduled' | 'superseded';
+
+const AREA_LABEL_KEYS: Record<NetworkArea, string> = {
+  global: 'networkArea.global',
+  CN: 'networkArea.cn',
+  RU: 'networkArea.ru',
+};
+
+const STATUS_CLASSES: Record<RuleStatus, string> = {
+  active: 'bg-emerald-100 text-emerald-700',
+  scheduled: 'bg-amber-100 text-amber-700',
+  superseded: 'bg-gray-100 text-gray-500',
+};
+
+const toLocalInputValue = (seconds: number) => {
+  const date = new Date(seconds * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+/** A rule is superseded once a newer rule for the same member and slot is in effect. */
+const resolveStatuses = (rules: PricingRule[], now: number) => {
+  const newestInEffect = new Map<string, PricingRule>();
+  for (const rule of rules) {
+    if (rule.effectiveFrom > now) continue;
+    const key = `${rule.userId ?? ''}|${rule.platform ?? ''}|${rule.networkArea ?? ''}`;
+    const current = newestInEffect.get(key);
+    if (!current || rule.effectiveFrom > current.effectiveFrom) newestInEffect.set(key, rule);
+  }
+  const active = new Set(Array.from(newestInEffect.values()).map((rule) => rule.id));
+  return new Map<string, RuleStatus>(
+    rules.map((rule) => [
+      rule.id,
+      rule.effectiveFrom > now ? 'scheduled' : active.has(rule.id) ? 'active' : 'superseded',
+    ])
+  );
+};
+
+export default function PricingClient({ rules, prices, now }: Props) {
+  const { t, locale } = useI18n();
+  const router = useRouter();
+
+  const [member, setMember] = useState('');
+  const [platform, setPlatform] = useState<PricingPlatform | ''>('apk');
+  const [networkArea, setNetworkArea] = useState<NetworkArea | ''>('global');
+  const [kind, setKind] = useState<'price' | 'discount'>('price');
+  const [value, setValue] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isMemberRule = member.trim() !== '';
+  const statuses = useMemo(() => resolveStatuses(rules, now), [rules, now]);
+  const localeHint = locale === 'zh-TW' ? 'zh-Hant' : locale;
+  const formatTime = (seconds: number) =>
+    seconds ? new Date(seconds * 1000).toLocaleString(localeHint) : t('admin.pricing.sinceStart');
+  const platformLabel = (value: PricingPlatform | null) =>
+    value ? t(`admin.pricing.platform.${value}`) : t('admin.pricing.allPlatforms');
+  const areaLabel = (value: NetworkArea | null) => (value ? t(AREA_LABEL_KEYS[value]) : t('admin.pricing.allAreas'));
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const effective = effectiveFrom ? new Date(effectiveFrom).getTime() : Number.NaN;
+      const response = await fetch('/api/admin/pricing', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          member: member.trim(),
+          platform,
+          networkArea,
+          price: !isMemberRule || kind === 'price' ? value : '',
+          discountPercent: isMemberRule && kind === 'discount' ? value : '',
+          effectiveFrom: Number.isNaN(effective) ? undefined : Math.floor(effective / 1000),
+          note,
+        }),
+      });
+      const data = (await response.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+      if (!response.ok || !data?.ok) {
+        setError(typeof data?.error === 'string' ? data.error : t('admin.pricing.error'));
+        return;
+      }
+      setValue('');
+      setNote('');
+      setEffectiveFrom('');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err ?? 'CREATE_FAILED'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (rule: PricingRule) => {
+    if (!window.confirm(t('admin.pricing.deleteConfirm'))) return;
+    setDeletingId(rule.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/pricing/${encodeURIComponent(rule.id)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const data = (await response.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+      if (!response.ok || !data?.ok) {
+        setError(typeof data?.error === 'string' ? data.error : t('admin.pricing.error'));
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err ?? 'DELETE_FAILED'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const priceOf = (area: NetworkArea, target: PricingPlatform) =>
+    prices.find((entry) => entry.networkArea === area && entry.platform === target);
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-lg border bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">{t('admin.pricing.current')}</h2>
+        <p className="mt-1 text-sm text-gray-600">{t('admin.pricing.currentHint')}</p>
+        <table className="mt-4 min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('admin.pricing.networkArea')}</th>
+              {PRICING_PLATFORMS.map((target) => (
+                <th key={target} className="px-3 py-2 text-right font-semibold text-gray-700">
+                  {platformLabel(target)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {PRICING_NETWORK_AREAS.map((area) => (
+              <tr key={area}>
+                <td className="px-3 py-2 text-gray-900">{areaLabel(area)}</td>
+                {PRICING_PLATFORMS.map((target) => {
+                  const entry = priceOf(area, target);
+                  return (
+                    <td key={target} className="px-3 py-2 text-right font-mono text-gray-900">
+                      {entry ? entry.price.toLocaleString(localeHint) : '-'}
+                      {entry && !entry.ruleId ? (
+                        <span className="ml-2 font-sans text-xs text-gray-400">{t('admin.pricing.builtIn')}</span>
+                      ) : null}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="rounded-lg border bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">{t('admin.pricing.add')}</h2>
+        <p className="mt-1 text-sm text-gray-600">{t('admin.pricing.addHint')}</p>
+        <form className="mt-4 grid gap-4 sm:grid-cols-2" onSubmit={submit}>
+          <label className="block text-sm font-medium text-gray-700 sm:col-span-2">
+            {t('admin.pricing.member')}
+            <input
+              className="mt-1 w-full rounded border px-3 py-2 text-sm"
+              value={member}
+              placeholder={t('admin.pricing.memberPlaceholder')}
+              onChange={(event) => {
+                setMember(event.target.value);
+                if (!event.target.value.trim()) {
+                  setKind('price');
+                  setPlatform((current) => current || 'apk');
+                  setNetworkArea((current) => current || 'global');
+                }
+              }}
+              disabled={saving}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            {t('admin.pricing.platform')}
+            <select
+              className="mt-1 w-full rounded border px-3 py-2 text-sm"
+              value={platform}
+              onChange={(event) => setPlatform(event.target.value as PricingPlatform | '')}
+              disabled={saving}
+            >
+              {isMemberRule ? <option value="">{t('admin.pricing.allPlatforms')}</option> : null}
+              {PRICING_PLATFORMS.map((target) => (
+                <option key={target} value={target}>
+                  {platformLabel(target)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            {t('admin.pricing.networkArea')}
+            <select
+              className="mt-1 w-full rounded border px-3 py-2 text-sm"
+              value={networkArea}
+              onChange={(event) => setNetworkArea(event.target.value as NetworkArea | '')}
+              disabled={saving}
+            >
+              {isMemberRule ? <option value="">{t('admin.pricing.allAreas')}</option> : null}
+              {PRICING_NETWORK_AREAS.map((area) => (
+                <option key={area} value={area}>
+                  {areaLabel(area)}
+                </option>
+              ))}
+            </select>
+          </label>
+          {isMemberRule ? (
+            <label className="block text-sm font-medium text-gray-700">
+              {t('admin.pricing.kind')}
+              <select
+                className="mt-1 w-full rounded border px-3 py-2 text-sm"
+                value={kind}
+                onChange={(event) => setKind(event.target.value === 'discount' ? 'discount' : 'price')}
+                disabled={saving}
+              >
+                <option value="price">{t('admin.pricing.kind.price')}</option>
+                <option value="discount">{t('admin.pricing.kind.discount')}</option>
+              </select>
+            </label>
+          ) : null}
+          <label className="block text-sm font-medium text-gray-700">
+            {kind === 'discount' && isMemberRule ? t('admin.pricing.discount') : t('admin.pricing.price')}
+            <input
+              className="mt-1 w-full rounded border px-3 py-2 text-sm"
+              type="number"
+              min={kind === 'discount' && isMemberRule ? 1 : 0}
+              max={kind === 'discount' && isMemberRule ? 100 : undefined}
+              step={1}
+              required
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+              disabled={saving}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            {t('admin.pricing.effectiveFrom')}
+            <input
+              className="mt-1 w-full rounded border px-3 py-2 text-sm"
+              type="datetime-local"
+              min={toLocalInputValue(now)}
+              value={effectiveFrom}
+              onChange={(event) => setEffectiveFrom(event.target.value)}
+              disabled={saving}
+            />
+            <span className="mt-1 block text-xs font-normal text-gray-500">{t('admin.pricing.effectiveFromHint')}</span>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            {t('admin.pricing.note')}
+            <input
+              className="mt-1 w-full rounded border px-3 py-2 text-sm"
+              maxLength={200}
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              disabled={saving}
+            />
+          </label>
+          {error ? (
+            <p className="rounded border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 sm:col-span-2">{error}</p>
+          ) : null}
+          <div className="flex justify-end sm:col-span-2">
+            <button
+              type="submit"
+              className="rounded bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-60"
+              disabled={saving}
+            >
+              {saving ? '...' : t('admin.pricing.submit')}
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="rounded-lg border bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">{t('admin.pricing.rules')}</h2>
+        {rules.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-600">{t('admin.pricing.empty')}</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('admin.pricing.effectiveFrom')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('admin.pricing.scope')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('admin.pricing.platform')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('admin.pricing.networkArea')}</th>
+                  <th className="px-3 py-2 text-right font-semibold text-gray-700">{t('admin.pricing.value')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('admin.pricing.note')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('admin.pricing.status')}</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rules.map((rule) => {
+                  const status = statuses.get(rule.id) ?? 'superseded';
+                  return (
+                    <tr key={rule.id}>
+                      <td className="px-3 py-2 text-gray-700">{formatTime(rule.effectiveFrom)}</td>
+                      <td className="px-3 py-2 text-gray-900">
+                        {rule.userId ? rule.userEmail ?? rule.userId : t('admin.pricing.everyone')}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">{platformLabel(rule.platform)}</td>
+                      <td className="px-3 py-2 text-gray-700">{areaLabel(rule.networkArea)}</td>
+                      <td className="px-3 py-2 text-right font-mono text-gray-900">
+                        {rule.discountPercent != null
+                          ? t('admin.pricing.discountValue').replace('{percent}', String(rule.discountPercent))
+                          : (rule.price ?? 0).toLocaleString(localeHint)}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{rule.note ?? '-'}</td>
+                      <td className="px-3 py-2">
+                        <span className={`rounded px-2 py-0.5 text-xs font-medium ${STATUS_CLASSES[status]}`}>
+                          {t(`admin.pricing.status.${status}`)}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          type="button"
+                          className="rounded border border-red-400 px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+                          onClick={() => remove(rule)}
+                          disabled={deletingId === rule.id}
+                        >
+                          {t('admin.pricing.delete')}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
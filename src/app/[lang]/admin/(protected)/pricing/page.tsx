@@ -0,0 +1,53 @@
+import { cookies } from 'next/headers';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { DEFAULT_LOCALE, dictionaries, type Locale } from '@/i18n/dictionary';
+import { fetchPriceTable, fetchPricingRules } from '@/lib/pricing';
+import PricingClient from './PricingClient';
+
+export const runtime = 'edge';
+
+type Params = { lang: string };
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const isLocale = (value: string | undefined): value is Locale =>
+  Boolean(value && value in dictionaries);
+
+const resolveLocale = (langParam: string | undefined, cookieLang: string | undefined, cookieLocale: string | undefined): Locale => {
+  if (isLocale(langParam)) return langParam;
+  if (isLocale(cookieLang)) return cookieLang;
+  if (isLocale(cookieLocale)) return cookieLocale;
+  return DEFAULT_LOCALE;
+};
+
+export default async function AdminPricingPage({ params }: { params: Promise<Params> }) {
+  const { lang } = await params;
+  const cookieStore = await cookies();
+  const langCookie = cookieStore.get('lang')?.value;
+  const localeCookie = cookieStore.get('locale')?.value;
+  const locale = resolveLocale(lang, langCookie, localeCookie);
+  const dict = dictionaries[locale];
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    throw new Error('D1 binding DB is missing');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const [rules, prices] = await Promise.all([fetchPricingRules(DB), fetchPriceTable(DB, null, now)]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">{dict['admin.pricing.title'] ?? 'Download pricing'}</h1>
+        <p className="mt-1 text-sm text-gray-600">{dict['admin.pricing.description'] ?? ''}</p>
+      </div>
+      <PricingClient rules={rules} prices={prices} now={now} />
+    </div>
+  );
+}
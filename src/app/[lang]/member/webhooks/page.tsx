@@ -0,0 +1,3 @@
+export const runtime = 'edge';
+
+export { default } from '@/app/member/webhooks/page';
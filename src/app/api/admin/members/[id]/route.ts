@@ -3,7 +3,11 @@ import { getRequestContext } from '@cloudflare/next-on-pages';
 import type { D1Database, R2Bucket } from '@cloudflare/workers-types';
 import { fetchAdminUser } from '@/lib/admin';
 import { ensurePointTables, hasPointAccountsUpdatedAt, hasUsersBalanceColumn } from '@/lib/schema';
+import { deleteDownloadEventsForLink } from '@/lib/download-events';
+import { deleteFilteredDownloadsForLink } from '@/lib/download-filter';
+import { deleteFunnelStatsForLink } from '@/lib/link-funnel';
 import { deleteDownloadStatsForLink } from '@/lib/downloads';
+import { deletePricingRulesForUser } from '@/lib/pricing';
 
 export const runtime = 'edge';
 
@@ -247,11 +251,16 @@ export async function DELETE(request: Request, context: { params: Promise<RouteP
 
     const r2Keys: string[] = [];
     for (const linkId of linkIds) {
-      const fileRows = await DB.prepare('SELECT r2_key FROM files WHERE link_id=?')
+      // SELECT * so databases without the icon_key column keep working.
+      const fileRows = await DB.prepare('SELECT * FROM files WHERE link_id=?')
         .bind(linkId)
         .all();
-      const keys = ((fileRows.results as Array<{ r2_key?: string | null }> | undefined) ?? [])
-        .map((row) => (row.r2_key ? String(row.r2_key) : null))
+      const rows =
+        (fileRows.results as Array<{ r2_key?: string | null; icon_key?: string | null }> | undefined) ??
+        [];
+      const keys = rows
+        .flatMap((row) => [row.r2_key, row.icon_key])
+        .map((value) => (value ? String(value) : null))
         .filter((value): value is string => Boolean(value));
       r2Keys.push(...keys);
     }
@@ -268,6 +277,9 @@ export async function DELETE(request: Request, context: { params: Promise<RouteP
       linkIds.map(async (linkId) => {
         try {
           await deleteDownloadStatsForLink(DB, linkId);
+          await deleteDownloadEventsForLink(DB, linkId);
+          await deleteFunnelStatsForLink(DB, linkId);
+          await deleteFilteredDownloadsForLink(DB, linkId);
         } catch {
           // ignore failures while cleaning up stats
         }
@@ -282,6 +294,7 @@ export async function DELETE(request: Request, context: { params: Promise<RouteP
       .bind(memberId)
       .run()
       .catch(() => undefined);
+    await deletePricingRulesForUser(DB, memberId).catch(() => undefined);
 
     if (r2Keys.length) {
       await Promise.all(
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchAdminUser } from '@/lib/admin';
+import { deletePricingRule } from '@/lib/pricing';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+type RouteParams = { id: string };
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (request: Request): string | null => {
+  const cookieHeader = request.headers.get('cookie');
+  if (!cookieHeader) return null;
+  const pair = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!pair) return null;
+  const value = pair.slice(4);
+  return value || null;
+};
+
+export async function DELETE(request: Request, context: { params: Promise<RouteParams> }) {
+  const { id } = await context.params;
+  const ruleId = (id ?? '').trim();
+  if (!ruleId) {
+    return jsonError('INVALID_RULE_ID', 400);
+  }
+
+  const uid = parseUid(request);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('D1 binding DB is missing', 500);
+  }
+
+  const adminUser = await fetchAdminUser(DB, uid);
+  if (!adminUser) {
+    return jsonError('FORBIDDEN', 403);
+  }
+
+  try {
+    if (!(await deletePricingRule(DB, ruleId))) {
+      return jsonError('NOT_FOUND', 404);
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message || 'DELETE_FAILED', 500);
+  }
+}
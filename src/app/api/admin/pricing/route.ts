@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchAdminUser } from '@/lib/admin';
+import {
+  createPricingRule,
+  fetchPriceTable,
+  fetchPricingRules,
+  PricingRuleError,
+  type PricingRuleInput,
+} from '@/lib/pricing';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (request: Request): string | null => {
+  const cookieHeader = request.headers.get('cookie');
+  if (!cookieHeader) return null;
+  const pair = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!pair) return null;
+  const value = pair.slice(4);
+  return value || null;
+};
+
+const resolveAdmin = async (request: Request) => {
+  const uid = parseUid(request);
+  if (!uid) return { error: jsonError('UNAUTHENTICATED', 401) } as const;
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) return { error: jsonError('D1 binding DB is missing', 500) } as const;
+  const adminUser = await fetchAdminUser(DB, uid);
+  if (!adminUser) return { error: jsonError('FORBIDDEN', 403) } as const;
+  return { DB, adminUser } as const;
+};
+
+export async function GET(request: Request) {
+  const admin = await resolveAdmin(request);
+  if ('error' in admin) return admin.error;
+  try {
+    const [rules, prices] = await Promise.all([fetchPricingRules(admin.DB), fetchPriceTable(admin.DB, null)]);
+    return NextResponse.json({ ok: true, rules, prices });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message || 'QUERY_FAILED', 500);
+  }
+}
+
+export async function POST(request: Request) {
+  const admin = await resolveAdmin(request);
+  if ('error' in admin) return admin.error;
+
+  let body: PricingRuleInput;
+  try {
+    body = (await request.json()) as PricingRuleInput;
+  } catch {
+    return jsonError('INVALID_BODY', 400);
+  }
+
+  try {
+    const rule = await createPricingRule(admin.DB, body ?? {}, admin.adminUser.id);
+    return NextResponse.json({ ok: true, rule });
+  } catch (error) {
+    if (error instanceof PricingRuleError) return jsonError(error.message, error.status);
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message || 'CREATE_FAILED', 500);
+  }
+}
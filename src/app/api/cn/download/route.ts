@@ -1,8 +1,34 @@
 import { NextResponse } from 'next/server';
 import { getRequestContext } from '@cloudflare/next-on-pages';
+import {
+  getBillingGrantSecret,
+  redeemBillingGrant,
+  verifyBillingGrant,
+  type BillingGrantBindings,
+} from '@/lib/billing-grant';
+import { billDownload, checkDownloadBalance } from '@/lib/download-billing';
 import { fetchDistributionById } from '@/lib/distribution';
-import { recordDownload, type DownloadTotals } from '@/lib/downloads';
+import {
+  getDownloadIpHashSecret,
+  recordDownloadEvent,
+  type DownloadEventBindings,
+} from '@/lib/download-events';
+import {
+  classifyDownloadHit,
+  recordFilteredDownload,
+  resolveDownloadFilterConfig,
+  type DownloadFilterBindings,
+} from '@/lib/download-filter';
+import {
+  DownloadLimitError,
+  fetchDownloadCounts,
+  recordDownload,
+  type DownloadTotals,
+} from '@/lib/downloads';
+import { getLinkAvailability, hasDownloadCap, isLinkExpired } from '@/lib/link-limits';
+import { isLinkLive } from '@/lib/link-schedule';
 import { triggerDownloadMonitors } from '@/lib/monitor';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 export const runtime = 'edge';
 
@@ -10,13 +36,27 @@ type Env = {
   DB?: D1Database;
   ['rudl-app']?: D1Database;
   CN_SERVER_API_TOKEN?: string;
-};
+} & DownloadEventBindings &
+  DownloadFilterBindings &
+  BillingGrantBindings;
 
 type Body = {
   linkId?: string;
   linkCode?: string;
   ownerId?: string;
   platform?: string;
+  fileId?: string | null;
+  version?: string | null;
+  // The visitor as seen by the regional server, for the download event log.
+  country?: string | null;
+  userAgent?: string | null;
+  referrer?: string | null;
+  ip?: string | null;
+  // Request method and `Sec-Purpose`/`Purpose` header, to leave prefetches out of the counts.
+  method?: string | null;
+  purpose?: string | null;
+  // The single-use billing grant (`b`) from the regional download page's /dl URL.
+  grant?: string | null;
 };
 
 const normalizePlatform = (value: string | null | undefined): 'apk' | 'ipa' | null => {
@@ -27,7 +67,7 @@ const normalizePlatform = (value: string | null | undefined): 'apk' | 'ipa' | nu
 };
 
 export async function POST(req: Request) {
-  const { env } = getRequestContext();
+  const { env, ctx } = getRequestContext();
   const bindings = env as Env;
   const authHeader = req.headers.get('authorization') ?? '';
   const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
@@ -54,19 +94,107 @@ export async function POST(req: Request) {
   }
 
   const link = await fetchDistributionById(DB, linkId);
-  if (!link || !link.isActive || link.networkArea !== 'CN') {
+  if (!link || !isLinkLive(link) || link.networkArea !== 'CN') {
     return NextResponse.json({ ok: false, error: 'LINK_NOT_FOUND' }, { status: 404 });
   }
 
+  if (isLinkExpired(link)) {
+    return NextResponse.json({ ok: false, error: 'LINK_EXPIRED' }, { status: 410 });
+  }
+
   const ownerId = (link.ownerId ?? payload.ownerId ?? '').trim();
 
+  // Billed links need the grant the regional page put on the /dl URL; the regional server
+  // sends the visitor back to its page for a fresh one on 403.
+  const grant = typeof payload.grant === 'string' ? payload.grant : null;
+  const billingSecret = link.ownerId ? getBillingGrantSecret(bindings) : null;
+  if (link.ownerId && !billingSecret) {
+    return NextResponse.json({ ok: false, error: 'BILLING_GRANT_SECRET_MISSING' }, { status: 500 });
+  }
+  if (billingSecret && !(await verifyBillingGrant(billingSecret, link.id, platform, grant))) {
+    return NextResponse.json({ ok: false, error: 'INVALID_GRANT' }, { status: 403 });
+  }
+
+  const asText = (value: unknown) => (typeof value === 'string' ? value : null);
+  const ipHashSecret = getDownloadIpHashSecret(bindings);
+  const purpose = asText(payload.purpose);
+  const filtered = await classifyDownloadHit(
+    DB,
+    {
+      linkId: link.id,
+      platform,
+      method: asText(payload.method),
+      headers: purpose ? new Headers({ 'sec-purpose': purpose }) : null,
+      userAgent: asText(payload.userAgent),
+      ip: asText(payload.ip),
+    },
+    resolveDownloadFilterConfig(bindings),
+    ipHashSecret
+  );
+  if (filtered) {
+    if (
+      hasDownloadCap(link) &&
+      getLinkAvailability(link, await fetchDownloadCounts(DB, link.id), platform) !== 'available'
+    ) {
+      const error = new DownloadLimitError();
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    ctx.waitUntil(recordFilteredDownload(DB, link.id, filtered));
+    return NextResponse.json({ ok: true, filtered });
+  }
+
+  // Any billing refusal (no points, no account, balance lookup failed) is a 402, which the
+  // regional server turns into a refusal instead of serving the file for free.
+  if (billingSecret) {
+    const balance = await checkDownloadBalance(DB, link, platform);
+    if (!balance.ok) {
+      return NextResponse.json({ ok: false, error: balance.error }, { status: 402 });
+    }
+  }
+
+  // Redeemed only once the filter let the hit through; a replayed grant is refused.
+  let billable = false;
+  if (billingSecret) {
+    try {
+      billable = await redeemBillingGrant(DB, billingSecret, link.id, platform, grant);
+    } catch (error) {
+      console.error('[cn-download] billing grant redemption failed', error);
+      return NextResponse.json({ ok: false, error: 'BILLING_FAILED' }, { status: 402 });
+    }
+    if (!billable) {
+      return NextResponse.json({ ok: false, error: 'INVALID_GRANT' }, { status: 403 });
+    }
+  }
+
   let totals: DownloadTotals | null = null;
   try {
-    totals = await recordDownload(DB, link.id, platform);
+    totals = await recordDownload(DB, link.id, platform, {
+      limits: hasDownloadCap(link) ? link : null,
+    });
   } catch (error) {
+    if (error instanceof DownloadLimitError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
     console.error('[cn-download] recordDownload failed', error);
   }
 
+  ctx.waitUntil(
+    recordDownloadEvent(
+      DB,
+      {
+        linkId: link.id,
+        platform,
+        fileId: asText(payload.fileId),
+        version: asText(payload.version),
+        country: asText(payload.country),
+        userAgent: asText(payload.userAgent),
+        referrer: asText(payload.referrer),
+        ip: asText(payload.ip),
+      },
+      ipHashSecret
+    )
+  );
+
   if (totals && ownerId) {
     try {
       await triggerDownloadMonitors(DB, {
@@ -78,28 +206,17 @@ export async function POST(req: Request) {
     } catch (error) {
       console.warn('[cn-download] monitor failed', error);
     }
+    ctx.waitUntil(
+      emitWebhookEvent(DB, ownerId, 'download.recorded', {
+        link: { id: link.id, code: link.code },
+        platform,
+        totals,
+      })
+    );
   }
 
-  if (ownerId) {
-    const origin = new URL(req.url);
-    const billUrl = new URL('/api/dl/bill', `${origin.protocol}//${origin.host}`);
-    try {
-      const response = await fetch(billUrl.toString(), {
-        method: 'POST',
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({
-          account_id: ownerId,
-          link_id: link.id,
-          platform,
-        }),
-      });
-      if (!response.ok) {
-        const body = await response.text().catch(() => '');
-        console.warn('[cn-download] billing responded with', response.status, body);
-      }
-    } catch (error) {
-      console.warn('[cn-download] billing failed', error);
-    }
+  if (billable) {
+    ctx.waitUntil(billDownload(DB, link, platform));
   }
 
   return NextResponse.json({ ok: true });
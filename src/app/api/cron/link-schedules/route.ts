@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchDistributionById } from '@/lib/distribution';
+import { resolveLinkSchedule } from '@/lib/link-schedule';
+import { isRegionalNetworkArea } from '@/lib/network-area';
+import {
+  publishLinkToRegionalServer,
+  type RegionalServerBindings,
+} from '@/lib/regional-server';
+import { emitWebhookEvent, toLinkWebhookData } from '@/lib/webhooks';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+  CRON_SECRET?: string;
+} & RegionalServerBindings;
+
+const BATCH_SIZE = 50;
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const setLinkState = (
+  DB: D1Database,
+  linkId: string,
+  state: { isActive: boolean; publishAt: number | null; unpublishAt: number | null }
+) =>
+  DB.prepare('UPDATE links SET is_active=?, publish_at=?, unpublish_at=? WHERE id=?')
+    .bind(state.isActive ? 1 : 0, state.publishAt, state.unpublishAt, linkId)
+    .run();
+
+async function applyDueSchedule(DB: D1Database, bindings: Env, linkId: string, now: number) {
+  const link = await fetchDistributionById(DB, linkId);
+  if (!link) return;
+  const next = resolveLinkSchedule(link.isActive, link, now);
+  await setLinkState(DB, link.id, next);
+
+  if (isRegionalNetworkArea(link.networkArea)) {
+    try {
+      await publishLinkToRegionalServer(link.networkArea, DB, bindings, link.id);
+    } catch (error) {
+      // Put the schedule back so the next run tries again instead of leaving CN/RU behind.
+      await setLinkState(DB, link.id, link).catch(() => null);
+      throw error;
+    }
+  }
+
+  if (next.isActive !== link.isActive) {
+    await emitWebhookEvent(DB, link.ownerId, 'link.updated', {
+      link: toLinkWebhookData({ ...link, ...next }),
+    });
+  }
+}
+
+// Called by the `workers/monitor` cron: applies publish/unpublish times that have been reached.
+export async function POST(req: Request) {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const authHeader = req.headers.get('authorization') ?? '';
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
+  if (!bindings.CRON_SECRET || token !== bindings.CRON_SECRET) {
+    return jsonError('UNAUTHORIZED', 401);
+  }
+
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const now = Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+  let linkIds: string[];
+  try {
+    const result = await DB.prepare(
+      `SELECT id FROM links
+       WHERE (publish_at IS NOT NULL AND publish_at <= ?) OR (unpublish_at IS NOT NULL AND unpublish_at <= ?)
+       ORDER BY COALESCE(publish_at, unpublish_at) ASC LIMIT ?`
+    )
+      .bind(nowSeconds, nowSeconds, BATCH_SIZE)
+      .all<{ id: string }>();
+    linkIds = (result.results ?? []).map((row) => row.id);
+  } catch (error) {
+    console.error('[link-schedules] query failed', error);
+    return jsonError('SCHEDULE_QUERY_FAILED', 500);
+  }
+
+  let applied = 0;
+  let failed = 0;
+  for (const linkId of linkIds) {
+    try {
+      await applyDueSchedule(DB, bindings, linkId, now);
+      applied += 1;
+    } catch (error) {
+      failed += 1;
+      console.error('[link-schedules] apply failed', linkId, error);
+    }
+  }
+
+  return NextResponse.json({ ok: true, applied, failed });
+}
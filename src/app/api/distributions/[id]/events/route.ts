@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchDistributionById } from '@/lib/distribution';
+import { DOWNLOAD_DEVICES, listDownloadEvents, type DownloadDevice } from '@/lib/download-events';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookie = req.headers.get('cookie') ?? '';
+  const entry = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  return entry.slice(4);
+};
+
+// ISO date-time to epoch seconds; undefined when absent, NaN when unreadable.
+const parseTime = (value: string | null) => {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? Number.NaN : Math.floor(time / 1000);
+};
+
+// The link's download events, newest first. Filters: `platform`, `country`, `device`,
+// `from`/`to` (ISO); paged with `page`/`pageSize`.
+export async function GET(req: Request, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const linkId = String(params?.id ?? '').trim();
+  if (!linkId) {
+    return jsonError('INVALID_LINK_ID', 400);
+  }
+
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const link = await fetchDistributionById(DB, linkId);
+  if (!link) {
+    return jsonError('NOT_FOUND', 404);
+  }
+  if (link.ownerId && link.ownerId !== uid) {
+    return jsonError('FORBIDDEN', 403);
+  }
+
+  const { searchParams } = new URL(req.url);
+  const platformParam = searchParams.get('platform');
+  const deviceParam = searchParams.get('device');
+  const from = parseTime(searchParams.get('from'));
+  const to = parseTime(searchParams.get('to'));
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return jsonError('INVALID_RANGE', 400);
+  }
+
+  try {
+    const page = await listDownloadEvents(
+      DB,
+      link.id,
+      {
+        platform: platformParam === 'apk' || platformParam === 'ipa' ? platformParam : null,
+        country: searchParams.get('country'),
+        device: (DOWNLOAD_DEVICES as readonly string[]).includes(deviceParam ?? '')
+          ? (deviceParam as DownloadDevice)
+          : null,
+        from,
+        to,
+      },
+      Number(searchParams.get('page') ?? '1'),
+      Number(searchParams.get('pageSize') ?? '20')
+    );
+    return NextResponse.json({ ok: true, ...page });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message || 'QUERY_FAILED', 500);
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchDistributionById } from '@/lib/distribution';
+import { fetchLinkFunnel } from '@/lib/link-funnel';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookie = req.headers.get('cookie') ?? '';
+  const entry = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  return entry.slice(4);
+};
+
+const formatDayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// Views → clicks → completed downloads per platform, for the UTC days `from`..`to`
+// (ISO; the last 7 days by default).
+export async function GET(req: Request, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const linkId = String(params?.id ?? '').trim();
+  if (!linkId) {
+    return jsonError('INVALID_LINK_ID', 400);
+  }
+
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const link = await fetchDistributionById(DB, linkId);
+  if (!link) {
+    return jsonError('NOT_FOUND', 404);
+  }
+  if (link.ownerId && link.ownerId !== uid) {
+    return jsonError('FORBIDDEN', 403);
+  }
+
+  const url = new URL(req.url);
+  const toParam = url.searchParams.get('to');
+  const fromParam = url.searchParams.get('from');
+  const toDate = toParam ? new Date(toParam) : new Date();
+  const fromDate = fromParam ? new Date(fromParam) : new Date(toDate.getTime() - 6 * 24 * 60 * 60 * 1000);
+  if (
+    Number.isNaN(fromDate.getTime()) ||
+    Number.isNaN(toDate.getTime()) ||
+    fromDate.getTime() > toDate.getTime()
+  ) {
+    return jsonError('INVALID_RANGE', 400);
+  }
+
+  try {
+    const funnel = await fetchLinkFunnel(DB, link.id, formatDayKey(fromDate), formatDayKey(toDate));
+    return NextResponse.json({ ok: true, funnel });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message || 'QUERY_FAILED', 500);
+  }
+}
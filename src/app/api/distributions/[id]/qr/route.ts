@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchDistributionById } from '@/lib/distribution';
+import {
+  encodeQr,
+  QR_ERROR_CORRECTION_LEVELS,
+  renderQrPng,
+  renderQrSvg,
+  type QrErrorCorrection,
+} from '@/lib/qr';
+import { getLinkShareUrl, type RegionalServerBindings } from '@/lib/regional-server';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+} & RegionalServerBindings;
+
+const DEFAULT_SIZE = 256;
+const MIN_SIZE = 64;
+const MAX_SIZE = 2048;
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookie = req.headers.get('cookie') ?? '';
+  const entry = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  return entry.slice(4);
+};
+
+// GET ?format=svg|png&size=<px>&ecc=L|M|Q|H[&download=1] — QR code of the link's public
+// download page, encoded against the regional download domain for CN/RU links.
+export async function GET(req: Request, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const linkId = String(params?.id ?? '').trim();
+  if (!linkId) {
+    return jsonError('INVALID_LINK_ID', 400);
+  }
+
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const link = await fetchDistributionById(DB, linkId);
+  if (!link) {
+    return jsonError('NOT_FOUND', 404);
+  }
+  if (link.ownerId && link.ownerId !== uid) {
+    return jsonError('FORBIDDEN', 403);
+  }
+
+  const url = new URL(req.url);
+  const format = (url.searchParams.get('format') ?? 'svg').toLowerCase();
+  if (format !== 'svg' && format !== 'png') {
+    return jsonError('INVALID_FORMAT', 400);
+  }
+  const sizeParam = url.searchParams.get('size');
+  const size = sizeParam ? Number(sizeParam) : DEFAULT_SIZE;
+  if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+    return jsonError('INVALID_SIZE', 400);
+  }
+  const ecc = (url.searchParams.get('ecc') ?? 'M').toUpperCase() as QrErrorCorrection;
+  if (!QR_ERROR_CORRECTION_LEVELS.includes(ecc)) {
+    return jsonError('INVALID_ECC', 400);
+  }
+
+  const qr = encodeQr(getLinkShareUrl(link, url.origin, bindings), ecc);
+  const headers = new Headers({ 'cache-control': 'private, max-age=300' });
+  if (url.searchParams.get('download') === '1') {
+    headers.set('content-disposition', `attachment; filename="${link.code}-qr.${format}"`);
+  }
+
+  if (format === 'png') {
+    headers.set('content-type', 'image/png');
+    return new Response(await renderQrPng(qr, { size }), { headers });
+  }
+  headers.set('content-type', 'image/svg+xml; charset=utf-8');
+  return new Response(renderQrSvg(qr, { size }), { headers });
+}
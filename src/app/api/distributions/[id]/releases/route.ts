@@ -0,0 +1,220 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  fetchDistributionById,
+  getTableInfo,
+  hasColumn,
+  isTextColumn,
+  type DistributionFile,
+} from '@/lib/distribution';
+import type { DashboardRelease } from '@/lib/dashboard';
+import {
+  publishLinkToRegionalServer,
+  type RegionalServerBindings,
+} from '@/lib/regional-server';
+import { isRegionalNetworkArea } from '@/lib/network-area';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+} & RegionalServerBindings;
+
+type PromoteBody = {
+  releaseId?: unknown;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookie = req.headers.get('cookie') ?? '';
+  const entry = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  return entry.slice(4);
+};
+
+const normalizePlatform = (value: string | null | undefined): 'apk' | 'ipa' | null => {
+  const lower = (value ?? '').toLowerCase();
+  return lower === 'apk' || lower === 'ipa' ? lower : null;
+};
+
+async function fetchUploaderEmails(DB: D1Database, ids: string[]): Promise<Map<string, string>> {
+  const unique = Array.from(new Set(ids.filter(Boolean)));
+  const emails = new Map<string, string>();
+  if (!unique.length) return emails;
+  const placeholders = unique.map(() => '?').join(', ');
+  const result = await DB.prepare(`SELECT id, email FROM users WHERE id IN (${placeholders})`)
+    .bind(...unique)
+    .all<{ id: string; email: string | null }>()
+    .catch(() => null);
+  for (const row of result?.results ?? []) {
+    if (row?.id && row.email) emails.set(row.id, row.email);
+  }
+  return emails;
+}
+
+const toRelease = (file: DistributionFile, emails: Map<string, string>): DashboardRelease => ({
+  id: file.id,
+  platform: normalizePlatform(file.platform) ?? file.platform ?? '',
+  releaseNo: file.releaseNo,
+  version: file.version,
+  build: file.build,
+  size: file.size,
+  releaseNotes: file.releaseNotes,
+  uploadedBy: file.uploadedBy,
+  uploaderEmail: file.uploadedBy ? emails.get(file.uploadedBy) ?? null : null,
+  isCurrent: file.isCurrent,
+  createdAt: file.createdAt,
+});
+
+async function loadOwnedLink(req: Request, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const linkId = String(params?.id ?? '').trim();
+  if (!linkId) {
+    return { error: jsonError('INVALID_LINK_ID', 400) } as const;
+  }
+
+  const uid = parseUid(req);
+  if (!uid) {
+    return { error: jsonError('UNAUTHENTICATED', 401) } as const;
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return { error: jsonError('Missing DB binding', 500) } as const;
+  }
+
+  const link = await fetchDistributionById(DB, linkId);
+  if (!link) {
+    return { error: jsonError('NOT_FOUND', 404) } as const;
+  }
+  if (link.ownerId !== uid) {
+    return { error: jsonError('FORBIDDEN', 403) } as const;
+  }
+
+  return { DB, bindings, link } as const;
+}
+
+export async function GET(req: Request, context: { params: Promise<{ id: string }> }) {
+  const loaded = await loadOwnedLink(req, context);
+  if ('error' in loaded) return loaded.error;
+  const { DB, link } = loaded;
+
+  const emails = await fetchUploaderEmails(
+    DB,
+    link.releases.map((file) => file.uploadedBy ?? '')
+  );
+  const releases = link.releases
+    .filter((file) => normalizePlatform(file.platform))
+    .map((file) => toRelease(file, emails));
+
+  return NextResponse.json({ ok: true, releases });
+}
+
+export async function POST(req: Request, context: { params: Promise<{ id: string }> }) {
+  const loaded = await loadOwnedLink(req, context);
+  if ('error' in loaded) return loaded.error;
+  const { DB, bindings, link } = loaded;
+
+  const body = (await req.json().catch(() => ({}))) as PromoteBody;
+  const releaseId = typeof body.releaseId === 'string' ? body.releaseId.trim() : '';
+  if (!releaseId) {
+    return jsonError('INVALID_RELEASE_ID', 400);
+  }
+
+  const release = link.releases.find((file) => file.id === releaseId) ?? null;
+  const platform = normalizePlatform(release?.platform);
+  if (!release || !platform) {
+    return jsonError('RELEASE_NOT_FOUND', 404);
+  }
+  if (!release.r2Key) {
+    return jsonError('RELEASE_FILE_MISSING', 409);
+  }
+
+  const filesInfo = await getTableInfo(DB, 'files');
+  if (!hasColumn(filesInfo, 'is_current')) {
+    return jsonError('RELEASES_UNSUPPORTED', 400);
+  }
+
+  if (release.isCurrent) {
+    return NextResponse.json({ ok: true, linkId: link.id, code: link.code, releaseId });
+  }
+
+  const previous = link.files.find((file) => normalizePlatform(file.platform) === platform) ?? null;
+  const linksInfo = await getTableInfo(DB, 'links');
+  const now = Date.now();
+
+  const linkUpdates: Array<[string, unknown]> = [
+    [platform === 'apk' ? 'apk_version' : 'ipa_version', release.version ?? ''],
+  ];
+  if (!link.fileId || (previous && link.fileId === previous.id)) {
+    linkUpdates.push(['file_id', release.id]);
+  }
+  if (hasColumn(linksInfo, 'updated_at')) {
+    linkUpdates.push([
+      'updated_at',
+      isTextColumn(linksInfo, 'updated_at') ? new Date(now).toISOString() : Math.floor(now / 1000),
+    ]);
+  }
+  const linkPairs = linkUpdates.filter(([column]) => hasColumn(linksInfo, column));
+
+  // A null target leaves the platform without a current release.
+  const buildStatements = (target: DistributionFile | null, linkValues: Array<[string, unknown]>) => {
+    const statements: D1PreparedStatement[] = [
+      DB.prepare('UPDATE files SET is_current=0 WHERE link_id=? AND platform=?').bind(
+        link.id,
+        platform
+      ),
+    ];
+    if (target) {
+      statements.push(DB.prepare('UPDATE files SET is_current=1 WHERE id=?').bind(target.id));
+    }
+    if (linkValues.length) {
+      const sets = linkValues.map(([column]) => `${column}=?`).join(', ');
+      statements.push(
+        DB.prepare(`UPDATE links SET ${sets} WHERE id=?`).bind(
+          ...linkValues.map(([, value]) => value),
+          link.id
+        )
+      );
+    }
+    return statements;
+  };
+
+  try {
+    await DB.batch(buildStatements(release, linkPairs));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message || 'PROMOTE_FAILED', 500);
+  }
+
+  if (isRegionalNetworkArea(link.networkArea)) {
+    try {
+      await publishLinkToRegionalServer(link.networkArea, DB, bindings, link.id);
+    } catch (error) {
+      // Put the previous release back (or unpublish the promoted one when there was none) so
+      // the edge and the regional server stay in sync.
+      const revertPairs: Array<[string, unknown]> = linkPairs.map(([column, value]) => {
+        if (column === 'file_id') return [column, link.fileId];
+        if (column === 'apk_version') return [column, link.apkVersion ?? ''];
+        if (column === 'ipa_version') return [column, link.ipaVersion ?? ''];
+        return [column, value];
+      });
+      await DB.batch(buildStatements(previous, revertPairs)).catch((revertError) => {
+        console.error('[releases] revert after failed regional publish failed', link.id, revertError);
+      });
+      const message = error instanceof Error ? error.message : String(error);
+      return jsonError(message || 'REGIONAL_PUBLISH_FAILED', 502);
+    }
+  }
+
+  return NextResponse.json({ ok: true, linkId: link.id, code: link.code, releaseId });
+}
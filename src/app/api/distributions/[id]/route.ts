@@ -1,6 +1,17 @@
 import { NextResponse } from 'next/server';
 import { getRequestContext } from '@cloudflare/next-on-pages';
-import { deleteDownloadStatsForLink, ensureDownloadStatsTable } from '@/lib/downloads';
+import {
+  buildRenameLinkCodeStatements,
+  deleteLinkCodeAliases,
+  fetchLinkCodeAliases,
+  isCodeConflictError,
+  isLinkCodeTaken,
+  normalizeVanityCode,
+} from '@/lib/code';
+import { deleteDownloadEventsForLink } from '@/lib/download-events';
+import { deleteFilteredDownloadsForLink } from '@/lib/download-filter';
+import { deleteFunnelStatsForLink } from '@/lib/link-funnel';
+import { deleteDownloadStatsForLink } from '@/lib/downloads';
 import {
   fetchDistributionById,
   getTableInfo,
@@ -9,12 +20,35 @@ import {
   type DistributionFile,
 } from '@/lib/distribution';
 import { normalizeLanguageCode } from '@/lib/language';
+import { isOwnedUploadKey } from '@/lib/multipart-upload';
+import { hashLinkPassword } from '@/lib/link-access';
+import { readLinkLimitsInput, toLinkLimitColumns, type LinkLimits } from '@/lib/link-limits';
+import {
+  isValidLinkSchedule,
+  readLinkScheduleInput,
+  resolveLinkSchedule,
+  toLinkScheduleColumns,
+  type LinkSchedule,
+} from '@/lib/link-schedule';
+import {
+  normalizeProvisioningInput,
+  provisioningColumns,
+  type ProvisioningProfile,
+} from '@/lib/provisioning';
+import { normalizeReleaseNotesInput, type LocalizedReleaseNotes } from '@/lib/release-notes';
 import {
   cleanupRegionalUploads,
   deleteRegionalLink,
   publishLinkToRegionalServer,
   type RegionalServerBindings,
 } from '@/lib/regional-server';
+import {
+  applyVerifiedUpload,
+  UploadVerificationError,
+  verifyUpload,
+  type UploadStorage,
+} from '@/lib/upload-verification';
+import { emitWebhookEvent, toLinkWebhookData } from '@/lib/webhooks';
 import {
   normalizeNetworkArea,
   isRegionalNetworkArea,
@@ -26,6 +60,7 @@ import type { D1Database, R2Bucket } from '@cloudflare/workers-types';
 export const runtime = 'edge';
 
 const DEFAULT_TITLE = 'APP';
+const MAX_ACCESS_PASSWORD_LENGTH = 128;
 
 type Env = {
   DB?: D1Database;
@@ -42,6 +77,12 @@ type UploadInput = {
   version?: string | null;
   contentType?: string | null;
   sha256?: string | null;
+  build?: string | null;
+  /** Text in the link's language, or text per language; stored serialized. */
+  releaseNotes?: string | LocalizedReleaseNotes | null;
+  provisioning?: ProvisioningProfile | null;
+  /** Set from the package during verification, never from the request. */
+  iconKey?: string | null;
 };
 
 type UpdateBody = {
@@ -54,7 +95,15 @@ type UpdateBody = {
   uploads: UploadInput[];
   isActive?: boolean;
   networkArea?: NetworkArea | string;
-};
+  /** Omitted keeps the current password; an empty string or null removes it. */
+  accessPassword?: string | null;
+  /** A new code renames the link; the old code keeps redirecting to it. */
+  code?: string | null;
+  /** Omitted keeps the current link-level notes; empty or null removes them. */
+  releaseNotes?: string | LocalizedReleaseNotes | null;
+  /** Edits the notes of the current build for platforms without a new upload. */
+  fileReleaseNotes?: Partial<Record<'apk' | 'ipa', string | LocalizedReleaseNotes | null>>;
+} & Partial<Record<keyof LinkLimits | keyof LinkSchedule, number | string | null>>;
 
 type JsonOk = { ok: true; linkId?: string; code?: string };
 type JsonError = { ok: false; error: string };
@@ -77,6 +126,20 @@ const normalizePlatform = (value: string | null | undefined) =>
 
 const trimOrEmpty = (value: string | null | undefined) => (value ? value.trim() : '');
 
+const UPLOAD_TEXT_FIELDS = ['title', 'bundleId', 'version', 'contentType', 'sha256', 'build'] as const;
+
+// Token API callers send this body too, so every entry is checked before its fields are used.
+const isUploadInput = (value: unknown): value is UploadInput => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const upload = value as Record<string, unknown>;
+  if (typeof upload.key !== 'string' || !upload.key.replace(/^\/+/, '')) return false;
+  if (typeof upload.platform !== 'string' || !normalizePlatform(upload.platform)) return false;
+  if (upload.size != null && (typeof upload.size !== 'number' || !Number.isFinite(upload.size))) {
+    return false;
+  }
+  return UPLOAD_TEXT_FIELDS.every((field) => upload[field] == null || typeof upload[field] === 'string');
+};
+
 export async function PATCH(req: Request, context: { params: Promise<{ id: string }> }) {
   const params = await context.params;
   const linkId = String(params?.id ?? '').trim();
@@ -89,7 +152,7 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
     return jsonError('UNAUTHENTICATED', 401);
   }
 
-  const { env } = getRequestContext();
+  const { env, ctx } = getRequestContext();
   const bindings = env as Env;
   const DB = bindings.DB ?? bindings['rudl-app'];
   const R2 = bindings.R2_BUCKET;
@@ -106,7 +169,6 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
     return jsonError('FORBIDDEN', 403);
   }
 
-  await ensureDownloadStatsTable(DB, linkId);
   const regionalArea: RegionalNetworkArea | null = isRegionalNetworkArea(existing.networkArea)
     ? existing.networkArea
     : null;
@@ -126,15 +188,39 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
     return jsonError('INVALID_PAYLOAD', 400);
   }
 
-  const uploads = Array.isArray(payload.uploads) ? payload.uploads.filter(Boolean) : [];
+  const uploadsInput: unknown = payload.uploads ?? [];
+  if (!Array.isArray(uploadsInput) || !uploadsInput.every(isUploadInput)) {
+    return jsonError('INVALID_UPLOADS', 400);
+  }
+  const uploads: UploadInput[] = uploadsInput;
   const newUploadKeys = uploads.map((item) => item.key.replace(/^\/+/, ''));
+  // A failed verification deletes these keys, so only the caller's own uploads are accepted.
+  if (newUploadKeys.some((key) => !isOwnedUploadKey(uid, key))) {
+    return jsonError('FORBIDDEN', 403);
+  }
   const title = (payload.title ?? '').trim();
   const bundleId = (payload.bundleId ?? '').trim();
   const apkVersion = (payload.apkVersion ?? '').trim();
   const ipaVersion = (payload.ipaVersion ?? '').trim();
   const autofill = Boolean(payload.autofill);
   const linkLang = normalizeLanguageCode(typeof payload.lang === 'string' ? payload.lang : '');
-  const isActive = typeof payload.isActive === 'boolean' ? payload.isActive : existing.isActive;
+  const scheduleInput = readLinkScheduleInput(payload);
+  if (!scheduleInput) {
+    return jsonError('INVALID_SCHEDULE', 400);
+  }
+  const scheduleTimes = {
+    publishAt: scheduleInput.publishAt !== undefined ? scheduleInput.publishAt : existing.publishAt,
+    unpublishAt:
+      scheduleInput.unpublishAt !== undefined ? scheduleInput.unpublishAt : existing.unpublishAt,
+  };
+  if (!isValidLinkSchedule(scheduleTimes)) {
+    return jsonError('INVALID_SCHEDULE', 400);
+  }
+  const schedule = resolveLinkSchedule(
+    typeof payload.isActive === 'boolean' ? payload.isActive : existing.isActive,
+    scheduleTimes
+  );
+  const isActive = schedule.isActive;
   const requestedNetworkArea = normalizeNetworkArea(
     typeof payload.networkArea === 'string' ? payload.networkArea : existing.networkArea
   );
@@ -142,6 +228,38 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
     return jsonError('NETWORK_AREA_IMMUTABLE', 400);
   }
   const networkArea = existing.networkArea;
+  const accessPasswordInput =
+    payload.accessPassword === undefined ? undefined : payload.accessPassword ?? '';
+  if (
+    accessPasswordInput !== undefined &&
+    (typeof accessPasswordInput !== 'string' ||
+      accessPasswordInput.length > MAX_ACCESS_PASSWORD_LENGTH)
+  ) {
+    return jsonError('INVALID_ACCESS_PASSWORD', 400);
+  }
+  const limits = readLinkLimitsInput(payload);
+  if (!limits) {
+    return jsonError('INVALID_LIMITS', 400);
+  }
+  const linkReleaseNotes = normalizeReleaseNotesInput(payload.releaseNotes, linkLang);
+  const fileReleaseNotesInput =
+    payload.fileReleaseNotes && typeof payload.fileReleaseNotes === 'object'
+      ? payload.fileReleaseNotes
+      : {};
+
+  let newCode: string | null = null;
+  if (typeof payload.code === 'string' && payload.code.trim() && payload.code.trim() !== existing.code) {
+    const normalized = normalizeVanityCode(payload.code);
+    if (!normalized.ok) {
+      return jsonError(normalized.error, 400);
+    }
+    if (normalized.code !== existing.code) {
+      if (await isLinkCodeTaken(DB, normalized.code, linkId)) {
+        return jsonError('CODE_TAKEN', 409);
+      }
+      newCode = normalized.code;
+    }
+  }
 
   const existingFiles = new Map<'apk' | 'ipa', DistributionFile>();
   for (const file of existing.files) {
@@ -158,6 +276,36 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
     uploadMap.set(platform, upload);
   }
 
+  // Packages plus the icons verification stored next to them; removed again on failure.
+  const getUploadedKeys = () => [
+    ...newUploadKeys,
+    ...Array.from(uploadMap.values()).flatMap((upload) => (upload.iconKey ? [upload.iconKey] : [])),
+  ];
+
+  try {
+    const storage: UploadStorage = regionalArea
+      ? { kind: 'regional', area: regionalArea, bindings }
+      : { kind: 'r2', bucket: R2 as R2Bucket };
+    for (const [platform, upload] of uploadMap.entries()) {
+      const normalized = { ...upload, platform, key: upload.key.replace(/^\/+/, '') };
+      uploadMap.set(platform, applyVerifiedUpload(normalized, await verifyUpload(storage, normalized)));
+    }
+  } catch (error) {
+    const keys = getUploadedKeys();
+    if (regionalArea) {
+      await cleanupRegionalUploads(regionalArea, bindings, keys).catch(() => null);
+    } else if (R2) {
+      await Promise.all(keys.map((key) => R2.delete(key).catch(() => null)));
+    }
+    if (error instanceof UploadVerificationError) {
+      return NextResponse.json(
+        { ok: false, error: error.message, mismatches: error.mismatches },
+        { status: error.status }
+      );
+    }
+    return jsonError(error instanceof Error ? error.message : String(error), 502);
+  }
+
   if (autofill) {
     const apkBundle = trimOrEmpty(uploadMap.get('apk')?.bundleId ?? existingFiles.get('apk')?.bundleId);
     const ipaBundle = trimOrEmpty(uploadMap.get('ipa')?.bundleId ?? existingFiles.get('ipa')?.bundleId);
@@ -181,11 +329,14 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
     const r2KeysToDelete: string[] = [];
 
     // Update link record
+    // With autofill, a new build's verified version replaces the link's version for its platform.
+    const uploadedVersion = (platform: 'apk' | 'ipa') =>
+      autofill ? trimOrEmpty(uploadMap.get(platform)?.version) : '';
     const linkUpdates: Array<[string, unknown]> = [
       ['title', title || DEFAULT_TITLE],
       ['bundle_id', bundleId],
-      ['apk_version', apkVersion],
-      ['ipa_version', ipaVersion],
+      ['apk_version', uploadedVersion('apk') || apkVersion],
+      ['ipa_version', uploadedVersion('ipa') || ipaVersion],
       ['lang', linkLang],
       ['network_area', networkArea],
     ];
@@ -203,6 +354,26 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
       linkUpdates.push(['platform', Array.from(platformsFinal).join(',')]);
     }
 
+    linkUpdates.push(...toLinkLimitColumns(limits));
+    linkUpdates.push(
+      ...toLinkScheduleColumns({
+        publishAt: schedule.publishAt,
+        unpublishAt: schedule.unpublishAt,
+        scheduleTimezone: scheduleInput.scheduleTimezone,
+      })
+    );
+
+    if (accessPasswordInput !== undefined) {
+      linkUpdates.push([
+        'access_password',
+        accessPasswordInput ? await hashLinkPassword(accessPasswordInput) : null,
+      ]);
+    }
+
+    if (linkReleaseNotes !== undefined) {
+      linkUpdates.push(['release_notes', linkReleaseNotes]);
+    }
+
     if (hasColumn(linksInfo, 'updated_at')) {
       linkUpdates.push([
         'updated_at',
@@ -233,6 +404,12 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
       statements.push(DB.prepare(`UPDATE links SET ${sets} WHERE id=?`).bind(...linkValues, linkId));
     }
 
+    if (newCode) {
+      statements.push(
+        ...(await buildRenameLinkCodeStatements(DB, linkId, existing.code, newCode, now))
+      );
+    }
+
     let fileIdForLink: string | null = existing.fileId;
 
     const ensureFileColumns = (entries: Array<[string, unknown]>, platform: 'apk' | 'ipa') => {
@@ -247,6 +424,8 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
       return entries.filter(([column]) => hasColumn(filesInfo, column));
     };
 
+    const keepReleases = hasColumn(filesInfo, 'is_current');
+
     for (const [platform, upload] of uploadMap.entries()) {
       const target = existingFiles.get(platform);
       const baseTitle = trimOrEmpty(upload.title) || target?.title || DEFAULT_TITLE;
@@ -254,6 +433,8 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
       const baseVersion = trimOrEmpty(upload.version) || target?.version || '';
       const contentType = trimOrEmpty(upload.contentType) || target?.contentType || 'application/octet-stream';
       const sha256 = trimOrEmpty(upload.sha256) || target?.sha256 || '';
+      const build = trimOrEmpty(upload.build) || null;
+      const releaseNotes = normalizeReleaseNotesInput(upload.releaseNotes, linkLang) ?? null;
       const r2Key = upload.key.replace(/^\/+/, '');
 
       const entries: Array<[string, unknown]> = [
@@ -264,9 +445,14 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
         ['r2_key', r2Key],
         ['content_type', contentType],
         ['sha256', sha256],
+        ['build', build],
+        ['release_notes', releaseNotes],
+        ['uploaded_by', uid],
+        ['icon_key', upload.iconKey ?? null],
+        ...provisioningColumns(normalizeProvisioningInput(upload.provisioning)),
       ];
 
-      if (target) {
+      if (target && !keepReleases) {
         const columns = ensureFileColumns(entries, platform);
         if (columns.length) {
           const sets = columns.map(([column]) => `${column}=?`).join(', ');
@@ -278,18 +464,22 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
         if (target.r2Key && target.r2Key !== r2Key) {
           r2KeysToDelete.push(target.r2Key);
         }
+        if (target.iconKey && target.iconKey !== upload.iconKey) {
+          r2KeysToDelete.push(target.iconKey);
+        }
       } else {
+        // Every upload becomes a new numbered release; the previous one stays
+        // available for rollback instead of being overwritten.
         const newFileId = crypto.randomUUID();
+        const previousReleaseNo = existing.releases
+          .filter((file) => normalizePlatform(file.platform) === platform)
+          .reduce((max, file) => Math.max(max, file.releaseNo ?? 0), 0);
         const insertPairs: Array<[string, unknown]> = [
           ['id', newFileId],
-          ['title', baseTitle],
-          ['bundle_id', baseBundle],
-          ['version', baseVersion],
-          ['size', upload.size],
-          ['r2_key', r2Key],
-          ['content_type', contentType],
-          ['sha256', sha256],
+          ...entries,
           ['owner_id', uid],
+          ['release_no', previousReleaseNo + 1],
+          ['is_current', 1],
         ];
 
         if (hasColumn(filesInfo, 'created_at')) {
@@ -303,20 +493,39 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
         const fileColumns = columns.map(([column]) => column);
         const fileValues = columns.map(([, value]) => value);
         if (fileColumns.length) {
+          if (keepReleases) {
+            statements.push(
+              DB.prepare(`UPDATE files SET is_current=0 WHERE link_id=? AND platform=?`).bind(
+                linkId,
+                platform
+              )
+            );
+          }
           const placeholders = fileColumns.map(() => '?').join(', ');
           statements.push(
             DB.prepare(`INSERT INTO files (${fileColumns.join(', ')}) VALUES (${placeholders})`).bind(
               ...fileValues
             )
           );
-          if (!fileIdForLink) {
+          if (!fileIdForLink || (target && fileIdForLink === target.id)) {
             fileIdForLink = newFileId;
           }
         }
       }
     }
 
-    if (!existing.fileId && fileIdForLink && hasColumn(linksInfo, 'file_id')) {
+    if (hasColumn(filesInfo, 'release_notes')) {
+      for (const [platform, target] of existingFiles.entries()) {
+        if (uploadMap.has(platform)) continue;
+        const releaseNotes = normalizeReleaseNotesInput(fileReleaseNotesInput[platform], linkLang);
+        if (releaseNotes === undefined || releaseNotes === target.releaseNotes) continue;
+        statements.push(
+          DB.prepare(`UPDATE files SET release_notes=? WHERE id=?`).bind(releaseNotes, target.id)
+        );
+      }
+    }
+
+    if (fileIdForLink && fileIdForLink !== existing.fileId && hasColumn(linksInfo, 'file_id')) {
       statements.push(
         DB.prepare(`UPDATE links SET file_id=? WHERE id=?`).bind(fileIdForLink, linkId)
       );
@@ -342,12 +551,19 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
       await publishLinkToRegionalServer(regionalArea, DB, bindings, linkId);
     }
 
-    return NextResponse.json<JsonOk>({ ok: true, linkId, code: existing.code });
+    const updated = await fetchDistributionById(DB, linkId).catch(() => null);
+    if (updated) {
+      // Sent after the response so slow receivers and DNS checks never delay the edit.
+      ctx.waitUntil(emitWebhookEvent(DB, uid, 'link.updated', { link: toLinkWebhookData(updated) }));
+    }
+
+    return NextResponse.json<JsonOk>({ ok: true, linkId, code: newCode ?? existing.code });
   } catch (error) {
     if (newUploadKeys.length) {
+      const uploadedKeys = getUploadedKeys();
       if (!useRegionalBackend && R2) {
         await Promise.all(
-          newUploadKeys.map(async (key) => {
+          uploadedKeys.map(async (key) => {
             try {
               await R2.delete(key);
             } catch {
@@ -356,10 +572,13 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
           })
         );
       } else if (useRegionalBackend && regionalArea) {
-        await cleanupRegionalUploads(regionalArea, bindings, newUploadKeys).catch(() => null);
+        await cleanupRegionalUploads(regionalArea, bindings, uploadedKeys).catch(() => null);
       }
     }
     const message = error instanceof Error ? error.message : String(error);
+    if (isCodeConflictError(error)) {
+      return jsonError('CODE_TAKEN', 409);
+    }
     return jsonError(message || 'UPDATE_FAILED', 500);
   }
 }
@@ -376,7 +595,7 @@ export async function DELETE(_req: Request, context: { params: Promise<{ id: str
     return jsonError('UNAUTHENTICATED', 401);
   }
 
-  const { env } = getRequestContext();
+  const { env, ctx } = getRequestContext();
   const bindings = env as Env;
   const DB = bindings.DB ?? bindings['rudl-app'];
   const R2 = bindings.R2_BUCKET;
@@ -400,16 +619,21 @@ export async function DELETE(_req: Request, context: { params: Promise<{ id: str
     return jsonError('Missing R2 binding', 500);
   }
 
-  const r2Keys = existing.files
-    .map((file) => file.r2Key)
+  const r2Keys = existing.releases
+    .flatMap((file) => [file.r2Key, file.iconKey])
     .filter((key): key is string => Boolean(key));
 
   try {
+    const aliases = await fetchLinkCodeAliases(DB, linkId);
     await DB.batch([
       DB.prepare('DELETE FROM files WHERE link_id=?').bind(linkId),
       DB.prepare('DELETE FROM links WHERE id=?').bind(linkId),
     ]);
+    await deleteLinkCodeAliases(DB, linkId);
     await deleteDownloadStatsForLink(DB, linkId);
+    await deleteDownloadEventsForLink(DB, linkId);
+    await deleteFunnelStatsForLink(DB, linkId);
+    await deleteFilteredDownloadsForLink(DB, linkId);
 
     if (!useDeleteBackend && R2 && r2Keys.length) {
       await Promise.all(
@@ -425,10 +649,13 @@ export async function DELETE(_req: Request, context: { params: Promise<{ id: str
       await deleteRegionalLink(deleteArea, bindings, {
         linkId,
         code: existing.code,
+        aliases,
         keys: r2Keys,
       }).catch(() => null);
     }
 
+    ctx.waitUntil(emitWebhookEvent(DB, uid, 'link.deleted', { link: toLinkWebhookData(existing) }));
+
     return NextResponse.json<JsonOk>({ ok: true, linkId, code: existing.code });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchDistributionById } from '@/lib/distribution';
+import { resolveHourlyStatsRetentionDays } from '@/lib/downloads';
+import {
+  linkStatsExportRows,
+  MAX_STATS_EXPORT_ROWS,
+  parseStatsExportFormat,
+  statsExportFilename,
+  statsExportResponse,
+} from '@/lib/stats-export';
+import { fetchLinkStatsSeries, parseStatsRange, StatsRangeError, type StatsRange } from '@/lib/stats-series';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+  HOURLY_STATS_RETENTION_DAYS?: string;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookie = req.headers.get('cookie') ?? '';
+  const entry = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  return entry.slice(4);
+};
+
+// Same `from`/`to`/`frequency` as the stats API, as a `format=csv|xlsx` attachment.
+export async function GET(req: Request, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const linkId = String(params?.id ?? '').trim();
+  if (!linkId) {
+    return jsonError('INVALID_LINK_ID', 400);
+  }
+
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+
+  const url = new URL(req.url);
+  const format = parseStatsExportFormat(url.searchParams.get('format'));
+  if (!format) {
+    return jsonError('INVALID_FORMAT', 400);
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const link = await fetchDistributionById(DB, linkId);
+  if (!link) {
+    return jsonError('NOT_FOUND', 404);
+  }
+  if (link.ownerId && link.ownerId !== uid) {
+    return jsonError('FORBIDDEN', 403);
+  }
+
+  let range: StatsRange;
+  try {
+    range = parseStatsRange(
+      url.searchParams,
+      resolveHourlyStatsRetentionDays(bindings.HOURLY_STATS_RETENTION_DAYS)
+    );
+  } catch (error) {
+    if (error instanceof StatsRangeError) {
+      return NextResponse.json(
+        { ok: false, error: error.message, hourlyRetentionDays: error.hourlyRetentionDays },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+  if (range.bucketTimes.length > MAX_STATS_EXPORT_ROWS) {
+    return jsonError('RANGE_TOO_LARGE', 400);
+  }
+
+  try {
+    const points = await fetchLinkStatsSeries(DB, link.id, range);
+    return statsExportResponse(
+      format,
+      statsExportFilename(`downloads-${link.code}`, range, format),
+      linkStatsExportRows(points)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message || 'QUERY_FAILED', 500);
+  }
+}
@@ -1,19 +1,37 @@
 import { NextResponse } from 'next/server';
 import { getRequestContext } from '@cloudflare/next-on-pages';
 import type { D1Database } from '@cloudflare/workers-types';
-import { fetchDistributionById } from '@/lib/distribution';
-import { fetchDownloadStatsRange, type DownloadStatsRow } from '@/lib/downloads';
+import type { NetworkArea } from '@/lib/network-area';
+import { fetchDistributionById, fetchDistributionSummariesByOwner } from '@/lib/distribution';
+import { fetchCountryDownloads, type CountryDownloads } from '@/lib/download-events';
+import { fetchFilteredDownloadCounts, type FilteredDownloadCounts } from '@/lib/download-filter';
+import { resolveHourlyStatsRetentionDays } from '@/lib/downloads';
+import {
+  fetchLinkStatsSeries,
+  parseStatsRange,
+  StatsRangeError,
+  type StatsPoint,
+  type StatsRange,
+} from '@/lib/stats-series';
 
 export const runtime = 'edge';
 
 type Env = {
   DB?: D1Database;
   ['rudl-app']?: D1Database;
+  HOURLY_STATS_RETENTION_DAYS?: string;
 };
 
-type Frequency = 'year' | 'month' | 'day' | 'hour';
+type CountryPoint = { country: string | null; apk: number; ipa: number; total: number };
 
-type StatsPoint = { bucket: string; apk: number; ipa: number; total: number };
+type NetworkAreaPoint = {
+  networkArea: NetworkArea;
+  linkCount: number;
+  apk: number;
+  ipa: number;
+  total: number;
+  countries: CountryPoint[];
+};
 
 const jsonError = (error: string, status = 400) =>
   NextResponse.json({ ok: false, error }, { status });
@@ -28,65 +46,64 @@ const parseUid = (req: Request): string | null => {
   return entry.slice(4);
 };
 
-const startOfDayUTC = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
-
-const formatDayKey = (date: Date) => startOfDayUTC(date).toISOString().slice(0, 10);
+const NETWORK_AREAS: NetworkArea[] = ['global', 'CN', 'RU'];
 
-const alignTimestamp = (ms: number, frequency: Frequency) => {
-  const date = new Date(ms);
-  switch (frequency) {
-    case 'year': {
-      date.setUTCMonth(0, 1);
-      date.setUTCHours(0, 0, 0, 0);
-      break;
-    }
-    case 'month': {
-      date.setUTCDate(1);
-      date.setUTCHours(0, 0, 0, 0);
-      break;
-    }
-    case 'day': {
-      date.setUTCHours(0, 0, 0, 0);
-      break;
-    }
-    case 'hour': {
-      date.setUTCMinutes(0, 0, 0);
-      break;
-    }
-    default: {
-      date.setUTCHours(0, 0, 0, 0);
-    }
+// Busiest first; downloads without a known country go last.
+const sumByCountry = (rows: CountryDownloads[]): CountryPoint[] => {
+  const byCountry = new Map<string | null, CountryPoint>();
+  for (const row of rows) {
+    const entry = byCountry.get(row.country) ?? { country: row.country, apk: 0, ipa: 0, total: 0 };
+    entry.apk += row.apk;
+    entry.ipa += row.ipa;
+    entry.total += row.apk + row.ipa;
+    byCountry.set(row.country, entry);
   }
-  return date.getTime();
+  return Array.from(byCountry.values()).sort((a, b) => {
+    if ((a.country === null) !== (b.country === null)) return a.country === null ? 1 : -1;
+    return b.total - a.total || String(a.country).localeCompare(String(b.country));
+  });
 };
 
-const incrementTimestamp = (ms: number, frequency: Frequency) => {
-  const date = new Date(ms);
-  switch (frequency) {
-    case 'year': {
-      date.setUTCFullYear(date.getUTCFullYear() + 1);
-      break;
-    }
-    case 'month': {
-      date.setUTCMonth(date.getUTCMonth() + 1);
-      break;
-    }
-    case 'day': {
-      date.setUTCDate(date.getUTCDate() + 1);
-      break;
-    }
-    case 'hour': {
-      date.setUTCHours(date.getUTCHours() + 1);
-      break;
-    }
-    default: {
-      date.setUTCDate(date.getUTCDate() + 1);
-    }
-  }
-  return date.getTime();
-};
+/**
+ * Country breakdown of the link's counted downloads, plus the same for all of the owner's
+ * links grouped by network area so owners can compare global, CN and RU distribution.
+ */
+async function fetchCountryBreakdown(
+  DB: D1Database,
+  link: { id: string; ownerId: string | null; networkArea: NetworkArea },
+  startDate: string,
+  endDate: string
+) {
+  const ownerLinks = link.ownerId ? await fetchDistributionSummariesByOwner(DB, link.ownerId) : [];
+  const areaByLink = new Map<string, NetworkArea>(ownerLinks.map((entry) => [entry.id, entry.networkArea]));
+  areaByLink.set(link.id, link.networkArea);
+
+  const rows = await fetchCountryDownloads(
+    DB,
+    link.ownerId ? { ownerId: link.ownerId } : { linkId: link.id },
+    startDate,
+    endDate
+  );
+  const networkAreas: NetworkAreaPoint[] = NETWORK_AREAS.map((networkArea) => {
+    const areaRows = rows.filter((row) => areaByLink.get(row.linkId) === networkArea);
+    const countries = sumByCountry(areaRows);
+    const apk = countries.reduce((acc, entry) => acc + entry.apk, 0);
+    const ipa = countries.reduce((acc, entry) => acc + entry.ipa, 0);
+    return {
+      networkArea,
+      linkCount: Array.from(areaByLink.values()).filter((area) => area === networkArea).length,
+      apk,
+      ipa,
+      total: apk + ipa,
+      countries,
+    };
+  });
 
-const MAX_BUCKETS = 2000;
+  return {
+    countries: sumByCountry(rows.filter((row) => row.linkId === link.id)),
+    networkAreas,
+  };
+}
 
 export async function GET(req: Request, context: { params: Promise<{ id: string }> }) {
   const params = await context.params;
@@ -116,102 +133,68 @@ export async function GET(req: Request, context: { params: Promise<{ id: string
   }
 
   const url = new URL(req.url);
-  const frequencyParam = (url.searchParams.get('frequency') as Frequency | null) ?? 'day';
-  const frequency: Frequency = ['year', 'month', 'day', 'hour'].includes(frequencyParam)
-    ? frequencyParam
-    : 'day';
-
-  const toParam = url.searchParams.get('to');
-  const fromParam = url.searchParams.get('from');
-
-  const defaultTo = new Date();
-  const defaultFrom = new Date(defaultTo.getTime() - 7 * 24 * 60 * 60 * 1000);
-
-  const toDate = toParam ? new Date(toParam) : defaultTo;
-  const fromDate = fromParam ? new Date(fromParam) : defaultFrom;
-
-  if (Number.isNaN(fromDate.getTime()) || Number.isNaN(toDate.getTime())) {
-    return jsonError('INVALID_RANGE', 400);
-  }
-
-  if (fromDate.getTime() > toDate.getTime()) {
-    return jsonError('INVALID_RANGE', 400);
-  }
-
-  const alignedFromDay = startOfDayUTC(fromDate);
-  const alignedToDay = startOfDayUTC(toDate);
-
-  const alignedStart = alignTimestamp(alignedFromDay.getTime(), frequency);
-  const alignedEnd = alignTimestamp(alignedToDay.getTime(), frequency);
-
-  const bucketTimes: number[] = [];
-  let cursor = alignedStart;
-  while (cursor <= alignedEnd) {
-    bucketTimes.push(cursor);
-    cursor = incrementTimestamp(cursor, frequency);
-    if (bucketTimes.length > MAX_BUCKETS) {
-      return jsonError('RANGE_TOO_LARGE', 400);
+  let range: StatsRange;
+  try {
+    range = parseStatsRange(
+      url.searchParams,
+      resolveHourlyStatsRetentionDays(bindings.HOURLY_STATS_RETENTION_DAYS)
+    );
+  } catch (error) {
+    if (error instanceof StatsRangeError) {
+      return NextResponse.json(
+        { ok: false, error: error.message, hourlyRetentionDays: error.hourlyRetentionDays },
+        { status: 400 }
+      );
     }
-  }
-  if (!bucketTimes.length) {
-    bucketTimes.push(alignedStart);
+    throw error;
   }
 
-  let rows: DownloadStatsRow[] = [];
+  let points: StatsPoint[];
+  let filtered: FilteredDownloadCounts;
   try {
-    rows = await fetchDownloadStatsRange(
-      DB,
-      linkId,
-      formatDayKey(alignedFromDay),
-      formatDayKey(alignedToDay)
-    );
+    [points, filtered] = await Promise.all([
+      fetchLinkStatsSeries(DB, linkId, range),
+      // Filtered hits are kept per day, so hourly ranges report the whole days they touch.
+      fetchFilteredDownloadCounts(
+        DB,
+        linkId,
+        range.from.toISOString().slice(0, 10),
+        range.to.toISOString().slice(0, 10)
+      ),
+    ]);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     return jsonError(message || 'QUERY_FAILED', 500);
   }
 
-  const toNumber = (value: number | string | null | undefined) => {
-    if (typeof value === 'number' && Number.isFinite(value)) return value;
-    if (typeof value === 'string') {
-      const parsed = Number(value);
-      if (Number.isFinite(parsed)) return parsed;
-    }
-    return 0;
-  };
-
-  const bucketMap = new Map<number, { apk: number; ipa: number }>();
-  for (const row of rows) {
-    const dateValue = row.date ? new Date(`${row.date}T00:00:00Z`).getTime() : NaN;
-    if (!Number.isFinite(dateValue)) continue;
-    const bucketKey = alignTimestamp(dateValue, frequency);
-    const entry = bucketMap.get(bucketKey) ?? { apk: 0, ipa: 0 };
-    entry.apk += toNumber(row.apk_dl);
-    entry.ipa += toNumber(row.ipa_dl);
-    bucketMap.set(bucketKey, entry);
-  }
-
-  const points: StatsPoint[] = bucketTimes.map((time) => {
-    const entry = bucketMap.get(time) ?? { apk: 0, ipa: 0 };
-    const apk = entry.apk;
-    const ipa = entry.ipa;
-    return {
-      bucket: new Date(time).toISOString(),
-      apk,
-      ipa,
-      total: apk + ipa,
-    };
-  });
-
   const totalApk = points.reduce((acc, point) => acc + point.apk, 0);
   const totalIpa = points.reduce((acc, point) => acc + point.ipa, 0);
   const summary = {
     totalApk,
     totalIpa,
     total: totalApk + totalIpa,
-    from: points.length ? points[0].bucket : fromDate.toISOString(),
-    to: points.length ? points[points.length - 1].bucket : toDate.toISOString(),
+    from: points.length ? points[0].bucket : range.from.toISOString(),
+    to: points.length ? points[points.length - 1].bucket : range.to.toISOString(),
     bucketCount: points.length,
+    filtered,
   };
 
+  // `breakdown=country` adds the range's downloads by country. They are kept per day, so
+  // hourly ranges report the whole days they touch.
+  if (url.searchParams.get('breakdown') === 'country') {
+    try {
+      const breakdown = await fetchCountryBreakdown(
+        DB,
+        link,
+        range.from.toISOString().slice(0, 10),
+        range.to.toISOString().slice(0, 10)
+      );
+      return NextResponse.json({ ok: true, points, summary, ...breakdown });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return jsonError(message || 'QUERY_FAILED', 500);
+    }
+  }
+
   return NextResponse.json({ ok: true, points, summary });
 }
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { isLinkCodeTaken, normalizeVanityCode } from '@/lib/code';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookie = req.headers.get('cookie') ?? '';
+  const entry = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  return entry.slice(4);
+};
+
+// GET ?code=<vanity code>[&linkId=<id>] — lets the dashboard check a custom code before
+// saving. `linkId` is the link being edited, so its own current and old codes count as free.
+export async function GET(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const url = new URL(req.url);
+  const normalized = normalizeVanityCode(url.searchParams.get('code') ?? '');
+  if (!normalized.ok) {
+    return NextResponse.json({ ok: true, available: false, error: normalized.error });
+  }
+
+  const linkId = (url.searchParams.get('linkId') ?? '').trim();
+  let ownLinkId: string | undefined;
+  if (linkId) {
+    const owner = await DB.prepare('SELECT owner_id, code FROM links WHERE id=? LIMIT 1')
+      .bind(linkId)
+      .first<{ owner_id?: string | null; code?: string | null }>();
+    if (owner?.owner_id === uid) {
+      if (owner.code === normalized.code) {
+        return NextResponse.json({ ok: true, available: true, code: normalized.code });
+      }
+      ownLinkId = linkId;
+    }
+  }
+
+  const taken = await isLinkCodeTaken(DB, normalized.code, ownLinkId);
+  return NextResponse.json({
+    ok: true,
+    available: !taken,
+    code: normalized.code,
+    ...(taken ? { error: 'CODE_TAKEN' } : {}),
+  });
+}
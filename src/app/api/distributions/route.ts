@@ -1,19 +1,51 @@
 import { NextResponse } from 'next/server';
 import { getRequestContext } from '@cloudflare/next-on-pages';
-import { generateLinkCode } from '@/lib/code';
-import { deleteDownloadStatsForLink, ensureDownloadStatsTable } from '@/lib/downloads';
+import {
+  allocateLinkCode,
+  getLinkCodeLength,
+  isCodeConflictError,
+  isLinkCodeTaken,
+  normalizeVanityCode,
+  type LinkCodeBindings,
+} from '@/lib/code';
+import { fetchDistributionById } from '@/lib/distribution';
+import { deleteDownloadStatsForLink } from '@/lib/downloads';
 import { normalizeLanguageCode } from '@/lib/language';
+import { isOwnedUploadKey } from '@/lib/multipart-upload';
+import { hashLinkPassword } from '@/lib/link-access';
+import { readLinkLimitsInput, toLinkLimitColumns, type LinkLimits } from '@/lib/link-limits';
+import {
+  isValidLinkSchedule,
+  readLinkScheduleInput,
+  resolveLinkSchedule,
+  toLinkScheduleColumns,
+  type LinkSchedule,
+} from '@/lib/link-schedule';
+import {
+  normalizeProvisioningInput,
+  provisioningColumns,
+  type ProvisioningProfile,
+} from '@/lib/provisioning';
+import { normalizeReleaseNotesInput, type LocalizedReleaseNotes } from '@/lib/release-notes';
 import {
   cleanupRegionalUploads,
   publishLinkToRegionalServer,
   type RegionalServerBindings,
 } from '@/lib/regional-server';
+import {
+  applyVerifiedUpload,
+  UploadVerificationError,
+  verifyUpload,
+  type UploadStorage,
+} from '@/lib/upload-verification';
+import { emitWebhookEvent, toLinkWebhookData } from '@/lib/webhooks';
 import {
   normalizeNetworkArea,
   isRegionalNetworkArea,
   type NetworkArea,
   type RegionalNetworkArea,
 } from '@/lib/network-area';
+import type { R2Bucket } from '@cloudflare/workers-types';
 
 export const runtime = 'edge';
 
@@ -21,7 +53,8 @@ type Env = {
   DB?: D1Database;
   ['rudl-app']?: D1Database;
   R2_BUCKET?: R2Bucket;
-} & RegionalServerBindings;
+} & RegionalServerBindings &
+  LinkCodeBindings;
 
 type UploadInput = {
   platform: 'apk' | 'ipa';
@@ -32,6 +65,12 @@ type UploadInput = {
   version?: string | null;
   contentType?: string | null;
   sha256?: string | null;
+  build?: string | null;
+  /** Text in the link's language, or text per language; stored serialized. */
+  releaseNotes?: string | LocalizedReleaseNotes | null;
+  provisioning?: ProvisioningProfile | null;
+  /** Set from the package during verification, never from the request. */
+  iconKey?: string | null;
 };
 
 type FinalizeBody = {
@@ -45,9 +84,15 @@ type FinalizeBody = {
   uploads: UploadInput[];
   isActive?: boolean;
   networkArea?: NetworkArea | string;
-};
+  accessPassword?: string | null;
+  /** Optional vanity code; a random one is generated when omitted. */
+  code?: string | null;
+  /** Link-level release notes, in the same shapes as the per-upload ones. */
+  releaseNotes?: string | LocalizedReleaseNotes | null;
+} & Partial<Record<keyof LinkLimits | keyof LinkSchedule, number | string | null>>;
 
 const DEFAULT_TITLE = 'APP';
+const MAX_ACCESS_PASSWORD_LENGTH = 128;
 
 type TableInfo = {
   columns: Set<string>;
@@ -114,7 +159,7 @@ export async function POST(req: Request) {
     return NextResponse.json({ ok: false, error: 'UNAUTHENTICATED' }, { status: 401 });
   }
 
-  const { env } = getRequestContext();
+  const { env, ctx } = getRequestContext();
   const bindings = env as Env;
   const DB = bindings.DB ?? bindings['rudl-app'];
   const R2 = bindings.R2_BUCKET;
@@ -144,7 +189,11 @@ export async function POST(req: Request) {
     uploads: uploadsInput,
     isActive: isActiveRaw,
     networkArea: networkAreaRaw,
+    accessPassword: accessPasswordRaw,
+    code: codeRaw,
+    releaseNotes: releaseNotesRaw,
   } = payload;
+  const linkLang = normalizeLanguageCode(typeof langInputRaw === 'string' ? langInputRaw : '');
 
   if (!linkId || typeof linkId !== 'string') {
     return NextResponse.json({ ok: false, error: 'INVALID_LINK_ID' }, { status: 400 });
@@ -165,12 +214,48 @@ export async function POST(req: Request) {
       version: raw.version ?? null,
       contentType: raw.contentType ?? 'application/octet-stream',
       sha256: raw.sha256 ?? null,
+      build: typeof raw.build === 'string' ? raw.build.trim() || null : null,
+      releaseNotes: normalizeReleaseNotesInput(raw.releaseNotes, linkLang) ?? null,
+      provisioning: normalizeProvisioningInput(raw.provisioning),
     });
   }
 
   if (!uploads.length) {
     return NextResponse.json({ ok: false, error: 'NO_FILES' }, { status: 400 });
   }
+  // A failed verification deletes these keys, so only the caller's own uploads are accepted.
+  if (uploads.some((upload) => !isOwnedUploadKey(uid, upload.key.replace(/^\/+/, '')))) {
+    return NextResponse.json({ ok: false, error: 'FORBIDDEN' }, { status: 403 });
+  }
+
+  const accessPasswordInput = typeof accessPasswordRaw === 'string' ? accessPasswordRaw : '';
+  if (accessPasswordInput.length > MAX_ACCESS_PASSWORD_LENGTH) {
+    return NextResponse.json({ ok: false, error: 'INVALID_ACCESS_PASSWORD' }, { status: 400 });
+  }
+  const limits = readLinkLimitsInput(payload);
+  if (!limits) {
+    return NextResponse.json({ ok: false, error: 'INVALID_LIMITS' }, { status: 400 });
+  }
+  const scheduleInput = readLinkScheduleInput(payload);
+  const scheduleTimes = {
+    publishAt: scheduleInput?.publishAt ?? null,
+    unpublishAt: scheduleInput?.unpublishAt ?? null,
+  };
+  if (!scheduleInput || !isValidLinkSchedule(scheduleTimes)) {
+    return NextResponse.json({ ok: false, error: 'INVALID_SCHEDULE' }, { status: 400 });
+  }
+
+  let vanityCode: string | null = null;
+  if (typeof codeRaw === 'string' && codeRaw.trim()) {
+    const normalized = normalizeVanityCode(codeRaw);
+    if (!normalized.ok) {
+      return NextResponse.json({ ok: false, error: normalized.error }, { status: 400 });
+    }
+    if (await isLinkCodeTaken(DB, normalized.code)) {
+      return NextResponse.json({ ok: false, error: 'CODE_TAKEN' }, { status: 409 });
+    }
+    vanityCode = normalized.code;
+  }
 
   if (autofill) {
     const bundleValues = uploads
@@ -189,8 +274,13 @@ export async function POST(req: Request) {
   const bundleIdInput = (bundleIdInputRaw ?? '').trim();
   const apkVersionInput = (apkVersionInputRaw ?? '').trim();
   const ipaVersionInput = (ipaVersionInputRaw ?? '').trim();
-  const linkLang = normalizeLanguageCode(typeof langInputRaw === 'string' ? langInputRaw : '');
-  const isActiveInput = typeof isActiveRaw === 'boolean' ? isActiveRaw : true;
+  // A publish time still ahead keeps the new link off until the cron turns it on.
+  const schedule = resolveLinkSchedule(
+    typeof isActiveRaw === 'boolean' ? isActiveRaw : true,
+    scheduleTimes,
+    now
+  );
+  const isActiveInput = schedule.isActive;
   const networkArea = normalizeNetworkArea(
     typeof networkAreaRaw === 'string' ? networkAreaRaw : null
   );
@@ -203,6 +293,32 @@ export async function POST(req: Request) {
     return NextResponse.json({ ok: false, error: 'Missing R2 binding' }, { status: 500 });
   }
 
+  try {
+    const storage: UploadStorage = regionalArea
+      ? { kind: 'regional', area: regionalArea, bindings }
+      : { kind: 'r2', bucket: R2 as R2Bucket };
+    for (const [index, upload] of uploads.entries()) {
+      uploads[index] = applyVerifiedUpload(upload, await verifyUpload(storage, upload));
+    }
+  } catch (error) {
+    const keys = uploads.flatMap((upload) =>
+      upload.iconKey ? [upload.key, upload.iconKey] : [upload.key]
+    );
+    if (regionalArea) {
+      await cleanupRegionalUploads(regionalArea, bindings, keys).catch(() => null);
+    } else if (R2) {
+      await Promise.all(keys.map((key) => R2.delete(key).catch(() => null)));
+    }
+    if (error instanceof UploadVerificationError) {
+      return NextResponse.json(
+        { ok: false, error: error.message, mismatches: error.mismatches },
+        { status: error.status }
+      );
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ ok: false, error: message }, { status: 502 });
+  }
+
   const derivedTitle =
     (autofill && uploads.find((upload) => upload.title)?.title?.trim()) ||
     titleInput ||
@@ -222,8 +338,11 @@ export async function POST(req: Request) {
     ipaVersionInput ||
     '';
 
-  const pendingUploadKeys = useRegionalBackend ? uploads.map((upload) => upload.key) : [];
-  const code = generateLinkCode();
+  const pendingUploadKeys = useRegionalBackend
+    ? uploads.flatMap((upload) => (upload.iconKey ? [upload.key, upload.iconKey] : [upload.key]))
+    : [];
+  const codeLength = getLinkCodeLength(bindings);
+  let code = vanityCode ?? (await allocateLinkCode(DB, codeLength));
 
   try {
   let linksInfo = await getTableInfo(DB, 'links');
@@ -250,17 +369,6 @@ export async function POST(req: Request) {
         : isActiveInput ? 1 : 0
       : undefined;
 
-    if (!useRegionalBackend && R2) {
-      await Promise.all(
-        uploads.map(async (upload) => {
-          const head = await R2.head(upload.key);
-          if (!head) {
-            throw new Error(`MISSING_OBJECT:${upload.platform}`);
-          }
-        })
-      );
-    }
-
     const linkColumnPairs: Array<[string, unknown]> = [
       ['id', linkId],
       ['code', code],
@@ -272,6 +380,14 @@ export async function POST(req: Request) {
       ['platform', platformString],
       ['lang', linkLang],
       ['network_area', networkArea],
+      ['access_password', accessPasswordInput ? await hashLinkPassword(accessPasswordInput) : null],
+      ...toLinkLimitColumns(limits),
+      ...toLinkScheduleColumns({
+        publishAt: schedule.publishAt,
+        unpublishAt: schedule.unpublishAt,
+        scheduleTimezone: scheduleInput.scheduleTimezone ?? null,
+      }),
+      ['release_notes', normalizeReleaseNotesInput(releaseNotesRaw, linkLang) ?? null],
       ['today_apk_dl', 0],
       ['today_ipa_dl', 0],
       ['today_total_dl', 0],
@@ -305,6 +421,13 @@ export async function POST(req: Request) {
         ['title', metaTitle ?? DEFAULT_TITLE],
         ['bundle_id', metaBundleId],
         ['link_id', linkId],
+        ['release_no', 1],
+        ['build', upload.build ?? null],
+        ['release_notes', upload.releaseNotes ?? null],
+        ['uploaded_by', uid],
+        ['is_current', 1],
+        ['icon_key', upload.iconKey ?? null],
+        ...provisioningColumns(upload.provisioning ?? null),
       ];
       if (fileCreatedAtValue !== undefined) {
         fileColumnPairs.push(['created_at', fileCreatedAtValue]);
@@ -357,8 +480,19 @@ export async function POST(req: Request) {
     const linkPlaceholders = linkColumns.map(() => '?').join(', ');
     const linkQuery = `INSERT INTO links (${linkColumns.join(', ')}) VALUES (${linkPlaceholders})`;
 
-    const linkStatement = DB.prepare(linkQuery).bind(...linkValues);
-    await linkStatement.run();
+    // The unique index on links.code settles races between concurrent creates: a
+    // random code is simply drawn again, a vanity code is reported as taken.
+    const codeIndex = linkColumns.indexOf('code');
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await DB.prepare(linkQuery).bind(...linkValues).run();
+        break;
+      } catch (error) {
+        if (!isCodeConflictError(error) || vanityCode || attempt >= 2) throw error;
+        code = await allocateLinkCode(DB, codeLength);
+        linkValues[codeIndex] = code;
+      }
+    }
 
     if (fileStatements.length) {
       await Promise.all(fileStatements.map((statement) => statement.run()));
@@ -376,11 +510,16 @@ export async function POST(req: Request) {
         .bind(activeValue, linkId)
         .run();
     }
-    await ensureDownloadStatsTable(DB, linkId);
     if (useRegionalBackend && regionalArea) {
       await publishLinkToRegionalServer(regionalArea, DB, bindings, linkId);
     }
 
+    const created = await fetchDistributionById(DB, linkId).catch(() => null);
+    if (created) {
+      // Sent after the response so slow receivers and DNS checks never delay the create.
+      ctx.waitUntil(emitWebhookEvent(DB, uid, 'link.created', { link: toLinkWebhookData(created) }));
+    }
+
     return NextResponse.json({ ok: true, linkId, code });
   } catch (error) {
     await DB.prepare('DELETE FROM files WHERE link_id=?')
@@ -397,6 +536,9 @@ export async function POST(req: Request) {
     } else if (useRegionalBackend && regionalArea) {
       await cleanupRegionalUploads(regionalArea, bindings, pendingUploadKeys).catch(() => null);
     }
+    if (isCodeConflictError(error)) {
+      return NextResponse.json({ ok: false, error: 'CODE_TAKEN' }, { status: 409 });
+    }
     const message = error instanceof Error ? error.message : String(error);
     return NextResponse.json({ ok: false, error: message }, { status: 500 });
   }
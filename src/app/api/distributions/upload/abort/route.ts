@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { normalizeNetworkArea, isRegionalNetworkArea } from '@/lib/network-area';
+import { isOwnedUploadKey } from '@/lib/multipart-upload';
+import {
+  abortRegionalUploadTicket,
+  type RegionalServerBindings,
+} from '@/lib/regional-server';
+
+export const runtime = 'edge';
+
+type Env = {
+  R2_BUCKET?: R2Bucket;
+} & RegionalServerBindings;
+
+type AbortRequestBody = {
+  key?: string | null;
+  uploadId?: string | null;
+  networkArea?: string | null;
+};
+
+function parseUid(req: Request): string | null {
+  const cookie = req.headers.get('cookie') ?? '';
+  const pair = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!pair) return null;
+  return pair.slice(4);
+}
+
+export async function POST(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: 'UNAUTHENTICATED' }, { status: 401 });
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+
+  let payload: AbortRequestBody | undefined;
+  try {
+    payload = (await req.json()) as AbortRequestBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: 'INVALID_PAYLOAD' }, { status: 400 });
+  }
+
+  const key = (payload?.key ?? '').trim();
+  const uploadId = (payload?.uploadId ?? '').trim();
+  if (!key || !uploadId) {
+    return NextResponse.json({ ok: false, error: 'INVALID_PAYLOAD' }, { status: 400 });
+  }
+  if (!isOwnedUploadKey(uid, key)) {
+    return NextResponse.json({ ok: false, error: 'FORBIDDEN' }, { status: 403 });
+  }
+
+  const networkArea = normalizeNetworkArea(payload?.networkArea);
+  try {
+    if (isRegionalNetworkArea(networkArea)) {
+      await abortRegionalUploadTicket(networkArea, bindings, uploadId);
+    } else if (bindings.R2_BUCKET) {
+      await bindings.R2_BUCKET.resumeMultipartUpload(key, uploadId).abort();
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { normalizeNetworkArea, isRegionalNetworkArea } from '@/lib/network-area';
+import {
+  isOwnedUploadKey,
+  isValidPartNumber,
+  type UploadedPart,
+} from '@/lib/multipart-upload';
+import {
+  completeRegionalUploadTicket,
+  type RegionalServerBindings,
+} from '@/lib/regional-server';
+
+export const runtime = 'edge';
+
+type Env = {
+  R2_BUCKET?: R2Bucket;
+} & RegionalServerBindings;
+
+type CompleteRequestBody = {
+  key?: string | null;
+  uploadId?: string | null;
+  networkArea?: string | null;
+  parts?: unknown;
+};
+
+function parseUid(req: Request): string | null {
+  const cookie = req.headers.get('cookie') ?? '';
+  const pair = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!pair) return null;
+  return pair.slice(4);
+}
+
+const normalizeParts = (value: unknown): UploadedPart[] | null => {
+  if (!Array.isArray(value) || !value.length) return null;
+  const parts: UploadedPart[] = [];
+  for (const item of value) {
+    const partNumber = (item as { partNumber?: unknown })?.partNumber;
+    const etag = (item as { etag?: unknown })?.etag;
+    if (!isValidPartNumber(partNumber) || typeof etag !== 'string' || !etag) return null;
+    // Browsers read the ETag header verbatim, quotes included.
+    parts.push({ partNumber, etag: etag.replace(/^"|"$/g, '') });
+  }
+  return parts.sort((a, b) => a.partNumber - b.partNumber);
+};
+
+export async function POST(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: 'UNAUTHENTICATED' }, { status: 401 });
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+
+  let payload: CompleteRequestBody | undefined;
+  try {
+    payload = (await req.json()) as CompleteRequestBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: 'INVALID_PAYLOAD' }, { status: 400 });
+  }
+
+  const key = (payload?.key ?? '').trim();
+  const uploadId = (payload?.uploadId ?? '').trim();
+  if (!key || !uploadId) {
+    return NextResponse.json({ ok: false, error: 'INVALID_PAYLOAD' }, { status: 400 });
+  }
+  if (!isOwnedUploadKey(uid, key)) {
+    return NextResponse.json({ ok: false, error: 'FORBIDDEN' }, { status: 403 });
+  }
+
+  const networkArea = normalizeNetworkArea(payload?.networkArea);
+  try {
+    if (isRegionalNetworkArea(networkArea)) {
+      await completeRegionalUploadTicket(networkArea, bindings, uploadId);
+      return NextResponse.json({ ok: true });
+    }
+
+    const R2 = bindings.R2_BUCKET;
+    if (!R2) {
+      return NextResponse.json({ ok: false, error: 'Missing R2 binding' }, { status: 500 });
+    }
+    const parts = normalizeParts(payload?.parts);
+    if (!parts) {
+      return NextResponse.json({ ok: false, error: 'INVALID_PARTS' }, { status: 400 });
+    }
+    const object = await R2.resumeMultipartUpload(key, uploadId).complete(parts);
+    return NextResponse.json({ ok: true, size: object.size });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import {
+  isOwnedUploadKey,
+  isValidPartNumber,
+  MULTIPART_PRESIGN_BATCH,
+  MULTIPART_PRESIGN_EXPIRES,
+} from '@/lib/multipart-upload';
+import { getR2PresignConfig, presignR2PutUrl, type R2PresignBindings } from '@/lib/r2-presign';
+
+export const runtime = 'edge';
+
+type PartsRequestBody = {
+  key?: string | null;
+  uploadId?: string | null;
+  partNumbers?: unknown;
+};
+
+function parseUid(req: Request): string | null {
+  const cookie = req.headers.get('cookie') ?? '';
+  const pair = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!pair) return null;
+  return pair.slice(4);
+}
+
+// Presigns R2 multipart part URLs. Regional tickets do not need this: their parts are
+// sent straight to the ticket URL.
+export async function POST(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: 'UNAUTHENTICATED' }, { status: 401 });
+  }
+
+  const { env } = getRequestContext();
+  const presignConfig = getR2PresignConfig(env as R2PresignBindings);
+  if (!presignConfig) {
+    return NextResponse.json({ ok: false, error: 'Missing R2 credentials' }, { status: 500 });
+  }
+
+  let payload: PartsRequestBody | undefined;
+  try {
+    payload = (await req.json()) as PartsRequestBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: 'INVALID_PAYLOAD' }, { status: 400 });
+  }
+
+  const key = (payload?.key ?? '').trim();
+  const uploadId = (payload?.uploadId ?? '').trim();
+  if (!key || !uploadId) {
+    return NextResponse.json({ ok: false, error: 'INVALID_PAYLOAD' }, { status: 400 });
+  }
+  if (!isOwnedUploadKey(uid, key)) {
+    return NextResponse.json({ ok: false, error: 'FORBIDDEN' }, { status: 403 });
+  }
+
+  const partNumbers = Array.isArray(payload?.partNumbers) ? payload.partNumbers : [];
+  if (
+    !partNumbers.length ||
+    partNumbers.length > MULTIPART_PRESIGN_BATCH ||
+    !partNumbers.every((value) => isValidPartNumber(value))
+  ) {
+    return NextResponse.json({ ok: false, error: 'INVALID_PART_NUMBER' }, { status: 400 });
+  }
+
+  const parts = await Promise.all(
+    (partNumbers as number[]).map(async (partNumber) => ({
+      partNumber,
+      url: await presignR2PutUrl(presignConfig, {
+        key,
+        expires: MULTIPART_PRESIGN_EXPIRES,
+        query: { partNumber: String(partNumber), uploadId },
+      }),
+    }))
+  );
+
+  return NextResponse.json({ ok: true, parts });
+}
@@ -1,8 +1,12 @@
 import { NextResponse } from 'next/server';
 import { getRequestContext } from '@cloudflare/next-on-pages';
 import { normalizeNetworkArea, isRegionalNetworkArea } from '@/lib/network-area';
-import { createCnUploadTicket } from '@/lib/cn-server';
-import { createRuUploadTicket } from '@/lib/ru-server';
+import { createRegionalUploadTicket } from '@/lib/regional-server';
+import {
+  planMultipartUpload,
+  type MultipartUploadSession,
+} from '@/lib/multipart-upload';
+import { getR2PresignConfig, presignR2PutUrl } from '@/lib/r2-presign';
 
 export const runtime = 'edge';
 
@@ -30,13 +34,16 @@ type UploadRequestBody = {
   bundleId?: string | null;
   version?: string | null;
   networkArea?: string | null;
+  multipart?: boolean;
 };
 
 type UploadResponse = {
   ok: true;
   linkId: string;
-  uploadUrl: string;
+  /** Null for R2 multipart sessions; their part URLs come from `/upload/parts`. */
+  uploadUrl: string | null;
   uploadHeaders: Record<string, string>;
+  multipart: MultipartUploadSession | null;
   upload: {
     platform: Platform;
     key: string;
@@ -66,124 +73,6 @@ function sanitizeFileName(value: string, fallback: string): string {
     .replace(/[^a-zA-Z0-9._-]/g, '') || fallback;
 }
 
-function toAmzDate(date: Date) {
-  const pad = (n: number) => n.toString().padStart(2, '0');
-  const yyyy = date.getUTCFullYear();
-  const mm = pad(date.getUTCMonth() + 1);
-  const dd = pad(date.getUTCDate());
-  const hh = pad(date.getUTCHours());
-  const mi = pad(date.getUTCMinutes());
-  const ss = pad(date.getUTCSeconds());
-  return `${yyyy}${mm}${dd}T${hh}${mi}${ss}Z`;
-}
-
-function encodeRfc3986Path(path: string) {
-  return path
-    .split('/')
-    .map((segment) =>
-      encodeURIComponent(segment).replace(
-        /[!'()*]/g,
-        (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
-      )
-    )
-    .join('/');
-}
-
-async function sha256Hex(input: string | ArrayBuffer) {
-  const data = typeof input === 'string' ? new TextEncoder().encode(input) : input;
-  const digest = await crypto.subtle.digest('SHA-256', data);
-  const bytes = new Uint8Array(digest);
-  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
-}
-
-async function hmac(key: ArrayBuffer | ArrayBufferView, data: string) {
-  const sourceView =
-    key instanceof ArrayBuffer
-      ? new Uint8Array(key)
-      : new Uint8Array(key.buffer, key.byteOffset, key.byteLength);
-  const keyView = new Uint8Array(sourceView);
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    keyView,
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  const signature = await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
-  return signature;
-}
-
-async function getSigningKey(secretKey: string, date: string, region: string, service: string) {
-  const kDate = await hmac(new TextEncoder().encode(`AWS4${secretKey}`), date);
-  const kRegion = await hmac(kDate, region);
-  const kService = await hmac(kRegion, service);
-  const kSigning = await hmac(kService, 'aws4_request');
-  return kSigning;
-}
-
-async function hmacHex(key: ArrayBuffer, data: string) {
-  const signature = await hmac(key, data);
-  const bytes = new Uint8Array(signature);
-  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
-}
-
-async function presignPutUrl(options: {
-  accountId: string;
-  accessKeyId: string;
-  secretKey: string;
-  bucket: string;
-  key: string;
-  contentType: string;
-  expires: number;
-}) {
-  const { accountId, accessKeyId, secretKey, bucket, key, contentType, expires } = options;
-  const service = 's3';
-  const region = 'auto';
-  const host = `${accountId}.r2.cloudflarestorage.com`;
-  const now = new Date();
-  const amzDate = toAmzDate(now);
-  const dateStamp = amzDate.slice(0, 8);
-  const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
-
-  const canonicalUri = `/${encodeURIComponent(bucket)}/${encodeRfc3986Path(key)}`;
-
-  const queryPairs: Array<[string, string]> = [
-    ['X-Amz-Algorithm', 'AWS4-HMAC-SHA256'],
-    ['X-Amz-Credential', `${accessKeyId}/${credentialScope}`],
-    ['X-Amz-Date', amzDate],
-    ['X-Amz-Expires', String(expires)],
-    ['X-Amz-SignedHeaders', 'content-type;host'],
-  ];
-
-  const canonicalQuery = queryPairs
-    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
-    .sort()
-    .join('&');
-
-  const canonicalHeaders = `content-type:${contentType}\nhost:${host}\n`;
-  const signedHeaders = 'content-type;host';
-  const payloadHash = 'UNSIGNED-PAYLOAD';
-
-  const canonicalRequest = [
-    'PUT',
-    canonicalUri,
-    canonicalQuery,
-    canonicalHeaders,
-    signedHeaders,
-    payloadHash,
-  ].join('\n');
-
-  const hashCanonical = await sha256Hex(canonicalRequest);
-  const stringToSign = `AWS4-HMAC-SHA256\n${amzDate}\n${credentialScope}\n${hashCanonical}`;
-  const signingKey = await getSigningKey(secretKey, dateStamp, region, service);
-  const signature = await hmacHex(signingKey, stringToSign);
-
-  const baseUrl = `https://${host}${canonicalUri}`;
-  const signedUrl = `${baseUrl}?${canonicalQuery}&X-Amz-Signature=${signature}`;
-
-  return signedUrl;
-}
-
 export async function POST(req: Request) {
   const uid = parseUid(req);
   if (!uid) {
@@ -193,10 +82,6 @@ export async function POST(req: Request) {
   const { env } = getRequestContext();
   const bindings = env as Env;
   const R2 = bindings.R2_BUCKET;
-  const accountId = bindings.R2_ACCOUNT_ID;
-  const accessKeyId = bindings.R2_ACCESS_KEY_ID;
-  const secretKey = bindings.R2_SECRET_ACCESS_KEY;
-  const bucketName = bindings.R2_BUCKET_NAME;
 
   let payload: UploadRequestBody | undefined;
   try {
@@ -235,6 +120,7 @@ export async function POST(req: Request) {
   const networkArea = normalizeNetworkArea(payload.networkArea);
   const regionalArea = isRegionalNetworkArea(networkArea) ? networkArea : null;
   const useRegionalBackend = Boolean(regionalArea);
+  const multipartPlan = payload.multipart === true ? planMultipartUpload(size) : null;
 
   let linkId = (payload.linkId ?? '').trim();
   if (!linkId) {
@@ -242,19 +128,19 @@ export async function POST(req: Request) {
   }
 
   const safeName = sanitizeFileName(fileName, `${platform}.bin`);
-  const key = `${uid}/links/${linkId}/${platform}/${safeName}`;
+  // Prefix with the upload time so a new release never overwrites an older one.
+  const key = `${uid}/links/${linkId}/${platform}/${Date.now()}-${safeName}`;
 
   if (useRegionalBackend && regionalArea) {
     try {
-      const creator =
-        regionalArea === 'CN' ? createCnUploadTicket : createRuUploadTicket;
-      const ticket = await creator(bindings, {
+      const ticket = await createRegionalUploadTicket(regionalArea, bindings, {
         key,
         contentType,
         size,
         platform,
         linkId,
         ownerId: uid,
+        ...(multipartPlan ? { partSize: multipartPlan.partSize } : {}),
       });
       const response: UploadResponse = {
         ok: true,
@@ -264,6 +150,15 @@ export async function POST(req: Request) {
           'Content-Type': contentType,
           ...ticket.uploadHeaders,
         },
+        multipart:
+          ticket.ticketId && ticket.partSize && ticket.partCount
+            ? {
+                mode: 'ticket',
+                uploadId: ticket.ticketId,
+                partSize: ticket.partSize,
+                partCount: ticket.partCount,
+              }
+            : null,
         upload: {
           platform,
           key,
@@ -282,7 +177,8 @@ export async function POST(req: Request) {
     }
   }
 
-  if (!R2 || !accountId || !accessKeyId || !secretKey || !bucketName) {
+  const presignConfig = getR2PresignConfig(bindings);
+  if (!R2 || !presignConfig) {
     return NextResponse.json({ ok: false, error: 'Missing R2 credentials' }, { status: 500 });
   }
 
@@ -291,15 +187,14 @@ export async function POST(req: Request) {
     await R2.delete(key).catch(() => null);
   }
 
-  const uploadUrl = await presignPutUrl({
-    accountId,
-    accessKeyId,
-    secretKey,
-    bucket: bucketName,
-    key,
-    contentType,
-    expires: 600,
-  });
+  let uploadUrl: string | null = null;
+  let multipart: MultipartUploadSession | null = null;
+  if (multipartPlan) {
+    const session = await R2.createMultipartUpload(key, { httpMetadata: { contentType } });
+    multipart = { mode: 'r2', uploadId: session.uploadId, ...multipartPlan };
+  } else {
+    uploadUrl = await presignR2PutUrl(presignConfig, { key, contentType, expires: 600 });
+  }
 
   const response: UploadResponse = {
     ok: true,
@@ -308,6 +203,7 @@ export async function POST(req: Request) {
     uploadHeaders: {
       'Content-Type': contentType,
     },
+    multipart,
     upload: {
       platform,
       key,
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchAccountAnalytics, isAnalyticsPlatform, resolveAnalyticsRange } from '@/lib/account-analytics';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookieHeader = req.headers.get('cookie') ?? '';
+  const entry = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  const value = entry.slice(4).trim();
+  return value || null;
+};
+
+// `from`/`to` are UTC days (`YYYY-MM-DD`); `platform` is `all`, `apk` or `ipa`.
+export async function GET(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+
+  const url = new URL(req.url);
+  const range = resolveAnalyticsRange(url.searchParams.get('from'), url.searchParams.get('to'));
+  if (!range) {
+    return jsonError('INVALID_RANGE', 400);
+  }
+  const platformParam = url.searchParams.get('platform') ?? 'all';
+  if (!isAnalyticsPlatform(platformParam)) {
+    return jsonError('INVALID_PLATFORM', 400);
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  try {
+    const analytics = await fetchAccountAnalytics(DB, uid, range.startDate, range.endDate, platformParam);
+    return NextResponse.json({ ok: true, analytics });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message || 'QUERY_FAILED', 500);
+  }
+}
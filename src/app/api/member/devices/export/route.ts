@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { formatAppleDeviceList, listUdidDevices } from '@/lib/udid';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const parseUid = (req: Request): string | null => {
+  const cookieHeader = req.headers.get('cookie') ?? '';
+  const entry = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  const value = entry.slice(4).trim();
+  return value || null;
+};
+
+// Downloads the owner's collected devices as a file for the Apple Developer
+// portal's "Register Multiple Devices" upload.
+export async function GET(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return NextResponse.json({ ok: false, error: 'UNAUTHENTICATED' }, { status: 401 });
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return NextResponse.json({ ok: false, error: 'Missing D1 binding DB' }, { status: 500 });
+  }
+
+  const devices = await listUdidDevices(DB, uid);
+  return new Response(formatAppleDeviceList(devices), {
+    status: 200,
+    headers: {
+      'content-type': 'text/plain; charset=utf-8',
+      'content-disposition': 'attachment; filename="devices.txt"',
+      'cache-control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchDistributionSummariesByOwner } from '@/lib/distribution';
+import { resolveHourlyStatsRetentionDays } from '@/lib/downloads';
+import {
+  accountStatsExportRows,
+  MAX_STATS_EXPORT_ROWS,
+  parseStatsExportFormat,
+  statsExportFilename,
+  statsExportResponse,
+} from '@/lib/stats-export';
+import { fetchOwnerStatsSeries, parseStatsRange, StatsRangeError, type StatsRange } from '@/lib/stats-series';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+  HOURLY_STATS_RETENTION_DAYS?: string;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookieHeader = req.headers.get('cookie') ?? '';
+  const entry = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  const value = entry.slice(4).trim();
+  return value || null;
+};
+
+// Download series of all of the member's links in one file: one row per link and bucket,
+// with the same `from`/`to`/`frequency`/`format` parameters as the per-link export.
+export async function GET(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+
+  const url = new URL(req.url);
+  const format = parseStatsExportFormat(url.searchParams.get('format'));
+  if (!format) {
+    return jsonError('INVALID_FORMAT', 400);
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  let range: StatsRange;
+  try {
+    range = parseStatsRange(
+      url.searchParams,
+      resolveHourlyStatsRetentionDays(bindings.HOURLY_STATS_RETENTION_DAYS)
+    );
+  } catch (error) {
+    if (error instanceof StatsRangeError) {
+      return NextResponse.json(
+        { ok: false, error: error.message, hourlyRetentionDays: error.hourlyRetentionDays },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const links = await fetchDistributionSummariesByOwner(DB, uid);
+    if (links.length * range.bucketTimes.length > MAX_STATS_EXPORT_ROWS) {
+      return jsonError('RANGE_TOO_LARGE', 400);
+    }
+    const series = await fetchOwnerStatsSeries(DB, uid, range);
+    return statsExportResponse(
+      format,
+      statsExportFilename('downloads', range, format),
+      accountStatsExportRows(links, series, range)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message || 'QUERY_FAILED', 500);
+  }
+}
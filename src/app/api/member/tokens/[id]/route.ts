@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { revokeApiToken } from '@/lib/api-tokens';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookieHeader = req.headers.get('cookie') ?? '';
+  const entry = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  const value = entry.slice(4).trim();
+  return value || null;
+};
+
+export async function DELETE(req: Request, context: { params: Promise<{ id: string }> }) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing D1 binding DB', 500);
+  }
+
+  const { id } = await context.params;
+  const revoked = await revokeApiToken(DB, uid, String(id ?? '').trim());
+  if (!revoked) {
+    return jsonError('NOT_FOUND', 404);
+  }
+  return NextResponse.json({ ok: true });
+}
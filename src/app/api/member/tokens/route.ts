@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import {
+  MAX_API_TOKEN_NAME_LENGTH,
+  createApiToken,
+  listApiTokens,
+  normalizeApiTokenScopes,
+} from '@/lib/api-tokens';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookieHeader = req.headers.get('cookie') ?? '';
+  const entry = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  const value = entry.slice(4).trim();
+  return value || null;
+};
+
+const getDB = () => {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  return bindings.DB ?? bindings['rudl-app'] ?? null;
+};
+
+export async function GET(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing D1 binding DB', 500);
+  }
+
+  const tokens = await listApiTokens(DB, uid);
+  return NextResponse.json({ ok: true, tokens });
+}
+
+// The response carries the full token once; only its hash is stored.
+export async function POST(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing D1 binding DB', 500);
+  }
+
+  let payload: { name?: unknown; scopes?: unknown } | null = null;
+  try {
+    payload = (await req.json()) as { name?: unknown; scopes?: unknown };
+  } catch {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+
+  const name = typeof payload?.name === 'string' ? payload.name.trim() : '';
+  if (!name || name.length > MAX_API_TOKEN_NAME_LENGTH) {
+    return jsonError('INVALID_NAME', 400);
+  }
+  const scopes = normalizeApiTokenScopes(payload?.scopes);
+  if (!scopes) {
+    return jsonError('INVALID_SCOPES', 400);
+  }
+
+  try {
+    const { token, secret } = await createApiToken(DB, uid, { name, scopes });
+    return NextResponse.json({ ok: true, token, secret });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message, message === 'TOKEN_LIMIT_REACHED' ? 409 : 500);
+  }
+}
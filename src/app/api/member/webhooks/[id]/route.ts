@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import {
+  deleteWebhookEndpoint,
+  normalizeBalanceThreshold,
+  normalizeWebhookEvents,
+  updateWebhookEndpoint,
+} from '@/lib/webhooks';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookieHeader = req.headers.get('cookie') ?? '';
+  const entry = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  const value = entry.slice(4).trim();
+  return value || null;
+};
+
+const getDB = () => {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  return bindings.DB ?? bindings['rudl-app'] ?? null;
+};
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Changes the subscribed events, the `balance.low` threshold or pauses the endpoint.
+export async function PATCH(req: Request, context: RouteContext) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing D1 binding DB', 500);
+  }
+
+  let payload: { events?: unknown; balanceThreshold?: unknown; isActive?: unknown } | null = null;
+  try {
+    payload = (await req.json()) as { events?: unknown; balanceThreshold?: unknown; isActive?: unknown };
+  } catch {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+
+  const events = payload?.events === undefined ? undefined : normalizeWebhookEvents(payload.events);
+  if (events === null) {
+    return jsonError('INVALID_EVENTS', 400);
+  }
+  const balanceThreshold = normalizeBalanceThreshold(payload?.balanceThreshold);
+  if (balanceThreshold === null) {
+    return jsonError('INVALID_THRESHOLD', 400);
+  }
+  const isActive = typeof payload?.isActive === 'boolean' ? payload.isActive : undefined;
+
+  const { id } = await context.params;
+  const updated = await updateWebhookEndpoint(DB, uid, String(id ?? '').trim(), {
+    events,
+    balanceThreshold,
+    isActive,
+  });
+  if (!updated) {
+    return jsonError('NOT_FOUND', 404);
+  }
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing D1 binding DB', 500);
+  }
+
+  const { id } = await context.params;
+  const deleted = await deleteWebhookEndpoint(DB, uid, String(id ?? '').trim());
+  if (!deleted) {
+    return jsonError('NOT_FOUND', 404);
+  }
+  return NextResponse.json({ ok: true });
+}
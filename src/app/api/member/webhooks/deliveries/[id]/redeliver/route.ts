@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { redeliverWebhook } from '@/lib/webhooks';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookieHeader = req.headers.get('cookie') ?? '';
+  const entry = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  const value = entry.slice(4).trim();
+  return value || null;
+};
+
+const getDB = () => {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  return bindings.DB ?? bindings['rudl-app'] ?? null;
+};
+
+export async function POST(req: Request, context: { params: Promise<{ id: string }> }) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing D1 binding DB', 500);
+  }
+
+  const { id } = await context.params;
+  const queued = await redeliverWebhook(DB, uid, String(id ?? '').trim());
+  if (!queued) {
+    return jsonError('NOT_FOUND', 404);
+  }
+  return NextResponse.json({ ok: true });
+}
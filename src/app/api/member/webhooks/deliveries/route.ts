@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { listWebhookDeliveries } from '@/lib/webhooks';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookieHeader = req.headers.get('cookie') ?? '';
+  const entry = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  const value = entry.slice(4).trim();
+  return value || null;
+};
+
+const getDB = () => {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  return bindings.DB ?? bindings['rudl-app'] ?? null;
+};
+
+// The delivery log, newest first; `?endpointId=` narrows it to one endpoint.
+export async function GET(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing D1 binding DB', 500);
+  }
+
+  const { searchParams } = new URL(req.url);
+  const deliveries = await listWebhookDeliveries(DB, uid, {
+    endpointId: searchParams.get('endpointId'),
+    limit: Number(searchParams.get('limit') ?? '50') || 50,
+  });
+  return NextResponse.json({ ok: true, deliveries });
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  normalizeBalanceThreshold,
+  normalizeWebhookEvents,
+} from '@/lib/webhooks';
+import { normalizeWebhookUrl } from '@/lib/webhook-delivery';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const parseUid = (req: Request): string | null => {
+  const cookieHeader = req.headers.get('cookie') ?? '';
+  const entry = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith('uid='));
+  if (!entry) return null;
+  const value = entry.slice(4).trim();
+  return value || null;
+};
+
+const getDB = () => {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  return bindings.DB ?? bindings['rudl-app'] ?? null;
+};
+
+export async function GET(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing D1 binding DB', 500);
+  }
+
+  const endpoints = await listWebhookEndpoints(DB, uid);
+  return NextResponse.json({ ok: true, endpoints });
+}
+
+// The signing secret is returned once, in this response.
+export async function POST(req: Request) {
+  const uid = parseUid(req);
+  if (!uid) {
+    return jsonError('UNAUTHENTICATED', 401);
+  }
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing D1 binding DB', 500);
+  }
+
+  let payload: { url?: unknown; events?: unknown; balanceThreshold?: unknown } | null = null;
+  try {
+    payload = (await req.json()) as { url?: unknown; events?: unknown; balanceThreshold?: unknown };
+  } catch {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+
+  const url = normalizeWebhookUrl(payload?.url);
+  if (!url) {
+    return jsonError('INVALID_URL', 400);
+  }
+  const events = normalizeWebhookEvents(payload?.events);
+  if (!events) {
+    return jsonError('INVALID_EVENTS', 400);
+  }
+  const balanceThreshold = normalizeBalanceThreshold(payload?.balanceThreshold);
+  if (balanceThreshold === null) {
+    return jsonError('INVALID_THRESHOLD', 400);
+  }
+
+  try {
+    const { endpoint, secret } = await createWebhookEndpoint(DB, uid, { url, events, balanceThreshold });
+    return NextResponse.json({ ok: true, endpoint, secret });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(message, message === 'WEBHOOK_LIMIT_REACHED' ? 409 : 500);
+  }
+}
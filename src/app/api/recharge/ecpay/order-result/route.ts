@@ -9,6 +9,7 @@ import {
   markEcpayOrderPaymentInfo,
 } from '@/lib/ecpay';
 import { enqueueRechargeTask } from '@/lib/recharge-queue';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 export const runtime = 'edge';
 
@@ -140,6 +141,16 @@ const persistPaymentInfo = async (payload: Record<string, string>, bindings: Env
   } else {
     await markEcpayOrderFailed(DB, merchantTradeNo, { rtnCode, rtnMsg, raw: payload }, 'orderResult');
     console.warn('[ecpay] order-result marked failed', merchantTradeNo, rtnCode, rtnMsg);
+    if (order.status !== 'FAILED') {
+      await emitWebhookEvent(DB, order.accountId, 'order.failed', {
+        merchantTradeNo,
+        points: order.points,
+        amount: order.amount,
+        currency: order.currency,
+        rtnCode,
+        rtnMsg,
+      });
+    }
   }
 };
 
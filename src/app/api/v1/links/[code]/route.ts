@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { PATCH as updateDistribution } from '@/app/api/distributions/[id]/route';
+import { asTokenOwnerRequest, authenticateApiToken } from '@/lib/api-tokens';
+import { fetchDistributionById } from '@/lib/distribution';
+import { fetchOwnedLinkByCode, toLinkUpdateBody, toPublicApiLink } from '@/lib/public-api';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+type RouteContext = { params: Promise<{ code: string }> };
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const getDB = () => {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  return bindings.DB ?? bindings['rudl-app'] ?? null;
+};
+
+export async function GET(req: Request, context: RouteContext) {
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const auth = await authenticateApiToken(DB, req, 'links:read');
+  if (!auth.ok) {
+    return jsonError(auth.error, auth.status);
+  }
+
+  const { code } = await context.params;
+  const owned = await fetchOwnedLinkByCode(DB, auth.token.ownerId, code ?? '');
+  if (!owned.ok) {
+    return jsonError(owned.error, owned.status);
+  }
+  return NextResponse.json({ ok: true, link: toPublicApiLink(owned.link, new URL(req.url).origin) });
+}
+
+// Updates the link behind a code: the body of `PATCH /api/distributions/<id>`, where every
+// omitted field keeps its current value. Uploads come from `POST /api/v1/uploads` with `code`.
+export async function PATCH(req: Request, context: RouteContext) {
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const auth = await authenticateApiToken(DB, req, 'links:write');
+  if (!auth.ok) {
+    return jsonError(auth.error, auth.status);
+  }
+  const ownerId = auth.token.ownerId;
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await req.json()) as Record<string, unknown>;
+  } catch {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+  if (!payload || typeof payload !== 'object') {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+
+  const { code } = await context.params;
+  const owned = await fetchOwnedLinkByCode(DB, ownerId, code ?? '');
+  if (!owned.ok) {
+    return jsonError(owned.error, owned.status);
+  }
+
+  const response = await updateDistribution(
+    asTokenOwnerRequest(req, ownerId, { body: toLinkUpdateBody(owned.link, payload) }),
+    { params: Promise.resolve({ id: owned.link.id }) }
+  );
+  if (!response.ok) {
+    return response;
+  }
+  const updated = await fetchDistributionById(DB, owned.link.id);
+  return NextResponse.json({
+    ok: true,
+    link: updated ? toPublicApiLink(updated, new URL(req.url).origin) : null,
+  });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { GET as fetchStats } from '@/app/api/distributions/[id]/stats/route';
+import { asTokenOwnerRequest, authenticateApiToken } from '@/lib/api-tokens';
+import { fetchOwnedLinkByCode } from '@/lib/public-api';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+// Same query parameters and response as `/api/distributions/<id>/stats`.
+export async function GET(req: Request, context: { params: Promise<{ code: string }> }) {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const auth = await authenticateApiToken(DB, req, 'stats:read');
+  if (!auth.ok) {
+    return jsonError(auth.error, auth.status);
+  }
+
+  const { code } = await context.params;
+  const owned = await fetchOwnedLinkByCode(DB, auth.token.ownerId, code ?? '');
+  if (!owned.ok) {
+    return jsonError(owned.error, owned.status);
+  }
+
+  return fetchStats(asTokenOwnerRequest(req, auth.token.ownerId), {
+    params: Promise.resolve({ id: owned.link.id }),
+  });
+}
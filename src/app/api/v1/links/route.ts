@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { GET as listDashboardLinks } from '@/app/api/dashboard/links/route';
+import { POST as finalizeDistribution } from '@/app/api/distributions/route';
+import { asTokenOwnerRequest, authenticateApiToken } from '@/lib/api-tokens';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const getDB = () => {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  return bindings.DB ?? bindings['rudl-app'] ?? null;
+};
+
+// The caller's links, newest first: same `page`/`pageSize` query and response as the dashboard.
+export async function GET(req: Request) {
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const auth = await authenticateApiToken(DB, req, 'links:read');
+  if (!auth.ok) {
+    return jsonError(auth.error, auth.status);
+  }
+
+  return listDashboardLinks(asTokenOwnerRequest(req, auth.token.ownerId));
+}
+
+// Creates a link from finished uploads: same body and response as `POST /api/distributions`,
+// except that `autofill` defaults to true so title and versions come from the packages.
+export async function POST(req: Request) {
+  const DB = getDB();
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const auth = await authenticateApiToken(DB, req, 'links:write');
+  if (!auth.ok) {
+    return jsonError(auth.error, auth.status);
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await req.json()) as Record<string, unknown>;
+  } catch {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+  if (!payload || typeof payload !== 'object') {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+
+  return finalizeDistribution(
+    asTokenOwnerRequest(req, auth.token.ownerId, { body: { autofill: true, ...payload } })
+  );
+}
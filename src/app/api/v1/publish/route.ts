@@ -0,0 +1,156 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { POST as finalizeDistribution } from '@/app/api/distributions/route';
+import { PATCH as updateDistribution } from '@/app/api/distributions/[id]/route';
+import { POST as createUpload } from '@/app/api/distributions/upload/route';
+import { asTokenOwnerRequest, authenticateApiToken } from '@/lib/api-tokens';
+import { fetchDistributionById, type DistributionLink } from '@/lib/distribution';
+import { fetchOwnedLinkByCode, toLinkUpdateBody, toPublicApiLink } from '@/lib/public-api';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+type UploadTicket = {
+  ok: true;
+  linkId: string;
+  uploadUrl: string | null;
+  uploadHeaders: Record<string, string>;
+  upload: Record<string, unknown>;
+};
+
+/** Larger builds go through `/api/v1/uploads` so they can use multipart uploads. */
+const MAX_PUBLISH_FILE_SIZE = 64 * 1024 * 1024;
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+const readText = (form: FormData, name: string) => {
+  const value = form.get(name);
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+const platformOf = (fileName: string, explicit: string) => {
+  const value = explicit.toLowerCase() || fileName.split('.').pop()?.toLowerCase() || '';
+  return value === 'apk' || value === 'ipa' ? value : null;
+};
+
+// One-call "upload and publish" for CI: a multipart form with the package in `file`, creating
+// a link or, with `code`, replacing that link's build for the platform.
+export async function POST(req: Request) {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const auth = await authenticateApiToken(DB, req, 'links:write');
+  if (!auth.ok) {
+    return jsonError(auth.error, auth.status);
+  }
+  const ownerId = auth.token.ownerId;
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+
+  const file = form.get('file');
+  if (!file || typeof file === 'string') {
+    return jsonError('FILE_REQUIRED', 400);
+  }
+  if (file.size > MAX_PUBLISH_FILE_SIZE) {
+    return jsonError('FILE_TOO_LARGE', 413);
+  }
+  const platform = platformOf(file.name, readText(form, 'platform'));
+  if (!platform) {
+    return jsonError('INVALID_PLATFORM', 400);
+  }
+
+  let existing: DistributionLink | null = null;
+  const code = readText(form, 'code');
+  if (code) {
+    const owned = await fetchOwnedLinkByCode(DB, ownerId, code);
+    if (!owned.ok) {
+      return jsonError(owned.error, owned.status);
+    }
+    existing = owned.link;
+  }
+
+  const ticketResponse = await createUpload(
+    asTokenOwnerRequest(req, ownerId, {
+      body: {
+        platform,
+        fileName: file.name || `app.${platform}`,
+        size: file.size,
+        contentType: file.type || null,
+        linkId: existing?.id ?? null,
+        networkArea: existing?.networkArea ?? (readText(form, 'networkArea') || null),
+      },
+    })
+  );
+  if (!ticketResponse.ok) {
+    return ticketResponse;
+  }
+  const ticket = (await ticketResponse.json()) as UploadTicket;
+  if (!ticket.uploadUrl) {
+    return jsonError('UPLOAD_URL_MISSING', 500);
+  }
+
+  const put = await fetch(ticket.uploadUrl, {
+    method: 'PUT',
+    headers: ticket.uploadHeaders,
+    body: file,
+  }).catch(() => null);
+  if (!put?.ok) {
+    return jsonError('UPLOAD_FAILED', 502);
+  }
+
+  const releaseNotes = readText(form, 'releaseNotes');
+  const upload = { ...ticket.upload, ...(releaseNotes ? { releaseNotes } : {}) };
+  const settings: Record<string, unknown> = { uploads: [upload] };
+  const title = readText(form, 'title');
+  if (title) settings.title = title;
+  const lang = readText(form, 'lang');
+  if (lang) settings.lang = lang;
+  const isActive = readText(form, 'isActive').toLowerCase();
+  if (isActive) settings.isActive = !['0', 'false', 'no', 'off'].includes(isActive);
+  if (form.has('accessPassword')) settings.accessPassword = readText(form, 'accessPassword');
+
+  const finalized = existing
+    ? await updateDistribution(
+        asTokenOwnerRequest(req, ownerId, { method: 'PATCH', body: toLinkUpdateBody(existing, settings) }),
+        { params: Promise.resolve({ id: existing.id }) }
+      )
+    : await finalizeDistribution(
+        asTokenOwnerRequest(req, ownerId, {
+          body: {
+            linkId: ticket.linkId,
+            title: '',
+            bundleId: '',
+            apkVersion: '',
+            ipaVersion: '',
+            lang: 'en',
+            autofill: true,
+            networkArea: readText(form, 'networkArea') || undefined,
+            ...settings,
+          },
+        })
+      );
+  if (!finalized.ok) {
+    return finalized;
+  }
+
+  const link = await fetchDistributionById(DB, existing?.id ?? ticket.linkId);
+  return NextResponse.json({
+    ok: true,
+    link: link ? toPublicApiLink(link, new URL(req.url).origin) : null,
+  });
+}
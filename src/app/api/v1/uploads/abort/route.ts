@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { POST as abortUpload } from '@/app/api/distributions/upload/abort/route';
+import { asTokenOwnerRequest, authenticateApiToken } from '@/lib/api-tokens';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+// Same body and response as `/api/distributions/upload/abort`.
+export async function POST(req: Request) {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const auth = await authenticateApiToken(DB, req, 'links:write');
+  if (!auth.ok) {
+    return jsonError(auth.error, auth.status);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+
+  return abortUpload(asTokenOwnerRequest(req, auth.token.ownerId, { body: payload }));
+}
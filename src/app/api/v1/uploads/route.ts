@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import type { D1Database } from '@cloudflare/workers-types';
+import { POST as createUpload } from '@/app/api/distributions/upload/route';
+import { asTokenOwnerRequest, authenticateApiToken } from '@/lib/api-tokens';
+import { fetchOwnedLinkByCode } from '@/lib/public-api';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+type UploadRequestBody = Record<string, unknown> & {
+  /** Uploads a new build for this existing link instead of a new one. */
+  code?: string | null;
+};
+
+const jsonError = (error: string, status = 400) =>
+  NextResponse.json({ ok: false, error }, { status });
+
+// Same body and response as `/api/distributions/upload`, plus an optional `code`.
+export async function POST(req: Request) {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return jsonError('Missing DB binding', 500);
+  }
+
+  const auth = await authenticateApiToken(DB, req, 'links:write');
+  if (!auth.ok) {
+    return jsonError(auth.error, auth.status);
+  }
+  const ownerId = auth.token.ownerId;
+
+  let payload: UploadRequestBody;
+  try {
+    payload = (await req.json()) as UploadRequestBody;
+  } catch {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+  if (!payload || typeof payload !== 'object') {
+    return jsonError('INVALID_PAYLOAD', 400);
+  }
+
+  const { code, ...body } = payload;
+  if (typeof code === 'string' && code.trim()) {
+    const owned = await fetchOwnedLinkByCode(DB, ownerId, code);
+    if (!owned.ok) {
+      return jsonError(owned.error, owned.status);
+    }
+    // The storage key and backend follow the link, whatever the caller sent.
+    body.linkId = owned.link.id;
+    body.networkArea = owned.link.networkArea;
+  }
+
+  return createUpload(asTokenOwnerRequest(req, ownerId, { body }));
+}
@@ -1,10 +1,36 @@
 import { getRequestContext } from '@cloudflare/next-on-pages';
+import { getAppIconUrl } from '@/lib/app-icon';
+import { redirectFromLinkCodeAlias } from '@/lib/code';
 import { fetchDistributionByCode } from '@/lib/distribution';
 import {
   getRegionalDownloadBaseUrl,
   type RegionalServerBindings,
 } from '@/lib/regional-server';
 import { isRegionalNetworkArea } from '@/lib/network-area';
+import { getProfileExpiryState } from '@/lib/provisioning';
+import { fetchDownloadCounts } from '@/lib/downloads';
+import { getLinkAvailability, hasDownloadCap } from '@/lib/link-limits';
+import { formatScheduleTime, isLinkComingSoon, isLinkLive } from '@/lib/link-schedule';
+import { funnelPlatformFromUserAgent, recordFunnelStep } from '@/lib/link-funnel';
+import { isBotUserAgent, isPrefetchRequest } from '@/lib/download-filter';
+import { encodeQr, renderQrSvg } from '@/lib/qr';
+import { pickReleaseNotes, renderReleaseNotesHtml } from '@/lib/release-notes';
+import {
+  createLinkGrant,
+  getLinkAccessSecret,
+  isPasswordAttemptLimited,
+  recordPasswordFailure,
+  verifyLinkGrant,
+  verifyLinkPassword,
+  type LinkAccessBindings,
+} from '@/lib/link-access';
+import { getClientIp, hashDownloadIp } from '@/lib/download-events';
+import {
+  createBillingGrant,
+  getBillingGrantSecret,
+  type BillingGrantBindings,
+  type BillingPlatform,
+} from '@/lib/billing-grant';
 
 import { createTranslator } from '@/i18n/helpers';
 import { DEFAULT_LOCALE, type Locale } from '@/i18n/dictionary';
@@ -15,7 +41,9 @@ export const runtime = 'edge';
 type Env = {
   DB?: D1Database;
   ['rudl-app']?: D1Database;
-} & RegionalServerBindings;
+} & RegionalServerBindings &
+  LinkAccessBindings &
+  BillingGrantBindings;
 
 type DownloadKey =
   | 'download'
@@ -50,16 +78,31 @@ type DownloadKey =
   | 'language'
   | 'missingMetadata'
   | 'alertSafari'
-  | 'alertPoints'
-  | 'alertCheckFailed'
-  | 'alertNetworkError';
+  | 'udidButton'
+  | 'udidHint'
+  | 'profileExpired'
+  | 'passwordTitle'
+  | 'passwordPrompt'
+  | 'passwordLabel'
+  | 'passwordSubmit'
+  | 'passwordInvalid'
+  | 'passwordThrottled'
+  | 'expiredTitle'
+  | 'expiredMessage'
+  | 'limitTitle'
+  | 'limitMessage'
+  | 'comingSoonTitle'
+  | 'comingSoonMessage'
+  | 'platformLimitReached'
+  | 'qrHint'
+  | 'releaseNotes';
 
 const DEFAULT_APP_TITLE = 'App';
 export async function GET(
   request: Request,
   context: { params: Promise<{ code: string }> }
 ) {
-  const { env } = getRequestContext();
+  const { env, ctx, cf } = getRequestContext();
   const bindings = env as Env;
   const DB = bindings.DB ?? bindings['rudl-app'];
   if (!DB) {
@@ -74,14 +117,58 @@ export async function GET(
   if (!code) return resp404('Invalid code');
 
   const link = await fetchDistributionByCode(DB, code);
-  if (!link || !link.isActive) return resp404('Not Found');
+  if (!link) return (await redirectFromLinkCodeAlias(DB, request, code)) ?? resp404('Not Found');
   const url = new URL(request.url);
+  if (!isLinkLive(link)) {
+    if (!isLinkComingSoon(link)) return resp404('Not Found');
+    // Shown in the visitor's time zone when Cloudflare knows it, else the owner's.
+    return renderComingSoonPage(
+      link.code,
+      link.title ?? DEFAULT_APP_TITLE,
+      resolveRequestLocale(request, url, link.language),
+      link.publishAt ?? 0,
+      cf?.timezone ?? link.scheduleTimezone
+    );
+  }
   if (isRegionalNetworkArea(link.networkArea)) {
     const baseUrl = getRegionalDownloadBaseUrl(link.networkArea, bindings);
     const target = `${baseUrl}/d/${encodeURIComponent(link.code)}${url.search}`;
     return Response.redirect(target, 302);
   }
 
+  const reqLocale = resolveRequestLocale(request, url, link.language);
+
+  const counts = hasDownloadCap(link) ? await fetchDownloadCounts(DB, link.id) : null;
+  const availability = getLinkAvailability(link, counts);
+  if (availability !== 'available') {
+    return renderUnavailablePage(
+      link.code,
+      link.title ?? DEFAULT_APP_TITLE,
+      reqLocale,
+      availability === 'expired' ? 'expired' : 'limit'
+    );
+  }
+
+  // Protected links only show their buttons, and only get working /dl URLs, once the
+  // visitor has exchanged the password for a grant.
+  let grant: string | null = null;
+  if (link.accessPassword) {
+    const secret = getLinkAccessSecret(bindings);
+    if (!secret) return resp500('Missing LINK_ACCESS_SECRET');
+    grant = url.searchParams.get('g');
+    if (!(await verifyLinkGrant(secret, link.id, grant))) {
+      return renderPasswordPage(link.code, link.title ?? DEFAULT_APP_TITLE, reqLocale, null);
+    }
+  }
+  const grantQuery = grant ? `&g=${encodeURIComponent(grant)}` : '';
+
+  // Top of the download funnel; clicks and the iOS guide are reported by the page script.
+  // Link-preview bots and prefetches are left out, as they are from download counts.
+  const userAgent = request.headers.get('user-agent');
+  if (!isBotUserAgent(userAgent) && !isPrefetchRequest(request.method, request.headers)) {
+    ctx.waitUntil(recordFunnelStep(DB, link.id, 'view', funnelPlatformFromUserAgent(userAgent)));
+  }
+
   const files = link.files ?? [];
   const findByPlatform = (platform: string) =>
     files.find(
@@ -93,6 +180,8 @@ export async function GET(
 
   const hasApk = Boolean(apkFile);
   const hasIpa = Boolean(ipaFile);
+  const apkCapped = hasApk && getLinkAvailability(link, counts, 'apk') === 'limitReached';
+  const ipaCapped = hasIpa && getLinkAvailability(link, counts, 'ipa') === 'limitReached';
 
   const displayTitle =
     link.title ?? ipaFile?.title ?? apkFile?.title ?? DEFAULT_APP_TITLE;
@@ -113,17 +202,8 @@ export async function GET(
     if (!iosBundleId) missing.push('Bundle ID');
   }
   const disableIos = !hasIpa || missing.length > 0;
+  const profileExpired = getProfileExpiryState(ipaFile?.profileExpiresAt) === 'expired';
 
-  const qLocale = tryNormalizeLanguageCode(url.searchParams.get('lang'));
-  const presetLocale = tryNormalizeLanguageCode(link.language);
-  const pathLocale = (() => {
-    const segments = url.pathname.split('/').filter(Boolean);
-    return segments.length ? tryNormalizeLanguageCode(segments[0]) : null;
-  })();
-  const reqLocale = pickBestLocale(
-    qLocale ?? presetLocale ?? pathLocale,
-    request.headers.get('accept-language')
-  );
   const translator = createTranslator(reqLocale);
   const dl = (key: DownloadKey) => translator(`downloadPage.${key}`);
   const switcher = renderLangSwitcher(link.code, reqLocale, translator);
@@ -132,10 +212,25 @@ export async function GET(
     ? dl('missingMetadata').replace('{items}', missing.join(', '))
     : '';
 
-  const hrefApk = hasApk ? `/dl/${encodeURIComponent(link.code)}?p=apk` : '';
-  const hrefIos = hasIpa ? `/dl/${encodeURIComponent(link.code)}?p=ipa` : '';
+  // Each /dl URL carries a single-use billing grant (`b`) that /dl redeems when it counts the
+  // download; the owner's account never appears in the page.
+  const billingSecret = link.ownerId ? getBillingGrantSecret(bindings) : null;
+  if (link.ownerId && !billingSecret) return resp500('Missing BILLING_GRANT_SECRET');
+  const billingQuery = async (platform: BillingPlatform) =>
+    billingSecret
+      ? `&b=${encodeURIComponent(await createBillingGrant(billingSecret, link.id, platform))}`
+      : '';
+  const hrefApk = hasApk
+    ? `/dl/${encodeURIComponent(link.code)}?p=apk${grantQuery}${await billingQuery('apk')}`
+    : '';
+  const hrefIos = hasIpa
+    ? `/dl/${encodeURIComponent(link.code)}?p=ipa${grantQuery}${await billingQuery('ipa')}`
+    : '';
+  const hrefUdid = hasIpa ? `/d/${encodeURIComponent(link.code)}/udid?lang=${reqLocale}${grantQuery}` : '';
 
+  // The iOS trust screen lists the signing team, so show testers that name when we have it.
   const developerName =
+    ipaFile?.teamName ??
     ipaFile?.bundleId ??
     link.bundleId ??
     displayTitle ??
@@ -171,14 +266,41 @@ export async function GET(
     return segments.length ? segments.join('') : `<span class="muted">-</span>`;
   };
 
+  // Link-level notes first, then the current build's per platform, in the page language.
+  const buildReleaseNotesMarkup = () => {
+    const pick = (value: string | null | undefined) =>
+      pickReleaseNotes(value, reqLocale, link.language);
+    const segments: string[] = [];
+    const linkNotes = pick(link.releaseNotes);
+    if (linkNotes) segments.push(renderReleaseNotesHtml(linkNotes));
+    const platforms: Array<[DownloadKey, string | null]> = [
+      ['androidApk', hasApk ? pick(apkFile?.releaseNotes) : null],
+      ['iosIpa', hasIpa ? pick(ipaFile?.releaseNotes) : null],
+    ];
+    for (const [label, notes] of platforms) {
+      if (!notes) continue;
+      segments.push(
+        `<div class="notes-platform">${h(dl(label))}</div>${renderReleaseNotesHtml(notes)}`
+      );
+    }
+    return segments.length
+      ? `<div class="notes"><h2>${h(dl('releaseNotes'))}</h2>${segments.join('')}</div>`
+      : '';
+  };
+
   const versionMarkup = buildVersionMarkup();
   const sizeMarkup = buildSizeMarkup();
+  const releaseNotesMarkup = buildReleaseNotesMarkup();
+  // Desktop visitors get a QR of this page to continue on their phone. It never carries
+  // the grant, so protected links ask for the password again on the phone.
+  const qrSvg = renderQrSvg(
+    encodeQr(`${url.origin}/d/${encodeURIComponent(link.code)}?lang=${reqLocale}`),
+    { size: 132, margin: 2 }
+  );
+
+  const iconUrl = getAppIconUrl(ipaFile?.iconKey ?? apkFile?.iconKey, link.networkArea);
 
   const nowYear = new Date().getFullYear();
-  const accountId = link.ownerId ?? '';
-  const dataAttributes = accountId
-    ? `data-account="${attr(accountId)}" data-link="${attr(link.id)}"`
-    : `data-link="${attr(link.id)}"`;
 
   const html = `<!doctype html>
 <html lang="${attr(htmlLang(reqLocale))}">
@@ -200,11 +322,23 @@ export async function GET(
     .btn.ghost{background:#1e293b}
     .btn.red{background:#ef4444}
     .meta{display:grid;grid-template-columns:140px 1fr;gap:6px 10px;margin-top:8px}
+    .notes{margin-top:16px;padding-top:12px;border-top:1px solid #1f2937;font-size:15px}
+    .notes h2{margin:0 0 4px;font-size:17px}
+    .notes h4,.notes h5,.notes h6{margin:10px 0 4px;font-size:15px}
+    .notes p,.notes ul,.notes ol{margin:6px 0}
+    .notes ul,.notes ol{padding-left:22px}
+    .notes-platform{margin-top:10px;font-size:13px;font-weight:600;color:#9ca3af}
     code,kbd{background:#0b1222;border:1px solid #334155;border-radius:8px;padding:2px 6px}
     .hero{display:flex;align-items:center;justify-content:space-between;gap:12px}
     .hero h1{margin:0;font-size:22px}
+    .app{display:flex;align-items:center;gap:14px}
+    .app-icon{width:64px;height:64px;border-radius:14px;flex:none}
+    .qr{display:none;text-align:center;font-size:12px;color:#9ca3af;max-width:140px}
+    .qr svg{display:block;border-radius:8px;margin:0 auto 4px}
+    @media (hover:hover) and (pointer:fine){.qr{display:block}}
     .btns{display:flex;gap:10px;margin-top:16px;flex-wrap:wrap}
     .tip{margin-top:10px;font-size:14px;color:#9ca3af}
+    .tip.warn{color:#fbbf24}
     .footer{color:#9ca3af;text-align:center;margin:18px 0}
     .lang{display:flex;align-items:center;gap:8px}
     .lang select{padding:.4rem .6rem;border-radius:10px;background:#0b1222;border:1px solid #334155;color:#e5e7eb}
@@ -231,10 +365,14 @@ export async function GET(
   <main class="wrap">
     <section class="card">
       <div class="hero">
-        <div>
-          <h1>${h(displayTitle)}</h1>
-          <div class="muted">${h(code)}</div>
+        <div class="app">
+          ${iconUrl ? `<img class="app-icon" src="${attr(iconUrl)}" alt="" width="64" height="64"/>` : ''}
+          <div>
+            <h1>${h(displayTitle)}</h1>
+            <div class="muted">${h(code)}</div>
+          </div>
         </div>
+        <div class="qr">${qrSvg}${h(dl('qrHint'))}</div>
       </div>
 
       <div class="meta">
@@ -242,26 +380,32 @@ export async function GET(
         <div class="muted">${h(dl('versionLabel'))}</div><div>${versionMarkup}</div>
         <div class="muted">${h(dl('sizeLabel'))}</div><div>${sizeMarkup}</div>
       </div>
+      ${releaseNotesMarkup}
 
       <div class="btns">
         ${
-          hasApk
-            ? `<a class="btn" href="${attr(hrefApk)}" id="btn-android" data-platform="apk" ${dataAttributes}>${h(
+          hasApk && !apkCapped
+            ? `<a class="btn" href="${attr(hrefApk)}" id="btn-android" data-platform="apk">${h(
                 dl('androidDownload')
               )}</a>`
             : ''
         }
         ${
-          hasIpa
+          hasIpa && !ipaCapped
             ? `<a class="btn" href="${
                 attr(disableIos ? '#' : hrefIos)
-              }" id="btn-ios" data-platform="ipa" ${dataAttributes} data-dev="${attr(
+              }" id="btn-ios" data-platform="ipa" data-dev="${attr(
                 developerName
               )}" data-missing="${attr(missMsg)}" ${
                 disableIos ? 'aria-disabled="true"' : ''
               }>${h(dl('iosInstall'))}</a>`
             : ''
         }
+        ${
+          hasIpa
+            ? `<a class="btn secondary" href="${attr(hrefUdid)}" id="btn-udid">${h(dl('udidButton'))}</a>`
+            : ''
+        }
         ${
           !hasApk && !hasIpa
             ? `<span class="muted">${h(dl('noFiles'))}</span>`
@@ -270,6 +414,10 @@ export async function GET(
       </div>
 
       <div class="tip">${h(dl('tip'))}</div>
+      ${hasIpa ? `<div class="tip">${h(dl('udidHint'))}</div>` : ''}
+      ${profileExpired ? `<div class="tip warn">${h(dl('profileExpired'))}</div>` : ''}
+      ${apkCapped ? `<div class="tip warn">${h(dl('platformLimitReached').replace('{platform}', dl('androidApk')))}</div>` : ''}
+      ${ipaCapped ? `<div class="tip warn">${h(dl('platformLimitReached').replace('{platform}', dl('iosIpa')))}</div>` : ''}
     </section>
     <div class="footer">© ${nowYear} RU Download</div>
   </main>
@@ -299,13 +447,14 @@ export async function GET(
   (function(){
     var installBtn = document.getElementById('btn-ios');
     var androidBtn = document.getElementById('btn-android');
-
-    function getBillingPayload(btn, platform){
-      if (!btn) return null;
-      var linkId = btn.getAttribute('data-link') || '';
-      var accountId = btn.getAttribute('data-account') || '';
-      if (!linkId || !accountId) return null;
-      return JSON.stringify({ account_id: accountId, link_id: linkId, platform: platform });
+    var trackUrl = ${JSON.stringify(`/d/${encodeURIComponent(link.code)}/track`)};
+
+    function track(step, platform){
+      try {
+        var body = JSON.stringify({ step: step, platform: platform });
+        if (navigator.sendBeacon && navigator.sendBeacon(trackUrl, body)) return;
+        fetch(trackUrl, { method: 'POST', body: body, keepalive: true }).catch(function(){});
+      } catch (_) {}
     }
 
     if (installBtn) {
@@ -336,7 +485,7 @@ export async function GET(
         else path = '${h(dl('pathOld'))}';
         document.getElementById('iosPath').innerHTML = '${h(dl('detected'))} ' + v + '<br/>' + path;
       }
-      function showGuide(){ setPath(); guide.style.display='block'; mask.style.display='block'; }
+      function showGuide(){ setPath(); guide.style.display='block'; mask.style.display='block'; track('guide', 'ipa'); }
       function hideGuide(){ guide.style.display='none'; mask.style.display='none'; }
 
       document.getElementById('btnCopyDev').addEventListener('click', function(){ try { navigator.clipboard.writeText(devName); } catch(e){} });
@@ -351,7 +500,8 @@ export async function GET(
           alert(miss);
         });
       } else {
-        installBtn.addEventListener('click', async function(e){
+        installBtn.addEventListener('click', function(e){
+          track('click', 'ipa');
           if (!isiOS()) return;
           e.preventDefault();
           if (!isSafari()) {
@@ -359,76 +509,15 @@ export async function GET(
           }
           var href = installBtn.getAttribute('href');
           if (!href || href === '#') return;
-          const payload = getBillingPayload(installBtn, 'ipa');
-          installBtn.disabled = true;
-          var ori = installBtn.textContent;
-          installBtn.textContent = '...';
-          const showGuideLater = function(){ setTimeout(showGuide, 600); };
-          try {
-            if (!payload) {
-              showGuideLater();
-              location.href = href;
-              return;
-            }
-            const res = await fetch('/api/dl/bill', {
-              method: 'POST',
-              headers: { 'content-type': 'application/json' },
-              body: payload,
-              credentials: 'include'
-            });
-            if (res.ok) {
-              showGuideLater();
-              location.href = href;
-              return;
-            }
-            if (res.status === 402) {
-              alert("${h(dl('alertPoints'))}");
-            } else {
-              alert("${h(dl('alertCheckFailed'))}");
-            }
-          } catch (_) {
-            alert("${h(dl('alertNetworkError'))}");
-          } finally {
-            installBtn.disabled = false;
-            installBtn.textContent = ori;
-          }
+          setTimeout(showGuide, 600);
+          location.href = href;
         });
       }
     }
 
     if (androidBtn) {
-      androidBtn.addEventListener('click', async function(e){
-        e.preventDefault();
-        var href = androidBtn.getAttribute('href');
-        if (!href) return;
-        var payload = getBillingPayload(androidBtn, 'apk');
-        if (!payload) {
-          location.href = href;
-          return;
-        }
-        androidBtn.disabled = true; var ori = androidBtn.textContent; androidBtn.textContent = '...';
-        try{
-          const res = await fetch('/api/dl/bill', {
-            method: 'POST',
-            headers: { 'content-type': 'application/json' },
-            body: payload,
-            credentials: 'include'
-          });
-          if (res.ok) {
-            location.href = href;
-            return;
-          }
-          if (res.status === 402) {
-            alert("${h(dl('alertPoints'))}");
-          } else {
-            alert("${h(dl('alertCheckFailed'))}");
-          }
-        } catch(_){
-          alert("${h(dl('alertNetworkError'))}");
-        } finally {
-          androidBtn.disabled = false;
-          androidBtn.textContent = ori;
-        }
+      androidBtn.addEventListener('click', function(){
+        track('click', 'apk');
       });
     }
   })();
@@ -449,6 +538,164 @@ export async function GET(
   return response;
 }
 
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ code: string }> }
+) {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) return resp500('Missing D1 binding DB');
+
+  const params = await context.params;
+  const code = String(params?.code ?? '').trim();
+  if (!code) return resp404('Invalid code');
+
+  const link = await fetchDistributionByCode(DB, code);
+  if (!link) return (await redirectFromLinkCodeAlias(DB, request, code)) ?? resp404('Not Found');
+  if (!isLinkLive(link) || isRegionalNetworkArea(link.networkArea)) {
+    return resp404('Not Found');
+  }
+  const url = new URL(request.url);
+  const reqLocale = resolveRequestLocale(request, url, link.language);
+  const pageUrl = new URL(`/d/${encodeURIComponent(link.code)}`, url);
+  pageUrl.searchParams.set('lang', reqLocale);
+  if (!link.accessPassword) {
+    return Response.redirect(pageUrl.toString(), 303);
+  }
+
+  const secret = getLinkAccessSecret(bindings);
+  if (!secret) return resp500('Missing LINK_ACCESS_SECRET');
+
+  // Wrong passwords are throttled per visitor IP, hashed with the grant secret.
+  const ipHash = (await hashDownloadIp(secret, getClientIp(request.headers))) ?? 'unknown';
+  const title = link.title ?? DEFAULT_APP_TITLE;
+  if (await isPasswordAttemptLimited(DB, link.id, ipHash)) {
+    return renderPasswordPage(link.code, title, reqLocale, 'throttled');
+  }
+
+  const form = await request.formData().catch(() => null);
+  const password = String(form?.get('password') ?? '');
+  if (!(await verifyLinkPassword(password, link.accessPassword))) {
+    await recordPasswordFailure(DB, link.id, ipHash);
+    return renderPasswordPage(link.code, title, reqLocale, 'invalid');
+  }
+
+  pageUrl.searchParams.set('g', await createLinkGrant(secret, link.id));
+  return Response.redirect(pageUrl.toString(), 303);
+}
+
+function renderPasswordPage(
+  code: string,
+  title: string,
+  locale: Locale,
+  error: 'invalid' | 'throttled' | null
+) {
+  const translator = createTranslator(locale);
+  const dl = (key: DownloadKey) => translator(`downloadPage.${key}`);
+  const action = `/d/${encodeURIComponent(code)}?lang=${locale}`;
+  const body = `<form class="card" method="post" action="${attr(action)}">
+      <h1>${h(title)}</h1>
+      <div class="muted">${h(dl('passwordPrompt'))}</div>
+      <label for="password">${h(dl('passwordLabel'))}</label>
+      <input id="password" name="password" type="password" autocomplete="off" required autofocus/>
+      ${
+        error
+          ? `<div class="error" role="alert">${h(
+              dl(error === 'throttled' ? 'passwordThrottled' : 'passwordInvalid')
+            )}</div>`
+          : ''
+      }
+      <button class="btn" type="submit">${h(dl('passwordSubmit'))}</button>
+    </form>`;
+  const status = error === 'throttled' ? 429 : error === 'invalid' ? 401 : 200;
+  return renderNoticePage(code, `${title} - ${dl('passwordTitle')}`, locale, body, status);
+}
+
+function renderUnavailablePage(
+  code: string,
+  title: string,
+  locale: Locale,
+  reason: 'expired' | 'limit'
+) {
+  const translator = createTranslator(locale);
+  const dl = (key: DownloadKey) => translator(`downloadPage.${key}`);
+  const heading = dl(reason === 'expired' ? 'expiredTitle' : 'limitTitle');
+  const body = `<section class="card">
+      <h1>${h(title)}</h1>
+      <div class="error">${h(heading)}</div>
+      <div class="muted">${h(dl(reason === 'expired' ? 'expiredMessage' : 'limitMessage'))}</div>
+    </section>`;
+  return renderNoticePage(code, `${title} - ${heading}`, locale, body, 410);
+}
+
+function renderComingSoonPage(
+  code: string,
+  title: string,
+  locale: Locale,
+  publishAt: number,
+  timeZone: string | null | undefined
+) {
+  const translator = createTranslator(locale);
+  const dl = (key: DownloadKey) => translator(`downloadPage.${key}`);
+  const heading = dl('comingSoonTitle');
+  const time = formatScheduleTime(publishAt, htmlLang(locale), timeZone);
+  const body = `<section class="card">
+      <h1>${h(title)}</h1>
+      <div class="notice">${h(heading)}</div>
+      <div class="muted">${h(dl('comingSoonMessage').replace('{time}', time))}</div>
+    </section>`;
+  return renderNoticePage(code, `${title} - ${heading}`, locale, body, 200);
+}
+
+function renderNoticePage(
+  code: string,
+  pageTitle: string,
+  locale: Locale,
+  body: string,
+  status: number
+) {
+  const translator = createTranslator(locale);
+  const html = `<!doctype html>
+<html lang="${attr(htmlLang(locale))}">
+<head>
+  <meta charset="utf-8"/>
+  <meta name="viewport" content="width=device-width,initial-scale=1"/>
+  <title>${h(pageTitle)}</title>
+  <meta name="robots" content="noindex,nofollow"/>
+  <style>
+    body{margin:0;background:#0f172a;color:#e5e7eb;font:16px/1.6 system-ui,-apple-system,Segoe UI,Roboto,sans-serif}
+    header{background:#0b1222;border-bottom:1px solid #1f2937}
+    .wrap{max-width:480px;margin:0 auto;padding:16px}
+    .card{background:#111827;border:1px solid #1f2937;border-radius:16px;padding:22px;margin-top:22px}
+    .card h1{margin:0 0 6px;font-size:22px}
+    .muted{color:#9ca3af}
+    label{display:block;margin-top:16px;font-size:14px;color:#9ca3af}
+    input{box-sizing:border-box;width:100%;margin-top:6px;padding:10px 12px;border-radius:10px;background:#0b1222;border:1px solid #334155;color:#e5e7eb;font-size:16px}
+    .btn{margin-top:16px;padding:12px 16px;border-radius:12px;border:0;background:#3b82f6;color:#fff;cursor:pointer;font-size:16px}
+    .error{margin-top:12px;color:#f87171;font-size:14px}
+    .notice{margin-top:12px;color:#60a5fa;font-weight:600}
+  </style>
+</head>
+<body>
+  <header>
+    <div class="wrap">${renderLangSwitcher(code, locale, translator)}</div>
+  </header>
+  <main class="wrap">
+    ${body}
+  </main>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status,
+    headers: {
+      'content-type': 'text/html; charset=utf-8',
+      'cache-control': 'no-store',
+    },
+  });
+}
+
 function renderLangSwitcher(code: string, cur: Locale, translate: (key: string) => string) {
   const items = languageCodes
     .map((value) => {
@@ -478,6 +725,19 @@ function renderLangSwitcher(code: string, cur: Locale, translate: (key: string)
   </script>`;
 }
 
+function resolveRequestLocale(request: Request, url: URL, preset: string | null): Locale {
+  const qLocale = tryNormalizeLanguageCode(url.searchParams.get('lang'));
+  const presetLocale = tryNormalizeLanguageCode(preset);
+  const pathLocale = (() => {
+    const segments = url.pathname.split('/').filter(Boolean);
+    return segments.length ? tryNormalizeLanguageCode(segments[0]) : null;
+  })();
+  return pickBestLocale(
+    qLocale ?? presetLocale ?? pathLocale,
+    request.headers.get('accept-language')
+  );
+}
+
 function pickBestLocale(primary: LangCode | null, accept: string | null): Locale {
   if (primary) return primary;
   const header = (accept ?? '').toLowerCase();
@@ -511,6 +771,13 @@ function htmlLang(value: Locale) {
   return value;
 }
 
+function resp500(message: string) {
+  return new Response(message, {
+    status: 500,
+    headers: { 'cache-control': 'no-store' },
+  });
+}
+
 function resp404(message: string) {
   return new Response(message || 'Not Found', {
     status: 404,
@@ -0,0 +1,53 @@
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { fetchDistributionByCode } from '@/lib/distribution';
+import { isBotUserAgent } from '@/lib/download-filter';
+import { isFunnelStep, recordFunnelStep } from '@/lib/link-funnel';
+import { isLinkLive } from '@/lib/link-schedule';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+type Body = {
+  step?: unknown;
+  platform?: unknown;
+};
+
+const noContent = (status = 204) =>
+  new Response(null, { status, headers: { 'cache-control': 'no-store' } });
+
+// Beacon from the download page script: `{ step: 'click' | 'guide', platform }`. Views are
+// counted by the page route itself, so they are not accepted here.
+export async function POST(request: Request, context: { params: Promise<{ code: string }> }) {
+  const { env, ctx } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) return noContent(500);
+
+  let body: unknown;
+  try {
+    // sendBeacon posts text/plain, so parse the raw body.
+    body = JSON.parse(await request.text());
+  } catch {
+    return noContent(400);
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return noContent(400);
+  const { step, platform } = body as Body;
+  if (!isFunnelStep(step) || step === 'view' || (platform !== 'apk' && platform !== 'ipa')) {
+    return noContent(400);
+  }
+  if (step === 'guide' && platform !== 'ipa') return noContent(400);
+
+  const params = await context.params;
+  const code = String(params?.code ?? '').trim();
+  const link = code ? await fetchDistributionByCode(DB, code) : null;
+  if (!link || !isLinkLive(link)) return noContent(404);
+  // Accepted but not counted, like bot hits on /dl.
+  if (isBotUserAgent(request.headers.get('user-agent'))) return noContent();
+
+  ctx.waitUntil(recordFunnelStep(DB, link.id, step, platform));
+  return noContent();
+}
@@ -0,0 +1,176 @@
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { redirectFromLinkCodeAlias } from '@/lib/code';
+import { fetchDistributionByCode } from '@/lib/distribution';
+import {
+  findUdidDevice,
+  getUdidChallengeSecret,
+  verifyUdidResultToken,
+  type UdidProfileBindings,
+} from '@/lib/udid';
+import { createTranslator } from '@/i18n/helpers';
+import type { Locale } from '@/i18n/dictionary';
+import { tryNormalizeLanguageCode } from '@/lib/language';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+} & UdidProfileBindings;
+
+type UdidKey =
+  | 'udidTitle'
+  | 'udidCopy'
+  | 'udidModel'
+  | 'udidOsVersion'
+  | 'udidStatus'
+  | 'udidInProfile'
+  | 'udidNotInProfile'
+  | 'udidUnknown'
+  | 'udidInvalid'
+  | 'udidBack';
+
+const DEFAULT_APP_TITLE = 'App';
+
+export async function GET(request: Request, context: { params: Promise<{ code: string }> }) {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return new Response('Missing D1 binding DB', {
+      status: 500,
+      headers: { 'cache-control': 'no-store' },
+    });
+  }
+
+  const params = await context.params;
+  const code = String(params?.code ?? '').trim();
+  if (!code) return resp404('Invalid code');
+
+  const link = await fetchDistributionByCode(DB, code);
+  if (!link) return (await redirectFromLinkCodeAlias(DB, request, code)) ?? resp404('Not Found');
+  if (!link.isActive) return resp404('Not Found');
+
+  const url = new URL(request.url);
+  const locale = tryNormalizeLanguageCode(url.searchParams.get('lang')) ?? link.language;
+  const translator = createTranslator(locale);
+  const dl = (key: UdidKey) => translator(`downloadPage.${key}`);
+
+  const ipaFile = link.files.find((file) => (file.platform ?? '').toLowerCase() === 'ipa') ?? null;
+  const appTitle = link.title ?? ipaFile?.title ?? DEFAULT_APP_TITLE;
+  // `t` is the short-lived token the callback issued for the device it just recorded.
+  const challengeSecret = getUdidChallengeSecret(bindings);
+  const udid = challengeSecret
+    ? await verifyUdidResultToken(challengeSecret, link.id, url.searchParams.get('t'))
+    : null;
+  const device = udid && link.ownerId ? await findUdidDevice(DB, link.ownerId, udid) : null;
+  const backHref = `/d/${encodeURIComponent(link.code)}?lang=${encodeURIComponent(locale)}`;
+
+  let body: string;
+  if (!udid || !device) {
+    body = `<p>${h(dl('udidInvalid'))}</p>`;
+  } else {
+    const provisioned = ipaFile?.provisionedDevices ?? null;
+    const status = !provisioned
+      ? { cls: 'muted', text: dl('udidUnknown') }
+      : provisioned.some((entry) => entry.toUpperCase() === udid)
+        ? { cls: 'ok', text: dl('udidInProfile') }
+        : { cls: 'warn', text: dl('udidNotInProfile') };
+    body = `
+      <div class="udid"><code id="udidValue">${h(udid)}</code></div>
+      <div class="btns">
+        <button class="btn" id="btnCopyUdid" type="button">${h(dl('udidCopy'))}</button>
+      </div>
+      <div class="meta">
+        <div class="muted">${h(dl('udidModel'))}</div><div>${h(device.product ?? '-')}</div>
+        <div class="muted">${h(dl('udidOsVersion'))}</div><div>${h(device.osVersion ?? '-')}</div>
+        <div class="muted">${h(dl('udidStatus'))}</div><div class="${status.cls}">${h(status.text)}</div>
+      </div>`;
+  }
+
+  const html = `<!doctype html>
+<html lang="${attr(htmlLang(locale))}">
+<head>
+  <meta charset="utf-8"/>
+  <meta name="viewport" content="width=device-width,initial-scale=1"/>
+  <title>${h(appTitle)} - ${h(dl('udidTitle'))}</title>
+  <meta name="robots" content="noindex,nofollow"/>
+  <style>
+    body{margin:0;background:#0f172a;color:#e5e7eb;font:16px/1.6 system-ui,-apple-system,Segoe UI,Roboto,sans-serif}
+    .wrap{max-width:880px;margin:0 auto;padding:16px}
+    a{color:#93c5fd;text-decoration:none}
+    .card{background:#111827;border:1px solid #1f2937;border-radius:16px;padding:22px;margin-top:22px}
+    .card h1{margin:0 0 4px;font-size:22px}
+    .muted{color:#9ca3af}
+    .ok{color:#4ade80}
+    .warn{color:#fbbf24}
+    .btn{padding:12px 16px;border-radius:12px;border:0;background:#3b82f6;color:#fff;cursor:pointer}
+    .btns{display:flex;gap:10px;margin-top:16px;flex-wrap:wrap}
+    .udid{margin-top:16px;word-break:break-all}
+    .meta{display:grid;grid-template-columns:140px 1fr;gap:6px 10px;margin-top:16px}
+    code{background:#0b1222;border:1px solid #334155;border-radius:8px;padding:4px 8px;font-size:15px}
+    .footer{color:#9ca3af;text-align:center;margin:18px 0}
+  </style>
+</head>
+<body>
+  <main class="wrap">
+    <section class="card">
+      <h1>${h(dl('udidTitle'))}</h1>
+      <div class="muted">${h(appTitle)}</div>
+      ${body}
+    </section>
+    <div class="footer"><a href="${attr(backHref)}">${h(dl('udidBack'))}</a></div>
+  </main>
+  <script>
+  (function(){
+    var btn = document.getElementById('btnCopyUdid');
+    var value = document.getElementById('udidValue');
+    if (!btn || !value) return;
+    btn.addEventListener('click', function(){ try { navigator.clipboard.writeText(value.textContent || ''); } catch(e){} });
+  })();
+  </script>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      'content-type': 'text/html; charset=utf-8',
+      'cache-control': 'no-store',
+    },
+  });
+}
+
+function htmlLang(value: Locale) {
+  if (value === 'zh-CN') return 'zh-Hans';
+  if (value === 'zh-TW') return 'zh-Hant';
+  return value;
+}
+
+function resp404(message: string) {
+  return new Response(message || 'Not Found', {
+    status: 404,
+    headers: { 'cache-control': 'no-store' },
+  });
+}
+
+function h(input: unknown) {
+  return String(input ?? '').replace(/[&<>"']/g, (match) => {
+    switch (match) {
+      case '&':
+        return '&amp;';
+      case '<':
+        return '&lt;';
+      case '>':
+        return '&gt;';
+      case '"':
+        return '&quot;';
+      default:
+        return '&#39;';
+    }
+  });
+}
+
+function attr(input: unknown) {
+  return h(input).replace(/"/g, '&quot;');
+}
@@ -0,0 +1,152 @@
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { redirectFromLinkCodeAlias } from '@/lib/code';
+import { fetchDistributionByCode } from '@/lib/distribution';
+import { getLinkAccessSecret, verifyLinkGrant, type LinkAccessBindings } from '@/lib/link-access';
+import {
+  buildUdidProfile,
+  createUdidChallenge,
+  createUdidResultToken,
+  getUdidChallengeSecret,
+  getUdidDeviceCaPem,
+  readUdidCallback,
+  recordUdidDevice,
+  signUdidProfile,
+  verifyUdidChallenge,
+  type UdidProfileBindings,
+} from '@/lib/udid';
+import { createTranslator } from '@/i18n/helpers';
+import { tryNormalizeLanguageCode } from '@/lib/language';
+import { isLinkLive } from '@/lib/link-schedule';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+} & UdidProfileBindings &
+  LinkAccessBindings;
+
+const DEFAULT_APP_TITLE = 'App';
+
+async function loadActiveLink(request: Request, context: { params: Promise<{ code: string }> }) {
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    return { error: textResponse('Missing D1 binding DB', 500) } as const;
+  }
+
+  const params = await context.params;
+  const code = String(params?.code ?? '').trim();
+  if (!code) return { error: textResponse('Invalid code', 404) } as const;
+
+  const link = await fetchDistributionByCode(DB, code);
+  if (!link) {
+    const redirect = await redirectFromLinkCodeAlias(DB, request, code);
+    return { error: redirect ?? textResponse('Not Found', 404) } as const;
+  }
+  if (!isLinkLive(link)) return { error: textResponse('Not Found', 404) } as const;
+
+  return { DB, bindings, link } as const;
+}
+
+// Serves the Profile Service payload. iOS installs it, posts the requested device
+// attributes back to the same URL and then follows our redirect in Safari.
+export async function GET(request: Request, context: { params: Promise<{ code: string }> }) {
+  const loaded = await loadActiveLink(request, context);
+  if ('error' in loaded) return loaded.error;
+  const { bindings, link } = loaded;
+  const challengeSecret = getUdidChallengeSecret(bindings);
+  if (!challengeSecret) return textResponse('Missing UDID_CHALLENGE_SECRET', 500);
+  // Callbacks are only trusted when signed by an Apple device certificate.
+  if (!getUdidDeviceCaPem(bindings)) return textResponse('Missing UDID_DEVICE_CA_CERT', 500);
+
+  const url = new URL(request.url);
+  const locale = tryNormalizeLanguageCode(url.searchParams.get('lang')) ?? link.language;
+  // Protected links need the same grant as /dl; without one the tester is sent to the
+  // password form. Callbacks are covered by the challenge, which is only issued here.
+  if (link.accessPassword) {
+    const accessSecret = getLinkAccessSecret(bindings);
+    if (!accessSecret) return textResponse('Missing LINK_ACCESS_SECRET', 500);
+    if (!(await verifyLinkGrant(accessSecret, link.id, url.searchParams.get('g')))) {
+      const page = new URL(`/d/${encodeURIComponent(link.code)}`, url.origin);
+      page.searchParams.set('lang', locale);
+      return Response.redirect(page.toString(), 302);
+    }
+  }
+  const t = createTranslator(locale);
+  const ipaFile = link.files.find((file) => (file.platform ?? '').toLowerCase() === 'ipa') ?? null;
+  const appTitle = link.title ?? ipaFile?.title ?? DEFAULT_APP_TITLE;
+
+  const callbackUrl = new URL(`/d/${encodeURIComponent(link.code)}/udid`, url.origin);
+  callbackUrl.searchParams.set('lang', locale);
+  const identifier = `${url.hostname.split('.').reverse().join('.')}.udid.${link.code}`;
+
+  const profile = buildUdidProfile({
+    callbackUrl: callbackUrl.toString(),
+    challenge: await createUdidChallenge(challengeSecret, link.id),
+    displayName: t('downloadPage.udidProfileName').replace('{title}', appTitle),
+    description: t('downloadPage.udidProfileDescription').replace('{title}', appTitle),
+    identifier,
+  });
+
+  const content = new TextEncoder().encode(profile);
+  let body = content;
+  try {
+    body = (await signUdidProfile(content, bindings)) ?? content;
+  } catch (error) {
+    // A broken signing setup should not block testers; iOS still accepts unsigned profiles.
+    console.error('[udid] failed to sign profile', error);
+  }
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'content-type': 'application/x-apple-aspen-config',
+      'content-disposition': `attachment; filename="${link.code}-udid.mobileconfig"`,
+      'cache-control': 'no-store',
+    },
+  });
+}
+
+export async function POST(request: Request, context: { params: Promise<{ code: string }> }) {
+  const loaded = await loadActiveLink(request, context);
+  if ('error' in loaded) return loaded.error;
+  const { DB, bindings, link } = loaded;
+
+  const url = new URL(request.url);
+  const resultUrl = new URL(`/d/${encodeURIComponent(link.code)}/udid/result`, url.origin);
+  const lang = tryNormalizeLanguageCode(url.searchParams.get('lang'));
+  if (lang) resultUrl.searchParams.set('lang', lang);
+
+  // Only bodies signed by the device, answering a challenge we issued for this link, count.
+  const challengeSecret = getUdidChallengeSecret(bindings);
+  const payload = challengeSecret
+    ? await readUdidCallback(new Uint8Array(await request.arrayBuffer()), bindings)
+    : null;
+  if (
+    !challengeSecret ||
+    !payload ||
+    !link.ownerId ||
+    !(await verifyUdidChallenge(challengeSecret, link.id, payload.challenge))
+  ) {
+    return Response.redirect(resultUrl.toString(), 301);
+  }
+
+  try {
+    await recordUdidDevice(DB, link.ownerId, link.id, payload);
+  } catch (error) {
+    console.error('[udid] failed to record device', error);
+  }
+
+  // iOS only opens the follow-up page when the callback answers with a 301.
+  resultUrl.searchParams.set('t', await createUdidResultToken(challengeSecret, link.id, payload.udid));
+  return Response.redirect(resultUrl.toString(), 301);
+}
+
+function textResponse(message: string, status: number) {
+  return new Response(message, {
+    status,
+    headers: { 'cache-control': 'no-store' },
+  });
+}
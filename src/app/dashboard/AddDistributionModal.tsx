@@ -8,49 +8,59 @@ import {
   useRef,
   useState,
 } from 'react';
-import JSZip from 'jszip';
-import plist from 'plist';
-import { parseBuffer as parseBinaryPlist } from 'bplist-parser';
-import { Buffer } from 'buffer';
 import { useI18n } from '@/i18n/provider';
 import type { DashboardFile, DashboardLink } from '@/lib/dashboard';
+import type { ProvisioningProfile } from '@/lib/provisioning';
+import {
+  DEFAULT_PACKAGE_TITLE,
+  parseApkMetadata,
+  parseIpaMetadata,
+  type PackageFileMetadata,
+} from '@/lib/package-file-metadata';
+import { MULTIPART_THRESHOLD, type MultipartUploadSession } from '@/lib/multipart-upload';
+import type { LinkLimits } from '@/lib/link-limits';
+import {
+  fromZonedDateTimeInput,
+  toZonedDateTimeInput,
+  type LinkSchedule,
+} from '@/lib/link-schedule';
+import {
+  abortResumableUpload,
+  clearResumableUpload,
+  completeResumableUpload,
+  getResumableUploadId,
+  loadResumableUpload,
+  saveResumableUpload,
+  syncTicketParts,
+  uploadMissingParts,
+  type ResumableUploadTarget,
+} from '@/lib/resumable-upload';
 import { languageCodes, normalizeLanguageCode, type LangCode } from '@/lib/language';
+import { parseReleaseNotes, type LocalizedReleaseNotes } from '@/lib/release-notes';
 import {
   NETWORK_AREA_OPTIONS,
   normalizeNetworkArea,
   type NetworkArea,
 } from '@/lib/network-area';
+import SigningSummary from './SigningSummary';
 
-const DEFAULT_TITLE = 'APP';
+const DEFAULT_TITLE = DEFAULT_PACKAGE_TITLE;
 
 type Platform = 'apk' | 'ipa';
 
-type FileMeta = {
-  title?: string | null;
-  bundleId?: string | null;
-  version?: string | null;
-};
-
 type FileState = {
   file: File | null;
-  metadata: FileMeta | null;
+  metadata: PackageFileMetadata | null;
+  releaseNotes: LocalizedReleaseNotes;
 };
 
 type UploadProgressMap = Record<Platform, number>;
 
-type SubmitState = 'idle' | 'submitting' | 'success';
+type PartProgress = { completed: number; total: number; resumed: boolean };
 
-type BinaryXmlAttributeRaw = {
-  name?: string;
-  nodeName?: string;
-  value?: string;
-};
+type PartProgressMap = Record<Platform, PartProgress | null>;
 
-type BinaryXmlNodeRaw = {
-  nodeName?: string;
-  attributes?: BinaryXmlAttributeRaw[];
-  childNodes?: BinaryXmlNodeRaw[];
-};
+type SubmitState = 'idle' | 'submitting' | 'success';
 
 const createEmptyExistingFiles = (): Record<Platform, DashboardFile | null> => ({
   apk: null,
@@ -59,6 +69,37 @@ const createEmptyExistingFiles = (): Record<Platform, DashboardFile | null> => (
 
 const trimValue = (value: string | null | undefined) => (value ? value.trim() : '');
 
+type LimitFields = Record<Exclude<keyof LinkLimits, 'expiresAt'>, string>;
+
+const EMPTY_LIMIT_FIELDS: LimitFields = { maxDownloads: '', maxApkDownloads: '', maxIpaDownloads: '' };
+
+const LIMIT_FIELD_LABELS: Record<keyof LimitFields, string> = {
+  maxDownloads: 'dashboard.maxDownloadsLabel',
+  maxApkDownloads: 'dashboard.maxApkDownloadsLabel',
+  maxIpaDownloads: 'dashboard.maxIpaDownloadsLabel',
+};
+
+// <input type="datetime-local"> works in the browser's local time without a zone suffix.
+const toDateTimeLocal = (epochSeconds: number | null) => {
+  if (!epochSeconds) return '';
+  const date = new Date(epochSeconds * 1000);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const fromDateTimeLocal = (value: string) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? Math.floor(time / 1000) : null;
+};
+
+const toLimitValue = (value: string) => (value.trim() ? Number(value.trim()) : null);
+
+const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const listTimeZones = () =>
+  typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
 type Props = {
   open: boolean;
   mode?: 'create' | 'edit';
@@ -74,6 +115,7 @@ type FinalizeResponse = {
   linkId?: string;
   code?: string;
   error?: string;
+  mismatches?: Array<{ field: string }>;
 };
 
 type UpdateResponse = {
@@ -81,13 +123,15 @@ type UpdateResponse = {
   linkId?: string;
   code?: string;
   error?: string;
+  mismatches?: Array<{ field: string }>;
 };
 
 type UploadSuccessResponse = {
   ok: true;
   linkId: string;
-  uploadUrl: string;
+  uploadUrl: string | null;
   uploadHeaders: Record<string, string>;
+  multipart: MultipartUploadSession | null;
   upload: FinalizeUploadPayload;
 };
 
@@ -96,190 +140,6 @@ type UploadErrorResponse = {
   error?: string;
 };
 
-async function parseGradleMetadata(zip: JSZip): Promise<FileMeta | null> {
-  const metadataPaths = [
-    'META-INF/com/android/build/gradle/app-metadata.properties',
-    'BUNDLE-METADATA/com.android.tools.build.gradle/app-metadata.properties',
-  ];
-
-  for (const path of metadataPaths) {
-    const entry = zip.file(path);
-    if (!entry) continue;
-    const raw = await entry.async('text');
-    const map = new Map<string, string>();
-    raw
-      .split('\n')
-      .map((line) => line.trim())
-      .filter((line) => line && !line.startsWith('#'))
-      .forEach((line) => {
-        const idx = line.indexOf('=');
-        if (idx === -1) return;
-        const key = line.slice(0, idx).trim();
-        const value = line.slice(idx + 1).trim();
-        if (key) map.set(key, value);
-      });
-
-    const bundleId =
-      map.get('applicationId') ??
-      map.get('packageId') ??
-      map.get('package') ??
-      map.get('appId') ??
-      '';
-    const version =
-      map.get('versionName') ??
-      map.get('bundleVersion') ??
-      map.get('version') ??
-      map.get('versionNameMajor') ??
-      '';
-    const title =
-      map.get('appName') ??
-      map.get('bundleName') ??
-      map.get('displayName') ??
-      map.get('applicationLabel') ??
-      null;
-
-    if (bundleId || version || title) {
-      return {
-        title: title || null,
-        bundleId: bundleId || null,
-        version: version || null,
-      };
-    }
-  }
-
-  return null;
-}
-
-async function parseApkManifest(zip: JSZip): Promise<FileMeta | null> {
-  const manifestEntry = zip.file('AndroidManifest.xml');
-  if (!manifestEntry) return null;
-  const manifestBuffer = Buffer.from(await manifestEntry.async('arraybuffer'));
-  const BinaryXmlParserModule = await import('binary-xml');
-  const BinaryXmlParserCtor =
-    (BinaryXmlParserModule.default ?? BinaryXmlParserModule) as new (
-      buffer: Buffer,
-      options?: { debug?: boolean }
-    ) => { parse(): unknown };
-  const parser = new BinaryXmlParserCtor(manifestBuffer);
-  const document = parser.parse() as BinaryXmlNodeRaw | null;
-  if (!document) return null;
-
-  const findAttribute = (node: BinaryXmlNodeRaw | null | undefined, name: string): string | null => {
-    if (!node?.attributes) return null;
-    for (const attr of node.attributes) {
-      const attrName =
-        typeof attr?.name === 'string'
-          ? attr.name
-          : typeof attr?.nodeName === 'string'
-            ? attr.nodeName
-            : '';
-      if (
-        attrName === name ||
-        attrName === `android:${name}` ||
-        (name.startsWith('android:') && attrName === name.replace('android:', ''))
-      ) {
-        if (typeof attr?.value === 'string') return attr.value;
-      }
-    }
-    return null;
-  };
-
-  const bundleId = findAttribute(document, 'package') ?? '';
-  const version =
-    findAttribute(document, 'android:versionName') ??
-    findAttribute(document, 'versionName') ??
-    findAttribute(document, 'android:versionCode') ??
-    findAttribute(document, 'versionCode') ??
-    '';
-
-  const application =
-    document.childNodes?.find((child) => child?.nodeName === 'application') ?? null;
-  const title =
-    findAttribute(application, 'android:label') ??
-    findAttribute(application, 'label') ??
-    null;
-
-  if (!bundleId && !version && !title) return null;
-  return {
-    bundleId: bundleId || null,
-    version: version || null,
-    title,
-  };
-}
-
-async function parseApkMetadata(file: File): Promise<FileMeta | null> {
-  try {
-    const zip = await JSZip.loadAsync(file);
-    const gradle = await parseGradleMetadata(zip);
-    if (gradle) return gradle;
-    const manifest = await parseApkManifest(zip);
-    if (manifest) return manifest;
-  } catch (error) {
-    console.warn('Failed to parse APK metadata', error);
-  }
-  return null;
-}
-
-function decodeUtf8Loose(input: Uint8Array): string {
-  try {
-    return new TextDecoder('utf-8', { fatal: false }).decode(input);
-  } catch {
-    return '';
-  }
-}
-
-function tryParsePlistFromUint8(data: Uint8Array): Record<string, string> | null {
-  if (!data.length) return null;
-  const header = decodeUtf8Loose(data.slice(0, 6));
-  const isBinary = header === 'bplist';
-  try {
-    if (!isBinary) {
-      const asText = decodeUtf8Loose(data).trim();
-      if (asText.startsWith('<?xml') || asText.startsWith('<plist')) {
-        return plist.parse(asText) as Record<string, string>;
-      }
-    }
-  } catch (error) {
-    console.warn('IPA metadata XML parse failed, falling back to binary plist', error);
-  }
-  try {
-    const buffer = Buffer.from(data);
-    const parsed = parseBinaryPlist(buffer);
-    if (Array.isArray(parsed)) {
-      return (parsed[0] ?? null) as Record<string, string> | null;
-    }
-    return parsed as unknown as Record<string, string>;
-  } catch (error) {
-    console.warn('IPA metadata binary parse failed', error);
-    return null;
-  }
-}
-
-async function parseIpaMetadata(file: File): Promise<FileMeta | null> {
-  try {
-    const zip = await JSZip.loadAsync(file);
-    const plistEntry = Object.keys(zip.files).find((name) =>
-      /Payload\/[^/]+\.app\/Info\.plist$/i.test(name)
-    );
-    if (!plistEntry) return null;
-    const plistBytes = await zip.file(plistEntry)!.async('uint8array');
-    const info = tryParsePlistFromUint8(plistBytes);
-    if (!info) return null;
-    return {
-      title:
-        info.CFBundleDisplayName ??
-        info.CFBundleName ??
-        info.CFBundleExecutable ??
-        DEFAULT_TITLE,
-      bundleId: info.CFBundleIdentifier ?? '',
-      version: info.CFBundleShortVersionString ?? info.CFBundleVersion ?? '',
-    };
-  } catch (error) {
-    console.warn('Failed to parse IPA metadata', error);
-    return null;
-  }
-}
-
 type FinalizeUploadPayload = {
   platform: Platform;
   key: string;
@@ -289,6 +149,16 @@ type FinalizeUploadPayload = {
   version: string | null;
   contentType: string;
   sha256: string | null;
+  build?: string | null;
+  releaseNotes?: LocalizedReleaseNotes | null;
+  provisioning?: ProvisioningProfile | null;
+};
+
+// Keeps the mismatched field names in the message so the form can explain which ones differ.
+const describeFinalizeError = (json: FinalizeResponse | UpdateResponse, status: number) => {
+  const error = json.error ?? `HTTP_${status}`;
+  const fields = json.mismatches?.map((item) => item.field) ?? [];
+  return fields.length ? `${error}:${fields.join(',')}` : error;
 };
 
 async function finalizeDistribution(body: {
@@ -302,7 +172,11 @@ async function finalizeDistribution(body: {
   uploads: FinalizeUploadPayload[];
   isActive: boolean;
   networkArea: NetworkArea;
-}) {
+  accessPassword?: string;
+  code?: string;
+  releaseNotes: LocalizedReleaseNotes;
+} & LinkLimits &
+  LinkSchedule) {
   const res = await fetch('/api/distributions', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
@@ -310,7 +184,7 @@ async function finalizeDistribution(body: {
   });
   const json = (await res.json()) as FinalizeResponse;
   if (!res.ok || !json.ok) {
-    throw new Error(json.error ?? `HTTP_${res.status}`);
+    throw new Error(describeFinalizeError(json, res.status));
   }
   return json;
 }
@@ -327,7 +201,12 @@ async function patchDistribution(
     uploads: FinalizeUploadPayload[];
     isActive: boolean;
     networkArea: NetworkArea;
-  }
+    accessPassword?: string | null;
+    code?: string;
+    releaseNotes: LocalizedReleaseNotes;
+    fileReleaseNotes: Record<Platform, LocalizedReleaseNotes>;
+  } & LinkLimits &
+    LinkSchedule
 ) {
   const res = await fetch(`/api/distributions/${linkId}`, {
     method: 'PATCH',
@@ -336,7 +215,33 @@ async function patchDistribution(
   });
   const json = (await res.json()) as UpdateResponse;
   if (!res.ok || !json.ok) {
-    throw new Error(json.error ?? `HTTP_${res.status}`);
+    throw new Error(describeFinalizeError(json, res.status));
+  }
+  return json;
+}
+
+type CodeAvailability = {
+  ok: boolean;
+  available?: boolean;
+  code?: string;
+  error?: string;
+};
+
+type CodeStatus = 'idle' | 'checking' | 'available' | 'unavailable';
+
+const CODE_ERROR_KEYS: Record<string, string> = {
+  CODE_INVALID: 'dashboard.errorCodeInvalid',
+  CODE_RESERVED: 'dashboard.errorCodeReserved',
+  CODE_TAKEN: 'dashboard.errorCodeTaken',
+};
+
+async function checkCodeAvailability(code: string, linkId: string | null) {
+  const params = new URLSearchParams({ code });
+  if (linkId) params.set('linkId', linkId);
+  const res = await fetch(`/api/distributions/code-availability?${params.toString()}`);
+  const json = (await res.json().catch(() => null)) as CodeAvailability | null;
+  if (!res.ok || !json?.ok) {
+    throw new Error(json?.error ?? `HTTP_${res.status}`);
   }
   return json;
 }
@@ -373,12 +278,35 @@ export default function AddDistributionModal({
   const [autofill, setAutofill] = useState(true);
   const [isActive, setIsActive] = useState(true);
   const [networkArea, setNetworkArea] = useState<NetworkArea>('global');
-  const [apkState, setApkState] = useState<FileState>({ file: null, metadata: null });
-  const [ipaState, setIpaState] = useState<FileState>({ file: null, metadata: null });
+  const [accessPassword, setAccessPassword] = useState('');
+  const [removePassword, setRemovePassword] = useState(false);
+  const [customCode, setCustomCode] = useState('');
+  const [codeStatus, setCodeStatus] = useState<CodeStatus>('idle');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState('');
+  // Schedule times are wall-clock values in `scheduleTimezone`, not in the browser's zone.
+  const [publishAt, setPublishAt] = useState('');
+  const [unpublishAt, setUnpublishAt] = useState('');
+  const [scheduleTimezone, setScheduleTimezone] = useState('UTC');
+  const timeZoneOptions = useMemo(() => {
+    const zones = listTimeZones();
+    return zones.includes(scheduleTimezone) ? zones : [scheduleTimezone, ...zones];
+  }, [scheduleTimezone]);
+  const [limitFields, setLimitFields] = useState<LimitFields>(EMPTY_LIMIT_FIELDS);
+  const [apkState, setApkState] = useState<FileState>({ file: null, metadata: null, releaseNotes: {} });
+  const [ipaState, setIpaState] = useState<FileState>({ file: null, metadata: null, releaseNotes: {} });
+  const [notesLanguage, setNotesLanguage] = useState<LangCode>('en');
+  const [linkReleaseNotes, setLinkReleaseNotes] = useState<LocalizedReleaseNotes>({});
+  // Notes of the builds already on the link, editable without uploading a new one.
+  const [existingNotes, setExistingNotes] = useState<Record<Platform, LocalizedReleaseNotes>>({
+    apk: {},
+    ipa: {},
+  });
   const [submitState, setSubmitState] = useState<SubmitState>('idle');
   const [error, setError] = useState<string | null>(null);
   const [toast, setToast] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState<UploadProgressMap>({ apk: 0, ipa: 0 });
+  const [partProgress, setPartProgress] = useState<PartProgressMap>({ apk: null, ipa: null });
   const [existingFiles, setExistingFiles] = useState<Record<Platform, DashboardFile | null>>(
     createEmptyExistingFiles
   );
@@ -428,10 +356,21 @@ export default function AddDistributionModal({
       setApkVersion('');
       setIpaVersion('');
       setLanguage('en');
+      setNotesLanguage('en');
+      setLinkReleaseNotes({});
+      setExistingNotes({ apk: {}, ipa: {} });
       setAutofill(true);
       setNetworkArea('global');
-      setApkState({ file: null, metadata: null });
-      setIpaState({ file: null, metadata: null });
+      setAccessPassword('');
+      setRemovePassword(false);
+      setCustomCode('');
+      setExpiresAt('');
+      setPublishAt('');
+      setUnpublishAt('');
+      setScheduleTimezone(getBrowserTimeZone());
+      setLimitFields(EMPTY_LIMIT_FIELDS);
+      setApkState({ file: null, metadata: null, releaseNotes: {} });
+      setIpaState({ file: null, metadata: null, releaseNotes: {} });
       setSubmitState('idle');
       setError(null);
       setToast(null);
@@ -453,8 +392,21 @@ export default function AddDistributionModal({
     setAutofill(true);
     setIsActive(initialLink.isActive);
     setNetworkArea(normalizeNetworkArea(initialLink.networkArea));
-    setApkState({ file: null, metadata: null });
-    setIpaState({ file: null, metadata: null });
+    setAccessPassword('');
+    setRemovePassword(false);
+    setCustomCode(initialLink.code);
+    setExpiresAt(toDateTimeLocal(initialLink.expiresAt));
+    const timeZone = initialLink.scheduleTimezone ?? getBrowserTimeZone();
+    setScheduleTimezone(timeZone);
+    setPublishAt(toZonedDateTimeInput(initialLink.publishAt, timeZone));
+    setUnpublishAt(toZonedDateTimeInput(initialLink.unpublishAt, timeZone));
+    setLimitFields({
+      maxDownloads: initialLink.maxDownloads?.toString() ?? '',
+      maxApkDownloads: initialLink.maxApkDownloads?.toString() ?? '',
+      maxIpaDownloads: initialLink.maxIpaDownloads?.toString() ?? '',
+    });
+    setApkState({ file: null, metadata: null, releaseNotes: {} });
+    setIpaState({ file: null, metadata: null, releaseNotes: {} });
     setSubmitState('idle');
     setError(null);
     setToast(null);
@@ -468,6 +420,14 @@ export default function AddDistributionModal({
     }
     setExistingFiles(mapped);
 
+    const linkLanguage = normalizeLanguageCode(initialLink.language);
+    setNotesLanguage(linkLanguage);
+    setLinkReleaseNotes(parseReleaseNotes(initialLink.releaseNotes, linkLanguage));
+    setExistingNotes({
+      apk: parseReleaseNotes(mapped.apk?.releaseNotes, linkLanguage),
+      ipa: parseReleaseNotes(mapped.ipa?.releaseNotes, linkLanguage),
+    });
+
     lastInitializedId.current = initialLink.id;
   }, [open, isEdit, initialLink]);
 
@@ -478,6 +438,34 @@ export default function AddDistributionModal({
     }
   }, [open, isEdit]);
 
+  const trimmedCode = customCode.trim();
+  const codeUnchanged = !trimmedCode || (isEdit && trimmedCode === initialLink?.code);
+
+  useEffect(() => {
+    setCodeError(null);
+    if (!open || codeUnchanged) {
+      setCodeStatus('idle');
+      return;
+    }
+    setCodeStatus('checking');
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      checkCodeAvailability(trimmedCode, isEdit ? initialLink?.id ?? null : null)
+        .then((result) => {
+          if (cancelled) return;
+          setCodeStatus(result.available ? 'available' : 'unavailable');
+          setCodeError(result.available ? null : result.error ?? 'CODE_TAKEN');
+        })
+        .catch(() => {
+          if (!cancelled) setCodeStatus('idle');
+        });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, isEdit, initialLink?.id, trimmedCode, codeUnchanged]);
+
   useEffect(() => {
     if (autofill) {
       applyAutofillFromState();
@@ -501,7 +489,7 @@ export default function AddDistributionModal({
   const handleFileChange = async (platform: Platform, files: FileList | null) => {
     const file = files && files[0] ? files[0] : null;
     const setter = platform === 'apk' ? setApkState : setIpaState;
-    setter({ file, metadata: null });
+    setter((prev) => ({ file, metadata: null, releaseNotes: prev.releaseNotes }));
     if (!file) return;
 
     if (isEdit && !initialLink) {
@@ -513,7 +501,7 @@ export default function AddDistributionModal({
 
     try {
       const metadata = platform === 'apk' ? await parseApkMetadata(file) : await parseIpaMetadata(file);
-      setter({ file, metadata });
+      setter((prev) => ({ ...prev, file, metadata }));
       if (autofill) {
         if (platform === 'ipa' && metadata?.title && (!title || title === DEFAULT_TITLE)) {
           setTitle(metadata.title);
@@ -564,6 +552,36 @@ export default function AddDistributionModal({
     }
   };
 
+  const hasNotesIn = (lang: LangCode) =>
+    [
+      linkReleaseNotes,
+      apkState.releaseNotes,
+      ipaState.releaseNotes,
+      existingNotes.apk,
+      existingNotes.ipa,
+    ].some((notes) => Boolean(notes[lang]?.trim()));
+
+  // Every notes field edits the language picked in the notes language selector.
+  const renderNotesField = (
+    labelKey: string,
+    placeholderKey: string,
+    notes: LocalizedReleaseNotes,
+    onChange: (value: string) => void,
+    disabled: boolean
+  ) => (
+    <label className="flex flex-col text-xs font-medium text-gray-700">
+      {t(labelKey)}
+      <textarea
+        className="mt-1 rounded border bg-white px-2 py-1 text-xs font-normal outline-none focus:border-black"
+        rows={2}
+        value={notes[notesLanguage] ?? ''}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder={t(placeholderKey)}
+        disabled={disabled}
+      />
+    </label>
+  );
+
   const renderFileSection = (platform: Platform) => {
     const state = platform === 'apk' ? apkState : ipaState;
     const setter = platform === 'apk' ? setApkState : setIpaState;
@@ -579,7 +597,7 @@ export default function AddDistributionModal({
     const handleClear = () => {
       const ref = fileInputRefs.current[platform];
       if (ref) ref.value = '';
-      setter({ file: null, metadata: null });
+      setter({ file: null, metadata: null, releaseNotes: {} });
     };
     const chooseLabel = state.file
       ? t('form.replaceFile')
@@ -632,10 +650,40 @@ export default function AddDistributionModal({
           )}
         </div>
         {state.file ? (
-          <p className="text-xs text-gray-600">{state.file.name}</p>
+          <div className="space-y-2">
+            <p className="text-xs text-gray-600">{state.file.name}</p>
+            {state.metadata?.provisioning ? (
+              <SigningSummary
+                signing={{
+                  teamName: state.metadata.provisioning.teamName,
+                  teamId: state.metadata.provisioning.teamId,
+                  profileType: state.metadata.provisioning.type,
+                  expiresAt: state.metadata.provisioning.expiresAt,
+                  deviceCount: state.metadata.provisioning.provisionedDevices?.length ?? null,
+                  entitlements: state.metadata.provisioning.entitlements,
+                }}
+              />
+            ) : null}
+            {renderNotesField(
+              'form.releaseNotes',
+              'form.releaseNotesPlaceholder',
+              state.releaseNotes,
+              (value) =>
+                setter((prev) => ({
+                  ...prev,
+                  releaseNotes: { ...prev.releaseNotes, [notesLanguage]: value },
+                })),
+              disabled
+            )}
+          </div>
         ) : existing ? (
           <div className="rounded border border-gray-200 bg-gray-50 p-2 text-xs text-gray-600">
-            <div className="font-semibold text-gray-700">{existing.title ?? DEFAULT_TITLE}</div>
+            <div className="font-semibold text-gray-700">
+              {existing.title ?? DEFAULT_TITLE}
+              {existing.releaseNo ? (
+                <span className="ml-1 font-normal text-gray-500">#{existing.releaseNo}</span>
+              ) : null}
+            </div>
             <div>
               {t('form.currentVersion')}: {existing.version ?? '-'}
             </div>
@@ -645,6 +693,18 @@ export default function AddDistributionModal({
                 ? `${(existing.size / (1024 * 1024)).toFixed(1)} MB`
                 : '-'}
             </div>
+            {existing.signing ? <SigningSummary signing={existing.signing} /> : null}
+            {renderNotesField(
+              'form.releaseNotes',
+              'form.releaseNotesPlaceholder',
+              existingNotes[platform],
+              (value) =>
+                setExistingNotes((prev) => ({
+                  ...prev,
+                  [platform]: { ...prev[platform], [notesLanguage]: value },
+                })),
+              disabled
+            )}
           </div>
         ) : (
           <p className="text-xs text-gray-500">{t('dashboard.progressPlaceholder')}</p>
@@ -657,6 +717,36 @@ export default function AddDistributionModal({
     event.preventDefault();
     setError(null);
 
+    const limitsPayload: LinkLimits = {
+      expiresAt: fromDateTimeLocal(expiresAt),
+      maxDownloads: toLimitValue(limitFields.maxDownloads),
+      maxApkDownloads: toLimitValue(limitFields.maxApkDownloads),
+      maxIpaDownloads: toLimitValue(limitFields.maxIpaDownloads),
+    };
+    const schedulePayload: LinkSchedule = {
+      publishAt: publishAt ? fromZonedDateTimeInput(publishAt, scheduleTimezone) : null,
+      unpublishAt: unpublishAt ? fromZonedDateTimeInput(unpublishAt, scheduleTimezone) : null,
+      scheduleTimezone: publishAt || unpublishAt ? scheduleTimezone : null,
+    };
+    if (
+      schedulePayload.publishAt != null &&
+      schedulePayload.unpublishAt != null &&
+      schedulePayload.unpublishAt <= schedulePayload.publishAt
+    ) {
+      const message = t('dashboard.errorInvalidSchedule');
+      setError(message);
+      onError(message);
+      return;
+    }
+
+    // Catch a taken or invalid code before spending time on the uploads.
+    if (codeStatus === 'unavailable' && codeError) {
+      const message = t(CODE_ERROR_KEYS[codeError] ?? 'dashboard.errorCodeTaken');
+      setError(message);
+      onError(message);
+      return;
+    }
+
     const platforms = selectedPlatforms;
     const hasUploads = platforms.length > 0;
     if (!hasUploads && !isEdit) {
@@ -683,6 +773,7 @@ export default function AddDistributionModal({
     try {
       setSubmitState('submitting');
       setUploadProgress({ apk: 0, ipa: 0 });
+      setPartProgress({ apk: null, ipa: null });
       setToast(null);
 
       let linkId: string | null = isEdit && initialLink ? initialLink.id : null;
@@ -701,70 +792,153 @@ export default function AddDistributionModal({
           version: state.metadata?.version?.trim() || null,
         };
 
-        const initRes = await fetch('/api/distributions/upload', {
-          method: 'POST',
-          headers: {
-            'content-type': 'application/json',
-          },
-          body: JSON.stringify({
-            platform,
-            linkId: existingLinkId,
-            fileName: file.name,
-            size: file.size,
-            contentType,
-            title: baseMetadata.title,
-            bundleId: baseMetadata.bundleId,
-            version: baseMetadata.version,
-            networkArea,
-          }),
-        });
-        let initParsed: UploadSuccessResponse | UploadErrorResponse;
-        try {
-          initParsed = (await initRes.json()) as UploadSuccessResponse | UploadErrorResponse;
-        } catch {
-          throw new Error(`HTTP_${initRes.status}`);
+        // Large packages go up in parts; a matching saved session (same file and link)
+        // is resumed instead of starting over.
+        const useMultipart = file.size >= MULTIPART_THRESHOLD;
+        const resumeId = getResumableUploadId(file, platform, existingLinkId);
+        let resumed = useMultipart ? loadResumableUpload<FinalizeUploadPayload>(resumeId) : null;
+        let completedParts = resumed?.parts ?? [];
+        if (resumed?.target.multipart.mode === 'ticket') {
+          const synced = await syncTicketParts(resumed.target);
+          if (synced) {
+            completedParts = synced;
+          } else {
+            clearResumableUpload(resumeId);
+            resumed = null;
+            completedParts = [];
+          }
         }
-        if (!initParsed.ok) {
-          throw new Error(initParsed.error ?? `HTTP_${initRes.status}`);
+
+        let session: Omit<UploadSuccessResponse, 'ok'>;
+        if (resumed) {
+          session = {
+            linkId: resumed.linkId,
+            uploadUrl: resumed.target.uploadUrl,
+            uploadHeaders: resumed.target.uploadHeaders,
+            multipart: resumed.target.multipart,
+            upload: resumed.upload,
+          };
+        } else {
+          const initRes = await fetch('/api/distributions/upload', {
+            method: 'POST',
+            headers: {
+              'content-type': 'application/json',
+            },
+            body: JSON.stringify({
+              platform,
+              linkId: existingLinkId,
+              fileName: file.name,
+              size: file.size,
+              contentType,
+              title: baseMetadata.title,
+              bundleId: baseMetadata.bundleId,
+              version: baseMetadata.version,
+              networkArea,
+              multipart: useMultipart,
+            }),
+          });
+          let initParsed: UploadSuccessResponse | UploadErrorResponse;
+          try {
+            initParsed = (await initRes.json()) as UploadSuccessResponse | UploadErrorResponse;
+          } catch {
+            throw new Error(`HTTP_${initRes.status}`);
+          }
+          if (!initParsed.ok) {
+            throw new Error(initParsed.error ?? `HTTP_${initRes.status}`);
+          }
+          session = initParsed;
         }
 
         const uploadHeaders: Record<string, string> = {
           'Content-Type': contentType,
-          ...(initParsed.uploadHeaders ?? {}),
+          ...(session.uploadHeaders ?? {}),
         };
 
         updateProgress(platform, 0.01);
 
-        await new Promise<void>((resolve, reject) => {
-          const xhr = new XMLHttpRequest();
-          xhr.open('PUT', initParsed.uploadUrl);
-          Object.entries(uploadHeaders).forEach(([header, value]) => {
-            try {
-              xhr.setRequestHeader(header, value);
-            } catch {
-              // Ignore browsers that disallow setting certain headers.
-            }
-          });
-          xhr.upload.onprogress = (event) => {
-            if (!event.lengthComputable || event.total === 0) return;
-            const ratio = event.loaded / event.total;
-            updateProgress(platform, Math.min(0.99, ratio));
+        if (session.multipart) {
+          const target: ResumableUploadTarget = {
+            key: session.upload.key,
+            networkArea,
+            uploadUrl: session.uploadUrl,
+            uploadHeaders,
+            multipart: session.multipart,
           };
-          xhr.onload = () => {
-            if (xhr.status >= 200 && xhr.status < 300) {
-              resolve();
-            } else {
-              reject(new Error(xhr.responseText || `UPLOAD_FAILED_${xhr.status}`));
+          const persist = (parts: typeof completedParts) =>
+            saveResumableUpload(resumeId, {
+              linkId: session.linkId,
+              upload: session.upload,
+              target,
+              parts,
+              savedAt: Date.now(),
+            });
+          persist(completedParts);
+          const isResumed = Boolean(resumed);
+          const parts = await uploadMissingParts({
+            file,
+            target,
+            completed: completedParts,
+            onPart: persist,
+            onProgress: (progress) => {
+              updateProgress(platform, Math.min(0.99, progress.ratio));
+              setPartProgress((prev) => ({
+                ...prev,
+                [platform]: {
+                  completed: progress.completedParts,
+                  total: progress.partCount,
+                  resumed: isResumed,
+                },
+              }));
+            },
+          });
+          try {
+            await completeResumableUpload(target, parts);
+          } catch (err) {
+            // A rejected completion means the session itself is unusable; network
+            // failures keep it so the next attempt can retry the completion.
+            if (!(err instanceof TypeError)) {
+              await abortResumableUpload(target).catch(() => null);
+              clearResumableUpload(resumeId);
             }
-          };
-          xhr.onerror = () => {
-            reject(new Error('NETWORK_ERROR'));
-          };
-          xhr.send(file);
-        });
+            throw err;
+          }
+          clearResumableUpload(resumeId);
+        } else {
+          const uploadUrl = session.uploadUrl;
+          if (!uploadUrl) {
+            throw new Error('UPLOAD_URL_MISSING');
+          }
+          await new Promise<void>((resolve, reject) => {
+            const xhr = new XMLHttpRequest();
+            xhr.open('PUT', uploadUrl);
+            Object.entries(uploadHeaders).forEach(([header, value]) => {
+              try {
+                xhr.setRequestHeader(header, value);
+              } catch {
+                // Ignore browsers that disallow setting certain headers.
+              }
+            });
+            xhr.upload.onprogress = (event) => {
+              if (!event.lengthComputable || event.total === 0) return;
+              const ratio = event.loaded / event.total;
+              updateProgress(platform, Math.min(0.99, ratio));
+            };
+            xhr.onload = () => {
+              if (xhr.status >= 200 && xhr.status < 300) {
+                resolve();
+              } else {
+                reject(new Error(xhr.responseText || `UPLOAD_FAILED_${xhr.status}`));
+              }
+            };
+            xhr.onerror = () => {
+              reject(new Error('NETWORK_ERROR'));
+            };
+            xhr.send(file);
+          });
+        }
 
         updateProgress(platform, 1);
-        return { linkId: initParsed.linkId, upload: { ...initParsed.upload, size: file.size } };
+        return { linkId: session.linkId, upload: { ...session.upload, size: file.size } };
       };
 
       for (const platform of platforms) {
@@ -781,6 +955,9 @@ export default function AddDistributionModal({
           version: result.upload.version,
           contentType: result.upload.contentType,
           sha256: result.upload.sha256 ?? null,
+          build: state.metadata?.build?.trim() || null,
+          releaseNotes: state.releaseNotes,
+          provisioning: state.metadata?.provisioning ?? null,
         });
       }
 
@@ -799,6 +976,13 @@ export default function AddDistributionModal({
           uploads: uploadsPayload,
           isActive,
           networkArea,
+          // Leaving the field blank keeps the current password.
+          accessPassword: removePassword ? null : accessPassword || undefined,
+          code: codeUnchanged ? undefined : trimmedCode,
+          releaseNotes: linkReleaseNotes,
+          fileReleaseNotes: existingNotes,
+          ...limitsPayload,
+          ...schedulePayload,
         });
         if (update.ok) {
           setToast(t('dashboard.toastUpdated'));
@@ -821,6 +1005,11 @@ export default function AddDistributionModal({
           uploads: uploadsPayload,
           isActive,
           networkArea,
+          accessPassword: accessPassword || undefined,
+          code: trimmedCode || undefined,
+          releaseNotes: linkReleaseNotes,
+          ...limitsPayload,
+          ...schedulePayload,
         });
 
         if (finalize.ok) {
@@ -834,7 +1023,21 @@ export default function AddDistributionModal({
         }
       }
     } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
+      const raw = err instanceof Error ? err.message : String(err);
+      const message = raw.startsWith('METADATA_MISMATCH')
+        ? t('dashboard.errorMetadataMismatch').replace(
+            '{fields}',
+            raw.split(':')[1] ?? ''
+          )
+        : raw === 'INVALID_PACKAGE'
+        ? t('dashboard.errorInvalidPackage')
+        : raw === 'INVALID_LIMITS'
+        ? t('dashboard.errorInvalidLimits')
+        : raw === 'INVALID_SCHEDULE'
+        ? t('dashboard.errorInvalidSchedule')
+        : CODE_ERROR_KEYS[raw]
+        ? t(CODE_ERROR_KEYS[raw])
+        : raw;
       setError(message);
       onError(message);
       setSubmitState('idle');
@@ -863,6 +1066,7 @@ export default function AddDistributionModal({
       <ul className="space-y-1 text-xs text-gray-600">
         {summaries.map(({ platform, state }) => {
           const progress = uploadProgress[platform] ?? 0;
+          const parts = partProgress[platform];
           const percent = Math.round(progress * 100);
           const label =
             state.metadata?.title ??
@@ -883,6 +1087,14 @@ export default function AddDistributionModal({
                   style={{ width: `${percent}%` }}
                 />
               </div>
+              {parts ? (
+                <p className="mt-1 text-[11px] text-gray-500">
+                  {t('dashboard.progressParts')
+                    .replace('{completed}', String(parts.completed))
+                    .replace('{total}', String(parts.total))}
+                  {parts.resumed ? ` · ${t('dashboard.progressResumed')}` : null}
+                </p>
+              ) : null}
             </li>
           );
         })}
@@ -1003,6 +1215,147 @@ export default function AddDistributionModal({
             </div>
           </div>
 
+          <div className="rounded border px-3 py-2 text-sm text-gray-700">
+            <label className="flex flex-col font-medium">
+              {t('dashboard.customCodeLabel')}
+              <input
+                type="text"
+                autoComplete="off"
+                spellCheck={false}
+                className="mt-1 rounded border px-3 py-2 text-sm font-normal outline-none focus:border-black"
+                value={customCode}
+                onChange={(event) => setCustomCode(event.target.value)}
+                placeholder={t('dashboard.customCodePlaceholder')}
+                maxLength={32}
+                disabled={submitState === 'submitting'}
+              />
+            </label>
+            <p
+              className={`mt-1 text-xs ${
+                codeStatus === 'unavailable'
+                  ? 'text-red-600'
+                  : codeStatus === 'available'
+                  ? 'text-green-600'
+                  : 'text-gray-500'
+              }`}
+            >
+              {codeStatus === 'checking'
+                ? t('dashboard.customCodeChecking')
+                : codeStatus === 'available'
+                ? t('dashboard.customCodeAvailable')
+                : codeStatus === 'unavailable' && codeError
+                ? t(CODE_ERROR_KEYS[codeError] ?? 'dashboard.errorCodeTaken')
+                : t(isEdit ? 'dashboard.customCodeRenameHint' : 'dashboard.customCodeHint')}
+            </p>
+          </div>
+
+          <div className="rounded border px-3 py-2 text-sm text-gray-700">
+            <label className="flex flex-col font-medium">
+              {t('dashboard.accessPasswordLabel')}
+              <input
+                type="password"
+                autoComplete="new-password"
+                className="mt-1 rounded border px-3 py-2 text-sm font-normal outline-none focus:border-black"
+                value={accessPassword}
+                onChange={(event) => setAccessPassword(event.target.value)}
+                placeholder={t(
+                  initialLink?.hasPassword
+                    ? 'dashboard.accessPasswordKeep'
+                    : 'dashboard.accessPasswordPlaceholder'
+                )}
+                maxLength={128}
+                disabled={submitState === 'submitting' || removePassword}
+              />
+            </label>
+            <p className="mt-1 text-xs text-gray-500">{t('dashboard.accessPasswordHint')}</p>
+            {isEdit && initialLink?.hasPassword && (
+              <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={removePassword}
+                  onChange={(event) => setRemovePassword(event.target.checked)}
+                  disabled={submitState === 'submitting'}
+                />
+                {t('dashboard.accessPasswordRemove')}
+              </label>
+            )}
+          </div>
+
+          <div className="rounded border px-3 py-2 text-sm text-gray-700">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <label className="flex flex-col font-medium">
+                {t('dashboard.expiresAtLabel')}
+                <input
+                  type="datetime-local"
+                  className="mt-1 rounded border px-3 py-2 text-sm font-normal outline-none focus:border-black"
+                  value={expiresAt}
+                  onChange={(event) => setExpiresAt(event.target.value)}
+                  disabled={submitState === 'submitting'}
+                />
+              </label>
+              {(Object.keys(LIMIT_FIELD_LABELS) as Array<keyof LimitFields>).map((field) => (
+                <label key={field} className="flex flex-col font-medium">
+                  {t(LIMIT_FIELD_LABELS[field])}
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    className="mt-1 rounded border px-3 py-2 text-sm font-normal outline-none focus:border-black"
+                    value={limitFields[field]}
+                    onChange={(event) =>
+                      setLimitFields((prev) => ({ ...prev, [field]: event.target.value }))
+                    }
+                    placeholder={t('dashboard.limitUnlimited')}
+                    disabled={submitState === 'submitting'}
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{t('dashboard.limitsHint')}</p>
+          </div>
+
+          <div className="rounded border px-3 py-2 text-sm text-gray-700">
+            <div className="grid gap-3 sm:grid-cols-3">
+              <label className="flex flex-col font-medium">
+                {t('dashboard.publishAtLabel')}
+                <input
+                  type="datetime-local"
+                  className="mt-1 rounded border px-3 py-2 text-sm font-normal outline-none focus:border-black"
+                  value={publishAt}
+                  onChange={(event) => setPublishAt(event.target.value)}
+                  disabled={submitState === 'submitting'}
+                />
+              </label>
+              <label className="flex flex-col font-medium">
+                {t('dashboard.unpublishAtLabel')}
+                <input
+                  type="datetime-local"
+                  className="mt-1 rounded border px-3 py-2 text-sm font-normal outline-none focus:border-black"
+                  value={unpublishAt}
+                  onChange={(event) => setUnpublishAt(event.target.value)}
+                  disabled={submitState === 'submitting'}
+                />
+              </label>
+              <label className="flex flex-col font-medium">
+                {t('dashboard.scheduleTimezoneLabel')}
+                <select
+                  className="mt-1 rounded border px-3 py-2 text-sm font-normal outline-none focus:border-black"
+                  value={scheduleTimezone}
+                  onChange={(event) => setScheduleTimezone(event.target.value)}
+                  disabled={submitState === 'submitting'}
+                >
+                  {timeZoneOptions.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{t('dashboard.scheduleHint')}</p>
+          </div>
+
           <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
             <input
               type="checkbox"
@@ -1014,6 +1367,34 @@ export default function AddDistributionModal({
             {t('dashboard.autofill')}
           </label>
 
+          <div className="space-y-2 rounded border px-3 py-2">
+            <label className="flex flex-col text-sm font-medium text-gray-700">
+              {t('form.releaseNotesLanguage')}
+              <select
+                className="mt-1 rounded border px-3 py-2 text-sm outline-none focus:border-black"
+                value={notesLanguage}
+                onChange={(event) =>
+                  setNotesLanguage(normalizeLanguageCode(event.target.value, notesLanguage))
+                }
+                disabled={submitState === 'submitting'}
+              >
+                {languageOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {hasNotesIn(option.value) ? `${option.label} •` : option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {renderNotesField(
+              'form.linkReleaseNotes',
+              'form.linkReleaseNotesPlaceholder',
+              linkReleaseNotes,
+              (value) => setLinkReleaseNotes((prev) => ({ ...prev, [notesLanguage]: value })),
+              submitState === 'submitting'
+            )}
+            <p className="text-xs text-gray-500">{t('form.releaseNotesHint')}</p>
+          </div>
+
           <div className="space-y-4">
             {(['apk', 'ipa'] as Platform[]).map((platform) => renderFileSection(platform))}
           </div>
@@ -0,0 +1,203 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useI18n } from '@/i18n/provider';
+import { COUNTRY_GRID_COLUMNS, COUNTRY_GRID_ROWS, COUNTRY_TILES } from '@/lib/country-centroids';
+import { NETWORK_AREA_OPTIONS, type NetworkArea } from '@/lib/network-area';
+
+export type CountryPoint = { country: string | null; apk: number; ipa: number; total: number };
+
+export type NetworkAreaPoint = {
+  networkArea: NetworkArea;
+  linkCount: number;
+  apk: number;
+  ipa: number;
+  total: number;
+  countries: CountryPoint[];
+};
+
+type Props = {
+  countries: CountryPoint[];
+  networkAreas: NetworkAreaPoint[];
+  networkArea: NetworkArea;
+};
+
+const TILE_SIZE = 20;
+const TILE_GAP = 2;
+const EMPTY_FILL = '#e2e8f0';
+// Light to dark emerald, picked by the country's share of the busiest country.
+const SCALE = ['#d1fae5', '#a7f3d0', '#6ee7b7', '#34d399', '#10b981', '#059669', '#047857'];
+const TOP_AREA_COUNTRIES = 3;
+
+const fillFor = (value: number, max: number) => {
+  if (value <= 0 || max <= 0) return EMPTY_FILL;
+  const index = Math.min(SCALE.length - 1, Math.floor((value / max) * (SCALE.length - 1) + 0.5));
+  return SCALE[Math.max(0, index)];
+};
+
+function CountryMap({
+  countries,
+  countryName,
+  locale,
+  ariaLabel,
+}: {
+  countries: CountryPoint[];
+  countryName: (code: string | null) => string;
+  locale: string;
+  ariaLabel: string;
+}) {
+  const totals = useMemo(
+    () => new Map(countries.filter((entry) => entry.country).map((entry) => [entry.country as string, entry.total])),
+    [countries],
+  );
+  const max = Math.max(0, ...Array.from(totals.values()));
+  const width = COUNTRY_GRID_COLUMNS * (TILE_SIZE + TILE_GAP);
+  const height = COUNTRY_GRID_ROWS * (TILE_SIZE + TILE_GAP);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} role="img" aria-label={ariaLabel} className="block w-full">
+      <title>{ariaLabel}</title>
+      {COUNTRY_TILES.map((tile) => {
+        const value = totals.get(tile.country) ?? 0;
+        const fill = fillFor(value, max);
+        return (
+          <g
+            key={tile.country}
+            transform={`translate(${tile.col * (TILE_SIZE + TILE_GAP)},${tile.row * (TILE_SIZE + TILE_GAP)})`}
+          >
+            <title>{`${countryName(tile.country)}: ${value.toLocaleString(locale)}`}</title>
+            <rect width={TILE_SIZE} height={TILE_SIZE} rx={3} fill={fill} />
+            <text
+              x={TILE_SIZE / 2}
+              y={TILE_SIZE / 2}
+              fontSize={7}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fill={value > 0 && fill !== SCALE[0] && fill !== SCALE[1] ? '#ffffff' : '#64748b'}
+            >
+              {tile.country}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function CountryBreakdownPanel({ countries, networkAreas, networkArea }: Props) {
+  const { t, locale } = useI18n();
+
+  const regionNames = useMemo(() => {
+    try {
+      return new Intl.DisplayNames([locale], { type: 'region' });
+    } catch {
+      return null;
+    }
+  }, [locale]);
+
+  const countryName = (code: string | null) => {
+    if (!code) return t('dashboard.linkInfo.countries.unknown');
+    try {
+      return regionNames?.of(code) ?? code;
+    } catch {
+      return code;
+    }
+  };
+
+  const total = countries.reduce((acc, entry) => acc + entry.total, 0);
+  const formatShare = (value: number, whole: number) =>
+    whole > 0
+      ? new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 }).format(value / whole)
+      : '-';
+  const areaLabel = (value: NetworkArea) =>
+    t(NETWORK_AREA_OPTIONS.find((option) => option.value === value)?.labelKey ?? 'networkArea.global');
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4">
+      <h3 className="text-sm font-semibold text-gray-700">{t('dashboard.linkInfo.countries.title')}</h3>
+      <p className="mt-1 text-xs text-gray-500">{t('dashboard.linkInfo.countries.hint')}</p>
+
+      <div className="mt-3 grid gap-4 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <CountryMap
+            countries={countries}
+            countryName={countryName}
+            locale={locale}
+            ariaLabel={t('dashboard.linkInfo.countries.map')}
+          />
+        </div>
+        <div className="max-h-72 overflow-y-auto overflow-x-auto pr-1">
+          <table className="min-w-full text-left text-xs text-gray-600">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.countries.country')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.downloadsApk')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.downloadsIpa')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.downloadsTotal')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.countries.share')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {countries.length ? (
+                countries.map((entry) => (
+                  <tr key={entry.country ?? '-'} className="border-b border-gray-100 last:border-0">
+                    <td className="px-2 py-1 font-medium text-gray-700">{countryName(entry.country)}</td>
+                    <td className="px-2 py-1">{entry.apk.toLocaleString(locale)}</td>
+                    <td className="px-2 py-1">{entry.ipa.toLocaleString(locale)}</td>
+                    <td className="px-2 py-1">{entry.total.toLocaleString(locale)}</td>
+                    <td className="px-2 py-1">{formatShare(entry.total, total)}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-2 py-6 text-center text-gray-500">
+                    {t('dashboard.linkInfo.noData')}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <h4 className="text-xs font-semibold text-gray-700">{t('dashboard.linkInfo.countries.areasTitle')}</h4>
+        <p className="mt-1 text-xs text-gray-500">{t('dashboard.linkInfo.countries.areasHint')}</p>
+        <div className="mt-2 overflow-x-auto">
+          <table className="min-w-full text-left text-xs text-gray-600">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.countries.networkArea')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.countries.links')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.downloadsTotal')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.countries.topCountries')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {networkAreas.map((area) => (
+                <tr key={area.networkArea} className="border-b border-gray-100 last:border-0">
+                  <td className="px-2 py-1 font-medium text-gray-700">
+                    {areaLabel(area.networkArea)}
+                    {area.networkArea === networkArea ? (
+                      <span className="ml-1 text-gray-400">({t('dashboard.linkInfo.countries.thisLink')})</span>
+                    ) : null}
+                  </td>
+                  <td className="px-2 py-1">{area.linkCount.toLocaleString(locale)}</td>
+                  <td className="px-2 py-1">{area.total.toLocaleString(locale)}</td>
+                  <td className="px-2 py-1">
+                    {area.countries.length
+                      ? area.countries
+                          .slice(0, TOP_AREA_COUNTRIES)
+                          .map((entry) => `${countryName(entry.country)} ${formatShare(entry.total, area.total)}`)
+                          .join(' · ')
+                      : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
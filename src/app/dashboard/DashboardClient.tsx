@@ -9,8 +9,13 @@ import type { Locale } from '@/i18n/dictionary';
 import { getPublicCnDownloadDomain } from '@/lib/cn-domain';
 import { getPublicRuDownloadDomain } from '@/lib/ru-domain';
 import type { NetworkArea } from '@/lib/network-area';
+import { getRemainingDownloads, hasDownloadCap, isLinkExpired } from '@/lib/link-limits';
+import { isLinkComingSoon } from '@/lib/link-schedule';
+import { downloadBlob, renderShareCard } from '@/lib/share-card';
 import AddDistributionModal from './AddDistributionModal';
 import LinkStatsModal from './LinkStatsModal';
+import LinkReleasesModal from './LinkReleasesModal';
+import SigningSummary from './SigningSummary';
 
 type Props = {
   initialData: DashboardPage;
@@ -42,6 +47,7 @@ const formatCount = (value: number | null | undefined) => {
 
 const CN_DOWNLOAD_DOMAIN = getPublicCnDownloadDomain();
 const RU_DOWNLOAD_DOMAIN = getPublicRuDownloadDomain();
+const ACCOUNT_EXPORT_DAYS = 30;
 
 const getShareUrl = (code: string, area: NetworkArea, hydrated: boolean) => {
   if (area === 'CN') {
@@ -56,6 +62,12 @@ const getShareUrl = (code: string, area: NetworkArea, hydrated: boolean) => {
   return `/d/${code}`;
 };
 
+// Prefer the iOS icon: it is always a PNG, while Android icons may be WebP.
+const getLinkIconUrl = (link: DashboardLink) =>
+  link.files.find((file) => file.platform === 'ipa' && file.iconUrl)?.iconUrl ??
+  link.files.find((file) => file.iconUrl)?.iconUrl ??
+  null;
+
 const fallbackCopy = (text: string) => {
   if (typeof document === 'undefined') {
     throw new Error('UNAVAILABLE');
@@ -93,6 +105,8 @@ export default function DashboardClient({
   const [toast, setToast] = useState<string | null>(null);
   const [isHydrated, setIsHydrated] = useState(false);
   const [statsLink, setStatsLink] = useState<DashboardLink | null>(null);
+  const [releasesLink, setReleasesLink] = useState<DashboardLink | null>(null);
+  const [shareCardLinkId, setShareCardLinkId] = useState<string | null>(null);
 
   useEffect(() => {
     setIsHydrated(true);
@@ -146,6 +160,21 @@ export default function DashboardClient({
     setStatsLink(null);
   };
 
+  const openReleasesModal = (link: DashboardLink) => {
+    if (!allowManage) return;
+    setReleasesLink(link);
+  };
+
+  const closeReleasesModal = () => {
+    setReleasesLink(null);
+  };
+
+  const handlePromoted = async () => {
+    await fetchPage(data.page);
+    setToast(t('dashboard.releases.toastPromoted'));
+    setTimeout(() => setToast(null), 5000);
+  };
+
   const openCreateModal = () => {
     if (!allowManage) return;
     setModalMode('create');
@@ -241,6 +270,46 @@ export default function DashboardClient({
     setTimeout(() => setToast(null), 5000);
   };
 
+  const handleShareCard = async (link: DashboardLink) => {
+    if (shareCardLinkId) return;
+    setShareCardLinkId(link.id);
+    try {
+      const version = link.files
+        .map((file) =>
+          `${file.platform === 'ipa' ? t('dashboard.downloadsIpa') : t('dashboard.downloadsApk')} ${
+            file.version ?? '-'
+          }`
+        )
+        .join(' · ');
+      const blob = await renderShareCard({
+        title: link.title ?? link.code,
+        version: version || '-',
+        shareUrl: getShareUrl(link.code, link.networkArea, true),
+        qrUrl: `/api/distributions/${link.id}/qr?format=png&size=840&ecc=Q`,
+        iconUrl: getLinkIconUrl(link),
+        caption: t('dashboard.shareCardCaption'),
+      });
+      downloadBlob(blob, `${link.code}-share-card.png`);
+    } catch {
+      setToast(t('dashboard.toastShareCardFailed'));
+      setTimeout(() => setToast(null), 5000);
+    } finally {
+      setShareCardLinkId(null);
+    }
+  };
+
+  // Daily downloads of every link over the last 30 days; the range is picked at click time.
+  const exportAccountStats = (format: 'csv' | 'xlsx') => {
+    const to = new Date();
+    const from = new Date(to.getTime() - (ACCOUNT_EXPORT_DAYS - 1) * 24 * 60 * 60 * 1000);
+    const params = new URLSearchParams({
+      frequency: 'day',
+      format,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+    window.location.href = `/api/member/stats/export?${params.toString()}`;
+  };
 
   return (
     <div className="space-y-4">
@@ -256,6 +325,19 @@ export default function DashboardClient({
           </div>
           {allowManage ? (
             <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-end">
+              <div className="flex items-center gap-2 text-sm" title={t('dashboard.exportStatsHint')}>
+                <span className="text-gray-500">{t('dashboard.exportStats')}</span>
+                {(['csv', 'xlsx'] as const).map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    className="inline-flex items-center justify-center rounded border border-gray-300 px-3 py-1 font-medium text-gray-700 transition hover:bg-gray-100"
+                    onClick={() => exportAccountStats(format)}
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
               <Link
                 href={rechargeHref}
                 className="inline-flex items-center justify-center rounded border border-gray-300 px-3 py-1 text-sm font-medium text-gray-700 transition hover:bg-gray-100"
@@ -299,17 +381,39 @@ export default function DashboardClient({
             <tbody>
               {data.links.map((link) => {
                 const shareUrl = getShareUrl(link.code, link.networkArea, isHydrated);
+                const iconUrl = getLinkIconUrl(link);
+                const remaining = hasDownloadCap(link)
+                  ? getRemainingDownloads(link, { apk: link.totalApkDl, ipa: link.totalIpaDl })
+                  : null;
                 return (
                   <tr key={link.id} className="border-b last:border-none">
                     <td className="py-2 pr-4 font-mono text-xs sm:text-sm whitespace-nowrap">{link.code}</td>
-                    <td className="py-2 pr-4 whitespace-nowrap">{link.title ?? '-'}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        {iconUrl ? (
+                          // Icons live on the CDN / regional hosts, outside the image optimizer.
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={iconUrl}
+                            alt=""
+                            width={28}
+                            height={28}
+                            loading="lazy"
+                            className="h-7 w-7 rounded-md border"
+                          />
+                        ) : null}
+                        <span>{link.title ?? '-'}</span>
+                      </div>
+                    </td>
                     <td className="py-2 pr-4">
                       {link.files.length ? (
                         <ul className="space-y-1">
                           {link.files.map((file) => (
                             <li key={file.id} className="text-xs text-gray-600">
                               <span className="font-medium text-gray-800">{file.platform.toUpperCase()}</span>{' '}
-                              · {file.version ?? '-'} · {formatSize(file.size)}
+                              · {file.version ?? '-'}
+                              {file.releaseNo ? ` (#${file.releaseNo})` : ''} · {formatSize(file.size)}
+                              {file.signing ? <SigningSummary signing={file.signing} showEntitlements /> : null}
                             </li>
                           ))}
                         </ul>
@@ -334,10 +438,16 @@ export default function DashboardClient({
                         className={`rounded px-2 py-0.5 text-xs font-semibold ${
                           link.isActive
                             ? 'bg-green-100 text-green-700'
+                            : isLinkComingSoon(link)
+                            ? 'bg-blue-100 text-blue-700'
                             : 'bg-gray-100 text-gray-500'
                         }`}
                       >
-                        {link.isActive ? t('dashboard.activeOn') : t('dashboard.activeOff')}
+                        {link.isActive
+                          ? t('dashboard.activeOn')
+                          : isLinkComingSoon(link)
+                          ? t('dashboard.activeScheduled')
+                          : t('dashboard.activeOff')}
                       </span>
                     </td>
                     <td className="py-2 pr-4">
@@ -356,6 +466,50 @@ export default function DashboardClient({
                             ({t('dashboard.downloadsApk')} {formatCount(link.totalApkDl)} / {t('dashboard.downloadsIpa')} {formatCount(link.totalIpaDl)})
                           </span>
                         </div>
+                        {remaining ? (
+                          <div className="whitespace-nowrap">
+                            <span className="font-semibold text-gray-700">{t('dashboard.downloadsRemaining')}:</span>{' '}
+                            {remaining.total ?? '∞'}{' '}
+                            <span className="text-gray-500">
+                              ({t('dashboard.downloadsApk')} {remaining.apk ?? '∞'} / {t('dashboard.downloadsIpa')} {remaining.ipa ?? '∞'})
+                            </span>
+                          </div>
+                        ) : null}
+                        {link.expiresAt ? (
+                          <div
+                            className={`whitespace-nowrap ${
+                              isHydrated && isLinkExpired(link) ? 'font-semibold text-red-600' : ''
+                            }`}
+                          >
+                            {isHydrated
+                              ? isLinkExpired(link)
+                                ? t('dashboard.linkExpired')
+                                : t('dashboard.linkExpiresAt').replace('{date}', formatDate(link.expiresAt))
+                              : ''}
+                          </div>
+                        ) : null}
+                        {link.lowIosConversion ? (
+                          <div
+                            className="whitespace-nowrap font-semibold text-amber-600"
+                            title={t('dashboard.lowIosConversionHint')}
+                          >
+                            {t('dashboard.lowIosConversion')}
+                          </div>
+                        ) : null}
+                        {link.publishAt ? (
+                          <div className="whitespace-nowrap">
+                            {isHydrated
+                              ? t('dashboard.linkPublishesAt').replace('{date}', formatDate(link.publishAt))
+                              : ''}
+                          </div>
+                        ) : null}
+                        {link.unpublishAt ? (
+                          <div className="whitespace-nowrap">
+                            {isHydrated
+                              ? t('dashboard.linkUnpublishesAt').replace('{date}', formatDate(link.unpublishAt))
+                              : ''}
+                          </div>
+                        ) : null}
                       </div>
                     </td>
                     <td className="py-2 pr-4 text-xs text-gray-600 whitespace-nowrap">
@@ -380,6 +534,16 @@ export default function DashboardClient({
                         >
                           {t('dashboard.actionEdit')}
                         </button>
+                        {allowManage ? (
+                          <button
+                            type="button"
+                            className="rounded border px-2 py-1 text-xs font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-40"
+                            onClick={() => openReleasesModal(link)}
+                            disabled={loading}
+                          >
+                            {t('dashboard.actionReleases')}
+                          </button>
+                        ) : null}
                         <button
                           type="button"
                           className="rounded border border-red-200 px-2 py-1 text-xs font-medium text-red-600 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-40"
@@ -410,6 +574,14 @@ export default function DashboardClient({
                         >
                           {t('dashboard.copyLink')}
                         </button>
+                        <button
+                          type="button"
+                          className="rounded border px-2 py-1 text-xs font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-40"
+                          onClick={() => handleShareCard(link)}
+                          disabled={loading || shareCardLinkId !== null}
+                        >
+                          {shareCardLinkId === link.id ? t('status.loading') : t('dashboard.shareCard')}
+                        </button>
                       </div>
                     </td>
                   </tr>
@@ -466,6 +638,14 @@ export default function DashboardClient({
         />
       )}
       {statsLink ? <LinkStatsModal open={Boolean(statsLink)} link={statsLink} onClose={closeStatsModal} /> : null}
+      {allowManage && releasesLink ? (
+        <LinkReleasesModal
+          open={Boolean(releasesLink)}
+          link={releasesLink}
+          onClose={closeReleasesModal}
+          onPromoted={handlePromoted}
+        />
+      ) : null}
 
       {allowManage && deleteTarget && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4 py-8">
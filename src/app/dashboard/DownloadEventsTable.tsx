@@ -0,0 +1,227 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useI18n } from '@/i18n/provider';
+import type { DownloadDevice, DownloadEvent } from '@/lib/download-events';
+
+type EventsResponse =
+  | { ok: true; page: number; pageSize: number; total: number; events: DownloadEvent[] }
+  | { ok: false; error: string };
+
+type Props = {
+  linkId: string;
+  /** ISO bounds of the range picked in the stats modal; remount (key) when they change. */
+  from: string | null;
+  to: string | null;
+};
+
+const PAGE_SIZE = 20;
+const DEVICES: DownloadDevice[] = ['mobile', 'tablet', 'desktop', 'other'];
+
+const inputClass =
+  'rounded border border-gray-300 px-2 py-1 text-sm focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500';
+
+export default function DownloadEventsTable({ linkId, from, to }: Props) {
+  const { t, locale } = useI18n();
+  const [platform, setPlatform] = useState<'' | 'apk' | 'ipa'>('');
+  const [device, setDevice] = useState<'' | DownloadDevice>('');
+  const [country, setCountry] = useState('');
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [events, setEvents] = useState<DownloadEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Country is applied once it is a full two-letter code, not on every keystroke.
+  const countryFilter = /^[a-z]{2}$/i.test(country.trim()) ? country.trim().toUpperCase() : '';
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      if (platform) params.set('platform', platform);
+      if (device) params.set('device', device);
+      if (countryFilter) params.set('country', countryFilter);
+      const res = await fetch(`/api/distributions/${encodeURIComponent(linkId)}/events?${params.toString()}`, {
+        cache: 'no-store',
+      });
+      const json = (await res.json()) as EventsResponse;
+      if (!json.ok) {
+        setError(json.error ?? 'UNKNOWN');
+        setEvents([]);
+        setTotal(0);
+        return;
+      }
+      setEvents(json.events);
+      setTotal(json.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setEvents([]);
+      setTotal(0);
+    } finally {
+      setLoading(false);
+    }
+  }, [linkId, from, to, platform, device, countryFilter, page]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const timeFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      }),
+    [locale],
+  );
+
+  const deviceLabel = (value: DownloadDevice) => t(`dashboard.linkInfo.events.device.${value}`);
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700">{t('dashboard.linkInfo.events.title')}</h3>
+          <p className="mt-1 text-xs text-gray-500">{t('dashboard.linkInfo.events.hint')}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label={t('dashboard.linkInfo.events.table.platform')}
+            className={inputClass}
+            value={platform}
+            onChange={(event) => {
+              setPlatform(event.target.value as '' | 'apk' | 'ipa');
+              setPage(1);
+            }}
+          >
+            <option value="">{t('dashboard.linkInfo.events.allPlatforms')}</option>
+            <option value="apk">{t('dashboard.downloadsApk')}</option>
+            <option value="ipa">{t('dashboard.downloadsIpa')}</option>
+          </select>
+          <select
+            aria-label={t('dashboard.linkInfo.events.table.device')}
+            className={inputClass}
+            value={device}
+            onChange={(event) => {
+              setDevice(event.target.value as '' | DownloadDevice);
+              setPage(1);
+            }}
+          >
+            <option value="">{t('dashboard.linkInfo.events.allDevices')}</option>
+            {DEVICES.map((value) => (
+              <option key={value} value={value}>
+                {deviceLabel(value)}
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label={t('dashboard.linkInfo.events.table.country')}
+            className={`${inputClass} w-28 uppercase`}
+            value={country}
+            maxLength={2}
+            placeholder={t('dashboard.linkInfo.events.countryPlaceholder')}
+            onChange={(event) => {
+              setCountry(event.target.value);
+              setPage(1);
+            }}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <div className="mt-3 rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {t('dashboard.linkInfo.events.error')}
+        </div>
+      ) : null}
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="min-w-full text-left text-xs text-gray-600">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.events.table.time')}</th>
+              <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.events.table.platform')}</th>
+              <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.events.table.version')}</th>
+              <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.events.table.country')}</th>
+              <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.events.table.device')}</th>
+              <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.events.table.referrer')}</th>
+              <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.events.table.visitor')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-2 py-6 text-center text-gray-500">
+                  {t('status.loading')}
+                </td>
+              </tr>
+            ) : events.length ? (
+              events.map((item) => (
+                <tr key={item.id} className="border-b border-gray-100 last:border-0">
+                  <td className="whitespace-nowrap px-2 py-1 text-gray-700">
+                    {timeFormatter.format(new Date(item.createdAt * 1000))}
+                  </td>
+                  <td className="px-2 py-1 uppercase">{item.platform}</td>
+                  <td className="px-2 py-1">{item.version ?? '-'}</td>
+                  <td className="px-2 py-1">{item.country ?? '-'}</td>
+                  <td className="whitespace-nowrap px-2 py-1">
+                    {deviceLabel(item.device)}
+                    {item.os ? <span className="text-gray-400"> · {item.os}</span> : null}
+                  </td>
+                  <td className="max-w-xs truncate px-2 py-1" title={item.referrer ?? undefined}>
+                    {item.referrer ?? '-'}
+                  </td>
+                  <td className="px-2 py-1 font-mono text-gray-500">
+                    {item.ipHash ? item.ipHash.slice(0, 8) : '-'}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={7} className="px-2 py-6 text-center text-gray-500">
+                  {t('dashboard.linkInfo.events.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between text-xs text-gray-600">
+        <div>
+          {t('dashboard.paginationSummary')
+            .replace('{page}', String(page))
+            .replace('{pages}', String(totalPages))}{' '}
+          · {t('dashboard.linkInfo.events.total').replace('{count}', total.toLocaleString(locale))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="rounded border px-3 py-1 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:text-gray-400"
+            onClick={() => setPage((current) => Math.max(1, current - 1))}
+            disabled={loading || page <= 1}
+          >
+            {t('pagination.previous')}
+          </button>
+          <button
+            type="button"
+            className="rounded border px-3 py-1 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:text-gray-400"
+            onClick={() => setPage((current) => Math.min(totalPages, current + 1))}
+            disabled={loading || page >= totalPages}
+          >
+            {t('pagination.next')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useI18n } from '@/i18n/provider';
+import type { LinkFunnel } from '@/lib/link-funnel';
+import type { NetworkArea } from '@/lib/network-area';
+
+type FunnelResponse = { ok: true; funnel: LinkFunnel } | { ok: false; error: string };
+
+type Props = {
+  linkId: string;
+  networkArea: NetworkArea;
+  /** ISO bounds of the range picked in the stats modal. */
+  from: string | null;
+  to: string | null;
+};
+
+const formatRate = (part: number, whole: number, locale: string) =>
+  whole > 0
+    ? new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 }).format(part / whole)
+    : '-';
+
+export default function LinkFunnelPanel({ linkId, networkArea, from, to }: Props) {
+  const { t, locale } = useI18n();
+  const [funnel, setFunnel] = useState<LinkFunnel | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams();
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    setError(null);
+    fetch(`/api/distributions/${encodeURIComponent(linkId)}/funnel?${params.toString()}`, { cache: 'no-store' })
+      .then((res) => res.json() as Promise<FunnelResponse>)
+      .then((json) => {
+        if (cancelled) return;
+        if (!json.ok) {
+          setError(json.error ?? 'UNKNOWN');
+          setFunnel(null);
+          return;
+        }
+        setFunnel(json.funnel);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setFunnel(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkId, from, to]);
+
+  const rows = funnel
+    ? [
+        { key: 'apk', label: t('dashboard.downloadsApk'), counts: funnel.apk, showGuides: false },
+        { key: 'ipa', label: t('dashboard.downloadsIpa'), counts: funnel.ipa, showGuides: true },
+      ]
+    : [];
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4">
+      <h3 className="text-sm font-semibold text-gray-700">{t('dashboard.linkInfo.funnel.title')}</h3>
+      <p className="mt-1 text-xs text-gray-500">
+        {networkArea === 'global' ? t('dashboard.linkInfo.funnel.hint') : t('dashboard.linkInfo.funnel.regionalHint')}
+      </p>
+
+      {error ? (
+        <div className="mt-3 rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {t('dashboard.linkInfo.funnel.error')}
+        </div>
+      ) : null}
+
+      {funnel?.lowIosConversion ? (
+        <div className="mt-3 rounded border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          {t('dashboard.lowIosConversionHint')}
+        </div>
+      ) : null}
+
+      {funnel ? (
+        <div className="mt-3 overflow-x-auto">
+          <table className="min-w-full text-left text-xs text-gray-600">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.platforms')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.funnel.views')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.funnel.clicks')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.funnel.guides')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.funnel.downloads')}</th>
+                <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.linkInfo.funnel.conversion')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className="border-b border-gray-100 last:border-0">
+                  <td className="px-2 py-1 font-medium text-gray-700">{row.label}</td>
+                  <td className="px-2 py-1">{row.counts.views.toLocaleString(locale)}</td>
+                  <td className="px-2 py-1">
+                    {row.counts.clicks.toLocaleString(locale)}{' '}
+                    <span className="text-gray-400">({formatRate(row.counts.clicks, row.counts.views, locale)})</span>
+                  </td>
+                  <td className="px-2 py-1">{row.showGuides ? row.counts.guides.toLocaleString(locale) : '-'}</td>
+                  <td className="px-2 py-1">{row.counts.downloads.toLocaleString(locale)}</td>
+                  <td className="px-2 py-1 font-semibold text-gray-700">
+                    {formatRate(row.counts.downloads, row.counts.views, locale)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">
+            {t('dashboard.linkInfo.funnel.otherViews').replace('{count}', funnel.other.views.toLocaleString(locale))}
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { DashboardLink, DashboardRelease } from '@/lib/dashboard';
+import { useI18n } from '@/i18n/provider';
+
+type Props = {
+  open: boolean;
+  link: DashboardLink;
+  onClose: () => void;
+  onPromoted: (linkId: string) => Promise<void> | void;
+};
+
+type ReleasesResponse =
+  | { ok: true; releases: DashboardRelease[] }
+  | { ok: false; error: string };
+
+type PromoteResponse = { ok: boolean; error?: string };
+
+const PLATFORM_ORDER = ['ipa', 'apk'] as const;
+
+const formatSize = (value: number | null | undefined) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return '-';
+  return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function LinkReleasesModal({ open, link, onClose, onPromoted }: Props) {
+  const { t, locale } = useI18n();
+  const [releases, setReleases] = useState<DashboardRelease[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+
+  const fetchReleases = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/distributions/${encodeURIComponent(link.id)}/releases`, {
+        cache: 'no-store',
+      });
+      const json = (await res.json()) as ReleasesResponse;
+      if (!json.ok) {
+        setError(json.error ?? 'UNKNOWN');
+        setReleases([]);
+        return;
+      }
+      setReleases(json.releases);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setError(message);
+      setReleases([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [link.id]);
+
+  useEffect(() => {
+    if (open) {
+      fetchReleases();
+    }
+  }, [open, fetchReleases]);
+
+  const promote = async (release: DashboardRelease) => {
+    if (promotingId) return;
+    setPromotingId(release.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/distributions/${encodeURIComponent(link.id)}/releases`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ releaseId: release.id }),
+      });
+      const json = (await res.json().catch(() => null)) as PromoteResponse | null;
+      if (!res.ok || !json?.ok) {
+        throw new Error(json?.error ?? `HTTP_${res.status}`);
+      }
+      await fetchReleases();
+      const maybePromise = onPromoted(link.id);
+      if (maybePromise instanceof Promise) {
+        await maybePromise;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setError(message);
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
+  const formatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    [locale]
+  );
+
+  const grouped = useMemo(
+    () =>
+      PLATFORM_ORDER.map((platform) => ({
+        platform,
+        items: releases.filter((release) => release.platform === platform),
+      })).filter((group) => group.items.length),
+    [releases]
+  );
+
+  return (
+    <div
+      className={`fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4 py-8 transition ${
+        open ? 'pointer-events-auto opacity-100' : 'pointer-events-none opacity-0'
+      }`}
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('dashboard.releases.title')}
+    >
+      <div className="relative flex w-full max-w-4xl flex-col gap-6 rounded-xl bg-white p-6 shadow-2xl max-h-full overflow-y-auto">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">{t('dashboard.releases.title')}</h2>
+            <p className="mt-1 text-sm text-gray-500">{t('dashboard.releases.description')}</p>
+            <p className="mt-1 text-sm text-gray-500">
+              {t('table.code')}: <span className="font-mono text-gray-700">{link.code}</span>
+            </p>
+          </div>
+          <button
+            type="button"
+            className="rounded-full border border-gray-200 p-2 text-gray-500 hover:bg-gray-50 hover:text-gray-700"
+            onClick={onClose}
+          >
+            <span className="sr-only">Close</span>
+            &times;
+          </button>
+        </div>
+
+        {error ? (
+          <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {t('dashboard.releases.error')}: {error}
+          </div>
+        ) : null}
+
+        {loading && !releases.length ? (
+          <div className="py-10 text-center text-sm text-gray-500">{t('status.loading')}</div>
+        ) : !grouped.length ? (
+          <div className="py-10 text-center text-sm text-gray-500">{t('dashboard.releases.empty')}</div>
+        ) : (
+          grouped.map((group) => (
+            <div key={group.platform} className="rounded-lg border border-gray-200 p-4">
+              <h3 className="text-sm font-semibold text-gray-700">{group.platform.toUpperCase()}</h3>
+              <div className="mt-3 overflow-x-auto">
+                <table className="min-w-full text-left text-xs text-gray-600">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.releases.table.release')}</th>
+                      <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.releases.table.version')}</th>
+                      <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.releases.table.build')}</th>
+                      <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.releases.table.size')}</th>
+                      <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.releases.table.notes')}</th>
+                      <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.releases.table.uploadedBy')}</th>
+                      <th className="px-2 py-1 font-semibold text-gray-700">{t('dashboard.releases.table.uploadedAt')}</th>
+                      <th className="px-2 py-1 font-semibold text-gray-700">{t('table.actions')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.items.map((release) => (
+                      <tr key={release.id} className="border-b border-gray-100 align-top last:border-0">
+                        <td className="px-2 py-1 font-medium text-gray-700 whitespace-nowrap">
+                          #{release.releaseNo ?? '-'}
+                          {release.isCurrent ? (
+                            <span className="ml-2 rounded bg-green-100 px-2 py-0.5 text-[10px] font-semibold text-green-700">
+                              {t('dashboard.releases.current')}
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="px-2 py-1 whitespace-nowrap">{release.version || '-'}</td>
+                        <td className="px-2 py-1 whitespace-nowrap">{release.build || '-'}</td>
+                        <td className="px-2 py-1 whitespace-nowrap">{formatSize(release.size)}</td>
+                        <td className="max-w-[240px] px-2 py-1 whitespace-pre-wrap break-words">
+                          {release.releaseNotes || '-'}
+                        </td>
+                        <td className="px-2 py-1 whitespace-nowrap">
+                          {release.uploaderEmail ?? release.uploadedBy ?? '-'}
+                        </td>
+                        <td className="px-2 py-1 whitespace-nowrap">
+                          {release.createdAt ? formatter.format(new Date(release.createdAt * 1000)) : '-'}
+                        </td>
+                        <td className="px-2 py-1">
+                          {release.isCurrent ? null : (
+                            <button
+                              type="button"
+                              className="rounded border px-2 py-1 text-xs font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-40"
+                              onClick={() => promote(release)}
+                              disabled={Boolean(promotingId)}
+                            >
+                              {promotingId === release.id
+                                ? t('status.loading')
+                                : t('dashboard.releases.promote')}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
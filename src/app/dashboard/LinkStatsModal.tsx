@@ -3,6 +3,9 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import type { DashboardLink } from '@/lib/dashboard';
 import { useI18n } from '@/i18n/provider';
+import CountryBreakdownPanel, { type CountryPoint, type NetworkAreaPoint } from './CountryBreakdownPanel';
+import DownloadEventsTable from './DownloadEventsTable';
+import LinkFunnelPanel from './LinkFunnelPanel';
 
 type Frequency = 'year' | 'month' | 'day' | 'hour';
 
@@ -13,6 +16,8 @@ type StatsPoint = {
   total: number;
 };
 
+type FilterReason = 'bot' | 'prefetch' | 'duplicate' | 'rate_limited';
+
 type StatsSummary = {
   totalApk: number;
   totalIpa: number;
@@ -20,14 +25,23 @@ type StatsSummary = {
   from: string;
   to: string;
   bucketCount: number;
+  /** Bot, prefetch and repeat hits that were served but neither counted nor billed. */
+  filtered: Record<FilterReason, number> & { total: number };
 };
 
+const FILTER_REASONS: FilterReason[] = ['bot', 'prefetch', 'duplicate', 'rate_limited'];
+
 type StatsResponse =
-  | { ok: true; points: StatsPoint[]; summary: StatsSummary }
-  | { ok: false; error: string };
+  | {
+      ok: true;
+      points: StatsPoint[];
+      summary: StatsSummary;
+      countries: CountryPoint[];
+      networkAreas: NetworkAreaPoint[];
+    }
+  | { ok: false; error: string; hourlyRetentionDays?: number };
 
 const FREQUENCY_OPTIONS: Frequency[] = ['day', 'hour', 'month', 'year'];
-const DISABLED_FREQUENCIES = new Set<Frequency>(['hour']);
 
 const CHART_COLORS: Record<'apk' | 'ipa' | 'total', string> = {
   apk: '#0ea5e9',
@@ -260,8 +274,11 @@ export default function LinkStatsModal({ open, link, onClose }: Props) {
   ]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [hourlyRetentionDays, setHourlyRetentionDays] = useState<number | null>(null);
   const [stats, setStats] = useState<StatsPoint[]>([]);
   const [summary, setSummary] = useState<StatsSummary | null>(null);
+  const [countries, setCountries] = useState<CountryPoint[]>([]);
+  const [networkAreas, setNetworkAreas] = useState<NetworkAreaPoint[]>([]);
 
   const resetState = useCallback(() => {
     const now = new Date();
@@ -272,6 +289,8 @@ export default function LinkStatsModal({ open, link, onClose }: Props) {
     setSelectedPlatforms(['apk', 'ipa', 'total']);
     setStats([]);
     setSummary(null);
+    setCountries([]);
+    setNetworkAreas([]);
     setError(null);
   }, []);
 
@@ -299,6 +318,7 @@ export default function LinkStatsModal({ open, link, onClose }: Props) {
         from: fromDate.toISOString(),
         to: toDate.toISOString(),
         frequency,
+        breakdown: 'country',
       });
       const res = await fetch(`/api/distributions/${encodeURIComponent(link.id)}/stats?${params.toString()}`, {
         cache: 'no-store',
@@ -306,17 +326,24 @@ export default function LinkStatsModal({ open, link, onClose }: Props) {
       const json = (await res.json()) as StatsResponse;
       if (!json.ok) {
         setError(json.error ?? 'UNKNOWN');
+        setHourlyRetentionDays(json.hourlyRetentionDays ?? null);
         setStats([]);
         setSummary(null);
+        setCountries([]);
+        setNetworkAreas([]);
         return;
       }
       setStats(json.points);
       setSummary(json.summary);
+      setCountries(json.countries);
+      setNetworkAreas(json.networkAreas);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       setError(message);
       setStats([]);
       setSummary(null);
+      setCountries([]);
+      setNetworkAreas([]);
     } finally {
       setLoading(false);
     }
@@ -380,12 +407,33 @@ export default function LinkStatsModal({ open, link, onClose }: Props) {
     [locale, frequency],
   );
 
+  const eventsRange = useMemo(
+    () => ({
+      from: fromLocalInputValue(fromValue)?.toISOString() ?? null,
+      to: fromLocalInputValue(toValue)?.toISOString() ?? null,
+    }),
+    [fromValue, toValue],
+  );
+
+  const exportHref = (format: 'csv' | 'xlsx') => {
+    const params = new URLSearchParams({ frequency, format });
+    if (eventsRange.from) params.set('from', eventsRange.from);
+    if (eventsRange.to) params.set('to', eventsRange.to);
+    return `/api/distributions/${encodeURIComponent(link.id)}/stats/export?${params.toString()}`;
+  };
+
   const errorMessage = useMemo(() => {
     if (!error) return null;
     if (error === 'RANGE_TOO_LARGE') return t('dashboard.linkInfo.rangeTooLarge');
+    if (error === 'HOURLY_RANGE_UNAVAILABLE') {
+      return t('dashboard.linkInfo.hourlyRangeUnavailable').replace(
+        '{days}',
+        String(hourlyRetentionDays ?? '')
+      );
+    }
     if (error === 'INVALID_RANGE') return t('dashboard.linkInfo.error');
     return t('dashboard.linkInfo.error');
-  }, [error, t]);
+  }, [error, hourlyRetentionDays, t]);
 
   return (
     <div
@@ -459,20 +507,13 @@ export default function LinkStatsModal({ open, link, onClose }: Props) {
                 id="stats-frequency"
                 className="mt-2 w-full rounded border border-gray-300 px-2 py-1 text-sm focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500"
                 value={frequency}
-                onChange={(event) => {
-                  const next = event.target.value as Frequency;
-                  if (DISABLED_FREQUENCIES.has(next)) return;
-                  setFrequency(next);
-                }}
+                onChange={(event) => setFrequency(event.target.value as Frequency)}
               >
-                {FREQUENCY_OPTIONS.map((option) => {
-                  const disabled = DISABLED_FREQUENCIES.has(option);
-                  return (
-                    <option key={option} value={option} disabled={disabled}>
-                      {frequencyLabels[option]}
-                    </option>
-                  );
-                })}
+                {FREQUENCY_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {frequencyLabels[option]}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -517,6 +558,18 @@ export default function LinkStatsModal({ open, link, onClose }: Props) {
             >
               {loading ? t('status.loading') : t('dashboard.linkInfo.apply')}
             </button>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-500">{t('dashboard.linkInfo.export')}</span>
+              {(['csv', 'xlsx'] as const).map((format) => (
+                <a
+                  key={format}
+                  href={exportHref(format)}
+                  className="rounded border border-gray-300 px-3 py-1 font-medium text-gray-700 transition hover:bg-gray-100"
+                >
+                  {format.toUpperCase()}
+                </a>
+              ))}
+            </div>
           </div>
         </div>
 
@@ -553,6 +606,25 @@ export default function LinkStatsModal({ open, link, onClose }: Props) {
                 </div>
               ))}
             </div>
+            {summary ? (
+              <div className="mt-2 rounded border border-dashed border-gray-200 px-3 py-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-500">{t('dashboard.linkInfo.filtered.title')}</span>
+                  <span className="font-mono text-gray-700">{summary.filtered.total.toLocaleString(locale)}</span>
+                </div>
+                {summary.filtered.total > 0 ? (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {FILTER_REASONS.filter((reason) => summary.filtered[reason] > 0)
+                      .map(
+                        (reason) =>
+                          `${t(`dashboard.linkInfo.filtered.${reason}`)} ${summary.filtered[reason].toLocaleString(locale)}`
+                      )
+                      .join(' · ')}
+                  </p>
+                ) : null}
+                <p className="mt-1 text-xs text-gray-400">{t('dashboard.linkInfo.filtered.hint')}</p>
+              </div>
+            ) : null}
             {summary ? (
               <p className="mt-3 text-xs text-gray-500">
                 {formatter.format(new Date(summary.from))} &rarr; {formatter.format(new Date(summary.to))}{' '}
@@ -599,6 +671,28 @@ export default function LinkStatsModal({ open, link, onClose }: Props) {
             ) : null}
           </div>
         </div>
+
+        {summary ? (
+          <CountryBreakdownPanel countries={countries} networkAreas={networkAreas} networkArea={link.networkArea} />
+        ) : null}
+
+        {open ? (
+          <LinkFunnelPanel
+            linkId={link.id}
+            networkArea={link.networkArea}
+            from={eventsRange.from}
+            to={eventsRange.to}
+          />
+        ) : null}
+
+        {open ? (
+          <DownloadEventsTable
+            key={`${link.id}|${eventsRange.from}|${eventsRange.to}`}
+            linkId={link.id}
+            from={eventsRange.from}
+            to={eventsRange.to}
+          />
+        ) : null}
       </div>
     </div>
   );
@@ -0,0 +1,74 @@
+'use client';
+
+import type { DashboardSigning } from '@/lib/dashboard';
+import { getProfileExpiryState, type ProvisioningProfileType } from '@/lib/provisioning';
+import { useI18n } from '@/i18n/provider';
+
+type Props = {
+  signing: DashboardSigning;
+  showEntitlements?: boolean;
+};
+
+const TYPE_KEYS: Record<ProvisioningProfileType, string> = {
+  'ad-hoc': 'dashboard.signing.type.adHoc',
+  enterprise: 'dashboard.signing.type.enterprise',
+  development: 'dashboard.signing.type.development',
+  'app-store': 'dashboard.signing.type.appStore',
+};
+
+export default function SigningSummary({ signing, showEntitlements = false }: Props) {
+  const { t, locale } = useI18n();
+  const expiryState = getProfileExpiryState(signing.expiresAt);
+  const typeKey = signing.profileType
+    ? TYPE_KEYS[signing.profileType as ProvisioningProfileType]
+    : undefined;
+  const daysLeft = signing.expiresAt
+    ? Math.max(0, Math.ceil((signing.expiresAt * 1000 - Date.now()) / (24 * 60 * 60 * 1000)))
+    : null;
+  const entitlementKeys = signing.entitlements ? Object.keys(signing.entitlements).sort() : [];
+
+  const parts = [
+    `${t('dashboard.signing.team')}: ${signing.teamName ?? '-'}${signing.teamId ? ` (${signing.teamId})` : ''}`,
+    typeKey ? t(typeKey) : null,
+    signing.expiresAt
+      ? t('dashboard.signing.expires').replace(
+          '{date}',
+          new Date(signing.expiresAt * 1000).toLocaleDateString(locale)
+        )
+      : null,
+    signing.deviceCount !== null
+      ? t('dashboard.signing.devices').replace('{count}', String(signing.deviceCount))
+      : null,
+  ].filter((part): part is string => Boolean(part));
+
+  return (
+    <div className="space-y-0.5 text-[11px] text-gray-500">
+      <div className="flex flex-wrap items-center gap-1">
+        <span>{parts.join(' · ')}</span>
+        {expiryState === 'expired' ? (
+          <span className="rounded bg-red-100 px-1.5 py-0.5 font-semibold text-red-700">
+            {t('dashboard.signing.expired')}
+          </span>
+        ) : expiryState === 'expiring' ? (
+          <span className="rounded bg-amber-100 px-1.5 py-0.5 font-semibold text-amber-700">
+            {t('dashboard.signing.expiring').replace('{days}', String(daysLeft ?? 0))}
+          </span>
+        ) : null}
+      </div>
+      {showEntitlements && entitlementKeys.length ? (
+        <details>
+          <summary className="cursor-pointer select-none">
+            {t('dashboard.signing.entitlements')} ({entitlementKeys.length})
+          </summary>
+          <ul className="mt-1 space-y-0.5 font-mono">
+            {entitlementKeys.map((key) => (
+              <li key={key}>
+                {key}: {JSON.stringify(signing.entitlements?.[key])}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+    </div>
+  );
+}
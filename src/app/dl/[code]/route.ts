@@ -1,20 +1,53 @@
 import { NextResponse } from 'next/server';
 import { getRequestContext } from '@cloudflare/next-on-pages';
+import {
+  getBillingGrantSecret,
+  redeemBillingGrant,
+  verifyBillingGrant,
+  type BillingGrantBindings,
+} from '@/lib/billing-grant';
+import { billDownload, checkDownloadBalance } from '@/lib/download-billing';
+import { redirectFromLinkCodeAlias } from '@/lib/code';
 import { fetchDistributionByCode } from '@/lib/distribution';
-import { recordDownload, type DownloadTotals } from '@/lib/downloads';
+import {
+  getClientIp,
+  getDownloadIpHashSecret,
+  recordDownloadEvent,
+  type DownloadEventBindings,
+} from '@/lib/download-events';
+import {
+  classifyDownloadHit,
+  recordFilteredDownload,
+  resolveDownloadFilterConfig,
+  type DownloadFilterBindings,
+} from '@/lib/download-filter';
+import {
+  DownloadLimitError,
+  fetchDownloadCounts,
+  recordDownload,
+  type DownloadTotals,
+} from '@/lib/downloads';
 import { triggerDownloadMonitors } from '@/lib/monitor';
+import { emitWebhookEvent } from '@/lib/webhooks';
 import {
   getRegionalDownloadBaseUrl,
   type RegionalServerBindings,
 } from '@/lib/regional-server';
 import { isRegionalNetworkArea } from '@/lib/network-area';
+import { getLinkAccessSecret, verifyLinkGrant, type LinkAccessBindings } from '@/lib/link-access';
+import { getLinkAvailability, hasDownloadCap, isLinkExpired } from '@/lib/link-limits';
+import { isLinkLive } from '@/lib/link-schedule';
 
 export const runtime = 'edge';
 
 type Env = {
   DB?: D1Database;
   ['rudl-app']?: D1Database;
-} & RegionalServerBindings;
+} & RegionalServerBindings &
+  LinkAccessBindings &
+  DownloadEventBindings &
+  DownloadFilterBindings &
+  BillingGrantBindings;
 
 const CDN_BASE = 'https://cdn.dataruapp.com/';
 
@@ -22,7 +55,7 @@ export async function GET(
   request: Request,
   context: { params: Promise<{ code: string }> }
 ) {
-  const { env } = getRequestContext();
+  const { env, ctx } = getRequestContext();
   const bindings = env as Env;
   const DB = bindings.DB ?? bindings['rudl-app'];
   if (!DB) {
@@ -34,7 +67,14 @@ export async function GET(
   if (!code) return new Response('Invalid code', { status: 400 });
 
   const link = await fetchDistributionByCode(DB, code);
-  if (!link || !link.isActive) {
+  if (!link) {
+    return (
+      (await redirectFromLinkCodeAlias(DB, request, code)) ??
+      new Response('Not Found', { status: 404 })
+    );
+  }
+  // Checked against the schedule too: the cron flips is_active only on its next run.
+  if (!isLinkLive(link)) {
     return new Response('Not Found', { status: 404 });
   }
   const url = new URL(request.url);
@@ -44,6 +84,28 @@ export async function GET(
     return Response.redirect(target, 302);
   }
 
+  const grant = url.searchParams.get('g');
+  if (link.accessPassword) {
+    const secret = getLinkAccessSecret(bindings);
+    if (!secret) return new Response('Missing LINK_ACCESS_SECRET', { status: 500 });
+    if (!(await verifyLinkGrant(secret, link.id, grant))) {
+      return new Response('Forbidden', { status: 403, headers: { 'cache-control': 'no-store' } });
+    }
+  }
+
+  // Expired or exhausted links send visitors back to the download page, which explains why.
+  const refuse = () => {
+    const page = new URL(`/d/${encodeURIComponent(link.code)}`, url);
+    ['lang', 'g'].forEach((key) => {
+      const value = url.searchParams.get(key);
+      if (value) page.searchParams.set(key, value);
+    });
+    const response = NextResponse.redirect(page.toString(), 302);
+    response.headers.set('cache-control', 'no-store');
+    return response;
+  };
+  if (isLinkExpired(link)) return refuse();
+
   const files = link.files.filter((file) => file.r2Key);
   if (!files.length) return new Response('File Missing', { status: 404 });
 
@@ -93,13 +155,111 @@ export async function GET(
     effectivePlatform = platform;
   }
 
+  const destination =
+    effectivePlatform === 'apk'
+      ? `${CDN_BASE}${encodeRfc3986Path(selected.r2Key.replace(/^\/+/, ''))}`
+      : `itms-services://?action=download-manifest&url=${encodeURIComponent(
+          `${url.origin}/m/${encodeURIComponent(link.code)}${
+            link.accessPassword && grant ? `?g=${encodeURIComponent(grant)}` : ''
+          }`
+        )}`;
+  const redirect = () => {
+    const response = NextResponse.redirect(destination, 302);
+    response.headers.set('cache-control', 'no-store');
+    return response;
+  };
+
+  // Billed links need the single-use grant /d put on this URL; without one the visitor goes
+  // back to the page for a fresh one. It is only redeemed for hits the filter lets through.
+  const billingGrant = url.searchParams.get('b');
+  const billingSecret = link.ownerId ? getBillingGrantSecret(bindings) : null;
+  if (link.ownerId && !billingSecret) {
+    return new Response('Missing BILLING_GRANT_SECRET', { status: 500 });
+  }
+  if (billingSecret && !(await verifyBillingGrant(billingSecret, link.id, effectivePlatform, billingGrant))) {
+    return refuse();
+  }
+
+  const visitor = {
+    userAgent: request.headers.get('user-agent'),
+    ip: getClientIp(request.headers),
+  };
+  const ipHashSecret = getDownloadIpHashSecret(bindings);
+
+  // Bots, prefetches and repeat hits still get the file, but are neither counted nor billed.
+  const filtered = await classifyDownloadHit(
+    DB,
+    {
+      linkId: link.id,
+      platform: effectivePlatform,
+      method: request.method,
+      headers: request.headers,
+      ...visitor,
+    },
+    resolveDownloadFilterConfig(bindings),
+    ipHashSecret
+  );
+  if (filtered) {
+    if (
+      hasDownloadCap(link) &&
+      getLinkAvailability(link, await fetchDownloadCounts(DB, link.id), effectivePlatform) !== 'available'
+    ) {
+      return refuse();
+    }
+    ctx.waitUntil(recordFilteredDownload(DB, link.id, filtered));
+    return redirect();
+  }
+
+  // Billing that cannot be checked or recorded refuses the download rather than serving it free.
+  const billingUnavailable = () =>
+    new Response('Billing Unavailable', { status: 503, headers: { 'cache-control': 'no-store' } });
+
+  // Checked before anything is redeemed or counted: an owner out of points does not get the
+  // download served for free.
+  if (billingSecret) {
+    const balance = await checkDownloadBalance(DB, link, effectivePlatform);
+    if (!balance.ok) {
+      return balance.error === 'BILLING_FAILED' ? billingUnavailable() : refuse();
+    }
+  }
+
+  let billable = false;
+  if (billingSecret) {
+    try {
+      billable = await redeemBillingGrant(DB, billingSecret, link.id, effectivePlatform, billingGrant);
+    } catch (error) {
+      console.error('[dl] billing grant redemption failed', link.id, error);
+      return billingUnavailable();
+    }
+    if (!billable) return refuse();
+  }
+
   let downloadTotals: DownloadTotals | null = null;
   try {
-    downloadTotals = await recordDownload(DB, link.id, effectivePlatform);
-  } catch {
-    // ignore download counter failures
+    downloadTotals = await recordDownload(DB, link.id, effectivePlatform, {
+      limits: hasDownloadCap(link) ? link : null,
+    });
+  } catch (error) {
+    if (error instanceof DownloadLimitError) return refuse();
+    // ignore other download counter failures
   }
 
+  ctx.waitUntil(
+    recordDownloadEvent(
+      DB,
+      {
+        linkId: link.id,
+        platform: effectivePlatform,
+        fileId: selected.id,
+        version: selected.version,
+        country: request.headers.get('cf-ipcountry'),
+        referrer: request.headers.get('referer'),
+        ...visitor,
+      },
+      ipHashSecret
+    )
+  );
+
   if (downloadTotals && link.ownerId) {
     try {
       await triggerDownloadMonitors(DB, {
@@ -111,34 +271,21 @@ export async function GET(
     } catch {
       // suppress monitor errors to avoid blocking download
     }
+    // Delivered after the redirect is sent so slow receivers never delay the download.
+    ctx.waitUntil(
+      emitWebhookEvent(DB, link.ownerId, 'download.recorded', {
+        link: { id: link.id, code: link.code },
+        platform: effectivePlatform,
+        totals: downloadTotals,
+      })
+    );
   }
 
-  const destination =
-    effectivePlatform === 'apk'
-      ? `${CDN_BASE}${encodeRfc3986Path(selected.r2Key.replace(/^\/+/, ''))}`
-      : `itms-services://?action=download-manifest&url=${encodeURIComponent(
-          `${url.origin}/m/${encodeURIComponent(link.code)}`
-        )}`;
-
-  if (link.ownerId) {
-    try {
-      await fetch(new URL('/api/dl/bill', url.origin).toString(), {
-        method: 'POST',
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({
-          account_id: link.ownerId,
-          link_id: link.id,
-          platform: effectivePlatform,
-        }),
-      });
-    } catch {
-      // ignore billing failure to avoid blocking download
-    }
+  if (billable) {
+    ctx.waitUntil(billDownload(DB, link, effectivePlatform));
   }
 
-  const response = NextResponse.redirect(destination, 302);
-  response.headers.set('cache-control', 'no-store');
-  return response;
+  return redirect();
 }
 
 function encodeRfc3986Path(path: string) {
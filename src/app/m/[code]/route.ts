@@ -1,23 +1,29 @@
 import { getRequestContext } from '@cloudflare/next-on-pages';
+import { getAppIconUrl } from '@/lib/app-icon';
+import { redirectFromLinkCodeAlias } from '@/lib/code';
 import { fetchDistributionByCode } from '@/lib/distribution';
 import {
   getRegionalDownloadBaseUrl,
   type RegionalServerBindings,
 } from '@/lib/regional-server';
 import { isRegionalNetworkArea } from '@/lib/network-area';
+import { getLinkAccessSecret, verifyLinkGrant, type LinkAccessBindings } from '@/lib/link-access';
+import { isLinkExpired } from '@/lib/link-limits';
+import { isLinkLive } from '@/lib/link-schedule';
 
 export const runtime = 'edge';
 
 type Env = {
   DB?: D1Database;
   ['rudl-app']?: D1Database;
-} & RegionalServerBindings;
+} & RegionalServerBindings &
+  LinkAccessBindings;
 
 const DEFAULT_TITLE = 'App';
 const CDN_BASE = 'https://cdn.dataruapp.com/';
 
 export async function GET(
-  _request: Request,
+  request: Request,
   context: { params: Promise<{ code: string }> }
 ) {
   const { env } = getRequestContext();
@@ -35,13 +41,32 @@ export async function GET(
   if (!code) return resp404('Invalid code');
 
   const link = await fetchDistributionByCode(DB, code);
-  if (!link || !link.isActive) return resp404('Not Found');
+  if (!link) return (await redirectFromLinkCodeAlias(DB, request, code)) ?? resp404('Not Found');
+  if (!isLinkLive(link)) return resp404('Not Found');
+  const url = new URL(request.url);
   if (isRegionalNetworkArea(link.networkArea)) {
     const baseUrl = getRegionalDownloadBaseUrl(link.networkArea, bindings);
-    const target = `${baseUrl}/m/${encodeURIComponent(link.code)}`;
+    const target = `${baseUrl}/m/${encodeURIComponent(link.code)}${url.search}`;
     return Response.redirect(target, 302);
   }
 
+  if (link.accessPassword) {
+    const secret = getLinkAccessSecret(bindings);
+    if (!secret) {
+      return new Response('Missing LINK_ACCESS_SECRET', {
+        status: 500,
+        headers: { 'cache-control': 'no-store' },
+      });
+    }
+    if (!(await verifyLinkGrant(secret, link.id, url.searchParams.get('g')))) {
+      return new Response('Forbidden', { status: 403, headers: { 'cache-control': 'no-store' } });
+    }
+  }
+
+  if (isLinkExpired(link)) {
+    return new Response('Link Expired', { status: 410, headers: { 'cache-control': 'no-store' } });
+  }
+
   const files = link.files ?? [];
   const primaryFile =
     (link.fileId && files.find((file) => file.id === link.fileId && file.r2Key)) ||
@@ -69,6 +94,18 @@ export async function GET(
     `com.unknown.${link.code.toLowerCase()}`;
 
   const ipaUrl = `${CDN_BASE}${encodeRfc3986Path(primaryFile.r2Key.replace(/^\/+/, ''))}`;
+  const iconUrl = getAppIconUrl(primaryFile.iconKey, link.networkArea, bindings);
+  const iconAssets = iconUrl
+    ? ['display-image', 'full-size-image']
+        .map(
+          (kind) => `
+          <dict>
+            <key>kind</key><string>${kind}</string>
+            <key>url</key><string>${xml(iconUrl)}</string>
+          </dict>`
+        )
+        .join('')
+    : '';
 
   const plist = `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
@@ -82,7 +119,7 @@ export async function GET(
           <dict>
             <key>kind</key><string>software-package</string>
             <key>url</key><string>${xml(ipaUrl)}</string>
-          </dict>
+          </dict>${iconAssets}
         </array>
         <key>metadata</key>
         <dict>
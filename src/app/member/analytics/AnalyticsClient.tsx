@@ -0,0 +1,328 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useI18n } from '@/i18n/provider';
+import type { AccountAnalytics, AnalyticsPlatform } from '@/lib/account-analytics';
+import { NETWORK_AREA_OPTIONS } from '@/lib/network-area';
+
+type Props = {
+  initialAnalytics: AccountAnalytics;
+};
+
+type AnalyticsResponse = { ok: true; analytics: AccountAnalytics } | { ok: false; error: string };
+
+type Breakdown = 'platform' | 'networkArea';
+
+type ChartSeries = { key: string; label: string; color: string; values: number[] };
+
+const PLATFORM_COLORS = { apk: '#0ea5e9', ipa: '#f97316' };
+const AREA_COLORS = { global: '#10b981', CN: '#ef4444', RU: '#6366f1' };
+
+const inputClass =
+  'rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/** Stacked daily bars; `dates` label the x axis at a few ticks. */
+function StackedBarChart({
+  dates,
+  series,
+  locale,
+  ariaLabel,
+}: {
+  dates: string[];
+  series: ChartSeries[];
+  locale: string;
+  ariaLabel: string;
+}) {
+  const viewWidth = 960;
+  const viewHeight = 280;
+  const paddingX = 56;
+  const paddingY = 32;
+  const innerWidth = viewWidth - paddingX * 2;
+  const innerHeight = viewHeight - paddingY * 2;
+  const totals = dates.map((_, index) => series.reduce((acc, item) => acc + item.values[index], 0));
+  const maxValue = Math.max(1, ...totals);
+  const slot = dates.length ? innerWidth / dates.length : innerWidth;
+  const barWidth = Math.max(1, slot * 0.7);
+  const tickStep = Math.max(1, Math.ceil(dates.length / 6));
+  const formatter = useMemo(() => new Intl.DateTimeFormat(locale, { month: 'short', day: 'numeric', timeZone: 'UTC' }), [locale]);
+
+  return (
+    <svg viewBox={`0 0 ${viewWidth} ${viewHeight}`} role="img" aria-label={ariaLabel} className="block w-full">
+      <title>{ariaLabel}</title>
+      {[0, 0.5, 1].map((ratio) => {
+        const y = viewHeight - paddingY - ratio * innerHeight;
+        return (
+          <g key={ratio}>
+            <line x1={paddingX} x2={viewWidth - paddingX} y1={y} y2={y} stroke="#e2e8f0" strokeDasharray="6 6" />
+            <text x={paddingX - 8} y={y} fill="#475569" fontSize={12} textAnchor="end" dominantBaseline="middle">
+              {Math.round(maxValue * ratio).toLocaleString(locale)}
+            </text>
+          </g>
+        );
+      })}
+      {dates.map((date, index) => {
+        const x = paddingX + index * slot + (slot - barWidth) / 2;
+        let offset = 0;
+        return (
+          <g key={date}>
+            <title>
+              {`${date}: ${series.map((item) => `${item.label} ${item.values[index].toLocaleString(locale)}`).join(', ')}`}
+            </title>
+            {series.map((item) => {
+              const height = (item.values[index] / maxValue) * innerHeight;
+              offset += height;
+              return height > 0 ? (
+                <rect
+                  key={item.key}
+                  x={x}
+                  y={viewHeight - paddingY - offset}
+                  width={barWidth}
+                  height={height}
+                  fill={item.color}
+                />
+              ) : null;
+            })}
+            {index % tickStep === 0 ? (
+              <text x={x + barWidth / 2} y={viewHeight - paddingY + 18} fill="#475569" fontSize={12} textAnchor="middle">
+                {formatter.format(new Date(`${date}T00:00:00Z`))}
+              </text>
+            ) : null}
+          </g>
+        );
+      })}
+      <line
+        x1={paddingX}
+        x2={viewWidth - paddingX}
+        y1={viewHeight - paddingY}
+        y2={viewHeight - paddingY}
+        stroke="#94a3b8"
+      />
+    </svg>
+  );
+}
+
+function Legend({ series }: { series: ChartSeries[] }) {
+  return (
+    <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+      {series.map((item) => (
+        <span key={item.key} className="inline-flex items-center gap-1">
+          <span className="inline-block h-2 w-2 rounded-sm" style={{ backgroundColor: item.color }} />
+          {item.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function AnalyticsClient({ initialAnalytics }: Props) {
+  const { t, locale } = useI18n();
+  const [analytics, setAnalytics] = useState<AccountAnalytics>(initialAnalytics);
+  const [from, setFrom] = useState(initialAnalytics.from);
+  const [to, setTo] = useState(initialAnalytics.to);
+  const [platform, setPlatform] = useState<AnalyticsPlatform>(initialAnalytics.platform);
+  const [breakdown, setBreakdown] = useState<Breakdown>('platform');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = async (formEvent: React.FormEvent) => {
+    formEvent.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from, to, platform });
+      const response = await fetch(`/api/member/analytics?${params.toString()}`, { cache: 'no-store' });
+      const data = (await response.json()) as AnalyticsResponse;
+      if (!data.ok) {
+        setError(data.error);
+        return;
+      }
+      setAnalytics(data.analytics);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const dates = analytics.downloads.map((day) => day.date);
+  const downloadSeries: ChartSeries[] =
+    breakdown === 'platform'
+      ? (['apk', 'ipa'] as const)
+          .filter((key) => analytics.platform === 'all' || analytics.platform === key)
+          .map((key) => ({
+            key,
+            label: key === 'apk' ? t('dashboard.downloadsApk') : t('dashboard.downloadsIpa'),
+            color: PLATFORM_COLORS[key],
+            values: analytics.downloads.map((day) => day[key]),
+          }))
+      : NETWORK_AREA_OPTIONS.map((option) => ({
+          key: option.value,
+          label: t(option.labelKey),
+          color: AREA_COLORS[option.value],
+          values: analytics.downloads.map((day) => day.byNetworkArea[option.value]),
+        }));
+  const pointSeries: ChartSeries[] = [
+    {
+      key: 'points',
+      label: t('member.analytics.pointsSpent'),
+      color: '#f59e0b',
+      values: analytics.pointsSpent.map((day) => day.points),
+    },
+  ];
+
+  const totalDownloads = analytics.downloads.reduce((acc, day) => acc + day.total, 0);
+  const totalPoints = analytics.pointsSpent.reduce((acc, day) => acc + day.points, 0);
+  const depletion = analytics.projectedDepletionDate
+    ? new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'UTC' }).format(
+        new Date(`${analytics.projectedDepletionDate}T00:00:00Z`)
+      )
+    : null;
+  const areaLabel = (value: string) =>
+    t(NETWORK_AREA_OPTIONS.find((option) => option.value === value)?.labelKey ?? 'networkArea.global');
+
+  const cards = [
+    { key: 'downloads', label: t('member.analytics.totalDownloads'), value: totalDownloads.toLocaleString(locale) },
+    { key: 'points', label: t('member.analytics.totalPointsSpent'), value: totalPoints.toLocaleString(locale) },
+    { key: 'balance', label: t('member.analytics.balance'), value: analytics.balance.toLocaleString(locale) },
+    {
+      key: 'burn',
+      label: t('member.analytics.burnRate'),
+      value: analytics.burnRate.toLocaleString(locale, { maximumFractionDigits: 1 }),
+    },
+  ];
+
+  return (
+    <section className="space-y-4">
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">{t('member.analytics.title')}</h2>
+        <p className="mt-1 text-sm text-gray-600">{t('member.analytics.description')}</p>
+        <form className="mt-4 flex flex-wrap items-end gap-3" onSubmit={apply}>
+          <label className="flex flex-col gap-1 text-xs text-gray-600">
+            {t('member.analytics.from')}
+            <input type="date" className={inputClass} value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-600">
+            {t('member.analytics.to')}
+            <input type="date" className={inputClass} value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-600">
+            {t('member.analytics.platform')}
+            <select
+              className={inputClass}
+              value={platform}
+              onChange={(e) => setPlatform(e.target.value as AnalyticsPlatform)}
+            >
+              <option value="all">{t('member.analytics.allPlatforms')}</option>
+              <option value="apk">{t('dashboard.downloadsApk')}</option>
+              <option value="ipa">{t('dashboard.downloadsIpa')}</option>
+            </select>
+          </label>
+          <button
+            type="submit"
+            className="rounded-md bg-blue-600 px-4 py-1.5 text-sm font-medium text-white transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={loading}
+          >
+            {loading ? t('status.loading') : t('member.analytics.apply')}
+          </button>
+        </form>
+        {error ? (
+          <p className="mt-3 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {error === 'INVALID_RANGE' ? t('member.analytics.invalidRange') : t('member.analytics.error')}
+          </p>
+        ) : null}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        {cards.map((card) => (
+          <div key={card.key} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+            <div className="text-xs text-gray-500">{card.label}</div>
+            <div className="mt-1 font-mono text-xl text-gray-900">{card.value}</div>
+          </div>
+        ))}
+      </div>
+      <p
+        className={`rounded-md border px-3 py-2 text-sm ${
+          depletion ? 'border-amber-200 bg-amber-50 text-amber-800' : 'border-gray-200 bg-white text-gray-600'
+        }`}
+      >
+        {depletion
+          ? t('member.analytics.projectedDepletion').replace('{date}', depletion)
+          : t('member.analytics.noBurn')}
+      </p>
+
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold text-gray-700">{t('member.analytics.downloads')}</h3>
+          <select
+            aria-label={t('member.analytics.breakdown')}
+            className={inputClass}
+            value={breakdown}
+            onChange={(e) => setBreakdown(e.target.value as Breakdown)}
+          >
+            <option value="platform">{t('member.analytics.byPlatform')}</option>
+            <option value="networkArea">{t('member.analytics.byNetworkArea')}</option>
+          </select>
+        </div>
+        <div className="mt-3">
+          <Legend series={downloadSeries} />
+          <StackedBarChart
+            dates={dates}
+            series={downloadSeries}
+            locale={locale}
+            ariaLabel={t('member.analytics.downloads')}
+          />
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h3 className="text-sm font-semibold text-gray-700">{t('member.analytics.pointsSpent')}</h3>
+        <div className="mt-3">
+          <StackedBarChart
+            dates={dates}
+            series={pointSeries}
+            locale={locale}
+            ariaLabel={t('member.analytics.pointsSpent')}
+          />
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h3 className="text-sm font-semibold text-gray-700">{t('member.analytics.topLinks')}</h3>
+        <div className="mt-3 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-600">{t('table.code')}</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-600">{t('table.title')}</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-600">{t('member.analytics.networkArea')}</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-600">{t('dashboard.downloadsApk')}</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-600">{t('dashboard.downloadsIpa')}</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-600">{t('dashboard.downloadsTotal')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {analytics.topLinks.length ? (
+                analytics.topLinks.map((link) => (
+                  <tr key={link.id}>
+                    <td className="px-3 py-2 font-mono text-gray-700">{link.code}</td>
+                    <td className="px-3 py-2 text-gray-700">{link.title ?? '-'}</td>
+                    <td className="px-3 py-2 text-gray-600">{areaLabel(link.networkArea)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{link.apk.toLocaleString(locale)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{link.ipa.toLocaleString(locale)}</td>
+                    <td className="px-3 py-2 text-right font-semibold text-gray-900">{link.total.toLocaleString(locale)}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-gray-500">
+                    {t('member.analytics.empty')}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -3,6 +3,8 @@ import { getRequestContext } from '@cloudflare/next-on-pages';
 import { DEFAULT_LOCALE, dictionaries, type Locale } from '@/i18n/dictionary';
 import { getTranslator } from '@/i18n/helpers';
 import { fetchMemberById } from '@/lib/members';
+import type { NetworkArea } from '@/lib/network-area';
+import { fetchPriceTable, PRICING_NETWORK_AREAS, PRICING_PLATFORMS, type DownloadPrice } from '@/lib/pricing';
 
 export const runtime = 'edge';
 
@@ -33,6 +35,12 @@ const formatNumber = (value: number | null, locale: Locale) => {
   return new Intl.NumberFormat(localeHint).format(value);
 };
 
+const AREA_LABEL_KEYS: Record<NetworkArea, string> = {
+  global: 'networkArea.global',
+  CN: 'networkArea.cn',
+  RU: 'networkArea.ru',
+};
+
 const resolveRoleLabel = (role: string | null, t: (key: string) => string) => {
   if (!role) return t('member.basic.role.unknown');
   const key = `member.basic.role.${role.toLowerCase()}`;
@@ -63,7 +71,13 @@ export default async function MemberBasicPage() {
     throw new Error('D1 binding DB is missing');
   }
 
-  const member = await fetchMemberById(DB, uid);
+  const [member, prices] = await Promise.all([
+    fetchMemberById(DB, uid),
+    fetchPriceTable(DB, uid).catch((error) => {
+      console.warn('[member] unable to read pricing rules', error);
+      return [] as DownloadPrice[];
+    }),
+  ]);
   if (!member) {
     return (
       <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
@@ -72,39 +86,89 @@ export default async function MemberBasicPage() {
     );
   }
 
+  const priceCell = (area: NetworkArea, platform: DownloadPrice['platform']) => {
+    const entry = prices.find((item) => item.networkArea === area && item.platform === platform);
+    if (!entry) return '-';
+    const discount = entry.memberRule?.discountPercent;
+    return (
+      <>
+        {formatNumber(entry.price, locale)}
+        {entry.memberRule ? (
+          <span className="ml-2 text-xs font-normal text-emerald-700">
+            {discount != null
+              ? t('member.pricing.discount').replace('{percent}', String(discount))
+              : t('member.pricing.custom')}
+          </span>
+        ) : null}
+      </>
+    );
+  };
+
   return (
-    <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
-      <div>
-        <h2 className="text-lg font-semibold text-gray-900">{t('member.basic.title')}</h2>
-        <p className="mt-1 text-sm text-gray-600">{t('member.basic.description')}</p>
-      </div>
-      <dl className="mt-6 grid gap-6 sm:grid-cols-2">
-        <div>
-          <dt className="text-sm font-medium text-gray-500">{t('member.basic.email')}</dt>
-          <dd className="mt-1 text-base text-gray-900">
-            {member.email ?? t('member.basic.notAvailable')}
-          </dd>
-        </div>
-        <div>
-          <dt className="text-sm font-medium text-gray-500">{t('member.basic.role')}</dt>
-          <dd className="mt-1 text-base text-gray-900">
-            {resolveRoleLabel(member.role ?? null, t)}
-          </dd>
-        </div>
-        <div>
-          <dt className="text-sm font-medium text-gray-500">{t('member.basic.points')}</dt>
-          <dd className="mt-1 text-base font-semibold text-emerald-700">
-            {formatNumber(member.balance ?? null, locale)}
-          </dd>
-        </div>
+    <div className="space-y-6">
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
         <div>
-          <dt className="text-sm font-medium text-gray-500">{t('member.basic.createdAt')}</dt>
-          <dd className="mt-1 text-base text-gray-900">
-            {formatDateTime(member.createdAt, locale)}
-          </dd>
+          <h2 className="text-lg font-semibold text-gray-900">{t('member.basic.title')}</h2>
+          <p className="mt-1 text-sm text-gray-600">{t('member.basic.description')}</p>
         </div>
-      </dl>
-    </section>
+        <dl className="mt-6 grid gap-6 sm:grid-cols-2">
+          <div>
+            <dt className="text-sm font-medium text-gray-500">{t('member.basic.email')}</dt>
+            <dd className="mt-1 text-base text-gray-900">
+              {member.email ?? t('member.basic.notAvailable')}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">{t('member.basic.role')}</dt>
+            <dd className="mt-1 text-base text-gray-900">
+              {resolveRoleLabel(member.role ?? null, t)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">{t('member.basic.points')}</dt>
+            <dd className="mt-1 text-base font-semibold text-emerald-700">
+              {formatNumber(member.balance ?? null, locale)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">{t('member.basic.createdAt')}</dt>
+            <dd className="mt-1 text-base text-gray-900">
+              {formatDateTime(member.createdAt, locale)}
+            </dd>
+          </div>
+        </dl>
+      </section>
+      {prices.length ? (
+        <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900">{t('member.pricing.title')}</h2>
+          <p className="mt-1 text-sm text-gray-600">{t('member.pricing.description')}</p>
+          <table className="mt-4 min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.pricing.networkArea')}</th>
+                {PRICING_PLATFORMS.map((platform) => (
+                  <th key={platform} className="px-3 py-2 text-right font-semibold text-gray-700">
+                    {t(`member.pricing.${platform}`)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {PRICING_NETWORK_AREAS.map((area) => (
+                <tr key={area}>
+                  <td className="px-3 py-2 text-gray-900">{t(AREA_LABEL_KEYS[area])}</td>
+                  {PRICING_PLATFORMS.map((platform) => (
+                    <td key={platform} className="px-3 py-2 text-right font-semibold text-gray-900">
+                      {priceCell(area, platform)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+    </div>
   );
 }
 
@@ -0,0 +1,110 @@
+import Link from 'next/link';
+import { cookies } from 'next/headers';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import { DEFAULT_LOCALE, dictionaries, type Locale } from '@/i18n/dictionary';
+import { getTranslator } from '@/i18n/helpers';
+import { listUdidDevices } from '@/lib/udid';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const isLocale = (value: string | undefined): value is Locale =>
+  Boolean(value && value in dictionaries);
+
+const resolveLocale = (langCookie: string | undefined, localeCookie: string | undefined): Locale => {
+  if (isLocale(langCookie)) return langCookie;
+  if (isLocale(localeCookie)) return localeCookie;
+  return DEFAULT_LOCALE;
+};
+
+const formatDateTime = (timestamp: number | null, locale: Locale) => {
+  if (!timestamp) return '-';
+  const date = new Date(timestamp * 1000);
+  const localeHint = locale === 'zh-TW' ? 'zh-Hant' : locale;
+  return date.toLocaleString(localeHint);
+};
+
+export default async function MemberDevicesPage() {
+  const cookieStore = await cookies();
+  const uid = cookieStore.get('uid')?.value ?? null;
+  const langCookie = cookieStore.get('lang')?.value;
+  const localeCookie = cookieStore.get('locale')?.value;
+  const locale = resolveLocale(langCookie, localeCookie);
+  const t = getTranslator(locale);
+
+  if (!uid) {
+    return (
+      <section className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+        {t('member.devices.unauthenticated')}
+      </section>
+    );
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    throw new Error('D1 binding DB is missing');
+  }
+
+  const devices = await listUdidDevices(DB, uid);
+
+  if (devices.length === 0) {
+    return (
+      <section className="rounded-lg border border-gray-200 bg-white p-6 text-sm text-gray-600 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">{t('member.devices.title')}</h2>
+        <p className="mt-1 text-sm text-gray-600">{t('member.devices.description')}</p>
+        <p className="mt-4 text-sm text-gray-500">{t('member.devices.empty')}</p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{t('member.devices.title')}</h2>
+            <p className="mt-1 text-sm text-gray-600">{t('member.devices.description')}</p>
+          </div>
+          <Link
+            className="inline-flex items-center rounded-md border border-gray-200 px-3 py-1.5 text-sm text-gray-700 transition hover:border-blue-400 hover:text-blue-600"
+            href="/api/member/devices/export"
+            prefetch={false}
+          >
+            {t('member.devices.export')}
+          </Link>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">{t('member.devices.exportHint')}</p>
+        <div className="mt-6 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.devices.table.udid')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.devices.table.model')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.devices.table.osVersion')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.devices.table.link')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.devices.table.updatedAt')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {devices.map((device) => (
+                <tr key={device.id}>
+                  <td className="px-3 py-2 font-mono text-xs text-gray-700">{device.udid}</td>
+                  <td className="px-3 py-2 text-gray-700">{device.product ?? '-'}</td>
+                  <td className="px-3 py-2 text-gray-700">{device.osVersion ?? '-'}</td>
+                  <td className="px-3 py-2 font-mono text-xs text-gray-700">{device.linkCode ?? '-'}</td>
+                  <td className="px-3 py-2 text-gray-600">{formatDateTime(device.updatedAt, locale)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import { useI18n } from '@/i18n/provider';
+import { API_TOKEN_SCOPES, type ApiToken, type ApiTokenScope } from '@/lib/api-tokens';
+
+type Props = {
+  initialTokens: ApiToken[];
+};
+
+const scopeKeys: Record<ApiTokenScope, string> = {
+  'links:read': 'member.tokens.scope.linksRead',
+  'links:write': 'member.tokens.scope.linksWrite',
+  'stats:read': 'member.tokens.scope.statsRead',
+};
+
+export default function ApiTokensClient({ initialTokens }: Props) {
+  const { t, locale } = useI18n();
+  const [tokens, setTokens] = useState<ApiToken[]>(initialTokens);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['links:read', 'links:write']);
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatDateTime = (timestamp: number | null) => {
+    if (!timestamp) return t('member.tokens.never');
+    const localeHint = locale === 'zh-TW' ? 'zh-Hant' : locale;
+    return new Date(timestamp * 1000).toLocaleString(localeHint);
+  };
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((item) => item !== scope) : [...current, scope]
+    );
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !scopes.length) return;
+    setCreating(true);
+    setError(null);
+    setSecret(null);
+    setCopied(false);
+    try {
+      const response = await fetch('/api/member/tokens', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes }),
+      });
+      const data = (await response.json().catch(() => null)) as
+        | { ok?: boolean; error?: string; token?: ApiToken; secret?: string }
+        | null;
+      if (!response.ok || !data?.ok || !data.token || !data.secret) {
+        setError(data?.error ?? 'UNKNOWN_ERROR');
+        return;
+      }
+      const created = data.token;
+      setTokens((current) => [created, ...current]);
+      setSecret(data.secret);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(t('member.tokens.revokeConfirm').replace('{name}', token.name))) return;
+    setRevokingId(token.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/member/tokens/${encodeURIComponent(token.id)}`, {
+        method: 'DELETE',
+      });
+      const data = (await response.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+      if (!response.ok || !data?.ok) {
+        setError(data?.error ?? 'UNKNOWN_ERROR');
+        return;
+      }
+      setTokens((current) => current.filter((item) => item.id !== token.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!secret) return;
+    try {
+      await navigator.clipboard.writeText(secret);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">{t('member.tokens.title')}</h2>
+        <p className="mt-1 text-sm text-gray-600">{t('member.tokens.description')}</p>
+        <p className="mt-2 text-xs text-gray-500">{t('member.tokens.usageHint')}</p>
+
+        <form className="mt-6 space-y-3" onSubmit={handleCreate}>
+          <label className="block text-sm font-medium text-gray-700">
+            {t('member.tokens.name')}
+            <input
+              className="mt-1 block w-full max-w-md rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              maxLength={64}
+              placeholder={t('member.tokens.namePlaceholder')}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">{t('member.tokens.scopes')}</legend>
+            <div className="mt-1 flex flex-wrap gap-4">
+              {API_TOKEN_SCOPES.map((scope) => (
+                <label key={scope} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  <span>{t(scopeKeys[scope])}</span>
+                  <code className="text-xs text-gray-500">{scope}</code>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <button
+            type="submit"
+            className="inline-flex items-center rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={creating || !name.trim() || !scopes.length}
+          >
+            {creating ? t('member.tokens.creating') : t('member.tokens.create')}
+          </button>
+        </form>
+
+        {secret ? (
+          <div className="mt-4 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            <p className="font-medium">{t('member.tokens.secretNotice')}</p>
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <code className="break-all rounded bg-white px-2 py-1 font-mono text-xs text-gray-800">{secret}</code>
+              <button
+                type="button"
+                className="rounded-md border border-amber-300 px-2 py-1 text-xs transition hover:bg-amber-100"
+                onClick={handleCopy}
+              >
+                {copied ? t('member.tokens.copied') : t('member.tokens.copy')}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {error ? (
+          <p className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {t('member.tokens.error').replace('{error}', error)}
+          </p>
+        ) : null}
+
+        {tokens.length === 0 ? (
+          <p className="mt-6 text-sm text-gray-500">{t('member.tokens.empty')}</p>
+        ) : (
+          <div className="mt-6 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.tokens.table.name')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.tokens.table.prefix')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.tokens.table.scopes')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.tokens.table.createdAt')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.tokens.table.lastUsedAt')}</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {tokens.map((token) => (
+                  <tr key={token.id}>
+                    <td className="px-3 py-2 text-gray-700">{token.name}</td>
+                    <td className="px-3 py-2 font-mono text-xs text-gray-700">{token.prefix}…</td>
+                    <td className="px-3 py-2 font-mono text-xs text-gray-700">{token.scopes.join(', ')}</td>
+                    <td className="px-3 py-2 text-gray-600">{formatDateTime(token.createdAt)}</td>
+                    <td className="px-3 py-2 text-gray-600">{formatDateTime(token.lastUsedAt)}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        className="rounded-md border border-red-200 px-2 py-1 text-xs text-red-600 transition hover:bg-red-50 disabled:opacity-60"
+                        disabled={revokingId === token.id}
+                        onClick={() => handleRevoke(token)}
+                      >
+                        {t('member.tokens.revoke')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
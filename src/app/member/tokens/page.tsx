@@ -0,0 +1,49 @@
+import { cookies } from 'next/headers';
+import { getRequestContext } from '@cloudflare/next-on-pages';
+import ApiTokensClient from './ApiTokensClient';
+import { DEFAULT_LOCALE, dictionaries, type Locale } from '@/i18n/dictionary';
+import { getTranslator } from '@/i18n/helpers';
+import { listApiTokens } from '@/lib/api-tokens';
+
+export const runtime = 'edge';
+
+type Env = {
+  DB?: D1Database;
+  ['rudl-app']?: D1Database;
+};
+
+const isLocale = (value: string | undefined): value is Locale =>
+  Boolean(value && value in dictionaries);
+
+const resolveLocale = (langCookie: string | undefined, localeCookie: string | undefined): Locale => {
+  if (isLocale(langCookie)) return langCookie;
+  if (isLocale(localeCookie)) return localeCookie;
+  return DEFAULT_LOCALE;
+};
+
+export default async function MemberTokensPage() {
+  const cookieStore = await cookies();
+  const uid = cookieStore.get('uid')?.value ?? null;
+  const langCookie = cookieStore.get('lang')?.value;
+  const localeCookie = cookieStore.get('locale')?.value;
+  const locale = resolveLocale(langCookie, localeCookie);
+  const t = getTranslator(locale);
+
+  if (!uid) {
+    return (
+      <section className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+        {t('member.tokens.unauthenticated')}
+      </section>
+    );
+  }
+
+  const { env } = getRequestContext();
+  const bindings = env as Env;
+  const DB = bindings.DB ?? bindings['rudl-app'];
+  if (!DB) {
+    throw new Error('D1 binding DB is missing');
+  }
+
+  const tokens = await listApiTokens(DB, uid);
+  return <ApiTokensClient initialTokens={tokens} />;
+}
@@ -0,0 +1,329 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { useI18n } from '@/i18n/provider';
+import {
+  DEFAULT_BALANCE_THRESHOLD,
+  WEBHOOK_EVENTS,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEndpoint,
+  type WebhookEvent,
+} from '@/lib/webhooks';
+
+type Props = {
+  initialEndpoints: WebhookEndpoint[];
+  initialDeliveries: WebhookDelivery[];
+};
+
+const statusClasses: Record<WebhookDeliveryStatus, string> = {
+  succeeded: 'bg-green-50 text-green-700',
+  pending: 'bg-amber-50 text-amber-700',
+  failed: 'bg-red-50 text-red-700',
+};
+
+export default function WebhooksClient({ initialEndpoints, initialDeliveries }: Props) {
+  const { t, locale } = useI18n();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>(initialEndpoints);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>(initialDeliveries);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+  const [threshold, setThreshold] = useState(String(DEFAULT_BALANCE_THRESHOLD));
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const endpointUrls = useMemo(
+    () => new Map(endpoints.map((endpoint) => [endpoint.id, endpoint.url])),
+    [endpoints]
+  );
+
+  const formatDateTime = (timestamp: number | null) => {
+    if (!timestamp) return '-';
+    const localeHint = locale === 'zh-TW' ? 'zh-Hant' : locale;
+    return new Date(timestamp * 1000).toLocaleString(localeHint);
+  };
+
+  const request = async (input: string, init?: RequestInit) => {
+    const response = await fetch(input, init);
+    const data = (await response.json().catch(() => null)) as
+      | ({ ok?: boolean; error?: string } & Record<string, unknown>)
+      | null;
+    if (!response.ok || !data?.ok) {
+      throw new Error(data?.error ?? 'UNKNOWN_ERROR');
+    }
+    return data;
+  };
+
+  const refreshDeliveries = useCallback(async () => {
+    try {
+      const data = await request('/api/member/webhooks/deliveries');
+      setDeliveries((data.deliveries as WebhookDelivery[]) ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((current) =>
+      current.includes(event) ? current.filter((item) => item !== event) : [...current, event]
+    );
+  };
+
+  const handleCreate = async (formEvent: React.FormEvent) => {
+    formEvent.preventDefault();
+    if (!url.trim() || !events.length) return;
+    setCreating(true);
+    setError(null);
+    setSecret(null);
+    try {
+      const data = await request('/api/member/webhooks', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          url: url.trim(),
+          events,
+          balanceThreshold: events.includes('balance.low') ? threshold : undefined,
+        }),
+      });
+      const created = data.endpoint as WebhookEndpoint;
+      setEndpoints((current) => [created, ...current]);
+      setSecret(data.secret as string);
+      setUrl('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggle = async (endpoint: WebhookEndpoint) => {
+    setBusyId(endpoint.id);
+    setError(null);
+    try {
+      await request(`/api/member/webhooks/${encodeURIComponent(endpoint.id)}`, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ isActive: !endpoint.isActive }),
+      });
+      setEndpoints((current) =>
+        current.map((item) => (item.id === endpoint.id ? { ...item, isActive: !item.isActive } : item))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(t('member.webhooks.deleteConfirm').replace('{url}', endpoint.url))) return;
+    setBusyId(endpoint.id);
+    setError(null);
+    try {
+      await request(`/api/member/webhooks/${encodeURIComponent(endpoint.id)}`, { method: 'DELETE' });
+      setEndpoints((current) => current.filter((item) => item.id !== endpoint.id));
+      setDeliveries((current) => current.filter((item) => item.endpointId !== endpoint.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setBusyId(delivery.id);
+    setError(null);
+    try {
+      await request(`/api/member/webhooks/deliveries/${encodeURIComponent(delivery.id)}/redeliver`, {
+        method: 'POST',
+      });
+      await refreshDeliveries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">{t('member.webhooks.title')}</h2>
+        <p className="mt-1 text-sm text-gray-600">{t('member.webhooks.description')}</p>
+        <p className="mt-2 text-xs text-gray-500">{t('member.webhooks.signatureHint')}</p>
+
+        <form className="mt-6 space-y-3" onSubmit={handleCreate}>
+          <label className="block text-sm font-medium text-gray-700">
+            {t('member.webhooks.url')}
+            <input
+              className="mt-1 block w-full max-w-xl rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              type="url"
+              placeholder="https://example.com/hooks/rudl"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+            />
+          </label>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">{t('member.webhooks.events')}</legend>
+            <div className="mt-1 flex flex-wrap gap-4">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label key={event} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+                  <code className="text-xs">{event}</code>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          {events.includes('balance.low') ? (
+            <label className="block text-sm font-medium text-gray-700">
+              {t('member.webhooks.balanceThreshold')}
+              <input
+                className="mt-1 block w-40 rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+                type="number"
+                min={0}
+                step={1}
+                value={threshold}
+                onChange={(event) => setThreshold(event.target.value)}
+              />
+            </label>
+          ) : null}
+          <button
+            type="submit"
+            className="inline-flex items-center rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={creating || !url.trim() || !events.length}
+          >
+            {creating ? t('member.webhooks.creating') : t('member.webhooks.create')}
+          </button>
+        </form>
+
+        {secret ? (
+          <div className="mt-4 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            <p className="font-medium">{t('member.webhooks.secretNotice')}</p>
+            <code className="mt-2 block break-all rounded bg-white px-2 py-1 font-mono text-xs text-gray-800">{secret}</code>
+          </div>
+        ) : null}
+
+        {error ? (
+          <p className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {t('member.webhooks.error').replace('{error}', error)}
+          </p>
+        ) : null}
+
+        {endpoints.length === 0 ? (
+          <p className="mt-6 text-sm text-gray-500">{t('member.webhooks.empty')}</p>
+        ) : (
+          <ul className="mt-6 divide-y divide-gray-100 rounded-md border border-gray-200">
+            {endpoints.map((endpoint) => (
+              <li key={endpoint.id} className="flex flex-wrap items-start justify-between gap-3 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="break-all font-mono text-xs text-gray-800">{endpoint.url}</p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {endpoint.events.join(', ')}
+                    {endpoint.events.includes('balance.low')
+                      ? ` · ${t('member.webhooks.thresholdValue').replace('{value}', String(endpoint.balanceThreshold))}`
+                      : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`rounded px-2 py-0.5 text-xs ${
+                      endpoint.isActive ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {endpoint.isActive ? t('member.webhooks.active') : t('member.webhooks.paused')}
+                  </span>
+                  <button
+                    type="button"
+                    className="rounded-md border border-gray-200 px-2 py-1 text-xs text-gray-700 transition hover:border-blue-400 hover:text-blue-600 disabled:opacity-60"
+                    disabled={busyId === endpoint.id}
+                    onClick={() => handleToggle(endpoint)}
+                  >
+                    {endpoint.isActive ? t('member.webhooks.pause') : t('member.webhooks.resume')}
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded-md border border-red-200 px-2 py-1 text-xs text-red-600 transition hover:bg-red-50 disabled:opacity-60"
+                    disabled={busyId === endpoint.id}
+                    onClick={() => handleDelete(endpoint)}
+                  >
+                    {t('member.webhooks.delete')}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-base font-semibold text-gray-900">{t('member.webhooks.deliveries')}</h3>
+          <button
+            type="button"
+            className="rounded-md border border-gray-200 px-3 py-1.5 text-sm text-gray-700 transition hover:border-blue-400 hover:text-blue-600"
+            onClick={refreshDeliveries}
+          >
+            {t('member.webhooks.refresh')}
+          </button>
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500">{t('member.webhooks.deliveriesEmpty')}</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.webhooks.table.createdAt')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.webhooks.table.event')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.webhooks.table.endpoint')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.webhooks.table.status')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.webhooks.table.attempts')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">{t('member.webhooks.table.response')}</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id}>
+                    <td className="px-3 py-2 text-gray-600">{formatDateTime(delivery.createdAt)}</td>
+                    <td className="px-3 py-2 font-mono text-xs text-gray-700">{delivery.event}</td>
+                    <td className="max-w-xs truncate px-3 py-2 font-mono text-xs text-gray-600">
+                      {endpointUrls.get(delivery.endpointId) ?? '-'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded px-2 py-0.5 text-xs ${statusClasses[delivery.status]}`}>
+                        {t(`member.webhooks.status.${delivery.status}`)}
+                      </span>
+                      {delivery.status === 'pending' && delivery.nextAttemptAt ? (
+                        <span className="ml-2 text-xs text-gray-500">
+                          {t('member.webhooks.nextAttempt').replace('{time}', formatDateTime(delivery.nextAttemptAt))}
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">{delivery.attempts}</td>
+                    <td className="px-3 py-2 text-xs text-gray-600">
+                      {delivery.responseStatus ?? '-'}
+                      {delivery.error && delivery.error !== `HTTP_${delivery.responseStatus}` ? ` · ${delivery.error}` : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        className="rounded-md border border-gray-200 px-2 py-1 text-xs text-gray-700 transition hover:border-blue-400 hover:text-blue-600 disabled:opacity-60"
+                        disabled={busyId === delivery.id || !endpointUrls.has(delivery.endpointId)}
+                        onClick={() => handleRedeliver(delivery)}
+                      >
+                        {t('member.webhooks.redeliver')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
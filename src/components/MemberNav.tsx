@@ -17,6 +17,10 @@ export default function MemberNav() {
   const localePrefix = localeSegment ? `/${localeSegment}` : '';
   const memberHome = `${localePrefix}/member`;
   const historyPath = `${memberHome}/orders/history`;
+  const devicesPath = `${memberHome}/devices`;
+  const tokensPath = `${memberHome}/tokens`;
+  const webhooksPath = `${memberHome}/webhooks`;
+  const analyticsPath = `${memberHome}/analytics`;
 
   const [ordersOpen, setOrdersOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement | null>(null);
@@ -91,6 +95,18 @@ export default function MemberNav() {
           </div>
         ) : null}
       </div>
+      <Link className={linkClass(devicesPath)} href={devicesPath}>
+        {t('member.nav.devices')}
+      </Link>
+      <Link className={linkClass(tokensPath)} href={tokensPath}>
+        {t('member.nav.tokens')}
+      </Link>
+      <Link className={linkClass(webhooksPath)} href={webhooksPath}>
+        {t('member.nav.webhooks')}
+      </Link>
+      <Link className={linkClass(analyticsPath)} href={analyticsPath}>
+        {t('member.nav.analytics')}
+      </Link>
     </nav>
   );
 }
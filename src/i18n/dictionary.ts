@@ -38,7 +38,45 @@ const en: Dict = {
   'dashboard.autofill': 'Autofill from package metadata',
   'dashboard.networkAreaLabel': 'Network area',
   'dashboard.progressPlaceholder': 'Upload progress will appear here.',
+  'dashboard.progressParts': '{completed}/{total} parts uploaded',
+  'dashboard.progressResumed': 'resumed from a previous attempt',
   'dashboard.toggleActive': 'Distribution status',
+  'dashboard.accessPasswordLabel': 'Download page password',
+  'dashboard.accessPasswordPlaceholder': 'Leave blank for a public download page',
+  'dashboard.accessPasswordKeep': 'Leave blank to keep the current password',
+  'dashboard.accessPasswordHint': 'Visitors must enter this password before the download buttons appear.',
+  'dashboard.accessPasswordRemove': 'Remove password',
+  'dashboard.customCodeLabel': 'Custom link code',
+  'dashboard.customCodePlaceholder': 'Leave blank for a random code',
+  'dashboard.customCodeHint': '3-32 lowercase letters, digits, - or _. Leave blank to generate one.',
+  'dashboard.customCodeRenameHint': 'Changing the code moves the link; the old code keeps redirecting to it.',
+  'dashboard.customCodeChecking': 'Checking availability...',
+  'dashboard.customCodeAvailable': 'This code is available.',
+  'dashboard.errorCodeInvalid': 'Codes must be 3-32 lowercase letters, digits, - or _, starting and ending with a letter or digit.',
+  'dashboard.errorCodeReserved': 'This code is reserved. Please choose another one.',
+  'dashboard.errorCodeTaken': 'This code is already in use.',
+  'dashboard.expiresAtLabel': 'Expires at',
+  'dashboard.maxDownloadsLabel': 'Max downloads (total)',
+  'dashboard.maxApkDownloadsLabel': 'Max APK downloads',
+  'dashboard.maxIpaDownloadsLabel': 'Max IPA downloads',
+  'dashboard.limitUnlimited': 'Unlimited',
+  'dashboard.limitsHint': 'After the expiry date or once a cap is reached, the download page stops offering the build. Leave blank for no limit.',
+  'dashboard.errorInvalidLimits': 'Download limits must be whole numbers greater than zero.',
+  'dashboard.publishAtLabel': 'Go live at',
+  'dashboard.unpublishAtLabel': 'Turn off at',
+  'dashboard.scheduleTimezoneLabel': 'Time zone',
+  'dashboard.scheduleHint': 'The link stays inactive until the go-live time and switches off at the turn-off time. Changes apply within about 10 minutes; leave blank for no schedule.',
+  'dashboard.errorInvalidSchedule': 'The turn-off time must be later than the go-live time.',
+  'dashboard.downloadsRemaining': 'Remaining',
+  'dashboard.linkExpired': 'Expired',
+  'dashboard.linkExpiresAt': 'Expires {date}',
+  'dashboard.linkPublishesAt': 'Goes live {date}',
+  'dashboard.linkUnpublishesAt': 'Turns off {date}',
+  'dashboard.activeScheduled': 'Scheduled',
+  'dashboard.lowIosConversion': 'Low iOS conversion',
+  'dashboard.lowIosConversionHint': 'iOS visitors rarely finish downloading this link compared with Android (or under 15% when there is no Android traffic). Check that the signing certificate and provisioning profile are still valid.',
+  'dashboard.exportStats': 'Export downloads',
+  'dashboard.exportStatsHint': 'Daily downloads of all your links over the last 30 days, as one CSV or Excel file.',
   'dashboard.activeOn': 'Active',
   'dashboard.activeOff': 'Inactive',
   'dashboard.toastCreated': 'Distribution created successfully.',
@@ -51,9 +89,14 @@ const en: Dict = {
   'networkArea.ru': 'Russia region',
   'dashboard.errorNoFiles': 'Please upload at least one package.',
   'dashboard.errorAutofillMismatch': 'Autofill failed: APK and IPA bundle identifiers do not match.',
+  'dashboard.errorMetadataMismatch': 'The uploaded file does not match the submitted details ({fields}). Please select the file again.',
+  'dashboard.errorInvalidPackage': 'The uploaded file could not be read. Make sure it is a valid APK or IPA.',
   'dashboard.actionEdit': 'Edit',
   'dashboard.actionDelete': 'Delete',
   'dashboard.copyLink': 'Copy',
+  'dashboard.shareCard': 'Share card',
+  'dashboard.shareCardCaption': 'Scan the QR code to install',
+  'dashboard.toastShareCardFailed': 'Could not create the share card. Please try again.',
   'dashboard.downloadsToday': 'Today',
   'dashboard.downloadsTotal': 'Total',
   'dashboard.downloadsApk': 'APK',
@@ -70,17 +113,91 @@ const en: Dict = {
   'dashboard.linkInfo.frequency.hour': 'Per hour',
   'dashboard.linkInfo.platforms': 'Platforms',
   'dashboard.linkInfo.apply': 'Apply filters',
+  'dashboard.linkInfo.export': 'Export',
   'dashboard.linkInfo.noData': 'No downloads recorded in this range.',
   'dashboard.linkInfo.error': 'Unable to load download stats.',
   'dashboard.linkInfo.rangeTooLarge': 'The selected range is too large. Please narrow it down.',
+  'dashboard.linkInfo.hourlyRangeUnavailable': 'Hourly stats only cover the last {days} days. Move the start time forward or switch to a daily view.',
   'dashboard.linkInfo.totalDownloads': 'Downloads in range',
   'dashboard.linkInfo.table.time': 'Timestamp',
   'dashboard.linkInfo.table.selected': '{count} data points selected',
+  'dashboard.linkInfo.events.title': 'Download events',
+  'dashboard.linkInfo.events.hint': 'Each download in the selected range, newest first. Visitors are shown as a short hash of their IP; old events are removed automatically.',
+  'dashboard.linkInfo.events.allPlatforms': 'All platforms',
+  'dashboard.linkInfo.events.allDevices': 'All devices',
+  'dashboard.linkInfo.events.countryPlaceholder': 'Country, e.g. TW',
+  'dashboard.linkInfo.events.device.mobile': 'Phone',
+  'dashboard.linkInfo.events.device.tablet': 'Tablet',
+  'dashboard.linkInfo.events.device.desktop': 'Desktop',
+  'dashboard.linkInfo.events.device.other': 'Other',
+  'dashboard.linkInfo.events.table.time': 'Time',
+  'dashboard.linkInfo.events.table.platform': 'Platform',
+  'dashboard.linkInfo.events.table.version': 'Version',
+  'dashboard.linkInfo.events.table.country': 'Country',
+  'dashboard.linkInfo.events.table.device': 'Device',
+  'dashboard.linkInfo.events.table.referrer': 'Referrer',
+  'dashboard.linkInfo.events.table.visitor': 'Visitor',
+  'dashboard.linkInfo.events.empty': 'No download events in this range.',
+  'dashboard.linkInfo.events.error': 'Unable to load download events.',
+  'dashboard.linkInfo.events.total': '{count} events',
+  'dashboard.linkInfo.funnel.title': 'Download page funnel',
+  'dashboard.linkInfo.funnel.hint': 'Page views by the visitor\'s device, button clicks and completed downloads for the selected days (UTC).',
+  'dashboard.linkInfo.funnel.regionalHint': 'CN/RU download pages are served by the regional server and do not report views or clicks, so only downloads are shown.',
+  'dashboard.linkInfo.funnel.views': 'Page views',
+  'dashboard.linkInfo.funnel.clicks': 'Button clicks',
+  'dashboard.linkInfo.funnel.guides': 'Trust guide shown',
+  'dashboard.linkInfo.funnel.downloads': 'Downloads',
+  'dashboard.linkInfo.funnel.conversion': 'Conversion',
+  'dashboard.linkInfo.funnel.otherViews': '{count} views from desktops and other devices.',
+  'dashboard.linkInfo.funnel.error': 'Unable to load the download funnel.',
+  'dashboard.linkInfo.filtered.title': 'Filtered (not billed)',
+  'dashboard.linkInfo.filtered.bot': 'Bots',
+  'dashboard.linkInfo.filtered.prefetch': 'Prefetches',
+  'dashboard.linkInfo.filtered.duplicate': 'Repeats',
+  'dashboard.linkInfo.filtered.rate_limited': 'Rate limited',
+  'dashboard.linkInfo.filtered.hint': 'Crawlers, link previews, HEAD/prefetch requests and repeat hits from the same visitor still get the file, but are not counted as downloads and cost no points.',
+  'dashboard.linkInfo.countries.title': 'Downloads by country',
+  'dashboard.linkInfo.countries.hint': 'Logged downloads in the selected range by the visitor\'s country (from Cloudflare or the CN/RU server). Downloads from before download logging started are not included.',
+  'dashboard.linkInfo.countries.map': 'Map of downloads by country',
+  'dashboard.linkInfo.countries.country': 'Country',
+  'dashboard.linkInfo.countries.share': 'Share',
+  'dashboard.linkInfo.countries.unknown': 'Unknown',
+  'dashboard.linkInfo.countries.areasTitle': 'By network area',
+  'dashboard.linkInfo.countries.areasHint': 'All of your links in the same range, grouped by network area, to compare where each area\'s downloads come from.',
+  'dashboard.linkInfo.countries.networkArea': 'Network area',
+  'dashboard.linkInfo.countries.links': 'Links',
+  'dashboard.linkInfo.countries.topCountries': 'Top countries',
+  'dashboard.linkInfo.countries.thisLink': 'this link',
   'dashboard.confirmDeleteTitle': 'Delete distribution',
   'dashboard.confirmDeleteMessage': 'This will permanently remove {code} and its files.',
   'dashboard.confirmDelete': 'Delete',
   'dashboard.cancelDelete': 'Cancel',
   'dashboard.viewOnly': 'View only',
+  'dashboard.actionReleases': 'Releases',
+  'dashboard.releases.title': 'Release history',
+  'dashboard.releases.description': 'Every uploaded build is kept here. Promote an older release to roll the link back without changing its code.',
+  'dashboard.releases.empty': 'No releases uploaded yet.',
+  'dashboard.releases.error': 'Unable to update releases',
+  'dashboard.releases.current': 'Current',
+  'dashboard.releases.promote': 'Promote',
+  'dashboard.releases.toastPromoted': 'Release promoted. The link now serves the selected build.',
+  'dashboard.releases.table.release': 'Release',
+  'dashboard.releases.table.version': 'Version',
+  'dashboard.releases.table.build': 'Build',
+  'dashboard.releases.table.size': 'Size',
+  'dashboard.releases.table.notes': 'Notes',
+  'dashboard.releases.table.uploadedBy': 'Uploaded by',
+  'dashboard.releases.table.uploadedAt': 'Uploaded at',
+  'dashboard.signing.team': 'Team',
+  'dashboard.signing.type.adHoc': 'Ad hoc',
+  'dashboard.signing.type.enterprise': 'Enterprise',
+  'dashboard.signing.type.development': 'Development',
+  'dashboard.signing.type.appStore': 'App Store',
+  'dashboard.signing.expires': 'Expires {date}',
+  'dashboard.signing.expired': 'Profile expired',
+  'dashboard.signing.expiring': 'Expires in {days} days',
+  'dashboard.signing.devices': '{count} devices',
+  'dashboard.signing.entitlements': 'Entitlements',
   'env.adapter': 'Adapter: @cloudflare/next-on-pages',
   'env.check': 'Environment checks',
   'env.d1Binding': 'D1 binding: ',
@@ -193,6 +310,45 @@ const en: Dict = {
   'admin.nav.members': 'Members',
   'admin.nav.links': 'Distributions',
   'admin.nav.orders': 'Order management',
+  'admin.nav.pricing': 'Pricing',
+  'admin.pricing.title': 'Download pricing',
+  'admin.pricing.description': 'Points charged per download, by platform and network area.',
+  'admin.pricing.current': 'Current prices',
+  'admin.pricing.currentHint': 'What a download costs members without their own rule.',
+  'admin.pricing.builtIn': 'built-in',
+  'admin.pricing.sinceStart': 'From the start',
+  'admin.pricing.add': 'Add a rule',
+  'admin.pricing.addHint': 'Leave the member empty to change the price for everyone. A member rule sets that member\'s price or a discount on the base price, for one platform and area or for all of them.',
+  'admin.pricing.member': 'Member (email or ID)',
+  'admin.pricing.memberPlaceholder': 'Empty for everyone',
+  'admin.pricing.platform': 'Platform',
+  'admin.pricing.platform.apk': 'Android (APK)',
+  'admin.pricing.platform.ipa': 'iOS (IPA)',
+  'admin.pricing.allPlatforms': 'All platforms',
+  'admin.pricing.networkArea': 'Network area',
+  'admin.pricing.allAreas': 'All areas',
+  'admin.pricing.kind': 'Type',
+  'admin.pricing.kind.price': 'Fixed price',
+  'admin.pricing.kind.discount': 'Discount',
+  'admin.pricing.price': 'Points per download',
+  'admin.pricing.discount': 'Discount (%)',
+  'admin.pricing.discountValue': '{percent}% off',
+  'admin.pricing.effectiveFrom': 'Effective from',
+  'admin.pricing.effectiveFromHint': 'Leave empty to apply it now.',
+  'admin.pricing.note': 'Note',
+  'admin.pricing.submit': 'Add rule',
+  'admin.pricing.rules': 'Rules',
+  'admin.pricing.empty': 'No pricing rules yet.',
+  'admin.pricing.scope': 'Applies to',
+  'admin.pricing.everyone': 'Everyone',
+  'admin.pricing.value': 'Price',
+  'admin.pricing.status': 'Status',
+  'admin.pricing.status.active': 'Active',
+  'admin.pricing.status.scheduled': 'Scheduled',
+  'admin.pricing.status.superseded': 'Superseded',
+  'admin.pricing.delete': 'Delete',
+  'admin.pricing.deleteConfirm': 'Delete this rule? The previous rule for the same prices applies again.',
+  'admin.pricing.error': 'Unable to save the pricing rule.',
   'admin.login.title': 'Admin login',
   'admin.login.subtitle': 'Only administrator accounts may access this area.',
   'admin.login.error': 'This account does not have administrator access.',
@@ -212,6 +368,103 @@ const en: Dict = {
   'member.nav.basic': 'Basic info',
   'member.nav.orders': 'Order management',
   'member.nav.orders.history': 'Order history',
+  'member.nav.devices': 'Devices',
+  'member.nav.tokens': 'API tokens',
+  'member.nav.webhooks': 'Webhooks',
+  'member.nav.analytics': 'Analytics',
+  'member.analytics.title': 'Analytics',
+  'member.analytics.description': 'Downloads and point usage across all of your links, by UTC day.',
+  'member.analytics.unauthenticated': 'Please sign in to view analytics.',
+  'member.analytics.from': 'From',
+  'member.analytics.to': 'To',
+  'member.analytics.platform': 'Platform',
+  'member.analytics.allPlatforms': 'All platforms',
+  'member.analytics.apply': 'Apply',
+  'member.analytics.invalidRange': 'Pick a valid range of at most 366 days.',
+  'member.analytics.error': 'Unable to load analytics.',
+  'member.analytics.totalDownloads': 'Downloads',
+  'member.analytics.totalPointsSpent': 'Points spent',
+  'member.analytics.balance': 'Current balance',
+  'member.analytics.burnRate': 'Points per day (last 7 days)',
+  'member.analytics.projectedDepletion': 'At the current rate your balance runs out around {date}.',
+  'member.analytics.noBurn': 'No points were spent in the last 7 days.',
+  'member.analytics.downloads': 'Downloads per day',
+  'member.analytics.breakdown': 'Breakdown',
+  'member.analytics.byPlatform': 'By platform',
+  'member.analytics.byNetworkArea': 'By network area',
+  'member.analytics.pointsSpent': 'Points spent per day',
+  'member.analytics.topLinks': 'Top links',
+  'member.analytics.networkArea': 'Network area',
+  'member.analytics.empty': 'No downloads in this range.',
+  'member.devices.title': 'Tester devices',
+  'member.devices.description': 'UDIDs collected from testers through the "Get my UDID" button on your download pages.',
+  'member.devices.empty': 'No devices have been collected yet.',
+  'member.devices.unauthenticated': 'Please sign in to view your devices.',
+  'member.devices.export': 'Export for Apple',
+  'member.devices.exportHint': 'The file can be uploaded in the Apple Developer portal under Devices → Register Multiple Devices.',
+  'member.devices.table.udid': 'UDID',
+  'member.devices.table.model': 'Model',
+  'member.devices.table.osVersion': 'iOS version',
+  'member.devices.table.link': 'Link',
+  'member.devices.table.updatedAt': 'Last seen',
+  'member.tokens.title': 'API tokens',
+  'member.tokens.description': 'Personal access tokens let CI pipelines upload builds and read stats for your account.',
+  'member.tokens.usageHint': 'Send a token as "Authorization: Bearer <token>" to the /api/v1 endpoints. Anyone with a token can act within its scopes, so keep it in your CI secrets.',
+  'member.tokens.unauthenticated': 'Please sign in to manage API tokens.',
+  'member.tokens.name': 'Name',
+  'member.tokens.namePlaceholder': 'e.g. GitHub Actions release',
+  'member.tokens.scopes': 'Scopes',
+  'member.tokens.scope.linksRead': 'Read links',
+  'member.tokens.scope.linksWrite': 'Upload and publish',
+  'member.tokens.scope.statsRead': 'Read stats',
+  'member.tokens.create': 'Create token',
+  'member.tokens.creating': 'Creating…',
+  'member.tokens.secretNotice': 'Copy this token now. It won\'t be shown again.',
+  'member.tokens.copy': 'Copy',
+  'member.tokens.copied': 'Copied',
+  'member.tokens.revoke': 'Revoke',
+  'member.tokens.revokeConfirm': 'Revoke "{name}"? Pipelines using it will stop working.',
+  'member.tokens.error': 'Something went wrong: {error}',
+  'member.tokens.empty': 'No tokens yet.',
+  'member.tokens.never': 'Never',
+  'member.tokens.table.name': 'Name',
+  'member.tokens.table.prefix': 'Token',
+  'member.tokens.table.scopes': 'Scopes',
+  'member.tokens.table.createdAt': 'Created',
+  'member.tokens.table.lastUsedAt': 'Last used',
+  'member.webhooks.title': 'Webhooks',
+  'member.webhooks.description': 'Get an HTTPS callback when links change, downloads are recorded, orders are settled or your balance runs low.',
+  'member.webhooks.signatureHint': 'Each request is signed with your endpoint secret: the x-rudl-signature header is "t=<unix time>,v1=<hex HMAC-SHA256 of "<t>.<body>">". Use the idempotency-key header to ignore duplicates.',
+  'member.webhooks.unauthenticated': 'Please sign in to manage webhooks.',
+  'member.webhooks.url': 'Endpoint URL',
+  'member.webhooks.events': 'Events',
+  'member.webhooks.balanceThreshold': 'Balance alert threshold (points)',
+  'member.webhooks.thresholdValue': 'alert below {value} points',
+  'member.webhooks.create': 'Add endpoint',
+  'member.webhooks.creating': 'Adding…',
+  'member.webhooks.secretNotice': 'Copy this signing secret now. It won\'t be shown again.',
+  'member.webhooks.error': 'Something went wrong: {error}',
+  'member.webhooks.empty': 'No endpoints yet.',
+  'member.webhooks.active': 'Active',
+  'member.webhooks.paused': 'Paused',
+  'member.webhooks.pause': 'Pause',
+  'member.webhooks.resume': 'Resume',
+  'member.webhooks.delete': 'Delete',
+  'member.webhooks.deleteConfirm': 'Delete the endpoint {url}? Pending retries will be dropped.',
+  'member.webhooks.deliveries': 'Recent deliveries',
+  'member.webhooks.deliveriesEmpty': 'No deliveries yet.',
+  'member.webhooks.refresh': 'Refresh',
+  'member.webhooks.redeliver': 'Redeliver',
+  'member.webhooks.nextAttempt': 'next try {time}',
+  'member.webhooks.status.pending': 'Retrying',
+  'member.webhooks.status.succeeded': 'Delivered',
+  'member.webhooks.status.failed': 'Failed',
+  'member.webhooks.table.createdAt': 'Time',
+  'member.webhooks.table.event': 'Event',
+  'member.webhooks.table.endpoint': 'Endpoint',
+  'member.webhooks.table.status': 'Status',
+  'member.webhooks.table.attempts': 'Attempts',
+  'member.webhooks.table.response': 'Response',
   'member.basic.title': 'Basic information',
   'member.basic.description': 'Here is a summary of your account.',
   'member.basic.email': 'Account (email)',
@@ -227,6 +480,13 @@ const en: Dict = {
   'member.basic.emailVerification.verified': 'Verified',
   'member.basic.emailVerification.pending': 'Not verified yet',
   'member.basic.emailVerification.cta': 'Verify now',
+  'member.pricing.title': 'Download prices',
+  'member.pricing.description': 'Points charged to your balance for each download of your links.',
+  'member.pricing.networkArea': 'Network area',
+  'member.pricing.apk': 'Android (APK)',
+  'member.pricing.ipa': 'iOS (IPA)',
+  'member.pricing.discount': '{percent}% off',
+  'member.pricing.custom': 'Custom price',
   'member.emailVerification.title': 'Email verification',
   'member.emailVerification.description': 'Send yourself a verification email to confirm ownership of this address.',
   'member.emailVerification.emailLabel': 'Registered email',
@@ -405,6 +665,12 @@ const en: Dict = {
   'form.clearOverride': 'Clear selection',
   'form.currentVersion': 'Current version',
   'form.currentSize': 'Current size',
+  'form.releaseNotes': 'Release notes',
+  'form.releaseNotesPlaceholder': 'What changed in this build (optional)',
+  'form.linkReleaseNotes': 'Link release notes',
+  'form.linkReleaseNotesPlaceholder': 'Shown on the download page above the per-build notes (optional)',
+  'form.releaseNotesLanguage': 'Notes language',
+  'form.releaseNotesHint': 'Supports basic Markdown: # headings, - lists, **bold**, *italic*, `code` and [links](https://…). Notes are written per language; visitors see theirs or the link language.',
   'form.cancel': 'Cancel',
   'form.update': 'Update',
   'form.submit': 'Submit',
@@ -444,9 +710,36 @@ const en: Dict = {
   'downloadPage.detected': 'Detected iOS',
   'downloadPage.language': 'Language',
   'downloadPage.alertSafari': 'Please use Safari to install this iOS app.',
-  'downloadPage.alertPoints': 'Insufficient points. Please recharge.',
-  'downloadPage.alertCheckFailed': 'Download check failed. Please retry later.',
-  'downloadPage.alertNetworkError': 'Network error. Please retry later.',
+  'downloadPage.udidButton': 'Get my UDID',
+  'downloadPage.udidHint': 'Testing an ad-hoc build? Tap "Get my UDID" in Safari and install the profile to send your device ID to the developer.',
+  'downloadPage.udidProfileName': '{title} device registration',
+  'downloadPage.udidProfileDescription': 'Shares this device\'s UDID, model and iOS version with the developer of {title} so it can be added to test builds. Nothing is installed on the device.',
+  'downloadPage.udidTitle': 'Your device UDID',
+  'downloadPage.udidCopy': 'Copy UDID',
+  'downloadPage.udidModel': 'Model',
+  'downloadPage.udidOsVersion': 'iOS version',
+  'downloadPage.udidStatus': 'Current build',
+  'downloadPage.udidInProfile': 'This device is already included in the current build.',
+  'downloadPage.udidNotInProfile': 'This device is not in the current build yet. The developer has received your UDID and needs to publish a new build.',
+  'downloadPage.udidUnknown': 'The current build does not list devices, so it could not be checked.',
+  'downloadPage.udidInvalid': 'Could not read the device UDID. Please install the profile again from Safari.',
+  'downloadPage.udidBack': 'Back to download page',
+  'downloadPage.profileExpired': 'This iOS build\'s signing profile has expired, so it can no longer be installed. Please ask the developer for a new build.',
+  'downloadPage.passwordTitle': 'Password required',
+  'downloadPage.passwordPrompt': 'This download page is protected. Enter the password or access code to continue.',
+  'downloadPage.passwordLabel': 'Password',
+  'downloadPage.passwordSubmit': 'Continue',
+  'downloadPage.passwordInvalid': 'Incorrect password. Please try again.',
+  'downloadPage.passwordThrottled': 'Too many incorrect attempts. Please try again in 15 minutes.',
+  'downloadPage.expiredTitle': 'This link has expired',
+  'downloadPage.expiredMessage': 'The download window for this build has ended. Please ask the developer for a new link.',
+  'downloadPage.limitTitle': 'Download limit reached',
+  'downloadPage.limitMessage': 'This build has reached its maximum number of downloads. Please ask the developer for a new link.',
+  'downloadPage.comingSoonTitle': 'Coming soon',
+  'downloadPage.comingSoonMessage': 'This app will be available from {time}.',
+  'downloadPage.platformLimitReached': '{platform} has reached its download limit.',
+  'downloadPage.qrHint': 'Scan with your phone to install',
+  'downloadPage.releaseNotes': 'What\'s new',
   'downloadPage.missingMetadata': 'Missing metadata: {items}',
 };
 
@@ -524,8 +817,46 @@ const zhTW = makeLocaleDict('zh-TW', {
   'dashboard.table.createdAt': '建立時間',
   'dashboard.paginationSummary': '第 {page} / {pages} 頁',
   'dashboard.autofill': '套用封包中繼資料',
+  'dashboard.accessPasswordLabel': '下載頁密碼',
+  'dashboard.accessPasswordPlaceholder': '留空表示公開下載頁',
+  'dashboard.accessPasswordKeep': '留空則保留目前的密碼',
+  'dashboard.accessPasswordHint': '訪客須先輸入此密碼才會顯示下載按鈕。',
+  'dashboard.accessPasswordRemove': '移除密碼',
+  'dashboard.customCodeLabel': '自訂連結代碼',
+  'dashboard.customCodePlaceholder': '留空則隨機產生',
+  'dashboard.customCodeHint': '3-32 個小寫字母、數字、- 或 _。留空將自動產生。',
+  'dashboard.customCodeRenameHint': '變更代碼會移動連結，舊代碼仍會自動導向新連結。',
+  'dashboard.customCodeChecking': '正在檢查是否可用...',
+  'dashboard.customCodeAvailable': '此代碼可以使用。',
+  'dashboard.errorCodeInvalid': '代碼需為 3-32 個小寫字母、數字、- 或 _，且須以字母或數字開頭與結尾。',
+  'dashboard.errorCodeReserved': '此代碼為保留字，請改用其他代碼。',
+  'dashboard.errorCodeTaken': '此代碼已被使用。',
+  'dashboard.expiresAtLabel': '到期時間',
+  'dashboard.maxDownloadsLabel': '下載上限（總計）',
+  'dashboard.maxApkDownloadsLabel': 'APK 下載上限',
+  'dashboard.maxIpaDownloadsLabel': 'IPA 下載上限',
+  'dashboard.limitUnlimited': '不限',
+  'dashboard.limitsHint': '超過到期時間或達到上限後，下載頁將不再提供此版本。留空表示不限制。',
+  'dashboard.errorInvalidLimits': '下載上限必須是大於零的整數。',
+  'dashboard.publishAtLabel': '上線時間',
+  'dashboard.unpublishAtLabel': '下線時間',
+  'dashboard.scheduleTimezoneLabel': '時區',
+  'dashboard.scheduleHint': '連結在上線時間前保持停用，並於下線時間自動停用。變更約在 10 分鐘內生效；留空表示不排程。',
+  'dashboard.errorInvalidSchedule': '下線時間必須晚於上線時間。',
+  'dashboard.downloadsRemaining': '剩餘',
+  'dashboard.linkExpired': '已過期',
+  'dashboard.linkExpiresAt': '{date} 到期',
+  'dashboard.linkPublishesAt': '{date} 上線',
+  'dashboard.linkUnpublishesAt': '{date} 下線',
+  'dashboard.activeScheduled': '已排程',
+  'dashboard.lowIosConversion': 'iOS 轉換率偏低',
+  'dashboard.lowIosConversionHint': '與 Android 相比，iOS 訪客很少完成此連結的下載（沒有 Android 流量時為低於 15%）。請確認簽章憑證與描述檔仍然有效。',
+  'dashboard.exportStats': '匯出下載數',
+  'dashboard.exportStatsHint': '你所有連結最近 30 天的每日下載數，匯出為單一 CSV 或 Excel 檔案。',
   'dashboard.networkAreaLabel': '網路區域',
   'dashboard.progressPlaceholder': '上傳進度將顯示於此。',
+  'dashboard.progressParts': '已上傳 {completed}/{total} 個分段',
+  'dashboard.progressResumed': '已從上次中斷處繼續',
   'dashboard.toastCreated': '分發建立成功。',
   'dashboard.toastUpdated': '分發更新完成。',
   'dashboard.toastDeleted': '分發已刪除。',
@@ -533,9 +864,14 @@ const zhTW = makeLocaleDict('zh-TW', {
   'dashboard.toastLinkCopyFailed': '複製失敗，請手動複製。',
   'dashboard.errorNoFiles': '請至少上傳一個檔案。',
   'dashboard.errorAutofillMismatch': '套用失敗：APK 與 IPA 的 bundle ID 不一致。',
+  'dashboard.errorMetadataMismatch': '上傳的檔案與表單資訊不符（{fields}），請重新選擇檔案後再試。',
+  'dashboard.errorInvalidPackage': '無法讀取上傳的安裝檔，請確認檔案是有效的 APK 或 IPA。',
   'dashboard.actionEdit': '編輯',
   'dashboard.actionDelete': '刪除',
   'dashboard.copyLink': '複製連結',
+  'dashboard.shareCard': '分享卡片',
+  'dashboard.shareCardCaption': '掃描 QR Code 即可安裝',
+  'dashboard.toastShareCardFailed': '無法產生分享卡片，請稍後再試。',
   'networkArea.global': '全球區域',
   'networkArea.cn': '專屬中國境內區域',
   'networkArea.ru': '俄羅斯境內區域',
@@ -555,17 +891,91 @@ const zhTW = makeLocaleDict('zh-TW', {
   'dashboard.linkInfo.frequency.hour': '每小時',
   'dashboard.linkInfo.platforms': '平台',
   'dashboard.linkInfo.apply': '生成圖表',
+  'dashboard.linkInfo.export': '匯出',
   'dashboard.linkInfo.noData': '此範圍內沒有下載紀錄。',
   'dashboard.linkInfo.error': '無法載入下載統計資料。',
   'dashboard.linkInfo.rangeTooLarge': '時間範圍過大，請縮小範圍。',
+  'dashboard.linkInfo.hourlyRangeUnavailable': '每小時統計只保留最近 {days} 天，請將開始時間往後調整或改用每日檢視。',
   'dashboard.linkInfo.totalDownloads': '範圍內下載總數',
   'dashboard.linkInfo.table.time': '時間',
   'dashboard.linkInfo.table.selected': '已選 {count} 筆資料',
+  'dashboard.linkInfo.events.title': '下載事件',
+  'dashboard.linkInfo.events.hint': '所選範圍內的每一次下載，最新的在前。訪客以 IP 的短雜湊顯示；舊事件會自動清除。',
+  'dashboard.linkInfo.events.allPlatforms': '所有平台',
+  'dashboard.linkInfo.events.allDevices': '所有裝置',
+  'dashboard.linkInfo.events.countryPlaceholder': '國家，例如 TW',
+  'dashboard.linkInfo.events.device.mobile': '手機',
+  'dashboard.linkInfo.events.device.tablet': '平板',
+  'dashboard.linkInfo.events.device.desktop': '桌機',
+  'dashboard.linkInfo.events.device.other': '其他',
+  'dashboard.linkInfo.events.table.time': '時間',
+  'dashboard.linkInfo.events.table.platform': '平台',
+  'dashboard.linkInfo.events.table.version': '版本',
+  'dashboard.linkInfo.events.table.country': '國家',
+  'dashboard.linkInfo.events.table.device': '裝置',
+  'dashboard.linkInfo.events.table.referrer': '來源網址',
+  'dashboard.linkInfo.events.table.visitor': '訪客',
+  'dashboard.linkInfo.events.empty': '此範圍內沒有下載事件。',
+  'dashboard.linkInfo.events.error': '無法載入下載事件。',
+  'dashboard.linkInfo.events.total': '共 {count} 筆事件',
+  'dashboard.linkInfo.funnel.title': '下載頁漏斗',
+  'dashboard.linkInfo.funnel.hint': '所選日期（UTC）內依訪客裝置統計的頁面瀏覽、按鈕點擊與完成的下載。',
+  'dashboard.linkInfo.funnel.regionalHint': 'CN/RU 下載頁由區域伺服器提供，不會回報瀏覽與點擊，因此只顯示下載數。',
+  'dashboard.linkInfo.funnel.views': '頁面瀏覽',
+  'dashboard.linkInfo.funnel.clicks': '按鈕點擊',
+  'dashboard.linkInfo.funnel.guides': '顯示信任教學',
+  'dashboard.linkInfo.funnel.downloads': '下載',
+  'dashboard.linkInfo.funnel.conversion': '轉換率',
+  'dashboard.linkInfo.funnel.otherViews': '另有 {count} 次來自桌機或其他裝置的瀏覽。',
+  'dashboard.linkInfo.funnel.error': '無法載入下載漏斗。',
+  'dashboard.linkInfo.filtered.title': '已過濾（不計費）',
+  'dashboard.linkInfo.filtered.bot': '機器人',
+  'dashboard.linkInfo.filtered.prefetch': '預先載入',
+  'dashboard.linkInfo.filtered.duplicate': '重複',
+  'dashboard.linkInfo.filtered.rate_limited': '頻率限制',
+  'dashboard.linkInfo.filtered.hint': '爬蟲、連結預覽、HEAD／預先載入請求及同一訪客的重複點擊仍可取得檔案，但不計入下載次數，也不扣點。',
+  'dashboard.linkInfo.countries.title': '依國家／地區的下載',
+  'dashboard.linkInfo.countries.hint': '所選時間範圍內依訪客國家／地區（來自 Cloudflare 或 CN/RU 伺服器）統計的下載紀錄。開始記錄下載之前的下載不包含在內。',
+  'dashboard.linkInfo.countries.map': '依國家／地區的下載地圖',
+  'dashboard.linkInfo.countries.country': '國家／地區',
+  'dashboard.linkInfo.countries.share': '佔比',
+  'dashboard.linkInfo.countries.unknown': '未知',
+  'dashboard.linkInfo.countries.areasTitle': '依網路區域',
+  'dashboard.linkInfo.countries.areasHint': '同一時間範圍內你所有的連結，依網路區域分組，比較各區域的下載來源。',
+  'dashboard.linkInfo.countries.networkArea': '網路區域',
+  'dashboard.linkInfo.countries.links': '連結數',
+  'dashboard.linkInfo.countries.topCountries': '主要國家／地區',
+  'dashboard.linkInfo.countries.thisLink': '此連結',
   'dashboard.confirmDeleteTitle': '刪除分發',
   'dashboard.confirmDeleteMessage': '將永久刪除 {code} 與相關檔案。',
   'dashboard.confirmDelete': '刪除',
   'dashboard.cancelDelete': '取消',
   'dashboard.viewOnly': '僅供查看',
+  'dashboard.actionReleases': '版本紀錄',
+  'dashboard.releases.title': '版本紀錄',
+  'dashboard.releases.description': '每次上傳的封包都會保留於此。將舊版本設為目前版本即可回滾，分發代碼不會改變。',
+  'dashboard.releases.empty': '尚未上傳任何版本。',
+  'dashboard.releases.error': '無法更新版本',
+  'dashboard.releases.current': '目前版本',
+  'dashboard.releases.promote': '設為目前版本',
+  'dashboard.releases.toastPromoted': '已切換版本，分發連結將提供所選封包。',
+  'dashboard.releases.table.release': '版本編號',
+  'dashboard.releases.table.version': '版本',
+  'dashboard.releases.table.build': '建置號',
+  'dashboard.releases.table.size': '大小',
+  'dashboard.releases.table.notes': '更新說明',
+  'dashboard.releases.table.uploadedBy': '上傳者',
+  'dashboard.releases.table.uploadedAt': '上傳時間',
+  'dashboard.signing.team': '團隊',
+  'dashboard.signing.type.adHoc': 'Ad Hoc',
+  'dashboard.signing.type.enterprise': '企業',
+  'dashboard.signing.type.development': '開發',
+  'dashboard.signing.type.appStore': 'App Store',
+  'dashboard.signing.expires': '{date} 到期',
+  'dashboard.signing.expired': '描述檔已過期',
+  'dashboard.signing.expiring': '{days} 天後到期',
+  'dashboard.signing.devices': '{count} 台裝置',
+  'dashboard.signing.entitlements': '權限',
   'env.check': '環境檢查',
   'env.d1Binding': 'D1 連線：',
   'env.linksCount': 'D1 links 計數：',
@@ -647,6 +1057,45 @@ const zhTW = makeLocaleDict('zh-TW', {
   'admin.nav.members': '會員',
   'admin.nav.links': '分發列表',
   'admin.nav.orders': '訂單管理',
+  'admin.nav.pricing': '計價',
+  'admin.pricing.title': '下載計價',
+  'admin.pricing.description': '依平台與網路區域設定每次下載扣除的點數。',
+  'admin.pricing.current': '目前價格',
+  'admin.pricing.currentHint': '未設定專屬規則的會員每次下載的費用。',
+  'admin.pricing.builtIn': '內建',
+  'admin.pricing.sinceStart': '自始生效',
+  'admin.pricing.add': '新增規則',
+  'admin.pricing.addHint': '會員欄位留空即調整所有人的價格。會員規則可為該會員設定專屬價格或基本價格的折扣，可指定單一平台與區域或全部。',
+  'admin.pricing.member': '會員（電子郵件或 ID）',
+  'admin.pricing.memberPlaceholder': '留空代表所有人',
+  'admin.pricing.platform': '平台',
+  'admin.pricing.platform.apk': 'Android（APK）',
+  'admin.pricing.platform.ipa': 'iOS（IPA）',
+  'admin.pricing.allPlatforms': '所有平台',
+  'admin.pricing.networkArea': '網路區域',
+  'admin.pricing.allAreas': '所有區域',
+  'admin.pricing.kind': '類型',
+  'admin.pricing.kind.price': '固定價格',
+  'admin.pricing.kind.discount': '折扣',
+  'admin.pricing.price': '每次下載點數',
+  'admin.pricing.discount': '折扣（%）',
+  'admin.pricing.discountValue': '減 {percent}%',
+  'admin.pricing.effectiveFrom': '生效時間',
+  'admin.pricing.effectiveFromHint': '留空則立即生效。',
+  'admin.pricing.note': '備註',
+  'admin.pricing.submit': '新增規則',
+  'admin.pricing.rules': '規則',
+  'admin.pricing.empty': '尚無計價規則。',
+  'admin.pricing.scope': '適用對象',
+  'admin.pricing.everyone': '所有人',
+  'admin.pricing.value': '價格',
+  'admin.pricing.status': '狀態',
+  'admin.pricing.status.active': '生效中',
+  'admin.pricing.status.scheduled': '已排程',
+  'admin.pricing.status.superseded': '已被取代',
+  'admin.pricing.delete': '刪除',
+  'admin.pricing.deleteConfirm': '確定刪除此規則？相同價格項目將改回套用前一條規則。',
+  'admin.pricing.error': '無法儲存計價規則。',
     'admin.orders.title': '訂單管理',
   'admin.orders.description': '查看所有會員的儲值訂單。',
   'admin.orders.empty': '目前沒有訂單資料。',
@@ -666,6 +1115,103 @@ const zhTW = makeLocaleDict('zh-TW', {
   'member.nav.basic': '基本資料',
   'member.nav.orders': '訂單管理',
   'member.nav.orders.history': '歷史訂單',
+  'member.nav.devices': '測試裝置',
+  'member.nav.tokens': 'API 權杖',
+  'member.nav.webhooks': 'Webhooks',
+  'member.nav.analytics': '數據分析',
+  'member.analytics.title': '數據分析',
+  'member.analytics.description': '你所有連結依 UTC 日期統計的下載數與點數使用量。',
+  'member.analytics.unauthenticated': '請先登入以查看數據分析。',
+  'member.analytics.from': '開始',
+  'member.analytics.to': '結束',
+  'member.analytics.platform': '平台',
+  'member.analytics.allPlatforms': '所有平台',
+  'member.analytics.apply': '套用',
+  'member.analytics.invalidRange': '請選擇最多 366 天的有效範圍。',
+  'member.analytics.error': '無法載入數據分析。',
+  'member.analytics.totalDownloads': '下載數',
+  'member.analytics.totalPointsSpent': '已使用點數',
+  'member.analytics.balance': '目前餘額',
+  'member.analytics.burnRate': '每日點數（最近 7 天）',
+  'member.analytics.projectedDepletion': '依目前的消耗速度，餘額約在 {date} 用完。',
+  'member.analytics.noBurn': '最近 7 天沒有使用點數。',
+  'member.analytics.downloads': '每日下載數',
+  'member.analytics.breakdown': '分類',
+  'member.analytics.byPlatform': '依平台',
+  'member.analytics.byNetworkArea': '依網路區域',
+  'member.analytics.pointsSpent': '每日使用點數',
+  'member.analytics.topLinks': '熱門連結',
+  'member.analytics.networkArea': '網路區域',
+  'member.analytics.empty': '此範圍內沒有下載。',
+  'member.devices.title': '測試裝置',
+  'member.devices.description': '透過下載頁「取得我的 UDID」按鈕收集到的測試者裝置。',
+  'member.devices.empty': '尚未收集到任何裝置。',
+  'member.devices.unauthenticated': '請先登入以查看裝置。',
+  'member.devices.export': '匯出給 Apple',
+  'member.devices.exportHint': '此檔案可在 Apple Developer 網站的 Devices → Register Multiple Devices 上傳。',
+  'member.devices.table.udid': 'UDID',
+  'member.devices.table.model': '型號',
+  'member.devices.table.osVersion': 'iOS 版本',
+  'member.devices.table.link': '連結',
+  'member.devices.table.updatedAt': '最後更新',
+  'member.tokens.title': 'API 權杖',
+  'member.tokens.description': '個人存取權杖可讓 CI 流程以您的帳號上傳版本並讀取統計。',
+  'member.tokens.usageHint': '以「Authorization: Bearer <token>」將權杖送至 /api/v1 端點。持有權杖者可在其權限範圍內操作，請存放於 CI 機密設定中。',
+  'member.tokens.unauthenticated': '請先登入以管理 API 權杖。',
+  'member.tokens.name': '名稱',
+  'member.tokens.namePlaceholder': '例如：GitHub Actions 發布',
+  'member.tokens.scopes': '權限範圍',
+  'member.tokens.scope.linksRead': '讀取連結',
+  'member.tokens.scope.linksWrite': '上傳與發布',
+  'member.tokens.scope.statsRead': '讀取統計',
+  'member.tokens.create': '建立權杖',
+  'member.tokens.creating': '建立中…',
+  'member.tokens.secretNotice': '請立即複製此權杖，之後將不再顯示。',
+  'member.tokens.copy': '複製',
+  'member.tokens.copied': '已複製',
+  'member.tokens.revoke': '撤銷',
+  'member.tokens.revokeConfirm': '確定撤銷「{name}」？使用它的流程將停止運作。',
+  'member.tokens.error': '發生錯誤：{error}',
+  'member.tokens.empty': '尚無權杖。',
+  'member.tokens.never': '從未',
+  'member.tokens.table.name': '名稱',
+  'member.tokens.table.prefix': '權杖',
+  'member.tokens.table.scopes': '權限範圍',
+  'member.tokens.table.createdAt': '建立時間',
+  'member.tokens.table.lastUsedAt': '最後使用',
+  'member.webhooks.title': 'Webhooks',
+  'member.webhooks.description': '當連結變更、記錄下載、訂單結算或點數不足時，接收 HTTPS 回呼通知。',
+  'member.webhooks.signatureHint': '每個請求都以端點密鑰簽章：x-rudl-signature 標頭為「t=<unix 時間>,v1=<對 "<t>.<body>" 的 HMAC-SHA256 十六進位值>」。請使用 idempotency-key 標頭忽略重複事件。',
+  'member.webhooks.unauthenticated': '請先登入以管理 Webhooks。',
+  'member.webhooks.url': '端點網址',
+  'member.webhooks.events': '事件',
+  'member.webhooks.balanceThreshold': '點數提醒門檻（點）',
+  'member.webhooks.thresholdValue': '低於 {value} 點時通知',
+  'member.webhooks.create': '新增端點',
+  'member.webhooks.creating': '新增中…',
+  'member.webhooks.secretNotice': '請立即複製此簽章密鑰，之後將不再顯示。',
+  'member.webhooks.error': '發生錯誤：{error}',
+  'member.webhooks.empty': '尚無端點。',
+  'member.webhooks.active': '啟用中',
+  'member.webhooks.paused': '已暫停',
+  'member.webhooks.pause': '暫停',
+  'member.webhooks.resume': '恢復',
+  'member.webhooks.delete': '刪除',
+  'member.webhooks.deleteConfirm': '確定刪除端點 {url}？待重試的傳送將被捨棄。',
+  'member.webhooks.deliveries': '最近傳送紀錄',
+  'member.webhooks.deliveriesEmpty': '尚無傳送紀錄。',
+  'member.webhooks.refresh': '重新整理',
+  'member.webhooks.redeliver': '重新傳送',
+  'member.webhooks.nextAttempt': '下次重試 {time}',
+  'member.webhooks.status.pending': '重試中',
+  'member.webhooks.status.succeeded': '已送達',
+  'member.webhooks.status.failed': '失敗',
+  'member.webhooks.table.createdAt': '時間',
+  'member.webhooks.table.event': '事件',
+  'member.webhooks.table.endpoint': '端點',
+  'member.webhooks.table.status': '狀態',
+  'member.webhooks.table.attempts': '嘗試次數',
+  'member.webhooks.table.response': '回應',
   'member.basic.title': '會員基本資料',
   'member.basic.description': '以下列出您的帳號資訊。',
   'member.basic.email': '帳號（電子郵件）',
@@ -681,6 +1227,13 @@ const zhTW = makeLocaleDict('zh-TW', {
   'member.basic.emailVerification.verified': '已驗證完成',
   'member.basic.emailVerification.pending': '尚未驗證',
   'member.basic.emailVerification.cta': '前往驗證',
+  'member.pricing.title': '下載價格',
+  'member.pricing.description': '您的連結每次下載時從點數餘額扣除的點數。',
+  'member.pricing.networkArea': '網路區域',
+  'member.pricing.apk': 'Android（APK）',
+  'member.pricing.ipa': 'iOS（IPA）',
+  'member.pricing.discount': '減 {percent}%',
+  'member.pricing.custom': '專屬價格',
   'member.emailVerification.title': '電子郵件驗證',
   'member.emailVerification.description': '寄送驗證信到您的電子郵件，以確認帳號屬於您。',
   'member.emailVerification.emailLabel': '註冊電子郵件',
@@ -810,6 +1363,12 @@ const zhTW = makeLocaleDict('zh-TW', {
   'form.clearOverride': '清除',
   'form.currentVersion': '目前版本',
   'form.currentSize': '目前大小',
+  'form.releaseNotes': '更新說明',
+  'form.releaseNotesPlaceholder': '此版本的更新內容（選填）',
+  'form.linkReleaseNotes': '連結更新說明',
+  'form.linkReleaseNotesPlaceholder': '顯示在下載頁上，位於各版本說明之前（選填）',
+  'form.releaseNotesLanguage': '說明語言',
+  'form.releaseNotesHint': '支援簡易 Markdown：# 標題、- 清單、**粗體**、*斜體*、`程式碼` 與 [連結](https://…)。每種語言分別填寫；訪客會看到自己的語言，否則顯示連結語言。',
   'downloadPage.download': '下載',
   'downloadPage.version': '版本',
   'downloadPage.versionLabel': '版本',
@@ -841,9 +1400,36 @@ const zhTW = makeLocaleDict('zh-TW', {
   'downloadPage.detected': '偵測到 iOS',
   'downloadPage.language': '語言',
   'downloadPage.alertSafari': '請使用 Safari 安裝此 iOS App。',
-  'downloadPage.alertPoints': '點數不足，請先儲值。',
-  'downloadPage.alertCheckFailed': '下載檢查失敗，請稍後再試。',
-  'downloadPage.alertNetworkError': '網路錯誤，請稍後再試。',
+  'downloadPage.udidButton': '取得我的 UDID',
+  'downloadPage.udidHint': '正在測試 Ad Hoc 版本嗎？請在 Safari 中點擊「取得我的 UDID」並安裝描述檔，即可將裝置識別碼傳送給開發者。',
+  'downloadPage.udidProfileName': '{title} 裝置登記',
+  'downloadPage.udidProfileDescription': '將此裝置的 UDID、型號與 iOS 版本提供給 {title} 的開發者，以便加入測試版本。不會在裝置上安裝任何內容。',
+  'downloadPage.udidTitle': '您的裝置 UDID',
+  'downloadPage.udidCopy': '複製 UDID',
+  'downloadPage.udidModel': '型號',
+  'downloadPage.udidOsVersion': 'iOS 版本',
+  'downloadPage.udidStatus': '目前版本',
+  'downloadPage.udidInProfile': '此裝置已包含在目前版本中。',
+  'downloadPage.udidNotInProfile': '此裝置尚未包含在目前版本中。開發者已收到您的 UDID，需重新發佈新版本。',
+  'downloadPage.udidUnknown': '目前版本未列出裝置清單，無法確認。',
+  'downloadPage.udidInvalid': '無法讀取裝置 UDID，請在 Safari 中重新安裝描述檔。',
+  'downloadPage.udidBack': '返回下載頁',
+  'downloadPage.profileExpired': '此 iOS 版本的簽署描述檔已過期，無法再安裝。請聯絡開發者提供新版本。',
+  'downloadPage.passwordTitle': '需要密碼',
+  'downloadPage.passwordPrompt': '此下載頁已受保護，請輸入密碼或存取碼以繼續。',
+  'downloadPage.passwordLabel': '密碼',
+  'downloadPage.passwordSubmit': '繼續',
+  'downloadPage.passwordInvalid': '密碼錯誤，請再試一次。',
+  'downloadPage.passwordThrottled': '錯誤次數過多，請 15 分鐘後再試。',
+  'downloadPage.expiredTitle': '此連結已過期',
+  'downloadPage.expiredMessage': '此版本的下載期間已結束，請向開發者索取新的連結。',
+  'downloadPage.limitTitle': '已達下載上限',
+  'downloadPage.limitMessage': '此版本的下載次數已達上限，請向開發者索取新的連結。',
+  'downloadPage.comingSoonTitle': '即將推出',
+  'downloadPage.comingSoonMessage': '此應用程式將於 {time} 開放下載。',
+  'downloadPage.platformLimitReached': '{platform} 已達下載上限。',
+  'downloadPage.qrHint': '用手機掃描即可安裝',
+  'downloadPage.releaseNotes': '更新內容',
   'downloadPage.missingMetadata': '缺少中繼資料：{items}',
   'auth.register.invalidEmail': '\u8acb\u8f38\u5165\u6709\u6548\u7684\u4fe1\u7bb1\u683c\u5f0f',
   'emailVerification.title': '\u4fe1\u7bb1\u9a57\u8b49',
@@ -956,6 +1542,45 @@ const zhCN = makeLocaleDict('zh-CN', {
   'admin.nav.members': '会员',
   'admin.nav.links': '分发列表',
   'admin.nav.orders': '订单管理',
+  'admin.nav.pricing': '计价',
+  'admin.pricing.title': '下载计价',
+  'admin.pricing.description': '按平台与网络区域设置每次下载扣除的点数。',
+  'admin.pricing.current': '当前价格',
+  'admin.pricing.currentHint': '未设置专属规则的会员每次下载的费用。',
+  'admin.pricing.builtIn': '内置',
+  'admin.pricing.sinceStart': '自始生效',
+  'admin.pricing.add': '新增规则',
+  'admin.pricing.addHint': '会员栏位留空即调整所有人的价格。会员规则可为该会员设置专属价格或基本价格的折扣，可指定单一平台与区域或全部。',
+  'admin.pricing.member': '会员（电子邮箱或 ID）',
+  'admin.pricing.memberPlaceholder': '留空代表所有人',
+  'admin.pricing.platform': '平台',
+  'admin.pricing.platform.apk': 'Android（APK）',
+  'admin.pricing.platform.ipa': 'iOS（IPA）',
+  'admin.pricing.allPlatforms': '所有平台',
+  'admin.pricing.networkArea': '网络区域',
+  'admin.pricing.allAreas': '所有区域',
+  'admin.pricing.kind': '类型',
+  'admin.pricing.kind.price': '固定价格',
+  'admin.pricing.kind.discount': '折扣',
+  'admin.pricing.price': '每次下载点数',
+  'admin.pricing.discount': '折扣（%）',
+  'admin.pricing.discountValue': '减 {percent}%',
+  'admin.pricing.effectiveFrom': '生效时间',
+  'admin.pricing.effectiveFromHint': '留空则立即生效。',
+  'admin.pricing.note': '备注',
+  'admin.pricing.submit': '新增规则',
+  'admin.pricing.rules': '规则',
+  'admin.pricing.empty': '尚无计价规则。',
+  'admin.pricing.scope': '适用对象',
+  'admin.pricing.everyone': '所有人',
+  'admin.pricing.value': '价格',
+  'admin.pricing.status': '状态',
+  'admin.pricing.status.active': '生效中',
+  'admin.pricing.status.scheduled': '已排程',
+  'admin.pricing.status.superseded': '已被取代',
+  'admin.pricing.delete': '删除',
+  'admin.pricing.deleteConfirm': '确定删除此规则？相同价格项目将改回套用前一条规则。',
+  'admin.pricing.error': '无法保存计价规则。',
     'admin.orders.title': '订单管理',
   'admin.orders.description': '查看所有会员的充值订单。',
   'admin.orders.empty': '目前没有订单资料。',
@@ -975,6 +1600,103 @@ const zhCN = makeLocaleDict('zh-CN', {
   'member.nav.basic': '基本资料',
   'member.nav.orders': '订单管理',
   'member.nav.orders.history': '历史订单',
+  'member.nav.devices': '测试设备',
+  'member.nav.tokens': 'API 令牌',
+  'member.nav.webhooks': 'Webhooks',
+  'member.nav.analytics': '数据分析',
+  'member.analytics.title': '数据分析',
+  'member.analytics.description': '你所有链接按 UTC 日期统计的下载数与点数使用量。',
+  'member.analytics.unauthenticated': '请先登录以查看数据分析。',
+  'member.analytics.from': '开始',
+  'member.analytics.to': '结束',
+  'member.analytics.platform': '平台',
+  'member.analytics.allPlatforms': '所有平台',
+  'member.analytics.apply': '应用',
+  'member.analytics.invalidRange': '请选择最多 366 天的有效范围。',
+  'member.analytics.error': '无法加载数据分析。',
+  'member.analytics.totalDownloads': '下载数',
+  'member.analytics.totalPointsSpent': '已使用点数',
+  'member.analytics.balance': '当前余额',
+  'member.analytics.burnRate': '每日点数（最近 7 天）',
+  'member.analytics.projectedDepletion': '按当前的消耗速度，余额约在 {date} 用完。',
+  'member.analytics.noBurn': '最近 7 天没有使用点数。',
+  'member.analytics.downloads': '每日下载数',
+  'member.analytics.breakdown': '分类',
+  'member.analytics.byPlatform': '按平台',
+  'member.analytics.byNetworkArea': '按网络区域',
+  'member.analytics.pointsSpent': '每日使用点数',
+  'member.analytics.topLinks': '热门链接',
+  'member.analytics.networkArea': '网络区域',
+  'member.analytics.empty': '此范围内没有下载。',
+  'member.devices.title': '测试设备',
+  'member.devices.description': '通过下载页“获取我的 UDID”按钮收集到的测试者设备。',
+  'member.devices.empty': '尚未收集到任何设备。',
+  'member.devices.unauthenticated': '请先登录以查看设备。',
+  'member.devices.export': '导出给 Apple',
+  'member.devices.exportHint': '此文件可在 Apple Developer 网站的 Devices → Register Multiple Devices 上传。',
+  'member.devices.table.udid': 'UDID',
+  'member.devices.table.model': '型号',
+  'member.devices.table.osVersion': 'iOS 版本',
+  'member.devices.table.link': '链接',
+  'member.devices.table.updatedAt': '最后更新',
+  'member.tokens.title': 'API 令牌',
+  'member.tokens.description': '个人访问令牌可让 CI 流水线以您的账号上传版本并读取统计。',
+  'member.tokens.usageHint': '以“Authorization: Bearer <token>”将令牌发送至 /api/v1 接口。持有令牌者可在其权限范围内操作，请存放在 CI 密钥配置中。',
+  'member.tokens.unauthenticated': '请先登录以管理 API 令牌。',
+  'member.tokens.name': '名称',
+  'member.tokens.namePlaceholder': '例如：GitHub Actions 发布',
+  'member.tokens.scopes': '权限范围',
+  'member.tokens.scope.linksRead': '读取链接',
+  'member.tokens.scope.linksWrite': '上传与发布',
+  'member.tokens.scope.statsRead': '读取统计',
+  'member.tokens.create': '创建令牌',
+  'member.tokens.creating': '创建中…',
+  'member.tokens.secretNotice': '请立即复制此令牌，之后将不再显示。',
+  'member.tokens.copy': '复制',
+  'member.tokens.copied': '已复制',
+  'member.tokens.revoke': '撤销',
+  'member.tokens.revokeConfirm': '确定撤销“{name}”？使用它的流水线将停止工作。',
+  'member.tokens.error': '发生错误：{error}',
+  'member.tokens.empty': '暂无令牌。',
+  'member.tokens.never': '从未',
+  'member.tokens.table.name': '名称',
+  'member.tokens.table.prefix': '令牌',
+  'member.tokens.table.scopes': '权限范围',
+  'member.tokens.table.createdAt': '创建时间',
+  'member.tokens.table.lastUsedAt': '最后使用',
+  'member.webhooks.title': 'Webhooks',
+  'member.webhooks.description': '当链接变更、记录下载、订单结算或点数不足时，接收 HTTPS 回调通知。',
+  'member.webhooks.signatureHint': '每个请求都以端点密钥签名：x-rudl-signature 标头为“t=<unix 时间>,v1=<对 "<t>.<body>" 的 HMAC-SHA256 十六进制值>”。请使用 idempotency-key 标头忽略重复事件。',
+  'member.webhooks.unauthenticated': '请先登录以管理 Webhooks。',
+  'member.webhooks.url': '端点网址',
+  'member.webhooks.events': '事件',
+  'member.webhooks.balanceThreshold': '点数提醒阈值（点）',
+  'member.webhooks.thresholdValue': '低于 {value} 点时通知',
+  'member.webhooks.create': '添加端点',
+  'member.webhooks.creating': '添加中…',
+  'member.webhooks.secretNotice': '请立即复制此签名密钥，之后将不再显示。',
+  'member.webhooks.error': '发生错误：{error}',
+  'member.webhooks.empty': '暂无端点。',
+  'member.webhooks.active': '启用中',
+  'member.webhooks.paused': '已暂停',
+  'member.webhooks.pause': '暂停',
+  'member.webhooks.resume': '恢复',
+  'member.webhooks.delete': '删除',
+  'member.webhooks.deleteConfirm': '确定删除端点 {url}？待重试的投递将被丢弃。',
+  'member.webhooks.deliveries': '最近投递记录',
+  'member.webhooks.deliveriesEmpty': '暂无投递记录。',
+  'member.webhooks.refresh': '刷新',
+  'member.webhooks.redeliver': '重新投递',
+  'member.webhooks.nextAttempt': '下次重试 {time}',
+  'member.webhooks.status.pending': '重试中',
+  'member.webhooks.status.succeeded': '已送达',
+  'member.webhooks.status.failed': '失败',
+  'member.webhooks.table.createdAt': '时间',
+  'member.webhooks.table.event': '事件',
+  'member.webhooks.table.endpoint': '端点',
+  'member.webhooks.table.status': '状态',
+  'member.webhooks.table.attempts': '尝试次数',
+  'member.webhooks.table.response': '响应',
   'member.basic.title': '会员基本资料',
   'member.basic.description': '以下列出您的账号信息。',
   'member.basic.email': '账号（电子邮箱）',
@@ -990,6 +1712,13 @@ const zhCN = makeLocaleDict('zh-CN', {
   'member.basic.emailVerification.verified': '已完成验证',
   'member.basic.emailVerification.pending': '尚未验证',
   'member.basic.emailVerification.cta': '前往验证',
+  'member.pricing.title': '下载价格',
+  'member.pricing.description': '您的链接每次下载时从点数余额扣除的点数。',
+  'member.pricing.networkArea': '网络区域',
+  'member.pricing.apk': 'Android（APK）',
+  'member.pricing.ipa': 'iOS（IPA）',
+  'member.pricing.discount': '减 {percent}%',
+  'member.pricing.custom': '专属价格',
   'member.emailVerification.title': '电子邮件验证',
   'member.emailVerification.description': '发送验证邮件到您的邮箱，完成账号验证。',
   'member.emailVerification.emailLabel': '注册邮箱',
@@ -1119,6 +1848,12 @@ const zhCN = makeLocaleDict('zh-CN', {
   'form.clearOverride': '清除',
   'form.currentVersion': '当前版本',
   'form.currentSize': '当前大小',
+  'form.releaseNotes': '更新说明',
+  'form.releaseNotesPlaceholder': '此版本的更新内容（选填）',
+  'form.linkReleaseNotes': '链接更新说明',
+  'form.linkReleaseNotesPlaceholder': '显示在下载页上，位于各版本说明之前（选填）',
+  'form.releaseNotesLanguage': '说明语言',
+  'form.releaseNotesHint': '支持简易 Markdown：# 标题、- 列表、**粗体**、*斜体*、`代码` 与 [链接](https://…)。每种语言分别填写；访客会看到自己的语言，否则显示链接语言。',
   'form.cancel': '取消',
   'form.update': '更新',
   'form.submit': '提交',
@@ -1153,9 +1888,36 @@ const zhCN = makeLocaleDict('zh-CN', {
   'downloadPage.detected': '检测到 iOS',
   'downloadPage.language': '语言',
   'downloadPage.alertSafari': '请使用 Safari 安装此 iOS 应用。',
-  'downloadPage.alertPoints': '点数不足，请先充值。',
-  'downloadPage.alertCheckFailed': '下载校验失败，请稍后再试。',
-  'downloadPage.alertNetworkError': '网络错误，请稍后再试。',
+  'downloadPage.udidButton': '获取我的 UDID',
+  'downloadPage.udidHint': '正在测试 Ad Hoc 版本吗？请在 Safari 中点击“获取我的 UDID”并安装描述文件，即可将设备标识发送给开发者。',
+  'downloadPage.udidProfileName': '{title} 设备登记',
+  'downloadPage.udidProfileDescription': '将此设备的 UDID、型号与 iOS 版本提供给 {title} 的开发者，以便加入测试版本。不会在设备上安装任何内容。',
+  'downloadPage.udidTitle': '您的设备 UDID',
+  'downloadPage.udidCopy': '复制 UDID',
+  'downloadPage.udidModel': '型号',
+  'downloadPage.udidOsVersion': 'iOS 版本',
+  'downloadPage.udidStatus': '当前版本',
+  'downloadPage.udidInProfile': '此设备已包含在当前版本中。',
+  'downloadPage.udidNotInProfile': '此设备尚未包含在当前版本中。开发者已收到您的 UDID，需要重新发布新版本。',
+  'downloadPage.udidUnknown': '当前版本未列出设备清单，无法确认。',
+  'downloadPage.udidInvalid': '无法读取设备 UDID，请在 Safari 中重新安装描述文件。',
+  'downloadPage.udidBack': '返回下载页',
+  'downloadPage.profileExpired': '此 iOS 版本的签名描述文件已过期，无法再安装。请联系开发者提供新版本。',
+  'downloadPage.passwordTitle': '需要密码',
+  'downloadPage.passwordPrompt': '此下载页已受保护，请输入密码或访问码以继续。',
+  'downloadPage.passwordLabel': '密码',
+  'downloadPage.passwordSubmit': '继续',
+  'downloadPage.passwordInvalid': '密码错误，请重试。',
+  'downloadPage.passwordThrottled': '错误次数过多，请 15 分钟后再试。',
+  'downloadPage.expiredTitle': '此链接已过期',
+  'downloadPage.expiredMessage': '此版本的下载期限已结束，请向开发者索取新的链接。',
+  'downloadPage.limitTitle': '已达下载上限',
+  'downloadPage.limitMessage': '此版本的下载次数已达上限，请向开发者索取新的链接。',
+  'downloadPage.comingSoonTitle': '即将推出',
+  'downloadPage.comingSoonMessage': '此应用将于 {time} 开放下载。',
+  'downloadPage.platformLimitReached': '{platform} 已达下载上限。',
+  'downloadPage.qrHint': '用手机扫码即可安装',
+  'downloadPage.releaseNotes': '更新内容',
   'downloadPage.missingMetadata': '缺少元数据：{items}',
   'auth.register.invalidEmail': '\u8bf7\u8f93\u5165\u6709\u6548\u7684\u90ae\u7bb1\u5730\u5740',
   'emailVerification.title': '\u90ae\u7bb1\u9a8c\u8bc1',
@@ -1269,6 +2031,45 @@ const ru = makeLocaleDict('ru', {
   'admin.nav.members': 'Пользователи',
   'admin.nav.links': 'Распределения',
   'admin.nav.orders': 'Заказы',
+  'admin.nav.pricing': 'Цены',
+  'admin.pricing.title': 'Цены на скачивания',
+  'admin.pricing.description': 'Сколько баллов списывается за одно скачивание по платформе и сетевому региону.',
+  'admin.pricing.current': 'Текущие цены',
+  'admin.pricing.currentHint': 'Стоимость скачивания для участников без собственного правила.',
+  'admin.pricing.builtIn': 'по умолчанию',
+  'admin.pricing.sinceStart': 'С самого начала',
+  'admin.pricing.add': 'Добавить правило',
+  'admin.pricing.addHint': 'Оставьте поле участника пустым, чтобы изменить цену для всех. Правило участника задаёт ему собственную цену или скидку от базовой цены — для одной платформы и региона или для всех.',
+  'admin.pricing.member': 'Участник (email или ID)',
+  'admin.pricing.memberPlaceholder': 'Пусто — для всех',
+  'admin.pricing.platform': 'Платформа',
+  'admin.pricing.platform.apk': 'Android (APK)',
+  'admin.pricing.platform.ipa': 'iOS (IPA)',
+  'admin.pricing.allPlatforms': 'Все платформы',
+  'admin.pricing.networkArea': 'Сетевой регион',
+  'admin.pricing.allAreas': 'Все регионы',
+  'admin.pricing.kind': 'Тип',
+  'admin.pricing.kind.price': 'Фиксированная цена',
+  'admin.pricing.kind.discount': 'Скидка',
+  'admin.pricing.price': 'Баллов за скачивание',
+  'admin.pricing.discount': 'Скидка (%)',
+  'admin.pricing.discountValue': 'скидка {percent}%',
+  'admin.pricing.effectiveFrom': 'Действует с',
+  'admin.pricing.effectiveFromHint': 'Оставьте пустым, чтобы применить сразу.',
+  'admin.pricing.note': 'Примечание',
+  'admin.pricing.submit': 'Добавить правило',
+  'admin.pricing.rules': 'Правила',
+  'admin.pricing.empty': 'Правил цен пока нет.',
+  'admin.pricing.scope': 'Для кого',
+  'admin.pricing.everyone': 'Для всех',
+  'admin.pricing.value': 'Цена',
+  'admin.pricing.status': 'Статус',
+  'admin.pricing.status.active': 'Действует',
+  'admin.pricing.status.scheduled': 'Запланировано',
+  'admin.pricing.status.superseded': 'Заменено',
+  'admin.pricing.delete': 'Удалить',
+  'admin.pricing.deleteConfirm': 'Удалить это правило? Снова будет действовать предыдущее правило для тех же цен.',
+  'admin.pricing.error': 'Не удалось сохранить правило цены.',
     'admin.orders.title': 'Заказы',
   'admin.orders.description': 'Просматривайте все заказы ECPay.',
   'admin.orders.empty': 'Заказы отсутствуют.',
@@ -1288,6 +2089,103 @@ const ru = makeLocaleDict('ru', {
   'member.nav.basic': 'Основные данные',
   'member.nav.orders': 'Управление заказами',
   'member.nav.orders.history': 'История заказов',
+  'member.nav.devices': 'Устройства',
+  'member.nav.tokens': 'API-токены',
+  'member.nav.webhooks': 'Вебхуки',
+  'member.nav.analytics': 'Аналитика',
+  'member.analytics.title': 'Аналитика',
+  'member.analytics.description': 'Загрузки и расход баллов по всем вашим ссылкам по дням (UTC).',
+  'member.analytics.unauthenticated': 'Войдите, чтобы увидеть аналитику.',
+  'member.analytics.from': 'С',
+  'member.analytics.to': 'По',
+  'member.analytics.platform': 'Платформа',
+  'member.analytics.allPlatforms': 'Все платформы',
+  'member.analytics.apply': 'Применить',
+  'member.analytics.invalidRange': 'Выберите корректный период не длиннее 366 дней.',
+  'member.analytics.error': 'Не удалось загрузить аналитику.',
+  'member.analytics.totalDownloads': 'Загрузки',
+  'member.analytics.totalPointsSpent': 'Потрачено баллов',
+  'member.analytics.balance': 'Текущий баланс',
+  'member.analytics.burnRate': 'Баллов в день (последние 7 дней)',
+  'member.analytics.projectedDepletion': 'При текущем расходе баланс закончится примерно {date}.',
+  'member.analytics.noBurn': 'За последние 7 дней баллы не расходовались.',
+  'member.analytics.downloads': 'Загрузки по дням',
+  'member.analytics.breakdown': 'Разбивка',
+  'member.analytics.byPlatform': 'По платформам',
+  'member.analytics.byNetworkArea': 'По сетевым регионам',
+  'member.analytics.pointsSpent': 'Расход баллов по дням',
+  'member.analytics.topLinks': 'Популярные ссылки',
+  'member.analytics.networkArea': 'Сетевой регион',
+  'member.analytics.empty': 'За этот период загрузок нет.',
+  'member.devices.title': 'Устройства тестировщиков',
+  'member.devices.description': 'UDID, собранные у тестировщиков через кнопку «Узнать мой UDID» на страницах загрузки.',
+  'member.devices.empty': 'Устройства пока не собраны.',
+  'member.devices.unauthenticated': 'Войдите, чтобы увидеть устройства.',
+  'member.devices.export': 'Экспорт для Apple',
+  'member.devices.exportHint': 'Файл можно загрузить в Apple Developer в разделе Devices → Register Multiple Devices.',
+  'member.devices.table.udid': 'UDID',
+  'member.devices.table.model': 'Модель',
+  'member.devices.table.osVersion': 'Версия iOS',
+  'member.devices.table.link': 'Ссылка',
+  'member.devices.table.updatedAt': 'Последнее обновление',
+  'member.tokens.title': 'API-токены',
+  'member.tokens.description': 'Персональные токены позволяют CI-конвейерам загружать сборки и читать статистику вашего аккаунта.',
+  'member.tokens.usageHint': 'Передавайте токен в заголовке «Authorization: Bearer <token>» к эндпоинтам /api/v1. Владелец токена может действовать в пределах его прав, поэтому храните его в секретах CI.',
+  'member.tokens.unauthenticated': 'Войдите, чтобы управлять API-токенами.',
+  'member.tokens.name': 'Название',
+  'member.tokens.namePlaceholder': 'например, релиз GitHub Actions',
+  'member.tokens.scopes': 'Права',
+  'member.tokens.scope.linksRead': 'Чтение ссылок',
+  'member.tokens.scope.linksWrite': 'Загрузка и публикация',
+  'member.tokens.scope.statsRead': 'Чтение статистики',
+  'member.tokens.create': 'Создать токен',
+  'member.tokens.creating': 'Создание…',
+  'member.tokens.secretNotice': 'Скопируйте токен сейчас — больше он показан не будет.',
+  'member.tokens.copy': 'Копировать',
+  'member.tokens.copied': 'Скопировано',
+  'member.tokens.revoke': 'Отозвать',
+  'member.tokens.revokeConfirm': 'Отозвать «{name}»? Использующие его конвейеры перестанут работать.',
+  'member.tokens.error': 'Что-то пошло не так: {error}',
+  'member.tokens.empty': 'Токенов пока нет.',
+  'member.tokens.never': 'Никогда',
+  'member.tokens.table.name': 'Название',
+  'member.tokens.table.prefix': 'Токен',
+  'member.tokens.table.scopes': 'Права',
+  'member.tokens.table.createdAt': 'Создан',
+  'member.tokens.table.lastUsedAt': 'Последнее использование',
+  'member.webhooks.title': 'Вебхуки',
+  'member.webhooks.description': 'Получайте HTTPS-уведомления при изменении ссылок, записи загрузок, оплате заказов или низком балансе.',
+  'member.webhooks.signatureHint': 'Каждый запрос подписан секретом эндпоинта: заголовок x-rudl-signature имеет вид «t=<unix-время>,v1=<hex HMAC-SHA256 от "<t>.<body>">». Используйте заголовок idempotency-key, чтобы отбрасывать повторы.',
+  'member.webhooks.unauthenticated': 'Войдите, чтобы управлять вебхуками.',
+  'member.webhooks.url': 'URL эндпоинта',
+  'member.webhooks.events': 'События',
+  'member.webhooks.balanceThreshold': 'Порог уведомления о балансе (баллы)',
+  'member.webhooks.thresholdValue': 'уведомлять ниже {value} баллов',
+  'member.webhooks.create': 'Добавить эндпоинт',
+  'member.webhooks.creating': 'Добавление…',
+  'member.webhooks.secretNotice': 'Скопируйте секрет подписи сейчас — больше он показан не будет.',
+  'member.webhooks.error': 'Что-то пошло не так: {error}',
+  'member.webhooks.empty': 'Эндпоинтов пока нет.',
+  'member.webhooks.active': 'Активен',
+  'member.webhooks.paused': 'Приостановлен',
+  'member.webhooks.pause': 'Приостановить',
+  'member.webhooks.resume': 'Возобновить',
+  'member.webhooks.delete': 'Удалить',
+  'member.webhooks.deleteConfirm': 'Удалить эндпоинт {url}? Ожидающие повторы будут отменены.',
+  'member.webhooks.deliveries': 'Последние доставки',
+  'member.webhooks.deliveriesEmpty': 'Доставок пока нет.',
+  'member.webhooks.refresh': 'Обновить',
+  'member.webhooks.redeliver': 'Отправить повторно',
+  'member.webhooks.nextAttempt': 'следующая попытка {time}',
+  'member.webhooks.status.pending': 'Повтор',
+  'member.webhooks.status.succeeded': 'Доставлено',
+  'member.webhooks.status.failed': 'Ошибка',
+  'member.webhooks.table.createdAt': 'Время',
+  'member.webhooks.table.event': 'Событие',
+  'member.webhooks.table.endpoint': 'Эндпоинт',
+  'member.webhooks.table.status': 'Статус',
+  'member.webhooks.table.attempts': 'Попытки',
+  'member.webhooks.table.response': 'Ответ',
   'member.basic.title': 'Основная информация',
   'member.basic.description': 'Здесь собрана информация о вашей учетной записи.',
   'member.basic.email': 'Аккаунт (email)',
@@ -1303,6 +2201,13 @@ const ru = makeLocaleDict('ru', {
   'member.basic.emailVerification.verified': 'Подтверждено',
   'member.basic.emailVerification.pending': 'Не подтверждено',
   'member.basic.emailVerification.cta': 'Перейти к подтверждению',
+  'member.pricing.title': 'Цены на скачивания',
+  'member.pricing.description': 'Сколько баллов списывается с баланса за каждое скачивание ваших ссылок.',
+  'member.pricing.networkArea': 'Сетевой регион',
+  'member.pricing.apk': 'Android (APK)',
+  'member.pricing.ipa': 'iOS (IPA)',
+  'member.pricing.discount': 'скидка {percent}%',
+  'member.pricing.custom': 'Индивидуальная цена',
   'member.emailVerification.title': 'Подтверждение email',
   'member.emailVerification.description': 'Отправьте письмо с подтверждением, чтобы подтвердить владение адресом.',
   'member.emailVerification.emailLabel': 'Регистрационный email',
@@ -1432,6 +2337,12 @@ const ru = makeLocaleDict('ru', {
   'form.clearOverride': 'Очистить',
   'form.currentVersion': 'Текущая версия',
   'form.currentSize': 'Текущий размер',
+  'form.releaseNotes': 'Примечания к выпуску',
+  'form.releaseNotesPlaceholder': 'Что изменилось в этой сборке (необязательно)',
+  'form.linkReleaseNotes': 'Примечания к ссылке',
+  'form.linkReleaseNotesPlaceholder': 'Показываются на странице загрузки над примечаниями к сборкам (необязательно)',
+  'form.releaseNotesLanguage': 'Язык примечаний',
+  'form.releaseNotesHint': 'Поддерживается упрощённый Markdown: # заголовки, - списки, **жирный**, *курсив*, `код` и [ссылки](https://…). Для каждого языка свои примечания; посетители видят свой язык или язык ссылки.',
   'form.cancel': 'Отмена',
   'form.update': 'Обновить',
   'form.submit': 'Отправить',
@@ -1466,9 +2377,36 @@ const ru = makeLocaleDict('ru', {
   'downloadPage.detected': 'Обнаружена iOS',
   'downloadPage.language': 'Язык',
   'downloadPage.alertSafari': 'Откройте страницу в Safari, чтобы установить приложение.',
-  'downloadPage.alertPoints': 'Недостаточно средств. Пополните баланс.',
-  'downloadPage.alertCheckFailed': 'Проверка загрузки не прошла. Повторите позже.',
-  'downloadPage.alertNetworkError': 'Сетевая ошибка. Повторите позже.',
+  'downloadPage.udidButton': 'Узнать мой UDID',
+  'downloadPage.udidHint': 'Тестируете ad-hoc сборку? Нажмите «Узнать мой UDID» в Safari и установите профиль, чтобы отправить идентификатор устройства разработчику.',
+  'downloadPage.udidProfileName': 'Регистрация устройства для {title}',
+  'downloadPage.udidProfileDescription': 'Передаёт UDID, модель и версию iOS этого устройства разработчику {title}, чтобы добавить его в тестовые сборки. На устройство ничего не устанавливается.',
+  'downloadPage.udidTitle': 'UDID вашего устройства',
+  'downloadPage.udidCopy': 'Скопировать UDID',
+  'downloadPage.udidModel': 'Модель',
+  'downloadPage.udidOsVersion': 'Версия iOS',
+  'downloadPage.udidStatus': 'Текущая сборка',
+  'downloadPage.udidInProfile': 'Это устройство уже включено в текущую сборку.',
+  'downloadPage.udidNotInProfile': 'Это устройство пока не включено в текущую сборку. Разработчик получил ваш UDID и должен выпустить новую сборку.',
+  'downloadPage.udidUnknown': 'Текущая сборка не содержит списка устройств, проверить не удалось.',
+  'downloadPage.udidInvalid': 'Не удалось прочитать UDID устройства. Установите профиль ещё раз из Safari.',
+  'downloadPage.udidBack': 'Назад к странице загрузки',
+  'downloadPage.profileExpired': 'Профиль подписи этой iOS-сборки истёк, поэтому её больше нельзя установить. Попросите разработчика выпустить новую сборку.',
+  'downloadPage.passwordTitle': 'Требуется пароль',
+  'downloadPage.passwordPrompt': 'Эта страница загрузки защищена. Введите пароль или код доступа, чтобы продолжить.',
+  'downloadPage.passwordLabel': 'Пароль',
+  'downloadPage.passwordSubmit': 'Продолжить',
+  'downloadPage.passwordInvalid': 'Неверный пароль. Попробуйте ещё раз.',
+  'downloadPage.passwordThrottled': 'Слишком много неверных попыток. Попробуйте снова через 15 минут.',
+  'downloadPage.expiredTitle': 'Срок действия ссылки истёк',
+  'downloadPage.expiredMessage': 'Период загрузки этой сборки закончился. Попросите разработчика прислать новую ссылку.',
+  'downloadPage.limitTitle': 'Достигнут лимит загрузок',
+  'downloadPage.limitMessage': 'Эта сборка достигла максимального числа загрузок. Попросите разработчика прислать новую ссылку.',
+  'downloadPage.comingSoonTitle': 'Скоро',
+  'downloadPage.comingSoonMessage': 'Приложение станет доступно {time}.',
+  'downloadPage.platformLimitReached': '{platform}: достигнут лимит загрузок.',
+  'downloadPage.qrHint': 'Отсканируйте телефоном, чтобы установить',
+  'downloadPage.releaseNotes': 'Что нового',
   'downloadPage.missingMetadata': 'Отсутствуют метаданные: {items}',
   'auth.register.invalidEmail': '\u0423\u043a\u0430\u0436\u0438\u0442\u0435 \u043a\u043e\u0440\u0440\u0435\u043a\u0442\u043d\u044b\u0439 \u0430\u0434\u0440\u0435\u0441 \u044d\u043b\u0435\u043a\u0442\u0440\u043e\u043d\u043d\u043e\u0439 \u043f\u043e\u0447\u0442\u044b',
   'emailVerification.title': '\u041f\u043e\u0434\u0442\u0432\u0435\u0440\u0436\u0434\u0435\u043d\u0438\u0435 \u043f\u043e\u0447\u0442\u044b',
@@ -1582,6 +2520,45 @@ const vi = makeLocaleDict('vi', {
   'admin.nav.members': 'Thành viên',
   'admin.nav.links': 'Phân phối',
   'admin.nav.orders': 'Quản lý đơn hàng',
+  'admin.nav.pricing': 'Giá',
+  'admin.pricing.title': 'Giá tải xuống',
+  'admin.pricing.description': 'Số điểm bị trừ cho mỗi lượt tải theo nền tảng và khu vực mạng.',
+  'admin.pricing.current': 'Giá hiện tại',
+  'admin.pricing.currentHint': 'Chi phí mỗi lượt tải cho thành viên không có quy tắc riêng.',
+  'admin.pricing.builtIn': 'mặc định',
+  'admin.pricing.sinceStart': 'Từ đầu',
+  'admin.pricing.add': 'Thêm quy tắc',
+  'admin.pricing.addHint': 'Để trống ô thành viên để đổi giá cho mọi người. Quy tắc thành viên đặt giá riêng hoặc mức giảm trên giá cơ bản cho thành viên đó, cho một nền tảng và khu vực hoặc cho tất cả.',
+  'admin.pricing.member': 'Thành viên (email hoặc ID)',
+  'admin.pricing.memberPlaceholder': 'Để trống cho mọi người',
+  'admin.pricing.platform': 'Nền tảng',
+  'admin.pricing.platform.apk': 'Android (APK)',
+  'admin.pricing.platform.ipa': 'iOS (IPA)',
+  'admin.pricing.allPlatforms': 'Mọi nền tảng',
+  'admin.pricing.networkArea': 'Khu vực mạng',
+  'admin.pricing.allAreas': 'Mọi khu vực',
+  'admin.pricing.kind': 'Loại',
+  'admin.pricing.kind.price': 'Giá cố định',
+  'admin.pricing.kind.discount': 'Giảm giá',
+  'admin.pricing.price': 'Điểm mỗi lượt tải',
+  'admin.pricing.discount': 'Giảm giá (%)',
+  'admin.pricing.discountValue': 'giảm {percent}%',
+  'admin.pricing.effectiveFrom': 'Hiệu lực từ',
+  'admin.pricing.effectiveFromHint': 'Để trống để áp dụng ngay.',
+  'admin.pricing.note': 'Ghi chú',
+  'admin.pricing.submit': 'Thêm quy tắc',
+  'admin.pricing.rules': 'Quy tắc',
+  'admin.pricing.empty': 'Chưa có quy tắc giá nào.',
+  'admin.pricing.scope': 'Áp dụng cho',
+  'admin.pricing.everyone': 'Mọi người',
+  'admin.pricing.value': 'Giá',
+  'admin.pricing.status': 'Trạng thái',
+  'admin.pricing.status.active': 'Đang áp dụng',
+  'admin.pricing.status.scheduled': 'Đã lên lịch',
+  'admin.pricing.status.superseded': 'Đã bị thay thế',
+  'admin.pricing.delete': 'Xóa',
+  'admin.pricing.deleteConfirm': 'Xóa quy tắc này? Quy tắc trước đó cho cùng mức giá sẽ được áp dụng lại.',
+  'admin.pricing.error': 'Không thể lưu quy tắc giá.',
     'admin.orders.title': 'Quản lý đơn hàng',
   'admin.orders.description': 'Xem toàn bộ đơn nạp ECPay.',
   'admin.orders.empty': 'Không có đơn hàng.',
@@ -1601,6 +2578,103 @@ const vi = makeLocaleDict('vi', {
   'member.nav.basic': 'Thông tin cơ bản',
   'member.nav.orders': 'Quản lý đơn hàng',
   'member.nav.orders.history': 'Lịch sử đơn hàng',
+  'member.nav.devices': 'Thiết bị',
+  'member.nav.tokens': 'Mã API',
+  'member.nav.webhooks': 'Webhook',
+  'member.nav.analytics': 'Phân tích',
+  'member.analytics.title': 'Phân tích',
+  'member.analytics.description': 'Lượt tải và điểm đã dùng trên tất cả liên kết của bạn, theo ngày (UTC).',
+  'member.analytics.unauthenticated': 'Vui lòng đăng nhập để xem phân tích.',
+  'member.analytics.from': 'Từ',
+  'member.analytics.to': 'Đến',
+  'member.analytics.platform': 'Nền tảng',
+  'member.analytics.allPlatforms': 'Tất cả nền tảng',
+  'member.analytics.apply': 'Áp dụng',
+  'member.analytics.invalidRange': 'Hãy chọn khoảng thời gian hợp lệ, tối đa 366 ngày.',
+  'member.analytics.error': 'Không thể tải dữ liệu phân tích.',
+  'member.analytics.totalDownloads': 'Lượt tải',
+  'member.analytics.totalPointsSpent': 'Điểm đã dùng',
+  'member.analytics.balance': 'Số dư hiện tại',
+  'member.analytics.burnRate': 'Điểm mỗi ngày (7 ngày gần nhất)',
+  'member.analytics.projectedDepletion': 'Với tốc độ hiện tại, số dư sẽ hết vào khoảng {date}.',
+  'member.analytics.noBurn': 'Không dùng điểm nào trong 7 ngày gần nhất.',
+  'member.analytics.downloads': 'Lượt tải mỗi ngày',
+  'member.analytics.breakdown': 'Phân loại',
+  'member.analytics.byPlatform': 'Theo nền tảng',
+  'member.analytics.byNetworkArea': 'Theo khu vực mạng',
+  'member.analytics.pointsSpent': 'Điểm đã dùng mỗi ngày',
+  'member.analytics.topLinks': 'Liên kết hàng đầu',
+  'member.analytics.networkArea': 'Khu vực mạng',
+  'member.analytics.empty': 'Không có lượt tải trong khoảng này.',
+  'member.devices.title': 'Thiết bị thử nghiệm',
+  'member.devices.description': 'Các UDID thu thập từ người thử qua nút "Lấy UDID của tôi" trên trang tải xuống.',
+  'member.devices.empty': 'Chưa thu thập được thiết bị nào.',
+  'member.devices.unauthenticated': 'Vui lòng đăng nhập để xem thiết bị.',
+  'member.devices.export': 'Xuất cho Apple',
+  'member.devices.exportHint': 'Có thể tải tệp này lên Apple Developer tại Devices → Register Multiple Devices.',
+  'member.devices.table.udid': 'UDID',
+  'member.devices.table.model': 'Kiểu máy',
+  'member.devices.table.osVersion': 'Phiên bản iOS',
+  'member.devices.table.link': 'Liên kết',
+  'member.devices.table.updatedAt': 'Cập nhật lần cuối',
+  'member.tokens.title': 'Mã API',
+  'member.tokens.description': 'Mã truy cập cá nhân cho phép CI tải bản dựng lên và đọc thống kê của tài khoản bạn.',
+  'member.tokens.usageHint': 'Gửi mã dưới dạng "Authorization: Bearer <token>" tới các endpoint /api/v1. Ai có mã đều có thể thao tác trong phạm vi quyền của nó, hãy lưu mã trong phần bí mật của CI.',
+  'member.tokens.unauthenticated': 'Vui lòng đăng nhập để quản lý mã API.',
+  'member.tokens.name': 'Tên',
+  'member.tokens.namePlaceholder': 'ví dụ: Phát hành GitHub Actions',
+  'member.tokens.scopes': 'Quyền',
+  'member.tokens.scope.linksRead': 'Đọc liên kết',
+  'member.tokens.scope.linksWrite': 'Tải lên và phát hành',
+  'member.tokens.scope.statsRead': 'Đọc thống kê',
+  'member.tokens.create': 'Tạo mã',
+  'member.tokens.creating': 'Đang tạo…',
+  'member.tokens.secretNotice': 'Hãy sao chép mã ngay. Mã sẽ không được hiển thị lại.',
+  'member.tokens.copy': 'Sao chép',
+  'member.tokens.copied': 'Đã sao chép',
+  'member.tokens.revoke': 'Thu hồi',
+  'member.tokens.revokeConfirm': 'Thu hồi "{name}"? Các pipeline đang dùng sẽ ngừng hoạt động.',
+  'member.tokens.error': 'Đã xảy ra lỗi: {error}',
+  'member.tokens.empty': 'Chưa có mã nào.',
+  'member.tokens.never': 'Chưa bao giờ',
+  'member.tokens.table.name': 'Tên',
+  'member.tokens.table.prefix': 'Mã',
+  'member.tokens.table.scopes': 'Quyền',
+  'member.tokens.table.createdAt': 'Ngày tạo',
+  'member.tokens.table.lastUsedAt': 'Lần dùng cuối',
+  'member.webhooks.title': 'Webhook',
+  'member.webhooks.description': 'Nhận callback HTTPS khi liên kết thay đổi, lượt tải được ghi nhận, đơn hàng được thanh toán hoặc số dư sắp hết.',
+  'member.webhooks.signatureHint': 'Mỗi yêu cầu được ký bằng khóa bí mật của endpoint: header x-rudl-signature có dạng "t=<thời gian unix>,v1=<HMAC-SHA256 dạng hex của "<t>.<body>">". Dùng header idempotency-key để bỏ qua sự kiện trùng lặp.',
+  'member.webhooks.unauthenticated': 'Vui lòng đăng nhập để quản lý webhook.',
+  'member.webhooks.url': 'URL endpoint',
+  'member.webhooks.events': 'Sự kiện',
+  'member.webhooks.balanceThreshold': 'Ngưỡng cảnh báo số dư (điểm)',
+  'member.webhooks.thresholdValue': 'cảnh báo khi dưới {value} điểm',
+  'member.webhooks.create': 'Thêm endpoint',
+  'member.webhooks.creating': 'Đang thêm…',
+  'member.webhooks.secretNotice': 'Hãy sao chép khóa ký ngay. Khóa sẽ không được hiển thị lại.',
+  'member.webhooks.error': 'Đã xảy ra lỗi: {error}',
+  'member.webhooks.empty': 'Chưa có endpoint nào.',
+  'member.webhooks.active': 'Đang hoạt động',
+  'member.webhooks.paused': 'Đã tạm dừng',
+  'member.webhooks.pause': 'Tạm dừng',
+  'member.webhooks.resume': 'Tiếp tục',
+  'member.webhooks.delete': 'Xóa',
+  'member.webhooks.deleteConfirm': 'Xóa endpoint {url}? Các lần thử lại đang chờ sẽ bị hủy.',
+  'member.webhooks.deliveries': 'Lần gửi gần đây',
+  'member.webhooks.deliveriesEmpty': 'Chưa có lần gửi nào.',
+  'member.webhooks.refresh': 'Làm mới',
+  'member.webhooks.redeliver': 'Gửi lại',
+  'member.webhooks.nextAttempt': 'thử lại lúc {time}',
+  'member.webhooks.status.pending': 'Đang thử lại',
+  'member.webhooks.status.succeeded': 'Đã gửi',
+  'member.webhooks.status.failed': 'Thất bại',
+  'member.webhooks.table.createdAt': 'Thời gian',
+  'member.webhooks.table.event': 'Sự kiện',
+  'member.webhooks.table.endpoint': 'Endpoint',
+  'member.webhooks.table.status': 'Trạng thái',
+  'member.webhooks.table.attempts': 'Số lần thử',
+  'member.webhooks.table.response': 'Phản hồi',
   'member.basic.title': 'Thông tin hội viên',
   'member.basic.description': 'Tổng quan về tài khoản của bạn.',
   'member.basic.email': 'Tài khoản (email)',
@@ -1616,6 +2690,13 @@ const vi = makeLocaleDict('vi', {
   'member.basic.emailVerification.verified': 'Đã xác minh',
   'member.basic.emailVerification.pending': 'Chưa xác minh',
   'member.basic.emailVerification.cta': 'Tiến hành xác minh',
+  'member.pricing.title': 'Giá tải xuống',
+  'member.pricing.description': 'Số điểm bị trừ khỏi số dư cho mỗi lượt tải liên kết của bạn.',
+  'member.pricing.networkArea': 'Khu vực mạng',
+  'member.pricing.apk': 'Android (APK)',
+  'member.pricing.ipa': 'iOS (IPA)',
+  'member.pricing.discount': 'giảm {percent}%',
+  'member.pricing.custom': 'Giá riêng',
   'member.emailVerification.title': 'Xác minh email',
   'member.emailVerification.description': 'Gửi email xác minh để xác nhận bạn sở hữu địa chỉ này.',
   'member.emailVerification.emailLabel': 'Email đăng ký',
@@ -1745,6 +2826,12 @@ const vi = makeLocaleDict('vi', {
   'form.clearOverride': 'Xoá lựa chọn',
   'form.currentVersion': 'Phiên bản hiện tại',
   'form.currentSize': 'Kích thước hiện tại',
+  'form.releaseNotes': 'Ghi chú phát hành',
+  'form.releaseNotesPlaceholder': 'Những thay đổi trong bản dựng này (không bắt buộc)',
+  'form.linkReleaseNotes': 'Ghi chú phát hành của liên kết',
+  'form.linkReleaseNotesPlaceholder': 'Hiển thị trên trang tải xuống, phía trên ghi chú của từng bản dựng (không bắt buộc)',
+  'form.releaseNotesLanguage': 'Ngôn ngữ ghi chú',
+  'form.releaseNotesHint': 'Hỗ trợ Markdown cơ bản: # tiêu đề, - danh sách, **đậm**, *nghiêng*, `mã` và [liên kết](https://…). Mỗi ngôn ngữ có ghi chú riêng; khách truy cập thấy ngôn ngữ của họ hoặc ngôn ngữ của liên kết.',
   'form.cancel': 'Huỷ',
   'form.update': 'Cập nhật',
   'form.submit': 'Gửi',
@@ -1779,9 +2866,36 @@ const vi = makeLocaleDict('vi', {
   'downloadPage.detected': 'Đã phát hiện iOS',
   'downloadPage.language': 'Ngôn ngữ',
   'downloadPage.alertSafari': 'Vui lòng dùng Safari để cài ứng dụng iOS này.',
-  'downloadPage.alertPoints': 'Không đủ điểm. Vui lòng nạp thêm.',
-  'downloadPage.alertCheckFailed': 'Kiểm tra tải thất bại. Vui lòng thử lại sau.',
-  'downloadPage.alertNetworkError': 'Lỗi mạng. Vui lòng thử lại sau.',
+  'downloadPage.udidButton': 'Lấy UDID của tôi',
+  'downloadPage.udidHint': 'Đang thử bản ad-hoc? Nhấn "Lấy UDID của tôi" trong Safari và cài hồ sơ để gửi mã thiết bị cho nhà phát triển.',
+  'downloadPage.udidProfileName': 'Đăng ký thiết bị cho {title}',
+  'downloadPage.udidProfileDescription': 'Chia sẻ UDID, kiểu máy và phiên bản iOS của thiết bị này với nhà phát triển {title} để thêm vào bản thử nghiệm. Không có gì được cài lên thiết bị.',
+  'downloadPage.udidTitle': 'UDID thiết bị của bạn',
+  'downloadPage.udidCopy': 'Sao chép UDID',
+  'downloadPage.udidModel': 'Kiểu máy',
+  'downloadPage.udidOsVersion': 'Phiên bản iOS',
+  'downloadPage.udidStatus': 'Bản hiện tại',
+  'downloadPage.udidInProfile': 'Thiết bị này đã có trong bản hiện tại.',
+  'downloadPage.udidNotInProfile': 'Thiết bị này chưa có trong bản hiện tại. Nhà phát triển đã nhận UDID của bạn và cần phát hành bản mới.',
+  'downloadPage.udidUnknown': 'Bản hiện tại không có danh sách thiết bị nên không thể kiểm tra.',
+  'downloadPage.udidInvalid': 'Không đọc được UDID của thiết bị. Vui lòng cài lại hồ sơ từ Safari.',
+  'downloadPage.udidBack': 'Quay lại trang tải xuống',
+  'downloadPage.profileExpired': 'Hồ sơ ký của bản iOS này đã hết hạn nên không thể cài đặt nữa. Vui lòng liên hệ nhà phát triển để có bản mới.',
+  'downloadPage.passwordTitle': 'Yêu cầu mật khẩu',
+  'downloadPage.passwordPrompt': 'Trang tải xuống này được bảo vệ. Nhập mật khẩu hoặc mã truy cập để tiếp tục.',
+  'downloadPage.passwordLabel': 'Mật khẩu',
+  'downloadPage.passwordSubmit': 'Tiếp tục',
+  'downloadPage.passwordInvalid': 'Mật khẩu không đúng. Vui lòng thử lại.',
+  'downloadPage.passwordThrottled': 'Quá nhiều lần nhập sai. Vui lòng thử lại sau 15 phút.',
+  'downloadPage.expiredTitle': 'Liên kết này đã hết hạn',
+  'downloadPage.expiredMessage': 'Thời gian tải bản dựng này đã kết thúc. Vui lòng liên hệ nhà phát triển để nhận liên kết mới.',
+  'downloadPage.limitTitle': 'Đã đạt giới hạn lượt tải',
+  'downloadPage.limitMessage': 'Bản dựng này đã đạt số lượt tải tối đa. Vui lòng liên hệ nhà phát triển để nhận liên kết mới.',
+  'downloadPage.comingSoonTitle': 'Sắp ra mắt',
+  'downloadPage.comingSoonMessage': 'Ứng dụng sẽ có sẵn từ {time}.',
+  'downloadPage.platformLimitReached': '{platform} đã đạt giới hạn lượt tải.',
+  'downloadPage.qrHint': 'Quét bằng điện thoại để cài đặt',
+  'downloadPage.releaseNotes': 'Có gì mới',
   'downloadPage.missingMetadata': 'Thiếu metadata: {items}',
   'auth.register.invalidEmail': 'Vui l\xf2ng nh\u1eadp email h\u1ee3p l\u1ec7',
   'emailVerification.title': 'X\xe1c minh email',
@@ -0,0 +1,200 @@
+// Member analytics across all of an account's links: daily downloads by platform and network
+// area from the download stats store, top links, points spent per day from `point_ledger`
+// and when the balance runs out at the recent burn rate.
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { fetchAccountBalance } from './dashboard';
+import { fetchDistributionSummariesByOwner } from './distribution';
+import { fetchOwnerDownloadStatsRange } from './downloads';
+import type { NetworkArea } from './network-area';
+
+export type AnalyticsPlatform = 'all' | 'apk' | 'ipa';
+
+export type AnalyticsDay = {
+  date: string;
+  apk: number;
+  ipa: number;
+  total: number;
+  byNetworkArea: Record<NetworkArea, number>;
+};
+
+export type AnalyticsTopLink = {
+  id: string;
+  code: string;
+  title: string | null;
+  networkArea: NetworkArea;
+  apk: number;
+  ipa: number;
+  total: number;
+};
+
+export type AnalyticsPointsDay = { date: string; points: number };
+
+export type AccountAnalytics = {
+  from: string;
+  to: string;
+  platform: AnalyticsPlatform;
+  downloads: AnalyticsDay[];
+  topLinks: AnalyticsTopLink[];
+  pointsSpent: AnalyticsPointsDay[];
+  balance: number;
+  /** Average points spent per day over the last `BURN_RATE_DAYS` days, whatever the range. */
+  burnRate: number;
+  /** `YYYY-MM-DD` the balance reaches zero at `burnRate`; null while nothing is spent. */
+  projectedDepletionDate: string | null;
+};
+
+export const MAX_ANALYTICS_DAYS = 366;
+export const BURN_RATE_DAYS = 7;
+const TOP_LINKS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const toNumber = (value: unknown): number => {
+  const numeric = Number(value ?? 0);
+  return Number.isFinite(numeric) ? numeric : 0;
+};
+
+export const isAnalyticsPlatform = (value: unknown): value is AnalyticsPlatform =>
+  value === 'all' || value === 'apk' || value === 'ipa';
+
+const listDays = (startDate: string, endDate: string) => {
+  const days: string[] = [];
+  for (
+    let time = Date.parse(`${startDate}T00:00:00Z`);
+    time <= Date.parse(`${endDate}T00:00:00Z`);
+    time += DAY_MS
+  ) {
+    days.push(formatDate(new Date(time)));
+  }
+  return days;
+};
+
+export const DEFAULT_ANALYTICS_DAYS = 30;
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * `from`/`to` as `YYYY-MM-DD` (the last `DEFAULT_ANALYTICS_DAYS` days by default). Null when
+ * they are malformed, reversed or further apart than `MAX_ANALYTICS_DAYS`.
+ */
+export function resolveAnalyticsRange(
+  fromParam: string | null | undefined,
+  toParam: string | null | undefined,
+  now = new Date()
+): { startDate: string; endDate: string } | null {
+  const endDate = toParam || formatDate(now);
+  const startDate =
+    fromParam || formatDate(new Date(Date.parse(`${endDate}T00:00:00Z`) - (DEFAULT_ANALYTICS_DAYS - 1) * DAY_MS));
+  if (!DAY_KEY.test(startDate) || !DAY_KEY.test(endDate)) return null;
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  if (Number.isNaN(start) || Number.isNaN(end) || start > end) return null;
+  if ((end - start) / DAY_MS + 1 > MAX_ANALYTICS_DAYS) return null;
+  return { startDate, endDate };
+}
+
+/** Points deducted per UTC day between two epoch seconds; refunds and recharges are not spending. */
+async function fetchPointsSpent(
+  DB: D1Database,
+  ownerId: string,
+  from: number,
+  to: number,
+  platform: AnalyticsPlatform
+) {
+  const platformFilter = platform === 'all' ? '' : ' AND platform=?';
+  try {
+    const result = await DB.prepare(
+      `SELECT date(created_at, 'unixepoch') AS date, SUM(-delta) AS points
+       FROM point_ledger
+       WHERE account_id=? AND delta < 0 AND created_at BETWEEN ? AND ?${platformFilter}
+       GROUP BY date`
+    )
+      .bind(...[ownerId, from, to, ...(platform === 'all' ? [] : [platform])])
+      .all<{ date: string; points: number | string | null }>();
+    return new Map((result?.results ?? []).map((row) => [row.date, toNumber(row.points)]));
+  } catch (error) {
+    console.warn('[analytics] unable to read point_ledger', error);
+    return new Map<string, number>();
+  }
+}
+
+/** Analytics for the UTC days `startDate`..`endDate` (`YYYY-MM-DD`, inclusive). */
+export async function fetchAccountAnalytics(
+  DB: D1Database,
+  ownerId: string,
+  startDate: string,
+  endDate: string,
+  platform: AnalyticsPlatform,
+  now = new Date()
+): Promise<AccountAnalytics> {
+  const days = listDays(startDate, endDate);
+  const burnStart = new Date(now.getTime() - (BURN_RATE_DAYS - 1) * DAY_MS);
+  const toEpoch = (date: string, endOfDay: boolean) =>
+    Math.floor(Date.parse(`${date}T${endOfDay ? '23:59:59' : '00:00:00'}Z`) / 1000);
+
+  const [links, statsRows, pointsByDay, burnPoints, balance] = await Promise.all([
+    fetchDistributionSummariesByOwner(DB, ownerId),
+    fetchOwnerDownloadStatsRange(DB, ownerId, startDate, endDate),
+    fetchPointsSpent(DB, ownerId, toEpoch(startDate, false), toEpoch(endDate, true), platform),
+    // The burn rate covers all platforms: it is about the balance, not the filter.
+    fetchPointsSpent(DB, ownerId, toEpoch(formatDate(burnStart), false), Math.floor(now.getTime() / 1000), 'all'),
+    fetchAccountBalance(DB, ownerId),
+  ]);
+
+  const linkById = new Map(links.map((link) => [link.id, link]));
+  const downloads = new Map<string, AnalyticsDay>(
+    days.map((date) => [date, { date, apk: 0, ipa: 0, total: 0, byNetworkArea: { global: 0, CN: 0, RU: 0 } }])
+  );
+  const byLink = new Map<string, AnalyticsTopLink>();
+
+  for (const row of statsRows) {
+    const link = linkById.get(row.link_id);
+    const day = downloads.get(row.date);
+    if (!link || !day) continue;
+    const apk = platform === 'ipa' ? 0 : toNumber(row.apk_dl);
+    const ipa = platform === 'apk' ? 0 : toNumber(row.ipa_dl);
+    day.apk += apk;
+    day.ipa += ipa;
+    day.total += apk + ipa;
+    day.byNetworkArea[link.networkArea] += apk + ipa;
+
+    const entry = byLink.get(link.id) ?? {
+      id: link.id,
+      code: link.code,
+      title: link.title,
+      networkArea: link.networkArea,
+      apk: 0,
+      ipa: 0,
+      total: 0,
+    };
+    entry.apk += apk;
+    entry.ipa += ipa;
+    entry.total += apk + ipa;
+    byLink.set(link.id, entry);
+  }
+
+  const burnRate =
+    Array.from(burnPoints.values()).reduce((total, points) => total + points, 0) / BURN_RATE_DAYS;
+  let projectedDepletionDate: string | null = null;
+  if (burnRate > 0) {
+    const daysLeft = Math.max(0, Math.floor(balance / burnRate));
+    projectedDepletionDate = formatDate(new Date(now.getTime() + daysLeft * DAY_MS));
+  }
+
+  return {
+    from: startDate,
+    to: endDate,
+    platform,
+    downloads: Array.from(downloads.values()),
+    topLinks: Array.from(byLink.values())
+      .filter((entry) => entry.total > 0)
+      .sort((a, b) => b.total - a.total)
+      .slice(0, TOP_LINKS),
+    pointsSpent: days.map((date) => ({ date, points: pointsByDay.get(date) ?? 0 })),
+    balance,
+    burnRate,
+    projectedDepletionDate,
+  };
+}
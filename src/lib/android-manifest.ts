@@ -0,0 +1,165 @@
+// Minimal reader for the compiled (binary XML) AndroidManifest.xml inside an APK.
+// Only the <manifest> and <application> attributes we publish are extracted.
+
+export type AndroidManifestInfo = {
+  packageName: string | null;
+  versionName: string | null;
+  versionCode: string | null;
+  /** Literal label; resource references (e.g. @string/app_name) are returned as null. */
+  label: string | null;
+  /** Resource id of `<application android:icon>`, resolved through resources.arsc. */
+  iconResourceId: number | null;
+};
+
+const CHUNK_STRING_POOL = 0x0001;
+const CHUNK_XML = 0x0003;
+const CHUNK_RESOURCE_MAP = 0x0180;
+const CHUNK_START_ELEMENT = 0x0102;
+
+const TYPE_REFERENCE = 0x01;
+const TYPE_STRING = 0x03;
+const TYPE_INT_DEC = 0x10;
+const TYPE_INT_HEX = 0x11;
+
+const UTF8_FLAG = 0x100;
+const NO_INDEX = 0xffffffff;
+
+// android:label, android:icon, android:versionCode and android:versionName; used when the
+// attribute names have been stripped and only the resource map identifies them.
+const RESOURCE_ATTRIBUTE_NAMES: Record<number, string> = {
+  0x01010001: 'label',
+  0x01010002: 'icon',
+  0x0101021b: 'versionCode',
+  0x0101021c: 'versionName',
+};
+
+/** One string of the string pool chunk at `chunk`; shared with the resources.arsc reader. */
+export function readPoolString(
+  data: DataView,
+  bytes: Uint8Array,
+  chunk: number,
+  index: number
+): string | null {
+  const headerSize = data.getUint16(chunk + 2, true);
+  const count = data.getUint32(chunk + 8, true);
+  if (index < 0 || index >= count) return null;
+  const flags = data.getUint32(chunk + 16, true);
+  const stringsStart = data.getUint32(chunk + 20, true);
+  let cursor = chunk + stringsStart + data.getUint32(chunk + headerSize + index * 4, true);
+
+  if (flags & UTF8_FLAG) {
+    // UTF-16 length first (skipped), then the UTF-8 byte length; each is 1 or 2 bytes.
+    cursor += data.getUint8(cursor) & 0x80 ? 2 : 1;
+    let length = data.getUint8(cursor);
+    if (length & 0x80) {
+      length = ((length & 0x7f) << 8) | data.getUint8(cursor + 1);
+      cursor += 2;
+    } else {
+      cursor += 1;
+    }
+    return new TextDecoder().decode(bytes.subarray(cursor, cursor + length));
+  }
+
+  let length = data.getUint16(cursor, true);
+  if (length & 0x8000) {
+    length = ((length & 0x7fff) << 16) | data.getUint16(cursor + 2, true);
+    cursor += 4;
+  } else {
+    cursor += 2;
+  }
+  let text = '';
+  for (let j = 0; j < length; j += 1) {
+    text += String.fromCharCode(data.getUint16(cursor + j * 2, true));
+  }
+  return text;
+}
+
+function readStringPool(data: DataView, bytes: Uint8Array, chunk: number): string[] {
+  const count = data.getUint32(chunk + 8, true);
+  const strings: string[] = [];
+  for (let i = 0; i < count; i += 1) {
+    strings.push(readPoolString(data, bytes, chunk, i) ?? '');
+  }
+  return strings;
+}
+
+export function parseAndroidManifest(bytes: Uint8Array): AndroidManifestInfo {
+  const data = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 8 || data.getUint16(0, true) !== CHUNK_XML) {
+    throw new Error('ANDROID_MANIFEST_INVALID');
+  }
+
+  const info: AndroidManifestInfo = {
+    packageName: null,
+    versionName: null,
+    versionCode: null,
+    label: null,
+    iconResourceId: null,
+  };
+  let strings: string[] = [];
+  let resourceIds: number[] = [];
+  let seenApplication = false;
+
+  let chunk = data.getUint16(2, true);
+  while (chunk + 8 <= bytes.length) {
+    const type = data.getUint16(chunk, true);
+    const size = data.getUint32(chunk + 4, true);
+    if (size < 8) break;
+
+    if (type === CHUNK_STRING_POOL) {
+      strings = readStringPool(data, bytes, chunk);
+    } else if (type === CHUNK_RESOURCE_MAP) {
+      const headerSize = data.getUint16(chunk + 2, true);
+      resourceIds = [];
+      for (let offset = chunk + headerSize; offset + 4 <= chunk + size; offset += 4) {
+        resourceIds.push(data.getUint32(offset, true));
+      }
+    } else if (type === CHUNK_START_ELEMENT) {
+      const element = strings[data.getUint32(chunk + 20, true)] ?? '';
+      const isManifest = element === 'manifest';
+      const isApplication = element === 'application' && !seenApplication;
+      if (isManifest || isApplication) {
+        const attributeStart = data.getUint16(chunk + 24, true);
+        const attributeSize = data.getUint16(chunk + 26, true);
+        const attributeCount = data.getUint16(chunk + 28, true);
+        for (let i = 0; i < attributeCount; i += 1) {
+          const attr = chunk + 16 + attributeStart + i * attributeSize;
+          const nameIndex = data.getUint32(attr + 4, true);
+          const name =
+            strings[nameIndex] || RESOURCE_ATTRIBUTE_NAMES[resourceIds[nameIndex] ?? 0] || '';
+          const rawValue = data.getUint32(attr + 8, true);
+          const dataType = data.getUint8(attr + 15);
+          const value = data.getUint32(attr + 16, true);
+
+          let text: string | null = null;
+          if (rawValue !== NO_INDEX) {
+            text = strings[rawValue] ?? null;
+          } else if (dataType === TYPE_STRING) {
+            text = strings[value] ?? null;
+          } else if (dataType === TYPE_INT_DEC || dataType === TYPE_INT_HEX) {
+            text = String(value | 0);
+          } else if (dataType === TYPE_REFERENCE) {
+            text = null;
+          }
+
+          if (isManifest) {
+            if (name === 'package') info.packageName = text;
+            if (name === 'versionName') info.versionName = text;
+            if (name === 'versionCode') info.versionCode = text;
+          } else if (name === 'label') {
+            info.label = text && !text.startsWith('@') ? text : null;
+          } else if (name === 'icon' && dataType === TYPE_REFERENCE && rawValue === NO_INDEX) {
+            info.iconResourceId = value || null;
+          }
+        }
+        if (isApplication) {
+          seenApplication = true;
+          break;
+        }
+      }
+    }
+    chunk += size;
+  }
+
+  return info;
+}
@@ -0,0 +1,149 @@
+// Minimal reader for an APK's compiled resource table (resources.arsc): resolves a
+// resource id such as @mipmap/ic_launcher to the files it points at in each configuration.
+
+import { readPoolString } from './android-manifest';
+
+export type ResourceFile = {
+  path: string;
+  /** Screen density of the configuration, in dpi; 0 for density-independent entries. */
+  density: number;
+};
+
+const CHUNK_STRING_POOL = 0x0001;
+const CHUNK_TABLE = 0x0002;
+const CHUNK_PACKAGE = 0x0200;
+const CHUNK_TYPE = 0x0201;
+
+const TYPE_REFERENCE = 0x01;
+const TYPE_STRING = 0x03;
+
+const FLAG_SPARSE = 0x01;
+const FLAG_OFFSET16 = 0x02;
+const ENTRY_FLAG_COMPLEX = 0x0001;
+const ENTRY_FLAG_COMPACT = 0x0008;
+const NO_ENTRY = 0xffffffff;
+const NO_ENTRY16 = 0xffff;
+
+const DENSITY_DEFAULT = 0;
+const DENSITY_ANY = 0xfffe;
+const DENSITY_NONE = 0xffff;
+const MDPI = 160;
+
+// References between resources (e.g. @mipmap/ic_launcher -> @drawable/app_icon) are
+// followed this many levels deep.
+const MAX_REFERENCE_DEPTH = 4;
+
+type ResolvedValue = { dataType: number; value: number; density: number };
+
+function readDensity(data: DataView, type: number) {
+  // ResTable_config starts at offset 20: size, imsi, locale, then orientation,
+  // touchscreen and the 16-bit density.
+  const density = data.getUint16(type + 20 + 14, true);
+  if (density === DENSITY_DEFAULT) return MDPI;
+  if (density === DENSITY_ANY || density === DENSITY_NONE) return 0;
+  return density;
+}
+
+function readEntryOffset(data: DataView, type: number, entryIndex: number): number | null {
+  const headerSize = data.getUint16(type + 2, true);
+  const flags = data.getUint8(type + 9);
+  const entryCount = data.getUint32(type + 12, true);
+  const offsets = type + headerSize;
+
+  if (flags & FLAG_SPARSE) {
+    for (let i = 0; i < entryCount; i += 1) {
+      if (data.getUint16(offsets + i * 4, true) === entryIndex) {
+        return data.getUint16(offsets + i * 4 + 2, true) * 4;
+      }
+    }
+    return null;
+  }
+  if (entryIndex >= entryCount) return null;
+  if (flags & FLAG_OFFSET16) {
+    const offset = data.getUint16(offsets + entryIndex * 2, true);
+    return offset === NO_ENTRY16 ? null : offset * 4;
+  }
+  const offset = data.getUint32(offsets + entryIndex * 4, true);
+  return offset === NO_ENTRY ? null : offset;
+}
+
+function readTypeValue(data: DataView, type: number, entryIndex: number): ResolvedValue | null {
+  const offset = readEntryOffset(data, type, entryIndex);
+  if (offset === null) return null;
+  const entry = type + data.getUint32(type + 16, true) + offset;
+  if (entry + 8 > data.byteLength) return null;
+
+  const entrySize = data.getUint16(entry, true);
+  const entryFlags = data.getUint16(entry + 2, true);
+  const density = readDensity(data, type);
+  if (entryFlags & ENTRY_FLAG_COMPACT) {
+    return { dataType: entryFlags >> 8, value: data.getUint32(entry + 4, true), density };
+  }
+  if (entryFlags & ENTRY_FLAG_COMPLEX) return null;
+  const value = entry + entrySize;
+  if (value + 8 > data.byteLength) return null;
+  return { dataType: data.getUint8(value + 3), value: data.getUint32(value + 4, true), density };
+}
+
+function collectValues(data: DataView, resourceId: number): ResolvedValue[] {
+  const packageId = resourceId >>> 24;
+  const typeId = (resourceId >>> 16) & 0xff;
+  const entryIndex = resourceId & 0xffff;
+  const values: ResolvedValue[] = [];
+
+  let chunk = data.getUint16(2, true);
+  while (chunk + 8 <= data.byteLength) {
+    const chunkType = data.getUint16(chunk, true);
+    const chunkSize = data.getUint32(chunk + 4, true);
+    if (chunkSize < 8) break;
+    if (chunkType === CHUNK_PACKAGE && data.getUint32(chunk + 8, true) === packageId) {
+      const end = Math.min(chunk + chunkSize, data.byteLength);
+      let inner = chunk + data.getUint16(chunk + 2, true);
+      while (inner + 8 <= end) {
+        const innerType = data.getUint16(inner, true);
+        const innerSize = data.getUint32(inner + 4, true);
+        if (innerSize < 8) break;
+        if (innerType === CHUNK_TYPE && data.getUint8(inner + 8) === typeId) {
+          const value = readTypeValue(data, inner, entryIndex);
+          if (value) values.push(value);
+        }
+        inner += innerSize;
+      }
+    }
+    chunk += chunkSize;
+  }
+  return values;
+}
+
+/**
+ * Every file `resourceId` resolves to across configurations, best first: bitmaps before
+ * XML drawables, then by descending density.
+ */
+export function resolveResourceFiles(bytes: Uint8Array, resourceId: number): ResourceFile[] {
+  const data = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || data.getUint16(0, true) !== CHUNK_TABLE) {
+    throw new Error('ANDROID_RESOURCES_INVALID');
+  }
+  const globalPool = data.getUint16(2, true);
+  if (data.getUint16(globalPool, true) !== CHUNK_STRING_POOL) {
+    throw new Error('ANDROID_RESOURCES_INVALID');
+  }
+
+  const files = new Map<string, ResourceFile>();
+  const visit = (id: number, depth: number) => {
+    for (const resolved of collectValues(data, id)) {
+      if (resolved.dataType === TYPE_STRING) {
+        const path = readPoolString(data, bytes, globalPool, resolved.value);
+        if (path && !files.has(path)) files.set(path, { path, density: resolved.density });
+      } else if (resolved.dataType === TYPE_REFERENCE && resolved.value) {
+        if (depth < MAX_REFERENCE_DEPTH) visit(resolved.value, depth + 1);
+      }
+    }
+  };
+  visit(resourceId, 0);
+
+  const isBitmap = (path: string) => /\.(png|webp)$/i.test(path);
+  return Array.from(files.values()).sort(
+    (a, b) => Number(isBitmap(b.path)) - Number(isBitmap(a.path)) || b.density - a.density
+  );
+}
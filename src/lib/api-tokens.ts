@@ -0,0 +1,215 @@
+// Personal access tokens for the `/api/v1` endpoints used by CI pipelines. Only a SHA-256
+// of each token is stored; the token itself is shown once, when it is created.
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { toBase64Url } from './signing';
+
+export const API_TOKEN_SCOPES = ['links:read', 'links:write', 'stats:read'] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export type ApiToken = {
+  id: string;
+  ownerId: string;
+  name: string;
+  /** First characters of the token, enough to tell tokens apart in the member area. */
+  prefix: string;
+  scopes: ApiTokenScope[];
+  createdAt: number;
+  lastUsedAt: number | null;
+};
+
+export type ApiTokenAuthResult =
+  | { ok: true; token: ApiToken }
+  | { ok: false; error: 'UNAUTHENTICATED' | 'INVALID_TOKEN' | 'INSUFFICIENT_SCOPE'; status: 401 | 403 };
+
+const TOKEN_PREFIX = 'rudl_pat_';
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+export const MAX_API_TOKENS_PER_OWNER = 20;
+export const MAX_API_TOKEN_NAME_LENGTH = 64;
+// last_used_at is informational; refreshing it at most once a minute keeps CI bursts cheap.
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+type ApiTokenRow = {
+  id: string;
+  owner_id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string | null;
+  created_at: number | string;
+  last_used_at: number | string | null;
+};
+
+let tokenTableReady: Promise<void> | null = null;
+
+const ensureApiTokenTable = (DB: D1Database) => {
+  if (!tokenTableReady) {
+    tokenTableReady = DB.prepare(
+      `CREATE TABLE IF NOT EXISTS api_tokens (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER,
+        revoked_at INTEGER
+      )`
+    )
+      .run()
+      .then(() => undefined)
+      .catch((error) => {
+        tokenTableReady = null;
+        throw error;
+      });
+  }
+  return tokenTableReady;
+};
+
+const isApiTokenScope = (value: unknown): value is ApiTokenScope =>
+  typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+
+/** Known scopes from a request body, deduplicated; null when none is valid. */
+export function normalizeApiTokenScopes(input: unknown): ApiTokenScope[] | null {
+  const values = Array.isArray(input) ? input : typeof input === 'string' ? input.split(',') : [];
+  const requested = new Set(values.map((value) => (typeof value === 'string' ? value.trim() : '')));
+  const scopes = API_TOKEN_SCOPES.filter((scope) => requested.has(scope));
+  return scopes.length ? scopes : null;
+}
+
+async function hashApiToken(secret: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const toApiToken = (row: ApiTokenRow): ApiToken => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  name: row.name,
+  prefix: row.token_prefix,
+  scopes: (row.scopes ?? '').split(',').filter(isApiTokenScope),
+  createdAt: Number(row.created_at) || 0,
+  lastUsedAt: row.last_used_at == null ? null : Number(row.last_used_at) || null,
+});
+
+export async function listApiTokens(DB: D1Database, ownerId: string): Promise<ApiToken[]> {
+  await ensureApiTokenTable(DB);
+  const result = await DB.prepare(
+    `SELECT id, owner_id, name, token_prefix, scopes, created_at, last_used_at
+     FROM api_tokens WHERE owner_id=? AND revoked_at IS NULL ORDER BY created_at DESC`
+  )
+    .bind(ownerId)
+    .all<ApiTokenRow>();
+  return (result.results ?? []).map(toApiToken);
+}
+
+/** Creates a token; `secret` is the only copy of the token and must be shown to the user. */
+export async function createApiToken(
+  DB: D1Database,
+  ownerId: string,
+  input: { name: string; scopes: ApiTokenScope[] }
+): Promise<{ token: ApiToken; secret: string }> {
+  await ensureApiTokenTable(DB);
+  const active = await DB.prepare(
+    'SELECT COUNT(*) AS count FROM api_tokens WHERE owner_id=? AND revoked_at IS NULL'
+  )
+    .bind(ownerId)
+    .first<{ count: number }>();
+  if ((active?.count ?? 0) >= MAX_API_TOKENS_PER_OWNER) {
+    throw new Error('TOKEN_LIMIT_REACHED');
+  }
+
+  const secret = `${TOKEN_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+  const token: ApiToken = {
+    id: crypto.randomUUID(),
+    ownerId,
+    name: input.name,
+    prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: input.scopes,
+    createdAt: Math.floor(Date.now() / 1000),
+    lastUsedAt: null,
+  };
+  await DB.prepare(
+    `INSERT INTO api_tokens (id, owner_id, name, token_hash, token_prefix, scopes, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      token.id,
+      ownerId,
+      token.name,
+      await hashApiToken(secret),
+      token.prefix,
+      token.scopes.join(','),
+      token.createdAt
+    )
+    .run();
+  return { token, secret };
+}
+
+/** Returns false when the token does not exist, belongs to someone else or is already revoked. */
+export async function revokeApiToken(DB: D1Database, ownerId: string, id: string) {
+  await ensureApiTokenTable(DB);
+  const result = await DB.prepare(
+    'UPDATE api_tokens SET revoked_at=? WHERE id=? AND owner_id=? AND revoked_at IS NULL'
+  )
+    .bind(Math.floor(Date.now() / 1000), id, ownerId)
+    .run();
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/** Checks the request's `Authorization: Bearer` token and that it grants `scope`. */
+export async function authenticateApiToken(
+  DB: D1Database,
+  req: Request,
+  scope: ApiTokenScope
+): Promise<ApiTokenAuthResult> {
+  const header = req.headers.get('authorization') ?? '';
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  if (!match) return { ok: false, error: 'UNAUTHENTICATED', status: 401 };
+  const secret = match[1];
+  if (!secret.startsWith(TOKEN_PREFIX)) return { ok: false, error: 'INVALID_TOKEN', status: 401 };
+
+  await ensureApiTokenTable(DB);
+  const row = await DB.prepare(
+    `SELECT id, owner_id, name, token_prefix, scopes, created_at, last_used_at
+     FROM api_tokens WHERE token_hash=? AND revoked_at IS NULL LIMIT 1`
+  )
+    .bind(await hashApiToken(secret))
+    .first<ApiTokenRow>();
+  if (!row) return { ok: false, error: 'INVALID_TOKEN', status: 401 };
+
+  const token = toApiToken(row);
+  if (!token.scopes.includes(scope)) return { ok: false, error: 'INSUFFICIENT_SCOPE', status: 403 };
+
+  const now = Math.floor(Date.now() / 1000);
+  if (!token.lastUsedAt || now - token.lastUsedAt >= LAST_USED_RESOLUTION_SECONDS) {
+    await DB.prepare('UPDATE api_tokens SET last_used_at=? WHERE id=?')
+      .bind(now, token.id)
+      .run()
+      .catch(() => null);
+    token.lastUsedAt = now;
+  }
+  return { ok: true, token };
+}
+
+/**
+ * Re-issues a token-authenticated request as the token's owner, so the `/api/v1` routes can
+ * hand it to the cookie-authenticated distribution handlers unchanged.
+ */
+export function asTokenOwnerRequest(
+  req: Request,
+  ownerId: string,
+  init: { url?: string; method?: string; body?: unknown } = {}
+) {
+  const headers = new Headers({ cookie: `uid=${ownerId}` });
+  const hasBody = init.body !== undefined;
+  if (hasBody) headers.set('content-type', 'application/json');
+  return new Request(init.url ?? req.url, {
+    method: init.method ?? req.method,
+    headers,
+    body: hasBody ? JSON.stringify(init.body) : undefined,
+  });
+}
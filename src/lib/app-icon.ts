@@ -0,0 +1,185 @@
+// Finds the launcher icon inside an IPA or APK so download pages, the dashboard and the
+// iOS install manifest can show it. Extraction is best effort: any failure means "no icon".
+
+import { resolveResourceFiles } from './android-resources';
+import { getRegionalDownloadBaseUrl, type RegionalServerBindings } from './regional-server';
+import { isRegionalNetworkArea, type NetworkArea } from './network-area';
+import { isPlistDict, type PlistDict, type PlistValue } from './plist-parser';
+import { isPng, readPngHeader, uncrushPng } from './png';
+import { readZipEntry, type RangeReader, type ZipEntry } from './zip-reader';
+
+export type AppIcon = {
+  bytes: Uint8Array;
+  contentType: 'image/png' | 'image/webp';
+};
+
+const CDN_BASE = 'https://cdn.dataruapp.com/';
+
+// Icons are small; larger entries are not worth reading to compare sizes.
+const MAX_ICON_SIZE = 2 * 1024 * 1024;
+// IPAs ship one PNG per size and scale; only the biggest few are read to find the largest.
+const MAX_IPA_CANDIDATES = 4;
+const MAX_RESOURCES_SIZE = 24 * 1024 * 1024;
+
+const ANDROID_DENSITIES: Record<string, number> = {
+  ldpi: 120,
+  mdpi: 160,
+  tvdpi: 213,
+  hdpi: 240,
+  xhdpi: 320,
+  xxhdpi: 480,
+  xxxhdpi: 640,
+};
+
+function encodeRfc3986Path(path: string) {
+  return path
+    .split('/')
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+      )
+    )
+    .join('/');
+}
+
+/** Public URL of a stored icon: the CDN for R2 links, the regional file host for CN/RU. */
+export function getAppIconUrl(
+  iconKey: string | null | undefined,
+  networkArea: NetworkArea,
+  bindings?: Partial<RegionalServerBindings>
+): string | null {
+  if (!iconKey) return null;
+  const path = encodeRfc3986Path(iconKey.replace(/^\/+/, ''));
+  return isRegionalNetworkArea(networkArea)
+    ? `${getRegionalDownloadBaseUrl(networkArea, bindings)}/files/${path}`
+    : `${CDN_BASE}${path}`;
+}
+
+/** Storage key for a package's icon: the package key with an `-icon.<ext>` suffix. */
+export const getAppIconKey = (packageKey: string, icon: AppIcon) =>
+  `${packageKey.replace(/\.[^./]*$/, '')}-icon.${
+    icon.contentType === 'image/webp' ? 'webp' : 'png'
+  }`;
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const toStrings = (value: PlistValue | undefined): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return [];
+};
+
+/** Icon file name prefixes declared in Info.plist, modern keys first. */
+function readIpaIconNames(plist: PlistDict): string[] {
+  const names: string[] = [];
+  for (const key of ['CFBundleIcons', 'CFBundleIcons~ipad']) {
+    const icons = plist[key];
+    const primary = isPlistDict(icons) ? icons.CFBundlePrimaryIcon : undefined;
+    if (isPlistDict(primary)) {
+      names.push(...toStrings(primary.CFBundleIconFiles), ...toStrings(primary.CFBundleIconName));
+    }
+  }
+  names.push(...toStrings(plist.CFBundleIconFiles), ...toStrings(plist.CFBundleIconFile));
+  const prefixes = names.map((name) => name.replace(/\.png$/i, '').toLowerCase()).filter(Boolean);
+  return prefixes.length ? Array.from(new Set(prefixes)) : ['appicon', 'icon'];
+}
+
+/**
+ * The largest PNG matching the icon names in Info.plist, converted from Xcode's CgBI
+ * format. `appDir` is the `Payload/<name>.app/` prefix.
+ */
+export async function extractIpaIcon(
+  reader: RangeReader,
+  entries: ZipEntry[],
+  appDir: string,
+  plist: PlistDict
+): Promise<AppIcon | null> {
+  const prefixes = readIpaIconNames(plist);
+  const candidates = entries
+    .filter((entry) => {
+      if (!entry.name.startsWith(appDir) || entry.uncompressedSize > MAX_ICON_SIZE) return false;
+      const name = entry.name.slice(appDir.length).toLowerCase();
+      return (
+        !name.includes('/') &&
+        name.endsWith('.png') &&
+        prefixes.some((prefix) => name.startsWith(prefix))
+      );
+    })
+    .sort((a, b) => b.uncompressedSize - a.uncompressedSize)
+    .slice(0, MAX_IPA_CANDIDATES);
+
+  let best: { bytes: Uint8Array; width: number } | null = null;
+  for (const entry of candidates) {
+    const bytes = await readZipEntry(reader, entry, MAX_ICON_SIZE);
+    const width = readPngHeader(bytes)?.width ?? 0;
+    if (width && (!best || width > best.width)) best = { bytes, width };
+  }
+  if (!best) return null;
+
+  const png = await uncrushPng(best.bytes);
+  return png ? { bytes: png, contentType: 'image/png' } : null;
+}
+
+function densityFromPath(path: string) {
+  const qualifiers = path.split('/')[1]?.split('-') ?? [];
+  for (const qualifier of qualifiers) {
+    if (qualifier in ANDROID_DENSITIES) return ANDROID_DENSITIES[qualifier];
+  }
+  return ANDROID_DENSITIES.mdpi;
+}
+
+/** Bitmaps named `name` in any mipmap/drawable folder, highest density first. */
+const findLauncherBitmaps = (entries: ZipEntry[], name: string) =>
+  entries
+    .filter((entry) => {
+      const match = /^res\/(?:mipmap|drawable)[^/]*\/([^/]+)\.(?:png|webp)$/i.exec(entry.name);
+      return Boolean(match) && match![1] === name && !entry.name.endsWith('.9.png');
+    })
+    .map((entry) => entry.name)
+    .sort((a, b) => densityFromPath(b) - densityFromPath(a));
+
+/**
+ * The launcher icon of an APK: `iconResourceId` is resolved through resources.arsc when
+ * possible; adaptive (XML) icons and unreadable tables fall back to the legacy bitmaps
+ * that share the icon's name, then to `ic_launcher`.
+ */
+export async function extractApkIcon(
+  reader: RangeReader,
+  entries: ZipEntry[],
+  iconResourceId: number | null
+): Promise<AppIcon | null> {
+  const paths: string[] = [];
+  let iconName = 'ic_launcher';
+
+  const table = entries.find((entry) => entry.name === 'resources.arsc');
+  if (iconResourceId && table) {
+    try {
+      const resources = await readZipEntry(reader, table, MAX_RESOURCES_SIZE);
+      const files = resolveResourceFiles(resources, iconResourceId);
+      paths.push(
+        ...files.filter((file) => /\.(png|webp)$/i.test(file.path)).map((file) => file.path)
+      );
+      if (files[0]) iconName = baseName(files[0].path).replace(/\..*$/, '');
+    } catch {
+      // Unreadable resources.arsc: fall back to the launcher bitmaps below.
+    }
+  }
+  paths.push(...findLauncherBitmaps(entries, iconName));
+  if (iconName !== 'ic_launcher') paths.push(...findLauncherBitmaps(entries, 'ic_launcher'));
+
+  for (const path of paths) {
+    const entry = entries.find((candidate) => candidate.name === path);
+    if (!entry || entry.uncompressedSize > MAX_ICON_SIZE || path.endsWith('.9.png')) continue;
+    const bytes = await readZipEntry(reader, entry, MAX_ICON_SIZE);
+    if (isPng(bytes)) {
+      const png = await uncrushPng(bytes);
+      if (png) return { bytes: png, contentType: 'image/png' };
+    } else if (/\.webp$/i.test(path)) {
+      return { bytes, contentType: 'image/webp' };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,176 @@
+// Minimal DER helpers for the handful of CMS / X.509 structures we touch
+// (signing .mobileconfig profiles, reading Apple provisioning envelopes).
+
+export type DerElement = {
+  tag: number;
+  /** Offset of the first content byte. */
+  start: number;
+  /** Offset just past the last content byte. */
+  end: number;
+  /** Offset of the tag byte. */
+  offset: number;
+  /** Offset of the next sibling (skips the end-of-contents marker of indefinite lengths). */
+  next: number;
+};
+
+export function readDerElement(bytes: Uint8Array, offset: number): DerElement {
+  if (offset + 2 > bytes.length) {
+    throw new Error('DER_TRUNCATED');
+  }
+  const tag = bytes[offset];
+  let cursor = offset + 1;
+  const first = bytes[cursor++];
+  let length: number;
+  if (first < 0x80) {
+    length = first;
+  } else if (first === 0x80) {
+    // Indefinite length (BER); only used by some CMS producers for constructed values.
+    length = -1;
+  } else {
+    const count = first & 0x7f;
+    if (count > 4 || cursor + count > bytes.length) {
+      throw new Error('DER_LENGTH_UNSUPPORTED');
+    }
+    length = 0;
+    for (let i = 0; i < count; i += 1) {
+      length = length * 256 + bytes[cursor++];
+    }
+  }
+  if (length === -1) {
+    let end = cursor;
+    while (end + 1 < bytes.length && !(bytes[end] === 0 && bytes[end + 1] === 0)) {
+      end = readDerElement(bytes, end).next;
+    }
+    return { tag, start: cursor, end, offset, next: end + 2 };
+  }
+  if (cursor + length > bytes.length) {
+    throw new Error('DER_TRUNCATED');
+  }
+  return { tag, start: cursor, end: cursor + length, offset, next: cursor + length };
+}
+
+export function readDerChildren(bytes: Uint8Array, parent: DerElement): DerElement[] {
+  const children: DerElement[] = [];
+  let cursor = parent.start;
+  while (cursor < parent.end) {
+    const child = readDerElement(bytes, cursor);
+    children.push(child);
+    cursor = child.next;
+  }
+  return children;
+}
+
+export const derSlice = (bytes: Uint8Array, element: DerElement) =>
+  bytes.subarray(element.offset, element.next);
+
+export const derContent = (bytes: Uint8Array, element: DerElement) =>
+  bytes.subarray(element.start, element.end);
+
+export function decodeOid(content: Uint8Array): string {
+  if (!content.length) return '';
+  const parts: number[] = [Math.floor(content[0] / 40), content[0] % 40];
+  let value = 0;
+  for (let i = 1; i < content.length; i += 1) {
+    value = value * 128 + (content[i] & 0x7f);
+    if ((content[i] & 0x80) === 0) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const encodeLength = (length: number) => {
+  if (length < 0x80) return Uint8Array.of(length);
+  const bytes: number[] = [];
+  let remaining = length;
+  while (remaining > 0) {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  }
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+};
+
+export function derEncode(tag: number, ...parts: Uint8Array[]) {
+  const content = concat(parts);
+  return concat([Uint8Array.of(tag), encodeLength(content.length), content]);
+}
+
+export const derSequence = (...parts: Uint8Array[]) => derEncode(0x30, ...parts);
+
+/** DER SET OF: members are sorted by their encoding as X.690 requires. */
+export const derSet = (...parts: Uint8Array[]) => {
+  const sorted = [...parts].sort((a, b) => {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i += 1) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  });
+  return derEncode(0x31, ...sorted);
+};
+
+export const derOctetString = (content: Uint8Array) => derEncode(0x04, content);
+
+export const derNull = () => Uint8Array.of(0x05, 0x00);
+
+export const derInteger = (value: number) => {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  if (bytes[0] & 0x80) bytes.unshift(0);
+  return derEncode(0x02, Uint8Array.from(bytes));
+};
+
+export function derOid(dotted: string) {
+  const parts = dotted.split('.').map((part) => Number(part));
+  const bytes: number[] = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const chunk: number[] = [part & 0x7f];
+    let remaining = Math.floor(part / 128);
+    while (remaining > 0) {
+      chunk.unshift((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
+    bytes.push(...chunk);
+  }
+  return derEncode(0x06, Uint8Array.from(bytes));
+}
+
+export function derUtcTime(date: Date) {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const text = `${pad(date.getUTCFullYear() % 100)}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+  return derEncode(0x17, new TextEncoder().encode(text));
+}
+
+/** Returns every base64 block in a PEM string whose label matches, decoded to DER. */
+export function pemBlocks(pem: string, label: string) {
+  const pattern = new RegExp(`-----BEGIN ${label}-----([\\s\\S]*?)-----END ${label}-----`, 'g');
+  const blocks: Uint8Array<ArrayBuffer>[] = [];
+  for (const match of pem.matchAll(pattern)) {
+    const base64 = match[1].replace(/\s+/g, '');
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i += 1) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    blocks.push(bytes);
+  }
+  return blocks;
+}
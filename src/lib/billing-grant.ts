@@ -0,0 +1,130 @@
+// Signed permission to charge a link's owner for one platform's download. `/d/<code>` (or the
+// CN/RU server's page) puts a grant on each `/dl` URL as `b=`; `/dl/<code>` and the CN/RU
+// download reports redeem its nonce once, then bill the link's owner (`download-billing.ts`).
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { timingSafeEqual, toBase64Url } from './signing';
+
+/** How long a download page's billing grant stays valid. */
+export const BILLING_GRANT_TTL_SECONDS = 30 * 60;
+
+export type BillingGrantBindings = {
+  BILLING_GRANT_SECRET?: string;
+};
+
+export type BillingPlatform = 'apk' | 'ipa';
+
+export const getBillingGrantSecret = (bindings: BillingGrantBindings): string | null => {
+  const secret = (bindings.BILLING_GRANT_SECRET ?? process.env.BILLING_GRANT_SECRET ?? '').trim();
+  return secret || null;
+};
+
+function createNonce() {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes.buffer);
+}
+
+async function signBillingGrant(
+  secret: string,
+  linkId: string,
+  platform: BillingPlatform,
+  exp: number,
+  nonce: string
+) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(`bill.${linkId}.${platform}.${exp}.${nonce}`)
+  );
+  return toBase64Url(signature);
+}
+
+/**
+ * Grants are `<exp>.<nonce>.<sig>` where sig is
+ * HMAC-SHA256(secret, `bill.<linkId>.<platform>.<exp>.<nonce>`).
+ */
+export async function createBillingGrant(
+  secret: string,
+  linkId: string,
+  platform: BillingPlatform,
+  now = Date.now()
+) {
+  const exp = Math.floor(now / 1000) + BILLING_GRANT_TTL_SECONDS;
+  const nonce = createNonce();
+  return `${exp}.${nonce}.${await signBillingGrant(secret, linkId, platform, exp, nonce)}`;
+}
+
+/** Resolves to the grant's expiry and nonce when it is signed for this link and platform. */
+export async function verifyBillingGrant(
+  secret: string,
+  linkId: string,
+  platform: BillingPlatform,
+  token: string | null | undefined,
+  now = Date.now()
+) {
+  if (!token) return null;
+  const [expPart, nonce, signature, extra] = token.split('.');
+  if (!expPart || !nonce || !signature || extra !== undefined) return null;
+  const exp = Number(expPart);
+  if (!Number.isInteger(exp) || exp < Math.floor(now / 1000)) return null;
+  const expected = await signBillingGrant(secret, linkId, platform, exp, nonce);
+  return timingSafeEqual(expected, signature) ? { exp, nonce } : null;
+}
+
+let redemptionsTableReady: Promise<void> | null = null;
+
+// Normally created by migrations/20251207_add_billing_grant_redemptions.sql.
+const ensureRedemptionsTable = (DB: D1Database) => {
+  if (!redemptionsTableReady) {
+    redemptionsTableReady = DB.batch([
+      DB.prepare(
+        `CREATE TABLE IF NOT EXISTS billing_grant_redemptions (
+          nonce TEXT PRIMARY KEY,
+          link_id TEXT NOT NULL,
+          expires_at INTEGER NOT NULL
+        )`
+      ),
+      DB.prepare(
+        'CREATE INDEX IF NOT EXISTS idx_billing_grant_redemptions_expires ON billing_grant_redemptions (expires_at)'
+      ),
+    ])
+      .then(() => undefined)
+      .catch((error) => {
+        redemptionsTableReady = null;
+        throw error;
+      });
+  }
+  return redemptionsTableReady;
+};
+
+/**
+ * Verifies a grant and records its nonce as used. Resolves to false for invalid or expired
+ * grants and for any grant that was already redeemed. Nonces are kept until the grant expires.
+ */
+export async function redeemBillingGrant(
+  DB: D1Database,
+  secret: string,
+  linkId: string,
+  platform: BillingPlatform,
+  token: string | null | undefined,
+  now = Date.now()
+) {
+  const grant = await verifyBillingGrant(secret, linkId, platform, token, now);
+  if (!grant) return false;
+  await ensureRedemptionsTable(DB);
+  const [, inserted] = await DB.batch([
+    DB.prepare('DELETE FROM billing_grant_redemptions WHERE expires_at < ?').bind(Math.floor(now / 1000)),
+    DB.prepare(
+      'INSERT INTO billing_grant_redemptions (nonce, link_id, expires_at) VALUES (?, ?, ?) ON CONFLICT(nonce) DO NOTHING'
+    ).bind(grant.nonce, linkId, grant.exp),
+  ]);
+  return (inserted?.meta?.changes ?? 0) > 0;
+}
@@ -8,8 +8,12 @@ export type CnServerBindings = {
 };
 
 type UploadTicketResponse = {
+  ticketId: string | null;
   uploadUrl: string;
   uploadHeaders: Record<string, string>;
+  /** Set for chunked tickets: parts are PUT to `${uploadUrl}/parts/<n>`. */
+  partSize: number | null;
+  partCount: number | null;
 };
 
 export type CnPublishFile = {
@@ -21,6 +25,11 @@ export type CnPublishFile = {
   bundleId?: string | null;
   version?: string | null;
   contentType?: string | null;
+  teamName?: string | null;
+  /** Icon extracted from the package, stored next to it. */
+  iconKey?: string | null;
+  /** Stored value, possibly localized; see lib/release-notes. */
+  releaseNotes?: string | null;
 };
 
 export type CnPublishLinkPayload = {
@@ -35,7 +44,17 @@ export type CnPublishLinkPayload = {
     language: string;
     isActive: boolean;
     createdAt: number;
+    accessPassword: string | null;
+    expiresAt: number | null;
+    /** Set while the link waits for its scheduled go-live; the page shows "coming soon". */
+    publishAt: number | null;
+    /** Downloads stop at this time even before the cron turns the link off. */
+    unpublishAt: number | null;
+    scheduleTimezone: string | null;
+    releaseNotes: string | null;
   };
+  /** Previous codes of the link that should redirect to `link.code`. */
+  aliases: string[];
   files: CnPublishFile[];
 };
 
@@ -90,6 +109,7 @@ export const createCnUploadTicket = async (
     platform: 'apk' | 'ipa';
     linkId: string;
     ownerId: string;
+    partSize?: number;
   }
 ): Promise<UploadTicketResponse> => {
   const response = await cnRequest(bindings, '/api/uploads/presign', {
@@ -99,18 +119,45 @@ export const createCnUploadTicket = async (
   });
   const json = (await response.json()) as {
     ok?: boolean;
+    ticketId?: string;
     uploadUrl?: string;
     uploadHeaders?: Record<string, string>;
+    partSize?: number | null;
+    partCount?: number | null;
   };
   if (!json?.ok || !json.uploadUrl) {
     throw new Error('CN_UPLOAD_TICKET_FAILED');
   }
+  if (payload.partSize && (!json.ticketId || !json.partSize || !json.partCount)) {
+    throw new Error('CN_UPLOAD_TICKET_NOT_CHUNKED');
+  }
   return {
+    ticketId: json.ticketId ?? null,
     uploadUrl: json.uploadUrl,
     uploadHeaders: json.uploadHeaders ?? {},
+    partSize: json.partSize ?? null,
+    partCount: json.partCount ?? null,
   };
 };
 
+export const completeCnUploadTicket = async (
+  bindings: CnServerBindings,
+  ticketId: string
+): Promise<void> => {
+  await cnRequest(bindings, `/api/uploads/${encodeURIComponent(ticketId)}/complete`, {
+    method: 'POST',
+  });
+};
+
+export const abortCnUploadTicket = async (
+  bindings: CnServerBindings,
+  ticketId: string
+): Promise<void> => {
+  await cnRequest(bindings, `/api/uploads/${encodeURIComponent(ticketId)}/abort`, {
+    method: 'POST',
+  });
+};
+
 export const publishCnLink = async (
   bindings: CnServerBindings,
   payload: CnPublishLinkPayload
@@ -124,7 +171,7 @@ export const publishCnLink = async (
 
 export const deleteCnLink = async (
   bindings: CnServerBindings,
-  payload: { linkId: string; code: string; keys: string[] }
+  payload: { linkId: string; code: string; aliases?: string[]; keys: string[] }
 ): Promise<void> => {
   await cnRequest(bindings, '/api/links/delete', {
     method: 'POST',
@@ -145,3 +192,49 @@ export const cleanupCnUploads = async (
     body: JSON.stringify({ keys: trimmed }),
   });
 };
+
+export const inspectCnUpload = async (
+  bindings: CnServerBindings,
+  key: string
+): Promise<{ size: number; sha256: string }> => {
+  const response = await cnRequest(bindings, '/api/uploads/inspect', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ key: key.replace(/^\/+/, '') }),
+  });
+  const json = (await response.json()) as { ok?: boolean; size?: number; sha256?: string };
+  if (!json?.ok || typeof json.size !== 'number' || !json.sha256) {
+    throw new Error('CN_UPLOAD_INSPECT_FAILED');
+  }
+  return { size: json.size, sha256: json.sha256 };
+};
+
+export const readCnUploadRange = async (
+  bindings: CnServerBindings,
+  key: string,
+  offset: number,
+  length: number
+): Promise<Uint8Array> => {
+  const params = new URLSearchParams({
+    key: key.replace(/^\/+/, ''),
+    offset: String(offset),
+    length: String(length),
+  });
+  const response = await cnRequest(bindings, `/api/uploads/range?${params.toString()}`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/** Stores a small derived file (e.g. an extracted app icon) under `key` next to the uploads. */
+export const writeCnUploadObject = async (
+  bindings: CnServerBindings,
+  key: string,
+  body: Uint8Array,
+  contentType: string
+) => {
+  const params = new URLSearchParams({ key: key.replace(/^\/+/, '') });
+  await cnRequest(bindings, `/api/uploads/object?${params.toString()}`, {
+    method: 'PUT',
+    headers: { 'content-type': contentType },
+    body: body as Uint8Array<ArrayBuffer>,
+  });
+};
@@ -1,10 +1,213 @@
+import type { D1Database } from '@cloudflare/workers-types';
+
 const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
 
-export function generateLinkCode(): string {
+export const DEFAULT_LINK_CODE_LENGTH = 4;
+const MAX_LINK_CODE_LENGTH = 16;
+// Random codes are retried at the configured length this many times before the
+// length grows by one, so a crowded code space degrades into longer codes, not errors.
+const ATTEMPTS_PER_LENGTH = 5;
+
+const VANITY_CODE_PATTERN = /^[a-z0-9](?:[a-z0-9_-]{1,30}[a-z0-9])$/;
+
+// Path segments and words that would be confusing (or collide with routes) as codes.
+const RESERVED_CODES = new Set([
+  'admin',
+  'api',
+  'app',
+  'assets',
+  'billing',
+  'd',
+  'dashboard',
+  'dl',
+  'download',
+  'files',
+  'healthz',
+  'help',
+  'login',
+  'logout',
+  'm',
+  'member',
+  'monitor',
+  'new',
+  'recharge',
+  'register',
+  'settings',
+  'static',
+  'support',
+  'udid',
+  'www',
+]);
+
+export type LinkCodeBindings = {
+  LINK_CODE_LENGTH?: string;
+};
+
+export type VanityCodeError = 'CODE_INVALID' | 'CODE_RESERVED';
+
+export function generateLinkCode(length = DEFAULT_LINK_CODE_LENGTH): string {
   let result = '';
-  const randomValues = crypto.getRandomValues(new Uint32Array(4));
-  for (let i = 0; i < 4; i++) {
+  const randomValues = crypto.getRandomValues(new Uint32Array(length));
+  for (let i = 0; i < length; i++) {
     result += ALPHABET[randomValues[i] % ALPHABET.length];
   }
   return result;
 }
+
+export const getLinkCodeLength = (bindings: LinkCodeBindings) => {
+  const configured = Number(bindings.LINK_CODE_LENGTH ?? process.env.LINK_CODE_LENGTH);
+  if (!Number.isInteger(configured)) return DEFAULT_LINK_CODE_LENGTH;
+  return Math.min(MAX_LINK_CODE_LENGTH, Math.max(DEFAULT_LINK_CODE_LENGTH, configured));
+};
+
+/**
+ * Vanity codes are lower-cased, 3-32 characters of `a-z 0-9 - _`, and must start and
+ * end with a letter or digit.
+ */
+export function normalizeVanityCode(
+  input: string
+): { ok: true; code: string } | { ok: false; error: VanityCodeError } {
+  const code = input.trim().toLowerCase();
+  if (!VANITY_CODE_PATTERN.test(code)) return { ok: false, error: 'CODE_INVALID' };
+  if (RESERVED_CODES.has(code)) return { ok: false, error: 'CODE_RESERVED' };
+  return { ok: true, code };
+}
+
+let aliasTableReady: Promise<void> | null = null;
+
+const ensureAliasTable = (DB: D1Database) => {
+  if (!aliasTableReady) {
+    aliasTableReady = DB.prepare(
+      `CREATE TABLE IF NOT EXISTS link_code_aliases (
+        code TEXT PRIMARY KEY,
+        link_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`
+    )
+      .run()
+      .then(() => undefined)
+      .catch((error) => {
+        aliasTableReady = null;
+        throw error;
+      });
+  }
+  return aliasTableReady;
+};
+
+/**
+ * A code is taken when a link uses it or it still redirects to a renamed link.
+ * `exceptLinkId` lets a link take back one of its own old codes.
+ */
+export async function isLinkCodeTaken(DB: D1Database, code: string, exceptLinkId?: string) {
+  await ensureAliasTable(DB);
+  const row = await DB.prepare(
+    `SELECT 1 AS taken FROM links WHERE code=?1
+     UNION ALL
+     SELECT 1 FROM link_code_aliases WHERE code=?1 AND link_id != ?2
+     LIMIT 1`
+  )
+    .bind(code, exceptLinkId ?? '')
+    .first<{ taken?: number }>();
+  return Boolean(row?.taken);
+}
+
+/** Picks a random code that is not in use yet. */
+export async function allocateLinkCode(DB: D1Database, length = DEFAULT_LINK_CODE_LENGTH) {
+  for (let size = length; size <= MAX_LINK_CODE_LENGTH; size++) {
+    for (let attempt = 0; attempt < ATTEMPTS_PER_LENGTH; attempt++) {
+      const code = generateLinkCode(size);
+      if (!(await isLinkCodeTaken(DB, code))) return code;
+    }
+  }
+  throw new Error('CODE_GENERATION_FAILED');
+}
+
+/** True for the unique-index violation raised when two inserts race for one code. */
+export const isCodeConflictError = (error: unknown) =>
+  error instanceof Error && /UNIQUE constraint failed: links\.code/i.test(error.message);
+
+/**
+ * The current code of the link an old (renamed) code points to. Vanity codes are stored
+ * lower-cased, so a mixed-case code that matches nothing as typed falls back to the link or
+ * alias its lower-cased form names.
+ */
+export async function resolveLinkCodeAlias(DB: D1Database, code: string): Promise<string | null> {
+  await ensureAliasTable(DB);
+  const row = await DB.prepare(
+    `SELECT links.code AS code FROM link_code_aliases
+     JOIN links ON links.id = link_code_aliases.link_id
+     WHERE link_code_aliases.code=? LIMIT 1`
+  )
+    .bind(code)
+    .first<{ code?: string | null }>();
+  if (row?.code) return row.code;
+
+  const lowered = code.toLowerCase();
+  if (lowered === code) return null;
+  const folded = await DB.prepare(
+    `SELECT code FROM links WHERE code=?1
+     UNION ALL
+     SELECT links.code FROM link_code_aliases
+     JOIN links ON links.id = link_code_aliases.link_id
+     WHERE link_code_aliases.code=?1
+     LIMIT 1`
+  )
+    .bind(lowered)
+    .first<{ code?: string | null }>();
+  return folded?.code ?? null;
+}
+
+export async function fetchLinkCodeAliases(DB: D1Database, linkId: string): Promise<string[]> {
+  await ensureAliasTable(DB);
+  const result = await DB.prepare(
+    'SELECT code FROM link_code_aliases WHERE link_id=? ORDER BY created_at ASC'
+  )
+    .bind(linkId)
+    .all<{ code: string }>();
+  return ((result?.results as Array<{ code: string }> | undefined) ?? []).map((row) => row.code);
+}
+
+/**
+ * Statements that move a link to `newCode` and keep `oldCode` as a redirect. Taking back
+ * an old code of the same link removes that alias.
+ */
+export async function buildRenameLinkCodeStatements(
+  DB: D1Database,
+  linkId: string,
+  oldCode: string,
+  newCode: string,
+  now = Date.now()
+) {
+  await ensureAliasTable(DB);
+  return [
+    DB.prepare('DELETE FROM link_code_aliases WHERE code=? AND link_id=?').bind(newCode, linkId),
+    DB.prepare(
+      'INSERT OR REPLACE INTO link_code_aliases (code, link_id, created_at) VALUES (?, ?, ?)'
+    ).bind(oldCode, linkId, Math.floor(now / 1000)),
+    DB.prepare('UPDATE links SET code=? WHERE id=?').bind(newCode, linkId),
+  ];
+}
+
+export async function deleteLinkCodeAliases(DB: D1Database, linkId: string) {
+  await ensureAliasTable(DB);
+  await DB.prepare('DELETE FROM link_code_aliases WHERE link_id=?').bind(linkId).run();
+}
+
+/**
+ * For a request to `/<prefix>/<oldCode>/...`, a redirect to the same path under the
+ * link's current code, or null when `code` is not an alias. POSTs get a 307 so form and
+ * profile submissions are replayed against the new address.
+ */
+export async function redirectFromLinkCodeAlias(DB: D1Database, request: Request, code: string) {
+  const current = await resolveLinkCodeAlias(DB, code);
+  if (!current) return null;
+  const url = new URL(request.url);
+  url.pathname = url.pathname.replace(
+    `/${encodeURIComponent(code)}`,
+    `/${encodeURIComponent(current)}`
+  );
+  return new Response(null, {
+    status: request.method === 'POST' ? 307 : 302,
+    headers: { location: url.toString(), 'cache-control': 'no-store' },
+  });
+}
@@ -0,0 +1,103 @@
+// Approximate centroids (latitude, longitude) of countries by ISO 3166-1 alpha-2 code. They
+// only place countries on the stats modal's tile map, so a degree or two off does not matter.
+const COUNTRY_CENTROIDS: Record<string, readonly [number, number]> = {
+  // North America
+  CA: [60, -96], US: [39, -98], MX: [23, -102], GL: [72, -40],
+  GT: [15.5, -90.3], BZ: [17.2, -88.7], SV: [13.7, -88.9], HN: [14.8, -86.6], NI: [12.9, -85.2],
+  CR: [9.9, -84.2], PA: [8.5, -80], CU: [21.5, -79.5], JM: [18.1, -77.3], HT: [19, -72.7],
+  DO: [18.9, -70.5], PR: [18.2, -66.5], BS: [24.5, -77.5], TT: [10.5, -61.3], BB: [13.2, -59.5],
+  // South America
+  CO: [4, -73], VE: [7, -66], GY: [5, -59], SR: [4, -56], EC: [-1.5, -78.5], PE: [-9.5, -75],
+  BR: [-10, -52], BO: [-17, -65], PY: [-23, -58], CL: [-32, -71], AR: [-36, -64], UY: [-33, -56],
+  // Europe
+  IS: [65, -18], IE: [53.2, -8], GB: [54, -2.5], PT: [39.6, -8], ES: [40.2, -3.7], FR: [46.5, 2.5],
+  BE: [50.6, 4.6], NL: [52.2, 5.5], LU: [49.8, 6.1], DE: [51, 10.4], CH: [46.8, 8.2], AT: [47.6, 14.1],
+  IT: [42.8, 12.5], MT: [35.9, 14.4], DK: [56, 10], NO: [62, 10], SE: [62, 16], FI: [64, 26],
+  EE: [58.7, 25.5], LV: [56.9, 24.9], LT: [55.3, 23.9], PL: [52, 19.4], CZ: [49.8, 15.5],
+  SK: [48.7, 19.7], HU: [47.1, 19.4], SI: [46.1, 14.8], HR: [45.1, 15.5], BA: [44.2, 17.8],
+  RS: [44, 20.9], ME: [42.8, 19.3], AL: [41.1, 20], MK: [41.6, 21.7], XK: [42.6, 20.9],
+  GR: [39.3, 22], BG: [42.7, 25.3], RO: [45.9, 25], MD: [47.2, 28.5], UA: [49, 31.5],
+  BY: [53.5, 28], RU: [61, 96], CY: [35, 33.2], TR: [39, 35],
+  // Middle East and Central Asia
+  GE: [42.2, 43.5], AM: [40.2, 45], AZ: [40.3, 47.7], IL: [31.4, 35], PS: [31.9, 35.2],
+  LB: [33.9, 35.9], SY: [35, 38.5], JO: [31.2, 36.5], IQ: [33, 43.7], IR: [32.5, 54], KW: [29.3, 47.6],
+  SA: [24, 45], BH: [26, 50.5], QA: [25.3, 51.2], AE: [24, 54], OM: [21, 57], YE: [15.5, 47.5],
+  KZ: [48, 67], UZ: [41.5, 64], TM: [39, 59.5], KG: [41.5, 74.5], TJ: [38.8, 71], AF: [34, 66],
+  PK: [30, 70], MN: [46.8, 103],
+  // South and East Asia
+  IN: [22, 79], NP: [28.3, 84], BT: [27.4, 90.4], BD: [23.8, 90.3], LK: [7.8, 80.7], MV: [3.2, 73.2],
+  CN: [35, 104], HK: [22.3, 114.2], MO: [22.2, 113.5], TW: [23.7, 121], KP: [40.2, 127.3],
+  KR: [36.4, 127.9], JP: [36.5, 138.5], MM: [21.5, 96], TH: [15.5, 101], LA: [18.5, 103.5],
+  VN: [16, 107.5], KH: [12.6, 105], MY: [4, 109.5], SG: [1.35, 103.8], BN: [4.5, 114.7],
+  ID: [-2.5, 118], PH: [12.5, 122], TL: [-8.8, 125.8],
+  // Oceania
+  AU: [-25, 134], NZ: [-41.5, 172.5], PG: [-6.5, 145], SB: [-9.5, 160], VU: [-16, 167.5],
+  NC: [-21.3, 165.5], FJ: [-17.8, 178], WS: [-13.7, -172.2], TO: [-21.2, -175.2], PF: [-17.6, -149.4],
+  GU: [13.45, 144.8],
+  // Africa
+  MA: [31.8, -7], DZ: [28, 2.6], TN: [34, 9.5], LY: [27, 17], EG: [26.5, 30], EH: [24.5, -13],
+  MR: [20.3, -10.3], ML: [17.5, -4], NE: [17.5, 9.4], TD: [15.4, 18.7], SD: [15.5, 30], SS: [7.3, 30.3],
+  ER: [15.2, 39.6], DJ: [11.8, 42.6], ET: [9, 39.5], SO: [5.5, 46], SN: [14.4, -14.5], GM: [13.4, -15.4],
+  GW: [12, -15], GN: [10.4, -10.9], SL: [8.5, -11.8], LR: [6.4, -9.4], CI: [7.6, -5.5], BF: [12.3, -1.6],
+  GH: [7.9, -1], TG: [8.6, 0.9], BJ: [9.3, 2.3], NG: [9.1, 8.7], CM: [5.7, 12.7], CF: [6.6, 20.9],
+  GQ: [1.6, 10.4], GA: [-0.6, 11.6], CG: [-0.7, 15.2], CD: [-2.9, 23.6], UG: [1.3, 32.4], KE: [0.5, 38],
+  RW: [-2, 29.9], BI: [-3.4, 29.9], TZ: [-6.3, 34.8], AO: [-12.3, 17.5], ZM: [-13.5, 27.8],
+  MW: [-13.2, 34.3], MZ: [-18, 35.5], ZW: [-19, 29.8], BW: [-22.3, 24.7], NA: [-22.5, 17.5],
+  ZA: [-29, 24.7], LS: [-29.6, 28.2], SZ: [-26.5, 31.5], MG: [-19.5, 46.7], MU: [-20.3, 57.6],
+  RE: [-21.1, 55.5], CV: [15.1, -23.6], ST: [0.2, 6.6], KM: [-11.9, 43.9], SC: [-4.6, 55.5],
+};
+
+export type CountryTile = { country: string; col: number; row: number };
+
+export const COUNTRY_GRID_COLUMNS = 48;
+export const COUNTRY_GRID_ROWS = 22;
+
+// Latitudes are clipped so the grid does not waste rows on the poles.
+const MAX_LAT = 75;
+const MIN_LAT = -50;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const project = ([lat, lon]: readonly [number, number]) => ({
+  col: clamp(Math.round(((lon + 180) / 360) * (COUNTRY_GRID_COLUMNS - 1)), 0, COUNTRY_GRID_COLUMNS - 1),
+  row: clamp(
+    Math.round(((MAX_LAT - clamp(lat, MIN_LAT, MAX_LAT)) / (MAX_LAT - MIN_LAT)) * (COUNTRY_GRID_ROWS - 1)),
+    0,
+    COUNTRY_GRID_ROWS - 1
+  ),
+});
+
+/**
+ * Places every known country on a `COUNTRY_GRID_COLUMNS` × `COUNTRY_GRID_ROWS` grid by its
+ * centroid. Countries that land on a taken cell move to the nearest free one, larger
+ * countries (listed first per region) keeping their spot.
+ */
+function buildCountryTiles(): CountryTile[] {
+  const taken = new Set<string>();
+  const tiles: CountryTile[] = [];
+  for (const [country, centroid] of Object.entries(COUNTRY_CENTROIDS)) {
+    const target = project(centroid);
+    let placed: { col: number; row: number } | null = null;
+    for (let radius = 0; !placed && radius < COUNTRY_GRID_COLUMNS; radius += 1) {
+      let best: { col: number; row: number; distance: number } | null = null;
+      for (let dRow = -radius; dRow <= radius; dRow += 1) {
+        for (let dCol = -radius; dCol <= radius; dCol += 1) {
+          if (Math.max(Math.abs(dRow), Math.abs(dCol)) !== radius) continue;
+          const col = target.col + dCol;
+          const row = target.row + dRow;
+          if (col < 0 || row < 0 || col >= COUNTRY_GRID_COLUMNS || row >= COUNTRY_GRID_ROWS) continue;
+          if (taken.has(`${col},${row}`)) continue;
+          const distance = dRow * dRow + dCol * dCol;
+          if (!best || distance < best.distance) best = { col, row, distance };
+        }
+      }
+      if (best) placed = { col: best.col, row: best.row };
+    }
+    if (!placed) continue;
+    taken.add(`${placed.col},${placed.row}`);
+    tiles.push({ country, ...placed });
+  }
+  return tiles;
+}
+
+export const COUNTRY_TILES: readonly CountryTile[] = buildCountryTiles();
@@ -1,7 +1,11 @@
 import type { D1Database } from '@cloudflare/workers-types';
 import { normalizeLanguageCode, type LangCode } from '@/lib/language';
 import { normalizeNetworkArea, type NetworkArea } from './network-area';
+import { getAppIconUrl } from './app-icon';
 import { getTableInfo, hasColumn } from './distribution';
+import { LINK_LIMIT_COLUMNS } from './link-limits';
+import { fetchLowIosConversionLinkIds } from './link-funnel';
+import { LINK_SCHEDULE_COLUMNS } from './link-schedule';
 
 export type DashboardFile = {
   id: string;
@@ -11,6 +15,36 @@ export type DashboardFile = {
   version: string | null;
   size: number | null;
   createdAt: number;
+  releaseNo: number | null;
+  signing: DashboardSigning | null;
+  /** Public URL of the icon extracted from the package. */
+  iconUrl: string | null;
+  /** Stored value, possibly localized; see lib/release-notes. */
+  releaseNotes: string | null;
+};
+
+/** Summary of the provisioning profile embedded in an IPA. */
+export type DashboardSigning = {
+  teamName: string | null;
+  teamId: string | null;
+  profileType: string | null;
+  expiresAt: number | null;
+  deviceCount: number | null;
+  entitlements: Record<string, unknown> | null;
+};
+
+export type DashboardRelease = {
+  id: string;
+  platform: string;
+  releaseNo: number | null;
+  version: string | null;
+  build: string | null;
+  size: number | null;
+  releaseNotes: string | null;
+  uploadedBy: string | null;
+  uploaderEmail: string | null;
+  isCurrent: boolean;
+  createdAt: number;
 };
 
 export type DashboardLink = {
@@ -31,6 +65,18 @@ export type DashboardLink = {
   totalIpaDl: number;
   totalTotalDl: number;
   networkArea: NetworkArea;
+  /** iOS visitors rarely finish downloading over the last 7 days; see `lib/link-funnel`. */
+  lowIosConversion: boolean;
+  /** The hash itself never leaves the server; the dashboard only needs to know one is set. */
+  hasPassword: boolean;
+  expiresAt: number | null;
+  maxDownloads: number | null;
+  maxApkDownloads: number | null;
+  maxIpaDownloads: number | null;
+  publishAt: number | null;
+  unpublishAt: number | null;
+  scheduleTimezone: string | null;
+  releaseNotes: string | null;
   files: DashboardFile[];
 };
 
@@ -60,6 +106,15 @@ type LinkRow = {
   total_ipa_dl?: number | string | null;
   total_total_dl?: number | string | null;
   network_area?: string | null;
+  access_password?: string | null;
+  expires_at?: number | string | null;
+  max_downloads?: number | string | null;
+  max_apk_downloads?: number | string | null;
+  max_ipa_downloads?: number | string | null;
+  publish_at?: number | string | null;
+  unpublish_at?: number | string | null;
+  schedule_timezone?: string | null;
+  release_notes?: string | null;
 };
 
 type FileRow = {
@@ -70,6 +125,15 @@ type FileRow = {
   version: string | null;
   size: number | null;
   created_at: number | string | null;
+  release_no?: number | string | null;
+  team_name?: string | null;
+  team_id?: string | null;
+  profile_type?: string | null;
+  profile_expires_at?: number | string | null;
+  provisioned_devices?: string | null;
+  entitlements?: string | null;
+  icon_key?: string | null;
+  release_notes?: string | null;
 };
 
 const toNumber = (value: number | string | null | undefined): number => {
@@ -85,6 +149,9 @@ const toNumber = (value: number | string | null | undefined): number => {
   return 0;
 };
 
+const toLimit = (value: number | string | null | undefined): number | null =>
+  value === null || value === undefined || value === '' ? null : toNumber(value);
+
 const toEpochSeconds = (value: number | string | null | undefined): number => {
   if (typeof value === 'number' && Number.isFinite(value)) {
     return value;
@@ -102,6 +169,28 @@ const toEpochSeconds = (value: number | string | null | undefined): number => {
   return 0;
 };
 
+const parseJson = <T>(value: string | null | undefined): T | null => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+};
+
+const toSigning = (file: FileRow): DashboardSigning => {
+  const devices = parseJson<unknown[]>(file.provisioned_devices);
+  const entitlements = parseJson<Record<string, unknown>>(file.entitlements);
+  return {
+    teamName: file.team_name ?? null,
+    teamId: file.team_id ?? null,
+    profileType: file.profile_type ?? null,
+    expiresAt: file.profile_expires_at != null ? toNumber(file.profile_expires_at) || null : null,
+    deviceCount: Array.isArray(devices) ? devices.length : null,
+    entitlements: entitlements && typeof entitlements === 'object' ? entitlements : null,
+  };
+};
+
 type LinksPageResult = {
   page: number;
   pageSize: number;
@@ -125,6 +214,20 @@ async function fetchLinksPage(
   }
   const hasLangColumn = hasColumn(linksInfo, 'lang');
   const hasNetworkAreaColumn = hasColumn(linksInfo, 'network_area');
+  const hasPasswordColumn = hasColumn(linksInfo, 'access_password');
+  const hasLinkNotesColumn = hasColumn(linksInfo, 'release_notes');
+  const limitColumns = Object.values(LINK_LIMIT_COLUMNS).filter((column) =>
+    hasColumn(linksInfo, column)
+  );
+  const scheduleColumns = Object.values(LINK_SCHEDULE_COLUMNS).filter((column) =>
+    hasColumn(linksInfo, column)
+  );
+  const filesInfo = await getTableInfo(DB, 'files');
+  const hasReleaseColumns = hasColumn(filesInfo, 'is_current') && hasColumn(filesInfo, 'release_no');
+  const hasSigningColumns =
+    hasColumn(filesInfo, 'profile_type') && hasColumn(filesInfo, 'provisioned_devices');
+  const hasIconColumn = hasColumn(filesInfo, 'icon_key');
+  const hasFileNotesColumn = hasColumn(filesInfo, 'release_notes');
 
   const totalRow = ownerId
     ? await DB.prepare('SELECT COUNT(*) as count FROM links WHERE owner_id=?')
@@ -144,6 +247,10 @@ async function fetchLinksPage(
     'created_at',
     hasLangColumn ? 'lang' : null,
     hasNetworkAreaColumn ? 'network_area' : null,
+    hasPasswordColumn ? 'access_password' : null,
+    ...limitColumns,
+    ...scheduleColumns,
+    hasLinkNotesColumn ? 'release_notes' : null,
     'today_apk_dl',
     'today_ipa_dl',
     'today_total_dl',
@@ -166,14 +273,23 @@ async function fetchLinksPage(
   const links: DashboardLink[] = [];
   for (const link of linkRows) {
     const fileRows = await DB.prepare(
-      `SELECT id, platform, title, bundle_id, version, size, created_at
+      `SELECT id, platform, title, bundle_id, version, size, created_at${
+        hasReleaseColumns ? ', release_no' : ''
+      }${
+        hasSigningColumns
+          ? ', team_name, team_id, profile_type, profile_expires_at, provisioned_devices, entitlements'
+          : ''
+      }${hasIconColumn ? ', icon_key' : ''}${hasFileNotesColumn ? ', release_notes' : ''}
        FROM files
-       WHERE link_id=?
+       WHERE link_id=?${hasReleaseColumns ? ' AND is_current=1' : ''}
        ORDER BY created_at DESC`
     )
       .bind(link.id)
       .all();
 
+    const networkArea = normalizeNetworkArea(
+      hasNetworkAreaColumn ? ((link.network_area ?? null) as string | null) : null
+    );
     const files: DashboardFile[] =
       (fileRows.results as FileRow[] | undefined)?.map((file) => ({
         id: file.id,
@@ -183,6 +299,10 @@ async function fetchLinksPage(
         version: file.version,
         size: file.size ?? null,
         createdAt: toEpochSeconds(file.created_at),
+        releaseNo: hasReleaseColumns && file.release_no != null ? toNumber(file.release_no) : null,
+        signing: hasSigningColumns && file.profile_type ? toSigning(file) : null,
+        iconUrl: getAppIconUrl(file.icon_key, networkArea),
+        releaseNotes: file.release_notes ?? null,
       })) ?? [];
 
     links.push({
@@ -200,9 +320,17 @@ async function fetchLinksPage(
       ),
       createdAt: toEpochSeconds(link.created_at),
       language: hasLangColumn ? normalizeLanguageCode(link.lang) : 'en',
-      networkArea: normalizeNetworkArea(
-        hasNetworkAreaColumn ? ((link.network_area ?? null) as string | null) : null
-      ),
+      networkArea,
+      lowIosConversion: false,
+      hasPassword: hasPasswordColumn && Boolean(link.access_password),
+      expiresAt: toLimit(link.expires_at),
+      maxDownloads: toLimit(link.max_downloads),
+      maxApkDownloads: toLimit(link.max_apk_downloads),
+      maxIpaDownloads: toLimit(link.max_ipa_downloads),
+      publishAt: toLimit(link.publish_at),
+      unpublishAt: toLimit(link.unpublish_at),
+      scheduleTimezone: link.schedule_timezone ?? null,
+      releaseNotes: link.release_notes ?? null,
       todayApkDl: toNumber(link.today_apk_dl),
       todayIpaDl: toNumber(link.today_ipa_dl),
       todayTotalDl: toNumber(link.today_total_dl),
@@ -213,6 +341,17 @@ async function fetchLinksPage(
     });
   }
 
+  const lowIosConversion = await fetchLowIosConversionLinkIds(
+    DB,
+    links.map((link) => link.id)
+  ).catch((error) => {
+    console.warn('[dashboard] unable to check iOS conversion', error);
+    return new Set<string>();
+  });
+  links.forEach((link) => {
+    link.lowIosConversion = lowIosConversion.has(link.id);
+  });
+
   return {
     page: safePage,
     pageSize: safePageSize,
@@ -221,6 +360,14 @@ async function fetchLinksPage(
   };
 }
 
+/** Point balance shown on the dashboard and member analytics. */
+export async function fetchAccountBalance(DB: D1Database, ownerId: string): Promise<number> {
+  const balanceRow = await DB.prepare('SELECT balance FROM users WHERE id=? LIMIT 1')
+    .bind(ownerId)
+    .first<{ balance: number }>();
+  return balanceRow?.balance ?? 0;
+}
+
 export async function fetchDashboardPage(
   DB: D1Database,
   ownerId: string,
@@ -228,13 +375,10 @@ export async function fetchDashboardPage(
   pageSize: number
 ): Promise<DashboardPage> {
   const result = await fetchLinksPage(DB, page, pageSize, ownerId);
-  const balanceRow = await DB.prepare('SELECT balance FROM users WHERE id=? LIMIT 1')
-    .bind(ownerId)
-    .first<{ balance: number }>();
 
   return {
     ...result,
-    balance: balanceRow?.balance ?? 0,
+    balance: await fetchAccountBalance(DB, ownerId),
   };
 }
 
@@ -59,6 +59,20 @@ export type DistributionFile = {
   sha256: string | null;
   contentType: string | null;
   createdAt: number;
+  releaseNo: number | null;
+  build: string | null;
+  releaseNotes: string | null;
+  uploadedBy: string | null;
+  isCurrent: boolean;
+  /** UDIDs listed in the build's embedded provisioning profile; null when unknown. */
+  provisionedDevices: string[] | null;
+  teamName: string | null;
+  teamId: string | null;
+  profileType: string | null;
+  profileExpiresAt: number | null;
+  entitlements: Record<string, unknown> | null;
+  /** Storage key of the app icon extracted from the package, stored next to it. */
+  iconKey: string | null;
 };
 
 export type DistributionLink = {
@@ -75,7 +89,22 @@ export type DistributionLink = {
   language: LangCode;
   fileId: string | null;
   networkArea: NetworkArea;
+  /** Salted PBKDF2 record (`salt:hash`) when the download page asks for a password. */
+  accessPassword: string | null;
+  expiresAt: number | null;
+  maxDownloads: number | null;
+  maxApkDownloads: number | null;
+  maxIpaDownloads: number | null;
+  /** Scheduled go-live and switch-off times; see lib/link-schedule. */
+  publishAt: number | null;
+  unpublishAt: number | null;
+  scheduleTimezone: string | null;
+  /** Link-level notes shown above the per-build ones; see lib/release-notes. */
+  releaseNotes: string | null;
+  /** Releases currently served for each platform. */
   files: DistributionFile[];
+  /** Every uploaded release, newest first, including the current ones. */
+  releases: DistributionFile[];
 };
 
 type LinkRow = Record<string, unknown>;
@@ -115,6 +144,30 @@ const toStringOrNull = (value: unknown): string | null => {
   return null;
 };
 
+const toStringArrayOrNull = (value: unknown): string[] | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.filter((entry): entry is string => typeof entry === 'string')
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const toRecordOrNull = (value: unknown): Record<string, unknown> | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
 const toBoolean = (value: unknown): boolean => {
   if (typeof value === 'number') return value !== 0;
   if (typeof value === 'string') {
@@ -155,6 +208,15 @@ async function fetchDistributionByField(
     'lang',
     'file_id',
     'network_area',
+    'access_password',
+    'expires_at',
+    'max_downloads',
+    'max_apk_downloads',
+    'max_ipa_downloads',
+    'publish_at',
+    'unpublish_at',
+    'schedule_timezone',
+    'release_notes',
   ].filter((column) => hasColumn(linksInfo, column));
   if (!linkColumns.includes('id') || !linkColumns.includes('code')) {
     return null;
@@ -183,19 +245,35 @@ async function fetchDistributionByField(
     'sha256',
     'content_type',
     'created_at',
+    'release_no',
+    'build',
+    'release_notes',
+    'uploaded_by',
+    'is_current',
+    'provisioned_devices',
+    'team_name',
+    'team_id',
+    'profile_type',
+    'profile_expires_at',
+    'entitlements',
+    'icon_key',
   ].filter((column) => hasColumn(filesInfo, column));
+  const hasCurrentColumn = fileColumns.includes('is_current');
 
   let fileRows: FileRow[] = [];
   if (fileColumns.length) {
+    const orderBy = fileColumns.includes('release_no')
+      ? 'created_at DESC, release_no DESC'
+      : 'created_at DESC';
     const result = await DB.prepare(
-      `SELECT ${fileColumns.join(', ')} FROM files WHERE link_id=? ORDER BY created_at DESC`
+      `SELECT ${fileColumns.join(', ')} FROM files WHERE link_id=? ORDER BY ${orderBy}`
     )
       .bind(linkId)
       .all();
     fileRows = (result?.results as FileRow[] | undefined) ?? [];
   }
 
-  const files: DistributionFile[] = fileRows.map((row) => ({
+  const releases: DistributionFile[] = fileRows.map((row) => ({
     id: toStringOrNull(row.id) ?? '',
     platform: toStringOrNull(row.platform),
     title: toStringOrNull(row.title),
@@ -206,7 +284,20 @@ async function fetchDistributionByField(
     sha256: toStringOrNull(row.sha256),
     contentType: toStringOrNull(row.content_type),
     createdAt: toEpochSeconds(row.created_at),
+    releaseNo: toNumberOrNull(row.release_no),
+    build: toStringOrNull(row.build),
+    releaseNotes: toStringOrNull(row.release_notes),
+    uploadedBy: toStringOrNull(row.uploaded_by),
+    isCurrent: hasCurrentColumn ? toBoolean(row.is_current) : true,
+    provisionedDevices: toStringArrayOrNull(row.provisioned_devices),
+    teamName: toStringOrNull(row.team_name),
+    teamId: toStringOrNull(row.team_id),
+    profileType: toStringOrNull(row.profile_type),
+    profileExpiresAt: toNumberOrNull(row.profile_expires_at),
+    entitlements: toRecordOrNull(row.entitlements),
+    iconKey: toStringOrNull(row.icon_key),
   }));
+  const files = releases.filter((file) => file.isCurrent);
 
   const linkCode = toStringOrNull(linkRow.code);
 
@@ -224,7 +315,17 @@ async function fetchDistributionByField(
     language: normalizeLanguageCode(linkRow.lang),
     fileId: toStringOrNull(linkRow.file_id),
     networkArea: normalizeNetworkArea(toStringOrNull(linkRow.network_area)),
+    accessPassword: toStringOrNull(linkRow.access_password) || null,
+    expiresAt: toNumberOrNull(linkRow.expires_at),
+    maxDownloads: toNumberOrNull(linkRow.max_downloads),
+    maxApkDownloads: toNumberOrNull(linkRow.max_apk_downloads),
+    maxIpaDownloads: toNumberOrNull(linkRow.max_ipa_downloads),
+    publishAt: toNumberOrNull(linkRow.publish_at),
+    unpublishAt: toNumberOrNull(linkRow.unpublish_at),
+    scheduleTimezone: toStringOrNull(linkRow.schedule_timezone),
+    releaseNotes: toStringOrNull(linkRow.release_notes),
     files,
+    releases,
   };
 
   return link;
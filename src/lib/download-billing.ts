@@ -0,0 +1,189 @@
+// Charges a link's owner for one counted download. Only `/dl/<code>` and the CN/RU download
+// reports call this, after the download filter let the hit through and its billing grant was
+// redeemed; there is no public endpoint, so filtered hits and scripted requests are never billed.
+
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import type { BillingPlatform } from './billing-grant';
+import type { DistributionLink } from './distribution';
+import { triggerPointMonitors } from './monitor';
+import { resolveDownloadPrice } from './pricing';
+import {
+  ensurePointTables,
+  hasPointAccountsUpdatedAt,
+  hasPointLedgerPricingRuleColumn,
+  hasUsersBalanceColumn,
+} from './schema';
+import { emitBalanceLowWebhooks } from './webhooks';
+
+export type DownloadBillingResult =
+  | { ok: true; cost: number; ruleId: string | null }
+  | { ok: true; deduped: true }
+  | { ok: false; error: DownloadBillingError };
+
+export type DownloadBillingError = 'ACCOUNT_NOT_FOUND' | 'INSUFFICIENT_POINTS' | 'BILLING_FAILED';
+
+type BillingLink = Pick<DistributionLink, 'id' | 'ownerId' | 'networkArea'>;
+
+type BillingQuote =
+  | { deduped: true }
+  | {
+      deduped: false;
+      balance: number | null;
+      cost: number;
+      ruleId: string | null;
+      hasBalance: boolean;
+      hasPricingRule: boolean;
+    };
+
+// Price, current balance and whether this minute was already charged for `accountId`.
+async function quoteDownload(
+  DB: D1Database,
+  accountId: string,
+  link: BillingLink,
+  platform: BillingPlatform,
+  now: number
+): Promise<BillingQuote> {
+  await ensurePointTables(DB);
+  const [hasBalance, hasPricingRule, { price: cost, ruleId }] = await Promise.all([
+    hasUsersBalanceColumn(DB),
+    hasPointLedgerPricingRuleColumn(DB),
+    resolveDownloadPrice(DB, accountId, platform, link.networkArea, now),
+  ]);
+
+  const exists = await DB.prepare(
+    `SELECT 1 FROM point_dedupe WHERE account_id=? AND link_id=? AND platform=? AND bucket_minute=? LIMIT 1`
+  ).bind(accountId, link.id, platform, Math.floor(now / 60)).first();
+  if (exists) return { deduped: true };
+
+  const balanceQuery = hasBalance
+    ? 'SELECT balance FROM users WHERE id=? LIMIT 1'
+    : 'SELECT balance FROM point_accounts WHERE id=? LIMIT 1';
+  const acct = await DB.prepare(balanceQuery).bind(accountId).first<{ balance: number }>();
+  return {
+    deduped: false,
+    balance: acct ? Number(acct.balance ?? 0) : null,
+    cost,
+    ruleId,
+    hasBalance,
+    hasPricingRule,
+  };
+}
+
+/**
+ * Whether the owner can pay for this download. `/dl` and the CN/RU reports check it before
+ * the file is handed out, so an empty balance refuses the download instead of serving it for
+ * free; the charge itself follows with `billDownload`. Never throws.
+ */
+export async function checkDownloadBalance(
+  DB: D1Database,
+  link: BillingLink,
+  platform: BillingPlatform,
+  now = Math.floor(Date.now() / 1000)
+): Promise<{ ok: true } | { ok: false; error: DownloadBillingError }> {
+  const accountId = link.ownerId;
+  if (!accountId) return { ok: true };
+  try {
+    const quote = await quoteDownload(DB, accountId, link, platform, now);
+    if (quote.deduped) return { ok: true };
+    if (quote.balance === null) return { ok: false, error: 'ACCOUNT_NOT_FOUND' };
+    if (quote.balance < quote.cost) return { ok: false, error: 'INSUFFICIENT_POINTS' };
+    return { ok: true };
+  } catch (error) {
+    console.error('[billing] balance check failed', link.id, platform, error);
+    return { ok: false, error: 'BILLING_FAILED' };
+  }
+}
+
+/**
+ * Deducts the download price from the owner's balance and records it in `point_ledger`.
+ * One charge per link, platform and minute (`point_dedupe`). Never throws, so callers can run
+ * it with `waitUntil` after the download is served.
+ */
+export async function billDownload(
+  DB: D1Database,
+  link: BillingLink,
+  platform: BillingPlatform,
+  now = Math.floor(Date.now() / 1000)
+): Promise<DownloadBillingResult> {
+  const accountId = link.ownerId;
+  if (!accountId) return { ok: true, cost: 0, ruleId: null };
+  const bucketMinute = Math.floor(now / 60);
+
+  try {
+    const quote = await quoteDownload(DB, accountId, link, platform, now);
+    if (quote.deduped) {
+      return { ok: true, deduped: true };
+    }
+    const { balance: bal, cost, ruleId, hasBalance, hasPricingRule } = quote;
+    if (bal === null) {
+      return { ok: false, error: 'ACCOUNT_NOT_FOUND' };
+    }
+    if (bal < cost) {
+      return { ok: false, error: 'INSUFFICIENT_POINTS' };
+    }
+
+    const id = crypto.randomUUID();
+    const statements: D1PreparedStatement[] = [];
+
+    statements.push(
+      hasPricingRule
+        ? DB.prepare(
+            `INSERT INTO point_ledger (id, account_id, delta, reason, link_id, download_id, bucket_minute, platform, created_at, pricing_rule_id)
+             VALUES (?, ?, ?, 'download', ?, NULL, ?, ?, ?, ?)`
+          ).bind(id, accountId, -cost, link.id, bucketMinute, platform, now, ruleId)
+        : DB.prepare(
+            `INSERT INTO point_ledger (id, account_id, delta, reason, link_id, download_id, bucket_minute, platform, created_at)
+             VALUES (?, ?, ?, 'download', ?, NULL, ?, ?, ?)`
+          ).bind(id, accountId, -cost, link.id, bucketMinute, platform, now)
+    );
+
+    if (hasBalance) {
+      statements.push(
+        DB.prepare(`UPDATE users SET balance = balance - ? WHERE id=?`).bind(cost, accountId)
+      );
+    } else {
+      const hasUpdatedAt = await hasPointAccountsUpdatedAt(DB);
+      if (hasUpdatedAt) {
+        statements.push(
+          DB.prepare(`UPDATE point_accounts SET balance = balance - ?, updated_at=? WHERE id=?`).bind(
+            cost,
+            now,
+            accountId
+          )
+        );
+      } else {
+        statements.push(
+          DB.prepare(`UPDATE point_accounts SET balance = balance - ? WHERE id=?`).bind(cost, accountId)
+        );
+      }
+    }
+
+    statements.push(
+      DB.prepare(
+        `INSERT INTO point_dedupe (account_id, link_id, bucket_minute, platform) VALUES (?, ?, ?, ?)`
+      ).bind(accountId, link.id, bucketMinute, platform)
+    );
+
+    await DB.batch(statements);
+
+    try {
+      await triggerPointMonitors(DB, {
+        ownerId: accountId,
+        previousBalance: bal,
+        currentBalance: bal - cost,
+      });
+    } catch (error) {
+      console.error('[monitor] point trigger failed', error);
+    }
+    await emitBalanceLowWebhooks(DB, accountId, bal, bal - cost);
+
+    return { ok: true, cost, ruleId };
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : String(e);
+    if (/\bpoint_dedupe\b/.test(error) && /constraint/i.test(error)) {
+      return { ok: true, deduped: true };
+    }
+    console.error('[billing] download charge failed', link.id, platform, error);
+    return { ok: false, error: 'BILLING_FAILED' };
+  }
+}
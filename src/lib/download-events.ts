@@ -0,0 +1,413 @@
+// One row per counted download, for the event table in the stats modal. Visitor IPs are
+// only stored as a keyed hash; the `workers/monitor` cron deletes events past the
+// retention window. Per-country daily totals are kept alongside and never trimmed, so the
+// country breakdown covers any range.
+
+import type { D1Database } from '@cloudflare/workers-types';
+
+export type DownloadEventBindings = {
+  DOWNLOAD_IP_HASH_SECRET?: string;
+};
+
+export const DOWNLOAD_DEVICES = ['mobile', 'tablet', 'desktop', 'other'] as const;
+
+export type DownloadDevice = (typeof DOWNLOAD_DEVICES)[number];
+
+export type DownloadEvent = {
+  id: string;
+  linkId: string;
+  createdAt: number;
+  platform: 'apk' | 'ipa';
+  fileId: string | null;
+  version: string | null;
+  /** ISO 3166 alpha-2 code from `cf-ipcountry`, or what the regional server reported. */
+  country: string | null;
+  os: string | null;
+  device: DownloadDevice;
+  referrer: string | null;
+  ipHash: string | null;
+};
+
+export type DownloadEventInput = {
+  linkId: string;
+  platform: 'apk' | 'ipa';
+  fileId?: string | null;
+  version?: string | null;
+  country?: string | null;
+  userAgent?: string | null;
+  referrer?: string | null;
+  ip?: string | null;
+};
+
+export type DownloadEventFilters = {
+  platform?: 'apk' | 'ipa' | null;
+  country?: string | null;
+  device?: DownloadDevice | null;
+  /** Epoch seconds, inclusive. */
+  from?: number | null;
+  /** Epoch seconds, inclusive. */
+  to?: number | null;
+};
+
+export type DownloadEventsPage = {
+  page: number;
+  pageSize: number;
+  total: number;
+  events: DownloadEvent[];
+};
+
+/** Counted downloads of one link from one country; `country` is null when Cloudflare had none. */
+export type CountryDownloads = {
+  linkId: string;
+  country: string | null;
+  apk: number;
+  ipa: number;
+};
+
+const MAX_EVENTS_PAGE_SIZE = 100;
+const MAX_REFERRER_LENGTH = 300;
+
+type EventRow = {
+  id: string;
+  link_id: string;
+  created_at: number | string;
+  platform: string;
+  file_id: string | null;
+  version: string | null;
+  country: string | null;
+  os: string | null;
+  device: string | null;
+  referrer: string | null;
+  ip_hash: string | null;
+};
+
+let eventsTableReady: Promise<void> | null = null;
+
+// Normally created by migrations/20251203_add_download_events.sql.
+const ensureEventsTable = (DB: D1Database) => {
+  if (!eventsTableReady) {
+    eventsTableReady = DB.batch([
+      DB.prepare(
+        `CREATE TABLE IF NOT EXISTS link_download_events (
+          id TEXT PRIMARY KEY,
+          link_id TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          platform TEXT NOT NULL,
+          file_id TEXT,
+          version TEXT,
+          country TEXT,
+          os TEXT,
+          device TEXT NOT NULL DEFAULT 'other',
+          referrer TEXT,
+          ip_hash TEXT,
+          FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+        )`
+      ),
+      DB.prepare(
+        `CREATE INDEX IF NOT EXISTS idx_link_download_events_link_created
+          ON link_download_events (link_id, created_at)`
+      ),
+      DB.prepare(
+        `CREATE INDEX IF NOT EXISTS idx_link_download_events_link_ip
+          ON link_download_events (link_id, ip_hash, created_at)`
+      ),
+    ])
+      .then(() => undefined)
+      .catch((error) => {
+        eventsTableReady = null;
+        throw error;
+      });
+  }
+  return eventsTableReady;
+};
+
+let countryTableReady: Promise<void> | null = null;
+
+// Normally created by migrations/20251209_add_country_download_stats.sql.
+const ensureCountryTable = (DB: D1Database) => {
+  if (!countryTableReady) {
+    countryTableReady = DB.prepare(
+      `CREATE TABLE IF NOT EXISTS link_country_downloads (
+        link_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        country TEXT NOT NULL DEFAULT '',
+        apk_dl INTEGER NOT NULL DEFAULT 0,
+        ipa_dl INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (link_id, date, country),
+        FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+      )`
+    )
+      .run()
+      .then(() => undefined)
+      .catch((error) => {
+        countryTableReady = null;
+        throw error;
+      });
+  }
+  return countryTableReady;
+};
+
+export const getDownloadIpHashSecret = (bindings: DownloadEventBindings): string | null => {
+  const secret = (bindings.DOWNLOAD_IP_HASH_SECRET ?? process.env.DOWNLOAD_IP_HASH_SECRET ?? '').trim();
+  return secret || null;
+};
+
+/** Coarse OS and device class; good enough to tell iPhones from Android tablets. */
+export function parseUserAgent(userAgent: string | null | undefined): {
+  os: string | null;
+  device: DownloadDevice;
+} {
+  const ua = userAgent ?? '';
+  if (!ua) return { os: null, device: 'other' };
+  if (/iPad/.test(ua)) return { os: 'iPadOS', device: 'tablet' };
+  if (/iPhone|iPod/.test(ua)) return { os: 'iOS', device: 'mobile' };
+  if (/HarmonyOS/i.test(ua)) return { os: 'HarmonyOS', device: /Mobile/.test(ua) ? 'mobile' : 'tablet' };
+  if (/Android/.test(ua)) return { os: 'Android', device: /Mobile/.test(ua) ? 'mobile' : 'tablet' };
+  if (/Windows Phone/.test(ua)) return { os: 'Windows Phone', device: 'mobile' };
+  if (/Windows/.test(ua)) return { os: 'Windows', device: 'desktop' };
+  if (/CrOS/.test(ua)) return { os: 'ChromeOS', device: 'desktop' };
+  // iPadOS Safari asks for the desktop site and reports itself as a Mac.
+  if (/Macintosh|Mac OS X/.test(ua)) return { os: 'macOS', device: 'desktop' };
+  if (/Linux/.test(ua)) return { os: 'Linux', device: 'desktop' };
+  return { os: null, device: 'other' };
+}
+
+export const normalizeCountry = (value: string | null | undefined) => {
+  const code = (value ?? '').trim().toUpperCase();
+  return /^[A-Z][A-Z0-9]$/.test(code) ? code : null;
+};
+
+// Query strings can carry tokens or personal data, so only origin and path are kept.
+export const normalizeReferrer = (value: string | null | undefined) => {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return `${url.origin}${url.pathname}`.slice(0, MAX_REFERRER_LENGTH);
+  } catch {
+    return null;
+  }
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/** HMAC-SHA256 of the IP, truncated; stable per secret so repeat visitors can be told apart. */
+export async function hashDownloadIp(secret: string | null, ip: string | null | undefined) {
+  const address = ip?.trim();
+  if (!secret || !address) return null;
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(address));
+  return toHex(signature).slice(0, 32);
+}
+
+/** Visitor IP: `cf-connecting-ip` on Cloudflare, else the first `x-forwarded-for` hop. */
+export const getClientIp = (headers: Headers) =>
+  headers.get('cf-connecting-ip') ?? headers.get('x-forwarded-for')?.split(',')[0]?.trim() ?? null;
+
+const isDownloadDevice = (value: unknown): value is DownloadDevice =>
+  typeof value === 'string' && (DOWNLOAD_DEVICES as readonly string[]).includes(value);
+
+const toEvent = (row: EventRow): DownloadEvent => ({
+  id: row.id,
+  linkId: row.link_id,
+  createdAt: Number(row.created_at) || 0,
+  platform: row.platform === 'ipa' ? 'ipa' : 'apk',
+  fileId: row.file_id,
+  version: row.version,
+  country: row.country,
+  os: row.os,
+  device: isDownloadDevice(row.device) ? row.device : 'other',
+  referrer: row.referrer,
+  ipHash: row.ip_hash,
+});
+
+/**
+ * Stores one download event. Never throws: the log is best effort and must not fail the
+ * download that was already counted.
+ */
+export async function recordDownloadEvent(
+  DB: D1Database,
+  input: DownloadEventInput,
+  ipHashSecret: string | null
+) {
+  try {
+    await Promise.all([ensureEventsTable(DB), ensureCountryTable(DB)]);
+    const { os, device } = parseUserAgent(input.userAgent);
+    const now = new Date();
+    const country = normalizeCountry(input.country);
+    const column = input.platform === 'ipa' ? 'ipa_dl' : 'apk_dl';
+    await DB.batch([
+      DB.prepare(
+        `INSERT INTO link_download_events
+          (id, link_id, created_at, platform, file_id, version, country, os, device, referrer, ip_hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        crypto.randomUUID(),
+        input.linkId,
+        Math.floor(now.getTime() / 1000),
+        input.platform,
+        input.fileId ?? null,
+        input.version?.slice(0, 64) ?? null,
+        country,
+        os,
+        device,
+        normalizeReferrer(input.referrer),
+        await hashDownloadIp(ipHashSecret, input.ip)
+      ),
+      DB.prepare(
+        `INSERT INTO link_country_downloads (link_id, date, country, ${column}) VALUES (?, ?, ?, 1)
+         ON CONFLICT(link_id, date, country) DO UPDATE SET ${column} = ${column} + 1`
+      ).bind(input.linkId, now.toISOString().slice(0, 10), country ?? ''),
+    ]);
+  } catch (error) {
+    console.error('[download-events] record failed', input.linkId, error);
+  }
+}
+
+/** Removes a link's event log and its per-country totals. */
+export async function deleteDownloadEventsForLink(DB: D1Database, linkId: string) {
+  await Promise.all([ensureEventsTable(DB), ensureCountryTable(DB)]);
+  await DB.batch([
+    DB.prepare('DELETE FROM link_download_events WHERE link_id=?').bind(linkId),
+    DB.prepare('DELETE FROM link_country_downloads WHERE link_id=?').bind(linkId),
+  ]);
+}
+
+/**
+ * Earlier downloads of a link from the same hashed IP: all of them since `rateSince`, and
+ * those from the same device class, OS and platform since `dedupeSince` (epoch seconds).
+ */
+export async function countRecentDownloadEvents(
+  DB: D1Database,
+  input: {
+    linkId: string;
+    ipHash: string;
+    platform: 'apk' | 'ipa';
+    userAgent: string | null;
+    rateSince: number;
+    dedupeSince: number;
+  }
+): Promise<{ recent: number; duplicates: number }> {
+  await ensureEventsTable(DB);
+  const { os, device } = parseUserAgent(input.userAgent);
+  const row = await DB.prepare(
+    `SELECT
+       SUM(CASE WHEN created_at >= ? THEN 1 ELSE 0 END) AS recent,
+       SUM(CASE WHEN created_at >= ? AND device=? AND COALESCE(os, '')=? AND platform=? THEN 1 ELSE 0 END) AS duplicates
+     FROM link_download_events
+     WHERE link_id=? AND ip_hash=? AND created_at >= ?`
+  )
+    .bind(
+      input.rateSince,
+      input.dedupeSince,
+      device,
+      os ?? '',
+      input.platform,
+      input.linkId,
+      input.ipHash,
+      Math.min(input.rateSince, input.dedupeSince)
+    )
+    .first<{ recent: number | null; duplicates: number | null }>();
+  return { recent: Number(row?.recent ?? 0), duplicates: Number(row?.duplicates ?? 0) };
+}
+
+/** Newest first, filtered and paged like the dashboard link list. */
+export async function listDownloadEvents(
+  DB: D1Database,
+  linkId: string,
+  filters: DownloadEventFilters,
+  page: number,
+  pageSize: number
+): Promise<DownloadEventsPage> {
+  await ensureEventsTable(DB);
+  const safePage = Number.isFinite(page) && page > 0 ? Math.floor(page) : 1;
+  const safePageSize =
+    Number.isFinite(pageSize) && pageSize > 0 ? Math.min(Math.floor(pageSize), MAX_EVENTS_PAGE_SIZE) : 20;
+
+  const conditions = ['link_id=?'];
+  const values: Array<string | number> = [linkId];
+  if (filters.platform) {
+    conditions.push('platform=?');
+    values.push(filters.platform);
+  }
+  const country = normalizeCountry(filters.country);
+  if (country) {
+    conditions.push('country=?');
+    values.push(country);
+  }
+  if (filters.device) {
+    conditions.push('device=?');
+    values.push(filters.device);
+  }
+  if (filters.from != null) {
+    conditions.push('created_at>=?');
+    values.push(filters.from);
+  }
+  if (filters.to != null) {
+    conditions.push('created_at<=?');
+    values.push(filters.to);
+  }
+  const where = conditions.join(' AND ');
+
+  const [countResult, rowsResult] = await DB.batch<{ count?: number } & EventRow>([
+    DB.prepare(`SELECT COUNT(*) AS count FROM link_download_events WHERE ${where}`).bind(...values),
+    DB.prepare(
+      `SELECT * FROM link_download_events WHERE ${where}
+       ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`
+    ).bind(...values, safePageSize, (safePage - 1) * safePageSize),
+  ]);
+
+  return {
+    page: safePage,
+    pageSize: safePageSize,
+    total: Number(countResult?.results?.[0]?.count ?? 0),
+    events: ((rowsResult?.results ?? []) as EventRow[]).map(toEvent),
+  };
+}
+
+/**
+ * Counted downloads per link and country between two `YYYY-MM-DD` days (inclusive), for one
+ * link or every link of an owner. Read from the daily totals, which outlive the event log.
+ */
+export async function fetchCountryDownloads(
+  DB: D1Database,
+  scope: { linkId: string } | { ownerId: string },
+  startDate: string,
+  endDate: string
+): Promise<CountryDownloads[]> {
+  await ensureCountryTable(DB);
+  const statement =
+    'linkId' in scope
+      ? DB.prepare(
+          `SELECT link_id, country, SUM(apk_dl) AS apk, SUM(ipa_dl) AS ipa
+           FROM link_country_downloads
+           WHERE link_id=? AND date BETWEEN ? AND ?
+           GROUP BY link_id, country`
+        ).bind(scope.linkId, startDate, endDate)
+      : DB.prepare(
+          `SELECT c.link_id, c.country, SUM(c.apk_dl) AS apk, SUM(c.ipa_dl) AS ipa
+           FROM link_country_downloads c
+           JOIN links l ON l.id = c.link_id
+           WHERE l.owner_id=? AND c.date BETWEEN ? AND ?
+           GROUP BY c.link_id, c.country`
+        ).bind(scope.ownerId, startDate, endDate);
+  const result = await statement.all<{
+    link_id: string;
+    country: string | null;
+    apk: number | string | null;
+    ipa: number | string | null;
+  }>();
+  return (result?.results ?? []).map((row) => ({
+    linkId: row.link_id,
+    country: normalizeCountry(row.country),
+    apk: Number(row.apk ?? 0) || 0,
+    ipa: Number(row.ipa ?? 0) || 0,
+  }));
+}
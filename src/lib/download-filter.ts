@@ -0,0 +1,204 @@
+// Decides whether a download hit is a real visitor before it is counted and billed. Crawlers,
+// link-preview bots, HEAD/prefetch requests, repeats from the same hashed IP and device, and
+// IPs hammering one link are served as usual but only counted in `link_filtered_downloads`.
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { countRecentDownloadEvents, hashDownloadIp } from './download-events';
+
+export type DownloadFilterBindings = {
+  DOWNLOAD_DEDUPE_WINDOW_SECONDS?: string;
+  DOWNLOAD_RATE_LIMIT?: string;
+  DOWNLOAD_RATE_WINDOW_SECONDS?: string;
+};
+
+export const DOWNLOAD_FILTER_REASONS = ['bot', 'prefetch', 'duplicate', 'rate_limited'] as const;
+
+export type DownloadFilterReason = (typeof DOWNLOAD_FILTER_REASONS)[number];
+
+export type FilteredDownloadCounts = Record<DownloadFilterReason, number> & { total: number };
+
+export type DownloadFilterConfig = {
+  /** Repeats from the same hashed IP, device and platform within this many seconds; 0 disables. */
+  dedupeWindowSeconds: number;
+  /** Counted downloads allowed per hashed IP and link within `rateWindowSeconds`; 0 disables. */
+  rateLimit: number;
+  rateWindowSeconds: number;
+};
+
+const DEFAULT_DEDUPE_WINDOW_SECONDS = 600;
+const MAX_DEDUPE_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_RATE_LIMIT = 20;
+const DEFAULT_RATE_WINDOW_SECONDS = 60 * 60;
+const MAX_RATE_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+
+// Search engines, link unfurlers (Telegram, WhatsApp, Slack, Discord, WeChat, ...), uptime
+// checkers and HTTP libraries. Real browsers and in-app webviews never send these (CUBOT
+// phones are the one device name ending in "bot").
+const BOT_USER_AGENT =
+  /(?<!cu)bot\b|bot\/|crawler|spider|slurp|facebookexternalhit|facebookcatalog|meta-externalagent|embedly|iframely|quora link preview|skypeuripreview|slack-imgproxy|slackbot|telegrambot|whatsapp|discordbot|twitterbot|linkedinbot|redditbot|vkshare|bingpreview|google-pagerenderer|googleother|headlesschrome|phantomjs|lighthouse|pingdom|uptimerobot|statuscake|wechat-bot|wxwork-bot|bytespider|petalbot|yisouspider|curl\/|wget\/|python-requests|python-urllib|aiohttp|httpx|go-http-client|java\/|node-fetch|axios\/|libwww-perl|scrapy/i;
+
+const readSeconds = (value: unknown, fallback: number, max: number) => {
+  if (value === undefined || value === null || value === '') return fallback;
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric < 0) return fallback;
+  return Math.min(numeric, max);
+};
+
+export const resolveDownloadFilterConfig = (bindings: DownloadFilterBindings): DownloadFilterConfig => ({
+  dedupeWindowSeconds: readSeconds(
+    bindings.DOWNLOAD_DEDUPE_WINDOW_SECONDS ?? process.env.DOWNLOAD_DEDUPE_WINDOW_SECONDS,
+    DEFAULT_DEDUPE_WINDOW_SECONDS,
+    MAX_DEDUPE_WINDOW_SECONDS
+  ),
+  rateLimit: readSeconds(
+    bindings.DOWNLOAD_RATE_LIMIT ?? process.env.DOWNLOAD_RATE_LIMIT,
+    DEFAULT_RATE_LIMIT,
+    Number.MAX_SAFE_INTEGER
+  ),
+  rateWindowSeconds:
+    readSeconds(
+      bindings.DOWNLOAD_RATE_WINDOW_SECONDS ?? process.env.DOWNLOAD_RATE_WINDOW_SECONDS,
+      DEFAULT_RATE_WINDOW_SECONDS,
+      MAX_RATE_WINDOW_SECONDS
+    ) || DEFAULT_RATE_WINDOW_SECONDS,
+});
+
+/** Missing User-Agents count as bots: every browser and download manager sends one. */
+export const isBotUserAgent = (userAgent: string | null | undefined) =>
+  !userAgent?.trim() || BOT_USER_AGENT.test(userAgent);
+
+/**
+ * HEAD requests and speculative loads: browser prefetch/prerender (`Sec-Purpose`, `Purpose`,
+ * `X-Moz`) and preview fetches (`X-Purpose: preview`).
+ */
+export const isPrefetchRequest = (method: string | null | undefined, headers: Headers | null) => {
+  if ((method ?? 'GET').toUpperCase() === 'HEAD') return true;
+  if (!headers) return false;
+  const purpose = [headers.get('sec-purpose'), headers.get('purpose'), headers.get('x-purpose'), headers.get('x-moz')]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return /prefetch|prerender|preview/.test(purpose);
+};
+
+export type DownloadHit = {
+  linkId: string;
+  platform: 'apk' | 'ipa';
+  method: string | null;
+  /** Request headers; regional servers forward only the purpose header. */
+  headers: Headers | null;
+  userAgent: string | null;
+  ip: string | null;
+};
+
+/**
+ * Why the hit should not be counted, or null for a real download. The IP checks need
+ * `DOWNLOAD_IP_HASH_SECRET`; without it only bots and prefetches are filtered. A failing
+ * lookup lets the download count, as before this filter existed.
+ */
+export async function classifyDownloadHit(
+  DB: D1Database,
+  hit: DownloadHit,
+  config: DownloadFilterConfig,
+  ipHashSecret: string | null,
+  now = Date.now()
+): Promise<DownloadFilterReason | null> {
+  if (isPrefetchRequest(hit.method, hit.headers)) return 'prefetch';
+  if (isBotUserAgent(hit.userAgent)) return 'bot';
+  if (!config.dedupeWindowSeconds && !config.rateLimit) return null;
+
+  const ipHash = await hashDownloadIp(ipHashSecret, hit.ip);
+  if (!ipHash) return null;
+  const nowSeconds = Math.floor(now / 1000);
+  try {
+    const { recent, duplicates } = await countRecentDownloadEvents(DB, {
+      linkId: hit.linkId,
+      ipHash,
+      platform: hit.platform,
+      userAgent: hit.userAgent,
+      rateSince: nowSeconds - config.rateWindowSeconds,
+      dedupeSince: nowSeconds - config.dedupeWindowSeconds,
+    });
+    if (config.dedupeWindowSeconds && duplicates > 0) return 'duplicate';
+    if (config.rateLimit && recent >= config.rateLimit) return 'rate_limited';
+  } catch (error) {
+    console.warn('[download-filter] window lookup failed', hit.linkId, error);
+  }
+  return null;
+}
+
+let filteredTableReady: Promise<void> | null = null;
+
+// Normally created by migrations/20251205_add_filtered_downloads.sql.
+const ensureFilteredTable = (DB: D1Database) => {
+  if (!filteredTableReady) {
+    filteredTableReady = DB.prepare(
+      `CREATE TABLE IF NOT EXISTS link_filtered_downloads (
+        link_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        count INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (link_id, date, reason),
+        FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+      )`
+    )
+      .run()
+      .then(() => undefined)
+      .catch((error) => {
+        filteredTableReady = null;
+        throw error;
+      });
+  }
+  return filteredTableReady;
+};
+
+/** Counts one filtered hit per UTC day. Never throws, so it cannot break the download. */
+export async function recordFilteredDownload(
+  DB: D1Database,
+  linkId: string,
+  reason: DownloadFilterReason,
+  now = new Date()
+) {
+  try {
+    await ensureFilteredTable(DB);
+    await DB.prepare(
+      `INSERT INTO link_filtered_downloads (link_id, date, reason, count) VALUES (?, ?, ?, 1)
+       ON CONFLICT(link_id, date, reason) DO UPDATE SET count = count + 1`
+    )
+      .bind(linkId, now.toISOString().slice(0, 10), reason)
+      .run();
+  } catch (error) {
+    console.error('[download-filter] record failed', linkId, reason, error);
+  }
+}
+
+/** Filtered hits of a link between two `YYYY-MM-DD` days, inclusive. */
+export async function fetchFilteredDownloadCounts(
+  DB: D1Database,
+  linkId: string,
+  startDate: string,
+  endDate: string
+): Promise<FilteredDownloadCounts> {
+  await ensureFilteredTable(DB);
+  const result = await DB.prepare(
+    `SELECT reason, SUM(count) AS count FROM link_filtered_downloads
+     WHERE link_id=? AND date BETWEEN ? AND ?
+     GROUP BY reason`
+  )
+    .bind(linkId, startDate, endDate)
+    .all<{ reason: string; count: number | string | null }>();
+  const counts: FilteredDownloadCounts = { bot: 0, prefetch: 0, duplicate: 0, rate_limited: 0, total: 0 };
+  for (const row of result?.results ?? []) {
+    const reason = row.reason as DownloadFilterReason;
+    if (!DOWNLOAD_FILTER_REASONS.includes(reason)) continue;
+    const count = Number(row.count ?? 0) || 0;
+    counts[reason] += count;
+    counts.total += count;
+  }
+  return counts;
+}
+
+export async function deleteFilteredDownloadsForLink(DB: D1Database, linkId: string) {
+  await ensureFilteredTable(DB);
+  await DB.prepare('DELETE FROM link_filtered_downloads WHERE link_id=?').bind(linkId).run();
+}
@@ -1,4 +1,5 @@
 import type { D1Database } from '@cloudflare/workers-types';
+import type { DownloadCounts, LinkLimits } from './link-limits';
 
 const DATE_FORMATTER = new Intl.DateTimeFormat('en-CA', {
   timeZone: 'UTC',
@@ -9,29 +10,66 @@ const DATE_FORMATTER = new Intl.DateTimeFormat('en-CA', {
 
 const formatDate = (date: Date) => DATE_FORMATTER.format(date);
 
-const sanitizeLinkId = (linkId: string) => linkId.replace(/[^a-zA-Z0-9]/g, '_');
+/** `YYYY-MM-DDTHH` in UTC, the key of `link_download_stats_hourly`. */
+export const formatStatsHour = (date: Date) => date.toISOString().slice(0, 13);
 
-export const getStatsTableName = (linkId: string) =>
-  `stats_${sanitizeLinkId(linkId)}`;
+export const DEFAULT_HOURLY_STATS_RETENTION_DAYS = 14;
+const MAX_HOURLY_STATS_RETENTION_DAYS = 90;
 
-const tableExists = async (DB: D1Database, tableName: string) => {
-  const row = await DB.prepare(
-    "SELECT name FROM sqlite_master WHERE type='table' AND name=? LIMIT 1"
-  )
-    .bind(tableName)
-    .first<{ name?: string }>();
-  return Boolean(row?.name);
+/**
+ * Days of hourly rows kept, from `HOURLY_STATS_RETENTION_DAYS`. The `workers/monitor`
+ * cron deletes older hours; the daily rows already hold their counts.
+ */
+export const resolveHourlyStatsRetentionDays = (value: unknown) => {
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric < 1) return DEFAULT_HOURLY_STATS_RETENTION_DAYS;
+  return Math.min(numeric, MAX_HOURLY_STATS_RETENTION_DAYS);
 };
 
-const ensureStatsTable = async (DB: D1Database, tableName: string) => {
-  const statement = DB.prepare(
-    `CREATE TABLE IF NOT EXISTS "${tableName}" (
-      date TEXT PRIMARY KEY,
-      apk_dl INTEGER DEFAULT 0,
-      ipa_dl INTEGER DEFAULT 0
-    )`
-  );
-  await statement.run();
+const sanitizeLinkId = (linkId: string) => linkId.replace(/[^a-zA-Z0-9]/g, '_');
+
+/**
+ * Name of the per-link table downloads used to be counted in, before `link_download_stats`.
+ * Only `scripts/migrate-download-stats.ts` still needs it.
+ */
+export const getLegacyStatsTableName = (linkId: string) =>
+  `stats_${sanitizeLinkId(linkId)}`;
+
+let statsTableReady: Promise<void> | null = null;
+
+// Normally created by migrations/20251022_link_download_stats.sql and
+// migrations/20251202_add_hourly_download_stats.sql.
+const ensureStatsTable = (DB: D1Database) => {
+  if (!statsTableReady) {
+    statsTableReady = DB.batch([
+      DB.prepare(
+        `CREATE TABLE IF NOT EXISTS link_download_stats (
+          link_id TEXT NOT NULL,
+          date TEXT NOT NULL,
+          apk_dl INTEGER NOT NULL DEFAULT 0,
+          ipa_dl INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (link_id, date),
+          FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+        )`
+      ),
+      DB.prepare(
+        `CREATE TABLE IF NOT EXISTS link_download_stats_hourly (
+          link_id TEXT NOT NULL,
+          hour TEXT NOT NULL,
+          apk_dl INTEGER NOT NULL DEFAULT 0,
+          ipa_dl INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (link_id, hour),
+          FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+        )`
+      ),
+    ])
+      .then(() => undefined)
+      .catch((error) => {
+        statsTableReady = null;
+        throw error;
+      });
+  }
+  return statsTableReady;
 };
 
 const toNumber = (value: unknown): number => {
@@ -82,38 +120,37 @@ const getLinkStatsColumns = (DB: D1Database): Promise<LinkStatsColumnMap> => {
   return cachedLinkStatsColumns;
 };
 
-const updateLinkDownloadColumns = async (
+// `links` keeps denormalized counters for the dashboard list. They are recomputed from
+// `link_download_stats` in the same batch as the increment, with subqueries on `links.id`.
+const buildLinkCountersUpdate = (
   DB: D1Database,
+  columns: LinkStatsColumnMap,
   linkId: string,
-  totals: DownloadTotals
+  today: string
 ) => {
-  const columns = await getLinkStatsColumns(DB);
+  const sum = (expression: string, todayOnly: boolean) =>
+    `(SELECT COALESCE(SUM(${expression}), 0) FROM link_download_stats WHERE link_id=links.id${
+      todayOnly ? ' AND date=?' : ''
+    })`;
+  const expressions: Record<LinkStatsColumnKey, [string, boolean]> = {
+    todayApk: ['apk_dl', true],
+    todayIpa: ['ipa_dl', true],
+    todayTotal: ['apk_dl + ipa_dl', true],
+    totalApk: ['apk_dl', false],
+    totalIpa: ['ipa_dl', false],
+    totalTotal: ['apk_dl + ipa_dl', false],
+  };
   const assignments: string[] = [];
-  const values: number[] = [];
-
-  const pushColumn = (key: LinkStatsColumnKey, value: number) => {
+  const values: string[] = [];
+  (Object.keys(expressions) as LinkStatsColumnKey[]).forEach((key) => {
     const column = columns[key];
     if (!column) return;
-    assignments.push(`${column}=?`);
-    values.push(value);
-  };
-
-  pushColumn('todayApk', totals.todayApk);
-  pushColumn('todayIpa', totals.todayIpa);
-  pushColumn('todayTotal', totals.todayTotal);
-  pushColumn('totalApk', totals.totalApk);
-  pushColumn('totalIpa', totals.totalIpa);
-  pushColumn('totalTotal', totals.totalTotal);
-
-  if (!assignments.length) return;
-
-  try {
-    await DB.prepare(`UPDATE links SET ${assignments.join(', ')} WHERE id=?`)
-      .bind(...values, linkId)
-      .run();
-  } catch (error) {
-    console.warn('[downloads] unable to update link download totals', error);
-  }
+    const [expression, todayOnly] = expressions[key];
+    assignments.push(`${column}=${sum(expression, todayOnly)}`);
+    if (todayOnly) values.push(today);
+  });
+  if (!assignments.length) return null;
+  return DB.prepare(`UPDATE links SET ${assignments.join(', ')} WHERE id=?`).bind(...values, linkId);
 };
 
 export type DownloadTotals = {
@@ -125,63 +162,115 @@ export type DownloadTotals = {
   totalTotal: number;
 };
 
-export async function ensureDownloadStatsTable(DB: D1Database, linkId?: string) {
-  if (!linkId) return;
-  const tableName = getStatsTableName(linkId);
-  await ensureStatsTable(DB, tableName);
+export class DownloadLimitError extends Error {
+  status: number;
+
+  constructor(message = 'DOWNLOAD_LIMIT_REACHED', status = 410) {
+    super(message);
+    this.status = status;
+  }
 }
 
+type DownloadCaps = Pick<LinkLimits, 'maxDownloads' | 'maxApkDownloads' | 'maxIpaDownloads'>;
+
+type TotalsRow = {
+  todayApk?: number | string | null;
+  todayIpa?: number | string | null;
+  totalApk?: number | string | null;
+  totalIpa?: number | string | null;
+};
+
 export async function deleteDownloadStatsForLink(DB: D1Database, linkId: string) {
-  const tableName = getStatsTableName(linkId);
-  if (!(await tableExists(DB, tableName))) {
-    return;
-  }
-  await DB.prepare(`DROP TABLE IF EXISTS "${tableName}"`).run();
+  await ensureStatsTable(DB);
+  await DB.batch([
+    DB.prepare('DELETE FROM link_download_stats WHERE link_id=?').bind(linkId),
+    DB.prepare('DELETE FROM link_download_stats_hourly WHERE link_id=?').bind(linkId),
+  ]);
+}
+
+/** All-time downloads per platform, from the same counters `recordDownload` updates. */
+export async function fetchDownloadCounts(DB: D1Database, linkId: string): Promise<DownloadCounts> {
+  await ensureStatsTable(DB);
+  const row = await DB.prepare(
+    'SELECT SUM(apk_dl) AS apkSum, SUM(ipa_dl) AS ipaSum FROM link_download_stats WHERE link_id=?'
+  )
+    .bind(linkId)
+    .first<{ apkSum?: number | string | null; ipaSum?: number | string | null }>();
+  return { apk: toNumber(row?.apkSum), ipa: toNumber(row?.ipaSum) };
 }
 
+/**
+ * Counts one download. With `limits`, the increment only happens while the caps have
+ * room — the check and the upsert are one statement, so concurrent downloads cannot
+ * overshoot — and `DownloadLimitError` is thrown otherwise.
+ *
+ * The upsert, the matching hourly upsert, the `links` counters and the totals read back
+ * go out as one batch.
+ */
 export async function recordDownload(
   DB: D1Database,
   linkId: string,
   platform: 'apk' | 'ipa',
-  now: Date = new Date()
+  options: { now?: Date; limits?: DownloadCaps | null } = {}
 ): Promise<DownloadTotals> {
-  const tableName = getStatsTableName(linkId);
-  await ensureStatsTable(DB, tableName);
+  const { now = new Date(), limits = null } = options;
+  const [, columns] = await Promise.all([ensureStatsTable(DB), getLinkStatsColumns(DB)]);
 
   const today = formatDate(now);
+  const isApk = platform === 'apk';
+  const updateColumn = isApk ? 'apk_dl' : 'ipa_dl';
+  const conditions: string[] = [];
+  const conditionValues: Array<string | number> = [];
+  const addCap = (cap: number | null | undefined, expression: string) => {
+    if (cap == null) return;
+    conditions.push(
+      `(SELECT COALESCE(SUM(${expression}), 0) FROM link_download_stats WHERE link_id=?) < ?`
+    );
+    conditionValues.push(linkId, cap);
+  };
+  addCap(limits?.maxDownloads, 'apk_dl + ipa_dl');
+  addCap(isApk ? limits?.maxApkDownloads : limits?.maxIpaDownloads, updateColumn);
+
+  // INSERT ... SELECT needs a WHERE before ON CONFLICT; the caps go there.
+  const upsert = DB.prepare(
+    `INSERT INTO link_download_stats (link_id, date, apk_dl, ipa_dl)
+     SELECT ?, ?, ?, ? WHERE ${conditions.length ? conditions.join(' AND ') : '1'}
+     ON CONFLICT(link_id, date) DO UPDATE SET ${updateColumn} = ${updateColumn} + 1`
+  ).bind(linkId, today, isApk ? 1 : 0, isApk ? 0 : 1, ...conditionValues);
+
+  // Runs right after the daily upsert, so changes() tells whether the caps let it through.
+  const hourlyUpsert = DB.prepare(
+    `INSERT INTO link_download_stats_hourly (link_id, hour, apk_dl, ipa_dl)
+     SELECT ?, ?, ?, ? WHERE changes() > 0
+     ON CONFLICT(link_id, hour) DO UPDATE SET ${updateColumn} = ${updateColumn} + 1`
+  ).bind(linkId, formatStatsHour(now), isApk ? 1 : 0, isApk ? 0 : 1);
+
+  const readTotals = DB.prepare(
+    `SELECT
+       COALESCE(SUM(CASE WHEN date=? THEN apk_dl ELSE 0 END), 0) AS todayApk,
+       COALESCE(SUM(CASE WHEN date=? THEN ipa_dl ELSE 0 END), 0) AS todayIpa,
+       COALESCE(SUM(apk_dl), 0) AS totalApk,
+       COALESCE(SUM(ipa_dl), 0) AS totalIpa
+     FROM link_download_stats WHERE link_id=?`
+  ).bind(today, today, linkId);
+
+  const updateLink = buildLinkCountersUpdate(DB, columns, linkId, today);
+  const results = await DB.batch<TotalsRow>(
+    updateLink
+      ? [upsert, hourlyUpsert, updateLink, readTotals]
+      : [upsert, hourlyUpsert, readTotals]
+  );
+  if (conditions.length && !results[0]?.meta?.changes) {
+    throw new DownloadLimitError();
+  }
+
+  const totals = results[results.length - 1]?.results?.[0] ?? {};
+  const todayApk = toNumber(totals.todayApk);
+  const todayIpa = toNumber(totals.todayIpa);
+  const totalApk = toNumber(totals.totalApk);
+  const totalIpa = toNumber(totals.totalIpa);
 
-  const insertRow = DB.prepare(
-    `INSERT OR IGNORE INTO "${tableName}" (date, apk_dl, ipa_dl) VALUES (?, 0, 0)`
-  ).bind(today);
-
-  const updateColumn = platform === 'apk' ? 'apk_dl' : 'ipa_dl';
-  const updateRow = DB.prepare(
-    `UPDATE "${tableName}" SET ${updateColumn} = ${updateColumn} + 1 WHERE date=?`
-  ).bind(today);
-
-  await DB.batch([insertRow, updateRow]);
-
-  const todayRow =
-    (await DB.prepare(
-      `SELECT apk_dl, ipa_dl FROM "${tableName}" WHERE date=?`
-    )
-      .bind(today)
-      .first<{ apk_dl?: number | string | null; ipa_dl?: number | string | null }>()) ?? {
-      apk_dl: 0,
-      ipa_dl: 0,
-    };
-
-  const totals =
-    (await DB.prepare(
-      `SELECT SUM(apk_dl) AS apkSum, SUM(ipa_dl) AS ipaSum FROM "${tableName}"`
-    ).first<{ apkSum?: number | string | null; ipaSum?: number | string | null }>()) ?? {};
-
-  const todayApk = toNumber(todayRow.apk_dl);
-  const todayIpa = toNumber(todayRow.ipa_dl);
-  const totalApk = toNumber(totals.apkSum);
-  const totalIpa = toNumber(totals.ipaSum);
-
-  const totalsPayload: DownloadTotals = {
+  return {
     todayApk,
     todayIpa,
     todayTotal: todayApk + todayIpa,
@@ -189,10 +278,6 @@ export async function recordDownload(
     totalIpa,
     totalTotal: totalApk + totalIpa,
   };
-
-  await updateLinkDownloadColumns(DB, linkId, totalsPayload);
-
-  return totalsPayload;
 }
 
 export type DownloadStatsRow = {
@@ -207,17 +292,79 @@ export async function fetchDownloadStatsRange(
   startDate: string,
   endDate: string
 ) {
-  const tableName = getStatsTableName(linkId);
-  if (!(await tableExists(DB, tableName))) {
-    return [];
-  }
+  await ensureStatsTable(DB);
   const result = await DB.prepare(
     `SELECT date, apk_dl, ipa_dl
-     FROM "${tableName}"
-     WHERE date BETWEEN ? AND ?
+     FROM link_download_stats
+     WHERE link_id=? AND date BETWEEN ? AND ?
      ORDER BY date ASC`
   )
-    .bind(startDate, endDate)
+    .bind(linkId, startDate, endDate)
     .all<DownloadStatsRow>();
   return (result?.results as DownloadStatsRow[] | undefined) ?? [];
 }
+
+export type HourlyDownloadStatsRow = {
+  hour: string;
+  apk_dl: number | string | null;
+  ipa_dl: number | string | null;
+};
+
+/** Hourly rows between two `formatStatsHour` keys, inclusive. */
+export async function fetchHourlyDownloadStatsRange(
+  DB: D1Database,
+  linkId: string,
+  startHour: string,
+  endHour: string
+) {
+  await ensureStatsTable(DB);
+  const result = await DB.prepare(
+    `SELECT hour, apk_dl, ipa_dl
+     FROM link_download_stats_hourly
+     WHERE link_id=? AND hour BETWEEN ? AND ?
+     ORDER BY hour ASC`
+  )
+    .bind(linkId, startHour, endHour)
+    .all<HourlyDownloadStatsRow>();
+  return (result?.results as HourlyDownloadStatsRow[] | undefined) ?? [];
+}
+
+/** `fetchDownloadStatsRange` over every link of an owner, with each row's `link_id`. */
+export async function fetchOwnerDownloadStatsRange(
+  DB: D1Database,
+  ownerId: string,
+  startDate: string,
+  endDate: string
+) {
+  await ensureStatsTable(DB);
+  const result = await DB.prepare(
+    `SELECT s.link_id, s.date, s.apk_dl, s.ipa_dl
+     FROM link_download_stats s
+     JOIN links l ON l.id = s.link_id
+     WHERE l.owner_id=? AND s.date BETWEEN ? AND ?
+     ORDER BY s.date ASC`
+  )
+    .bind(ownerId, startDate, endDate)
+    .all<DownloadStatsRow & { link_id: string }>();
+  return (result?.results as Array<DownloadStatsRow & { link_id: string }> | undefined) ?? [];
+}
+
+/** `fetchHourlyDownloadStatsRange` over every link of an owner, with each row's `link_id`. */
+export async function fetchOwnerHourlyDownloadStatsRange(
+  DB: D1Database,
+  ownerId: string,
+  startHour: string,
+  endHour: string
+) {
+  await ensureStatsTable(DB);
+  const result = await DB.prepare(
+    `SELECT s.link_id, s.hour, s.apk_dl, s.ipa_dl
+     FROM link_download_stats_hourly s
+     JOIN links l ON l.id = s.link_id
+     WHERE l.owner_id=? AND s.hour BETWEEN ? AND ?
+     ORDER BY s.hour ASC`
+  )
+    .bind(ownerId, startHour, endHour)
+    .all<HourlyDownloadStatsRow & { link_id: string }>();
+  return (result?.results as Array<HourlyDownloadStatsRow & { link_id: string }> | undefined) ?? [];
+}
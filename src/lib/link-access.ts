@@ -0,0 +1,135 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import { decodePasswordRecord, encodePasswordRecord, hashPassword, randomSaltHex } from './pw';
+import { timingSafeEqual, toBase64Url } from './signing';
+
+/** How long a download grant stays valid after the visitor enters the password. */
+export const LINK_GRANT_TTL_SECONDS = 15 * 60;
+
+/** Wrong passwords are counted over this window, per hashed IP and per link. */
+export const PASSWORD_ATTEMPT_WINDOW_SECONDS = 15 * 60;
+// Per IP only: a link-wide cap would let anyone lock every visitor out with wrong guesses.
+const MAX_PASSWORD_FAILURES_PER_IP = 10;
+
+export type LinkAccessBindings = {
+  LINK_ACCESS_SECRET?: string;
+};
+
+export const getLinkAccessSecret = (bindings: LinkAccessBindings): string | null => {
+  const secret = (bindings.LINK_ACCESS_SECRET ?? process.env.LINK_ACCESS_SECRET ?? '').trim();
+  return secret || null;
+};
+
+export async function hashLinkPassword(password: string) {
+  const salt = randomSaltHex();
+  return encodePasswordRecord(salt, await hashPassword(password, salt));
+}
+
+export async function verifyLinkPassword(password: string, record: string | null) {
+  const parsed = record ? decodePasswordRecord(record) : null;
+  if (!parsed?.saltHex || !password) return false;
+  const derived = await hashPassword(password, parsed.saltHex);
+  return timingSafeEqual(derived, parsed.hashHex);
+}
+
+async function signGrant(secret: string, linkId: string, exp: number) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(`${linkId}.${exp}`)
+  );
+  return toBase64Url(signature);
+}
+
+/** Grants are `<exp>.<sig>` where sig is HMAC-SHA256(secret, `<linkId>.<exp>`). */
+export async function createLinkGrant(secret: string, linkId: string, now = Date.now()) {
+  const exp = Math.floor(now / 1000) + LINK_GRANT_TTL_SECONDS;
+  return `${exp}.${await signGrant(secret, linkId, exp)}`;
+}
+
+export async function verifyLinkGrant(
+  secret: string,
+  linkId: string,
+  token: string | null | undefined,
+  now = Date.now()
+) {
+  if (!token) return false;
+  const [expPart, signature, extra] = token.split('.');
+  if (!expPart || !signature || extra !== undefined) return false;
+  const exp = Number(expPart);
+  if (!Number.isInteger(exp) || exp < Math.floor(now / 1000)) return false;
+  return timingSafeEqual(await signGrant(secret, linkId, exp), signature);
+}
+
+let failuresTableReady: Promise<void> | null = null;
+
+// Normally created by migrations/20251208_add_link_password_failures.sql.
+const ensureFailuresTable = (DB: D1Database) => {
+  if (!failuresTableReady) {
+    failuresTableReady = DB.batch([
+      DB.prepare(
+        `CREATE TABLE IF NOT EXISTS link_password_failures (
+          link_id TEXT NOT NULL,
+          ip_hash TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        )`
+      ),
+      DB.prepare(
+        'CREATE INDEX IF NOT EXISTS idx_link_password_failures_link ON link_password_failures (link_id, created_at)'
+      ),
+    ])
+      .then(() => undefined)
+      .catch((error) => {
+        failuresTableReady = null;
+        throw error;
+      });
+  }
+  return failuresTableReady;
+};
+
+/**
+ * True once the visitor's hashed IP got the link's password wrong too often within
+ * PASSWORD_ATTEMPT_WINDOW_SECONDS. The password is not checked while this holds.
+ */
+export async function isPasswordAttemptLimited(
+  DB: D1Database,
+  linkId: string,
+  ipHash: string,
+  now = Math.floor(Date.now() / 1000)
+) {
+  await ensureFailuresTable(DB);
+  const row = await DB.prepare(
+    `SELECT COUNT(*) AS total FROM link_password_failures
+     WHERE link_id = ? AND ip_hash = ? AND created_at >= ?`
+  )
+    .bind(linkId, ipHash, now - PASSWORD_ATTEMPT_WINDOW_SECONDS)
+    .first<{ total: number | null }>();
+  return Number(row?.total ?? 0) >= MAX_PASSWORD_FAILURES_PER_IP;
+}
+
+/** Counts one wrong password and drops the link's failures that left the window. */
+export async function recordPasswordFailure(
+  DB: D1Database,
+  linkId: string,
+  ipHash: string,
+  now = Math.floor(Date.now() / 1000)
+) {
+  await ensureFailuresTable(DB);
+  await DB.batch([
+    DB.prepare('DELETE FROM link_password_failures WHERE link_id = ? AND created_at < ?').bind(
+      linkId,
+      now - PASSWORD_ATTEMPT_WINDOW_SECONDS
+    ),
+    DB.prepare('INSERT INTO link_password_failures (link_id, ip_hash, created_at) VALUES (?, ?, ?)').bind(
+      linkId,
+      ipHash,
+      now
+    ),
+  ]);
+}
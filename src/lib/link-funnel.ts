@@ -0,0 +1,212 @@
+// Download page funnel per link, UTC day and platform: page views (counted by `/d/<code>`),
+// button clicks and the iOS trust guide being shown (both reported by the page), with the
+// completed `/dl` redirects taken from `link_download_stats`.
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { parseUserAgent } from './download-events';
+
+export const FUNNEL_STEPS = ['view', 'click', 'guide'] as const;
+
+export type FunnelStep = (typeof FUNNEL_STEPS)[number];
+
+/** `other` covers visitors on desktops and unknown devices; they only have views. */
+export type FunnelPlatform = 'apk' | 'ipa' | 'other';
+
+export type FunnelCounts = {
+  views: number;
+  clicks: number;
+  /** iOS only: how often the trust guide was shown after the install button. */
+  guides: number;
+  downloads: number;
+};
+
+export type LinkFunnel = Record<FunnelPlatform, FunnelCounts> & {
+  /** iOS visitors download far less often than expected; see `isIosConversionLow`. */
+  lowIosConversion: boolean;
+};
+
+const STEP_COLUMNS: Record<FunnelStep, 'views' | 'clicks' | 'guides'> = {
+  view: 'views',
+  click: 'clicks',
+  guide: 'guides',
+};
+
+// Below this many iOS views in the range the ratio is too noisy to flag.
+const MIN_IOS_VIEWS = 20;
+// Flag when iOS converts at less than half the Android rate of the same link, or below
+// this floor when there is no Android traffic to compare with.
+const RELATIVE_IOS_CONVERSION = 0.5;
+const MIN_IOS_CONVERSION = 0.15;
+
+let funnelTableReady: Promise<void> | null = null;
+
+// Normally created by migrations/20251204_add_link_funnel_stats.sql.
+const ensureFunnelTable = (DB: D1Database) => {
+  if (!funnelTableReady) {
+    funnelTableReady = DB.prepare(
+      `CREATE TABLE IF NOT EXISTS link_funnel_stats (
+        link_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        platform TEXT NOT NULL,
+        views INTEGER NOT NULL DEFAULT 0,
+        clicks INTEGER NOT NULL DEFAULT 0,
+        guides INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (link_id, date, platform),
+        FOREIGN KEY (link_id) REFERENCES links(id) ON DELETE CASCADE
+      )`
+    )
+      .run()
+      .then(() => undefined)
+      .catch((error) => {
+        funnelTableReady = null;
+        throw error;
+      });
+  }
+  return funnelTableReady;
+};
+
+const toNumber = (value: unknown): number => {
+  const numeric = Number(value ?? 0);
+  return Number.isFinite(numeric) ? numeric : 0;
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const isFunnelStep = (value: unknown): value is FunnelStep =>
+  typeof value === 'string' && (FUNNEL_STEPS as readonly string[]).includes(value);
+
+/** The platform a page view counts for: the one the visitor's device can install. */
+export function funnelPlatformFromUserAgent(userAgent: string | null | undefined): FunnelPlatform {
+  const { os } = parseUserAgent(userAgent);
+  if (os === 'iOS' || os === 'iPadOS') return 'ipa';
+  if (os === 'Android' || os === 'HarmonyOS') return 'apk';
+  return 'other';
+}
+
+/** Counts one funnel step. Never throws, so tracking cannot break the download page. */
+export async function recordFunnelStep(
+  DB: D1Database,
+  linkId: string,
+  step: FunnelStep,
+  platform: FunnelPlatform,
+  now = new Date()
+) {
+  const column = STEP_COLUMNS[step];
+  try {
+    await ensureFunnelTable(DB);
+    await DB.prepare(
+      `INSERT INTO link_funnel_stats (link_id, date, platform, ${column}) VALUES (?, ?, ?, 1)
+       ON CONFLICT(link_id, date, platform) DO UPDATE SET ${column} = ${column} + 1`
+    )
+      .bind(linkId, formatDate(now), platform)
+      .run();
+  } catch (error) {
+    console.error('[link-funnel] record failed', linkId, step, error);
+  }
+}
+
+export async function deleteFunnelStatsForLink(DB: D1Database, linkId: string) {
+  await ensureFunnelTable(DB);
+  await DB.prepare('DELETE FROM link_funnel_stats WHERE link_id=?').bind(linkId).run();
+}
+
+const emptyCounts = (): FunnelCounts => ({ views: 0, clicks: 0, guides: 0, downloads: 0 });
+
+export function isIosConversionLow(funnel: Record<FunnelPlatform, FunnelCounts>) {
+  const { ipa, apk } = funnel;
+  if (ipa.views < MIN_IOS_VIEWS) return false;
+  const iosRate = ipa.downloads / ipa.views;
+  if (apk.views >= MIN_IOS_VIEWS) {
+    return iosRate < (apk.downloads / apk.views) * RELATIVE_IOS_CONVERSION;
+  }
+  return iosRate < MIN_IOS_CONVERSION;
+}
+
+type FunnelRow = {
+  link_id: string;
+  platform: string;
+  views: number | string | null;
+  clicks: number | string | null;
+  guides: number | string | null;
+};
+
+type DownloadSumRow = {
+  link_id: string;
+  apk: number | string | null;
+  ipa: number | string | null;
+};
+
+async function fetchFunnels(DB: D1Database, linkIds: string[], startDate: string, endDate: string) {
+  await ensureFunnelTable(DB);
+  const placeholders = linkIds.map(() => '?').join(', ');
+  const [funnelResult, downloadResult] = await DB.batch<FunnelRow | DownloadSumRow>([
+    DB.prepare(
+      `SELECT link_id, platform, SUM(views) AS views, SUM(clicks) AS clicks, SUM(guides) AS guides
+       FROM link_funnel_stats
+       WHERE link_id IN (${placeholders}) AND date BETWEEN ? AND ?
+       GROUP BY link_id, platform`
+    ).bind(...linkIds, startDate, endDate),
+    DB.prepare(
+      `SELECT link_id, SUM(apk_dl) AS apk, SUM(ipa_dl) AS ipa
+       FROM link_download_stats
+       WHERE link_id IN (${placeholders}) AND date BETWEEN ? AND ?
+       GROUP BY link_id`
+    ).bind(...linkIds, startDate, endDate),
+  ]);
+
+  const funnels = new Map<string, Record<FunnelPlatform, FunnelCounts>>();
+  const funnelFor = (linkId: string) => {
+    let funnel = funnels.get(linkId);
+    if (!funnel) {
+      funnel = { apk: emptyCounts(), ipa: emptyCounts(), other: emptyCounts() };
+      funnels.set(linkId, funnel);
+    }
+    return funnel;
+  };
+  for (const row of (funnelResult?.results ?? []) as FunnelRow[]) {
+    const platform: FunnelPlatform =
+      row.platform === 'apk' || row.platform === 'ipa' ? row.platform : 'other';
+    const counts = funnelFor(row.link_id)[platform];
+    counts.views += toNumber(row.views);
+    counts.clicks += toNumber(row.clicks);
+    counts.guides += toNumber(row.guides);
+  }
+  for (const row of (downloadResult?.results ?? []) as DownloadSumRow[]) {
+    const funnel = funnelFor(row.link_id);
+    funnel.apk.downloads = toNumber(row.apk);
+    funnel.ipa.downloads = toNumber(row.ipa);
+  }
+  return funnels;
+}
+
+/** Funnel of one link between two `YYYY-MM-DD` days, inclusive. */
+export async function fetchLinkFunnel(
+  DB: D1Database,
+  linkId: string,
+  startDate: string,
+  endDate: string
+): Promise<LinkFunnel> {
+  const funnel = (await fetchFunnels(DB, [linkId], startDate, endDate)).get(linkId) ?? {
+    apk: emptyCounts(),
+    ipa: emptyCounts(),
+    other: emptyCounts(),
+  };
+  return { ...funnel, lowIosConversion: isIosConversionLow(funnel) };
+}
+
+/** Which of `linkIds` had low iOS conversion over the last `days` days, for the dashboard. */
+export async function fetchLowIosConversionLinkIds(
+  DB: D1Database,
+  linkIds: string[],
+  days = 7,
+  now = new Date()
+): Promise<Set<string>> {
+  if (!linkIds.length) return new Set();
+  const start = new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  const funnels = await fetchFunnels(DB, linkIds, formatDate(start), formatDate(now));
+  return new Set(
+    Array.from(funnels.entries())
+      .filter(([, funnel]) => isIosConversionLow(funnel))
+      .map(([linkId]) => linkId)
+  );
+}
@@ -0,0 +1,104 @@
+// Optional expiry date and download caps on a link. Shared by the download routes,
+// the distribution API and the dashboard.
+
+export type LinkLimits = {
+  /** Epoch seconds after which the link stops serving downloads. */
+  expiresAt: number | null;
+  maxDownloads: number | null;
+  maxApkDownloads: number | null;
+  maxIpaDownloads: number | null;
+};
+
+export type LinkLimitKey = keyof LinkLimits;
+
+export const LINK_LIMIT_COLUMNS: Record<LinkLimitKey, string> = {
+  expiresAt: 'expires_at',
+  maxDownloads: 'max_downloads',
+  maxApkDownloads: 'max_apk_downloads',
+  maxIpaDownloads: 'max_ipa_downloads',
+};
+
+const LINK_LIMIT_KEYS = Object.keys(LINK_LIMIT_COLUMNS) as LinkLimitKey[];
+
+export type LinkAvailability = 'available' | 'expired' | 'limitReached';
+
+export type DownloadCounts = {
+  apk: number;
+  ipa: number;
+};
+
+export type RemainingDownloads = {
+  total: number | null;
+  apk: number | null;
+  ipa: number | null;
+};
+
+export const hasDownloadCap = (limits: LinkLimits) =>
+  limits.maxDownloads != null || limits.maxApkDownloads != null || limits.maxIpaDownloads != null;
+
+export const isLinkExpired = (limits: Pick<LinkLimits, 'expiresAt'>, now = Date.now()) =>
+  limits.expiresAt != null && limits.expiresAt * 1000 <= now;
+
+/** Remaining downloads per cap; null means the cap is not set. */
+export function getRemainingDownloads(limits: LinkLimits, counts: DownloadCounts): RemainingDownloads {
+  const remaining = (cap: number | null, used: number) =>
+    cap == null ? null : Math.max(0, cap - used);
+  const total = remaining(limits.maxDownloads, counts.apk + counts.ipa);
+  const clamp = (value: number | null) =>
+    value == null ? total : total == null ? value : Math.min(value, total);
+  return {
+    total,
+    apk: clamp(remaining(limits.maxApkDownloads, counts.apk)),
+    ipa: clamp(remaining(limits.maxIpaDownloads, counts.ipa)),
+  };
+}
+
+/**
+ * Whether the link (or, with `platform`, one of its builds) may still be downloaded.
+ * Without a platform only the expiry date and the total cap are considered.
+ */
+export function getLinkAvailability(
+  limits: LinkLimits,
+  counts: DownloadCounts | null,
+  platform?: 'apk' | 'ipa',
+  now = Date.now()
+): LinkAvailability {
+  if (isLinkExpired(limits, now)) return 'expired';
+  if (!counts) return 'available';
+  const remaining = getRemainingDownloads(limits, counts);
+  const left = platform ? remaining[platform] : remaining.total;
+  return left === 0 ? 'limitReached' : 'available';
+}
+
+const normalizeLimitValue = (value: unknown): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const numeric = typeof value === 'string' ? Number(value) : value;
+  if (typeof numeric !== 'number' || !Number.isInteger(numeric) || numeric <= 0) {
+    return Number.NaN;
+  }
+  return numeric;
+};
+
+/**
+ * Reads limit fields from a request body. Keys that are missing stay missing (so PATCH
+ * keeps the stored value), null/'' clears a limit, and anything that is not a positive
+ * integer makes the whole input invalid (returns null).
+ */
+export function readLinkLimitsInput(input: Partial<Record<LinkLimitKey, unknown>>): Partial<LinkLimits> | null {
+  const limits: Partial<LinkLimits> = {};
+  for (const key of LINK_LIMIT_KEYS) {
+    const value = normalizeLimitValue(input[key]);
+    if (value === undefined) continue;
+    if (Number.isNaN(value)) return null;
+    limits[key] = value;
+  }
+  return limits;
+}
+
+/** `[column, value]` pairs for the limits present in `limits`. */
+export const toLinkLimitColumns = (limits: Partial<LinkLimits>): Array<[string, unknown]> =>
+  LINK_LIMIT_KEYS.filter((key) => limits[key] !== undefined).map((key) => [
+    LINK_LIMIT_COLUMNS[key],
+    limits[key],
+  ]);
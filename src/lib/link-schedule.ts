@@ -0,0 +1,176 @@
+// Scheduled publish/unpublish times on a link. The cron route `/api/cron/link-schedules`
+// flips `is_active` when a time is reached; the edit modal enters the times in a chosen
+// time zone.
+
+export type LinkSchedule = {
+  /** Epoch seconds at which the link goes live; the link stays off until then. */
+  publishAt: number | null;
+  /** Epoch seconds at which the link is turned off. */
+  unpublishAt: number | null;
+  /** IANA time zone the owner entered the times in; only used to show them back. */
+  scheduleTimezone: string | null;
+};
+
+export type LinkScheduleKey = keyof LinkSchedule;
+
+export const LINK_SCHEDULE_COLUMNS: Record<LinkScheduleKey, string> = {
+  publishAt: 'publish_at',
+  unpublishAt: 'unpublish_at',
+  scheduleTimezone: 'schedule_timezone',
+};
+
+const LINK_SCHEDULE_KEYS = Object.keys(LINK_SCHEDULE_COLUMNS) as LinkScheduleKey[];
+
+export const isValidTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const normalizeScheduleTime = (value: unknown): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const numeric = typeof value === 'string' ? Number(value) : value;
+  if (typeof numeric !== 'number' || !Number.isInteger(numeric) || numeric <= 0) {
+    return Number.NaN;
+  }
+  return numeric;
+};
+
+/**
+ * Reads schedule fields from a request body, like `readLinkLimitsInput`: missing keys stay
+ * missing, null/'' clears a value, and an invalid time or time zone returns null.
+ */
+export function readLinkScheduleInput(
+  input: Partial<Record<LinkScheduleKey, unknown>>
+): Partial<LinkSchedule> | null {
+  const schedule: Partial<LinkSchedule> = {};
+  for (const key of LINK_SCHEDULE_KEYS) {
+    const value = input[key];
+    if (key === 'scheduleTimezone') {
+      if (value === undefined) continue;
+      if (value === null || value === '') {
+        schedule.scheduleTimezone = null;
+        continue;
+      }
+      if (typeof value !== 'string' || value.length > 64 || !isValidTimeZone(value)) return null;
+      schedule.scheduleTimezone = value;
+      continue;
+    }
+    const time = normalizeScheduleTime(value);
+    if (time === undefined) continue;
+    if (Number.isNaN(time)) return null;
+    schedule[key] = time;
+  }
+  return schedule;
+}
+
+/** `[column, value]` pairs for the schedule fields present in `schedule`. */
+export const toLinkScheduleColumns = (schedule: Partial<LinkSchedule>): Array<[string, unknown]> =>
+  LINK_SCHEDULE_KEYS.filter((key) => schedule[key] !== undefined).map((key) => [
+    LINK_SCHEDULE_COLUMNS[key],
+    schedule[key],
+  ]);
+
+export const isValidLinkSchedule = (schedule: Pick<LinkSchedule, 'publishAt' | 'unpublishAt'>) =>
+  schedule.publishAt == null || schedule.unpublishAt == null || schedule.unpublishAt > schedule.publishAt;
+
+/**
+ * The `is_active` value a schedule implies at `now`. Times that have passed are applied
+ * and cleared, so the manual toggle is in charge again afterwards; a publish time still
+ * ahead keeps the link off.
+ */
+export function resolveLinkSchedule(
+  isActive: boolean,
+  schedule: Pick<LinkSchedule, 'publishAt' | 'unpublishAt'>,
+  now = Date.now()
+) {
+  const nowSeconds = Math.floor(now / 1000);
+  let active = isActive;
+  let { publishAt, unpublishAt } = schedule;
+  if (publishAt != null) {
+    active = publishAt <= nowSeconds;
+    if (active) publishAt = null;
+  }
+  if (unpublishAt != null && unpublishAt <= nowSeconds) {
+    active = false;
+    unpublishAt = null;
+  }
+  return { isActive: active, publishAt, unpublishAt };
+}
+
+/**
+ * Whether a link may be served at `now`. Stricter than `isActive` alone: a passed unpublish
+ * time or a pending publish time already counts before the cron has applied it.
+ */
+export const isLinkLive = (
+  link: { isActive: boolean } & Pick<LinkSchedule, 'publishAt' | 'unpublishAt'>,
+  now = Date.now()
+) => link.isActive && resolveLinkSchedule(link.isActive, link, now).isActive;
+
+/** Off now, but scheduled to go live: `/d/<code>` shows a "coming soon" notice. */
+export const isLinkComingSoon = (link: { isActive: boolean; publishAt: number | null }) =>
+  !link.isActive && link.publishAt != null;
+
+const WALL_CLOCK = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+// How far `timeZone` is ahead of UTC at `epochMs`.
+const getTimeZoneOffsetMs = (epochMs: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(epochMs));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((item) => item.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  return wallClock - Math.floor(epochMs / 1000) * 1000;
+};
+
+/** `YYYY-MM-DDTHH:mm` in `timeZone`, the value format of `<input type="datetime-local">`. */
+export const toZonedDateTimeInput = (epochSeconds: number | null, timeZone: string) => {
+  if (!epochSeconds) return '';
+  const epochMs = epochSeconds * 1000;
+  return new Date(epochMs + getTimeZoneOffsetMs(epochMs, timeZone)).toISOString().slice(0, 16);
+};
+
+/** Epoch seconds of a `datetime-local` value read as wall-clock time in `timeZone`. */
+export const fromZonedDateTimeInput = (value: string, timeZone: string) => {
+  const match = WALL_CLOCK.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+  // The offset depends on the instant itself; a second pass settles it around DST changes.
+  let epochMs = wallClock - getTimeZoneOffsetMs(wallClock, timeZone);
+  epochMs = wallClock - getTimeZoneOffsetMs(epochMs, timeZone);
+  return Math.floor(epochMs / 1000);
+};
+
+/** A schedule time for people, with the zone name so visitors elsewhere are not misled. */
+export const formatScheduleTime = (epochSeconds: number, locale: string, timeZone?: string | null) => {
+  const zone = timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: zone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(epochSeconds * 1000));
+};
@@ -0,0 +1,47 @@
+// Shared between the upload routes and the dashboard uploader.
+
+/** Packages at or above this size are uploaded in parts so they can be resumed. */
+export const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+
+export const MULTIPART_PART_SIZE = 16 * 1024 * 1024;
+
+// R2 and S3 reject more parts than this; larger files get bigger parts instead.
+const MAX_PARTS = 10000;
+
+// Parts are presigned in small batches so URLs do not expire while earlier parts upload.
+export const MULTIPART_PRESIGN_BATCH = 8;
+
+export const MULTIPART_PRESIGN_EXPIRES = 3600;
+
+/**
+ * `r2` parts go to presigned R2 URLs and are stitched together by the worker; `ticket`
+ * parts go to the regional server's upload ticket (`<uploadUrl>/parts/<n>`).
+ */
+export type MultipartMode = 'r2' | 'ticket';
+
+export type MultipartUploadSession = {
+  mode: MultipartMode;
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+};
+
+export type UploadedPart = {
+  partNumber: number;
+  etag: string;
+};
+
+export const planMultipartUpload = (size: number) => {
+  let partSize = MULTIPART_PART_SIZE;
+  while (Math.ceil(size / partSize) > MAX_PARTS) {
+    partSize *= 2;
+  }
+  return { partSize, partCount: Math.max(1, Math.ceil(size / partSize)) };
+};
+
+export const isValidPartNumber = (value: unknown, partCount = MAX_PARTS): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= partCount;
+
+/** Upload keys are always `<uid>/links/...`; anything else belongs to someone else. */
+export const isOwnedUploadKey = (uid: string, key: string) =>
+  key.startsWith(`${uid}/links/`) && !key.includes('..');
@@ -0,0 +1,248 @@
+// Reads title, bundle ID, version and signing details out of an APK or IPA before it is
+// uploaded. Shared by the dashboard (with a File) and the CLI uploader (with a Buffer); the
+// server re-reads the stored package in `package-metadata.ts` either way.
+
+import JSZip from 'jszip';
+import plist from 'plist';
+import { parseBuffer as parseBinaryPlist } from 'bplist-parser';
+import { Buffer } from 'buffer';
+import { readProvisioningProfile, type ProvisioningProfile } from './provisioning';
+
+export const DEFAULT_PACKAGE_TITLE = 'APP';
+
+export type PackageFileMetadata = {
+  title?: string | null;
+  bundleId?: string | null;
+  version?: string | null;
+  build?: string | null;
+  provisioning?: ProvisioningProfile | null;
+};
+
+type PackageSource = Blob | ArrayBuffer | Uint8Array;
+
+type BinaryXmlAttributeRaw = {
+  name?: string;
+  nodeName?: string;
+  value?: string;
+};
+
+type BinaryXmlNodeRaw = {
+  nodeName?: string;
+  attributes?: BinaryXmlAttributeRaw[];
+  childNodes?: BinaryXmlNodeRaw[];
+};
+
+async function parseGradleMetadata(zip: JSZip): Promise<PackageFileMetadata | null> {
+  const metadataPaths = [
+    'META-INF/com/android/build/gradle/app-metadata.properties',
+    'BUNDLE-METADATA/com.android.tools.build.gradle/app-metadata.properties',
+  ];
+
+  for (const path of metadataPaths) {
+    const entry = zip.file(path);
+    if (!entry) continue;
+    const raw = await entry.async('text');
+    const map = new Map<string, string>();
+    raw
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'))
+      .forEach((line) => {
+        const idx = line.indexOf('=');
+        if (idx === -1) return;
+        const key = line.slice(0, idx).trim();
+        const value = line.slice(idx + 1).trim();
+        if (key) map.set(key, value);
+      });
+
+    const bundleId =
+      map.get('applicationId') ??
+      map.get('packageId') ??
+      map.get('package') ??
+      map.get('appId') ??
+      '';
+    const version =
+      map.get('versionName') ??
+      map.get('bundleVersion') ??
+      map.get('version') ??
+      map.get('versionNameMajor') ??
+      '';
+    const build = map.get('versionCode') ?? map.get('bundleVersionCode') ?? '';
+    const title =
+      map.get('appName') ??
+      map.get('bundleName') ??
+      map.get('displayName') ??
+      map.get('applicationLabel') ??
+      null;
+
+    if (bundleId || version || title) {
+      return {
+        title: title || null,
+        bundleId: bundleId || null,
+        version: version || null,
+        build: build || null,
+      };
+    }
+  }
+
+  return null;
+}
+
+async function parseApkManifest(zip: JSZip): Promise<PackageFileMetadata | null> {
+  const manifestEntry = zip.file('AndroidManifest.xml');
+  if (!manifestEntry) return null;
+  const manifestBuffer = Buffer.from(await manifestEntry.async('arraybuffer'));
+  const BinaryXmlParserModule = await import('binary-xml');
+  const BinaryXmlParserCtor =
+    (BinaryXmlParserModule.default ?? BinaryXmlParserModule) as new (
+      buffer: Buffer,
+      options?: { debug?: boolean }
+    ) => { parse(): unknown };
+  const parser = new BinaryXmlParserCtor(manifestBuffer);
+  const document = parser.parse() as BinaryXmlNodeRaw | null;
+  if (!document) return null;
+
+  const findAttribute = (node: BinaryXmlNodeRaw | null | undefined, name: string): string | null => {
+    if (!node?.attributes) return null;
+    for (const attr of node.attributes) {
+      const attrName =
+        typeof attr?.name === 'string'
+          ? attr.name
+          : typeof attr?.nodeName === 'string'
+            ? attr.nodeName
+            : '';
+      if (
+        attrName === name ||
+        attrName === `android:${name}` ||
+        (name.startsWith('android:') && attrName === name.replace('android:', ''))
+      ) {
+        if (typeof attr?.value === 'string') return attr.value;
+      }
+    }
+    return null;
+  };
+
+  const bundleId = findAttribute(document, 'package') ?? '';
+  const version =
+    findAttribute(document, 'android:versionName') ??
+    findAttribute(document, 'versionName') ??
+    findAttribute(document, 'android:versionCode') ??
+    findAttribute(document, 'versionCode') ??
+    '';
+  const build =
+    findAttribute(document, 'android:versionCode') ?? findAttribute(document, 'versionCode') ?? null;
+
+  const application =
+    document.childNodes?.find((child) => child?.nodeName === 'application') ?? null;
+  const title =
+    findAttribute(application, 'android:label') ??
+    findAttribute(application, 'label') ??
+    null;
+
+  if (!bundleId && !version && !title) return null;
+  return {
+    bundleId: bundleId || null,
+    version: version || null,
+    build,
+    title,
+  };
+}
+
+export async function parseApkMetadata(data: PackageSource): Promise<PackageFileMetadata | null> {
+  try {
+    const zip = await JSZip.loadAsync(data);
+    const gradle = await parseGradleMetadata(zip);
+    if (gradle) return gradle;
+    const manifest = await parseApkManifest(zip);
+    if (manifest) return manifest;
+  } catch (error) {
+    console.warn('Failed to parse APK metadata', error);
+  }
+  return null;
+}
+
+function decodeUtf8Loose(input: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: false }).decode(input);
+  } catch {
+    return '';
+  }
+}
+
+function tryParsePlistFromUint8(data: Uint8Array): Record<string, string> | null {
+  if (!data.length) return null;
+  const header = decodeUtf8Loose(data.slice(0, 6));
+  const isBinary = header === 'bplist';
+  try {
+    if (!isBinary) {
+      const asText = decodeUtf8Loose(data).trim();
+      if (asText.startsWith('<?xml') || asText.startsWith('<plist')) {
+        return plist.parse(asText) as Record<string, string>;
+      }
+    }
+  } catch (error) {
+    console.warn('IPA metadata XML parse failed, falling back to binary plist', error);
+  }
+  try {
+    const buffer = Buffer.from(data);
+    const parsed = parseBinaryPlist(buffer);
+    if (Array.isArray(parsed)) {
+      return (parsed[0] ?? null) as Record<string, string> | null;
+    }
+    return parsed as unknown as Record<string, string>;
+  } catch (error) {
+    console.warn('IPA metadata binary parse failed', error);
+    return null;
+  }
+}
+
+// embedded.mobileprovision is a CMS envelope around an XML plist; the plist is stored
+// verbatim, so it can be cut out by its markers without decoding the signature.
+async function parseProvisioningProfile(zip: JSZip): Promise<ProvisioningProfile | null> {
+  const entryName = Object.keys(zip.files).find((name) =>
+    /Payload\/[^/]+\.app\/embedded\.mobileprovision$/i.test(name)
+  );
+  if (!entryName) return null;
+  try {
+    const text = decodeUtf8Loose(await zip.file(entryName)!.async('uint8array'));
+    const start = text.indexOf('<?xml');
+    const end = text.indexOf('</plist>', start);
+    if (start === -1 || end === -1) return null;
+    const profile = plist.parse(text.slice(start, end + '</plist>'.length)) as Record<
+      string,
+      unknown
+    >;
+    return readProvisioningProfile(profile);
+  } catch (error) {
+    console.warn('Failed to parse embedded provisioning profile', error);
+    return null;
+  }
+}
+
+export async function parseIpaMetadata(data: PackageSource): Promise<PackageFileMetadata | null> {
+  try {
+    const zip = await JSZip.loadAsync(data);
+    const plistEntry = Object.keys(zip.files).find((name) =>
+      /Payload\/[^/]+\.app\/Info\.plist$/i.test(name)
+    );
+    if (!plistEntry) return null;
+    const plistBytes = await zip.file(plistEntry)!.async('uint8array');
+    const info = tryParsePlistFromUint8(plistBytes);
+    if (!info) return null;
+    const provisioning = await parseProvisioningProfile(zip);
+    return {
+      title:
+        info.CFBundleDisplayName ??
+        info.CFBundleName ??
+        info.CFBundleExecutable ??
+        DEFAULT_PACKAGE_TITLE,
+      bundleId: info.CFBundleIdentifier ?? '',
+      version: info.CFBundleShortVersionString ?? info.CFBundleVersion ?? '',
+      build: info.CFBundleVersion ?? null,
+      provisioning,
+    };
+  } catch (error) {
+    console.warn('Failed to parse IPA metadata', error);
+    return null;
+  }
+}
@@ -0,0 +1,121 @@
+import { parseAndroidManifest } from './android-manifest';
+import { extractApkIcon, extractIpaIcon, type AppIcon } from './app-icon';
+import { isPlistDict, parsePlist, type PlistDict, type PlistValue } from './plist-parser';
+import { readProvisioningProfile, type ProvisioningProfile } from './provisioning';
+import { readZipEntries, readZipEntry, type RangeReader, type ZipEntry } from './zip-reader';
+
+export type PackageMetadata = {
+  bundleId: string | null;
+  version: string | null;
+  build: string | null;
+  title: string | null;
+  provisioning: ProvisioningProfile | null;
+  /** Launcher icon read from the package; null when none could be extracted. */
+  icon: AppIcon | null;
+};
+
+export type MetadataField = 'bundleId' | 'version' | 'build';
+
+export type MetadataMismatch = {
+  field: MetadataField | 'sha256';
+  expected: string;
+  received: string;
+};
+
+const IPA_INFO_PLIST = /^Payload\/[^/]+\.app\/Info\.plist$/i;
+const IPA_PROVISION = /^Payload\/[^/]+\.app\/embedded\.mobileprovision$/i;
+
+const toText = (value: PlistValue | undefined): string | null => {
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number') return String(value);
+  return null;
+};
+
+const findEntry = (entries: ZipEntry[], pattern: RegExp) =>
+  entries.find((entry) => pattern.test(entry.name)) ?? null;
+
+// A missing or unreadable icon never fails the upload.
+const readIcon = (extract: () => Promise<AppIcon | null>) =>
+  extract().catch((error) => {
+    console.warn('[upload] app icon unreadable', error);
+    return null;
+  });
+
+async function readIpaProvisioning(
+  reader: RangeReader,
+  entries: ZipEntry[]
+): Promise<ProvisioningProfile | null> {
+  const entry = findEntry(entries, IPA_PROVISION);
+  if (!entry) return null;
+  // The profile is a CMS envelope around a verbatim XML plist.
+  const text = new TextDecoder('utf-8', { fatal: false }).decode(await readZipEntry(reader, entry));
+  const start = text.indexOf('<?xml');
+  const end = text.indexOf('</plist>', start);
+  if (start === -1 || end === -1) return null;
+  const profile = parsePlist(new TextEncoder().encode(text.slice(start, end + '</plist>'.length)));
+  return isPlistDict(profile) ? readProvisioningProfile(profile as Record<string, unknown>) : null;
+}
+
+async function extractIpaMetadata(reader: RangeReader, entries: ZipEntry[]): Promise<PackageMetadata> {
+  const entry = findEntry(entries, IPA_INFO_PLIST);
+  if (!entry) throw new Error('IPA_INFO_PLIST_MISSING');
+  const info = parsePlist(await readZipEntry(reader, entry));
+  if (!isPlistDict(info)) throw new Error('IPA_INFO_PLIST_INVALID');
+  const plist: PlistDict = info;
+  return {
+    bundleId: toText(plist.CFBundleIdentifier),
+    version: toText(plist.CFBundleShortVersionString) ?? toText(plist.CFBundleVersion),
+    build: toText(plist.CFBundleVersion),
+    title:
+      toText(plist.CFBundleDisplayName) ??
+      toText(plist.CFBundleName) ??
+      toText(plist.CFBundleExecutable),
+    provisioning: await readIpaProvisioning(reader, entries),
+    icon: await readIcon(() =>
+      extractIpaIcon(reader, entries, entry.name.replace(/Info\.plist$/i, ''), plist)
+    ),
+  };
+}
+
+async function extractApkMetadata(reader: RangeReader, entries: ZipEntry[]): Promise<PackageMetadata> {
+  const entry = findEntry(entries, /^AndroidManifest\.xml$/);
+  if (!entry) throw new Error('APK_MANIFEST_MISSING');
+  const manifest = parseAndroidManifest(await readZipEntry(reader, entry));
+  return {
+    bundleId: manifest.packageName,
+    version: manifest.versionName ?? manifest.versionCode,
+    build: manifest.versionCode,
+    title: manifest.label,
+    provisioning: null,
+    icon: await readIcon(() => extractApkIcon(reader, entries, manifest.iconResourceId)),
+  };
+}
+
+export async function extractPackageMetadata(
+  reader: RangeReader,
+  platform: 'apk' | 'ipa'
+): Promise<PackageMetadata> {
+  const entries = await readZipEntries(reader);
+  return platform === 'ipa'
+    ? extractIpaMetadata(reader, entries)
+    : extractApkMetadata(reader, entries);
+}
+
+/**
+ * Compares what the client claimed against what was read from the package. Fields the
+ * client left empty, or that the package does not declare, are not compared.
+ */
+export function findMetadataMismatches(
+  claimed: Partial<Record<MetadataField, string | null | undefined>>,
+  actual: PackageMetadata
+): MetadataMismatch[] {
+  const mismatches: MetadataMismatch[] = [];
+  for (const field of ['bundleId', 'version', 'build'] as const) {
+    const received = (claimed[field] ?? '').trim();
+    const expected = (actual[field] ?? '').trim();
+    if (received && expected && received !== expected) {
+      mismatches.push({ field, expected, received });
+    }
+  }
+  return mismatches;
+}
@@ -0,0 +1,234 @@
+// Dependency-free property list parser for edge routes. Handles both the XML form
+// (provisioning profiles) and bplist00 (Info.plist inside most IPAs).
+
+export type PlistValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | Uint8Array
+  | null
+  | PlistValue[]
+  | { [key: string]: PlistValue };
+
+export type PlistDict = { [key: string]: PlistValue };
+
+const APPLE_EPOCH_MS = Date.UTC(2001, 0, 1);
+
+export function parsePlist(bytes: Uint8Array): PlistValue {
+  const magic = new TextDecoder().decode(bytes.subarray(0, 8));
+  if (magic === 'bplist00') return parseBinaryPlist(bytes);
+  return parseXmlPlist(new TextDecoder().decode(bytes));
+}
+
+export const isPlistDict = (value: PlistValue | undefined): value is PlistDict =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  !(value instanceof Uint8Array);
+
+function parseBinaryPlist(bytes: Uint8Array): PlistValue {
+  if (bytes.length < 40) throw new Error('PLIST_TRUNCATED');
+  const data = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const trailer = bytes.length - 32;
+  const offsetSize = data.getUint8(trailer + 6);
+  const refSize = data.getUint8(trailer + 7);
+  const objectCount = readSizedInt(data, trailer + 12, 4);
+  const topObject = readSizedInt(data, trailer + 20, 4);
+  const offsetTable = readSizedInt(data, trailer + 28, 4);
+
+  const offsets: number[] = [];
+  for (let i = 0; i < objectCount; i += 1) {
+    offsets.push(readSizedInt(data, offsetTable + i * offsetSize, offsetSize));
+  }
+
+  const readLength = (marker: number, offset: number): [number, number] => {
+    const info = marker & 0x0f;
+    if (info !== 0x0f) return [info, offset + 1];
+    const intMarker = data.getUint8(offset + 1);
+    const size = 1 << (intMarker & 0x0f);
+    return [readSizedInt(data, offset + 2, size), offset + 2 + size];
+  };
+
+  const readObject = (index: number, depth: number): PlistValue => {
+    if (depth > 64) throw new Error('PLIST_TOO_DEEP');
+    const offset = offsets[index];
+    if (offset === undefined) throw new Error('PLIST_REF_INVALID');
+    const marker = data.getUint8(offset);
+    const type = marker >> 4;
+    switch (type) {
+      case 0x0:
+        if (marker === 0x08) return false;
+        if (marker === 0x09) return true;
+        return null;
+      case 0x1:
+        return readSizedInt(data, offset + 1, 1 << (marker & 0x0f));
+      case 0x2:
+        return (marker & 0x0f) === 2 ? data.getFloat32(offset + 1) : data.getFloat64(offset + 1);
+      case 0x3:
+        return new Date(APPLE_EPOCH_MS + data.getFloat64(offset + 1) * 1000);
+      case 0x4: {
+        const [length, start] = readLength(marker, offset);
+        return bytes.slice(start, start + length);
+      }
+      case 0x5: {
+        const [length, start] = readLength(marker, offset);
+        return String.fromCharCode(...bytes.subarray(start, start + length));
+      }
+      case 0x6: {
+        const [length, start] = readLength(marker, offset);
+        let text = '';
+        for (let i = 0; i < length; i += 1) {
+          text += String.fromCharCode(data.getUint16(start + i * 2));
+        }
+        return text;
+      }
+      case 0x8:
+        return readSizedInt(data, offset + 1, (marker & 0x0f) + 1);
+      case 0xa:
+      case 0xc: {
+        const [length, start] = readLength(marker, offset);
+        const items: PlistValue[] = [];
+        for (let i = 0; i < length; i += 1) {
+          items.push(readObject(readSizedInt(data, start + i * refSize, refSize), depth + 1));
+        }
+        return items;
+      }
+      case 0xd: {
+        const [length, start] = readLength(marker, offset);
+        const dict: PlistDict = {};
+        for (let i = 0; i < length; i += 1) {
+          const key = readObject(readSizedInt(data, start + i * refSize, refSize), depth + 1);
+          const value = readObject(
+            readSizedInt(data, start + (length + i) * refSize, refSize),
+            depth + 1
+          );
+          dict[String(key)] = value;
+        }
+        return dict;
+      }
+      default:
+        throw new Error('PLIST_TYPE_UNSUPPORTED');
+    }
+  };
+
+  return readObject(topObject, 0);
+}
+
+function readSizedInt(data: DataView, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i += 1) {
+    value = value * 256 + data.getUint8(offset + i);
+  }
+  return value;
+}
+
+type XmlToken = { tag: string; closing: boolean; selfClosing: boolean } | { text: string };
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'amp':
+        return '&';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === 'x'
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+
+function parseXmlPlist(text: string): PlistValue {
+  const body = text.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, '');
+  const tokens: XmlToken[] = [];
+  const pattern = /<(\/?)([A-Za-z]+)[^>]*?(\/?)>|([^<]+)/g;
+  for (const match of body.matchAll(pattern)) {
+    if (match[2]) {
+      tokens.push({ tag: match[2], closing: match[1] === '/', selfClosing: match[3] === '/' });
+    } else if (match[4] && match[4].trim()) {
+      tokens.push({ text: match[4] });
+    }
+  }
+
+  let position = 0;
+  const next = () => tokens[position++];
+
+  const readText = (tag: string) => {
+    const token = tokens[position];
+    let value = '';
+    if (token && 'text' in token) {
+      value = decodeEntities(token.text);
+      position += 1;
+    }
+    const closing = next();
+    if (!closing || !('tag' in closing) || !closing.closing || closing.tag !== tag) {
+      throw new Error('PLIST_XML_INVALID');
+    }
+    return value;
+  };
+
+  const readValue = (depth: number): PlistValue => {
+    if (depth > 64) throw new Error('PLIST_TOO_DEEP');
+    const token = next();
+    if (!token || !('tag' in token) || token.closing) throw new Error('PLIST_XML_INVALID');
+    const { tag, selfClosing } = token;
+    switch (tag) {
+      case 'true':
+      case 'false':
+        if (!selfClosing) readText(tag);
+        return tag === 'true';
+      case 'string':
+        return selfClosing ? '' : readText(tag);
+      case 'integer':
+      case 'real':
+        return selfClosing ? 0 : Number(readText(tag).trim());
+      case 'date':
+        return new Date(readText(tag).trim());
+      case 'data': {
+        const binary = atob((selfClosing ? '' : readText(tag)).replace(/\s+/g, ''));
+        return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+      }
+      case 'array': {
+        const items: PlistValue[] = [];
+        if (selfClosing) return items;
+        while (position < tokens.length) {
+          const peek = tokens[position];
+          if ('tag' in peek && peek.closing && peek.tag === 'array') {
+            position += 1;
+            return items;
+          }
+          items.push(readValue(depth + 1));
+        }
+        throw new Error('PLIST_XML_INVALID');
+      }
+      case 'dict': {
+        const dict: PlistDict = {};
+        if (selfClosing) return dict;
+        while (position < tokens.length) {
+          const peek = next();
+          if ('tag' in peek && peek.closing && peek.tag === 'dict') return dict;
+          if (!('tag' in peek) || peek.tag !== 'key') throw new Error('PLIST_XML_INVALID');
+          const key = peek.selfClosing ? '' : readText('key');
+          dict[key] = readValue(depth + 1);
+        }
+        throw new Error('PLIST_XML_INVALID');
+      }
+      case 'plist':
+        return readValue(depth + 1);
+      default:
+        throw new Error('PLIST_XML_INVALID');
+    }
+  };
+
+  return readValue(0);
+}
@@ -0,0 +1,219 @@
+// Minimal PNG reading and writing on Web APIs only: enough to emit the QR codes and to
+// turn Xcode's "CgBI" app icons back into PNGs that browsers can display.
+
+export type PngChunk = {
+  type: string;
+  data: Uint8Array;
+};
+
+export type PngHeader = {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+};
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Un-crushing holds the whole bitmap in memory; anything bigger is not an app icon.
+const MAX_UNCRUSH_PIXELS = 2048 * 2048;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 as used by PNG chunks and ZIP entries. */
+export function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i += 1) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const output = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => {
+    result.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return result;
+};
+
+export const isPng = (bytes: Uint8Array) =>
+  bytes.length > PNG_SIGNATURE.length &&
+  PNG_SIGNATURE.every((value, index) => bytes[index] === value);
+
+/** The file's chunks in order, stopping at IEND or at the first truncated chunk. */
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) return [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('latin1');
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    const type = decoder.decode(bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    if (type === 'IEND') break;
+    offset = end;
+  }
+  return chunks;
+}
+
+export function readPngHeader(bytes: Uint8Array): PngHeader | null {
+  const header = readPngChunks(bytes).find((chunk) => chunk.type === 'IHDR')?.data;
+  if (!header || header.length < 13) return null;
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  return {
+    width: view.getUint32(0),
+    height: view.getUint32(4),
+    bitDepth: header[8],
+    colorType: header[9],
+    interlace: header[12],
+  };
+}
+
+/**
+ * Encodes raw scanlines (each row prefixed with its filter byte) as an 8-bit PNG,
+ * compressed with the platform's CompressionStream.
+ */
+export async function encodePng(
+  header: Omit<PngHeader, 'interlace' | 'bitDepth'>,
+  scanlines: Uint8Array
+) {
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, header.width);
+  view.setUint32(4, header.height);
+  ihdr[8] = 8;
+  ihdr[9] = header.colorType;
+  return concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', await transform(scanlines, new CompressionStream('deflate'))),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+function paeth(left: number, up: number, upLeft: number) {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+/** Reverses the per-row filters in place; returns false on an unknown filter type. */
+function unfilter(scanlines: Uint8Array, height: number, stride: number, bpp: number) {
+  for (let y = 0; y < height; y += 1) {
+    const row = y * (stride + 1);
+    const previous = row - (stride + 1);
+    const filter = scanlines[row];
+    for (let x = 0; x < stride; x += 1) {
+      const at = row + 1 + x;
+      const left = x >= bpp ? scanlines[at - bpp] : 0;
+      const up = y > 0 ? scanlines[previous + 1 + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? scanlines[previous + 1 + x - bpp] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          return false;
+      }
+      scanlines[at] = (scanlines[at] + predictor) & 0xff;
+    }
+    scanlines[row] = 0;
+  }
+  return true;
+}
+
+/**
+ * Xcode stores app icons as "CgBI" PNGs: raw deflate without the zlib wrapper, BGRA
+ * channel order and premultiplied alpha. Returns a standard PNG for those, the input
+ * unchanged for ordinary PNGs, and null when the image cannot be converted.
+ */
+export async function uncrushPng(bytes: Uint8Array): Promise<Uint8Array | null> {
+  const chunks = readPngChunks(bytes);
+  if (!chunks.length) return null;
+  if (!chunks.some((chunk) => chunk.type === 'CgBI')) return bytes;
+
+  const header = readPngHeader(bytes);
+  if (!header || header.bitDepth !== 8 || header.interlace !== 0) return null;
+  if (header.colorType !== 6 && header.colorType !== 2) return null;
+  if (!header.width || !header.height || header.width * header.height > MAX_UNCRUSH_PIXELS) {
+    return null;
+  }
+
+  const bpp = header.colorType === 6 ? 4 : 3;
+  const stride = header.width * bpp;
+  const compressed = concat(
+    chunks.filter((chunk) => chunk.type === 'IDAT').map((chunk) => chunk.data)
+  );
+  const scanlines = await transform(compressed, new DecompressionStream('deflate-raw')).catch(
+    () => null
+  );
+  if (!scanlines || scanlines.length < (stride + 1) * header.height) return null;
+  if (!unfilter(scanlines, header.height, stride, bpp)) return null;
+
+  for (let y = 0; y < header.height; y += 1) {
+    const row = y * (stride + 1) + 1;
+    for (let x = 0; x < stride; x += bpp) {
+      const at = row + x;
+      const blue = scanlines[at];
+      scanlines[at] = scanlines[at + 2];
+      scanlines[at + 2] = blue;
+      if (bpp === 4) {
+        const alpha = scanlines[at + 3];
+        if (alpha > 0 && alpha < 255) {
+          for (let channel = 0; channel < 3; channel += 1) {
+            const value = Math.round((scanlines[at + channel] * 255) / alpha);
+            scanlines[at + channel] = Math.min(255, value);
+          }
+        }
+      }
+    }
+  }
+
+  return encodePng(
+    { width: header.width, height: header.height, colorType: header.colorType },
+    scanlines.subarray(0, (stride + 1) * header.height)
+  );
+}
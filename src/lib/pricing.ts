@@ -0,0 +1,342 @@
+// Download prices in points, per platform and network area. Admins add rules from
+// /admin/pricing; a rule applies from its `effective_from` until a newer rule for the same
+// slot does. Member rules replace or discount the base price for one account. The rule a
+// download was billed with is kept in `point_ledger.pricing_rule_id`.
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { NetworkArea } from './network-area';
+
+export type PricingPlatform = 'apk' | 'ipa';
+
+export const PRICING_PLATFORMS: PricingPlatform[] = ['apk', 'ipa'];
+export const PRICING_NETWORK_AREAS: NetworkArea[] = ['global', 'CN', 'RU'];
+
+/** Prices from before pricing rules existed; used for slots without a base rule. */
+export const DEFAULT_DOWNLOAD_PRICES: Record<PricingPlatform, Record<NetworkArea, number>> = {
+  apk: { global: 3, CN: 10, RU: 10 },
+  ipa: { global: 5, CN: 30, RU: 30 },
+};
+
+const MAX_PRICE = 1_000_000;
+const MAX_NOTE_LENGTH = 200;
+
+export type PricingRule = {
+  id: string;
+  /** Null only on member rules, where it means every platform (or network area). */
+  platform: PricingPlatform | null;
+  networkArea: NetworkArea | null;
+  userId: string | null;
+  userEmail: string | null;
+  price: number | null;
+  discountPercent: number | null;
+  /** Epoch seconds. */
+  effectiveFrom: number;
+  note: string | null;
+  createdAt: number;
+  createdBy: string | null;
+};
+
+export type DownloadPrice = {
+  platform: PricingPlatform;
+  networkArea: NetworkArea;
+  price: number;
+  /** The price before any member rule. */
+  basePrice: number;
+  /** The rule that set `price`; null for the built-in defaults. */
+  ruleId: string | null;
+  memberRule: PricingRule | null;
+};
+
+export class PricingRuleError extends Error {
+  status: number;
+
+  constructor(message = 'INVALID_RULE', status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type PricingRuleRow = {
+  id: string;
+  platform: string | null;
+  network_area: string | null;
+  user_id: string | null;
+  user_email?: string | null;
+  price: number | string | null;
+  discount_percent: number | string | null;
+  effective_from: number | string;
+  note: string | null;
+  created_at: number | string;
+  created_by: string | null;
+};
+
+const toNumberOrNull = (value: unknown) => {
+  if (value === null || value === undefined) return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+};
+
+const asPlatform = (value: string | null): PricingPlatform | null =>
+  value === 'apk' || value === 'ipa' ? value : null;
+
+const asNetworkArea = (value: string | null): NetworkArea | null =>
+  value === 'global' || value === 'CN' || value === 'RU' ? value : null;
+
+const mapRule = (row: PricingRuleRow): PricingRule => ({
+  id: row.id,
+  platform: asPlatform(row.platform),
+  networkArea: asNetworkArea(row.network_area),
+  userId: row.user_id ?? null,
+  userEmail: row.user_email ?? null,
+  price: toNumberOrNull(row.price),
+  discountPercent: toNumberOrNull(row.discount_percent),
+  effectiveFrom: toNumberOrNull(row.effective_from) ?? 0,
+  note: row.note ?? null,
+  createdAt: toNumberOrNull(row.created_at) ?? 0,
+  createdBy: row.created_by ?? null,
+});
+
+let pricingTableReady: Promise<void> | null = null;
+
+// Normally created (and seeded with DEFAULT_DOWNLOAD_PRICES) by
+// migrations/20251206_add_pricing_rules.sql.
+const ensurePricingTable = (DB: D1Database) => {
+  if (!pricingTableReady) {
+    pricingTableReady = DB.batch([
+      DB.prepare(
+        `CREATE TABLE IF NOT EXISTS pricing_rules (
+          id TEXT PRIMARY KEY,
+          platform TEXT,
+          network_area TEXT,
+          user_id TEXT,
+          price INTEGER,
+          discount_percent INTEGER,
+          effective_from INTEGER NOT NULL,
+          note TEXT,
+          created_at INTEGER NOT NULL,
+          created_by TEXT,
+          deleted_at INTEGER
+        )`
+      ),
+      DB.prepare(
+        `CREATE INDEX IF NOT EXISTS idx_pricing_rules_user_effective
+          ON pricing_rules (user_id, effective_from)`
+      ),
+    ])
+      .then(() => undefined)
+      .catch((error) => {
+        pricingTableReady = null;
+        throw error;
+      });
+  }
+  return pricingTableReady;
+};
+
+const specificity = (rule: PricingRule) => (rule.platform ? 1 : 0) + (rule.networkArea ? 1 : 0);
+
+/**
+ * The price of one slot from rules already in effect: the newest base rule, then the most
+ * specific (and among those the newest) rule of the member.
+ */
+export function pickDownloadPrice(
+  rules: PricingRule[],
+  userId: string | null,
+  platform: PricingPlatform,
+  networkArea: NetworkArea,
+  now = Math.floor(Date.now() / 1000)
+): DownloadPrice {
+  const inEffect = rules.filter((rule) => rule.effectiveFrom <= now);
+  const base = inEffect
+    .filter((rule) => !rule.userId && rule.platform === platform && rule.networkArea === networkArea)
+    .sort((a, b) => b.effectiveFrom - a.effectiveFrom)[0];
+  const basePrice = base?.price ?? DEFAULT_DOWNLOAD_PRICES[platform][networkArea];
+
+  const memberRule = userId
+    ? inEffect
+        .filter(
+          (rule) =>
+            rule.userId === userId &&
+            (!rule.platform || rule.platform === platform) &&
+            (!rule.networkArea || rule.networkArea === networkArea)
+        )
+        .sort((a, b) => specificity(b) - specificity(a) || b.effectiveFrom - a.effectiveFrom)[0] ?? null
+    : null;
+
+  let price = basePrice;
+  if (memberRule?.price != null) {
+    price = memberRule.price;
+  } else if (memberRule?.discountPercent != null) {
+    price = Math.round((basePrice * (100 - memberRule.discountPercent)) / 100);
+  }
+
+  return {
+    platform,
+    networkArea,
+    price,
+    basePrice,
+    ruleId: memberRule?.id ?? base?.id ?? null,
+    memberRule,
+  };
+}
+
+async function fetchRulesInEffect(DB: D1Database, userId: string | null, now: number) {
+  await ensurePricingTable(DB);
+  const result = await DB.prepare(
+    `SELECT id, platform, network_area, user_id, price, discount_percent, effective_from, note, created_at, created_by
+     FROM pricing_rules
+     WHERE deleted_at IS NULL AND effective_from <= ? AND (user_id IS NULL OR user_id = ?)`
+  )
+    .bind(now, userId ?? '')
+    .all<PricingRuleRow>();
+  return (result?.results ?? []).map(mapRule);
+}
+
+/** What one download of `platform` on a `networkArea` link costs the owner right now. */
+export async function resolveDownloadPrice(
+  DB: D1Database,
+  ownerId: string,
+  platform: PricingPlatform,
+  networkArea: NetworkArea,
+  now = Math.floor(Date.now() / 1000)
+) {
+  return pickDownloadPrice(await fetchRulesInEffect(DB, ownerId, now), ownerId, platform, networkArea, now);
+}
+
+/** Current prices of every platform and network area, for one member or for everyone. */
+export async function fetchPriceTable(
+  DB: D1Database,
+  userId: string | null,
+  now = Math.floor(Date.now() / 1000)
+): Promise<DownloadPrice[]> {
+  const rules = await fetchRulesInEffect(DB, userId, now);
+  return PRICING_NETWORK_AREAS.flatMap((networkArea) =>
+    PRICING_PLATFORMS.map((platform) => pickDownloadPrice(rules, userId, platform, networkArea, now))
+  );
+}
+
+/** Every rule that has not been deleted, newest first, with the member's email. */
+export async function fetchPricingRules(DB: D1Database): Promise<PricingRule[]> {
+  await ensurePricingTable(DB);
+  const result = await DB.prepare(
+    `SELECT r.id, r.platform, r.network_area, r.user_id, u.email AS user_email, r.price, r.discount_percent,
+            r.effective_from, r.note, r.created_at, r.created_by
+     FROM pricing_rules r
+     LEFT JOIN users u ON u.id = r.user_id
+     WHERE r.deleted_at IS NULL
+     ORDER BY r.effective_from DESC, r.created_at DESC`
+  ).all<PricingRuleRow>();
+  return (result?.results ?? []).map(mapRule);
+}
+
+export type PricingRuleInput = {
+  /** Member ID or email; empty for a base rule. */
+  member?: unknown;
+  platform?: unknown;
+  networkArea?: unknown;
+  price?: unknown;
+  discountPercent?: unknown;
+  /** Epoch seconds; defaults to now. */
+  effectiveFrom?: unknown;
+  note?: unknown;
+};
+
+const readInteger = (value: unknown, min: number, max: number, error: string) => {
+  if (value === undefined || value === null || value === '') return null;
+  const numeric = typeof value === 'string' ? Number(value) : value;
+  if (typeof numeric !== 'number' || !Number.isInteger(numeric) || numeric < min || numeric > max) {
+    throw new PricingRuleError(error);
+  }
+  return numeric;
+};
+
+/**
+ * Validates and stores a rule. Base rules need a platform, a network area and a price;
+ * member rules may leave either slot empty for "all" and take a price or a discount.
+ */
+export async function createPricingRule(
+  DB: D1Database,
+  input: PricingRuleInput,
+  createdBy: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<PricingRule> {
+  const platform = input.platform === '' || input.platform == null ? null : asPlatform(String(input.platform));
+  if (input.platform && !platform) throw new PricingRuleError('INVALID_PLATFORM');
+  const networkArea =
+    input.networkArea === '' || input.networkArea == null ? null : asNetworkArea(String(input.networkArea));
+  if (input.networkArea && !networkArea) throw new PricingRuleError('INVALID_NETWORK_AREA');
+
+  const price = readInteger(input.price, 0, MAX_PRICE, 'INVALID_PRICE');
+  const discountPercent = readInteger(input.discountPercent, 1, 100, 'INVALID_DISCOUNT');
+  const effectiveFrom = readInteger(input.effectiveFrom, 0, Number.MAX_SAFE_INTEGER, 'INVALID_EFFECTIVE_FROM') ?? now;
+  // A minute of slack for the admin's clock; older dates would misstate past bills.
+  if (effectiveFrom < now - 60) throw new PricingRuleError('EFFECTIVE_FROM_IN_PAST');
+  const note = typeof input.note === 'string' ? input.note.trim().slice(0, MAX_NOTE_LENGTH) || null : null;
+
+  const member = typeof input.member === 'string' ? input.member.trim() : '';
+  let userId: string | null = null;
+  let userEmail: string | null = null;
+  if (member) {
+    const user = await DB.prepare('SELECT id, email FROM users WHERE id=? OR lower(email)=lower(?) LIMIT 1')
+      .bind(member, member)
+      .first<{ id: string; email: string | null }>();
+    if (!user) throw new PricingRuleError('USER_NOT_FOUND', 404);
+    userId = user.id;
+    userEmail = user.email ?? null;
+    if ((price === null) === (discountPercent === null)) throw new PricingRuleError('PRICE_OR_DISCOUNT_REQUIRED');
+  } else {
+    if (!platform) throw new PricingRuleError('INVALID_PLATFORM');
+    if (!networkArea) throw new PricingRuleError('INVALID_NETWORK_AREA');
+    if (price === null) throw new PricingRuleError('INVALID_PRICE');
+    if (discountPercent !== null) throw new PricingRuleError('DISCOUNT_NEEDS_MEMBER');
+  }
+
+  await ensurePricingTable(DB);
+  const rule: PricingRule = {
+    id: crypto.randomUUID(),
+    platform,
+    networkArea,
+    userId,
+    userEmail,
+    price,
+    discountPercent,
+    effectiveFrom,
+    note,
+    createdAt: now,
+    createdBy,
+  };
+  await DB.prepare(
+    `INSERT INTO pricing_rules (id, platform, network_area, user_id, price, discount_percent, effective_from, note, created_at, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      rule.id,
+      rule.platform,
+      rule.networkArea,
+      rule.userId,
+      rule.price,
+      rule.discountPercent,
+      rule.effectiveFrom,
+      rule.note,
+      rule.createdAt,
+      rule.createdBy
+    )
+    .run();
+  return rule;
+}
+
+/**
+ * Hides a rule from pricing; the slot falls back to the previous rule. The row stays so
+ * ledger entries billed with it can still be traced. False when there was no such rule.
+ */
+export async function deletePricingRule(DB: D1Database, ruleId: string, now = Math.floor(Date.now() / 1000)) {
+  await ensurePricingTable(DB);
+  const result = await DB.prepare('UPDATE pricing_rules SET deleted_at=? WHERE id=? AND deleted_at IS NULL')
+    .bind(now, ruleId)
+    .run();
+  return Number(result?.meta?.changes ?? 0) > 0;
+}
+
+export async function deletePricingRulesForUser(DB: D1Database, userId: string) {
+  await ensurePricingTable(DB);
+  await DB.prepare('DELETE FROM pricing_rules WHERE user_id=?').bind(userId).run();
+}
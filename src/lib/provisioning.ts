@@ -0,0 +1,129 @@
+import { normalizeUdid } from './udid';
+
+export type ProvisioningProfileType = 'ad-hoc' | 'enterprise' | 'development' | 'app-store';
+
+export type ProvisioningProfile = {
+  name: string | null;
+  teamName: string | null;
+  teamId: string | null;
+  type: ProvisioningProfileType | null;
+  /** Epoch seconds. */
+  expiresAt: number | null;
+  /** Null when the profile does not restrict devices (enterprise / App Store). */
+  provisionedDevices: string[] | null;
+  entitlements: Record<string, unknown> | null;
+};
+
+export type ProfileExpiryState = 'expired' | 'expiring' | 'valid';
+
+export const PROFILE_EXPIRY_WARNING_DAYS = 14;
+
+const PROFILE_TYPES: ProvisioningProfileType[] = ['ad-hoc', 'enterprise', 'development', 'app-store'];
+
+const toStringOrNull = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const toEpochSeconds = (value: unknown): number | null => {
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return Number.isFinite(time) ? Math.floor(time / 1000) : null;
+  }
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    return Math.floor(value);
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Date.parse(value);
+    return Number.isFinite(parsed) ? Math.floor(parsed / 1000) : null;
+  }
+  return null;
+};
+
+const toRecordOrNull = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+    ? (value as Record<string, unknown>)
+    : null;
+
+const toDeviceList = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) return null;
+  return Array.from(
+    new Set(
+      value
+        .map((entry) => normalizeUdid(typeof entry === 'string' ? entry : null))
+        .filter((entry): entry is string => Boolean(entry))
+    )
+  );
+};
+
+/**
+ * Maps the decoded plist inside embedded.mobileprovision to the fields we keep.
+ * The profile type is not stored explicitly, so it is inferred the same way Xcode does.
+ */
+export function readProvisioningProfile(profile: Record<string, unknown>): ProvisioningProfile {
+  const entitlements = toRecordOrNull(profile.Entitlements);
+  const teamIds = Array.isArray(profile.TeamIdentifier) ? profile.TeamIdentifier : [];
+  const provisionedDevices = toDeviceList(profile.ProvisionedDevices);
+
+  let type: ProvisioningProfileType;
+  if (profile.ProvisionsAllDevices === true) {
+    type = 'enterprise';
+  } else if (provisionedDevices) {
+    type = entitlements?.['get-task-allow'] === true ? 'development' : 'ad-hoc';
+  } else {
+    type = 'app-store';
+  }
+
+  return {
+    name: toStringOrNull(profile.Name),
+    teamName: toStringOrNull(profile.TeamName),
+    teamId:
+      toStringOrNull(teamIds[0]) ??
+      toStringOrNull(entitlements?.['com.apple.developer.team-identifier']),
+    type,
+    expiresAt: toEpochSeconds(profile.ExpirationDate),
+    provisionedDevices,
+    entitlements,
+  };
+}
+
+/** Validates a profile summary posted by the dashboard before it is written to D1. */
+export function normalizeProvisioningInput(raw: unknown): ProvisioningProfile | null {
+  const record = toRecordOrNull(raw);
+  if (!record) return null;
+  const type = PROFILE_TYPES.find((value) => value === record.type) ?? null;
+  return {
+    name: toStringOrNull(record.name),
+    teamName: toStringOrNull(record.teamName),
+    teamId: toStringOrNull(record.teamId),
+    type,
+    expiresAt: toEpochSeconds(record.expiresAt),
+    provisionedDevices: toDeviceList(record.provisionedDevices),
+    entitlements: toRecordOrNull(record.entitlements),
+  };
+}
+
+/** Column/value pairs for the files table; callers filter them by the columns present. */
+export function provisioningColumns(profile: ProvisioningProfile | null): Array<[string, unknown]> {
+  return [
+    ['team_name', profile?.teamName ?? null],
+    ['team_id', profile?.teamId ?? null],
+    ['profile_type', profile?.type ?? null],
+    ['profile_name', profile?.name ?? null],
+    ['profile_expires_at', profile?.expiresAt ?? null],
+    ['entitlements', profile?.entitlements ? JSON.stringify(profile.entitlements) : null],
+    [
+      'provisioned_devices',
+      profile?.provisionedDevices ? JSON.stringify(profile.provisionedDevices) : null,
+    ],
+  ];
+}
+
+export function getProfileExpiryState(
+  expiresAt: number | null | undefined,
+  now = Date.now()
+): ProfileExpiryState | null {
+  if (!expiresAt) return null;
+  const remaining = expiresAt * 1000 - now;
+  if (remaining <= 0) return 'expired';
+  if (remaining <= PROFILE_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000) return 'expiring';
+  return 'valid';
+}
@@ -0,0 +1,97 @@
+// Shared pieces of the token-authenticated `/api/v1` routes: finding the caller's link by
+// code and the JSON shape links are returned in.
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { resolveLinkCodeAlias } from './code';
+import { fetchDistributionByCode, type DistributionLink } from './distribution';
+
+export type PublicApiFile = {
+  platform: string | null;
+  version: string | null;
+  build: string | null;
+  releaseNo: number | null;
+  size: number | null;
+  sha256: string | null;
+  createdAt: number;
+};
+
+export type PublicApiLink = {
+  id: string;
+  code: string;
+  url: string;
+  title: string | null;
+  bundleId: string | null;
+  apkVersion: string | null;
+  ipaVersion: string | null;
+  language: string;
+  networkArea: string;
+  isActive: boolean;
+  publishAt: number | null;
+  unpublishAt: number | null;
+  createdAt: number;
+  files: PublicApiFile[];
+};
+
+export type OwnedLinkResult =
+  | { ok: true; link: DistributionLink }
+  | { ok: false; error: 'NOT_FOUND' | 'FORBIDDEN'; status: 403 | 404 };
+
+/** The link behind `code` (or one of its old codes), provided `ownerId` owns it. */
+export async function fetchOwnedLinkByCode(
+  DB: D1Database,
+  ownerId: string,
+  code: string
+): Promise<OwnedLinkResult> {
+  const trimmed = code.trim();
+  if (!trimmed) return { ok: false, error: 'NOT_FOUND', status: 404 };
+  let link = await fetchDistributionByCode(DB, trimmed);
+  if (!link) {
+    const current = await resolveLinkCodeAlias(DB, trimmed);
+    link = current ? await fetchDistributionByCode(DB, current) : null;
+  }
+  if (!link) return { ok: false, error: 'NOT_FOUND', status: 404 };
+  if (link.ownerId !== ownerId) return { ok: false, error: 'FORBIDDEN', status: 403 };
+  return { ok: true, link };
+}
+
+export const toPublicApiLink = (link: DistributionLink, origin: string): PublicApiLink => ({
+  id: link.id,
+  code: link.code,
+  url: `${origin}/d/${encodeURIComponent(link.code)}`,
+  title: link.title,
+  bundleId: link.bundleId,
+  apkVersion: link.apkVersion,
+  ipaVersion: link.ipaVersion,
+  language: link.language,
+  networkArea: link.networkArea,
+  isActive: link.isActive,
+  publishAt: link.publishAt,
+  unpublishAt: link.unpublishAt,
+  createdAt: link.createdAt,
+  files: link.files.map((file) => ({
+    platform: file.platform,
+    version: file.version,
+    build: file.build,
+    releaseNo: file.releaseNo,
+    size: file.size,
+    sha256: file.sha256,
+    createdAt: file.createdAt,
+  })),
+});
+
+/**
+ * A body for `PATCH /api/distributions/<id>` that keeps every link setting the caller did
+ * not send. The dashboard always sends the full form; CI usually sends only the uploads.
+ */
+export const toLinkUpdateBody = (link: DistributionLink, input: Record<string, unknown>) => ({
+  title: link.title ?? '',
+  bundleId: link.bundleId ?? '',
+  apkVersion: link.apkVersion ?? '',
+  ipaVersion: link.ipaVersion ?? '',
+  lang: link.language,
+  isActive: link.isActive,
+  networkArea: link.networkArea,
+  autofill: true,
+  ...input,
+  uploads: Array.isArray(input.uploads) ? input.uploads : [],
+});
@@ -0,0 +1,402 @@
+// QR code encoder (byte mode, versions 1-40) with SVG and PNG output. Only uses Web APIs,
+// so it runs on the edge routes and in the browser alike.
+
+import { encodePng } from './png';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export type QrCode = {
+  /** Modules per side. */
+  size: number;
+  /** `modules[y][x]` is true for a dark module. */
+  modules: boolean[][];
+};
+
+export type QrRenderOptions = {
+  /** Output width in pixels; PNGs round it down to a whole number of pixels per module. */
+  size?: number;
+  /** Quiet zone in modules. */
+  margin?: number;
+};
+
+export const QR_ERROR_CORRECTION_LEVELS: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+
+const ECC_ORDINAL: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECC_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by [ECC ordinal][version]; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+function getRawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignCount - 10) * alignCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+const getDataCodewords = (version: number, ecc: QrErrorCorrection) =>
+  Math.floor(getRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[ECC_ORDINAL[ecc]][version] *
+    ERROR_CORRECTION_BLOCKS[ECC_ORDINAL[ecc]][version];
+
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/** Splits the data codewords into blocks, appends their ECC and interleaves the result. */
+function addErrorCorrection(data: number[], version: number, ecc: QrErrorCorrection) {
+  const blockCount = ERROR_CORRECTION_BLOCKS[ECC_ORDINAL[ecc]][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ECC_ORDINAL[ecc]][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i += 1) {
+    const length = shortBlockLength - blockEccLength + (i < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const eccBytes = reedSolomonRemainder(block, divisor);
+    if (i < shortBlockCount) block.push(0);
+    blocks.push(block.concat(eccBytes));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i += 1) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a padding byte at this position that is not transmitted.
+      if (i !== shortBlockLength - blockEccLength || j >= shortBlockCount) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function getAlignmentPositions(version: number) {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 10; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i += 1) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+
+    const positions = getAlignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // The three corners already hold finder patterns.
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy += 1) {
+          for (let dx = -2; dx <= 2; dx += 1) {
+            this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    this.drawFormatBits('L', 0);
+    this.drawVersionBits();
+  }
+
+  drawFinder(cx: number, cy: number) {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  drawFormatBits(ecc: QrErrorCorrection, mask: number) {
+    const data = (ECC_FORMAT_BITS[ecc] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const { size } = this;
+
+    for (let i = 0; i <= 5; i += 1) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i += 1) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i += 1) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i += 1) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  drawVersionBits() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i += 1) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /** Places the codewords in the zig-zag column pairs, skipping function modules. */
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let bit = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < size; vertical += 1) {
+        for (let j = 0; j < 2; j += 1) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vertical : vertical;
+          if (this.reserved[y][x] || bit >= codewords.length * 8) continue;
+          this.modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+          bit += 1;
+        }
+      }
+    }
+  }
+
+  /** XORs a mask over the data modules; applying it twice undoes it. */
+  applyMask(mask: number) {
+    const test = MASKS[mask];
+    for (let y = 0; y < this.size; y += 1) {
+      for (let x = 0; x < this.size; x += 1) {
+        if (!this.reserved[y][x] && test(x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penalty() {
+    const { size, modules } = this;
+    let score = 0;
+    const line = (index: number, column: boolean) => (i: number) =>
+      column ? modules[i][index] : modules[index][i];
+
+    for (let index = 0; index < size; index += 1) {
+      for (const column of [false, true]) {
+        const at = line(index, column);
+        let run = 1;
+        for (let i = 1; i <= size; i += 1) {
+          if (i < size && at(i) === at(i - 1)) {
+            run += 1;
+            continue;
+          }
+          if (run >= 5) score += 3 + (run - 5);
+          run = 1;
+        }
+        // Finder-like 1:1:3:1:1 patterns with four light modules on either side.
+        for (let i = 0; i + 11 <= size; i += 1) {
+          const core =
+            at(i + 4) && !at(i + 5) && at(i + 6) && at(i + 7) && at(i + 8) && !at(i + 9) && at(i + 10);
+          const coreLeft =
+            at(i) && !at(i + 1) && at(i + 2) && at(i + 3) && at(i + 4) && !at(i + 5) && at(i + 6);
+          if (core && !at(i) && !at(i + 1) && !at(i + 2) && !at(i + 3)) score += 40;
+          if (coreLeft && !at(i + 7) && !at(i + 8) && !at(i + 9) && !at(i + 10)) score += 40;
+        }
+      }
+    }
+
+    for (let y = 0; y < size - 1; y += 1) {
+      for (let x = 0; x < size - 1; x += 1) {
+        const dark = modules[y][x];
+        if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) {
+          score += 3;
+        }
+      }
+    }
+
+    let darkCount = 0;
+    modules.forEach((row) => row.forEach((dark) => (darkCount += dark ? 1 : 0)));
+    const total = size * size;
+    const k = Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1;
+    score += Math.max(0, k) * 10;
+    return score;
+  }
+}
+
+function encodeData(bytes: Uint8Array, version: number, ecc: QrErrorCorrection) {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacity = getDataCodewords(version, ecc) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((value, bit) => (value << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+/** Encodes `text` as UTF-8 bytes in the smallest version that fits. */
+export function encodeQr(text: string, ecc: QrErrorCorrection = 'M'): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  for (; version <= 40; version += 1) {
+    const dataBits = 4 + (version <= 9 ? 8 : 16) + bytes.length * 8;
+    if (dataBits <= getDataCodewords(version, ecc) * 8) break;
+  }
+  if (version > 40) {
+    throw new Error('QR_DATA_TOO_LONG');
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(addErrorCorrection(encodeData(bytes, version, ecc), version, ecc));
+
+  let bestMask = 0;
+  let bestPenalty = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(ecc, mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(ecc, bestMask);
+
+  return { size: matrix.size, modules: matrix.modules };
+}
+
+export function renderQrSvg(qr: QrCode, options: QrRenderOptions = {}) {
+  const margin = options.margin ?? 4;
+  const dimension = qr.size + margin * 2;
+  const pixels = options.size ?? dimension * 8;
+  const path: string[] = [];
+  qr.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    })
+  );
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${pixels}" height="${pixels}" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges"><rect width="100%" height="100%" fill="#fff"/><path fill="#000" d="${path.join('')}"/></svg>`;
+}
+
+/** 8-bit grayscale PNG, compressed with the platform's CompressionStream. */
+export async function renderQrPng(qr: QrCode, options: QrRenderOptions = {}) {
+  const margin = options.margin ?? 4;
+  const dimension = qr.size + margin * 2;
+  const scale = Math.max(1, Math.floor((options.size ?? dimension * 8) / dimension));
+  const width = dimension * scale;
+
+  const raw = new Uint8Array((width + 1) * width).fill(0xff);
+  for (let y = 0; y < width; y += 1) {
+    const rowStart = y * (width + 1);
+    raw[rowStart] = 0; // filter: none
+    const moduleY = Math.floor(y / scale) - margin;
+    if (moduleY < 0 || moduleY >= qr.size) continue;
+    for (let x = 0; x < width; x += 1) {
+      const moduleX = Math.floor(x / scale) - margin;
+      if (moduleX >= 0 && moduleX < qr.size && qr.modules[moduleY][moduleX]) {
+        raw[rowStart + 1 + x] = 0;
+      }
+    }
+  }
+
+  return encodePng({ width, height: width, colorType: 0 }, raw);
+}
@@ -0,0 +1,149 @@
+// SigV4 query-string presigning for the R2 S3 endpoint. Browsers upload straight to R2
+// with these URLs so package bytes never pass through the worker.
+
+export type R2PresignBindings = {
+  R2_ACCOUNT_ID?: string;
+  R2_ACCESS_KEY_ID?: string;
+  R2_SECRET_ACCESS_KEY?: string;
+  R2_BUCKET_NAME?: string;
+};
+
+export type R2PresignConfig = {
+  accountId: string;
+  accessKeyId: string;
+  secretKey: string;
+  bucket: string;
+};
+
+export const getR2PresignConfig = (bindings: R2PresignBindings): R2PresignConfig | null => {
+  const accountId = bindings.R2_ACCOUNT_ID;
+  const accessKeyId = bindings.R2_ACCESS_KEY_ID;
+  const secretKey = bindings.R2_SECRET_ACCESS_KEY;
+  const bucket = bindings.R2_BUCKET_NAME;
+  if (!accountId || !accessKeyId || !secretKey || !bucket) return null;
+  return { accountId, accessKeyId, secretKey, bucket };
+};
+
+function toAmzDate(date: Date) {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const yyyy = date.getUTCFullYear();
+  const mm = pad(date.getUTCMonth() + 1);
+  const dd = pad(date.getUTCDate());
+  const hh = pad(date.getUTCHours());
+  const mi = pad(date.getUTCMinutes());
+  const ss = pad(date.getUTCSeconds());
+  return `${yyyy}${mm}${dd}T${hh}${mi}${ss}Z`;
+}
+
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function encodeRfc3986Path(path: string) {
+  return path.split('/').map(encodeRfc3986).join('/');
+}
+
+async function sha256Hex(input: string | ArrayBuffer) {
+  const data = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  const bytes = new Uint8Array(digest);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmac(key: ArrayBuffer | ArrayBufferView, data: string) {
+  const sourceView =
+    key instanceof ArrayBuffer
+      ? new Uint8Array(key)
+      : new Uint8Array(key.buffer, key.byteOffset, key.byteLength);
+  const keyView = new Uint8Array(sourceView);
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    keyView,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+  return signature;
+}
+
+async function getSigningKey(secretKey: string, date: string, region: string, service: string) {
+  const kDate = await hmac(new TextEncoder().encode(`AWS4${secretKey}`), date);
+  const kRegion = await hmac(kDate, region);
+  const kService = await hmac(kRegion, service);
+  const kSigning = await hmac(kService, 'aws4_request');
+  return kSigning;
+}
+
+async function hmacHex(key: ArrayBuffer, data: string) {
+  const signature = await hmac(key, data);
+  const bytes = new Uint8Array(signature);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Presigns a PUT for `key`. `query` carries extra signed parameters such as
+ * `partNumber`/`uploadId` for multipart parts; `contentType`, when given, must be sent
+ * verbatim by the uploader.
+ */
+export async function presignR2PutUrl(
+  config: R2PresignConfig,
+  options: {
+    key: string;
+    expires: number;
+    contentType?: string | null;
+    query?: Record<string, string>;
+  }
+) {
+  const { accountId, accessKeyId, secretKey, bucket } = config;
+  const { key, expires, contentType } = options;
+  const service = 's3';
+  const region = 'auto';
+  const host = `${accountId}.r2.cloudflarestorage.com`;
+  const now = new Date();
+  const amzDate = toAmzDate(now);
+  const dateStamp = amzDate.slice(0, 8);
+  const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
+
+  const canonicalUri = `/${encodeURIComponent(bucket)}/${encodeRfc3986Path(key)}`;
+  const signedHeaders = contentType ? 'content-type;host' : 'host';
+
+  const queryPairs: Array<[string, string]> = [
+    ['X-Amz-Algorithm', 'AWS4-HMAC-SHA256'],
+    ['X-Amz-Credential', `${accessKeyId}/${credentialScope}`],
+    ['X-Amz-Date', amzDate],
+    ['X-Amz-Expires', String(expires)],
+    ['X-Amz-SignedHeaders', signedHeaders],
+    ...Object.entries(options.query ?? {}),
+  ];
+
+  const canonicalQuery = queryPairs
+    .map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+    .sort()
+    .join('&');
+
+  const canonicalHeaders = contentType
+    ? `content-type:${contentType}\nhost:${host}\n`
+    : `host:${host}\n`;
+  const payloadHash = 'UNSIGNED-PAYLOAD';
+
+  const canonicalRequest = [
+    'PUT',
+    canonicalUri,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const hashCanonical = await sha256Hex(canonicalRequest);
+  const stringToSign = `AWS4-HMAC-SHA256\n${amzDate}\n${credentialScope}\n${hashCanonical}`;
+  const signingKey = await getSigningKey(secretKey, dateStamp, region, service);
+  const signature = await hmacHex(signingKey, stringToSign);
+
+  const baseUrl = `https://${host}${canonicalUri}`;
+  return `${baseUrl}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
@@ -2,6 +2,7 @@ import type { D1Database } from '@cloudflare/workers-types';
 import { applyRecharge } from './recharge';
 import { markEcpayOrderPaid, markEcpayOrderFailed } from './ecpay';
 import { RechargeError } from './recharge';
+import { emitWebhookEvent } from './webhooks';
 
 type BaseMarkPayload = {
   rtnCode: string;
@@ -41,6 +42,11 @@ const processTask = async (task: QueueTask) => {
       balanceAfter: recharge.balance,
     };
     await markEcpayOrderPaid(task.DB, task.merchantTradeNo, normalizedPayload, 'orderResult');
+    await emitWebhookEvent(task.DB, task.accountId, 'order.paid', {
+      merchantTradeNo: task.merchantTradeNo,
+      points: task.points,
+      balance: recharge.balance,
+    });
     console.info('[recharge-queue] task completed', { merchantTradeNo: task.merchantTradeNo });
     pendingTasks.delete(task.merchantTradeNo);
   } catch (error) {
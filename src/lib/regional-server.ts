@@ -2,18 +2,30 @@ import type { D1Database } from '@cloudflare/workers-types';
 import { publishLinkToCnServer } from './cn-sync';
 import { publishLinkToRuServer } from './ru-sync';
 import {
+  abortCnUploadTicket,
   cleanupCnUploads,
+  completeCnUploadTicket,
+  createCnUploadTicket,
   deleteCnLink,
   getCnDownloadBaseUrl,
+  inspectCnUpload,
+  readCnUploadRange,
+  writeCnUploadObject,
   type CnServerBindings,
 } from './cn-server';
 import {
+  abortRuUploadTicket,
   cleanupRuUploads,
+  completeRuUploadTicket,
+  createRuUploadTicket,
   deleteRuLink,
   getRuDownloadBaseUrl,
+  inspectRuUpload,
+  readRuUploadRange,
+  writeRuUploadObject,
   type RuServerBindings,
 } from './ru-server';
-import type { RegionalNetworkArea } from './network-area';
+import { isRegionalNetworkArea, type NetworkArea, type RegionalNetworkArea } from './network-area';
 
 export type RegionalServerBindings = CnServerBindings & RuServerBindings;
 
@@ -22,6 +34,41 @@ export const getRegionalDownloadBaseUrl = (
   bindings?: Partial<RegionalServerBindings>
 ) => (area === 'CN' ? getCnDownloadBaseUrl(bindings) : getRuDownloadBaseUrl(bindings));
 
+/** Public download page URL of a link; CN/RU links live on their regional download domain. */
+export const getLinkShareUrl = (
+  link: { code: string; networkArea: NetworkArea },
+  origin: string,
+  bindings?: Partial<RegionalServerBindings>
+) => {
+  const base = isRegionalNetworkArea(link.networkArea)
+    ? getRegionalDownloadBaseUrl(link.networkArea, bindings)
+    : origin;
+  return `${base}/d/${encodeURIComponent(link.code)}`;
+};
+
+export const createRegionalUploadTicket = (
+  area: RegionalNetworkArea,
+  bindings: RegionalServerBindings,
+  payload: Parameters<typeof createCnUploadTicket>[1]
+) =>
+  area === 'CN' ? createCnUploadTicket(bindings, payload) : createRuUploadTicket(bindings, payload);
+
+export const completeRegionalUploadTicket = (
+  area: RegionalNetworkArea,
+  bindings: RegionalServerBindings,
+  ticketId: string
+) =>
+  area === 'CN'
+    ? completeCnUploadTicket(bindings, ticketId)
+    : completeRuUploadTicket(bindings, ticketId);
+
+export const abortRegionalUploadTicket = (
+  area: RegionalNetworkArea,
+  bindings: RegionalServerBindings,
+  ticketId: string
+) =>
+  area === 'CN' ? abortCnUploadTicket(bindings, ticketId) : abortRuUploadTicket(bindings, ticketId);
+
 export const cleanupRegionalUploads = (
   area: RegionalNetworkArea,
   bindings: RegionalServerBindings,
@@ -29,10 +76,38 @@ export const cleanupRegionalUploads = (
 ) =>
   area === 'CN' ? cleanupCnUploads(bindings, keys) : cleanupRuUploads(bindings, keys);
 
+export const inspectRegionalUpload = (
+  area: RegionalNetworkArea,
+  bindings: RegionalServerBindings,
+  key: string
+) => (area === 'CN' ? inspectCnUpload(bindings, key) : inspectRuUpload(bindings, key));
+
+export const readRegionalUploadRange = (
+  area: RegionalNetworkArea,
+  bindings: RegionalServerBindings,
+  key: string,
+  offset: number,
+  length: number
+) =>
+  area === 'CN'
+    ? readCnUploadRange(bindings, key, offset, length)
+    : readRuUploadRange(bindings, key, offset, length);
+
+export const writeRegionalUploadObject = (
+  area: RegionalNetworkArea,
+  bindings: RegionalServerBindings,
+  key: string,
+  body: Uint8Array,
+  contentType: string
+) =>
+  area === 'CN'
+    ? writeCnUploadObject(bindings, key, body, contentType)
+    : writeRuUploadObject(bindings, key, body, contentType);
+
 export const deleteRegionalLink = (
   area: RegionalNetworkArea,
   bindings: RegionalServerBindings,
-  payload: { linkId: string; code: string; keys: string[] }
+  payload: { linkId: string; code: string; aliases?: string[]; keys: string[] }
 ) => (area === 'CN' ? deleteCnLink(bindings, payload) : deleteRuLink(bindings, payload));
 
 export const publishLinkToRegionalServer = (
@@ -0,0 +1,148 @@
+// Per-link and per-build release notes. Stored as plain text when written in the link's
+// language only, otherwise as a JSON object keyed by language code. Rendered with a small
+// markdown subset on the download pages; the CN/RU servers carry a copy of the renderer.
+
+import { LANGUAGE_CODE_SET, type LangCode } from './language';
+
+export type LocalizedReleaseNotes = Partial<Record<LangCode, string>>;
+
+export const MAX_RELEASE_NOTES_LENGTH = 4000;
+
+const isLangCode = (value: string): value is LangCode => LANGUAGE_CODE_SET.has(value as LangCode);
+
+function cleanReleaseNotes(input: Record<string, unknown>): LocalizedReleaseNotes {
+  const notes: LocalizedReleaseNotes = {};
+  for (const [lang, text] of Object.entries(input)) {
+    if (!isLangCode(lang) || typeof text !== 'string') continue;
+    const trimmed = text.trim().slice(0, MAX_RELEASE_NOTES_LENGTH).trim();
+    if (trimmed) notes[lang] = trimmed;
+  }
+  return notes;
+}
+
+/** Reads a stored value; plain text belongs to `fallbackLang`, the link's language. */
+export function parseReleaseNotes(
+  value: string | null | undefined,
+  fallbackLang: LangCode
+): LocalizedReleaseNotes {
+  const text = (value ?? '').trim();
+  if (!text) return {};
+  if (text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text) as unknown;
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return cleanReleaseNotes(parsed as Record<string, unknown>);
+      }
+    } catch {
+      // Plain text that happens to start with a brace.
+    }
+  }
+  return { [fallbackLang]: text };
+}
+
+export function serializeReleaseNotes(
+  notes: LocalizedReleaseNotes,
+  fallbackLang: LangCode
+): string | null {
+  const cleaned = cleanReleaseNotes(notes);
+  const langs = Object.keys(cleaned) as LangCode[];
+  if (!langs.length) return null;
+  if (langs.length === 1 && langs[0] === fallbackLang && !cleaned[fallbackLang]!.startsWith('{')) {
+    return cleaned[fallbackLang]!;
+  }
+  return JSON.stringify(cleaned);
+}
+
+/**
+ * Request input to a stored value: a string is the link language's text, an object maps
+ * languages to text. `undefined` means "leave unchanged"; anything empty clears the notes.
+ */
+export function normalizeReleaseNotesInput(
+  input: unknown,
+  fallbackLang: LangCode
+): string | null | undefined {
+  if (input === undefined) return undefined;
+  if (typeof input === 'string') return serializeReleaseNotes({ [fallbackLang]: input }, fallbackLang);
+  if (input && typeof input === 'object' && !Array.isArray(input)) {
+    return serializeReleaseNotes(input as LocalizedReleaseNotes, fallbackLang);
+  }
+  return null;
+}
+
+/** The notes for `lang`, else the link language's, else whichever language exists. */
+export function pickReleaseNotes(
+  value: string | null | undefined,
+  lang: LangCode,
+  fallbackLang: LangCode
+): string | null {
+  const notes = parseReleaseNotes(value, fallbackLang);
+  return notes[lang] ?? notes[fallbackLang] ?? Object.values(notes)[0] ?? null;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+function renderInline(text: string) {
+  const codes: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code: string) => {
+    codes.push(`<code>${code}</code>`);
+    return `\u0000${codes.length - 1}\u0000`;
+  });
+  html = html
+    .replace(
+      /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g,
+      '<a href="$2" target="_blank" rel="noopener noreferrer nofollow">$1</a>'
+    )
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w*])\*([^*\s][^*]*)\*(?!\w)/g, '$1<em>$2</em>')
+    .replace(/(^|[^\w])_([^_\s][^_]*)_(?!\w)/g, '$1<em>$2</em>');
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => codes[Number(index)]);
+}
+
+/**
+ * Markdown-lite to HTML: `#` headings, `-`/`*` and `1.` lists, paragraphs, **bold**,
+ * *italic*, `code` and http(s) [links](url). Everything else is escaped text.
+ */
+export function renderReleaseNotesHtml(text: string): string {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list = null as { tag: 'ul' | 'ol'; items: string[] } | null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+    if (list) {
+      blocks.push(`<${list.tag}>${list.items.map((item) => `<li>${item}</li>`).join('')}</${list.tag}>`);
+    }
+    paragraph = [];
+    list = null;
+  };
+
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    const heading = /^(#{1,3})\s+(.+)$/.exec(line);
+    const bullet = /^[-*]\s+(.+)$/.exec(line);
+    const numbered = /^\d+[.)]\s+(.+)$/.exec(line);
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      const level = heading[1].length + 3;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      const tag = bullet ? 'ul' : 'ol';
+      if (paragraph.length || (list && list.tag !== tag)) flush();
+      list ??= { tag, items: [] };
+      list.items.push(renderInline((bullet ?? numbered)![1]));
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks.join('');
+}
@@ -0,0 +1,257 @@
+// Browser side of multipart uploads. Progress is saved in localStorage after every part so
+// re-selecting the same file after a reload or network drop continues where it stopped.
+
+import type { MultipartUploadSession, UploadedPart } from './multipart-upload';
+import { MULTIPART_PRESIGN_BATCH } from './multipart-upload';
+
+const STORAGE_PREFIX = 'upload:resumable:';
+// R2 removes unfinished multipart uploads after 7 days; give up a little earlier.
+const MAX_RESUME_AGE_MS = 6 * 24 * 60 * 60 * 1000;
+const PART_CONCURRENCY = 3;
+const PART_ATTEMPTS = 3;
+
+export type ResumableUploadTarget = {
+  key: string;
+  networkArea: string;
+  uploadUrl: string | null;
+  uploadHeaders: Record<string, string>;
+  multipart: MultipartUploadSession;
+};
+
+export type ResumableUploadState<TUpload> = {
+  linkId: string;
+  upload: TUpload;
+  target: ResumableUploadTarget;
+  parts: UploadedPart[];
+  savedAt: number;
+};
+
+export type ResumableUploadProgress = {
+  ratio: number;
+  completedParts: number;
+  partCount: number;
+};
+
+export const getResumableUploadId = (
+  file: File,
+  platform: string,
+  linkId: string | null
+) => `${platform}:${linkId ?? 'new'}:${file.name}:${file.size}:${file.lastModified}`;
+
+export function loadResumableUpload<TUpload>(id: string): ResumableUploadState<TUpload> | null {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_PREFIX}${id}`);
+    if (!raw) return null;
+    const state = JSON.parse(raw) as ResumableUploadState<TUpload>;
+    if (!state?.target?.multipart || Date.now() - state.savedAt > MAX_RESUME_AGE_MS) {
+      localStorage.removeItem(`${STORAGE_PREFIX}${id}`);
+      return null;
+    }
+    return state;
+  } catch {
+    return null;
+  }
+}
+
+export function saveResumableUpload<TUpload>(id: string, state: ResumableUploadState<TUpload>) {
+  try {
+    localStorage.setItem(
+      `${STORAGE_PREFIX}${id}`,
+      JSON.stringify({ ...state, savedAt: Date.now() })
+    );
+  } catch {
+    // Storage full or disabled: the upload still works, it just cannot be resumed.
+  }
+}
+
+export function clearResumableUpload(id: string) {
+  try {
+    localStorage.removeItem(`${STORAGE_PREFIX}${id}`);
+  } catch {
+    // Ignore storage access errors.
+  }
+}
+
+const ticketPartsUrl = (target: ResumableUploadTarget) => `${target.uploadUrl}/parts`;
+
+/**
+ * Regional tickets live in the server's memory, so ask which parts it actually holds.
+ * Returns null when the ticket is gone and the upload has to start over.
+ */
+export async function syncTicketParts(target: ResumableUploadTarget): Promise<UploadedPart[] | null> {
+  if (target.multipart.mode !== 'ticket' || !target.uploadUrl) return null;
+  try {
+    const res = await fetch(ticketPartsUrl(target), { headers: target.uploadHeaders });
+    if (!res.ok) return null;
+    const json = (await res.json()) as { ok?: boolean; parts?: number[] };
+    if (!json.ok || !Array.isArray(json.parts)) return null;
+    return json.parts.map((partNumber) => ({ partNumber, etag: String(partNumber) }));
+  } catch {
+    return null;
+  }
+}
+
+function putPart(
+  url: string,
+  headers: Record<string, string>,
+  body: Blob,
+  onProgress: (loaded: number) => void
+): Promise<{ etag: string | null; responseText: string }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    Object.entries(headers).forEach(([header, value]) => {
+      try {
+        xhr.setRequestHeader(header, value);
+      } catch {
+        // Ignore browsers that disallow setting certain headers.
+      }
+    });
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve({ etag: xhr.getResponseHeader('ETag'), responseText: xhr.responseText });
+      } else {
+        reject(new Error(xhr.responseText || `UPLOAD_FAILED_${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('NETWORK_ERROR'));
+    xhr.send(body);
+  });
+}
+
+async function presignParts(target: ResumableUploadTarget, partNumbers: number[]) {
+  const res = await fetch('/api/distributions/upload/parts', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({
+      key: target.key,
+      uploadId: target.multipart.uploadId,
+      partNumbers,
+    }),
+  });
+  const json = (await res.json().catch(() => null)) as
+    | { ok: true; parts: Array<{ partNumber: number; url: string }> }
+    | { ok: false; error?: string }
+    | null;
+  if (!res.ok || !json?.ok) {
+    throw new Error((json && !json.ok && json.error) || `HTTP_${res.status}`);
+  }
+  return new Map(json.parts.map((part) => [part.partNumber, part.url]));
+}
+
+/**
+ * Uploads every part not listed in `completed`. `onPart` fires after each part so the
+ * caller can persist progress; the full, ordered part list is returned.
+ */
+export async function uploadMissingParts(options: {
+  file: File;
+  target: ResumableUploadTarget;
+  completed: UploadedPart[];
+  onPart: (parts: UploadedPart[]) => void;
+  onProgress: (progress: ResumableUploadProgress) => void;
+}): Promise<UploadedPart[]> {
+  const { file, target, onPart, onProgress } = options;
+  const { partSize, partCount, mode } = target.multipart;
+  const done = new Map(options.completed.map((part) => [part.partNumber, part]));
+  const pending: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber += 1) {
+    if (!done.has(partNumber)) pending.push(partNumber);
+  }
+
+  const partBytes = (partNumber: number) =>
+    Math.min(partSize, file.size - (partNumber - 1) * partSize);
+  const inFlight = new Map<number, number>();
+  const report = () => {
+    let loaded = 0;
+    done.forEach((part) => {
+      loaded += partBytes(part.partNumber);
+    });
+    inFlight.forEach((value) => {
+      loaded += value;
+    });
+    onProgress({
+      ratio: file.size ? Math.min(1, loaded / file.size) : 1,
+      completedParts: done.size,
+      partCount,
+    });
+  };
+  report();
+
+  const presigned = new Map<number, string>();
+  const urlFor = async (partNumber: number) => {
+    if (mode === 'ticket') return `${ticketPartsUrl(target)}/${partNumber}`;
+    if (!presigned.has(partNumber)) {
+      const batch = pending
+        .filter((value) => value >= partNumber && !done.has(value) && !presigned.has(value))
+        .slice(0, MULTIPART_PRESIGN_BATCH);
+      (await presignParts(target, batch)).forEach((url, value) => presigned.set(value, url));
+    }
+    return presigned.get(partNumber) as string;
+  };
+
+  const uploadPart = async (partNumber: number) => {
+    const start = (partNumber - 1) * partSize;
+    const body = file.slice(start, start + partBytes(partNumber));
+    // R2 part URLs only sign the host, so the package content type stays on the
+    // multipart upload itself rather than on each part.
+    const headers = mode === 'ticket' ? target.uploadHeaders : {};
+    let lastError: unknown = null;
+    for (let attempt = 0; attempt < PART_ATTEMPTS; attempt += 1) {
+      try {
+        const url = await urlFor(partNumber);
+        const result = await putPart(url, headers, body, (loaded) => {
+          inFlight.set(partNumber, loaded);
+          report();
+        });
+        const etag = mode === 'ticket' ? String(partNumber) : result.etag;
+        if (!etag) throw new Error('UPLOAD_ETAG_MISSING');
+        inFlight.delete(partNumber);
+        done.set(partNumber, { partNumber, etag });
+        onPart(Array.from(done.values()));
+        report();
+        return;
+      } catch (error) {
+        lastError = error;
+        inFlight.delete(partNumber);
+        presigned.delete(partNumber);
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+      }
+    }
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  };
+
+  const queue = [...pending];
+  const workers = Array.from({ length: Math.min(PART_CONCURRENCY, queue.length) }, async () => {
+    while (queue.length) {
+      const partNumber = queue.shift() as number;
+      await uploadPart(partNumber);
+    }
+  });
+  await Promise.all(workers);
+
+  return Array.from(done.values()).sort((a, b) => a.partNumber - b.partNumber);
+}
+
+async function postMultipart(path: 'complete' | 'abort', target: ResumableUploadTarget, extra = {}) {
+  const res = await fetch(`/api/distributions/upload/${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({
+      key: target.key,
+      uploadId: target.multipart.uploadId,
+      networkArea: target.networkArea,
+      ...extra,
+    }),
+  });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+  if (!res.ok || !json?.ok) {
+    throw new Error(json?.error ?? `HTTP_${res.status}`);
+  }
+}
+
+export const completeResumableUpload = (target: ResumableUploadTarget, parts: UploadedPart[]) =>
+  postMultipart('complete', target, { parts });
+
+export const abortResumableUpload = (target: ResumableUploadTarget) =>
+  postMultipart('abort', target);
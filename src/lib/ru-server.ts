@@ -7,8 +7,12 @@ export type RuServerBindings = {
 };
 
 type UploadTicketResponse = {
+  ticketId: string | null;
   uploadUrl: string;
   uploadHeaders: Record<string, string>;
+  /** Set for chunked tickets: parts are PUT to `${uploadUrl}/parts/<n>`. */
+  partSize: number | null;
+  partCount: number | null;
 };
 
 export type RuPublishFile = {
@@ -20,6 +24,11 @@ export type RuPublishFile = {
   bundleId?: string | null;
   version?: string | null;
   contentType?: string | null;
+  teamName?: string | null;
+  /** Icon extracted from the package, stored next to it. */
+  iconKey?: string | null;
+  /** Stored value, possibly localized; see lib/release-notes. */
+  releaseNotes?: string | null;
 };
 
 export type RuPublishLinkPayload = {
@@ -34,7 +43,17 @@ export type RuPublishLinkPayload = {
     language: string;
     isActive: boolean;
     createdAt: number;
+    accessPassword: string | null;
+    expiresAt: number | null;
+    /** Set while the link waits for its scheduled go-live; the page shows "coming soon". */
+    publishAt: number | null;
+    /** Downloads stop at this time even before the cron turns the link off. */
+    unpublishAt: number | null;
+    scheduleTimezone: string | null;
+    releaseNotes: string | null;
   };
+  /** Previous codes of the link that should redirect to `link.code`. */
+  aliases: string[];
   files: RuPublishFile[];
 };
 
@@ -89,6 +108,7 @@ export const createRuUploadTicket = async (
     platform: 'apk' | 'ipa';
     linkId: string;
     ownerId: string;
+    partSize?: number;
   }
 ): Promise<UploadTicketResponse> => {
   const response = await ruRequest(bindings, '/api/uploads/presign', {
@@ -98,18 +118,45 @@ export const createRuUploadTicket = async (
   });
   const json = (await response.json()) as {
     ok?: boolean;
+    ticketId?: string;
     uploadUrl?: string;
     uploadHeaders?: Record<string, string>;
+    partSize?: number | null;
+    partCount?: number | null;
   };
   if (!json?.ok || !json.uploadUrl) {
     throw new Error('RU_UPLOAD_TICKET_FAILED');
   }
+  if (payload.partSize && (!json.ticketId || !json.partSize || !json.partCount)) {
+    throw new Error('RU_UPLOAD_TICKET_NOT_CHUNKED');
+  }
   return {
+    ticketId: json.ticketId ?? null,
     uploadUrl: json.uploadUrl,
     uploadHeaders: json.uploadHeaders ?? {},
+    partSize: json.partSize ?? null,
+    partCount: json.partCount ?? null,
   };
 };
 
+export const completeRuUploadTicket = async (
+  bindings: RuServerBindings,
+  ticketId: string
+): Promise<void> => {
+  await ruRequest(bindings, `/api/uploads/${encodeURIComponent(ticketId)}/complete`, {
+    method: 'POST',
+  });
+};
+
+export const abortRuUploadTicket = async (
+  bindings: RuServerBindings,
+  ticketId: string
+): Promise<void> => {
+  await ruRequest(bindings, `/api/uploads/${encodeURIComponent(ticketId)}/abort`, {
+    method: 'POST',
+  });
+};
+
 export const publishRuLink = async (
   bindings: RuServerBindings,
   payload: RuPublishLinkPayload
@@ -123,7 +170,7 @@ export const publishRuLink = async (
 
 export const deleteRuLink = async (
   bindings: RuServerBindings,
-  payload: { linkId: string; code: string; keys: string[] }
+  payload: { linkId: string; code: string; aliases?: string[]; keys: string[] }
 ): Promise<void> => {
   await ruRequest(bindings, '/api/links/delete', {
     method: 'POST',
@@ -144,3 +191,49 @@ export const cleanupRuUploads = async (
     body: JSON.stringify({ keys: trimmed }),
   });
 };
+
+export const inspectRuUpload = async (
+  bindings: RuServerBindings,
+  key: string
+): Promise<{ size: number; sha256: string }> => {
+  const response = await ruRequest(bindings, '/api/uploads/inspect', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ key: key.replace(/^\/+/, '') }),
+  });
+  const json = (await response.json()) as { ok?: boolean; size?: number; sha256?: string };
+  if (!json?.ok || typeof json.size !== 'number' || !json.sha256) {
+    throw new Error('RU_UPLOAD_INSPECT_FAILED');
+  }
+  return { size: json.size, sha256: json.sha256 };
+};
+
+export const readRuUploadRange = async (
+  bindings: RuServerBindings,
+  key: string,
+  offset: number,
+  length: number
+): Promise<Uint8Array> => {
+  const params = new URLSearchParams({
+    key: key.replace(/^\/+/, ''),
+    offset: String(offset),
+    length: String(length),
+  });
+  const response = await ruRequest(bindings, `/api/uploads/range?${params.toString()}`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/** Stores a small derived file (e.g. an extracted app icon) under `key` next to the uploads. */
+export const writeRuUploadObject = async (
+  bindings: RuServerBindings,
+  key: string,
+  body: Uint8Array,
+  contentType: string
+) => {
+  const params = new URLSearchParams({ key: key.replace(/^\/+/, '') });
+  await ruRequest(bindings, `/api/uploads/object?${params.toString()}`, {
+    method: 'PUT',
+    headers: { 'content-type': contentType },
+    body: body as Uint8Array<ArrayBuffer>,
+  });
+};
@@ -1,4 +1,5 @@
 import type { D1Database } from '@cloudflare/workers-types';
+import { fetchLinkCodeAliases } from './code';
 import { fetchDistributionById } from './distribution';
 import { publishRuLink, type RuPublishLinkPayload, type RuServerBindings } from './ru-server';
 
@@ -27,6 +28,9 @@ export async function publishLinkToRuServer(DB: D1Database, env: RuServerBinding
         bundleId: file.bundleId ?? null,
         version: file.version ?? null,
         contentType: file.contentType ?? null,
+        teamName: file.teamName ?? null,
+        iconKey: file.iconKey ?? null,
+        releaseNotes: file.releaseNotes ?? null,
       };
     })
     .filter((file) => file.key);
@@ -43,7 +47,14 @@ export async function publishLinkToRuServer(DB: D1Database, env: RuServerBinding
       language: link.language,
       isActive: link.isActive,
       createdAt: link.createdAt,
+      accessPassword: link.accessPassword,
+      expiresAt: link.expiresAt,
+      publishAt: link.publishAt,
+      unpublishAt: link.unpublishAt,
+      scheduleTimezone: link.scheduleTimezone,
+      releaseNotes: link.releaseNotes,
     },
+    aliases: await fetchLinkCodeAliases(DB, linkId),
     files,
   };
 
@@ -5,6 +5,7 @@ type Flags = {
   hasUsersBalance?: boolean;
   pointTablesEnsured?: boolean;
   pointAccountsHasUpdatedAt?: boolean;
+  pointLedgerHasPricingRule?: boolean;
 };
 
 let flagsStore: Flags | undefined;
@@ -42,6 +43,19 @@ export async function hasPointAccountsUpdatedAt(DB?: D1Database): Promise<boolea
   return flags.pointAccountsHasUpdatedAt;
 }
 
+export async function hasPointLedgerPricingRuleColumn(DB?: D1Database): Promise<boolean> {
+  if (!DB) return false;
+  const flags = ensureFlags();
+  if (flags.pointLedgerHasPricingRule !== undefined) return flags.pointLedgerHasPricingRule;
+  try {
+    await runWithD1Retry(() => DB.prepare('SELECT pricing_rule_id FROM point_ledger LIMIT 1').all(), 'schema:check-point-ledger-pricing-rule');
+    flags.pointLedgerHasPricingRule = true;
+  } catch {
+    flags.pointLedgerHasPricingRule = false;
+  }
+  return flags.pointLedgerHasPricingRule;
+}
+
 export async function ensurePointTables(DB?: D1Database) {
   if (!DB) return;
   const flags = ensureFlags();
@@ -0,0 +1,115 @@
+// Browser side of the dashboard "share card": a printable PNG with the app's icon, title,
+// version and the QR of its download page.
+
+export type ShareCardInput = {
+  title: string;
+  /** Already formatted, e.g. "APK 1.2.0 · iOS 1.2.0". */
+  version: string;
+  shareUrl: string;
+  /** Same-origin PNG of the link's QR code, so the canvas stays exportable. */
+  qrUrl: string;
+  iconUrl?: string | null;
+  caption: string;
+};
+
+const WIDTH = 600;
+const HEIGHT = 820;
+const ICON_SIZE = 96;
+const QR_SIZE = 420;
+
+async function loadImage(src: string, crossOrigin = false) {
+  const image = new Image();
+  // Icons come from the CDN; without CORS they would taint the canvas and block export.
+  if (crossOrigin) image.crossOrigin = 'anonymous';
+  image.src = src;
+  await image.decode();
+  return image;
+}
+
+function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, radius: number) {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + size, y, x + size, y + size, radius);
+  ctx.arcTo(x + size, y + size, x, y + size, radius);
+  ctx.arcTo(x, y + size, x, y, radius);
+  ctx.arcTo(x, y, x + size, y, radius);
+  ctx.closePath();
+}
+
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number) {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let trimmed = text;
+  while (trimmed.length > 1 && ctx.measureText(`${trimmed}…`).width > maxWidth) {
+    trimmed = trimmed.slice(0, -1);
+  }
+  return `${trimmed}…`;
+}
+
+export async function renderShareCard(input: ShareCardInput): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('CANVAS_UNAVAILABLE');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.strokeStyle = '#e5e7eb';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(1, 1, WIDTH - 2, HEIGHT - 2);
+
+  const iconX = (WIDTH - ICON_SIZE) / 2;
+  const iconY = 40;
+  const icon = input.iconUrl ? await loadImage(input.iconUrl, true).catch(() => null) : null;
+  ctx.save();
+  roundedRect(ctx, iconX, iconY, ICON_SIZE, 22);
+  ctx.clip();
+  if (icon) {
+    ctx.drawImage(icon, iconX, iconY, ICON_SIZE, ICON_SIZE);
+  } else {
+    // No icon extracted: fall back to the title's first letter.
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(iconX, iconY, ICON_SIZE, ICON_SIZE);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 48px system-ui, -apple-system, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(Array.from(input.title.trim() || '?')[0].toUpperCase(), WIDTH / 2, iconY + ICON_SIZE / 2 + 2);
+  }
+  ctx.restore();
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 30px system-ui, -apple-system, sans-serif';
+  ctx.fillText(fitText(ctx, input.title, WIDTH - 60), WIDTH / 2, 184);
+  ctx.fillStyle = '#6b7280';
+  ctx.font = '18px system-ui, -apple-system, sans-serif';
+  ctx.fillText(fitText(ctx, input.version, WIDTH - 60), WIDTH / 2, 216);
+
+  const qr = await loadImage(input.qrUrl);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(qr, (WIDTH - QR_SIZE) / 2, 240, QR_SIZE, QR_SIZE);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 20px system-ui, -apple-system, sans-serif';
+  ctx.fillText(fitText(ctx, input.caption, WIDTH - 60), WIDTH / 2, 700);
+  ctx.fillStyle = '#2563eb';
+  ctx.font = '16px ui-monospace, SFMono-Regular, Menlo, monospace';
+  ctx.fillText(fitText(ctx, input.shareUrl, WIDTH - 60), WIDTH / 2, 736);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('SHARE_CARD_FAILED'))), 'image/png');
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const href = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = href;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+}
@@ -0,0 +1,21 @@
+// Small helpers shared by the modules that sign and check tokens (billing and download
+// grants, UDID callbacks, API tokens).
+
+/** Compares two strings in time that depends only on their length. */
+export function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/** Unpadded base64url, safe in URLs and query strings. */
+export function toBase64Url(bytes: ArrayBuffer | Uint8Array) {
+  let binary = '';
+  new Uint8Array(bytes).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -0,0 +1,172 @@
+// CSV and minimal XLSX writers on Web APIs only, for the download stats exports. CSV starts
+// with a BOM so Excel reads it as UTF-8 (like scripts/export-i18n.ts); XLSX is a single sheet
+// of inline strings and numbers in an uncompressed ZIP.
+
+import { crc32 } from './png';
+
+export type SpreadsheetCell = string | number | null;
+
+const CSV_ROWS_PER_CHUNK = 500;
+
+// Spreadsheet apps run text starting with these as a formula; link titles are user input.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: SpreadsheetCell) => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+/** Streams `header` and `rows` as CSV, a few hundred rows per chunk. */
+export function csvStream(header: string[], rows: SpreadsheetCell[][]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`\uFEFF${header.map(csvCell).join(',')}\n`));
+    },
+    pull(controller) {
+      const chunk = rows.slice(index, index + CSV_ROWS_PER_CHUNK);
+      index += chunk.length;
+      if (chunk.length) {
+        controller.enqueue(encoder.encode(chunk.map((row) => `${row.map(csvCell).join(',')}\n`).join('')));
+      }
+      if (index >= rows.length) controller.close();
+    },
+  });
+}
+
+const xmlEscape = (value: string) =>
+  value
+    // Control characters other than tab and newlines are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const sheetRow = (cells: SpreadsheetCell[], rowIndex: number) => {
+  const xml = cells
+    .map((value, column) => {
+      const ref = `${columnName(column)}${rowIndex + 1}`;
+      if (value === null) return '';
+      if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+    })
+    .join('');
+  return `<row r="${rowIndex + 1}">${xml}</row>`;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+type ZipEntry = { name: string; data: Uint8Array };
+
+/** Uncompressed ("stored") ZIP archive; enough for the few XML parts of an XLSX. */
+function zipStore(entries: ZipEntry[]) {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(10, 0, true); // modification time
+    localView.setUint16(12, 0x21, true); // 1980-01-01
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, entry.data.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(14, 0x21, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, entry.data.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, entry.data);
+    centrals.push(central);
+    offset += local.length + entry.data.length;
+  }
+
+  const centralSize = centrals.reduce((total, part) => total + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((position, part) => {
+    result.set(part, position);
+    return position + part.length;
+  }, 0);
+  return result;
+}
+
+/** A one-sheet workbook with `header` in the first row. */
+export function buildXlsx(sheetName: string, header: string[], rows: SpreadsheetCell[][]): Uint8Array {
+  const encoder = new TextEncoder();
+  // Sheet names are at most 31 characters and cannot contain []:*?/\
+  const safeSheetName = xmlEscape(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+  const sheetData = [header, ...rows].map(sheetRow).join('');
+  const files: Array<[string, string]> = [
+    [
+      '[Content_Types].xml',
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    ],
+    [
+      '_rels/.rels',
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    ],
+    [
+      'xl/workbook.xml',
+      `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    ],
+    [
+      'xl/_rels/workbook.xml.rels',
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>',
+    ],
+    [
+      'xl/worksheets/sheet1.xml',
+      `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        `<sheetData>${sheetData}</sheetData></worksheet>`,
+    ],
+  ];
+  return zipStore(files.map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+}
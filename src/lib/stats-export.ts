@@ -0,0 +1,76 @@
+// Download stats exports: one link's series or every link of an account, as CSV or XLSX.
+
+import type { NetworkArea } from './network-area';
+import { buildXlsx, csvStream, type SpreadsheetCell } from './spreadsheet';
+import type { StatsPoint, StatsRange } from './stats-series';
+
+export type StatsExportFormat = 'csv' | 'xlsx';
+
+// Keeps the in-memory XLSX (and the D1 reads behind it) well within a Worker's limits.
+export const MAX_STATS_EXPORT_ROWS = 100_000;
+
+export const parseStatsExportFormat = (value: string | null): StatsExportFormat | null => {
+  if (!value || value === 'csv') return 'csv';
+  if (value === 'xlsx') return 'xlsx';
+  return null;
+};
+
+export type StatsExportLink = {
+  id: string;
+  code: string;
+  title: string | null;
+  networkArea: NetworkArea;
+};
+
+const LINK_HEADER = ['bucket', 'apk', 'ipa', 'total'];
+const ACCOUNT_HEADER = ['link_id', 'code', 'title', 'network_area', 'bucket', 'apk', 'ipa', 'total'];
+
+const pointCells = (point: StatsPoint): SpreadsheetCell[] => [point.bucket, point.apk, point.ipa, point.total];
+
+export const linkStatsExportRows = (points: StatsPoint[]) => ({
+  header: LINK_HEADER,
+  rows: points.map(pointCells),
+});
+
+/** Every bucket of every link, zero-filled, so totals per link or per bucket add up in a pivot. */
+export const accountStatsExportRows = (links: StatsExportLink[], series: Map<string, StatsPoint[]>, range: StatsRange) => {
+  const empty = range.bucketTimes.map((time) => ({ bucket: new Date(time).toISOString(), apk: 0, ipa: 0, total: 0 }));
+  return {
+    header: ACCOUNT_HEADER,
+    rows: links.flatMap((link) =>
+      (series.get(link.id) ?? empty).map((point): SpreadsheetCell[] => [
+        link.id,
+        link.code,
+        link.title,
+        link.networkArea,
+        ...pointCells(point),
+      ])
+    ),
+  };
+};
+
+/** `<name>-<frequency>-<from day>_<to day>.<format>` */
+export const statsExportFilename = (name: string, range: StatsRange, format: StatsExportFormat) =>
+  `${name.replace(/[^A-Za-z0-9._-]/g, '_')}-${range.frequency}-${range.from.toISOString().slice(0, 10)}_${range.to
+    .toISOString()
+    .slice(0, 10)}.${format}`;
+
+export function statsExportResponse(
+  format: StatsExportFormat,
+  filename: string,
+  { header, rows }: { header: string[]; rows: SpreadsheetCell[][] }
+) {
+  const body =
+    format === 'xlsx' ? (buildXlsx('Downloads', header, rows) as Uint8Array<ArrayBuffer>) : csvStream(header, rows);
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'content-type':
+        format === 'xlsx'
+          ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          : 'text/csv; charset=utf-8',
+      'content-disposition': `attachment; filename="${filename}"`,
+      'cache-control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,234 @@
+// Download series for the stats API and its CSV/XLSX exports: a `from`..`to` range cut into
+// year, month, day or hour buckets (UTC), filled from the daily or hourly counters.
+
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  fetchDownloadStatsRange,
+  fetchHourlyDownloadStatsRange,
+  fetchOwnerDownloadStatsRange,
+  fetchOwnerHourlyDownloadStatsRange,
+  formatStatsHour,
+} from './downloads';
+
+export type StatsFrequency = 'year' | 'month' | 'day' | 'hour';
+
+export const STATS_FREQUENCIES: StatsFrequency[] = ['year', 'month', 'day', 'hour'];
+
+export type StatsPoint = { bucket: string; apk: number; ipa: number; total: number };
+
+export type StatsRange = {
+  frequency: StatsFrequency;
+  from: Date;
+  to: Date;
+  /** Start of each bucket, epoch milliseconds. */
+  bucketTimes: number[];
+};
+
+const MAX_BUCKETS = 2000;
+
+export class StatsRangeError extends Error {
+  /** Set with `HOURLY_RANGE_UNAVAILABLE`: how many days of hourly rows are kept. */
+  hourlyRetentionDays?: number;
+
+  constructor(message: 'INVALID_RANGE' | 'RANGE_TOO_LARGE' | 'HOURLY_RANGE_UNAVAILABLE', hourlyRetentionDays?: number) {
+    super(message);
+    this.hourlyRetentionDays = hourlyRetentionDays;
+  }
+}
+
+const startOfDayUTC = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const formatDayKey = (date: Date) => startOfDayUTC(date).toISOString().slice(0, 10);
+
+export const alignTimestamp = (ms: number, frequency: StatsFrequency) => {
+  const date = new Date(ms);
+  switch (frequency) {
+    case 'year': {
+      date.setUTCMonth(0, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    }
+    case 'month': {
+      date.setUTCDate(1);
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    }
+    case 'day': {
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    }
+    case 'hour': {
+      date.setUTCMinutes(0, 0, 0);
+      break;
+    }
+    default: {
+      date.setUTCHours(0, 0, 0, 0);
+    }
+  }
+  return date.getTime();
+};
+
+const incrementTimestamp = (ms: number, frequency: StatsFrequency) => {
+  const date = new Date(ms);
+  switch (frequency) {
+    case 'year': {
+      date.setUTCFullYear(date.getUTCFullYear() + 1);
+      break;
+    }
+    case 'month': {
+      date.setUTCMonth(date.getUTCMonth() + 1);
+      break;
+    }
+    case 'day': {
+      date.setUTCDate(date.getUTCDate() + 1);
+      break;
+    }
+    case 'hour': {
+      date.setUTCHours(date.getUTCHours() + 1);
+      break;
+    }
+    default: {
+      date.setUTCDate(date.getUTCDate() + 1);
+    }
+  }
+  return date.getTime();
+};
+
+/**
+ * Reads `from`, `to` (ISO, the last 7 days by default) and `frequency` (default `day`).
+ * Hourly series use the exact range and must start within the hourly retention window; the
+ * others count whole days. Throws `StatsRangeError`.
+ */
+export function parseStatsRange(searchParams: URLSearchParams, hourlyRetentionDays: number): StatsRange {
+  const frequencyParam = searchParams.get('frequency') as StatsFrequency | null;
+  const frequency: StatsFrequency =
+    frequencyParam && STATS_FREQUENCIES.includes(frequencyParam) ? frequencyParam : 'day';
+
+  const toParam = searchParams.get('to');
+  const fromParam = searchParams.get('from');
+  const to = toParam ? new Date(toParam) : new Date();
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from.getTime() > to.getTime()) {
+    throw new StatsRangeError('INVALID_RANGE');
+  }
+
+  const isHourly = frequency === 'hour';
+  const alignedStart = alignTimestamp(isHourly ? from.getTime() : startOfDayUTC(from).getTime(), frequency);
+  const alignedEnd = alignTimestamp(isHourly ? to.getTime() : startOfDayUTC(to).getTime(), frequency);
+
+  if (isHourly) {
+    const retainedFrom = alignTimestamp(Date.now() - hourlyRetentionDays * 24 * 60 * 60 * 1000, 'hour');
+    if (alignedStart < retainedFrom) {
+      throw new StatsRangeError('HOURLY_RANGE_UNAVAILABLE', hourlyRetentionDays);
+    }
+  }
+
+  const bucketTimes: number[] = [];
+  let cursor = alignedStart;
+  while (cursor <= alignedEnd) {
+    bucketTimes.push(cursor);
+    cursor = incrementTimestamp(cursor, frequency);
+    if (bucketTimes.length > MAX_BUCKETS) {
+      throw new StatsRangeError('RANGE_TOO_LARGE');
+    }
+  }
+  if (!bucketTimes.length) {
+    bucketTimes.push(alignedStart);
+  }
+
+  return { frequency, from, to, bucketTimes };
+}
+
+type SeriesRow = {
+  linkId: string;
+  time: number;
+  apk: number;
+  ipa: number;
+};
+
+const toNumber = (value: number | string | null | undefined) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return 0;
+};
+
+async function fetchSeriesRows(
+  DB: D1Database,
+  scope: { linkId: string } | { ownerId: string },
+  range: StatsRange
+): Promise<SeriesRow[]> {
+  const first = range.bucketTimes[0];
+  const last = range.bucketTimes[range.bucketTimes.length - 1];
+  if (range.frequency === 'hour') {
+    const startHour = formatStatsHour(new Date(first));
+    const endHour = formatStatsHour(new Date(last));
+    const rows =
+      'linkId' in scope
+        ? (await fetchHourlyDownloadStatsRange(DB, scope.linkId, startHour, endHour)).map((row) => ({
+            ...row,
+            link_id: scope.linkId,
+          }))
+        : await fetchOwnerHourlyDownloadStatsRange(DB, scope.ownerId, startHour, endHour);
+    return rows.map((row) => ({
+      linkId: row.link_id,
+      time: new Date(`${row.hour}:00:00Z`).getTime(),
+      apk: toNumber(row.apk_dl),
+      ipa: toNumber(row.ipa_dl),
+    }));
+  }
+  const startDate = formatDayKey(range.from);
+  const endDate = formatDayKey(range.to);
+  const rows =
+    'linkId' in scope
+      ? (await fetchDownloadStatsRange(DB, scope.linkId, startDate, endDate)).map((row) => ({
+          ...row,
+          link_id: scope.linkId,
+        }))
+      : await fetchOwnerDownloadStatsRange(DB, scope.ownerId, startDate, endDate);
+  return rows.map((row) => ({
+    linkId: row.link_id,
+    time: row.date ? new Date(`${row.date}T00:00:00Z`).getTime() : NaN,
+    apk: toNumber(row.apk_dl),
+    ipa: toNumber(row.ipa_dl),
+  }));
+}
+
+const toPoints = (range: StatsRange, rows: SeriesRow[]): StatsPoint[] => {
+  const bucketMap = new Map<number, { apk: number; ipa: number }>();
+  for (const row of rows) {
+    if (!Number.isFinite(row.time)) continue;
+    const bucketKey = alignTimestamp(row.time, range.frequency);
+    const entry = bucketMap.get(bucketKey) ?? { apk: 0, ipa: 0 };
+    entry.apk += row.apk;
+    entry.ipa += row.ipa;
+    bucketMap.set(bucketKey, entry);
+  }
+  return range.bucketTimes.map((time) => {
+    const { apk, ipa } = bucketMap.get(time) ?? { apk: 0, ipa: 0 };
+    return { bucket: new Date(time).toISOString(), apk, ipa, total: apk + ipa };
+  });
+};
+
+/** One point per bucket of `range`, zero-filled. */
+export async function fetchLinkStatsSeries(DB: D1Database, linkId: string, range: StatsRange) {
+  return toPoints(range, await fetchSeriesRows(DB, { linkId }, range));
+}
+
+/** `fetchLinkStatsSeries` for every link of an owner that has downloads in the range. */
+export async function fetchOwnerStatsSeries(
+  DB: D1Database,
+  ownerId: string,
+  range: StatsRange
+): Promise<Map<string, StatsPoint[]>> {
+  const rows = await fetchSeriesRows(DB, { ownerId }, range);
+  const byLink = new Map<string, SeriesRow[]>();
+  for (const row of rows) {
+    const list = byLink.get(row.linkId) ?? [];
+    list.push(row);
+    byLink.set(row.linkId, list);
+  }
+  return new Map(Array.from(byLink.entries()).map(([linkId, linkRows]) => [linkId, toPoints(range, linkRows)]));
+}
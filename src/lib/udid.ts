@@ -0,0 +1,653 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  decodeOid,
+  derContent,
+  derEncode,
+  derInteger,
+  derNull,
+  derOctetString,
+  derOid,
+  derSequence,
+  derSet,
+  derSlice,
+  derUtcTime,
+  pemBlocks,
+  readDerChildren,
+  readDerElement,
+  type DerElement,
+} from './asn1';
+import { timingSafeEqual, toBase64Url } from './signing';
+import { isPlistDict, parsePlist } from './plist-parser';
+
+export type UdidProfileBindings = {
+  UDID_PROFILE_SIGNING_CERT?: string;
+  UDID_PROFILE_SIGNING_KEY?: string;
+  /** Signs the per-download profile challenges and the result page tokens. */
+  UDID_CHALLENGE_SECRET?: string;
+  /** PEM CA certificates the device certificate signing the callback must chain to (required). */
+  UDID_DEVICE_CA_CERT?: string;
+};
+
+/** How long a downloaded profile can post its device attributes back. */
+export const UDID_CHALLENGE_TTL_SECONDS = 30 * 60;
+/** How long the result page link handed to the device after the callback stays valid. */
+export const UDID_RESULT_TTL_SECONDS = 10 * 60;
+
+export const getUdidChallengeSecret = (bindings: UdidProfileBindings): string | null => {
+  const secret = (bindings.UDID_CHALLENGE_SECRET ?? process.env.UDID_CHALLENGE_SECRET ?? '').trim();
+  return secret || null;
+};
+
+/** Apple's device CA certificates (PEM); without them no callback is trusted. */
+export const getUdidDeviceCaPem = (bindings: UdidProfileBindings): string | null => {
+  const pem = (bindings.UDID_DEVICE_CA_CERT ?? process.env.UDID_DEVICE_CA_CERT ?? '').trim();
+  return pem || null;
+};
+
+export type UdidCallbackPayload = {
+  udid: string;
+  product: string | null;
+  version: string | null;
+  serial: string | null;
+  imei: string | null;
+  challenge: string | null;
+};
+
+export type UdidDevice = {
+  id: string;
+  ownerId: string;
+  linkId: string | null;
+  linkCode: string | null;
+  udid: string;
+  product: string | null;
+  osVersion: string | null;
+  serial: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const OID_DATA = '1.2.840.113549.1.7.1';
+const OID_SIGNED_DATA = '1.2.840.113549.1.7.2';
+const OID_SHA256 = '2.16.840.1.101.3.4.2.1';
+const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1';
+const OID_CONTENT_TYPE = '1.2.840.113549.1.9.3';
+const OID_MESSAGE_DIGEST = '1.2.840.113549.1.9.4';
+const OID_SIGNING_TIME = '1.2.840.113549.1.9.5';
+const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  '1.3.14.3.2.26': 'SHA-1',
+  '2.16.840.1.101.3.4.2.1': 'SHA-256',
+  '2.16.840.1.101.3.4.2.2': 'SHA-384',
+  '2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+// Certificate signature algorithms, mapped to the hash they use.
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  '1.2.840.113549.1.1.5': 'SHA-1',
+  '1.2.840.113549.1.1.11': 'SHA-256',
+  '1.2.840.113549.1.1.12': 'SHA-384',
+  '1.2.840.113549.1.1.13': 'SHA-512',
+  '1.2.840.10045.4.1': 'SHA-1',
+  '1.2.840.10045.4.3.2': 'SHA-256',
+  '1.2.840.10045.4.3.3': 'SHA-384',
+  '1.2.840.10045.4.3.4': 'SHA-512',
+};
+
+const NAMED_CURVES: Record<string, { name: string; size: number }> = {
+  '1.2.840.10045.3.1.7': { name: 'P-256', size: 32 },
+  '1.3.132.0.34': { name: 'P-384', size: 48 },
+  '1.3.132.0.35': { name: 'P-521', size: 66 },
+};
+
+const UDID_PATTERN = /^[0-9A-Fa-f-]{24,40}$/;
+
+function xml(input: unknown) {
+  return String(input ?? '').replace(/[<>&"]/g, (match) => {
+    switch (match) {
+      case '<':
+        return '&lt;';
+      case '>':
+        return '&gt;';
+      case '&':
+        return '&amp;';
+      case '"':
+        return '&quot;';
+      default:
+        return match;
+    }
+  });
+}
+
+export function buildUdidProfile(options: {
+  callbackUrl: string;
+  challenge: string;
+  displayName: string;
+  identifier: string;
+  description: string;
+}): string {
+  const { callbackUrl, challenge, displayName, identifier, description } = options;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+  <dict>
+    <key>PayloadContent</key>
+    <dict>
+      <key>URL</key><string>${xml(callbackUrl)}</string>
+      <key>DeviceAttributes</key>
+      <array>
+        <string>UDID</string>
+        <string>PRODUCT</string>
+        <string>VERSION</string>
+        <string>SERIAL</string>
+        <string>IMEI</string>
+      </array>
+      <key>Challenge</key><string>${xml(challenge)}</string>
+    </dict>
+    <key>PayloadOrganization</key><string>${xml(displayName)}</string>
+    <key>PayloadDisplayName</key><string>${xml(displayName)}</string>
+    <key>PayloadDescription</key><string>${xml(description)}</string>
+    <key>PayloadIdentifier</key><string>${xml(identifier)}</string>
+    <key>PayloadUUID</key><string>${crypto.randomUUID().toUpperCase()}</string>
+    <key>PayloadVersion</key><integer>1</integer>
+    <key>PayloadType</key><string>Profile Service</string>
+  </dict>
+</plist>`;
+}
+
+/**
+ * Wraps the profile in a CMS SignedData envelope when a signing certificate and
+ * PKCS#8 RSA key are configured. Returns null so callers can fall back to serving
+ * the unsigned profile.
+ */
+export async function signUdidProfile(
+  content: Uint8Array<ArrayBuffer>,
+  env: UdidProfileBindings
+) {
+  const certPem = env.UDID_PROFILE_SIGNING_CERT?.trim();
+  const keyPem = env.UDID_PROFILE_SIGNING_KEY?.trim();
+  if (!certPem || !keyPem) return null;
+
+  const certificates = pemBlocks(certPem, 'CERTIFICATE');
+  const [keyDer] = pemBlocks(keyPem, 'PRIVATE KEY');
+  if (!certificates.length || !keyDer) return null;
+
+  // The first certificate is the signer; the remaining ones form the chain.
+  const signer = certificates[0];
+  const certificate = readDerElement(signer, 0);
+  const [tbs] = readDerChildren(signer, certificate);
+  const tbsChildren = readDerChildren(signer, tbs);
+  const fieldOffset = tbsChildren[0]?.tag === 0xa0 ? 1 : 0;
+  const serial = tbsChildren[fieldOffset];
+  const issuer = tbsChildren[fieldOffset + 2];
+  if (!serial || !issuer) {
+    throw new Error('UDID_SIGNING_CERT_INVALID');
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', content));
+  const attributes = [
+    derSequence(derOid(OID_CONTENT_TYPE), derSet(derOid(OID_DATA))),
+    derSequence(derOid(OID_SIGNING_TIME), derSet(derUtcTime(new Date()))),
+    derSequence(derOid(OID_MESSAGE_DIGEST), derSet(derOctetString(digest))),
+  ];
+  const signedAttributes = derSet(...attributes);
+
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    keyDer,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, signedAttributes)
+  );
+
+  const sha256Algorithm = derSequence(derOid(OID_SHA256), derNull());
+  const signerInfo = derSequence(
+    derInteger(1),
+    derSequence(derSlice(signer, issuer), derSlice(signer, serial)),
+    sha256Algorithm,
+    // Signed attributes are encoded as [0] IMPLICIT in the SignerInfo but signed as a SET.
+    derEncode(0xa0, derContent(signedAttributes, readDerElement(signedAttributes, 0))),
+    derSequence(derOid(OID_RSA_ENCRYPTION), derNull()),
+    derOctetString(signature)
+  );
+
+  const signedData = derSequence(
+    derInteger(1),
+    derSet(sha256Algorithm),
+    derSequence(derOid(OID_DATA), derEncode(0xa0, derOctetString(content))),
+    derEncode(0xa0, ...certificates),
+    derSet(signerInfo)
+  );
+
+  return derSequence(derOid(OID_SIGNED_DATA), derEncode(0xa0, signedData));
+}
+
+async function hmac(secret: string, message: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+}
+
+const readExpiry = (value: string | undefined, now: number) => {
+  const exp = Number(value);
+  return Number.isInteger(exp) && exp >= Math.floor(now / 1000) ? exp : null;
+};
+
+/**
+ * Challenges are `<exp>.<nonce>.<sig>` where sig is HMAC-SHA256(secret,
+ * `udid.<linkId>.<exp>.<nonce>`). Each profile download gets a fresh one.
+ */
+export async function createUdidChallenge(secret: string, linkId: string, now = Date.now()) {
+  const exp = Math.floor(now / 1000) + UDID_CHALLENGE_TTL_SECONDS;
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  const nonce = toBase64Url(bytes.buffer);
+  return `${exp}.${nonce}.${await hmac(secret, `udid.${linkId}.${exp}.${nonce}`)}`;
+}
+
+export async function verifyUdidChallenge(
+  secret: string,
+  linkId: string,
+  token: string | null | undefined,
+  now = Date.now()
+) {
+  if (!token) return false;
+  const [expPart, nonce, signature, extra] = token.split('.');
+  if (!expPart || !nonce || !signature || extra !== undefined) return false;
+  const exp = readExpiry(expPart, now);
+  if (exp === null) return false;
+  return timingSafeEqual(await hmac(secret, `udid.${linkId}.${exp}.${nonce}`), signature);
+}
+
+/** Result page tokens are `<udid>.<exp>.<sig>`, so the page never takes a bare UDID. */
+export async function createUdidResultToken(
+  secret: string,
+  linkId: string,
+  udid: string,
+  now = Date.now()
+) {
+  const exp = Math.floor(now / 1000) + UDID_RESULT_TTL_SECONDS;
+  return `${udid}.${exp}.${await hmac(secret, `udid-result.${linkId}.${udid}.${exp}`)}`;
+}
+
+/** Resolves to the UDID a valid, unexpired result token was issued for. */
+export async function verifyUdidResultToken(
+  secret: string,
+  linkId: string,
+  token: string | null | undefined,
+  now = Date.now()
+) {
+  if (!token) return null;
+  const [udidPart, expPart, signature, extra] = token.split('.');
+  const udid = normalizeUdid(udidPart);
+  if (!udid || !expPart || !signature || extra !== undefined) return null;
+  const exp = readExpiry(expPart, now);
+  if (exp === null) return null;
+  const expected = await hmac(secret, `udid-result.${linkId}.${udid}.${exp}`);
+  return timingSafeEqual(expected, signature) ? udid : null;
+}
+
+type ParsedCertificate = {
+  der: Uint8Array<ArrayBuffer>;
+  tbs: Uint8Array<ArrayBuffer>;
+  serial: Uint8Array;
+  issuer: Uint8Array;
+  subject: Uint8Array;
+  spki: Uint8Array<ArrayBuffer>;
+  keyAlgorithm: string;
+  curve: string | null;
+  signatureHash: string | null;
+  signature: Uint8Array<ArrayBuffer>;
+};
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+const copyBytes = (bytes: Uint8Array) => Uint8Array.from(bytes);
+
+const oidOf = (bytes: Uint8Array, element: DerElement | undefined) =>
+  element && element.tag === 0x06 ? decodeOid(derContent(bytes, element)) : '';
+
+/** BIT STRING content without its unused-bits byte. */
+const bitStringBytes = (bytes: Uint8Array, element: DerElement) =>
+  copyBytes(derContent(bytes, element).subarray(1));
+
+function parseCertificate(der: Uint8Array): ParsedCertificate {
+  const certificate = readDerElement(der, 0);
+  const [tbs, signatureAlgorithm, signature] = readDerChildren(der, certificate);
+  const fields = readDerChildren(der, tbs);
+  const offset = fields[0]?.tag === 0xa0 ? 1 : 0;
+  const [serial, , issuer, , subject, spki] = fields.slice(offset);
+  if (!serial || !issuer || !subject || !spki || !signatureAlgorithm || !signature) {
+    throw new Error('CERTIFICATE_INVALID');
+  }
+  const [keyAlgorithm] = readDerChildren(der, spki);
+  const [keyOid, keyParams] = readDerChildren(der, keyAlgorithm);
+  const [sigOid] = readDerChildren(der, signatureAlgorithm);
+  return {
+    der: copyBytes(derSlice(der, certificate)),
+    tbs: copyBytes(derSlice(der, tbs)),
+    serial: derSlice(der, serial),
+    issuer: derSlice(der, issuer),
+    subject: derSlice(der, subject),
+    spki: copyBytes(derSlice(der, spki)),
+    keyAlgorithm: oidOf(der, keyOid),
+    curve: oidOf(der, keyParams) || null,
+    signatureHash: SIGNATURE_ALGORITHMS[oidOf(der, sigOid)] ?? null,
+    signature: bitStringBytes(der, signature),
+  };
+}
+
+/** ECDSA signatures are DER `SEQUENCE { r, s }` in CMS and X.509; WebCrypto wants r || s. */
+function ecdsaRawSignature(signature: Uint8Array, size: number) {
+  const sequence = readDerElement(signature, 0);
+  const out = new Uint8Array(size * 2);
+  readDerChildren(signature, sequence).forEach((part, index) => {
+    let value = derContent(signature, part);
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    if (value.length > size || index > 1) throw new Error('SIGNATURE_INVALID');
+    out.set(value, index * size + size - value.length);
+  });
+  return out;
+}
+
+async function verifyWithKey(
+  certificate: ParsedCertificate,
+  hash: string,
+  signature: Uint8Array,
+  data: Uint8Array<ArrayBuffer>
+) {
+  try {
+    if (certificate.keyAlgorithm === OID_RSA_ENCRYPTION) {
+      const key = await crypto.subtle.importKey(
+        'spki',
+        certificate.spki,
+        { name: 'RSASSA-PKCS1-v1_5', hash },
+        false,
+        ['verify']
+      );
+      return await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, copyBytes(signature), data);
+    }
+    const curve = certificate.curve ? NAMED_CURVES[certificate.curve] : undefined;
+    if (certificate.keyAlgorithm === OID_EC_PUBLIC_KEY && curve) {
+      const key = await crypto.subtle.importKey(
+        'spki',
+        certificate.spki,
+        { name: 'ECDSA', namedCurve: curve.name },
+        false,
+        ['verify']
+      );
+      return await crypto.subtle.verify(
+        { name: 'ECDSA', hash },
+        key,
+        ecdsaRawSignature(signature, curve.size),
+        data
+      );
+    }
+  } catch {
+    // Malformed keys or signatures simply do not verify.
+  }
+  return false;
+}
+
+/** Walks from the signer up to one of the configured CA certificates. */
+async function chainsToAnchor(
+  signer: ParsedCertificate,
+  intermediates: ParsedCertificate[],
+  anchors: ParsedCertificate[]
+) {
+  let current = signer;
+  for (let depth = 0; depth < 6; depth += 1) {
+    if (anchors.some((anchor) => sameBytes(anchor.der, current.der))) return true;
+    if (!current.signatureHash) return false;
+    const issuers = [...anchors, ...intermediates].filter(
+      (candidate) => candidate !== current && sameBytes(candidate.subject, current.issuer)
+    );
+    let next: ParsedCertificate | null = null;
+    for (const issuer of issuers) {
+      if (await verifyWithKey(issuer, current.signatureHash, current.signature, current.tbs)) {
+        next = issuer;
+        break;
+      }
+    }
+    if (!next) return false;
+    if (anchors.includes(next)) return true;
+    current = next;
+  }
+  return false;
+}
+
+function readEncapsulatedContent(bytes: Uint8Array, element: DerElement): Uint8Array {
+  // Definite OCTET STRING, or a constructed (BER) one split into chunks.
+  if (element.tag === 0x04) return derContent(bytes, element);
+  if (element.tag !== 0x24) throw new Error('CMS_CONTENT_INVALID');
+  const chunks = readDerChildren(bytes, element).map((chunk) => readEncapsulatedContent(bytes, chunk));
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Checks the CMS SignedData envelope the device wraps its attributes in and resolves to the
+ * signed content, or null when no signer verifies. The signing certificate must also chain to
+ * one of the `UDID_DEVICE_CA_CERT` CAs (Apple's device CA); without them nothing verifies, since
+ * any self-signed certificate would otherwise do.
+ */
+async function readSignedCallback(body: Uint8Array, bindings: UdidProfileBindings) {
+  try {
+    const contentInfo = readDerElement(body, 0);
+    const [contentType, explicit] = readDerChildren(body, contentInfo);
+    if (oidOf(body, contentType) !== OID_SIGNED_DATA || explicit?.tag !== 0xa0) return null;
+    const [signedData] = readDerChildren(body, explicit);
+    const parts = readDerChildren(body, signedData);
+    const encapsulated = parts[2];
+    const certificateSet = parts.find((part) => part.tag === 0xa0);
+    const signerInfos = parts[parts.length - 1];
+    if (!encapsulated || !signerInfos || signerInfos.tag !== 0x31) return null;
+
+    const [, eContent] = readDerChildren(body, encapsulated);
+    if (!eContent || eContent.tag !== 0xa0) return null;
+    const [octets] = readDerChildren(body, eContent);
+    if (!octets) return null;
+    const content = copyBytes(readEncapsulatedContent(body, octets));
+
+    const certificates = certificateSet
+      ? readDerChildren(body, certificateSet)
+          .filter((element) => element.tag === 0x30)
+          .map((element) => parseCertificate(derSlice(body, element)))
+      : [];
+    const anchorPem = getUdidDeviceCaPem(bindings);
+    const anchors = anchorPem ? pemBlocks(anchorPem, 'CERTIFICATE').map(parseCertificate) : [];
+    if (!anchors.length) return null;
+
+    for (const signerInfo of readDerChildren(body, signerInfos)) {
+      const fields = readDerChildren(body, signerInfo);
+      const [, sid, digestAlgorithm] = fields;
+      const signedAttributes = fields[3]?.tag === 0xa0 ? fields[3] : null;
+      const signature = fields[fields.length - 1];
+      if (!sid || sid.tag !== 0x30 || !digestAlgorithm || signature?.tag !== 0x04) continue;
+      const [issuer, serial] = readDerChildren(body, sid);
+      const hash = DIGEST_ALGORITHMS[oidOf(body, readDerChildren(body, digestAlgorithm)[0])];
+      const signer = certificates.find(
+        (certificate) =>
+          sameBytes(certificate.issuer, derSlice(body, issuer)) &&
+          sameBytes(certificate.serial, derSlice(body, serial))
+      );
+      if (!hash || !signer) continue;
+
+      let signedBytes: Uint8Array<ArrayBuffer> = content;
+      if (signedAttributes) {
+        const digest = new Uint8Array(await crypto.subtle.digest(hash, content));
+        const messageDigest = readDerChildren(body, signedAttributes)
+          .map((attribute) => readDerChildren(body, attribute))
+          .find(([type]) => oidOf(body, type) === OID_MESSAGE_DIGEST)?.[1];
+        const [value] = messageDigest ? readDerChildren(body, messageDigest) : [];
+        if (!value || !sameBytes(derContent(body, value), digest)) continue;
+        // Signed as a SET, stored as [0] IMPLICIT.
+        signedBytes = copyBytes(derSlice(body, signedAttributes));
+        signedBytes[0] = 0x31;
+      }
+      if (!(await verifyWithKey(signer, hash, derContent(body, signature), signedBytes))) continue;
+      if (!(await chainsToAnchor(signer, certificates, anchors))) continue;
+      return content;
+    }
+  } catch {
+    // Anything that is not a well-formed envelope is rejected below.
+  }
+  return null;
+}
+
+/**
+ * The device posts its attributes as an XML plist wrapped in a CMS envelope signed by its
+ * device certificate. Resolves to null unless the signature verifies and the plist holds a
+ * UDID; the challenge still has to be checked by the caller.
+ */
+export async function readUdidCallback(
+  body: Uint8Array,
+  bindings: UdidProfileBindings
+): Promise<UdidCallbackPayload | null> {
+  const content = await readSignedCallback(body, bindings);
+  if (!content) return null;
+
+  let plist;
+  try {
+    plist = parsePlist(content);
+  } catch {
+    return null;
+  }
+  if (!isPlistDict(plist)) return null;
+  const read = (key: string) => {
+    const value = plist[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  };
+
+  const udid = normalizeUdid(read('UDID'));
+  if (!udid) return null;
+  return {
+    udid,
+    product: read('PRODUCT'),
+    version: read('VERSION'),
+    serial: read('SERIAL'),
+    imei: read('IMEI'),
+    challenge: read('CHALLENGE'),
+  };
+}
+
+export const normalizeUdid = (value: string | null | undefined) => {
+  const trimmed = (value ?? '').trim();
+  return UDID_PATTERN.test(trimmed) ? trimmed.toUpperCase() : null;
+};
+
+export async function recordUdidDevice(
+  DB: D1Database,
+  ownerId: string,
+  linkId: string,
+  payload: UdidCallbackPayload
+): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  await DB.prepare(
+    `INSERT INTO udid_devices (id, owner_id, link_id, udid, product, os_version, serial, imei, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(owner_id, udid) DO UPDATE SET
+       link_id=excluded.link_id,
+       product=COALESCE(excluded.product, udid_devices.product),
+       os_version=COALESCE(excluded.os_version, udid_devices.os_version),
+       serial=COALESCE(excluded.serial, udid_devices.serial),
+       imei=COALESCE(excluded.imei, udid_devices.imei),
+       updated_at=excluded.updated_at`
+  )
+    .bind(
+      crypto.randomUUID(),
+      ownerId,
+      linkId,
+      payload.udid,
+      payload.product,
+      payload.version,
+      payload.serial,
+      payload.imei,
+      now,
+      now
+    )
+    .run();
+}
+
+type DeviceRow = {
+  id: string;
+  owner_id: string;
+  link_id: string | null;
+  link_code?: string | null;
+  udid: string;
+  product: string | null;
+  os_version: string | null;
+  serial: string | null;
+  created_at: number | string | null;
+  updated_at: number | string | null;
+};
+
+const toDevice = (row: DeviceRow): UdidDevice => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  linkId: row.link_id ?? null,
+  linkCode: row.link_code ?? null,
+  udid: row.udid,
+  product: row.product ?? null,
+  osVersion: row.os_version ?? null,
+  serial: row.serial ?? null,
+  createdAt: Number(row.created_at ?? 0) || 0,
+  updatedAt: Number(row.updated_at ?? 0) || 0,
+});
+
+export async function findUdidDevice(
+  DB: D1Database,
+  ownerId: string,
+  udid: string
+): Promise<UdidDevice | null> {
+  const row = await DB.prepare(
+    'SELECT id, owner_id, link_id, udid, product, os_version, serial, created_at, updated_at FROM udid_devices WHERE owner_id=? AND udid=? LIMIT 1'
+  )
+    .bind(ownerId, udid)
+    .first<DeviceRow>()
+    .catch(() => null);
+  return row ? toDevice(row) : null;
+}
+
+export async function listUdidDevices(DB: D1Database, ownerId: string): Promise<UdidDevice[]> {
+  const result = await DB.prepare(
+    `SELECT d.id, d.owner_id, d.link_id, l.code AS link_code, d.udid, d.product, d.os_version, d.serial, d.created_at, d.updated_at
+     FROM udid_devices d
+     LEFT JOIN links l ON l.id = d.link_id
+     WHERE d.owner_id=?
+     ORDER BY d.updated_at DESC`
+  )
+    .bind(ownerId)
+    .all<DeviceRow>();
+  return (result.results ?? []).map(toDevice);
+}
+
+/** Device names in Apple's bulk upload are limited to 50 characters. */
+const appleDeviceName = (device: UdidDevice) =>
+  `${device.product ?? 'iOS device'} ${device.udid.slice(-6)}`.slice(0, 50);
+
+/**
+ * Formats devices in the tab-separated layout accepted by "Register Multiple Devices"
+ * in the Apple Developer portal.
+ */
+export function formatAppleDeviceList(devices: UdidDevice[]): string {
+  const lines = ['Device ID\tDevice Name\tDevice Platform'];
+  for (const device of devices) {
+    lines.push(`${device.udid}\t${appleDeviceName(device).replace(/\t/g, ' ')}\tios`);
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,175 @@
+import type { Crypto as WorkersCrypto, R2Bucket } from '@cloudflare/workers-types';
+import { getAppIconKey, type AppIcon } from './app-icon';
+import {
+  extractPackageMetadata,
+  findMetadataMismatches,
+  type MetadataMismatch,
+  type PackageMetadata,
+} from './package-metadata';
+import type { ProvisioningProfile } from './provisioning';
+import {
+  inspectRegionalUpload,
+  readRegionalUploadRange,
+  writeRegionalUploadObject,
+  type RegionalServerBindings,
+} from './regional-server';
+import type { RegionalNetworkArea } from './network-area';
+import type { RangeReader } from './zip-reader';
+
+export type UploadStorage =
+  | { kind: 'r2'; bucket: R2Bucket }
+  | { kind: 'regional'; area: RegionalNetworkArea; bindings: RegionalServerBindings };
+
+type VerifiableUpload = {
+  platform: 'apk' | 'ipa';
+  key: string;
+  size: number;
+  title?: string | null;
+  bundleId?: string | null;
+  version?: string | null;
+  build?: string | null;
+  sha256?: string | null;
+  provisioning?: ProvisioningProfile | null;
+  iconKey?: string | null;
+};
+
+export type VerifiedUpload = PackageMetadata & {
+  size: number;
+  sha256: string;
+  /** Where the extracted icon was stored, next to the package. */
+  iconKey: string | null;
+};
+
+export class UploadVerificationError extends Error {
+  status: number;
+  mismatches: MetadataMismatch[];
+
+  constructor(message: string, status = 422, mismatches: MetadataMismatch[] = []) {
+    super(message);
+    this.status = status;
+    this.mismatches = mismatches;
+  }
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+async function inspectR2Upload(bucket: R2Bucket, key: string) {
+  const object = await bucket.get(key);
+  if (!object) {
+    throw new UploadVerificationError('MISSING_OBJECT', 404);
+  }
+  const digest = new (crypto as unknown as WorkersCrypto).DigestStream('SHA-256');
+  await object.body.pipeTo(digest);
+  return { size: object.size, sha256: toHex(await digest.digest) };
+}
+
+function createR2RangeReader(bucket: R2Bucket, key: string, size: number): RangeReader {
+  return {
+    size,
+    async read(offset, length) {
+      if (offset < 0 || length < 0 || offset + length > size) {
+        throw new Error('ZIP_RANGE_INVALID');
+      }
+      if (length === 0) return new Uint8Array(0);
+      const object = await bucket.get(key, { range: { offset, length } });
+      if (!object) {
+        throw new UploadVerificationError('MISSING_OBJECT', 404);
+      }
+      return new Uint8Array(await object.arrayBuffer());
+    },
+  };
+}
+
+function createRegionalRangeReader(
+  area: RegionalNetworkArea,
+  bindings: RegionalServerBindings,
+  key: string,
+  size: number
+): RangeReader {
+  return {
+    size,
+    async read(offset, length) {
+      if (offset < 0 || length < 0 || offset + length > size) {
+        throw new Error('ZIP_RANGE_INVALID');
+      }
+      if (length === 0) return new Uint8Array(0);
+      return readRegionalUploadRange(area, bindings, key, offset, length);
+    },
+  };
+}
+
+async function storeUploadIcon(storage: UploadStorage, packageKey: string, icon: AppIcon) {
+  const key = getAppIconKey(packageKey, icon);
+  try {
+    if (storage.kind === 'r2') {
+      await storage.bucket.put(key, icon.bytes, {
+        httpMetadata: { contentType: icon.contentType },
+      });
+    } else {
+      const { area, bindings } = storage;
+      await writeRegionalUploadObject(area, bindings, key, icon.bytes, icon.contentType);
+    }
+    return key;
+  } catch (error) {
+    console.warn('[upload] app icon not stored', key, error);
+    return null;
+  }
+}
+
+/**
+ * Reads the uploaded object back from storage, hashes it and parses its manifest /
+ * Info.plist. Throws when the package cannot be read or disagrees with the client.
+ * The app icon, when one is found, is stored next to the package.
+ */
+export async function verifyUpload(
+  storage: UploadStorage,
+  upload: VerifiableUpload
+): Promise<VerifiedUpload> {
+  const inspected =
+    storage.kind === 'r2'
+      ? await inspectR2Upload(storage.bucket, upload.key)
+      : await inspectRegionalUpload(storage.area, storage.bindings, upload.key);
+  const reader =
+    storage.kind === 'r2'
+      ? createR2RangeReader(storage.bucket, upload.key, inspected.size)
+      : createRegionalRangeReader(storage.area, storage.bindings, upload.key, inspected.size);
+
+  let metadata: PackageMetadata;
+  try {
+    metadata = await extractPackageMetadata(reader, upload.platform);
+  } catch (error) {
+    if (error instanceof UploadVerificationError) throw error;
+    console.warn('[upload] package metadata unreadable', upload.key, error);
+    throw new UploadVerificationError('INVALID_PACKAGE');
+  }
+
+  const mismatches = findMetadataMismatches(upload, metadata);
+  const claimedSha = upload.sha256?.trim().toLowerCase();
+  if (claimedSha && claimedSha !== inspected.sha256) {
+    mismatches.push({ field: 'sha256', expected: inspected.sha256, received: claimedSha });
+  }
+  if (mismatches.length) {
+    throw new UploadVerificationError('METADATA_MISMATCH', 422, mismatches);
+  }
+
+  const iconKey = metadata.icon ? await storeUploadIcon(storage, upload.key, metadata.icon) : null;
+  return { ...metadata, size: inspected.size, sha256: inspected.sha256, iconKey };
+}
+
+/** Replaces client-reported values with the ones read from the stored package. */
+export function applyVerifiedUpload<T extends VerifiableUpload>(upload: T, verified: VerifiedUpload): T {
+  return {
+    ...upload,
+    size: verified.size,
+    sha256: verified.sha256,
+    title: verified.title ?? upload.title ?? null,
+    bundleId: verified.bundleId ?? upload.bundleId ?? null,
+    version: verified.version ?? upload.version ?? null,
+    build: verified.build ?? upload.build ?? null,
+    provisioning: upload.platform === 'ipa' ? verified.provisioning : upload.provisioning ?? null,
+    iconKey: verified.iconKey,
+  };
+}
@@ -0,0 +1,222 @@
+// Sends a single webhook delivery: URL checks, signing, headers and the retry schedule. Used
+// by the app (`src/lib/webhooks.ts`), which sends each event right away, and by the cron
+// worker in `workers/monitor`, which retries failures, so it must not import app modules.
+
+const DELIVERY_TIMEOUT_MS = 5000;
+// Seconds after each failed attempt; the worker runs every 10 minutes, so early retries
+// land on its next run. After the last step the delivery is marked failed.
+export const WEBHOOK_RETRY_DELAYS = [60, 600, 1800, 3600, 3 * 3600, 6 * 3600, 12 * 3600];
+
+// Hostnames that only resolve inside a private or provider network.
+const PRIVATE_HOST_SUFFIXES = ['localhost', 'local', 'localdomain', 'internal', 'intranet', 'lan', 'home.arpa'];
+
+// IPv4 ranges that are not publicly routable, as [network, prefix length].
+const PRIVATE_IPV4_RANGES: Array<[number, number]> = [
+  [0x00000000, 8], // "this" network
+  [0x0a000000, 8], // private
+  [0x64400000, 10], // carrier-grade NAT
+  [0x7f000000, 8], // loopback
+  [0xa9fe0000, 16], // link-local, cloud metadata services
+  [0xac100000, 12], // private
+  [0xc0000000, 24], // IETF protocol assignments
+  [0xc0a80000, 16], // private
+  [0xc6120000, 15], // benchmarking
+  [0xe0000000, 4], // multicast
+  [0xf0000000, 4], // reserved and broadcast
+];
+
+const DNS_OVER_HTTPS_URL = 'https://cloudflare-dns.com/dns-query';
+const DNS_LOOKUP_TIMEOUT_MS = 3000;
+
+// Parses IPv4 the way `inet_aton` does, so `0x7f000001`, `2130706433` and `0177.1` are
+// all recognised as 127.0.0.1.
+const parseIpv4 = (host: string): number | null => {
+  const parts = host.split('.');
+  if (parts.length > 4) return null;
+  const values: number[] = [];
+  for (const part of parts) {
+    let value: number;
+    if (/^0x[0-9a-f]*$/i.test(part)) value = part.length > 2 ? parseInt(part.slice(2), 16) : 0;
+    else if (/^0[0-7]+$/.test(part)) value = parseInt(part.slice(1), 8);
+    else if (/^(0|[1-9]\d*)$/.test(part)) value = Number(part);
+    else return null;
+    values.push(value);
+  }
+  const last = values.pop() as number;
+  if (values.some((value) => value > 0xff) || last >= 2 ** (8 * (4 - values.length))) return null;
+  return values.reduce((sum, value, index) => sum + value * 2 ** (8 * (3 - index)), last);
+};
+
+// Eight 16-bit groups, or null when `host` is not an IPv6 address.
+const parseIpv6 = (host: string): number[] | null => {
+  let text = host;
+  const dotted = /^(.*:)([^:]+\.[^:]+)$/.exec(text);
+  if (dotted) {
+    const ipv4 = parseIpv4(dotted[2]);
+    if (ipv4 === null) return null;
+    text = `${dotted[1]}${Math.floor(ipv4 / 0x10000).toString(16)}:${(ipv4 % 0x10000).toString(16)}`;
+  }
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const toGroups = (half: string) => (half ? half.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+const isPrivateIpv4 = (address: number) =>
+  PRIVATE_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(address / size) === Math.floor(network / size);
+  });
+
+const isPrivateIpv6 = (groups: number[]) => {
+  const embeddedIpv4 = (high: number, low: number) => isPrivateIpv4(high * 0x10000 + low);
+  const zeroPrefix = (count: number) => groups.slice(0, count).every((group) => group === 0);
+  // Unspecified, loopback and IPv4-compatible (::a.b.c.d) addresses.
+  if (zeroPrefix(6)) return embeddedIpv4(groups[6], groups[7]);
+  // IPv4-mapped (::ffff:a.b.c.d).
+  if (zeroPrefix(5) && groups[5] === 0xffff) return embeddedIpv4(groups[6], groups[7]);
+  // NAT64 (64:ff9b::a.b.c.d) and 6to4 (2002:aabb:ccdd::).
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return embeddedIpv4(groups[6], groups[7]);
+  if (groups[0] === 0x2002) return embeddedIpv4(groups[1], groups[2]);
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xffc0) === 0xfec0 || // site-local
+    (groups[0] & 0xff00) === 0xff00 // multicast
+  );
+};
+
+/**
+ * True when `hostname` names this machine, a private network or a provider's internal
+ * service. Compared in canonical form: lower-cased, without a trailing dot or IPv6 brackets,
+ * and with IP literals parsed numerically.
+ */
+function isPrivateWebhookHost(hostname: string) {
+  const host = hostname.trim().toLowerCase().replace(/\.+$/, '').replace(/^\[(.*)\]$/, '$1');
+  if (!host) return true;
+  const ipv4 = parseIpv4(host);
+  if (ipv4 !== null) return isPrivateIpv4(ipv4);
+  if (host.includes(':')) {
+    const ipv6 = parseIpv6(host);
+    return !ipv6 || isPrivateIpv6(ipv6);
+  }
+  // Single-label names only resolve through a local search domain.
+  if (!host.includes('.')) return true;
+  return PRIVATE_HOST_SUFFIXES.some((suffix) => host === suffix || host.endsWith(`.${suffix}`));
+}
+
+// Addresses `hostname` resolves to, looked up over DNS-over-HTTPS since Workers have no
+// resolver API.
+async function resolveHostAddresses(hostname: string) {
+  const addresses: string[] = [];
+  for (const type of ['A', 'AAAA']) {
+    const url = new URL(DNS_OVER_HTTPS_URL);
+    url.searchParams.set('name', hostname);
+    url.searchParams.set('type', type);
+    const response = await fetch(url.toString(), {
+      headers: { accept: 'application/dns-json' },
+      signal: AbortSignal.timeout(DNS_LOOKUP_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error('DNS_LOOKUP_FAILED');
+    const body = (await response.json()) as { Answer?: Array<{ type: number; data: string }> };
+    for (const answer of body.Answer ?? []) {
+      if (answer.type === 1 || answer.type === 28) addresses.push(answer.data);
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Checked before every delivery: the stored URL must still pass `normalizeWebhookUrl` and
+ * its hostname must not resolve to a private address. Throws `URL_NOT_ALLOWED`, or
+ * `DNS_LOOKUP_FAILED` when the name cannot be checked.
+ */
+async function assertDeliverableWebhookUrl(input: string) {
+  const normalized = normalizeWebhookUrl(input);
+  if (!normalized) throw new Error('URL_NOT_ALLOWED');
+  const hostname = new URL(normalized).hostname;
+  if (parseIpv4(hostname) !== null || hostname.startsWith('[')) return;
+  const addresses = await resolveHostAddresses(hostname);
+  if (addresses.some((address) => isPrivateWebhookHost(address))) {
+    throw new Error('URL_NOT_ALLOWED');
+  }
+}
+
+/** Webhooks must be public HTTPS URLs; returns the normalized URL or null. */
+export function normalizeWebhookUrl(input: unknown): string | null {
+  if (typeof input !== 'string' || !input.trim() || input.length > 2048) return null;
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) return null;
+  if (isPrivateWebhookHost(url.hostname)) return null;
+  return url.toString();
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * `X-Rudl-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, keyed with the
+ * endpoint secret. Receivers should also reject old timestamps to stop replays.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+export type WebhookDeliveryRequest = {
+  id: string;
+  eventId: string;
+  event: string;
+  payload: string;
+  url: string;
+  secret: string;
+};
+
+/** Posts one delivery; never throws, failures come back as `error`. */
+export async function sendWebhookDelivery(
+  delivery: WebhookDeliveryRequest,
+  now: number
+): Promise<{ responseStatus: number | null; error: string | null }> {
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    await assertDeliverableWebhookUrl(delivery.url);
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'rudl-webhooks/1',
+        'x-rudl-event': delivery.event,
+        'x-rudl-delivery': delivery.id,
+        'idempotency-key': delivery.eventId,
+        'x-rudl-signature': await signWebhookPayload(delivery.secret, now, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `HTTP_${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message || err.name : String(err);
+  }
+  return { responseStatus, error };
+}
@@ -0,0 +1,428 @@
+// Outgoing member webhooks. Every event is stored as a delivery row first, then sent once
+// right away; deliveries that fail are retried by the cron worker in `workers/monitor`.
+// Both send through `./webhook-delivery`, which holds the signing, backoff and URL checks.
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { DistributionLink } from './distribution';
+import { sendWebhookDelivery, WEBHOOK_RETRY_DELAYS } from './webhook-delivery';
+
+export const WEBHOOK_EVENTS = [
+  'link.created',
+  'link.updated',
+  'link.deleted',
+  'download.recorded',
+  'balance.low',
+  'order.paid',
+  'order.failed',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export type WebhookEndpoint = {
+  id: string;
+  ownerId: string;
+  url: string;
+  events: WebhookEvent[];
+  /** `balance.low` fires when the balance drops to or below this many points. */
+  balanceThreshold: number;
+  isActive: boolean;
+  createdAt: number;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: number;
+  deliveredAt: number | null;
+};
+
+export const MAX_WEBHOOKS_PER_OWNER = 10;
+export const DEFAULT_BALANCE_THRESHOLD = 100;
+const SECRET_PREFIX = 'whsec_';
+
+type EndpointRow = {
+  id: string;
+  owner_id: string;
+  url: string;
+  secret: string;
+  events: string | null;
+  balance_threshold: number | string | null;
+  is_active: number | string | null;
+  created_at: number | string;
+};
+
+type DeliveryRow = {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event: string;
+  payload: string;
+  status: string;
+  attempts: number | string | null;
+  next_attempt_at: number | string | null;
+  response_status: number | string | null;
+  error: string | null;
+  created_at: number | string;
+  delivered_at: number | string | null;
+};
+
+let webhookTablesReady: Promise<void> | null = null;
+
+const ensureWebhookTables = (DB: D1Database) => {
+  if (!webhookTablesReady) {
+    webhookTablesReady = DB.batch([
+      DB.prepare(
+        `CREATE TABLE IF NOT EXISTS webhook_endpoints (
+          id TEXT PRIMARY KEY,
+          owner_id TEXT NOT NULL,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          events TEXT NOT NULL,
+          balance_threshold INTEGER NOT NULL DEFAULT ${DEFAULT_BALANCE_THRESHOLD},
+          is_active INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL
+        )`
+      ),
+      DB.prepare(
+        `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          endpoint_id TEXT NOT NULL,
+          owner_id TEXT NOT NULL,
+          event_id TEXT NOT NULL,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER,
+          response_status INTEGER,
+          error TEXT,
+          created_at INTEGER NOT NULL,
+          delivered_at INTEGER
+        )`
+      ),
+    ])
+      .then(() => undefined)
+      .catch((error) => {
+        webhookTablesReady = null;
+        throw error;
+      });
+  }
+  return webhookTablesReady;
+};
+
+const toNumberOrNull = (value: number | string | null | undefined) => {
+  if (value === null || value === undefined || value === '') return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+};
+
+const isWebhookEvent = (value: unknown): value is WebhookEvent =>
+  typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+
+const parseEvents = (value: string | null) =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(isWebhookEvent);
+
+const toEndpoint = (row: EndpointRow): WebhookEndpoint => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  url: row.url,
+  events: parseEvents(row.events),
+  balanceThreshold: toNumberOrNull(row.balance_threshold) ?? DEFAULT_BALANCE_THRESHOLD,
+  isActive: Number(row.is_active ?? 1) === 1,
+  createdAt: toNumberOrNull(row.created_at) ?? 0,
+});
+
+const toDelivery = (row: DeliveryRow): WebhookDelivery => ({
+  id: row.id,
+  endpointId: row.endpoint_id,
+  eventId: row.event_id,
+  event: isWebhookEvent(row.event) ? row.event : 'link.updated',
+  status: row.status === 'succeeded' || row.status === 'failed' ? row.status : 'pending',
+  attempts: toNumberOrNull(row.attempts) ?? 0,
+  nextAttemptAt: toNumberOrNull(row.next_attempt_at),
+  responseStatus: toNumberOrNull(row.response_status),
+  error: row.error,
+  createdAt: toNumberOrNull(row.created_at) ?? 0,
+  deliveredAt: toNumberOrNull(row.delivered_at),
+});
+
+/** Returns the unique, known events in `input`, or null when none are valid. */
+export function normalizeWebhookEvents(input: unknown): WebhookEvent[] | null {
+  if (!Array.isArray(input)) return null;
+  const events = WEBHOOK_EVENTS.filter((event) => input.includes(event));
+  return events.length ? events : null;
+}
+
+/** A whole number of points; undefined when the field was left out, null when invalid. */
+export function normalizeBalanceThreshold(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const numeric = Number(value);
+  return Number.isInteger(numeric) && numeric >= 0 ? numeric : null;
+}
+
+export async function listWebhookEndpoints(DB: D1Database, ownerId: string) {
+  await ensureWebhookTables(DB);
+  const result = await DB.prepare(
+    'SELECT * FROM webhook_endpoints WHERE owner_id=? ORDER BY created_at DESC'
+  )
+    .bind(ownerId)
+    .all<EndpointRow>();
+  return (result.results ?? []).map(toEndpoint);
+}
+
+/** Creates an endpoint; `secret` signs every delivery and is only returned here. */
+export async function createWebhookEndpoint(
+  DB: D1Database,
+  ownerId: string,
+  input: { url: string; events: WebhookEvent[]; balanceThreshold?: number | null }
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  await ensureWebhookTables(DB);
+  const count = await DB.prepare('SELECT COUNT(*) AS count FROM webhook_endpoints WHERE owner_id=?')
+    .bind(ownerId)
+    .first<{ count: number }>();
+  if ((count?.count ?? 0) >= MAX_WEBHOOKS_PER_OWNER) {
+    throw new Error('WEBHOOK_LIMIT_REACHED');
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const secret = `${SECRET_PREFIX}${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+  const endpoint: WebhookEndpoint = {
+    id: crypto.randomUUID(),
+    ownerId,
+    url: input.url,
+    events: input.events,
+    balanceThreshold: input.balanceThreshold ?? DEFAULT_BALANCE_THRESHOLD,
+    isActive: true,
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+  await DB.prepare(
+    `INSERT INTO webhook_endpoints (id, owner_id, url, secret, events, balance_threshold, is_active, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, 1, ?)`
+  )
+    .bind(
+      endpoint.id,
+      ownerId,
+      endpoint.url,
+      secret,
+      endpoint.events.join(','),
+      endpoint.balanceThreshold,
+      endpoint.createdAt
+    )
+    .run();
+  return { endpoint, secret };
+}
+
+/** Returns false when the endpoint does not exist or belongs to someone else. */
+export async function updateWebhookEndpoint(
+  DB: D1Database,
+  ownerId: string,
+  id: string,
+  input: { events?: WebhookEvent[]; balanceThreshold?: number; isActive?: boolean }
+) {
+  await ensureWebhookTables(DB);
+  const assignments: Array<[string, string | number]> = [];
+  if (input.events) assignments.push(['events', input.events.join(',')]);
+  if (input.balanceThreshold !== undefined) assignments.push(['balance_threshold', input.balanceThreshold]);
+  if (input.isActive !== undefined) assignments.push(['is_active', input.isActive ? 1 : 0]);
+  if (!assignments.length) return true;
+  const result = await DB.prepare(
+    `UPDATE webhook_endpoints SET ${assignments.map(([column]) => `${column}=?`).join(', ')}
+     WHERE id=? AND owner_id=?`
+  )
+    .bind(...assignments.map(([, value]) => value), id, ownerId)
+    .run();
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+export async function deleteWebhookEndpoint(DB: D1Database, ownerId: string, id: string) {
+  await ensureWebhookTables(DB);
+  const result = await DB.prepare('DELETE FROM webhook_endpoints WHERE id=? AND owner_id=?')
+    .bind(id, ownerId)
+    .run();
+  if ((result.meta?.changes ?? 0) === 0) return false;
+  await DB.prepare('DELETE FROM webhook_deliveries WHERE endpoint_id=?').bind(id).run();
+  return true;
+}
+
+export async function listWebhookDeliveries(
+  DB: D1Database,
+  ownerId: string,
+  options: { endpointId?: string | null; limit?: number } = {}
+) {
+  await ensureWebhookTables(DB);
+  const limit = Math.min(Math.max(options.limit ?? 50, 1), 200);
+  const statement = options.endpointId
+    ? DB.prepare(
+        `SELECT * FROM webhook_deliveries WHERE owner_id=? AND endpoint_id=?
+         ORDER BY created_at DESC LIMIT ?`
+      ).bind(ownerId, options.endpointId, limit)
+    : DB.prepare(
+        'SELECT * FROM webhook_deliveries WHERE owner_id=? ORDER BY created_at DESC LIMIT ?'
+      ).bind(ownerId, limit);
+  const result = await statement.all<DeliveryRow>();
+  return (result.results ?? []).map(toDelivery);
+}
+
+async function attemptDelivery(DB: D1Database, delivery: DeliveryRow, endpoint: EndpointRow) {
+  const now = Math.floor(Date.now() / 1000);
+  const attempts = (toNumberOrNull(delivery.attempts) ?? 0) + 1;
+  const { responseStatus, error } = await sendWebhookDelivery(
+    {
+      id: delivery.id,
+      eventId: delivery.event_id,
+      event: delivery.event,
+      payload: delivery.payload,
+      url: endpoint.url,
+      secret: endpoint.secret,
+    },
+    now
+  );
+
+  const succeeded = error === null;
+  const retryDelay = WEBHOOK_RETRY_DELAYS[attempts - 1];
+  const status: WebhookDeliveryStatus = succeeded ? 'succeeded' : retryDelay === undefined ? 'failed' : 'pending';
+  await DB.prepare(
+    `UPDATE webhook_deliveries
+     SET status=?, attempts=?, next_attempt_at=?, response_status=?, error=?, delivered_at=?
+     WHERE id=?`
+  )
+    .bind(
+      status,
+      attempts,
+      status === 'pending' ? now + (retryDelay ?? 0) : null,
+      responseStatus,
+      error ? error.slice(0, 500) : null,
+      succeeded ? now : null,
+      delivery.id
+    )
+    .run();
+}
+
+async function queueDeliveries(
+  DB: D1Database,
+  endpoints: EndpointRow[],
+  eventId: string,
+  event: WebhookEvent,
+  payload: string
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const deliveries: DeliveryRow[] = endpoints.map((endpoint) => ({
+    id: crypto.randomUUID(),
+    endpoint_id: endpoint.id,
+    event_id: eventId,
+    event,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: now,
+    response_status: null,
+    error: null,
+    created_at: now,
+    delivered_at: null,
+  }));
+  await DB.batch(
+    deliveries.map((delivery, index) =>
+      DB.prepare(
+        `INSERT INTO webhook_deliveries (id, endpoint_id, owner_id, event_id, event, payload, status, attempts, next_attempt_at, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?)`
+      ).bind(delivery.id, delivery.endpoint_id, endpoints[index].owner_id, eventId, event, payload, now, now)
+    )
+  );
+  await Promise.all(
+    deliveries.map((delivery, index) => attemptDelivery(DB, delivery, endpoints[index]))
+  );
+}
+
+/**
+ * Sends `event` to the owner's active endpoints that subscribe to it. Never throws: a broken
+ * receiver must not fail the download, payment or edit that triggered the event.
+ */
+export async function emitWebhookEvent(
+  DB: D1Database,
+  ownerId: string | null | undefined,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  filter?: (endpoint: WebhookEndpoint) => boolean
+) {
+  const owner = ownerId?.trim();
+  if (!owner) return;
+  try {
+    await ensureWebhookTables(DB);
+    const result = await DB.prepare(
+      'SELECT * FROM webhook_endpoints WHERE owner_id=? AND is_active=1'
+    )
+      .bind(owner)
+      .all<EndpointRow>();
+    const endpoints = (result.results ?? []).filter((row) => {
+      const endpoint = toEndpoint(row);
+      return endpoint.events.includes(event) && (!filter || filter(endpoint));
+    });
+    if (!endpoints.length) return;
+
+    const eventId = crypto.randomUUID();
+    const payload = JSON.stringify({
+      id: eventId,
+      type: event,
+      createdAt: Math.floor(Date.now() / 1000),
+      data,
+    });
+    await queueDeliveries(DB, endpoints, eventId, event, payload);
+  } catch (error) {
+    console.error('[webhooks] emit failed', event, error);
+  }
+}
+
+/** Fires `balance.low` for endpoints whose threshold the balance just dropped to or below. */
+export async function emitBalanceLowWebhooks(
+  DB: D1Database,
+  ownerId: string | null | undefined,
+  previousBalance: number,
+  currentBalance: number
+) {
+  if (!Number.isFinite(previousBalance) || !Number.isFinite(currentBalance)) return;
+  if (currentBalance >= previousBalance) return;
+  await emitWebhookEvent(
+    DB,
+    ownerId,
+    'balance.low',
+    { balance: currentBalance, previousBalance },
+    (endpoint) => previousBalance > endpoint.balanceThreshold && currentBalance <= endpoint.balanceThreshold
+  );
+}
+
+/** Sends a logged delivery again as a new delivery with the same event ID. */
+export async function redeliverWebhook(DB: D1Database, ownerId: string, deliveryId: string) {
+  await ensureWebhookTables(DB);
+  const delivery = await DB.prepare('SELECT * FROM webhook_deliveries WHERE id=? AND owner_id=?')
+    .bind(deliveryId, ownerId)
+    .first<DeliveryRow>();
+  if (!delivery) return false;
+  const endpoint = await DB.prepare('SELECT * FROM webhook_endpoints WHERE id=? AND owner_id=?')
+    .bind(delivery.endpoint_id, ownerId)
+    .first<EndpointRow>();
+  if (!endpoint) return false;
+  const event = isWebhookEvent(delivery.event) ? delivery.event : null;
+  if (!event) return false;
+  await queueDeliveries(DB, [endpoint], delivery.event_id, event, delivery.payload);
+  return true;
+}
+
+export const toLinkWebhookData = (link: DistributionLink) => ({
+  id: link.id,
+  code: link.code,
+  title: link.title,
+  bundleId: link.bundleId,
+  apkVersion: link.apkVersion,
+  ipaVersion: link.ipaVersion,
+  networkArea: link.networkArea,
+  isActive: link.isActive,
+});
@@ -0,0 +1,138 @@
+// Reads individual entries out of a ZIP archive through ranged reads, so APK/IPA
+// uploads can be inspected on the edge without loading the whole package.
+
+export type RangeReader = {
+  size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+};
+
+export type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const MAX_EOCD_SCAN = 0xffff + 22;
+const MAX_CENTRAL_DIRECTORY_SIZE = 32 * 1024 * 1024;
+const DEFAULT_MAX_ENTRY_SIZE = 8 * 1024 * 1024;
+
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const readUint64 = (data: DataView, offset: number) =>
+  data.getUint32(offset, true) + data.getUint32(offset + 4, true) * 0x100000000;
+
+export async function readZipEntries(reader: RangeReader): Promise<ZipEntry[]> {
+  const tailLength = Math.min(reader.size, MAX_EOCD_SCAN);
+  const tailStart = reader.size - tailLength;
+  const tail = await reader.read(tailStart, tailLength);
+  const tailView = view(tail);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i -= 1) {
+    if (tailView.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('ZIP_EOCD_NOT_FOUND');
+  }
+
+  let entryCount = tailView.getUint16(eocd + 10, true);
+  let directorySize = tailView.getUint32(eocd + 12, true);
+  let directoryOffset = tailView.getUint32(eocd + 16, true);
+
+  const locator = eocd - 20;
+  if (locator >= 0 && tailView.getUint32(locator, true) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64Offset = readUint64(tailView, locator + 8);
+    const record = view(await reader.read(zip64Offset, 56));
+    if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('ZIP64_EOCD_INVALID');
+    }
+    entryCount = readUint64(record, 32);
+    directorySize = readUint64(record, 40);
+    directoryOffset = readUint64(record, 48);
+  }
+
+  if (directorySize > MAX_CENTRAL_DIRECTORY_SIZE || directoryOffset + directorySize > reader.size) {
+    throw new Error('ZIP_DIRECTORY_INVALID');
+  }
+
+  const directory = await reader.read(directoryOffset, directorySize);
+  const directoryView = view(directory);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let cursor = 0;
+  for (let index = 0; index < entryCount && cursor + 46 <= directory.length; index += 1) {
+    if (directoryView.getUint32(cursor, true) !== CENTRAL_ENTRY_SIGNATURE) {
+      throw new Error('ZIP_DIRECTORY_INVALID');
+    }
+    const method = directoryView.getUint16(cursor + 10, true);
+    let compressedSize = directoryView.getUint32(cursor + 20, true);
+    let uncompressedSize = directoryView.getUint32(cursor + 24, true);
+    const nameLength = directoryView.getUint16(cursor + 28, true);
+    const extraLength = directoryView.getUint16(cursor + 30, true);
+    const commentLength = directoryView.getUint16(cursor + 32, true);
+    let localHeaderOffset = directoryView.getUint32(cursor + 42, true);
+    const name = decoder.decode(directory.subarray(cursor + 46, cursor + 46 + nameLength));
+
+    // ZIP64 extra field: only the values saturated in the fixed header are present, in this order.
+    let extra = cursor + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directoryView.getUint16(extra, true);
+      const size = directoryView.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = readUint64(directoryView, field);
+          field += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64(directoryView, field);
+          field += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = readUint64(directoryView, field);
+        }
+      }
+      extra += 4 + size;
+    }
+
+    entries.push({ name, method, compressedSize, uncompressedSize, localHeaderOffset });
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function readZipEntry(
+  reader: RangeReader,
+  entry: ZipEntry,
+  maxSize = DEFAULT_MAX_ENTRY_SIZE
+): Promise<Uint8Array> {
+  if (entry.uncompressedSize > maxSize || entry.compressedSize > maxSize) {
+    throw new Error('ZIP_ENTRY_TOO_LARGE');
+  }
+  const header = view(await reader.read(entry.localHeaderOffset, 30));
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error('ZIP_LOCAL_HEADER_INVALID');
+  }
+  const dataOffset =
+    entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = await reader.read(dataOffset, entry.compressedSize);
+  if (entry.method === 0) return data;
+  if (entry.method === 8) return inflateRaw(data);
+  throw new Error('ZIP_METHOD_UNSUPPORTED');
+}
@@ -0,0 +1,68 @@
+// Trims hourly download stats and the download event log to their retention windows. The
+// app writes every download to `link_download_stats` (per day) and
+// `link_download_stats_hourly` in the same batch, so the daily rows already hold the
+// roll-up and older hours can simply be deleted. Keep the hourly default and cap in step
+// with `resolveHourlyStatsRetentionDays` in the app.
+
+export type DownloadStatsEnv = {
+  /** Days of hourly rows to keep; set it to the same value as the app's variable. */
+  HOURLY_STATS_RETENTION_DAYS?: string;
+  /** Days of per-download events to keep (default 90). */
+  DOWNLOAD_EVENT_RETENTION_DAYS?: string;
+};
+
+const DEFAULT_RETENTION_DAYS = 14;
+const MAX_RETENTION_DAYS = 90;
+const DEFAULT_EVENT_RETENTION_DAYS = 90;
+const MAX_EVENT_RETENTION_DAYS = 730;
+
+const resolveRetentionDays = (value: unknown, fallback: number, max: number) => {
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric < 1) return fallback;
+  return Math.min(numeric, max);
+};
+
+const hasTable = async (DB: D1Database, name: string) =>
+  Boolean(
+    await DB.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name=?`)
+      .bind(name)
+      .first<{ name: string }>()
+      .catch(() => null)
+  );
+
+export async function trimHourlyDownloadStats(DB: D1Database, env: DownloadStatsEnv) {
+  if (!(await hasTable(DB, 'link_download_stats_hourly'))) return;
+
+  const retentionDays = resolveRetentionDays(
+    env.HOURLY_STATS_RETENTION_DAYS,
+    DEFAULT_RETENTION_DAYS,
+    MAX_RETENTION_DAYS
+  );
+  // Same `YYYY-MM-DDTHH` keys as the app; whole hours older than the window go.
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 3600 * 1000).toISOString().slice(0, 13);
+  const result = await DB.prepare('DELETE FROM link_download_stats_hourly WHERE hour < ?')
+    .bind(cutoff)
+    .run();
+  const removed = result.meta?.changes ?? 0;
+  if (removed) {
+    console.log('[download-stats] trimmed hourly rows', removed);
+  }
+}
+
+export async function trimDownloadEvents(DB: D1Database, env: DownloadStatsEnv) {
+  if (!(await hasTable(DB, 'link_download_events'))) return;
+
+  const retentionDays = resolveRetentionDays(
+    env.DOWNLOAD_EVENT_RETENTION_DAYS,
+    DEFAULT_EVENT_RETENTION_DAYS,
+    MAX_EVENT_RETENTION_DAYS
+  );
+  const cutoff = Math.floor(Date.now() / 1000) - retentionDays * 24 * 3600;
+  const result = await DB.prepare('DELETE FROM link_download_events WHERE created_at < ?')
+    .bind(cutoff)
+    .run();
+  const removed = result.meta?.changes ?? 0;
+  if (removed) {
+    console.log('[download-stats] purged download events', removed);
+  }
+}
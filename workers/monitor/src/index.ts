@@ -1,4 +1,8 @@
-export interface Env {
+import { trimDownloadEvents, trimHourlyDownloadStats, type DownloadStatsEnv } from './download-stats';
+import { runLinkSchedules, type LinkScheduleEnv } from './link-schedules';
+import { retryWebhookDeliveries } from './webhooks';
+
+export interface Env extends LinkScheduleEnv, DownloadStatsEnv {
   DB: D1Database;
 }
 
@@ -179,5 +183,25 @@ export default {
     } catch (error) {
       console.error('[monitor] scheduled execution failed', error);
     }
+    try {
+      await retryWebhookDeliveries(env.DB);
+    } catch (error) {
+      console.error('[webhooks] scheduled retry failed', error);
+    }
+    try {
+      await runLinkSchedules(env);
+    } catch (error) {
+      console.error('[link-schedules] scheduled run failed', error);
+    }
+    try {
+      await trimHourlyDownloadStats(env.DB, env);
+    } catch (error) {
+      console.error('[download-stats] hourly trim failed', error);
+    }
+    try {
+      await trimDownloadEvents(env.DB, env);
+    } catch (error) {
+      console.error('[download-stats] event purge failed', error);
+    }
   },
 };
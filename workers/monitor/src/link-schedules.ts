@@ -0,0 +1,28 @@
+// Scheduled publish/unpublish of links runs in the app, which can also re-publish CN/RU
+// links to their regional servers; the cron only triggers it.
+
+export type LinkScheduleEnv = {
+  /** Origin of the Pages app, e.g. https://app.example.com. */
+  APP_BASE_URL?: string;
+  /** Shared with the app's `CRON_SECRET`. */
+  CRON_SECRET?: string;
+};
+
+export async function runLinkSchedules(env: LinkScheduleEnv) {
+  const baseUrl = env.APP_BASE_URL?.trim().replace(/\/+$/, '');
+  if (!baseUrl || !env.CRON_SECRET) {
+    console.warn('[link-schedules] APP_BASE_URL or CRON_SECRET missing, skip');
+    return;
+  }
+  const response = await fetch(`${baseUrl}/api/cron/link-schedules`, {
+    method: 'POST',
+    headers: { authorization: `Bearer ${env.CRON_SECRET}` },
+    signal: AbortSignal.timeout(25000),
+  });
+  const text = await response.text().catch(() => '');
+  if (!response.ok) {
+    console.error('[link-schedules] app rejected run', response.status, text);
+    return;
+  }
+  console.log('[link-schedules] done', text);
+}
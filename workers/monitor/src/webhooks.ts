@@ -0,0 +1,90 @@
+// Retries webhook deliveries that failed when the app first sent them. Signing, headers,
+// backoff and the URL checks come from `src/lib/webhook-delivery.ts`, shared with the app.
+
+import { sendWebhookDelivery, WEBHOOK_RETRY_DELAYS } from '../../../src/lib/webhook-delivery';
+
+type DueDelivery = {
+  id: string;
+  event_id: string;
+  event: string;
+  payload: string;
+  attempts: number | string | null;
+  url: string;
+  secret: string;
+};
+
+const BATCH_SIZE = 50;
+// The member delivery log only needs recent history.
+const RETENTION_SECONDS = 30 * 24 * 3600;
+
+async function hasWebhookTables(DB: D1Database) {
+  const row = await DB.prepare(
+    `SELECT COUNT(*) AS count FROM sqlite_master WHERE type='table' AND name IN ('webhook_endpoints', 'webhook_deliveries')`
+  )
+    .first<{ count: number }>()
+    .catch(() => null);
+  return (row?.count ?? 0) === 2;
+}
+
+async function retryDelivery(DB: D1Database, delivery: DueDelivery, now: number) {
+  const attempts = Number(delivery.attempts ?? 0) + 1;
+  const { responseStatus, error } = await sendWebhookDelivery(
+    {
+      id: delivery.id,
+      eventId: delivery.event_id,
+      event: delivery.event,
+      payload: delivery.payload,
+      url: delivery.url,
+      secret: delivery.secret,
+    },
+    now
+  );
+
+  const delay = WEBHOOK_RETRY_DELAYS[attempts - 1];
+  const status = error === null ? 'succeeded' : delay === undefined ? 'failed' : 'pending';
+  await DB.prepare(
+    `UPDATE webhook_deliveries
+     SET status=?, attempts=?, next_attempt_at=?, response_status=?, error=?, delivered_at=?
+     WHERE id=?`
+  )
+    .bind(
+      status,
+      attempts,
+      status === 'pending' ? now + (delay ?? 0) : null,
+      responseStatus,
+      error ? error.slice(0, 500) : null,
+      error === null ? now : null,
+      delivery.id
+    )
+    .run();
+  if (error) {
+    console.warn('[webhooks] delivery failed', delivery.id, attempts, error);
+  }
+}
+
+export async function retryWebhookDeliveries(DB: D1Database) {
+  if (!(await hasWebhookTables(DB))) return;
+  const now = Math.floor(Date.now() / 1000);
+
+  // Deliveries of paused or deleted endpoints are given up instead of piling up.
+  await DB.prepare(
+    `UPDATE webhook_deliveries SET status='failed', next_attempt_at=NULL, error='ENDPOINT_DISABLED'
+     WHERE status='pending' AND endpoint_id NOT IN (SELECT id FROM webhook_endpoints WHERE is_active=1)`
+  ).run();
+
+  const result = await DB.prepare(
+    `SELECT d.id, d.event_id, d.event, d.payload, d.attempts, e.url, e.secret
+     FROM webhook_deliveries d JOIN webhook_endpoints e ON e.id = d.endpoint_id
+     WHERE d.status='pending' AND d.next_attempt_at <= ?
+     ORDER BY d.next_attempt_at ASC LIMIT ?`
+  )
+    .bind(now, BATCH_SIZE)
+    .all<DueDelivery>();
+  for (const delivery of result.results ?? []) {
+    await retryDelivery(DB, delivery, now);
+  }
+
+  await DB.prepare('DELETE FROM webhook_deliveries WHERE created_at < ? AND status != ?')
+    .bind(now - RETENTION_SECONDS, 'pending')
+    .run();
+}